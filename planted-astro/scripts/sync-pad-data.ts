@@ -0,0 +1,403 @@
+/**
+ * PAD Data Sync
+ *
+ * Pulls venues and dishes from the Planted Availability Database and writes
+ * them to src/data/padSnapshot.json in the shapes the store locator uses
+ * (ChainLocation / ChainDish / DeliveryRestaurant). Runs before every build.
+ *
+ * - Venues with a chain_id become chain locations, the rest with dishes and a
+ *   delivery link become delivery restaurants.
+ * - If PAD can't be reached (or returns nothing) the committed snapshot is
+ *   kept and the build carries on.
+ * - Prints what changed compared to the previous snapshot.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-pad-data.ts                     # from the public API
+ *   npx tsx scripts/sync-pad-data.ts --from-json <file>  # from a PAD JSON export
+ *   npx tsx scripts/sync-pad-data.ts --offline           # keep the snapshot
+ *
+ * Environment:
+ *   PAD_API_URL   - API base URL (default: production)
+ *   PAD_OFFLINE=1 - same as --offline (e.g. for local builds)
+ *
+ * A JSON export has the form { venues: PadVenue[], dishes: PadDish[], chains?: { id, name }[] }.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { PAD_API_BASE, type PadDish, type DishesResponse, type PadVenue, type VenuesResponse } from '../src/data/padApi';
+import { chains, type ChainDish, type ChainLocation, type DeliveryPlatformLink } from '../src/data/chainRestaurants';
+import type { DeliveryPlatform, DeliveryRestaurant, PlantedDish } from '../src/data/deliveryRestaurants';
+import type { PadSnapshot } from '../src/data/padSnapshot';
+
+const SNAPSHOT_PATH = fileURLToPath(new URL('../src/data/padSnapshot.json', import.meta.url));
+
+const REQUEST_TIMEOUT_MS = 15000;
+const PAGE_SIZE = 100;
+
+type ChainCountry = ChainLocation['country'];
+type DeliveryCountry = DeliveryRestaurant['country'];
+
+const CHAIN_COUNTRIES: ChainCountry[] = ['ch', 'de', 'at', 'lu', 'uk', 'nl'];
+const DELIVERY_COUNTRIES: DeliveryCountry[] = ['ch', 'de', 'at', 'nl', 'uk', 'fr', 'it', 'es'];
+
+// PAD delivery partner -> site platform name (partners the site can't show are dropped)
+const PLATFORMS: Record<string, { name: string; displayName: string }> = {
+    'uber_eats': { name: 'uber-eats', displayName: 'Uber Eats' },
+    'wolt': { name: 'wolt', displayName: 'Wolt' },
+    'lieferando': { name: 'lieferando', displayName: 'Lieferando' },
+    'just_eat': { name: 'just-eat', displayName: 'Just Eat' },
+    'deliveroo': { name: 'deliveroo', displayName: 'Deliveroo' },
+    'smood': { name: 'smood', displayName: 'Smood' },
+};
+const CHAIN_PLATFORMS = ['wolt', 'lieferando', 'uber-eats', 'just-eat', 'smood', 'own'];
+const DELIVERY_PLATFORMS = ['wolt', 'lieferando', 'uber-eats', 'deliveroo', 'just-eat', 'own'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    'EUR': '€',
+    'GBP': '£',
+};
+
+interface PadExport {
+    venues: PadVenue[];
+    dishes: PadDish[];
+    chains?: { id: string; name: string }[];
+}
+
+interface CLIOptions {
+    fromJson?: string;
+    offline: boolean;
+}
+
+function parseArgs(args: string[]): CLIOptions {
+    const options: CLIOptions = { offline: process.env.PAD_OFFLINE === '1' };
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--from-json') {
+            options.fromJson = args[++i];
+        } else if (args[i] === '--offline') {
+            options.offline = true;
+        }
+    }
+
+    return options;
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+async function getJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`${url} returned ${response.status}`);
+    }
+    return await response.json() as T;
+}
+
+interface Page {
+    has_more: boolean;
+    next_cursor: string | null;
+}
+
+/**
+ * Follow next_cursor until the last page
+ */
+async function fetchAllPages<T extends Page>(baseUrl: string, path: string, query: Record<string, string>): Promise<T[]> {
+    const pages: T[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const params = new URLSearchParams({ ...query, limit: String(PAGE_SIZE) });
+        if (cursor) params.set('cursor', cursor);
+        const page: T = await getJson<T>(`${baseUrl}/${path}?${params.toString()}`);
+        pages.push(page);
+        cursor = page.has_more ? page.next_cursor : null;
+    } while (cursor);
+
+    return pages;
+}
+
+async function fetchAllVenues(baseUrl: string, type: PadVenue['type']): Promise<PadVenue[]> {
+    const pages = await fetchAllPages<VenuesResponse>(baseUrl, 'venues', { type, status: 'active' });
+    return pages.flatMap(page => page.venues);
+}
+
+// One paged listing instead of a venueDetail request per venue
+async function fetchAllDishes(baseUrl: string): Promise<PadDish[]> {
+    const pages = await fetchAllPages<DishesResponse>(baseUrl, 'dishes', {});
+    return pages.flatMap(page => page.dishes.map(result => result.dish));
+}
+
+async function loadFromApi(baseUrl: string): Promise<PadExport> {
+    const venues = [
+        ...await fetchAllVenues(baseUrl, 'restaurant'),
+        ...await fetchAllVenues(baseUrl, 'delivery_kitchen'),
+    ];
+    console.log(`   ${venues.length} venues, loading dishes...`);
+
+    const dishes = await fetchAllDishes(baseUrl);
+    console.log(`   ${dishes.length} dishes`);
+
+    return { venues, dishes };
+}
+
+function loadFromJson(path: string): PadExport {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<PadExport>;
+    if (!Array.isArray(data.venues)) {
+        throw new Error(`${path} has no "venues" array`);
+    }
+    return { venues: data.venues, dishes: data.dishes || [], chains: data.chains };
+}
+
+function readSnapshot(): PadSnapshot | null {
+    if (!existsSync(SNAPSHOT_PATH)) return null;
+    return JSON.parse(readFileSync(SNAPSHOT_PATH, 'utf-8')) as PadSnapshot;
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+function toSiteCountry(country: string | undefined): string {
+    const code = (country || '').toLowerCase();
+    return code === 'gb' ? 'uk' : code;
+}
+
+function formatPrice(amount: number, currency: string): string {
+    const symbol = CURRENCY_SYMBOLS[currency];
+    return symbol ? `${symbol}${amount.toFixed(2)}` : `${currency} ${amount.toFixed(2)}`;
+}
+
+function toPlatformLinks(venue: PadVenue, allowed: string[]): { name: string; url: string; displayName: string }[] {
+    const links: { name: string; url: string; displayName: string }[] = [];
+
+    for (const link of venue.delivery_platforms || []) {
+        // Discovery-synced links name the platform ('uber-eats') and have no active flag
+        const platform = PLATFORMS[(link.partner ?? link.platform ?? '').replace(/-/g, '_')];
+        if (link.active === false || !platform || !allowed.includes(platform.name)) continue;
+        if (links.some(l => l.name === platform.name)) continue;
+        links.push({ name: platform.name, url: link.url, displayName: platform.displayName });
+    }
+
+    return links;
+}
+
+function isVegan(dish: PadDish): boolean | undefined {
+    return dish.dietary_tags?.includes('vegan') || undefined;
+}
+
+function toChainDish(dish: PadDish): ChainDish {
+    const priceByCountry: ChainDish['priceByCountry'] = {};
+    for (const price of dish.prices_by_country || []) {
+        const country = toSiteCountry(price.country) as ChainCountry;
+        if (CHAIN_COUNTRIES.includes(country)) {
+            priceByCountry[country] = formatPrice(price.amount, price.currency);
+        }
+    }
+    const hasCountryPrices = Object.keys(priceByCountry).length > 0;
+
+    return {
+        name: dish.name,
+        description: dish.description || undefined,
+        price: !hasCountryPrices && dish.price ? formatPrice(dish.price.amount, dish.price.currency) : undefined,
+        priceByCountry: hasCountryPrices ? priceByCountry : undefined,
+        plantedProduct: dish.planted_products[0],
+        isVegan: isVegan(dish),
+    };
+}
+
+function toPlantedDish(dish: PadDish): PlantedDish {
+    return {
+        name: dish.name,
+        description: dish.description || '',
+        price: dish.price ? formatPrice(dish.price.amount, dish.price.currency) : undefined,
+        product: dish.planted_products[0],
+        isVegan: isVegan(dish),
+    };
+}
+
+function toChainLocation(venue: PadVenue, dishes: PadDish[], chainNames: Map<string, string>): ChainLocation {
+    const chainId = venue.chain_id!;
+    const chain = chains.find(c => c.id === chainId);
+    const plantedProducts = [...new Set(dishes.flatMap(d => d.planted_products))];
+
+    return {
+        id: venue.id,
+        chainId,
+        chainName: chain?.name || chainNames.get(chainId) || venue.name,
+        name: venue.name,
+        city: venue.address.city,
+        address: venue.address.street || undefined,
+        postalCode: venue.address.postal_code || undefined,
+        country: toSiteCountry(venue.address.country) as ChainCountry,
+        coordinates: { lat: venue.location.latitude, lng: venue.location.longitude },
+        deliveryPlatforms: toPlatformLinks(venue, CHAIN_PLATFORMS) as DeliveryPlatformLink[],
+        plantedProducts: plantedProducts.length > 0 ? plantedProducts : chain?.plantedProducts || [],
+        dishes: dishes.length > 0 ? dishes.map(toChainDish) : undefined,
+    };
+}
+
+function toDeliveryRestaurant(venue: PadVenue, dishes: PadDish[]): DeliveryRestaurant {
+    return {
+        id: venue.id,
+        name: venue.name,
+        country: toSiteCountry(venue.address.country) as DeliveryCountry,
+        city: venue.address.city,
+        cuisine: dishes.find(d => d.cuisine_type)?.cuisine_type || 'Restaurant',
+        dishes: dishes.map(toPlantedDish),
+        deliveryPlatforms: toPlatformLinks(venue, DELIVERY_PLATFORMS) as DeliveryPlatform[],
+        image: venue.logo_url,
+    };
+}
+
+function buildSnapshot(data: PadExport, source: string): PadSnapshot {
+    const chainNames = new Map((data.chains || []).map(c => [c.id, c.name]));
+    const dishesByVenue = new Map<string, PadDish[]>();
+    for (const dish of data.dishes) {
+        if (dish.planted_products.length === 0) continue;
+        dishesByVenue.set(dish.venue_id, [...(dishesByVenue.get(dish.venue_id) || []), dish]);
+    }
+
+    const chainLocations: ChainLocation[] = [];
+    const deliveryRestaurants: DeliveryRestaurant[] = [];
+    let skipped = 0;
+
+    for (const venue of data.venues) {
+        if (venue.type === 'retail' || venue.status !== 'active') continue;
+
+        const dishes = dishesByVenue.get(venue.id) || [];
+        const country = toSiteCountry(venue.address.country);
+
+        if (venue.chain_id && CHAIN_COUNTRIES.includes(country as ChainCountry) && venue.location) {
+            chainLocations.push(toChainLocation(venue, dishes, chainNames));
+        } else if (!venue.chain_id && DELIVERY_COUNTRIES.includes(country as DeliveryCountry) && dishes.length > 0) {
+            const restaurant = toDeliveryRestaurant(venue, dishes);
+            if (restaurant.deliveryPlatforms.length > 0) {
+                deliveryRestaurants.push(restaurant);
+            } else {
+                skipped++;
+            }
+        } else {
+            skipped++;
+        }
+    }
+
+    if (skipped > 0) {
+        console.log(`   Skipped ${skipped} venues (unsupported country, no dishes or no delivery link)`);
+    }
+
+    // Stable order keeps the snapshot diff readable
+    chainLocations.sort((a, b) => a.chainId.localeCompare(b.chainId) || a.id.localeCompare(b.id));
+    deliveryRestaurants.sort((a, b) => a.country.localeCompare(b.country) || a.id.localeCompare(b.id));
+
+    return {
+        generatedAt: new Date().toISOString(),
+        source,
+        chainLocations: JSON.parse(JSON.stringify(chainLocations)),
+        deliveryRestaurants: JSON.parse(JSON.stringify(deliveryRestaurants)),
+    };
+}
+
+// ============================================
+// CHANGE REPORT
+// ============================================
+
+const MAX_REPORT_LINES = 25;
+
+function diffById<T extends { id: string; name: string }>(previous: T[], next: T[]) {
+    const before = new Map(previous.map(item => [item.id, item]));
+    const after = new Map(next.map(item => [item.id, item]));
+
+    const added = next.filter(item => !before.has(item.id));
+    const removed = previous.filter(item => !after.has(item.id));
+    const changed: { item: T; fields: string[] }[] = [];
+
+    for (const item of next) {
+        const old = before.get(item.id);
+        if (!old) continue;
+        const keys = new Set([...Object.keys(old), ...Object.keys(item)]) as Set<keyof T>;
+        const fields = [...keys].filter(key => JSON.stringify(old[key]) !== JSON.stringify(item[key]));
+        if (fields.length > 0) {
+            changed.push({ item, fields: fields.map(String) });
+        }
+    }
+
+    return { added, removed, changed };
+}
+
+function printLines(lines: string[]): void {
+    lines.slice(0, MAX_REPORT_LINES).forEach(line => console.log(line));
+    if (lines.length > MAX_REPORT_LINES) {
+        console.log(`     ...and ${lines.length - MAX_REPORT_LINES} more`);
+    }
+}
+
+function reportChanges<T extends { id: string; name: string }>(label: string, previous: T[], next: T[]): number {
+    const { added, removed, changed } = diffById(previous, next);
+
+    console.log(`\n${label}: ${previous.length} → ${next.length} (+${added.length} / -${removed.length} / ~${changed.length})`);
+    printLines(added.map(item => `   + ${item.name} (${item.id})`));
+    printLines(removed.map(item => `   - ${item.name} (${item.id})`));
+    printLines(changed.map(({ item, fields }) => `   ~ ${item.name} (${item.id}): ${fields.join(', ')}`));
+
+    return added.length + removed.length + changed.length;
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+async function sync(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+    const previous = readSnapshot();
+
+    console.log('\n🌱 PAD data sync');
+    console.log(`${'='.repeat(50)}`);
+
+    if (options.offline) {
+        console.log(`Offline - using snapshot from ${previous?.generatedAt ?? '(none)'}`);
+        return;
+    }
+
+    const baseUrl = process.env.PAD_API_URL || PAD_API_BASE;
+    const source = options.fromJson || baseUrl;
+
+    let next: PadSnapshot;
+    try {
+        console.log(`Loading from ${source}`);
+        const data = options.fromJson ? loadFromJson(options.fromJson) : await loadFromApi(baseUrl);
+        next = buildSnapshot(data, source);
+    } catch (error) {
+        // An explicit export must load; the API being down must not break the build
+        if (options.fromJson || !previous) throw error;
+        console.warn(`⚠️  Could not load PAD data (${error instanceof Error ? error.message : error})`);
+        console.warn(`   Keeping snapshot from ${previous.generatedAt} (${previous.source})`);
+        return;
+    }
+
+    if (next.chainLocations.length === 0 && next.deliveryRestaurants.length === 0 && previous) {
+        console.warn('⚠️  PAD returned no locations - keeping the existing snapshot');
+        return;
+    }
+
+    let changes = next.chainLocations.length + next.deliveryRestaurants.length;
+    if (previous) {
+        console.log(`Changes since ${previous.generatedAt} (${previous.source}):`);
+        changes = reportChanges('Chain locations', previous.chainLocations, next.chainLocations)
+            + reportChanges('Delivery restaurants', previous.deliveryRestaurants, next.deliveryRestaurants);
+    }
+
+    if (changes === 0) {
+        console.log('\n✅ No changes - snapshot left as is');
+        return;
+    }
+
+    writeFileSync(SNAPSHOT_PATH, JSON.stringify(next, null, 2) + '\n');
+    console.log(`\n✅ Wrote ${next.chainLocations.length} chain locations and ${next.deliveryRestaurants.length} delivery restaurants`);
+}
+
+sync().catch(error => {
+    console.error('❌ PAD data sync failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,1678 +0,0 @@
-import type { ChainLocation } from './chainRestaurants';
-
-/**
- * Chain Restaurant Locations - Auto-generated from Firestore
- * Generated: 2025-12-10T18:33:40.500Z
- * Total locations: 125
- */
-
-// Additional chain locations discovered via Smart Discovery Agent
-export const discoveredChainLocations: ChainLocation[] = [
-  // ============================================
-  // BIRDIE BIRDIE CHICKEN (30 locations)
-  // ============================================
-  {
-    id: 'birdie-birdie-chicke-solingen-1',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Solingen Mitte',
-    city: 'Solingen',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-chicken-solingen-mitte', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-chemnitz-2',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Schlosschemnitz',
-    city: 'Chemnitz',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-schlosschemitz', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-essen-3',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Essen-Stoppenberg',
-    city: 'Essen',
-    country: 'de',
-    coordinates: { lat: 51.4556, lng: 7.0116 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-essen-stoppenberg-essen-erlenkampsweg', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-kiel-4',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Wellsee',
-    city: 'Kiel',
-    country: 'de',
-    coordinates: { lat: 54.3233, lng: 10.1228 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-kiel-kiel-marga-faulstich-strasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-leipzig-5',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Lössnig',
-    city: 'Leipzig',
-    country: 'de',
-    coordinates: { lat: 51.3397, lng: 12.3731 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-lossnig-leipzig-bornaische-strasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-6',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Schillerkiez',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/bg/menu/birdie-birdie-schillerkiez', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-leipzig-17',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Connewitz',
-    city: 'Leipzig',
-    country: 'de',
-    coordinates: { lat: 51.3397, lng: 12.3731 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/leipzig/restaurant/birdie-birdie-chicken-connewitz', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-k-ln-20',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Höhenberg',
-    city: 'Köln',
-    country: 'de',
-    coordinates: { lat: 50.9375, lng: 6.9603 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/cologne/restaurant/birdie-birdie-chicken-hoehenberg', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-m-nchen-21',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Trudering',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/munich/restaurant/birdie-birdie-chicken-trudering', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-22',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Friedrichshain',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/berlin/restaurant/birdie-birdie-chicken-rotherstr-fhain', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-23',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Hammerbrook',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://wolt.com/de/deu/hamburg/restaurant/birdie-birdie-chicken-hammerbrook', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-24',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Hamburg-Finkenwerder',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-hamburg-finkenwerder', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-m-nchen-28',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Trudering Delivery',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-trudering/MwdK9WnRUja-ulMvbc9YTQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-35',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Stadtmitte',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-stadtmitte/BibqwWYDXd6ziZGAgAs8ng', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-36',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Prenzlauer Berg',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-prenzlauer-berg/P-S868PmUYyIuX82FFqwvA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-44',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Hamburg- Altona',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-altona-hamburg-kieler-strasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-45',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Hammerbrook',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-chicken-hammerbrook', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-46',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Hamburg Barmbek',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-hamburg-barmbek', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-m-nchen-49',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Trudering München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/da/menu/birdie-birdie-3', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-m-nchen-52',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Trudering München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-3', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-64',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Reinickendorf Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/it/menu/birdie-birdie-chicken-reinickendorf-1', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-66',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Marienfelde Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/birdie-birdie-chicken-marienfelde-1', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-70',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Rudow Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-chicken-rudow', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-71',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Stadtmitte Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/birdie-birdie-stadtmitte', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'birdie-birdie-chicke-hamburg-75',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Wellsee',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-wellsee/9CIztCNbWdyOibkwBc2Wgw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-berlin-81',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/brand-city/berlin-be/birdie-birdie', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-m-nchen-87',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/brand-city/m%C3%BCnchen-by/birdie-birdie', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-93',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Mahlsdorf',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-mahlsdorf/rsvFVeF4UeqDB2dJfJq_qQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-96',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Friedrichshain (lost)',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-friedrichshain-lost/OCs5STSQUeyx9F1pFoYqhw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  {
-    id: 'birdie-birdie-chicke-berlin-98',
-    chainId: 'birdie-birdie',
-    chainName: 'Birdie Birdie Chicken',
-    name: 'Birdie Birdie Chicken Oranienburg',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/birdie-birdie-chicken-oranienburg/1YHoPz7AUm2xHXLzv604Sw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.chicken_tenders'],
-  },
-  // ============================================
-  // DEAN&DAVID (25 locations)
-  // ============================================
-  {
-    id: 'dean-david-basel-cen-basel-7',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Basel Centralbahnplatz',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.eat.ch/dean-david-basel-centralbahnplatz-1', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-linz-linz-9',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Linz',
-    city: 'Linz',
-    country: 'at',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.lieferando.at/speisekarte/dean-david-linz', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-salzburg-salzburg-12',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Salzburg',
-    city: 'Salzburg',
-    country: 'at',
-    coordinates: { lat: 47.8095, lng: 13.055 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.lieferando.at/en/menu/deandavid-salzburg-1', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-basel-cen-basel-16',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Basel Centralbahnplatz',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.just-eat.ch/speisekarte/deandavid-basel-centralbahnplatz', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-k-ln-tran-k-ln-18',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Köln Trankgasse',
-    city: 'Köln',
-    country: 'de',
-    coordinates: { lat: 50.9375, lng: 6.9603 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/cologne/restaurant/deandavid-cologne-trankgasse', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-p-munich-25',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München Pasinger Bahnhof Delivery',
-    city: 'Munich',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-pasinger-bahnhof/op-MSBtkXOqGEI6UI7t7Fg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-o-munich-27',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München Orleansplatz Delivery',
-    city: 'Munich',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-orleansplatz/Y_zlK8gFXnyjUJUjer7Q2w', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-berlin-b--berlin-37',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Berlin Bülowstraße',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-berlin-bulowstrasse/idOCsndLVaiDoMTdsK8ryQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-hamburg-40',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/dean-david-hamburg-stadthoefe', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-hamburg-41',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/it/menu/dean-david-hamburg-stadthoefe', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-hamburg-42',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/deandavid-georgsplatz-hamburg', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'dean-david-m-nchen-m-nchen-48',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/it/menu/deandavid-mnchen-pasing', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-m-nchen-50',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/pl/menu/dean-david-muenchen-leopoldstrasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-m-nchen-51',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/deandavid-mnchen-pasing', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-m-nchen-53',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/deandavid-munchen-bahnhofsplatz', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-m-nchen-54',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/deandavid-mnchen-arnulfpark', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-berlin-berlin-58',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/deandavid-berlin-steglitz', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'dean-david-berlin-berlin-68',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/dean-david-berlin-schoenhauser-allee', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-p-m-nchen-78',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München Parkstadt Delivery',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-parkstadt/IP15Q6xWQpqN34JKCNIVKw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-l-m-nchen-80',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München Leopoldstr. Delivery',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-leopoldstr/4LLB__FYQnaNmGIDibRgow', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'dean-david-m-nchen-5-m-nchen-84',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david (München 5 Höfe)',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-5-hofe/MvU4RVEbWyCg-G1lgDei-g', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-m-nchen-b-m-nchen-86',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david München Bahnhofplatz',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/dean%26david-munchen-bahnhofplatz/GYQEb7ooWe-Tl-q8tZp06w', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-hirscheng-bern-99',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david (Hirschengraben)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/dean%26david-hirschengraben/ggs3VTYbRb6iTc6QEtrvnA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-basel-113',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/basel-bs/dean-david', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'dean-david-z-rich-121',
-    chainId: 'dean-david',
-    chainName: 'dean&david',
-    name: 'dean&david',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/z%C3%BCrich-zh/dean-david', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  // ============================================
-  // GREEN CLUB (6 locations)
-  // ============================================
-  {
-    id: 'green-club-k-ln-k-ln-19',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club Köln',
-    city: 'Köln',
-    country: 'de',
-    coordinates: { lat: 50.9375, lng: 6.9603 },
-    deliveryPlatforms: [
-      { name: 'wolt', url: 'https://wolt.com/de/deu/cologne/restaurant/green-club-kln-venloer-strae-koeln', displayName: 'Wolt' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.kebab', 'planted.pastrami'],
-  },
-  {
-    id: 'green-club-m-nchen-m-nchen-47',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/green-club-munchen-rosenheimer-strasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.kebab'],
-  },
-  {
-    id: 'green-club-m-nchen-m-nchen-55',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/green-club-munchen', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.kebab'],
-  },
-  {
-    id: 'green-club-m-nchen-m-nchen-56',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/da/menu/green-club-munchen', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.kebab'],
-  },
-  {
-    id: 'green-club-m-nchen-m-nchen-57',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/pl/menu/green-club-munchen', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.kebab'],
-  },
-  {
-    id: 'green-club-maxvorsta-m-nchen-79',
-    chainId: 'green-club',
-    chainName: 'Green Club',
-    name: 'Green Club Maxvorstadt Delivery',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/green-club-maxvorstadt/N2nK2x1pUmuGolfR4FSEVw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.pastrami', 'planted.kebab'],
-  },
-  // ============================================
-  // COTIDIANO (2 locations)
-  // ============================================
-  {
-    id: 'cotidiano-promenadep-m-nchen-26',
-    chainId: 'cotidiano',
-    chainName: 'Cotidiano',
-    name: 'Cotidiano Promenadeplatz - Frühstück, Restaurant & Bar München',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/cotidiano-promenadeplatz-fruhstuck-restaurant-%26-bar-munchen/uXJoQ8HZX_ajkezUPItI4g', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger', 'planted.pastrami'],
-  },
-  {
-    id: 'cotidiano-konstanz-l-stuttgart-34',
-    chainId: 'cotidiano',
-    chainName: 'Cotidiano',
-    name: 'Cotidiano Konstanz Lago',
-    city: 'Stuttgart',
-    country: 'de',
-    coordinates: { lat: 48.7758, lng: 9.1829 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/cotidiano-konstanz-lago/je3FAkE5W86lh_7El88Ccg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger'],
-  },
-  // ============================================
-  // VEGANITAS (3 locations)
-  // ============================================
-  {
-    id: 'veganitas-bern-bern-39',
-    chainId: 'veganitas',
-    chainName: 'Veganitas',
-    name: 'Veganitas (Bern)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/veganitas-bern/bxPY2FdIX6ubIfhvVpG9Pw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'veganitas-bern-bern-109',
-    chainId: 'veganitas',
-    chainName: 'Veganitas',
-    name: 'Veganitas (Bern)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/veganitas-bern/bxPY2FdIX6ubIfhvVpG9Pw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'veganitas-z-rich-z-rich-114',
-    chainId: 'veganitas',
-    chainName: 'Veganitas',
-    name: 'Veganitas (Zürich)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/veganitas-zurich/IBPu1oNMQNenKK-AOseb1g', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.steak'],
-  },
-  // ============================================
-  // KASPAR SCHMAUSER (4 locations)
-  // ============================================
-  {
-    id: 'kaspar-schmauser-hamburg-43',
-    chainId: 'kaspar-schmauser',
-    chainName: 'Kaspar Schmauser',
-    name: 'Kaspar Schmauser',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'own', url: 'https://www.bestellen-kaspar-schmauser.de/', displayName: 'Website' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.kebab', 'planted.steak'],
-  },
-  {
-    id: 'kaspar-schmauser-ber-berlin-59',
-    chainId: 'kaspar-schmauser',
-    chainName: 'Kaspar Schmauser',
-    name: 'Kaspar Schmauser Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/kaspar-schmauser-berlin', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.kebab'],
-  },
-  {
-    id: 'kaspar-schmauser-ber-berlin-65',
-    chainId: 'kaspar-schmauser',
-    chainName: 'Kaspar Schmauser',
-    name: 'Kaspar Schmauser Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/kaspar-schmauser-berlin', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'kaspar-schmauser-fri-berlin-88',
-    chainId: 'kaspar-schmauser',
-    chainName: 'Kaspar Schmauser',
-    name: 'Kaspar Schmauser Friedrichstraße_LOST',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/kaspar-schmauser-friedrichstrasse_lost/qv_fjUO5WHeCWamLcOHW6w', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.pulled', 'planted.kebab'],
-  },
-  // ============================================
-  // DOEN DOEN PLANTED KEBAP (6 locations)
-  // ============================================
-  {
-    id: 'doen-doen-planted-ke-berlin-60',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'doen doen planted kebap Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/bg/menu/doen-doen-planted-kebap-berlin', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  {
-    id: 'consegna-da-doen-doe-berlin-61',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'Consegna da doen doen planted kebap a Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/it/menu/doen-doen-planted-kebap-berlin', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  {
-    id: 'doen-doen-planted-ke-berlin-62',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'doen doen planted kebap Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/doen-doen-planted-kebap-berlin', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  {
-    id: 'doen-doen-delivery-stuttgart-72',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'doen doen® Delivery',
-    city: 'Stuttgart',
-    country: 'de',
-    coordinates: { lat: 48.7758, lng: 9.1829 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/doen-doen/Gy0q6gB6V7WBxMZ4-1oIMg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  {
-    id: 'doen-doen-planted-ke-berlin-91',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'Doen Doen Planted Kebap',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/doen-doen-planted-kebap/sne7dq9YT3iXmoAkE4jtMQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  {
-    id: 'doen-doen-planted-ke-berlin-92',
-    chainId: 'doen-doen',
-    chainName: 'Doen Doen Planted Kebap',
-    name: 'Doen Doen Planted Kebap - New',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/doen-doen-planted-kebap-new/bMrZz_nWXAym7msiea8Iuw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab', 'planted.chicken'],
-  },
-  // ============================================
-  // BEETS&ROOTS (5 locations)
-  // ============================================
-  {
-    id: 'beets-roots-berlin-berlin-63',
-    chainId: 'beets-roots',
-    chainName: 'beets&roots',
-    name: 'beets&roots Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/beetsroots-berlin-1', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  {
-    id: 'beets-roots-hamburg--hamburg-74',
-    chainId: 'beets-roots',
-    chainName: 'beets&roots',
-    name: 'beets&roots Hamburg Hauptbahnhof',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/beets%26roots-hamburg-hauptbahnhof/6Sl61Gn0WiWBCXf7jo6dDQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  {
-    id: 'beets-roots-ostbahnh-berlin-94',
-    chainId: 'beets-roots',
-    chainName: 'beets&roots',
-    name: 'beets&roots Ostbahnhof',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/beets%26roots-ostbahnhof/ecgVOBKxW_ugU8_VAVBKiA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.duck'],
-  },
-  {
-    id: 'beets-roots-prinzens-berlin-95',
-    chainId: 'beets-roots',
-    chainName: 'beets&roots',
-    name: 'beets&roots Prinzenstr.',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/beets%26roots-prinzenstr/a231t-yIUjGkSTX6uCb9UQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  {
-    id: 'beets-roots-potsdame-berlin-97',
-    chainId: 'beets-roots',
-    chainName: 'beets&roots',
-    name: 'beets&roots Potsdamer Platz',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/beets%26roots-potsdamer-platz/JjfrDDXhW0irPBQoEtRWpQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  // ============================================
-  // NOOCH ASIAN KITCHEN (4 locations)
-  // ============================================
-  {
-    id: 'nooch-asian-kitchen-basel-83',
-    chainId: 'nooch',
-    chainName: 'Nooch Asian Kitchen',
-    name: 'Nooch Asian Kitchen',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/basel-bs/nooch-asian-kitchen', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'nooch-asian-kitchen--bern-100',
-    chainId: 'nooch',
-    chainName: 'Nooch Asian Kitchen',
-    name: 'Nooch Asian Kitchen (Viktoriaplatz)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/nooch-asian-kitchen-viktoriaplatz/Mjy61L0YSga9PvtvCn152A', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'nooch-asian-kitchen--bern-105',
-    chainId: 'nooch',
-    chainName: 'Nooch Asian Kitchen',
-    name: 'Nooch Asian Kitchen (Viktoriaplatz)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/nooch-asian-kitchen-viktoriaplatz/Mjy61L0YSga9PvtvCn152A', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'nooch-asian-kitchen--basel-112',
-    chainId: 'nooch',
-    chainName: 'Nooch Asian Kitchen',
-    name: 'Nooch Asian Kitchen (Stadthausgasse)',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/nooch-asian-kitchen-stadthausgasse/FALDJHd5T5mCxlwP3i1KYw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  // ============================================
-  // RICE UP! (8 locations)
-  // ============================================
-  {
-    id: 'rice-up-bern-bern-102',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Bern)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-fr/store/rice-up!-bern/P5rPbQ8OVh2N5deBA73yxw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-bern-bern-104',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Bern)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/rice-up!-bern/P5rPbQ8OVh2N5deBA73yxw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-bern-bern-108',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Bern)',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/rice-up!-bern/P5rPbQ8OVh2N5deBA73yxw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-bern-110',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up!',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/bern-be/rice-up', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-hauptbahnhof-z-rich-117',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Hauptbahnhof)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/rice-up!-hauptbahnhof/QHsuqIC5UcekApIBn0YpDQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-stadelhofen-z-rich-118',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Stadelhofen)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/rice-up!-stadelhofen/oL5B9M-fVnuwHi2Xg6DiCQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-z-rich-120',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up!',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/z%C3%BCrich-zh/rice-up', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'rice-up-l-wenplatz-z-rich-122',
-    chainId: 'rice-up',
-    chainName: 'Rice Up!',
-    name: 'Rice Up! (Löwenplatz)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/rice-up!-lowenplatz/gl_vdTYjXBmN_BRobuURXw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  // ============================================
-  // KAISIN. (3 locations)
-  // ============================================
-  {
-    id: 'kaisin-oerlikon-z-rich-115',
-    chainId: 'kaisin',
-    chainName: 'kaisin.',
-    name: 'kaisin. (Oerlikon)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/kaisin-oerlikon/CH_L-XsGQ-iCBkLQwSAmXw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'kaisin-seefeld-z-rich-116',
-    chainId: 'kaisin',
-    chainName: 'kaisin.',
-    name: 'kaisin. (Seefeld)',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/kaisin-seefeld/yTX8bOtgQPSjNIyQCBKqIA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'kaisin-z-rich-119',
-    chainId: 'kaisin',
-    chainName: 'kaisin.',
-    name: 'kaisin.',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/z%C3%BCrich-zh/kaisin', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  // ============================================
-  // TIBITS (1 locations)
-  // ============================================
-  {
-    id: 'tibits-z-rich-z-rich-123',
-    chainId: 'tibits',
-    chainName: 'Tibits',
-    name: 'Tibits Zürich',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.just-eat.ch/en/menu/tibits-zurich', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  // ============================================
-  // HILTL (1 locations)
-  // ============================================
-  {
-    id: 'hiltl-vegetarian-res-z-rich-124',
-    chainId: 'hiltl',
-    chainName: 'Hiltl',
-    name: 'Hiltl - Vegetarian Restaurant',
-    city: 'Zürich',
-    country: 'ch',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.just-eat.ch/en/menu/hiltl-zurich', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  // ============================================
-  // STANDALONE VENUES (27 locations)
-  // ============================================
-  {
-    id: 'union-diner-steine-basel-0',
-    chainId: 'standalone',
-    chainName: 'Union Diner (Steine)',
-    name: 'Union Diner (Steine)',
-    city: 'Basel',
-    country: 'de',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/union-diner-steine/khlQZVmwRbax6VkLGVv7tA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.pulled', 'planted.burger'],
-  },
-  {
-    id: 'fat-monk-wien-8',
-    chainId: 'standalone',
-    chainName: 'FAT MONK',
-    name: 'FAT MONK',
-    city: 'Wien',
-    country: 'at',
-    coordinates: { lat: 48.2082, lng: 16.3738 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.fatmonk.com/de/restaurant/fat-monk-wien-quartier-belvedere', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab'],
-  },
-  {
-    id: 'fat-monk-wien-westba-wien-10',
-    chainId: 'standalone',
-    chainName: 'Fat Monk Wien - Westbahnhof Wien',
-    name: 'Fat Monk Wien - Westbahnhof Wien',
-    city: 'Wien',
-    country: 'at',
-    coordinates: { lat: 48.2082, lng: 16.3738 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.lieferando.at/speisekarte/fat-monk-wien-westbahnhof', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'wiki-wiki-poke-wippl-wien-11',
-    chainId: 'standalone',
-    chainName: 'Wiki Wiki Poke Wipplingerstraße Wien',
-    name: 'Wiki Wiki Poke Wipplingerstraße Wien',
-    city: 'Wien',
-    country: 'at',
-    coordinates: { lat: 48.2082, lng: 16.3738 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.lieferando.at/en/menu/wiki-wiki-poke-wien', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'fat-monk-wien-schott-wien-13',
-    chainId: 'standalone',
-    chainName: 'FAT MONK Wien Schottengasse',
-    name: 'FAT MONK Wien Schottengasse',
-    city: 'Wien',
-    country: 'at',
-    coordinates: { lat: 48.2082, lng: 16.3738 },
-    deliveryPlatforms: [
-      { name: 'lieferando', url: 'https://www.lieferando.at/en/menu/fat-monk-wien-schottengasse', displayName: 'Lieferando' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'subway-lausanne-lausanne-14',
-    chainId: 'standalone',
-    chainName: 'SUBWAY Lausanne',
-    name: 'SUBWAY Lausanne',
-    city: 'Lausanne',
-    country: 'ch',
-    coordinates: { lat: 46.5197, lng: 6.6323 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.just-eat.ch/fr/menu/subway-lausanne-1', displayName: 'Just Eat' },
-    ],
-    plantedProducts: [],
-  },
-  {
-    id: 'tuktuk-thai-kitchen--basel-15',
-    chainId: 'standalone',
-    chainName: 'TukTuk Thai Kitchen Basel',
-    name: 'TukTuk Thai Kitchen Basel',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.just-eat.ch/it/menu/tuktuk-thai-kitchen-basel', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'munchies-berlin-29',
-    chainId: 'standalone',
-    chainName: 'Munchies',
-    name: 'Munchies',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/brand-city/berlin-be/munchies', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: [],
-  },
-  {
-    id: 'palm-bowls-mainz-mainz-30',
-    chainId: 'standalone',
-    chainName: 'Palm Bowls Mainz',
-    name: 'Palm Bowls Mainz',
-    city: 'Mainz',
-    country: 'de',
-    coordinates: { lat: 49.9929, lng: 8.2473 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/palm-bowls-mainz/XTu1yqhXTsWosC4RHH4Yzg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.pulled'],
-  },
-  {
-    id: 'r-bowls-berlin-31',
-    chainId: 'standalone',
-    chainName: 'Råbowls',
-    name: 'Råbowls',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de/store/rabowls/20fesBfZVQSdHxrVuMCc6Q', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.pulled', 'planted.duck', 'planted.chicken'],
-  },
-  {
-    id: 'good-bank-invalidens-berlin-32',
-    chainId: 'standalone',
-    chainName: 'GOOD BANK - Invalidenstr.',
-    name: 'GOOD BANK - Invalidenstr.',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/good-bank-invalidenstr/R2n_1IwBQjafN-Tel87Qxg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'taco-gringo-berlin-33',
-    chainId: 'standalone',
-    chainName: 'TACO & GRINGO',
-    name: 'TACO & GRINGO',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/taco-%26-gringo/0kDYQ2nsVrmS3KQ097eOow', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.pulled'],
-  },
-  {
-    id: 'restaurant-kesar-genf-38',
-    chainId: 'standalone',
-    chainName: 'Restaurant Kesar',
-    name: 'Restaurant Kesar',
-    city: 'Genf',
-    country: 'ch',
-    coordinates: { lat: 46.2044, lng: 6.1432 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/restaurant-kesar/6GPM395DTMiz2M5JQnuAdA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'beets-roots-berlin-berlin-67',
-    chainId: 'standalone',
-    chainName: 'Beets & Roots Berlin',
-    name: 'Beets & Roots Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/speisekarte/beets-roots-schlterstrasse', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  {
-    id: 'beets-roots-berlin-berlin-69',
-    chainId: 'standalone',
-    chainName: 'Beets & Roots Berlin',
-    name: 'Beets & Roots Berlin',
-    city: 'Berlin',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'just-eat', url: 'https://www.lieferando.de/en/menu/beets-roots-newbbr', displayName: 'Just Eat' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.steak'],
-  },
-  {
-    id: 'hamburg-katendrecht-rotterdam-73',
-    chainId: 'standalone',
-    chainName: 'Hamburg Katendrecht',
-    name: 'Hamburg Katendrecht',
-    city: 'Rotterdam',
-    country: 'de',
-    coordinates: { lat: 51.9244, lng: 4.4777 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/nl-en/store/hamburg-katendrecht/9AOrXXGWX-W3zBpAAE96wA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_burger'],
-  },
-  {
-    id: 'r-bowls-rathaus-hamburg-76',
-    chainId: 'standalone',
-    chainName: 'råbowls rathaus',
-    name: 'råbowls rathaus',
-    city: 'Hamburg',
-    country: 'de',
-    coordinates: { lat: 53.5511, lng: 9.9937 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/rabowls-rathaus/c2vt7htzRk6ZNd6q6xbeBQ', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.pulled', 'planted.duck'],
-  },
-  {
-    id: 'katzentempel-unknown-77',
-    chainId: 'standalone',
-    chainName: 'Katzentempel',
-    name: 'Katzentempel',
-    city: 'Unknown',
-    country: 'de',
-    coordinates: { lat: 52.52, lng: 13.405 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://katzentempel.de/speisekarte/', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken', 'planted.chicken_burger', 'planted.pulled'],
-  },
-  {
-    id: 'okra-bern-82',
-    chainId: 'standalone',
-    chainName: 'Okra',
-    name: 'Okra',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/okra/lJIy7VKKTNyp1R7tbc6gjg', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'emmis-brunch-club-sc-m-nchen-85',
-    chainId: 'standalone',
-    chainName: 'Emmis Brunch Club Schwabing',
-    name: 'Emmis Brunch Club Schwabing',
-    city: 'München',
-    country: 'de',
-    coordinates: { lat: 48.1351, lng: 11.582 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/emmis-brunch-club-schwabing/1shz09RnXsmcJ2sMY21l3Q', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'edy-s-z-rich-89',
-    chainId: 'standalone',
-    chainName: 'Edy\'s',
-    name: 'Edy\'s',
-    city: 'Zürich',
-    country: 'de',
-    coordinates: { lat: 47.3769, lng: 8.5417 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/edys/VCGwz-tESSeJ7ZkBvOJBQw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab'],
-  },
-  {
-    id: 'boost-bowls-essen-90',
-    chainId: 'standalone',
-    chainName: 'Boost&Bowls',
-    name: 'Boost&Bowls',
-    city: 'Essen',
-    country: 'de',
-    coordinates: { lat: 51.4556, lng: 7.0116 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/de-en/store/boost%26bowls/tJUVt7UpTi6gcvp23ryxvw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.kebab'],
-  },
-  {
-    id: 'smash-bro-s-burger-m-muri-bei-b-101',
-    chainId: 'standalone',
-    chainName: 'Smash Bro\'s Burger (Muri)',
-    name: 'Smash Bro\'s Burger (Muri)',
-    city: 'Muri bei Bern',
-    country: 'ch',
-    coordinates: { lat: 46.9333, lng: 7.4833 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/smash-bros-burger-muri/bqvqRLTiUyWoHmIUO0u4-Q', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'smash-bro-s-burger-m-muri-bei-b-103',
-    chainId: 'standalone',
-    chainName: 'Smash Bro\'s Burger (Muri)',
-    name: 'Smash Bro\'s Burger (Muri)',
-    city: 'Muri bei Bern',
-    country: 'ch',
-    coordinates: { lat: 46.9333, lng: 7.4833 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/smash-bros-burger-muri/bqvqRLTiUyWoHmIUO0u4-Q', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'subway-ch-test-accou-lausanne-106',
-    chainId: 'standalone',
-    chainName: 'Subway - CH Test account DE',
-    name: 'Subway - CH Test account DE',
-    city: 'Lausanne',
-    country: 'ch',
-    coordinates: { lat: 46.5197, lng: 6.6323 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch-de/store/subway-ch-test-account-de/lR46YQzTRLuphtwhHuBfaw', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'subway-bern-107',
-    chainId: 'standalone',
-    chainName: 'Subway',
-    name: 'Subway',
-    city: 'Bern',
-    country: 'ch',
-    coordinates: { lat: 46.948, lng: 7.4474 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/brand-city/bern-be/subway', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken'],
-  },
-  {
-    id: 'nam-soup-bar-basel-111',
-    chainId: 'standalone',
-    chainName: 'Nam Soup Bar',
-    name: 'Nam Soup Bar',
-    city: 'Basel',
-    country: 'ch',
-    coordinates: { lat: 47.5596, lng: 7.5886 },
-    deliveryPlatforms: [
-      { name: 'uber-eats', url: 'https://www.ubereats.com/ch/store/nam-soup-bar/CE_sUwBCWOSJLvJs8SruyA', displayName: 'Uber Eats' },
-    ],
-    plantedProducts: ['planted.chicken_tenders'],
-  },
-];
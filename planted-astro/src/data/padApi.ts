@@ -2,9 +2,13 @@
  * Planted Availability Database API Client
  *
  * Fetches live venue data from the PAD API for the store locator.
+ *
+ * The site doesn't depend on the PAD workspace, so the response types
+ * below are a hand-kept subset of the API contract in
+ * planted-availability-db/packages/core/src/contracts/public.ts.
  */
 
-const PAD_API_BASE = 'https://europe-west6-get-planted-db.cloudfunctions.net';
+export const PAD_API_BASE = 'https://europe-west6-get-planted-db.cloudfunctions.net';
 
 export interface PadVenue {
   id: string;
@@ -26,6 +30,13 @@ export interface PadVenue {
     type: string;
     url?: string;
   };
+  delivery_platforms?: {
+    partner?: string;
+    // Venues synced from discovery name the platform ('uber-eats') instead
+    platform?: string;
+    url: string;
+    active?: boolean;
+  }[];
   status: string;
   last_verified: string;
   distance_km?: number;
@@ -41,7 +52,13 @@ export interface PadDish {
     amount: number;
     currency: string;
   };
+  prices_by_country?: {
+    country: string;
+    amount: number;
+    currency: string;
+  }[];
   dietary_tags?: string[];
+  cuisine_type?: string;
 }
 
 export interface NearbyResult {
@@ -56,12 +73,29 @@ export interface VenuesResponse {
   limit: number;
   offset: number;
   has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface VenueDetailResponse {
+  venue: PadVenue;
+  dishes: PadDish[];
+}
+
+export interface DishesResponse {
+  dishes: {
+    dish: PadDish;
+    venue: { id: string; name: string };
+  }[];
+  total: number;
+  has_more: boolean;
+  next_cursor: string | null;
 }
 
 export interface NearbyResponse {
   results: NearbyResult[];
   total: number;
   has_more: boolean;
+  next_cursor: string | null;
 }
 
 /**
@@ -71,6 +105,8 @@ export async function fetchVenues(options: {
   country?: string;
   type?: 'retail' | 'restaurant' | 'delivery_kitchen';
   limit?: number;
+  /** next_cursor of the previous page */
+  cursor?: string;
   offset?: number;
 } = {}): Promise<VenuesResponse> {
   const params = new URLSearchParams();
@@ -78,7 +114,8 @@ export async function fetchVenues(options: {
   if (options.country) params.set('country', options.country);
   if (options.type) params.set('type', options.type);
   if (options.limit) params.set('limit', options.limit.toString());
-  if (options.offset) params.set('offset', options.offset.toString());
+  if (options.cursor) params.set('cursor', options.cursor);
+  else if (options.offset) params.set('offset', options.offset.toString());
 
   const url = `${PAD_API_BASE}/venues?${params.toString()}`;
 
@@ -90,7 +127,7 @@ export async function fetchVenues(options: {
     return await response.json();
   } catch (error) {
     console.error('Error fetching venues:', error);
-    return { venues: [], total: 0, limit: 0, offset: 0, has_more: false };
+    return { venues: [], total: 0, limit: 0, offset: 0, has_more: false, next_cursor: null };
   }
 }
 
@@ -123,7 +160,7 @@ export async function fetchNearbyVenues(options: {
     return await response.json();
   } catch (error) {
     console.error('Error fetching nearby venues:', error);
-    return { results: [], total: 0, has_more: false };
+    return { results: [], total: 0, has_more: false, next_cursor: null };
   }
 }
 
@@ -0,0 +1,22 @@
+/**
+ * PAD Data Snapshot
+ *
+ * Chain locations and delivery restaurants generated from the Planted
+ * Availability Database by scripts/sync-pad-data.ts (runs before every build).
+ * The JSON file is committed so the site still builds when PAD is unreachable.
+ * Don't edit padSnapshot.json by hand - fix the data in PAD and re-sync.
+ */
+
+import type { ChainLocation } from './chainRestaurants';
+import type { DeliveryRestaurant } from './deliveryRestaurants';
+import snapshot from './padSnapshot.json';
+
+export interface PadSnapshot {
+  generatedAt: string;
+  /** Where the data came from: 'seed', the PAD API URL, or the export file */
+  source: string;
+  chainLocations: ChainLocation[];
+  deliveryRestaurants: DeliveryRestaurant[];
+}
+
+export const padSnapshot = snapshot as PadSnapshot;
@@ -8,6 +8,8 @@ import { LoginPage } from '@/pages/LoginPage';
 import { ReviewQueuePage } from '@/pages/ReviewQueuePage';
 import { LiveWebsitePage } from '@/pages/LiveWebsitePage';
 import { LiveVenuesPage } from '@/pages/LiveVenuesPage';
+import { PartnerSubmissionsPage } from '@/pages/PartnerSubmissionsPage';
+import { DeadLetterQueuePage } from '@/pages/DeadLetterQueuePage';
 import { StatsPage } from '@/pages/StatsPage';
 
 /**
@@ -98,6 +100,26 @@ export const router = createBrowserRouter([
     ),
   },
 
+  // Partner Submissions Review
+  {
+    path: '/partner-submissions',
+    element: (
+      <ProtectedRoute>
+        <PartnerSubmissionsPage />
+      </ProtectedRoute>
+    ),
+  },
+
+  // Dead Letter Queue Console
+  {
+    path: '/dead-letter-queue',
+    element: (
+      <ProtectedRoute>
+        <DeadLetterQueuePage />
+      </ProtectedRoute>
+    ),
+  },
+
   // Tab 3: Stats
   {
     path: '/stats',
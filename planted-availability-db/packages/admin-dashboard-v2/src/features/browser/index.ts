@@ -1,45 +0,0 @@
-/**
- * Browser Feature
- *
- * Export all browser feature modules.
- */
-
-// Types - export with explicit names to avoid conflicts
-export type {
-  ViewMode,
-  StatusFilter,
-  VenueStatus,
-  VenueType,
-  DeliveryPlatform,
-  ProductType,
-  BrowserDish,
-  PlatformLink,
-  BrowserVenue,
-  BrowserFilters,
-  BrowserStats,
-  BrowserHierarchyNode,
-  BrowserResponse,
-} from './types';
-export {
-  COUNTRY_EMOJIS,
-  STATUS_LABELS,
-  STATUS_EMOJIS,
-  PLATFORM_LABELS,
-  VENUE_TYPE_LABELS,
-  PRODUCT_LABELS,
-} from './types';
-
-// API
-export * from './api/browserApi';
-
-// Hooks
-export * from './hooks/useVenueBrowser';
-export * from './hooks/useFilters';
-
-// Components - rename to avoid conflict with types
-export { VenueTree } from './components/VenueTree';
-export { VenueTable } from './components/VenueTable';
-export { VenueCards } from './components/VenueCards';
-export { BrowserFilters as BrowserFiltersComponent } from './components/BrowserFilters';
-export { VenueDetail } from './components/VenueDetail';
-export { ViewToggle } from './components/ViewToggle';
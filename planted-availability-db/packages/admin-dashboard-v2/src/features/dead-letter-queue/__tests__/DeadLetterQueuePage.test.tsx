@@ -0,0 +1,113 @@
+/**
+ * DeadLetterQueuePage Tests
+ *
+ * Tests for the dead letter queue console.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test/test-utils';
+import userEvent from '@testing-library/user-event';
+import { DeadLetterQueuePage } from '@/pages/DeadLetterQueuePage';
+import { server } from '@/test/mocks/server';
+import { http, HttpResponse } from 'msw';
+
+// Mock firebase auth - must be before any imports that use it
+vi.mock('@/lib/firebase', () => {
+  const mockGetIdToken = vi.fn().mockResolvedValue('mock-token');
+  return {
+    auth: {
+      currentUser: {
+        getIdToken: mockGetIdToken,
+      },
+    },
+  };
+});
+
+// Mock the auth provider
+vi.mock('@/app/providers/AuthProvider', () => ({
+  AuthProvider: ({ children }: { children: React.ReactNode }) => children,
+  useAuthContext: () => ({
+    isAuthenticated: true,
+    user: { uid: 'test-user', email: 'test@example.com', displayName: 'Test User' },
+    loading: false,
+    error: null,
+    signIn: vi.fn(),
+    signInWithGoogle: vi.fn(),
+    signOut: vi.fn(),
+    getToken: vi.fn().mockResolvedValue('mock-token'),
+  }),
+}));
+
+describe('DeadLetterQueuePage', () => {
+  beforeEach(() => {
+    server.resetHandlers();
+  });
+
+  it('should show loading state initially', () => {
+    render(<DeadLetterQueuePage />);
+    expect(screen.getByText(/loading failed operations/i)).toBeInTheDocument();
+  });
+
+  it('should show error state when API fails', async () => {
+    server.use(
+      http.get('*/adminFailedOperations', () => {
+        return new HttpResponse(
+          JSON.stringify({ error: 'Server error' }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+      })
+    );
+
+    render(<DeadLetterQueuePage />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/failed to load failed operations/i)).toBeInTheDocument();
+    }, { timeout: 10000 });
+  });
+
+  it('should display operations pending retry', async () => {
+    render(<DeadLetterQueuePage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Navigation timeout of 30000 ms exceeded')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    expect(screen.getByText(/too much contention/i)).toBeInTheDocument();
+    expect(screen.getByText('venue venue-2 (add)')).toBeInTheDocument();
+    // Escalated operations are filtered out by default
+    expect(screen.queryByText('AI response could not be parsed')).not.toBeInTheDocument();
+  });
+
+  it('should enable actions once operations are selected', async () => {
+    const user = userEvent.setup();
+    render(<DeadLetterQueuePage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Navigation timeout of 30000 ms exceeded')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    expect(screen.getByRole('button', { name: /retry/i })).toBeDisabled();
+
+    await user.click(screen.getByRole('checkbox', { name: /select operation op-1/i }));
+
+    expect(screen.getByRole('button', { name: /retry/i })).toBeEnabled();
+    expect(screen.getByRole('button', { name: /mark resolved/i })).toBeEnabled();
+    expect(screen.getByRole('button', { name: /mark manual/i })).toBeEnabled();
+  });
+
+  it('should show the result after retrying', async () => {
+    const user = userEvent.setup();
+    render(<DeadLetterQueuePage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Navigation timeout of 30000 ms exceeded')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    await user.click(screen.getByRole('checkbox', { name: /select all/i }));
+    await user.click(screen.getByRole('button', { name: /retry/i }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('retry applied to 2 of 2 operations');
+    });
+  });
+});
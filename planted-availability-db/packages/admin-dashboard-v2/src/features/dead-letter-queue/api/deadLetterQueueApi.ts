@@ -0,0 +1,54 @@
+/**
+ * Dead Letter Queue API Client
+ *
+ * Typed API functions for the Dead Letter Queue feature.
+ */
+
+import { apiClient } from '@/lib/api/client';
+import { API_ENDPOINTS } from '@/lib/api/endpoints';
+import type {
+  FailedOperationsFilters,
+  FailedOperationsResponse,
+  FailedOperationActionRequest,
+  FailedOperationActionResponse,
+} from '../types';
+
+/**
+ * Build query string from filters
+ */
+function buildQueryString(filters: FailedOperationsFilters): string {
+  const params = new URLSearchParams();
+
+  if (filters.status) params.append('status', filters.status);
+  if (filters.type) params.append('type', filters.type);
+  if (filters.platform) params.append('platform', filters.platform);
+  if (filters.venueId) params.append('venueId', filters.venueId);
+  if (filters.limit !== undefined) params.append('limit', filters.limit.toString());
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Get dead letter queue operations and queue statistics
+ */
+export async function getFailedOperations(
+  filters: FailedOperationsFilters = {}
+): Promise<FailedOperationsResponse> {
+  const queryString = buildQueryString(filters);
+  return apiClient.get<FailedOperationsResponse>(
+    `${API_ENDPOINTS.FAILED_OPERATIONS}${queryString}`
+  );
+}
+
+/**
+ * Retry, resolve or escalate operations
+ */
+export async function applyFailedOperationAction(
+  request: FailedOperationActionRequest
+): Promise<FailedOperationActionResponse> {
+  return apiClient.post<FailedOperationActionResponse>(
+    API_ENDPOINTS.FAILED_OPERATION_ACTIONS,
+    request
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * FailedOperationFilters Component
+ *
+ * Filter bar for the dead letter queue.
+ * Supports status, operation type, platform and venue filters.
+ */
+
+import { X } from 'lucide-react';
+import { Input } from '@/shared/ui/Input';
+import { Button } from '@/shared/ui/Button';
+import type { FailedOperationsFilters, OperationStatus, OperationType } from '../types';
+import { OPERATION_STATUS_LABELS, OPERATION_TYPE_LABELS } from '../types';
+
+interface FailedOperationFiltersProps {
+  filters: FailedOperationsFilters;
+  onFiltersChange: (filters: FailedOperationsFilters) => void;
+  className?: string;
+}
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+export function FailedOperationFilters({ filters, onFiltersChange, className }: FailedOperationFiltersProps) {
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = (e.target.value || undefined) as OperationStatus | undefined;
+    onFiltersChange({ ...filters, status: value });
+  };
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = (e.target.value || undefined) as OperationType | undefined;
+    onFiltersChange({ ...filters, type: value });
+  };
+
+  const handleClearFilters = () => {
+    onFiltersChange({});
+  };
+
+  const hasActiveFilters = filters.status || filters.type || filters.platform || filters.venueId;
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Status Filter */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="operation-status-filter" className="text-sm font-medium text-muted-foreground">
+            Status:
+          </label>
+          <select
+            id="operation-status-filter"
+            value={filters.status || ''}
+            onChange={handleStatusChange}
+            className={selectClassName}
+          >
+            <option value="">All Statuses</option>
+            {Object.entries(OPERATION_STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Type Filter */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="operation-type-filter" className="text-sm font-medium text-muted-foreground">
+            Type:
+          </label>
+          <select
+            id="operation-type-filter"
+            value={filters.type || ''}
+            onChange={handleTypeChange}
+            className={selectClassName}
+          >
+            <option value="">All Types</option>
+            {Object.entries(OPERATION_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Platform / Venue */}
+        <Input
+          placeholder="Platform"
+          aria-label="Platform"
+          value={filters.platform ?? ''}
+          onChange={(e) => onFiltersChange({ ...filters, platform: e.target.value || undefined })}
+          className="w-32"
+        />
+        <Input
+          placeholder="Venue ID"
+          aria-label="Venue ID"
+          value={filters.venueId ?? ''}
+          onChange={(e) => onFiltersChange({ ...filters, venueId: e.target.value || undefined })}
+          className="w-48"
+        />
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={handleClearFilters} className="flex items-center gap-1">
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
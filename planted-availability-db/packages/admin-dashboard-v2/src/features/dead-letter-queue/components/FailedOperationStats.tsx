@@ -0,0 +1,40 @@
+/**
+ * FailedOperationStats Component
+ *
+ * Queue-wide counts by status and operation type.
+ */
+
+import { cn } from '@/lib/utils';
+import type { FailedOperationsResponse, OperationType } from '../types';
+import { OPERATION_TYPE_LABELS } from '../types';
+
+interface FailedOperationStatsProps {
+  stats: FailedOperationsResponse['stats'];
+  className?: string;
+}
+
+export function FailedOperationStats({ stats, className }: FailedOperationStatsProps) {
+  const counts = [
+    { label: 'Pending retry', value: stats.pendingRetry, className: 'text-yellow-700' },
+    { label: 'Needs manual review', value: stats.requiresManual, className: 'text-red-700' },
+    { label: 'Resolved', value: stats.resolved, className: 'text-green-700' },
+  ];
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-6', className)}>
+      {counts.map((count) => (
+        <div key={count.label}>
+          <div className={cn('text-2xl font-semibold', count.className)}>{count.value}</div>
+          <div className="text-xs text-muted-foreground">{count.label}</div>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {(Object.entries(stats.byType) as [OperationType, number][]).map(([type, count]) => (
+          <span key={type}>
+            {OPERATION_TYPE_LABELS[type]}: {count}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * FailedOperationTable Component
+ *
+ * Selectable list of dead letter queue operations with their last error,
+ * attempts and next scheduled retry.
+ */
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/shared/ui/Badge';
+import { Checkbox } from '@/shared/ui/Checkbox';
+import type { FailedOperation } from '../types';
+import { OPERATION_STATUS_COLORS, OPERATION_STATUS_LABELS, OPERATION_TYPE_LABELS } from '../types';
+
+interface FailedOperationTableProps {
+  operations: FailedOperation[];
+  selectedIds: Set<string>;
+  onToggle: (operation: FailedOperation) => void;
+  onToggleAll: (selected: boolean) => void;
+  className?: string;
+}
+
+function formatDateTime(value?: string): string {
+  return value ? new Date(value).toLocaleString() : '–';
+}
+
+/**
+ * Short description of what failed, from the operation's context
+ */
+function describeTarget(operation: FailedOperation): string | undefined {
+  const context = operation.context ?? {};
+  if (typeof context.entity_type === 'string' && typeof context.entity_id === 'string') {
+    return `${context.entity_type} ${context.entity_id} (${context.action ?? 'sync'})`;
+  }
+  if (typeof context.venue_name === 'string') return context.venue_name;
+  if (typeof context.url === 'string') return context.url;
+  return undefined;
+}
+
+export function FailedOperationTable({
+  operations,
+  selectedIds,
+  onToggle,
+  onToggleAll,
+  className,
+}: FailedOperationTableProps) {
+  const allSelected = operations.length > 0 && operations.every((op) => selectedIds.has(op.id));
+
+  return (
+    <table className={cn('w-full text-sm', className)}>
+      <thead className="bg-muted/30 text-left text-muted-foreground">
+        <tr>
+          <th className="p-3 w-10">
+            <Checkbox
+              aria-label="Select all"
+              checked={allSelected}
+              onCheckedChange={onToggleAll}
+            />
+          </th>
+          <th className="p-3">Operation</th>
+          <th className="p-3">Venue</th>
+          <th className="p-3 text-right">Attempts</th>
+          <th className="p-3">Next retry</th>
+          <th className="p-3">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {operations.map((operation) => {
+          const target = describeTarget(operation);
+          return (
+            <tr key={operation.id} className="border-t hover:bg-muted/20 align-top">
+              <td className="p-3">
+                <Checkbox
+                  aria-label={`Select operation ${operation.id}`}
+                  checked={selectedIds.has(operation.id)}
+                  onCheckedChange={() => onToggle(operation)}
+                />
+              </td>
+              <td className="p-3 max-w-md">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{OPERATION_TYPE_LABELS[operation.type]}</Badge>
+                  {operation.platform && (
+                    <span className="text-xs text-muted-foreground capitalize">{operation.platform}</span>
+                  )}
+                </div>
+                {target && <div className="mt-1 text-xs text-muted-foreground truncate">{target}</div>}
+                <div className="mt-1 text-xs text-red-700 break-words">{operation.error}</div>
+                {operation.manualReviewReason && (
+                  <div className="mt-1 text-xs text-muted-foreground">Reason: {operation.manualReviewReason}</div>
+                )}
+              </td>
+              <td className="p-3 text-muted-foreground font-mono text-xs">{operation.venueId ?? '–'}</td>
+              <td className="p-3 text-right">
+                {operation.attempts}/{operation.maxAttempts}
+              </td>
+              <td className="p-3 text-muted-foreground">
+                {operation.status === 'pending_retry' ? (
+                  <>
+                    <div>{formatDateTime(operation.nextRetryAt)}</div>
+                    <div className="text-xs">via {operation.retriedBy === 'api' ? 'API' : 'hourly scrapers drain'}</div>
+                  </>
+                ) : (
+                  '–'
+                )}
+              </td>
+              <td className="p-3">
+                <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', OPERATION_STATUS_COLORS[operation.status])}>
+                  {OPERATION_STATUS_LABELS[operation.status]}
+                </span>
+                {operation.resolvedAt && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {formatDateTime(operation.resolvedAt)}
+                    {operation.resolvedBy && ` by ${operation.resolvedBy}`}
+                  </div>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Dead Letter Queue Components
+ */
+
+export { FailedOperationFilters } from './FailedOperationFilters';
+export { FailedOperationStats } from './FailedOperationStats';
+export { FailedOperationTable } from './FailedOperationTable';
@@ -0,0 +1,38 @@
+/**
+ * useFailedOperationActions Hook
+ *
+ * React Query mutation for retrying, resolving or escalating failed
+ * operations.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { applyFailedOperationAction } from '../api/deadLetterQueueApi';
+import { failedOperationsKeys } from './useFailedOperations';
+import type { FailedOperationActionResponse } from '../types';
+
+interface MutationCallbacks<T> {
+  onSuccess?: (response: T) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Hook for applying an action to failed operations
+ */
+export function useFailedOperationAction(
+  callbacks?: MutationCallbacks<FailedOperationActionResponse>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: applyFailedOperationAction,
+    onError: (error) => {
+      callbacks?.onError?.(error as Error);
+    },
+    onSuccess: (response) => {
+      callbacks?.onSuccess?.(response);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: failedOperationsKeys.all });
+    },
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * useFailedOperations Hook
+ *
+ * React Query hook for fetching dead letter queue operations.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getFailedOperations } from '../api/deadLetterQueueApi';
+import type { FailedOperationsFilters } from '../types';
+
+/**
+ * Query key factory for failed operations
+ */
+export const failedOperationsKeys = {
+  all: ['failedOperations'] as const,
+  lists: () => [...failedOperationsKeys.all, 'list'] as const,
+  list: (filters: FailedOperationsFilters) => [...failedOperationsKeys.lists(), filters] as const,
+};
+
+/**
+ * Hook for fetching failed operations with filters
+ */
+export function useFailedOperations(filters: FailedOperationsFilters = {}) {
+  return useQuery({
+    queryKey: failedOperationsKeys.list(filters),
+    queryFn: () => getFailedOperations(filters),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Dead Letter Queue Feature
+ *
+ * Inspect failed scraper and sync operations and retry, resolve or
+ * escalate them.
+ */
+
+// Types
+export * from './types';
+
+// API
+export * from './api/deadLetterQueueApi';
+
+// Hooks
+export { useFailedOperations, failedOperationsKeys } from './hooks/useFailedOperations';
+export { useFailedOperationAction } from './hooks/useFailedOperationActions';
+
+// Components
+export * from './components';
@@ -0,0 +1,61 @@
+/**
+ * Dead Letter Queue Feature Types
+ *
+ * Types for inspecting failed scraper and sync operations and retrying,
+ * resolving or escalating them.
+ */
+
+import type {
+  OperationStatus,
+  OperationType,
+  FailedOperationEntry,
+  FailedOperationsParams,
+  FailedOperationsResponse,
+  FailedOperationActionBody,
+  FailedOperationActionResponse,
+} from '@pad/core';
+
+export type { OperationStatus, OperationType, FailedOperationsResponse, FailedOperationActionResponse };
+
+/**
+ * FailedOperation - Dead letter queue entry (API contract in @pad/core)
+ */
+export type FailedOperation = FailedOperationEntry;
+
+/**
+ * Filter options for the failed operations query
+ */
+export type FailedOperationsFilters = Omit<FailedOperationsParams, 'limit'> & { limit?: number };
+
+/**
+ * Retry/resolve/manual request
+ */
+export type FailedOperationActionRequest = FailedOperationActionBody;
+
+export type FailedOperationAction = FailedOperationActionRequest['action'];
+
+/**
+ * Operation type display info
+ */
+export const OPERATION_TYPE_LABELS: Record<OperationType, string> = {
+  discovery: 'Venue page',
+  dish_extraction: 'Dish extraction',
+  venue_verification: 'Venue verification',
+  menu_scrape: 'Menu scrape',
+  sync_write: 'Sync write',
+};
+
+/**
+ * Status display info
+ */
+export const OPERATION_STATUS_LABELS: Record<OperationStatus, string> = {
+  pending_retry: 'Pending retry',
+  requires_manual: 'Needs manual review',
+  resolved: 'Resolved',
+};
+
+export const OPERATION_STATUS_COLORS: Record<OperationStatus, string> = {
+  pending_retry: 'bg-yellow-100 text-yellow-800',
+  requires_manual: 'bg-red-100 text-red-800',
+  resolved: 'bg-green-100 text-green-800',
+};
@@ -0,0 +1,119 @@
+/**
+ * DeliveryZoneEditor Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test/test-utils';
+import { DeliveryZoneEditor } from '../components/DeliveryZoneEditor';
+import { mockLiveVenues } from '@/test/mocks/data/liveVenues';
+import { server } from '@/test/mocks/server';
+import { http, HttpResponse } from 'msw';
+
+// Mock firebase auth
+vi.mock('@/lib/firebase', () => {
+  const mockGetIdToken = vi.fn().mockResolvedValue('mock-token');
+  return {
+    auth: {
+      currentUser: {
+        getIdToken: mockGetIdToken,
+      },
+    },
+  };
+});
+
+const venue = mockLiveVenues[0];
+
+function captureRequests() {
+  const requests: Record<string, unknown>[] = [];
+  server.use(
+    http.post('*/adminVenueDeliveryZone', async ({ request }) => {
+      const body = await request.json() as Record<string, unknown>;
+      requests.push(body);
+      return HttpResponse.json({
+        success: true,
+        message: 'Delivery zones updated',
+        venue: { id: venue.id, name: venue.name, deliveryZones: null },
+      });
+    })
+  );
+  return requests;
+}
+
+describe('DeliveryZoneEditor', () => {
+  beforeEach(() => {
+    server.resetHandlers();
+  });
+
+  it('should summarize the current zones', () => {
+    const { rerender } = render(<DeliveryZoneEditor venue={{ ...venue, deliveryZones: undefined }} />);
+    expect(screen.getByTestId('delivery-zone-summary')).toHaveTextContent('No delivery zones');
+
+    rerender(<DeliveryZoneEditor venue={{ ...venue, deliveryZones: ['8001', '8002'] }} />);
+    expect(screen.getByTestId('delivery-zone-summary')).toHaveTextContent('2 postal codes: 8001, 8002');
+  });
+
+  it('should save a radius zone', async () => {
+    const requests = captureRequests();
+    const { user } = render(<DeliveryZoneEditor venue={venue} />);
+
+    const radius = screen.getByLabelText('Radius (km)');
+    await user.clear(radius);
+    await user.type(radius, '5');
+    await user.click(screen.getByRole('button', { name: 'Save zones' }));
+
+    await waitFor(() => {
+      expect(requests).toEqual([{ venueId: venue.id, mode: 'radius', radiusKm: 5 }]);
+    });
+  });
+
+  it('should split postal codes', async () => {
+    const requests = captureRequests();
+    const { user } = render(<DeliveryZoneEditor venue={venue} />);
+
+    await user.click(screen.getByText('Postal codes'));
+    await user.type(screen.getByLabelText('Postal codes'), '8001, 8002 8003-8008');
+    await user.click(screen.getByRole('button', { name: 'Save zones' }));
+
+    await waitFor(() => {
+      expect(requests).toEqual([
+        { venueId: venue.id, mode: 'postal_codes', postalCodes: ['8001', '8002', '8003-8008'] },
+      ]);
+    });
+  });
+
+  it('should not send invalid GeoJSON', async () => {
+    const requests = captureRequests();
+    const { user } = render(<DeliveryZoneEditor venue={venue} />);
+
+    await user.click(screen.getByText('GeoJSON'));
+    await user.type(screen.getByLabelText('GeoJSON'), 'not json');
+    await user.click(screen.getByRole('button', { name: 'Save zones' }));
+
+    expect(screen.getByText('GeoJSON is not valid JSON')).toBeInTheDocument();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should show API errors', async () => {
+    const { user } = render(<DeliveryZoneEditor venue={venue} />);
+
+    await user.click(screen.getByText('GeoJSON'));
+    // userEvent treats braces as key descriptors, so escape them
+    await user.type(screen.getByLabelText('GeoJSON'), '{{"type": "Point"}');
+    await user.click(screen.getByRole('button', { name: 'Save zones' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/no Polygon or MultiPolygon/)).toBeInTheDocument();
+    });
+  });
+
+  it('should clear existing zones', async () => {
+    const requests = captureRequests();
+    const { user } = render(<DeliveryZoneEditor venue={{ ...venue, deliveryZones: ['8001'] }} />);
+
+    await user.click(screen.getByRole('button', { name: 'Clear' }));
+
+    await waitFor(() => {
+      expect(requests).toEqual([{ venueId: venue.id, mode: 'clear' }]);
+    });
+  });
+});
@@ -11,6 +11,8 @@ import type {
   LiveVenuesFilters,
   UpdateVenueStatusRequest,
   UpdateVenueStatusResponse,
+  UpdateDeliveryZoneRequest,
+  UpdateDeliveryZoneResponse,
   VenueDishesResponse,
   FindDuplicatesResponse,
   DeleteDuplicatesResponse,
@@ -71,6 +73,15 @@ export async function reactivateVenue(venueId: string): Promise<UpdateVenueStatu
   return updateVenueStatus({ venueId, status: 'active' });
 }
 
+/**
+ * Set a venue's delivery zones (radius, GeoJSON import, postal codes or clear)
+ */
+export async function updateVenueDeliveryZone(
+  request: UpdateDeliveryZoneRequest
+): Promise<UpdateDeliveryZoneResponse> {
+  return apiClient.post<UpdateDeliveryZoneResponse>(API_ENDPOINTS.VENUE_DELIVERY_ZONE, request);
+}
+
 /**
  * Get dishes for a venue
  */
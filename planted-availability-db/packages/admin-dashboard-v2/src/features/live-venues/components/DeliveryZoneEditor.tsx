@@ -0,0 +1,191 @@
+/**
+ * DeliveryZoneEditor Component
+ *
+ * Shows a venue's delivery zones and lets admins replace them with a radius
+ * around the venue, an imported GeoJSON polygon or a postal code list.
+ */
+
+import { Truck } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '@/shared/ui/Badge';
+import { Button } from '@/shared/ui/Button';
+import { Input } from '@/shared/ui/Input';
+import { cn } from '@/lib/utils';
+import type { LiveVenue, UpdateDeliveryZoneRequest } from '../types';
+import { useUpdateDeliveryZone } from '../hooks/useLiveVenueActions';
+
+type EditorMode = 'radius' | 'geojson' | 'postal_codes';
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  radius: 'Radius',
+  geojson: 'GeoJSON',
+  postal_codes: 'Postal codes',
+};
+
+const textareaClassName = cn(
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono',
+  'placeholder:text-muted-foreground',
+  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+  'resize-y'
+);
+
+interface DeliveryZoneEditorProps {
+  venue: LiveVenue;
+  className?: string;
+}
+
+/**
+ * One-line summary of the current zones
+ */
+function describeZones(zones: LiveVenue['deliveryZones']): string {
+  if (!zones || (Array.isArray(zones) && zones.length === 0)) {
+    return 'No delivery zones';
+  }
+  if (Array.isArray(zones)) {
+    return `${zones.length} postal code${zones.length !== 1 ? 's' : ''}: ${zones.slice(0, 5).join(', ')}${zones.length > 5 ? ', …' : ''}`;
+  }
+  if (zones.type === 'MultiPolygon') {
+    return `MultiPolygon (${(zones.coordinates as unknown[]).length} polygons)`;
+  }
+  return zones.type;
+}
+
+export function DeliveryZoneEditor({ venue, className }: DeliveryZoneEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('radius');
+  const [radiusKm, setRadiusKm] = useState('3');
+  const [geojson, setGeojson] = useState('');
+  const [postalCodes, setPostalCodes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateZone = useUpdateDeliveryZone({
+    onSuccess: () => setError(null),
+    onError: (err) => setError(err.message),
+  });
+
+  const hasZones = Array.isArray(venue.deliveryZones)
+    ? venue.deliveryZones.length > 0
+    : Boolean(venue.deliveryZones);
+
+  /**
+   * Build the request for the current mode, or report why it can't be sent
+   */
+  const buildRequest = (): UpdateDeliveryZoneRequest | null => {
+    switch (mode) {
+      case 'radius': {
+        const radius = parseFloat(radiusKm);
+        if (isNaN(radius) || radius <= 0) {
+          setError('Radius must be a positive number');
+          return null;
+        }
+        return { venueId: venue.id, mode, radiusKm: radius };
+      }
+      case 'geojson':
+        try {
+          return { venueId: venue.id, mode, geojson: JSON.parse(geojson) };
+        } catch {
+          setError('GeoJSON is not valid JSON');
+          return null;
+        }
+      case 'postal_codes': {
+        const codes = postalCodes.split(/[\s,;]+/).filter(Boolean);
+        if (codes.length === 0) {
+          setError('Enter at least one postal code');
+          return null;
+        }
+        return { venueId: venue.id, mode, postalCodes: codes };
+      }
+    }
+  };
+
+  const handleSave = () => {
+    const request = buildRequest();
+    if (request) {
+      setError(null);
+      updateZone.mutate(request);
+    }
+  };
+
+  const handleClear = () => {
+    setError(null);
+    updateZone.mutate({ venueId: venue.id, mode: 'clear' });
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <Truck className="h-4 w-4" />
+        Delivery Zones
+      </h3>
+      <div className="pl-6 space-y-3">
+        <p className="text-sm text-muted-foreground" data-testid="delivery-zone-summary">
+          {describeZones(venue.deliveryZones)}
+        </p>
+
+        <div className="flex gap-1">
+          {(Object.keys(MODE_LABELS) as EditorMode[]).map((key) => (
+            <Badge
+              key={key}
+              variant={mode === key ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => setMode(key)}
+            >
+              {MODE_LABELS[key]}
+            </Badge>
+          ))}
+        </div>
+
+        {mode === 'radius' && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="delivery-zone-radius" className="text-sm text-muted-foreground">
+              Radius (km)
+            </label>
+            <Input
+              id="delivery-zone-radius"
+              type="number"
+              min="0.1"
+              step="0.5"
+              value={radiusKm}
+              onChange={(e) => setRadiusKm(e.target.value)}
+              className="w-24 h-8"
+            />
+          </div>
+        )}
+
+        {mode === 'geojson' && (
+          <textarea
+            aria-label="GeoJSON"
+            value={geojson}
+            onChange={(e) => setGeojson(e.target.value)}
+            placeholder='{"type": "Polygon", "coordinates": [[[8.52, 47.36], ...]]}'
+            rows={5}
+            className={textareaClassName}
+          />
+        )}
+
+        {mode === 'postal_codes' && (
+          <textarea
+            aria-label="Postal codes"
+            value={postalCodes}
+            onChange={(e) => setPostalCodes(e.target.value)}
+            placeholder="8001, 8002, 8003-8008"
+            rows={3}
+            className={textareaClassName}
+          />
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={updateZone.isPending}>
+            Save zones
+          </Button>
+          {hasZones && (
+            <Button size="sm" variant="outline" onClick={handleClear} disabled={updateZone.isPending}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
 } from '../types';
 import { LiveVenueActions } from './LiveVenueActions';
 import { VenueDishList } from './VenueDishList';
+import { DeliveryZoneEditor } from './DeliveryZoneEditor';
 import { useVenueDishes } from '../hooks/useVenueDishes';
 
 interface LiveVenueDetailProps {
@@ -187,6 +188,9 @@ export function LiveVenueDetail({
           </div>
         )}
 
+        {/* Delivery Zones (kitchens and restaurants that deliver) */}
+        {venue.type !== 'retail' && <DeliveryZoneEditor venue={venue} />}
+
         {/* Dishes */}
         <div className="space-y-2">
           <Button
@@ -28,7 +28,7 @@ export function LiveVenueFilters({
   className,
 }: LiveVenueFiltersProps) {
   const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = e.target.value || undefined;
+    const value = (e.target.value || undefined) as LiveVenuesFilters['country'];
     onFiltersChange({ ...filters, country: value, page: 1 });
   };
 
@@ -8,3 +8,4 @@ export { LiveVenueStats } from './LiveVenueStats';
 export { LiveVenueDetail } from './LiveVenueDetail';
 export { LiveVenueActions } from './LiveVenueActions';
 export { DuplicatesPanel } from './DuplicatesPanel';
+export { DeliveryZoneEditor } from './DeliveryZoneEditor';
@@ -1,7 +1,8 @@
 /**
  * useLiveVenueActions Hook
  *
- * React Query mutations for live venue actions (mark stale, archive, reactivate).
+ * React Query mutations for live venue actions (mark stale, archive, reactivate,
+ * delivery zones).
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
@@ -9,6 +10,7 @@ import {
   markVenueStale,
   archiveVenue,
   reactivateVenue,
+  updateVenueDeliveryZone,
 } from '../api/liveVenuesApi';
 import { liveVenuesKeys } from './useLiveVenues';
 import type { LiveVenuesResponse } from '../types';
@@ -193,3 +195,23 @@ export function useReactivateVenue(callbacks?: MutationCallbacks) {
     },
   });
 }
+
+/**
+ * Hook for setting a venue's delivery zones
+ */
+export function useUpdateDeliveryZone(callbacks?: MutationCallbacks) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateVenueDeliveryZone,
+    onError: (error) => {
+      callbacks?.onError?.(error as Error);
+    },
+    onSuccess: () => {
+      callbacks?.onSuccess?.();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: liveVenuesKeys.all });
+    },
+  });
+}
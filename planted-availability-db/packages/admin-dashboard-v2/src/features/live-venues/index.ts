@@ -16,6 +16,7 @@ export {
   useMarkVenueStale,
   useArchiveVenue,
   useReactivateVenue,
+  useUpdateDeliveryZone,
 } from './hooks/useLiveVenueActions';
 export { useDuplicates, useDeleteDuplicates } from './hooks/useDuplicates';
 
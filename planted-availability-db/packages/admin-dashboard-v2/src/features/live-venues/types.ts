@@ -1,126 +1,84 @@
 /**
  * Live Venues Feature Types
  *
- * Types for browsing and managing production venues.
- */
-
-import type { VenueType, VenueStatus } from '@pad/core';
-
-/**
- * LiveVenue - A production venue with display-ready fields
- */
-export interface LiveVenue {
-  id: string;
-  name: string;
-  type: VenueType;
-  chainId?: string;
-  chainName?: string;
-  address: {
-    street?: string;
-    city: string;
-    postalCode?: string;
-    country: string;
-  };
-  location: {
-    latitude: number;
-    longitude: number;
-  };
-  status: VenueStatus;
-  lastVerified: string; // ISO date string
-  createdAt: string; // ISO date string
-  deliveryPlatforms: DeliveryPlatformInfo[];
-  dishCount: number;
-}
+ * Types for browsing and managing production venues. Request and response
+ * shapes are the API contracts in @pad/core.
+ */
+
+import type {
+  VenueType,
+  VenueStatus,
+  AdminPlatformLink,
+  LiveVenue,
+  LiveVenueHierarchyNode,
+  LiveVenuesStats,
+  LiveVenuesParams,
+  LiveVenuesResponse,
+  UpdateLiveVenueStatusBody,
+  UpdateLiveVenueStatusResponse,
+  DeliveryZoneBody,
+  DeliveryZoneResponse,
+  VenueDish,
+  VenueDishesResponse,
+  DuplicateVenue,
+  DuplicateGroup,
+  FindDuplicateVenuesResponse,
+  DeleteDuplicateVenuesBody,
+  DeleteDuplicateVenuesResponse,
+} from '@pad/core';
+
+export type {
+  LiveVenue,
+  LiveVenuesStats,
+  LiveVenuesResponse,
+  VenueDish,
+  VenueDishesResponse,
+  DuplicateVenue,
+  DuplicateGroup,
+};
 
 /**
  * Delivery platform information
  */
-export interface DeliveryPlatformInfo {
-  platform: string;
-  url: string;
-  active: boolean;
-}
+export type DeliveryPlatformInfo = AdminPlatformLink;
 
 /**
  * Hierarchy node for tree display
  */
-export interface HierarchyNode {
-  id: string;
-  type: 'country' | 'venueType' | 'chain' | 'venue';
-  label: string;
-  count: number;
-  children?: HierarchyNode[];
-  venue?: LiveVenue;
-}
-
-/**
- * Stats for the live venues browser
- */
-export interface LiveVenuesStats {
-  active: number;
-  stale: number;
-  archived: number;
-  total: number;
-  byCountry: Record<string, number>;
-  byType: Record<string, number>;
-  avgDaysSinceVerification: number;
-}
+export type HierarchyNode = LiveVenueHierarchyNode;
 
 /**
  * Filter options for the live venues query
  */
-export interface LiveVenuesFilters {
-  country?: string;
-  status?: VenueStatus;
-  venueType?: VenueType;
-  search?: string;
+export type LiveVenuesFilters = Omit<LiveVenuesParams, 'page' | 'pageSize'> & {
   page?: number;
   pageSize?: number;
-}
+};
 
-/**
- * Pagination info
- */
-export interface LiveVenuesPagination {
-  page: number;
-  pageSize: number;
-  total: number;
-  totalPages: number;
-  hasMore: boolean;
-}
+export type LiveVenuesPagination = LiveVenuesResponse['pagination'];
 
 /**
- * Full response from the live venues API
+ * Status update request
  */
-export interface LiveVenuesResponse {
-  items: LiveVenue[];
-  hierarchy: HierarchyNode[];
-  stats: LiveVenuesStats;
-  pagination: LiveVenuesPagination;
-}
+export type UpdateVenueStatusRequest = UpdateLiveVenueStatusBody;
+
+export type UpdateVenueStatusResponse = UpdateLiveVenueStatusResponse;
 
 /**
- * Status update request
+ * Delivery zone update request (one per editor mode)
  */
-export interface UpdateVenueStatusRequest {
-  venueId: string;
-  status: VenueStatus;
-}
+export type UpdateDeliveryZoneRequest = DeliveryZoneBody;
+
+export type UpdateDeliveryZoneResponse = DeliveryZoneResponse;
 
 /**
- * Status update response
+ * Find/delete duplicates
  */
-export interface UpdateVenueStatusResponse {
-  success: boolean;
-  message: string;
-  venue: {
-    id: string;
-    name: string;
-    previousStatus: VenueStatus;
-    status: VenueStatus;
-    lastVerified: string;
-  };
-}
+export type FindDuplicatesResponse = FindDuplicateVenuesResponse;
+
+export type DeleteDuplicatesRequest = DeleteDuplicateVenuesBody;
+
+export type DeleteDuplicatesResponse = DeleteDuplicateVenuesResponse;
 
 /**
  * Country display info
@@ -172,96 +130,3 @@ export const PLATFORM_LABELS: Record<string, string> = {
   just_eat: 'Just Eat',
   glovo: 'Glovo',
 };
-
-/**
- * Venue dish for display
- */
-export interface VenueDish {
-  id: string;
-  name: string;
-  description: string;
-  plantedProducts: string[];
-  price: {
-    amount: number;
-    currency: string;
-  };
-  dietaryTags: string[];
-  cuisineType?: string;
-  imageUrl?: string;
-  status: string;
-  lastVerified: string;
-}
-
-/**
- * Response from venue dishes API
- */
-export interface VenueDishesResponse {
-  venueId: string;
-  dishes: VenueDish[];
-  total: number;
-}
-
-/**
- * Duplicate venue for display
- */
-export interface DuplicateVenue {
-  id: string;
-  name: string;
-  type: string;
-  chainId?: string;
-  chainName?: string;
-  address: {
-    street?: string;
-    city: string;
-    postalCode?: string;
-    country: string;
-  };
-  status: string;
-  lastVerified: string;
-  createdAt: string;
-  dishCount: number;
-}
-
-/**
- * Group of duplicate venues with same address
- */
-export interface DuplicateGroup {
-  addressKey: string;
-  formattedAddress: string;
-  venues: DuplicateVenue[];
-}
-
-/**
- * Response from find duplicates API
- */
-export interface FindDuplicatesResponse {
-  duplicateGroups: DuplicateGroup[];
-  totalDuplicateGroups: number;
-  totalDuplicateVenues: number;
-  stats: {
-    byCountry: Record<string, number>;
-    totalVenuesScanned: number;
-  };
-}
-
-/**
- * Request to delete duplicate venues
- */
-export interface DeleteDuplicatesRequest {
-  venueIds: string[];
-}
-
-/**
- * Response from delete duplicates API
- */
-export interface DeleteDuplicatesResponse {
-  success: boolean;
-  message: string;
-  deletedVenues: number;
-  deletedDishes: number;
-  details: {
-    venueId: string;
-    venueName: string;
-    dishesDeleted: number;
-  }[];
-}
@@ -0,0 +1,76 @@
+/**
+ * MenuChangeTimeline Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test/test-utils';
+import { MenuChangeTimeline } from '../components/MenuChangeTimeline';
+import { server } from '@/test/mocks/server';
+import { http, HttpResponse } from 'msw';
+
+// Mock firebase auth
+vi.mock('@/lib/firebase', () => {
+  const mockGetIdToken = vi.fn().mockResolvedValue('mock-token');
+  return {
+    auth: {
+      currentUser: {
+        getIdToken: mockGetIdToken,
+      },
+    },
+  };
+});
+
+describe('MenuChangeTimeline', () => {
+  beforeEach(() => {
+    server.resetHandlers();
+  });
+
+  it('should render the venue timeline newest first', async () => {
+    render(<MenuChangeTimeline venueId="venue-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Planted Kebab Wrap')).toBeInTheDocument();
+    });
+
+    const dishNames = screen.getAllByText(/^Planted (Chicken Bowl|Kebab Wrap)$/).map((el) => el.textContent);
+    expect(dishNames).toEqual(['Planted Chicken Bowl', 'Planted Kebab Wrap', 'Planted Chicken Bowl']);
+  });
+
+  it('should show appeared, vanished and price changes', async () => {
+    render(<MenuChangeTimeline venueId="venue-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Vanished/)).toBeInTheDocument();
+    });
+
+    expect(screen.getByText(/Appeared/)).toBeInTheDocument();
+    expect(screen.getByText(/CHF 18.90 → CHF 19.90/)).toBeInTheDocument();
+    expect(screen.getByText('+1')).toBeInTheDocument();
+    expect(screen.getByText('−1')).toBeInTheDocument();
+  });
+
+  it('should show empty state when the venue has no changes', async () => {
+    render(<MenuChangeTimeline venueId="venue-without-history" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No menu changes yet')).toBeInTheDocument();
+    });
+  });
+
+  it('should show error state when the request fails', async () => {
+    server.use(
+      http.get('*/adminMenuChanges', () => {
+        return new HttpResponse(
+          JSON.stringify({ error: 'Server error' }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+      })
+    );
+
+    render(<MenuChangeTimeline venueId="venue-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load menu history')).toBeInTheDocument();
+    }, { timeout: 10000 });
+  });
+});
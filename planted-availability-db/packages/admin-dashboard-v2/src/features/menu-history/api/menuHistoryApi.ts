@@ -0,0 +1,35 @@
+/**
+ * Menu History API Client
+ *
+ * Typed API functions for the Menu History feature.
+ */
+
+import { apiClient } from '@/lib/api/client';
+import { API_ENDPOINTS } from '@/lib/api/endpoints';
+import type { MenuChangesFilters, MenuChangesResponse } from '../types';
+
+/**
+ * Build query string from venue and filters
+ */
+function buildQueryString(venueId: string, filters: MenuChangesFilters): string {
+  const params = new URLSearchParams();
+
+  params.append('venueId', venueId);
+  if (filters.platform) params.append('platform', filters.platform);
+  if (filters.changeType) params.append('changeType', filters.changeType);
+  if (filters.since) params.append('since', filters.since);
+  if (filters.limit !== undefined) params.append('limit', filters.limit.toString());
+
+  return `?${params.toString()}`;
+}
+
+/**
+ * Get the menu change timeline of a venue
+ */
+export async function getMenuChanges(
+  venueId: string,
+  filters: MenuChangesFilters = {}
+): Promise<MenuChangesResponse> {
+  const queryString = buildQueryString(venueId, filters);
+  return apiClient.get<MenuChangesResponse>(`${API_ENDPOINTS.MENU_CHANGES}${queryString}`);
+}
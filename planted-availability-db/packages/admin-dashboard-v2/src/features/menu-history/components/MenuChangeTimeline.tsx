@@ -0,0 +1,138 @@
+/**
+ * MenuChangeTimeline Component
+ *
+ * Timeline of a venue's menu changes, newest first, grouped by day:
+ * when Planted dishes appeared on or vanished from each platform's menu,
+ * and when their price or details changed.
+ */
+
+import { History, Plus, Minus, Pencil, Tag } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Card } from '@/shared/ui/Card';
+import { Badge } from '@/shared/ui/Badge';
+import { LoadingState } from '@/shared/components/LoadingState';
+import { ErrorState } from '@/shared/components/ErrorState';
+import { EmptyState } from '@/shared/components/EmptyState';
+import { cn } from '@/lib/utils';
+import { useMenuChanges } from '../hooks/useMenuChanges';
+import { MENU_CHANGE_LABELS } from '../types';
+import type { MenuChangeEntry, MenuChangeType, MenuChangesFilters } from '../types';
+
+interface MenuChangeTimelineProps {
+  venueId: string;
+  filters?: MenuChangesFilters;
+  className?: string;
+}
+
+const CHANGE_STYLES: Record<MenuChangeType, { icon: LucideIcon; className: string }> = {
+  dish_added: { icon: Plus, className: 'bg-green-500/10 text-green-700' },
+  dish_removed: { icon: Minus, className: 'bg-destructive/10 text-destructive' },
+  dish_modified: { icon: Pencil, className: 'bg-blue-500/10 text-blue-700' },
+  price_change: { icon: Tag, className: 'bg-yellow-500/10 text-yellow-700' },
+};
+
+/**
+ * Group changes by calendar day, keeping their order
+ */
+function groupByDay(changes: MenuChangeEntry[]): { day: string; changes: MenuChangeEntry[] }[] {
+  const groups: { day: string; changes: MenuChangeEntry[] }[] = [];
+  for (const change of changes) {
+    const day = new Date(change.detectedAt).toLocaleDateString();
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) {
+      last.changes.push(change);
+    } else {
+      groups.push({ day, changes: [change] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * TimelineEntry Component
+ */
+function TimelineEntry({ change }: { change: MenuChangeEntry }) {
+  const { icon: Icon, className } = CHANGE_STYLES[change.changeType];
+
+  return (
+    <li className="flex items-start gap-3">
+      <div className={cn('mt-0.5 rounded-full p-1.5 shrink-0', className)}>
+        <Icon className="h-3 w-3" />
+      </div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-medium text-sm">{change.dishName}</span>
+          <Badge variant="outline" className="capitalize">{change.platform}</Badge>
+          {change.plantedProduct && (
+            <Badge variant="secondary">{change.plantedProduct}</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {MENU_CHANGE_LABELS[change.changeType]}
+          {change.changeType === 'price_change' && (
+            <> · {change.oldValue || '–'} → {change.newValue || '–'}</>
+          )}
+          {' · '}
+          {new Date(change.detectedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * MenuChangeTimeline Component
+ */
+export function MenuChangeTimeline({ venueId, filters, className }: MenuChangeTimelineProps) {
+  const { data, isLoading, error, refetch } = useMenuChanges(venueId, filters);
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Menu History</h3>
+        {data && data.summary.total > 0 && (
+          <div className="flex items-center gap-2">
+            <Badge variant="success">+{data.summary.added}</Badge>
+            <Badge variant="destructive">−{data.summary.removed}</Badge>
+            {data.summary.priceChanges > 0 && (
+              <Badge variant="warning">{data.summary.priceChanges} price</Badge>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isLoading && <LoadingState message="Loading menu history..." size="sm" />}
+
+      {error && (
+        <ErrorState
+          title="Failed to load menu history"
+          error={error as Error}
+          onRetry={() => refetch()}
+        />
+      )}
+
+      {data && data.changes.length === 0 && (
+        <EmptyState
+          icon={History}
+          title="No menu changes yet"
+          description="Changes appear here once the venue's menu has been re-scraped."
+        />
+      )}
+
+      {data && data.changes.length > 0 && (
+        <div className="space-y-4">
+          {groupByDay(data.changes).map((group) => (
+            <div key={group.day} className="space-y-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase">{group.day}</h4>
+              <ul className="space-y-3 border-l pl-4">
+                {group.changes.map((change) => (
+                  <TimelineEntry key={change.id} change={change} />
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
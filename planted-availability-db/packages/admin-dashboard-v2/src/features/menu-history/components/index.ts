@@ -0,0 +1,5 @@
+/**
+ * Menu History Components
+ */
+
+export { MenuChangeTimeline } from './MenuChangeTimeline';
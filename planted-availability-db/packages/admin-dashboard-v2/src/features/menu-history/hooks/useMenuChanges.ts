@@ -0,0 +1,31 @@
+/**
+ * useMenuChanges Hook
+ *
+ * React Query hook for fetching a venue's menu change timeline.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getMenuChanges } from '../api/menuHistoryApi';
+import type { MenuChangesFilters } from '../types';
+
+/**
+ * Query key factory for menu changes
+ */
+export const menuChangesKeys = {
+  all: ['menuChanges'] as const,
+  venue: (venueId: string) => [...menuChangesKeys.all, venueId] as const,
+  list: (venueId: string, filters: MenuChangesFilters) =>
+    [...menuChangesKeys.venue(venueId), filters] as const,
+};
+
+/**
+ * Hook for fetching the menu changes of a venue
+ */
+export function useMenuChanges(venueId: string | undefined, filters: MenuChangesFilters = {}) {
+  return useQuery({
+    queryKey: menuChangesKeys.list(venueId ?? '', filters),
+    queryFn: () => getMenuChanges(venueId!, filters),
+    enabled: !!venueId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Menu History Feature
+ *
+ * Timeline of Planted dishes appearing on and vanishing from venue menus.
+ */
+
+// Types
+export * from './types';
+
+// API
+export * from './api/menuHistoryApi';
+
+// Hooks
+export { useMenuChanges, menuChangesKeys } from './hooks/useMenuChanges';
+
+// Components
+export * from './components';
@@ -0,0 +1,32 @@
+/**
+ * Menu History Feature Types
+ *
+ * Types for the menu change timeline of a venue: Planted dishes appearing
+ * on, disappearing from or changing on its delivery platform menus.
+ */
+
+import type {
+  MenuChangeType,
+  MenuChangeEntry,
+  MenuChangeSummary,
+  MenuChangesParams,
+  MenuChangesResponse,
+} from '@pad/core';
+
+// Shapes of the /adminMenuChanges API contract in @pad/core
+export type { MenuChangeType, MenuChangeEntry, MenuChangeSummary, MenuChangesResponse };
+
+/**
+ * Menu Changes Filters
+ */
+export type MenuChangesFilters = Omit<MenuChangesParams, 'venueId' | 'limit'> & { limit?: number };
+
+/**
+ * Change type display labels
+ */
+export const MENU_CHANGE_LABELS: Record<MenuChangeType, string> = {
+  dish_added: 'Appeared',
+  dish_removed: 'Vanished',
+  dish_modified: 'Changed',
+  price_change: 'Price change',
+};
@@ -0,0 +1,111 @@
+/**
+ * PartnerSubmissionsPage Tests
+ *
+ * Tests for the Partner Submissions review page.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test/test-utils';
+import userEvent from '@testing-library/user-event';
+import { PartnerSubmissionsPage } from '@/pages/PartnerSubmissionsPage';
+import { server } from '@/test/mocks/server';
+import { http, HttpResponse } from 'msw';
+
+// Mock firebase auth - must be before any imports that use it
+vi.mock('@/lib/firebase', () => {
+  const mockGetIdToken = vi.fn().mockResolvedValue('mock-token');
+  return {
+    auth: {
+      currentUser: {
+        getIdToken: mockGetIdToken,
+      },
+    },
+  };
+});
+
+// Mock the auth provider
+vi.mock('@/app/providers/AuthProvider', () => ({
+  AuthProvider: ({ children }: { children: React.ReactNode }) => children,
+  useAuthContext: () => ({
+    isAuthenticated: true,
+    user: { uid: 'test-user', email: 'test@example.com', displayName: 'Test User' },
+    loading: false,
+    error: null,
+    signIn: vi.fn(),
+    signInWithGoogle: vi.fn(),
+    signOut: vi.fn(),
+    getToken: vi.fn().mockResolvedValue('mock-token'),
+  }),
+}));
+
+describe('PartnerSubmissionsPage', () => {
+  beforeEach(() => {
+    server.resetHandlers();
+  });
+
+  it('should show loading state initially', () => {
+    render(<PartnerSubmissionsPage />);
+    expect(screen.getByText(/loading partner submissions/i)).toBeInTheDocument();
+  });
+
+  it('should show error state when API fails', async () => {
+    server.use(
+      http.get('*/adminPartnerSubmissions', () => {
+        return new HttpResponse(
+          JSON.stringify({ error: 'Server error' }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+      })
+    );
+
+    render(<PartnerSubmissionsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/failed to load partner submissions/i)).toBeInTheDocument();
+    }, { timeout: 10000 });
+  });
+
+  it('should display staged records and batches', async () => {
+    render(<PartnerSubmissionsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Hiltl Sihlpost')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    expect(screen.getByText('Planted Kebab Bowl')).toBeInTheDocument();
+    expect(screen.getByText(/batches \(2\)/i)).toBeInTheDocument();
+  });
+
+  it('should require notes before rejecting', async () => {
+    const user = userEvent.setup();
+    render(<PartnerSubmissionsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Hiltl Sihlpost')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    await user.click(screen.getByRole('checkbox', { name: /select hiltl sihlpost/i }));
+
+    expect(screen.getByRole('button', { name: /^approve$/i })).toBeEnabled();
+    expect(screen.getByRole('button', { name: /reject/i })).toBeDisabled();
+
+    await user.type(screen.getByRole('textbox', { name: /review notes/i }), 'Duplicate location');
+    expect(screen.getByRole('button', { name: /reject/i })).toBeEnabled();
+  });
+
+  it('should show the review result after approving', async () => {
+    const user = userEvent.setup();
+    render(<PartnerSubmissionsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Hiltl Sihlpost')).toBeInTheDocument();
+    }, { timeout: 5000 });
+
+    await user.click(screen.getByRole('checkbox', { name: /select hiltl sihlpost/i }));
+    await user.click(screen.getByRole('button', { name: /approve & promote/i }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('1 of 1 records approved, 1 promoted');
+    });
+  });
+});
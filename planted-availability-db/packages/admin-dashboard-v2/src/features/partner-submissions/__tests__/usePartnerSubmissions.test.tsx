@@ -0,0 +1,113 @@
+/**
+ * usePartnerSubmissions Hook Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { usePartnerSubmissions } from '../hooks/usePartnerSubmissions';
+import { useReviewPartnerSubmissions } from '../hooks/usePartnerSubmissionActions';
+import { server } from '@/test/mocks/server';
+
+// Mock firebase auth
+vi.mock('@/lib/firebase', () => {
+  const mockGetIdToken = vi.fn().mockResolvedValue('mock-token');
+  return {
+    auth: {
+      currentUser: {
+        getIdToken: mockGetIdToken,
+      },
+    },
+  };
+});
+
+// Wrapper component
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+        gcTime: 0,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+describe('usePartnerSubmissions', () => {
+  beforeEach(() => {
+    server.resetHandlers();
+  });
+
+  it('should fetch open submissions and batches', async () => {
+    const { result } = renderHook(() => usePartnerSubmissions({ status: 'open' }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.data?.items.length).toBeGreaterThan(0);
+    expect(result.current.data?.batches.length).toBeGreaterThan(0);
+    result.current.data?.items.forEach(item => {
+      expect(['pending', 'validating', 'needs_review']).toContain(item.status);
+    });
+  });
+
+  it('should filter by batch', async () => {
+    const { result } = renderHook(() => usePartnerSubmissions({ batchId: 'batch-2' }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.data?.items.length).toBeGreaterThan(0);
+    result.current.data?.items.forEach(item => {
+      expect(item.batchId).toBe('batch-2');
+    });
+  });
+
+  it('should filter by confidence range, lowest first', async () => {
+    const { result } = renderHook(
+      () => usePartnerSubmissions({ minConfidence: 50, maxConfidence: 80 }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    const scores = result.current.data?.items.map(item => item.confidenceScore) ?? [];
+    expect(scores.length).toBeGreaterThan(0);
+    scores.forEach(score => {
+      expect(score).toBeGreaterThanOrEqual(50);
+      expect(score).toBeLessThanOrEqual(80);
+    });
+    expect([...scores].sort((a, b) => a - b)).toEqual(scores);
+  });
+});
+
+describe('useReviewPartnerSubmissions', () => {
+  it('should approve and promote selected records', async () => {
+    const onSuccess = vi.fn();
+    const { result } = renderHook(() => useReviewPartnerSubmissions({ onSuccess }), {
+      wrapper: createWrapper(),
+    });
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        items: [{ entityType: 'venue', id: 'staged-venue-1' }],
+        decision: 'approve',
+        promote: true,
+      });
+    });
+
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(onSuccess.mock.calls[0][0].summary.promoted).toBe(1);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Partner Submissions API Client
+ *
+ * Typed API functions for the Partner Submissions review feature.
+ */
+
+import { apiClient } from '@/lib/api/client';
+import { API_ENDPOINTS } from '@/lib/api/endpoints';
+import type {
+  PartnerSubmissionsFilters,
+  PartnerSubmissionsResponse,
+  ReviewPartnerSubmissionsRequest,
+  ReviewPartnerSubmissionsResponse,
+  PromotePartnerSubmissionsRequest,
+  PromotePartnerSubmissionsResponse,
+} from '../types';
+
+/**
+ * Build query string from filters
+ */
+function buildQueryString(filters: PartnerSubmissionsFilters): string {
+  const params = new URLSearchParams();
+
+  if (filters.batchId) params.append('batchId', filters.batchId);
+  if (filters.partnerId) params.append('partnerId', filters.partnerId);
+  if (filters.entityType) params.append('entityType', filters.entityType);
+  if (filters.status) params.append('status', filters.status);
+  if (filters.minConfidence !== undefined) params.append('minConfidence', filters.minConfidence.toString());
+  if (filters.maxConfidence !== undefined) params.append('maxConfidence', filters.maxConfidence.toString());
+  if (filters.limit !== undefined) params.append('limit', filters.limit.toString());
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Get staged partner submissions and the batches awaiting review
+ */
+export async function getPartnerSubmissions(
+  filters: PartnerSubmissionsFilters = {}
+): Promise<PartnerSubmissionsResponse> {
+  const queryString = buildQueryString(filters);
+  return apiClient.get<PartnerSubmissionsResponse>(
+    `${API_ENDPOINTS.PARTNER_SUBMISSIONS}${queryString}`
+  );
+}
+
+/**
+ * Approve or reject staged records
+ */
+export async function reviewPartnerSubmissions(
+  request: ReviewPartnerSubmissionsRequest
+): Promise<ReviewPartnerSubmissionsResponse> {
+  return apiClient.post<ReviewPartnerSubmissionsResponse>(
+    API_ENDPOINTS.REVIEW_PARTNER_SUBMISSIONS,
+    request
+  );
+}
+
+/**
+ * Promote approved records (or a whole batch) to production
+ */
+export async function promotePartnerSubmissions(
+  request: PromotePartnerSubmissionsRequest
+): Promise<PromotePartnerSubmissionsResponse> {
+  return apiClient.post<PromotePartnerSubmissionsResponse>(
+    API_ENDPOINTS.PROMOTE_PARTNER_SUBMISSIONS,
+    request
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * SubmissionBatchList Component
+ *
+ * Lists ingestion batches awaiting review with their review progress.
+ * Selecting a batch narrows the submission list to that batch.
+ */
+
+import { Package } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PartnerSubmissionBatch } from '../types';
+
+interface SubmissionBatchListProps {
+  batches: PartnerSubmissionBatch[];
+  selectedBatchId?: string;
+  onSelectBatch: (batchId: string | undefined) => void;
+  className?: string;
+}
+
+export function SubmissionBatchList({
+  batches,
+  selectedBatchId,
+  onSelectBatch,
+  className,
+}: SubmissionBatchListProps) {
+  return (
+    <div className={cn('space-y-1', className)}>
+      <button
+        type="button"
+        onClick={() => onSelectBatch(undefined)}
+        className={cn(
+          'w-full text-left px-3 py-2 rounded-md text-sm transition-colors',
+          !selectedBatchId ? 'bg-primary/10 font-medium' : 'hover:bg-muted'
+        )}
+      >
+        All batches
+      </button>
+
+      {batches.length === 0 && (
+        <p className="px-3 py-2 text-sm text-muted-foreground">No batches awaiting review</p>
+      )}
+
+      {batches.map((batch) => {
+        const { records_staged, records_approved, records_rejected, records_promoted } = batch.stats;
+        const reviewed = records_approved + records_rejected;
+
+        return (
+          <button
+            key={batch.id}
+            type="button"
+            onClick={() => onSelectBatch(batch.id)}
+            className={cn(
+              'w-full text-left px-3 py-2 rounded-md text-sm transition-colors',
+              selectedBatchId === batch.id ? 'bg-primary/10' : 'hover:bg-muted'
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <Package className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="font-medium truncate">{batch.partnerName || batch.partnerId}</span>
+            </div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              {new Date(batch.receivedAt).toLocaleString()} · {batch.channel}
+            </div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              {reviewed}/{records_staged} reviewed · {records_promoted} promoted
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
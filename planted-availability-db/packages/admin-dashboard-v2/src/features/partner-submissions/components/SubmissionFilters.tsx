@@ -0,0 +1,131 @@
+/**
+ * SubmissionFilters Component
+ *
+ * Filter bar for partner submissions.
+ * Supports entity type, status and minimum/maximum confidence filters.
+ */
+
+import { X } from 'lucide-react';
+import { Input } from '@/shared/ui/Input';
+import { Button } from '@/shared/ui/Button';
+import type { StagingStatus } from '@pad/core';
+import type { PartnerSubmissionsFilters, StagedEntityType } from '../types';
+import { ENTITY_TYPE_LABELS, SUBMISSION_STATUS_LABELS } from '../types';
+
+interface SubmissionFiltersProps {
+  filters: PartnerSubmissionsFilters;
+  onFiltersChange: (filters: PartnerSubmissionsFilters) => void;
+  className?: string;
+}
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+function parseConfidence(value: string): number | undefined {
+  if (value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : Math.min(100, Math.max(0, parsed));
+}
+
+export function SubmissionFilters({ filters, onFiltersChange, className }: SubmissionFiltersProps) {
+  const handleEntityTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = (e.target.value || undefined) as StagedEntityType | undefined;
+    onFiltersChange({ ...filters, entityType: value });
+  };
+
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value as StagingStatus | 'open';
+    onFiltersChange({ ...filters, status: value });
+  };
+
+  const handleClearFilters = () => {
+    onFiltersChange({ batchId: filters.batchId, status: 'open' });
+  };
+
+  const hasActiveFilters =
+    filters.entityType ||
+    (filters.status && filters.status !== 'open') ||
+    filters.minConfidence !== undefined ||
+    filters.maxConfidence !== undefined;
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Entity Type Filter */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="entity-type-filter" className="text-sm font-medium text-muted-foreground">
+            Type:
+          </label>
+          <select
+            id="entity-type-filter"
+            value={filters.entityType || ''}
+            onChange={handleEntityTypeChange}
+            className={selectClassName}
+          >
+            <option value="">All Types</option>
+            {Object.entries(ENTITY_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Status Filter */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="submission-status-filter" className="text-sm font-medium text-muted-foreground">
+            Status:
+          </label>
+          <select
+            id="submission-status-filter"
+            value={filters.status || 'open'}
+            onChange={handleStatusChange}
+            className={selectClassName}
+          >
+            {Object.entries(SUBMISSION_STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Confidence Range */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="min-confidence-filter" className="text-sm font-medium text-muted-foreground">
+            Confidence:
+          </label>
+          <Input
+            id="min-confidence-filter"
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Min"
+            value={filters.minConfidence ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, minConfidence: parseConfidence(e.target.value) })}
+            className="w-20"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            id="max-confidence-filter"
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Max"
+            aria-label="Maximum confidence"
+            value={filters.maxConfidence ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, maxConfidence: parseConfidence(e.target.value) })}
+            className="w-20"
+          />
+        </div>
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={handleClearFilters} className="flex items-center gap-1">
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
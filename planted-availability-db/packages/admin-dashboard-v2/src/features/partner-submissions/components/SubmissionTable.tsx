@@ -0,0 +1,96 @@
+/**
+ * SubmissionTable Component
+ *
+ * Selectable list of staged partner records with confidence, flags and
+ * review status.
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/shared/ui/Badge';
+import { Checkbox } from '@/shared/ui/Checkbox';
+import type { PartnerSubmission } from '../types';
+import { ENTITY_TYPE_LABELS, SUBMISSION_STATUS_COLORS, SUBMISSION_STATUS_LABELS } from '../types';
+
+interface SubmissionTableProps {
+  items: PartnerSubmission[];
+  selectedIds: Set<string>;
+  onToggle: (item: PartnerSubmission) => void;
+  onToggleAll: (selected: boolean) => void;
+  className?: string;
+}
+
+function confidenceColor(score: number): string {
+  if (score >= 85) return 'text-green-700';
+  if (score >= 60) return 'text-yellow-700';
+  return 'text-red-700';
+}
+
+export function SubmissionTable({
+  items,
+  selectedIds,
+  onToggle,
+  onToggleAll,
+  className,
+}: SubmissionTableProps) {
+  const allSelected = items.length > 0 && items.every((item) => selectedIds.has(item.id));
+
+  return (
+    <table className={cn('w-full text-sm', className)}>
+      <thead className="bg-muted/30 text-left text-muted-foreground">
+        <tr>
+          <th className="p-3 w-10">
+            <Checkbox
+              aria-label="Select all"
+              checked={allSelected}
+              onCheckedChange={onToggleAll}
+            />
+          </th>
+          <th className="p-3">Record</th>
+          <th className="p-3">Type</th>
+          <th className="p-3">Partner</th>
+          <th className="p-3 text-right">Confidence</th>
+          <th className="p-3">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item) => (
+          <tr key={`${item.entityType}:${item.id}`} className="border-t hover:bg-muted/20">
+            <td className="p-3">
+              <Checkbox
+                aria-label={`Select ${item.title}`}
+                checked={selectedIds.has(item.id)}
+                onCheckedChange={() => onToggle(item)}
+              />
+            </td>
+            <td className="p-3">
+              <div className="font-medium">{item.title}</div>
+              {item.subtitle && <div className="text-xs text-muted-foreground">{item.subtitle}</div>}
+              {item.flags.length > 0 && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-yellow-700">
+                  <AlertTriangle className="h-3 w-3" />
+                  {item.flags.join(', ')}
+                </div>
+              )}
+              {item.review?.notes && (
+                <div className="mt-1 text-xs text-muted-foreground">Note: {item.review.notes}</div>
+              )}
+            </td>
+            <td className="p-3">
+              <Badge variant="outline">{ENTITY_TYPE_LABELS[item.entityType]}</Badge>
+            </td>
+            <td className="p-3 text-muted-foreground">{item.partnerName || item.partnerId}</td>
+            <td className={cn('p-3 text-right font-semibold', confidenceColor(item.confidenceScore))}>
+              {item.confidenceScore}
+            </td>
+            <td className="p-3">
+              <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', SUBMISSION_STATUS_COLORS[item.status])}>
+                {SUBMISSION_STATUS_LABELS[item.status]}
+              </span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
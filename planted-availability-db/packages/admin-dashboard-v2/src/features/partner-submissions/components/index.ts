@@ -0,0 +1,7 @@
+/**
+ * Partner Submissions Components
+ */
+
+export { SubmissionFilters } from './SubmissionFilters';
+export { SubmissionBatchList } from './SubmissionBatchList';
+export { SubmissionTable } from './SubmissionTable';
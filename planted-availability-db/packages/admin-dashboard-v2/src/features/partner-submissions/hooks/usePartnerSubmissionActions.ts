@@ -0,0 +1,65 @@
+/**
+ * usePartnerSubmissionActions Hook
+ *
+ * React Query mutations for reviewing and promoting partner submissions.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  reviewPartnerSubmissions,
+  promotePartnerSubmissions,
+} from '../api/partnerSubmissionsApi';
+import { partnerSubmissionsKeys } from './usePartnerSubmissions';
+import type {
+  ReviewPartnerSubmissionsResponse,
+  PromotePartnerSubmissionsResponse,
+} from '../types';
+
+interface MutationCallbacks<T> {
+  onSuccess?: (response: T) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Hook for approving or rejecting staged records
+ */
+export function useReviewPartnerSubmissions(
+  callbacks?: MutationCallbacks<ReviewPartnerSubmissionsResponse>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: reviewPartnerSubmissions,
+    onError: (error) => {
+      callbacks?.onError?.(error as Error);
+    },
+    onSuccess: (response) => {
+      callbacks?.onSuccess?.(response);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: partnerSubmissionsKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for promoting approved records to production
+ */
+export function usePromotePartnerSubmissions(
+  callbacks?: MutationCallbacks<PromotePartnerSubmissionsResponse>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: promotePartnerSubmissions,
+    onError: (error) => {
+      callbacks?.onError?.(error as Error);
+    },
+    onSuccess: (response) => {
+      callbacks?.onSuccess?.(response);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: partnerSubmissionsKeys.all });
+    },
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * usePartnerSubmissions Hook
+ *
+ * React Query hook for fetching staged partner submissions.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getPartnerSubmissions } from '../api/partnerSubmissionsApi';
+import type { PartnerSubmissionsFilters } from '../types';
+
+/**
+ * Query key factory for partner submissions
+ */
+export const partnerSubmissionsKeys = {
+  all: ['partnerSubmissions'] as const,
+  lists: () => [...partnerSubmissionsKeys.all, 'list'] as const,
+  list: (filters: PartnerSubmissionsFilters) => [...partnerSubmissionsKeys.lists(), filters] as const,
+};
+
+/**
+ * Hook for fetching partner submissions with filters
+ */
+export function usePartnerSubmissions(filters: PartnerSubmissionsFilters = {}) {
+  return useQuery({
+    queryKey: partnerSubmissionsKeys.list(filters),
+    queryFn: () => getPartnerSubmissions(filters),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Partner Submissions Feature
+ *
+ * Review partner-submitted data and promote it into production.
+ */
+
+// Types
+export * from './types';
+
+// API
+export * from './api/partnerSubmissionsApi';
+
+// Hooks
+export { usePartnerSubmissions, partnerSubmissionsKeys } from './hooks/usePartnerSubmissions';
+export {
+  useReviewPartnerSubmissions,
+  usePromotePartnerSubmissions,
+} from './hooks/usePartnerSubmissionActions';
+
+// Components
+export * from './components';
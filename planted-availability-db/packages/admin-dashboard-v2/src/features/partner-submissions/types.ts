@@ -0,0 +1,82 @@
+/**
+ * Partner Submissions Feature Types
+ *
+ * Types for reviewing partner-submitted (staged) data and promoting it
+ * into production.
+ */
+
+import type {
+  StagingStatus,
+  StagedEntityType,
+  StagedItemRef,
+  PartnerSubmission,
+  PartnerSubmissionBatch,
+  PartnerSubmissionsParams,
+  PartnerSubmissionsResponse,
+  ReviewPartnerSubmissionsBody,
+  ReviewPartnerSubmissionsResponse,
+  PromotePartnerSubmissionsBody,
+  PromotePartnerSubmissionsResponse,
+  BatchReviewCounts,
+  PromotionOutcome,
+} from '@pad/core';
+
+// Shapes of the partner submission API contract in @pad/core
+export type {
+  StagedEntityType,
+  StagedItemRef,
+  PartnerSubmission,
+  PartnerSubmissionBatch,
+  PartnerSubmissionsResponse,
+  ReviewPartnerSubmissionsResponse,
+  PromotePartnerSubmissionsResponse,
+  BatchReviewCounts,
+  PromotionOutcome,
+};
+
+/**
+ * Filter options for the partner submissions query
+ */
+export type PartnerSubmissionsFilters = PartnerSubmissionsParams;
+
+/**
+ * Approve/reject request
+ */
+export type ReviewPartnerSubmissionsRequest = ReviewPartnerSubmissionsBody;
+
+/**
+ * Promote request - a whole batch or explicit records
+ */
+export type PromotePartnerSubmissionsRequest = PromotePartnerSubmissionsBody;
+
+/**
+ * Entity type display info
+ */
+export const ENTITY_TYPE_LABELS: Record<StagedEntityType, string> = {
+  venue: 'Venues',
+  dish: 'Dishes',
+  promotion: 'Promotions',
+  availability: 'Availability',
+};
+
+/**
+ * Status display info
+ */
+export const SUBMISSION_STATUS_LABELS: Record<StagingStatus | 'open', string> = {
+  open: 'Awaiting review',
+  pending: 'Pending',
+  validating: 'Validating',
+  needs_review: 'Needs review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  promoted: 'Promoted',
+};
+
+export const SUBMISSION_STATUS_COLORS: Record<StagingStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  validating: 'bg-blue-100 text-blue-800',
+  needs_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  promoted: 'bg-purple-100 text-purple-800',
+};
@@ -6,6 +6,24 @@
 
 import { apiClient } from '@/lib/api/client';
 import { API_ENDPOINTS } from '@/lib/api/endpoints';
+import type {
+  ReviewVenue as ApiReviewVenue,
+  ReviewDish as ApiReviewDish,
+  ReviewHierarchyNode,
+  ReviewQueueStats,
+  ReviewQueueResponse as ApiReviewQueueResponse,
+  ApproveVenueResponse,
+  PartialApproveVenueResponse,
+  RejectVenueResponse,
+  BulkApproveResponse,
+  BulkRejectResponse,
+  AssignChainBody,
+  AssignChainResponse,
+  UpdateVenueCountryBody,
+  UpdateVenueCountryResponse,
+  UpdateVenueAddressResponse,
+  UpdateDishStatusResponse,
+} from '@pad/core';
 import {
   ReviewQueueResponse,
   ReviewQueueFilters,
@@ -16,85 +34,10 @@ import {
   FeedbackRequest,
 } from '../types';
 
-/**
- * Backend response types (what the API actually returns)
- */
-interface BackendReviewVenue {
-  id: string;
-  name: string;
-  chainId?: string;
-  chainName?: string;
-  address: {
-    street?: string;
-    city: string;
-    postalCode?: string;
-    country: string;
-  };
-  confidenceScore: number;
-  status: string;
-  createdAt: string;
-  dishes: BackendReviewDish[];
-  deliveryPlatforms?: Array<{
-    platform: string;
-    url: string;
-    active: boolean;
-  }>;
-}
-
-interface BackendReviewDish {
-  id: string;
-  name: string;
-  description?: string;
-  product: string;
-  confidence: number;
-  price?: string;
-  imageUrl?: string;
-  status: string;
-}
-
-/**
- * Backend HierarchyNode format (now matches frontend)
- */
-interface BackendHierarchyNode {
-  id: string;
-  type: 'country' | 'venueType' | 'chain' | 'venue';
-  label: string;
-  count: number;
-  children?: BackendHierarchyNode[];
-  venue?: BackendReviewVenue;
-}
-
-interface BackendStats {
-  pending: number;
-  verified: number;
-  rejected: number;
-  promoted?: number;
-  stale?: number;
-  byCountry: Record<string, number>;
-  byConfidence?: {
-    low: number;
-    medium: number;
-    high: number;
-  };
-  total: number;
-}
-
-interface BackendResponse {
-  items: BackendReviewVenue[];
-  hierarchy: BackendHierarchyNode[];
-  stats: BackendStats;
-  pagination: {
-    cursor?: string;
-    hasMore: boolean;
-    total: number;
-    pageSize: number;
-  };
-}
-
 /**
  * Transform backend venue to frontend venue
  */
-function transformVenue(backendVenue: BackendReviewVenue): ReviewVenue {
+function transformVenue(backendVenue: ApiReviewVenue): ReviewVenue {
   const primaryPlatform = backendVenue.deliveryPlatforms?.[0];
   return {
     id: backendVenue.id,
@@ -119,7 +62,7 @@ function transformVenue(backendVenue: BackendReviewVenue): ReviewVenue {
 /**
  * Transform backend dish to frontend dish
  */
-function transformDish(backendDish: BackendReviewDish): ReviewDish {
+function transformDish(backendDish: ApiReviewDish): ReviewDish {
   // Map backend status to frontend DishStatus
   let status: ReviewDish['status'] = 'pending';
   if (backendDish.status === 'verified') {
@@ -146,7 +89,7 @@ function transformDish(backendDish: BackendReviewDish): ReviewDish {
  * Transform backend hierarchy node to frontend HierarchyNode format
  * The backend now returns HierarchyNode[] directly, but venue objects need transformation
  */
-function transformHierarchyNode(node: BackendHierarchyNode, itemsMap: Map<string, ReviewVenue>): HierarchyNode {
+function transformHierarchyNode(node: ReviewHierarchyNode, itemsMap: Map<string, ReviewVenue>): HierarchyNode {
   const result: HierarchyNode = {
     id: node.id,
     type: node.type,
@@ -170,7 +113,7 @@ function transformHierarchyNode(node: BackendHierarchyNode, itemsMap: Map<string
 /**
  * Transform backend hierarchy to frontend HierarchyNode format
  */
-function transformHierarchy(backendHierarchy: BackendHierarchyNode[], items: ReviewVenue[]): HierarchyNode[] {
+function transformHierarchy(backendHierarchy: ReviewHierarchyNode[], items: ReviewVenue[]): HierarchyNode[] {
   // Create a map for quick venue lookup
   const itemsMap = new Map<string, ReviewVenue>(items.map(item => [item.id, item]));
 
@@ -180,7 +123,7 @@ function transformHierarchy(backendHierarchy: BackendHierarchyNode[], items: Rev
 /**
  * Transform backend stats to frontend stats
  */
-function transformStats(backendStats: BackendStats): ReviewStats {
+function transformStats(backendStats: ReviewQueueStats): ReviewStats {
   return {
     pending: backendStats.pending,
     verified: backendStats.verified,
@@ -217,7 +160,7 @@ function buildQueryString(filters: ReviewQueueFilters): string {
  */
 export async function getReviewQueue(filters: ReviewQueueFilters = {}): Promise<ReviewQueueResponse> {
   const queryString = buildQueryString(filters);
-  const backendResponse = await apiClient.get<BackendResponse>(`${API_ENDPOINTS.REVIEW_QUEUE}${queryString}`);
+  const backendResponse = await apiClient.get<ApiReviewQueueResponse>(`${API_ENDPOINTS.REVIEW_QUEUE}${queryString}`);
 
   // Transform backend response to frontend format
   const items = backendResponse.items.map(transformVenue);
@@ -238,25 +181,13 @@ export async function getReviewQueue(filters: ReviewQueueFilters = {}): Promise<
   };
 }
 
-/**
- * Backend response for approve/partial approve/reject
- */
-interface BackendApprovalResponse {
-  success: boolean;
-  message: string;
-  venue: {
-    id: string;
-    name: string;
-    status: string;
-    verifiedAt?: string;
-    rejectionReason?: string;
-  };
-}
-
 /**
  * Helper to create a minimal ReviewVenue from backend response
  */
-function createMinimalVenue(venue: BackendApprovalResponse['venue'], status: ReviewVenue['status']): ReviewVenue {
+function createMinimalVenue(
+  venue: ApproveVenueResponse['venue'] | RejectVenueResponse['venue'],
+  status: ReviewVenue['status']
+): ReviewVenue {
   return {
     id: venue.id,
     name: venue.name,
@@ -273,8 +204,8 @@ function createMinimalVenue(venue: BackendApprovalResponse['venue'], status: Rev
     confidenceFactors: [],
     dishes: [],
     scrapedAt: new Date().toISOString(),
-    reviewedAt: venue.verifiedAt,
-    rejectionReason: venue.rejectionReason,
+    reviewedAt: 'verifiedAt' in venue ? venue.verifiedAt : undefined,
+    rejectionReason: 'rejectionReason' in venue ? venue.rejectionReason : undefined,
   };
 }
 
@@ -282,7 +213,7 @@ function createMinimalVenue(venue: BackendApprovalResponse['venue'], status: Rev
  * Approve Venue (Full)
  */
 export async function approveVenue(venueId: string): Promise<ReviewVenue> {
-  const response = await apiClient.post<BackendApprovalResponse>(API_ENDPOINTS.APPROVE_VENUE, { venueId });
+  const response = await apiClient.post<ApproveVenueResponse>(API_ENDPOINTS.APPROVE_VENUE, { venueId });
   return createMinimalVenue(response.venue, 'verified');
 }
 
@@ -299,7 +230,7 @@ export async function partialApproveVenue(
   const feedbackTags = parts.length > 1 ? parts[0].split(', ').filter(Boolean) : [];
   const feedbackText = parts.length > 1 ? parts.slice(1).join('\n\n') : feedback;
 
-  const response = await apiClient.post<BackendApprovalResponse>(API_ENDPOINTS.PARTIAL_APPROVE_VENUE, {
+  const response = await apiClient.post<PartialApproveVenueResponse>(API_ENDPOINTS.PARTIAL_APPROVE_VENUE, {
     venueId,
     feedback: feedbackText,
     feedbackTags,
@@ -313,7 +244,7 @@ export async function partialApproveVenue(
  * Reject Venue
  */
 export async function rejectVenue(venueId: string, reason: string): Promise<ReviewVenue> {
-  const response = await apiClient.post<BackendApprovalResponse>(API_ENDPOINTS.REJECT_VENUE, {
+  const response = await apiClient.post<RejectVenueResponse>(API_ENDPOINTS.REJECT_VENUE, {
     venueId,
     reason,
   });
@@ -323,8 +254,8 @@ export async function rejectVenue(venueId: string, reason: string): Promise<Revi
 /**
  * Bulk Approve Venues
  */
-export async function bulkApproveVenues(venueIds: string[]): Promise<{ success: number; failed: number }> {
-  return apiClient.post<{ success: number; failed: number }>(API_ENDPOINTS.BULK_APPROVE, {
+export async function bulkApproveVenues(venueIds: string[]): Promise<BulkApproveResponse> {
+  return apiClient.post<BulkApproveResponse>(API_ENDPOINTS.BULK_APPROVE, {
     venueIds,
   });
 }
@@ -335,8 +266,8 @@ export async function bulkApproveVenues(venueIds: string[]): Promise<{ success:
 export async function bulkRejectVenues(
   venueIds: string[],
   reason: string
-): Promise<{ success: number; failed: number }> {
-  return apiClient.post<{ success: number; failed: number }>(API_ENDPOINTS.BULK_REJECT, {
+): Promise<BulkRejectResponse> {
+  return apiClient.post<BulkRejectResponse>(API_ENDPOINTS.BULK_REJECT, {
     venueIds,
     reason,
   });
@@ -349,20 +280,6 @@ export async function submitFeedback(request: FeedbackRequest): Promise<void> {
   return apiClient.post<void>(API_ENDPOINTS.FEEDBACK_SUBMIT, request);
 }
 
-/**
- * Get Venue by ID
- * Note: This uses the review queue endpoint with a filter
- */
-export async function getVenueById(venueId: string): Promise<ReviewVenue> {
-  const response = await apiClient.get<ReviewQueueResponse>(
-    `${API_ENDPOINTS.REVIEW_QUEUE}?venueId=${encodeURIComponent(venueId)}`
-  );
-  if (response.items && response.items.length > 0) {
-    return response.items[0];
-  }
-  throw new Error('Venue not found');
-}
-
 /**
  * Chain Management
  */
@@ -378,11 +295,7 @@ export async function getChains(): Promise<Chain[]> {
   return response.chains || [];
 }
 
-export async function assignChain(params: {
-  venueIds: string[];
-  chainId?: string;
-  newChainName?: string;
-}): Promise<{ chainId: string; chainName: string; updatedCount: number }> {
+export async function assignChain(params: AssignChainBody): Promise<AssignChainResponse> {
   return apiClient.post(API_ENDPOINTS.ASSIGN_CHAIN, params);
 }
 
@@ -391,8 +304,8 @@ export async function assignChain(params: {
  */
 export async function updateVenueCountry(
   venueId: string,
-  country: string
-): Promise<{ success: boolean; venue: { id: string; name: string; previousCountry: string; country: string } }> {
+  country: UpdateVenueCountryBody['country']
+): Promise<UpdateVenueCountryResponse> {
   return apiClient.post(API_ENDPOINTS.UPDATE_VENUE_COUNTRY, { venueId, country });
 }
 
@@ -402,7 +315,7 @@ export async function updateVenueCountry(
 export async function updateVenueAddress(
   venueId: string,
   address: { street?: string; city?: string }
-): Promise<{ success: boolean; venue: { id: string; name: string; address: { street: string; city: string; country: string } } }> {
+): Promise<UpdateVenueAddressResponse> {
   return apiClient.post(API_ENDPOINTS.UPDATE_VENUE_ADDRESS, { venueId, ...address });
 }
 
@@ -413,6 +326,6 @@ export async function updateDishStatus(
   venueId: string,
   dishId: string,
   status: 'verified' | 'rejected'
-): Promise<{ success: boolean; dish: { id: string; name: string; status: string }; venue: { id: string; name: string } }> {
+): Promise<UpdateDishStatusResponse> {
   return apiClient.post(API_ENDPOINTS.UPDATE_DISH_STATUS, { venueId, dishId, status });
 }
@@ -11,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/shared/ui/Card';
 import { Badge } from '@/shared/ui/Badge';
 import { Button } from '@/shared/ui/Button';
 import { cn } from '@/lib/utils';
+import type { SupportedCountry } from '@pad/core';
 import { ReviewVenue, PLATFORM_LABELS, VENUE_TYPE_LABELS, COUNTRY_EMOJIS } from '../types';
 import { VenueApprovalButtons } from './VenueApprovalButtons';
 
@@ -18,7 +19,7 @@ interface VenueDetailPanelProps {
   venue: ReviewVenue;
   className?: string;
   onAssignChain?: () => void;
-  onUpdateCountry?: (venueId: string, country: string) => Promise<void>;
+  onUpdateCountry?: (venueId: string, country: SupportedCountry) => Promise<void>;
   isUpdatingCountry?: boolean;
   onUpdateAddress?: (venueId: string, address: { street?: string; city?: string }) => Promise<void>;
   isUpdatingAddress?: boolean;
@@ -105,7 +106,8 @@ export function VenueDetailPanel({
       setIsEditingCountry(false);
       return;
     }
-    await onUpdateCountry(venue.id, selectedCountry);
+    // The selector only offers COUNTRY_OPTIONS
+    await onUpdateCountry(venue.id, selectedCountry as SupportedCountry);
     setIsEditingCountry(false);
   };
 
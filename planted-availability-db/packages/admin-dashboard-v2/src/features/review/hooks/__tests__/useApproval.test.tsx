@@ -188,7 +188,8 @@ describe('useApproval Hooks', () => {
       });
 
       expect(result.current.data).toBeDefined();
-      expect(result.current.data?.success).toBeGreaterThan(0);
+      expect(result.current.data?.success).toBe(true);
+      expect(result.current.data?.summary.successful).toBeGreaterThan(0);
     });
 
     it('should invalidate queries after bulk approval', async () => {
@@ -235,8 +236,8 @@ describe('useApproval Hooks', () => {
       });
 
       const data = result.current.data;
-      expect(data?.success).toBeGreaterThanOrEqual(0);
-      expect(data?.failed).toBeGreaterThanOrEqual(0);
+      expect(data?.summary.successful).toBeGreaterThanOrEqual(0);
+      expect(data?.summary.errors).toBeGreaterThanOrEqual(0);
     });
   });
 
@@ -5,6 +5,7 @@
  */
 
 import { useMutation, useQueryClient, UseMutationResult } from '@tanstack/react-query';
+import type { BulkApproveResponse, BulkRejectResponse } from '@pad/core';
 import {
   approveVenue,
   partialApproveVenue,
@@ -194,7 +195,7 @@ export function useRejectVenue(options?: ApprovalMutationOptions): UseMutationRe
  * useBulkApprove Hook
  */
 export function useBulkApprove(options?: ApprovalMutationOptions): UseMutationResult<
-  { success: number; failed: number },
+  BulkApproveResponse,
   Error,
   string[]
 > {
@@ -216,7 +217,7 @@ export function useBulkApprove(options?: ApprovalMutationOptions): UseMutationRe
  * useBulkReject Hook
  */
 export function useBulkReject(options?: ApprovalMutationOptions): UseMutationResult<
-  { success: number; failed: number },
+  BulkRejectResponse,
   Error,
   { venueIds: string[]; reason: string }
 > {
@@ -5,29 +5,11 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { FlagVenueBody, FlagVenueResponse } from '@pad/core';
 import { post } from '@/lib/api/client';
 import { reviewQueueKeys } from './useReviewQueue';
 
-interface FlagVenueParams {
-  venueId: string;
-  flagType: 'dish_extraction' | 're_verification';
-  priority: 'urgent' | 'high' | 'normal';
-  reason?: string;
-}
-
-interface FlagVenueResponse {
-  success: boolean;
-  message: string;
-  venue: {
-    id: string;
-    name: string;
-    flag_type: string;
-    flag_priority: string;
-    flagged_at: string;
-  };
-}
-
-async function flagVenue(params: FlagVenueParams): Promise<FlagVenueResponse> {
+async function flagVenue(params: FlagVenueBody): Promise<FlagVenueResponse> {
   return post<FlagVenueResponse>('/adminFlagVenue', params);
 }
 
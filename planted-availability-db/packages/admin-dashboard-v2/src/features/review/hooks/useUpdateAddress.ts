@@ -5,6 +5,7 @@
  */
 
 import { useMutation, useQueryClient, UseMutationResult } from '@tanstack/react-query';
+import type { UpdateVenueAddressBody, UpdateVenueAddressResponse } from '@pad/core';
 import { updateVenueAddress } from '../api/reviewApi';
 import { ReviewQueueResponse } from '../types';
 import { reviewQueueKeys } from './useReviewQueue';
@@ -14,30 +15,13 @@ interface UpdateAddressOptions {
   onError?: (error: Error) => void;
 }
 
-interface UpdateAddressParams {
-  venueId: string;
-  street?: string;
-  city?: string;
-}
-
-interface UpdateAddressResult {
-  success: boolean;
-  venue: {
-    id: string;
-    name: string;
-    address: {
-      street: string;
-      city: string;
-      country: string;
-    };
-  };
-}
+type UpdateAddressParams = UpdateVenueAddressBody;
 
 /**
  * useUpdateAddress Hook
  */
 export function useUpdateAddress(options?: UpdateAddressOptions): UseMutationResult<
-  UpdateAddressResult,
+  UpdateVenueAddressResponse,
   Error,
   UpdateAddressParams
 > {
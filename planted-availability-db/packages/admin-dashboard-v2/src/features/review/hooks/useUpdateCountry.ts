@@ -5,6 +5,7 @@
  */
 
 import { useMutation, useQueryClient, UseMutationResult } from '@tanstack/react-query';
+import type { UpdateVenueCountryBody, UpdateVenueCountryResponse } from '@pad/core';
 import { updateVenueCountry } from '../api/reviewApi';
 import { ReviewQueueResponse } from '../types';
 import { reviewQueueKeys } from './useReviewQueue';
@@ -14,26 +15,13 @@ interface UpdateCountryOptions {
   onError?: (error: Error) => void;
 }
 
-interface UpdateCountryParams {
-  venueId: string;
-  country: string;
-}
-
-interface UpdateCountryResult {
-  success: boolean;
-  venue: {
-    id: string;
-    name: string;
-    previousCountry: string;
-    country: string;
-  };
-}
+type UpdateCountryParams = UpdateVenueCountryBody;
 
 /**
  * useUpdateCountry Hook
  */
 export function useUpdateCountry(options?: UpdateCountryOptions): UseMutationResult<
-  UpdateCountryResult,
+  UpdateVenueCountryResponse,
   Error,
   UpdateCountryParams
 > {
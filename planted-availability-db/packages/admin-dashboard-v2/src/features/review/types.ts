@@ -1,9 +1,13 @@
 /**
  * Review Feature Types
  *
- * Type definitions for the Review Queue feature.
+ * View models for the Review Queue feature. reviewApi maps the review queue
+ * contract in @pad/core (ReviewQueueResponse etc.) onto these; requests and
+ * mutation responses use the core types directly.
  */
 
+import type { FeedbackSubmitBody } from '@pad/core';
+
 /**
  * Review Status
  */
@@ -154,38 +158,9 @@ export interface ReviewQueueFilters {
 }
 
 /**
- * Approval Action
- */
-export type ApprovalAction = 'approve' | 'partial-approve' | 'reject';
-
-/**
- * Approval Request
- */
-export interface ApprovalRequest {
-  venueId: string;
-  action: ApprovalAction;
-  feedback?: string;
-  reason?: string;
-  dishIds?: string[]; // For partial approval
-}
-
-/**
- * Bulk Action Request
+ * Feedback Request (API contract in @pad/core)
  */
-export interface BulkActionRequest {
-  venueIds: string[];
-  action: 'approve' | 'reject';
-  reason?: string;
-}
-
-/**
- * Feedback Request
- */
-export interface FeedbackRequest {
-  venueId: string;
-  feedback: string;
-  tags?: string[];
-}
+export type FeedbackRequest = FeedbackSubmitBody;
 
 /**
  * Feedback Tag
@@ -14,6 +14,7 @@ import type {
   CancelScraperResponse,
   AvailableScrapersResponse,
   BudgetStatus,
+  BudgetStatusResponse,
   ScraperProgress,
   RecentRunsResponse,
   ScraperType,
@@ -59,22 +60,10 @@ export async function getAvailableScrapers(): Promise<AvailableScrapersResponse>
  * Uses /adminAvailableScrapers endpoint which includes recentRuns
  */
 export async function getRecentRuns(limit = 10): Promise<RecentRunsResponse> {
-  const response = await apiClient.get<{
-    recentRuns?: Array<{
-      id: string;
-      scraperId: string;
-      status: string;
-      startedAt: string;
-      completedAt?: string;
-      progress?: { current: number; total: number; percentage: number };
-      stats?: { venues_checked: number; venues_updated: number; dishes_found: number; dishes_updated: number; errors: number };
-      costs?: { searchQueries: number; aiCalls: number; estimated: number };
-      config?: Record<string, unknown>;
-    }>;
-  }>(API_ENDPOINTS.SCRAPERS_AVAILABLE);
+  const response = await apiClient.get<AvailableScrapersResponse>(API_ENDPOINTS.SCRAPERS_AVAILABLE);
 
   // Transform to expected format
-  const runs: ScraperProgress[] = (response.recentRuns || []).slice(0, limit).map(run => ({
+  const runs: ScraperProgress[] = response.recentRuns.slice(0, limit).map(run => ({
     runId: run.id,
     type: (run.scraperId?.includes('discovery') ? 'discovery' : 'extraction') as ScraperType,
     status: run.status as ScraperStatus,
@@ -82,9 +71,9 @@ export async function getRecentRuns(limit = 10): Promise<RecentRunsResponse> {
     completedAt: run.completedAt,
     progress: run.progress || { current: 0, total: 0, percentage: 0 },
     stats: {
-      found: run.stats?.venues_checked || 0,
-      processed: run.stats?.venues_updated || 0,
-      errors: run.stats?.errors || 0,
+      found: run.stats.venues_checked,
+      processed: run.stats.venues_updated,
+      errors: run.stats.errors,
     },
     cost: {
       search: run.costs?.searchQueries || 0,
@@ -101,7 +90,22 @@ export async function getRecentRuns(limit = 10): Promise<RecentRunsResponse> {
  * Get Budget Status
  */
 export async function getBudgetStatus(): Promise<BudgetStatus> {
-  return apiClient.get(API_ENDPOINTS.BUDGET_STATUS);
+  const response = await apiClient.get<BudgetStatusResponse>(API_ENDPOINTS.BUDGET_STATUS);
+  const { today, month, limits } = response;
+
+  return {
+    daily: { limit: limits.dailyBudget, used: today.total, percentage: today.percentage },
+    monthly: { limit: limits.monthlyBudget, used: month.total, percentage: month.percentage },
+    breakdown: {
+      search: {
+        free: { used: today.searchQueries.free },
+        paid: { cost: today.searchQueries.cost, count: today.searchQueries.paid },
+      },
+      ai: { cost: today.aiCalls.cost, calls: today.aiCalls.count },
+    },
+    throttled: response.isThrottled,
+    throttleReason: response.throttleReason,
+  };
 }
 
 /**
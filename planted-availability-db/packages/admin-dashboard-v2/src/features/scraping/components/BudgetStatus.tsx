@@ -141,7 +141,9 @@ export function BudgetStatus({ budget, className }: BudgetStatusProps) {
               <div className="flex items-center justify-between text-xs">
                 <span className="text-muted-foreground">Free</span>
                 <span className="font-medium">
-                  {budget.breakdown.search.free.used} / {budget.breakdown.search.free.limit}
+                  {budget.breakdown.search.free.limit === undefined
+                    ? budget.breakdown.search.free.used
+                    : `${budget.breakdown.search.free.used} / ${budget.breakdown.search.free.limit}`}
                 </span>
               </div>
               <div className="flex items-center justify-between text-xs">
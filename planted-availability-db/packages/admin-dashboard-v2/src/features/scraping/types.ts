@@ -2,47 +2,48 @@
  * Scraping Feature Types
  *
  * Type definitions for scraping operations, runs, and progress tracking.
+ * Request and response shapes are the API contracts in @pad/core.
  */
 
+import type {
+  DiscoveryMode,
+  ExtractionMode,
+  ExtractionTarget,
+  SupportedCountry,
+  StartDiscoveryBody,
+  StartExtractionBody,
+  StartScraperResponse,
+  CancelScraperResponse,
+  AvailableScrapersResponse,
+  BudgetStatusResponse,
+} from '@pad/core';
+
+export type {
+  DiscoveryMode,
+  ExtractionMode,
+  ExtractionTarget,
+  StartScraperResponse,
+  CancelScraperResponse,
+  AvailableScrapersResponse,
+  BudgetStatusResponse,
+};
+
 export type ScraperType = 'discovery' | 'extraction';
 
 export type ScraperStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
 
-export type DiscoveryMode = 'explore' | 'enumerate' | 'verify';
-
-export type ExtractionMode = 'enrich' | 'refresh' | 'verify';
-
-export type ExtractionTarget = 'all' | 'chain' | 'venue';
-
-export type Country = 'CH' | 'DE' | 'AT';
+export type Country = SupportedCountry;
 
 export type Platform = 'uber-eats' | 'wolt' | 'lieferando' | 'deliveroo';
 
-/**
- * Discovery Configuration
- */
-export interface DiscoveryConfig {
-  countries: Country[];
-  platforms: Platform[];
-  mode: DiscoveryMode;
-  chainId?: string;
-  maxQueries: number;
-  dryRun: boolean;
-}
+export type DiscoveryConfig = StartDiscoveryBody;
 
-/**
- * Extraction Configuration
- */
-export interface ExtractionConfig {
-  target: ExtractionTarget;
-  chainId?: string;
-  venueId?: string;
-  maxVenues: number;
-  mode: ExtractionMode;
-}
+export type ExtractionConfig = StartExtractionBody;
 
 /**
  * Scraper Run Progress
+ *
+ * View model for runs from /adminAvailableScrapers and the progress stream.
  */
 export interface ScraperProgress {
   runId: string;
@@ -101,6 +102,8 @@ export interface ScraperMetadata {
 
 /**
  * Budget Status
+ *
+ * View model mapped from the core BudgetStatusResponse (see getBudgetStatus).
  */
 export interface BudgetStatus {
   daily: {
@@ -116,7 +119,8 @@ export interface BudgetStatus {
   breakdown: {
     search: {
       free: {
-        limit: number;
+        // The free quota depends on the search credentials and isn't reported by the API
+        limit?: number;
         used: number;
       };
       paid: {
@@ -143,84 +147,6 @@ export interface PipelineStage {
   activeCount?: number;
 }
 
-/**
- * Dashboard Stats
- */
-export interface DashboardStats {
-  today: {
-    discovered: number;
-    approved: number;
-    rejected: number;
-    costs: number;
-  };
-  pipeline: PipelineStage[];
-  runningOperations: ScraperProgress[];
-  recentActivity: ActivityEvent[];
-}
-
-/**
- * Activity Event
- */
-export interface ActivityEvent {
-  id: string;
-  timestamp: string;
-  type: 'discovery_started' | 'discovery_completed' | 'extraction_started' | 'extraction_completed' | 'venue_approved' | 'venue_rejected';
-  message: string;
-  metadata?: unknown;
-}
-
-/**
- * API Response Types
- */
-export interface StartScraperResponse {
-  runId: string;
-  status: ScraperStatus;
-  message: string;
-}
-
-export interface CancelScraperResponse {
-  success: boolean;
-  message: string;
-}
-
-export interface AvailableScrapersResponse {
-  discovery: {
-    countries: string[];
-    platforms: string[];
-    modes: Array<{ id: string; name: string; description: string; estimatedQueries?: number; estimatedDuration?: string; requiresChainId?: boolean }>;
-    defaultMaxQueries: number;
-  };
-  extraction: {
-    modes: Array<{ id: string; name: string; description: string; estimatedAICalls?: number; estimatedDuration?: string }>;
-    targets: Array<{ id: string; name: string; description: string; requiresChainId?: boolean; requiresVenueId?: boolean }>;
-    defaultMaxVenues: number;
-  };
-  recentRuns: Array<{
-    id: string;
-    scraperId: string;
-    status: string;
-    startedAt: string;
-    completedAt?: string;
-    progress?: { current: number; total: number; percentage: number };
-    stats?: Record<string, number>;
-    costs?: Record<string, number>;
-    config?: Record<string, unknown>;
-  }>;
-  runningScrapers: Array<{
-    id: string;
-    scraperId: string;
-    status: string;
-    startedAt: string;
-    progress?: { current: number; total: number; percentage: number };
-    config?: Record<string, unknown>;
-  }>;
-  statistics: {
-    totalRecentRuns: number;
-    currentlyRunning: number;
-    recentSuccessRate: number | null;
-  };
-}
-
 export interface RecentRunsResponse {
   runs: ScraperProgress[];
   total: number;
@@ -6,6 +6,13 @@
 
 import { get, post } from '@/lib/api/client';
 import { API_ENDPOINTS } from '@/lib/api/endpoints';
+import type {
+  SyncPreviewResponse,
+  SyncVenueAddition,
+  SyncVenueUpdate,
+  SyncDishAddition,
+  SyncDishUpdate,
+} from '@pad/core';
 import {
   SyncPreview,
   SyncRequest,
@@ -17,47 +24,9 @@ import {
 } from '../types';
 
 /**
- * Backend Sync Preview Response Structure
- * The backend returns a nested structure that needs to be transformed
- * into the flat SyncPreview structure expected by the frontend.
+ * Transform a preview venue to SyncItem
  */
-interface BackendSyncPreview {
-  additions: { venues: BackendVenue[]; dishes: BackendDish[] };
-  updates: { venues: BackendVenue[]; dishes: BackendDish[] };
-  removals: { venues: BackendVenue[]; dishes: BackendDish[] };
-  staleVenues?: BackendVenue[];
-  stats: {
-    total: number;
-    additions: number;
-    updates: number;
-    removals: number;
-  };
-}
-
-interface BackendVenue {
-  id: string;
-  name: string;
-  dishes?: unknown[];
-  diff?: unknown;
-  dishDiffs?: unknown[];
-  priority?: number;
-  createdAt?: string;
-}
-
-interface BackendDish {
-  id: string;
-  name: string;
-  venueId?: string;
-  venueName?: string;
-  diff?: unknown;
-  priority?: number;
-  createdAt?: string;
-}
-
-/**
- * Transform backend venue data to SyncItem
- */
-function transformVenue(venue: BackendVenue, changeType: SyncChangeType): SyncItem {
+function transformVenue(venue: SyncVenueAddition | SyncVenueUpdate, changeType: SyncChangeType): SyncItem {
   return {
     id: venue.id,
     type: 'venue' as const,
@@ -65,30 +34,30 @@ function transformVenue(venue: BackendVenue, changeType: SyncChangeType): SyncIt
     venueId: venue.id,
     venueName: venue.name || 'Unknown Venue',
     data: venue,
-    diff: venue.diff as SyncItem['diff'],
-    dishDiffs: venue.dishDiffs as SyncItem['dishDiffs'],
-    dishCount: venue.dishes?.length || 0,
-    priority: venue.priority || 0,
-    createdAt: venue.createdAt || new Date().toISOString(),
+    diff: 'diff' in venue ? venue.diff : undefined,
+    dishDiffs: 'dishDiffs' in venue ? venue.dishDiffs : undefined,
+    dishCount: 'dishCount' in venue ? venue.dishCount : 0,
+    priority: 0,
+    createdAt: venue.verifiedAt,
   };
 }
 
 /**
- * Transform backend dish data to SyncItem
+ * Transform a preview dish to SyncItem
  */
-function transformDish(dish: BackendDish, changeType: SyncChangeType): SyncItem {
+function transformDish(dish: SyncDishAddition | SyncDishUpdate, changeType: SyncChangeType): SyncItem {
   return {
     id: dish.id,
     type: 'dish' as const,
     changeType,
-    venueId: dish.venueId || '',
+    venueId: dish.venueId,
     venueName: dish.venueName || 'Unknown Venue',
     dishId: dish.id,
     dishName: dish.name || 'Unknown Dish',
     data: dish,
-    diff: dish.diff as SyncItem['diff'],
-    priority: dish.priority || 0,
-    createdAt: dish.createdAt || new Date().toISOString(),
+    diff: 'diff' in dish ? dish.diff : undefined,
+    priority: 0,
+    createdAt: dish.verifiedAt || new Date().toISOString(),
   };
 }
 
@@ -96,7 +65,7 @@ function transformDish(dish: BackendDish, changeType: SyncChangeType): SyncItem
  * Get sync preview (pending changes)
  */
 export async function getSyncPreview(): Promise<SyncPreview> {
-  const response = await get<BackendSyncPreview>(API_ENDPOINTS.SYNC_PREVIEW);
+  const response = await get<SyncPreviewResponse>(API_ENDPOINTS.SYNC_PREVIEW);
 
   // Transform backend nested structure to frontend flat arrays
   return {
@@ -108,10 +77,8 @@ export async function getSyncPreview(): Promise<SyncPreview> {
       ...response.updates.venues.map(v => transformVenue(v, 'update')),
       ...response.updates.dishes.map(d => transformDish(d, 'update')),
     ],
-    removals: [
-      ...response.removals.venues.map(v => transformVenue(v, 'removal')),
-      ...response.removals.dishes.map(d => transformDish(d, 'removal')),
-    ],
+    // The API doesn't diff removals yet
+    removals: [],
     totalChanges: response.stats.total,
     estimatedDuration: Math.ceil(response.stats.total / 10), // ~10 items/sec
     lastSync: undefined, // Will come from history endpoint
@@ -128,8 +95,10 @@ export async function executeSync(request: SyncRequest): Promise<SyncResult> {
 /**
  * Get sync history
  */
-export async function getSyncHistory(page = 1, pageSize = 20): Promise<SyncHistoryResponse> {
-  return get<SyncHistoryResponse>(`${API_ENDPOINTS.SYNC_HISTORY}?page=${page}&pageSize=${pageSize}`);
+export async function getSyncHistory(cursor?: string, limit = 20): Promise<SyncHistoryResponse> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) params.set('cursor', cursor);
+  return get<SyncHistoryResponse>(`${API_ENDPOINTS.SYNC_HISTORY}?${params.toString()}`);
 }
 
 /**
@@ -137,7 +106,7 @@ export async function getSyncHistory(page = 1, pageSize = 20): Promise<SyncHisto
  * Note: Stats are derived from the preview response
  */
 export async function getSyncStats(): Promise<SyncStats> {
-  const response = await get<BackendSyncPreview>(API_ENDPOINTS.SYNC_PREVIEW);
+  const response = await get<SyncPreviewResponse>(API_ENDPOINTS.SYNC_PREVIEW);
   return {
     lastSync: undefined, // Not available from preview
     pendingChanges: response.stats.total || 0,
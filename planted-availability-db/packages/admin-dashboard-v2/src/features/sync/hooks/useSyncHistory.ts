@@ -14,25 +14,26 @@ import { SyncHistoryResponse } from '../types';
 export const syncHistoryKeys = {
   all: ['syncHistory'] as const,
   lists: () => [...syncHistoryKeys.all, 'list'] as const,
-  list: (page: number, pageSize: number) => [...syncHistoryKeys.lists(), page, pageSize] as const,
+  list: (cursor: string | undefined, limit: number) => [...syncHistoryKeys.lists(), cursor, limit] as const,
 };
 
 /**
  * useSyncHistory Hook
  *
- * Fetches sync history with pagination.
+ * Fetches sync history, newest first. Pass the previous page's
+ * pagination.cursor to load the next page.
  */
 export function useSyncHistory(
-  page = 1,
-  pageSize = 20,
+  cursor?: string,
+  limit = 20,
   options?: {
     enabled?: boolean;
     refetchInterval?: number;
   }
 ): UseQueryResult<SyncHistoryResponse, Error> {
   return useQuery({
-    queryKey: syncHistoryKeys.list(page, pageSize),
-    queryFn: () => getSyncHistory(page, pageSize),
+    queryKey: syncHistoryKeys.list(cursor, limit),
+    queryFn: () => getSyncHistory(cursor, limit),
     staleTime: 5 * 60 * 1000, // 5 minutes
     refetchInterval: options?.refetchInterval,
     enabled: options?.enabled,
@@ -7,7 +7,6 @@
 // Types - export with explicit names to avoid conflicts
 export type {
   SyncChangeType,
-  SyncStatus,
   SyncItemType,
   FieldDiff,
   DishDiff,
@@ -24,8 +23,6 @@ export {
   CHANGE_TYPE_LABELS,
   CHANGE_TYPE_EMOJIS,
   CHANGE_TYPE_COLORS,
-  SYNC_STATUS_LABELS,
-  SYNC_STATUS_EMOJIS,
 } from './types';
 
 // API
@@ -1,46 +1,39 @@
 /**
  * Sync Feature Types
  *
- * Type definitions for the Sync to Website feature.
+ * Type definitions for the Sync to Website feature. Request and response
+ * shapes are the API contracts in @pad/core.
  */
 
+import type {
+  SyncFieldDiff,
+  SyncDishDiff,
+  SyncExecuteBody,
+  SyncExecuteResponse,
+  SyncHistoryEntry,
+  SyncHistoryResponse,
+} from '@pad/core';
+
+export type { SyncHistoryEntry, SyncHistoryResponse };
+
 /**
  * Sync Change Type
  */
 export type SyncChangeType = 'addition' | 'update' | 'removal';
 
-/**
- * Sync Status
- */
-export type SyncStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
-
 /**
  * Sync Item Type
  */
 export type SyncItemType = 'venue' | 'dish';
 
-/**
- * Field Diff
- */
-export interface FieldDiff {
-  field: string;
-  oldValue: unknown;
-  newValue: unknown;
-  changed: boolean;
-}
-
-/**
- * Dish Diff
- */
-export interface DishDiff {
-  id: string;
-  name: string;
-  changeType: SyncChangeType;
-  fields?: FieldDiff[];
-}
+export type FieldDiff = SyncFieldDiff;
+export type DishDiff = SyncDishDiff;
 
 /**
  * Sync Item
+ *
+ * View model: the preview response's nested venue and dish lists are
+ * flattened into one list per change type (see getSyncPreview).
  */
 export interface SyncItem {
   id: string;
@@ -59,7 +52,9 @@ export interface SyncItem {
 }
 
 /**
- * Sync Preview Response
+ * Sync Preview
+ *
+ * View model mapped from the core SyncPreviewResponse.
  */
 export interface SyncPreview {
   additions: SyncItem[];
@@ -70,16 +65,7 @@ export interface SyncPreview {
   lastSync?: string; // ISO date string
 }
 
-/**
- * Sync Request
- * Matches backend executeBodySchema in sync/execute.ts
- */
-export interface SyncRequest {
-  venueIds?: string[]; // IDs of venues to sync
-  dishIds?: string[]; // IDs of dishes to sync
-  syncAll?: boolean; // If true, sync all verified items
-  dryRun?: boolean; // If true, only validate without executing
-}
+export type SyncRequest = SyncExecuteBody;
 
 /**
  * Sync Progress Event
@@ -92,70 +78,7 @@ export interface SyncProgressEvent {
   error?: string;
 }
 
-/**
- * Sync Result
- * Matches backend response from sync/execute.ts
- */
-export interface SyncResult {
-  success: boolean;
-  message: string;
-  synced: {
-    venues: number;
-    dishes: number;
-  };
-  errors?: Array<{
-    entityId: string;
-    entityType: 'venue' | 'dish';
-    error: string;
-  }>;
-  stats: {
-    requested: {
-      venues: number;
-      dishes: number;
-    };
-    successful: {
-      venues: number;
-      dishes: number;
-    };
-    failed: {
-      venues: number;
-      dishes: number;
-    };
-  };
-}
-
-/**
- * Sync History Entry
- */
-export interface SyncHistoryEntry {
-  id: string;
-  status: SyncStatus;
-  itemsProcessed: number;
-  itemsSucceeded: number;
-  itemsFailed: number;
-  duration: number; // seconds
-  startedAt: string; // ISO date string
-  completedAt?: string; // ISO date string
-  startedBy: string;
-  errors?: Array<{
-    itemId: string;
-    error: string;
-  }>;
-}
-
-/**
- * Sync History Response
- */
-export interface SyncHistoryResponse {
-  entries: SyncHistoryEntry[];
-  pagination: {
-    page: number;
-    pageSize: number;
-    total: number;
-    totalPages: number;
-    hasMore: boolean;
-  };
-}
+export type SyncResult = SyncExecuteResponse;
 
 /**
  * Sync Stats
@@ -195,23 +118,3 @@ export const CHANGE_TYPE_COLORS: Record<SyncChangeType, string> = {
   update: 'warning',
   removal: 'destructive',
 };
-
-/**
- * Sync Status Labels
- */
-export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
-  pending: 'Pending',
-  in_progress: 'In Progress',
-  completed: 'Completed',
-  failed: 'Failed',
-};
-
-/**
- * Sync Status Emojis
- */
-export const SYNC_STATUS_EMOJIS: Record<SyncStatus, string> = {
-  pending: '⏳',
-  in_progress: '🔄',
-  completed: '✅',
-  failed: '❌',
-};
@@ -73,10 +73,23 @@ export const API_ENDPOINTS = {
   LIVE_VENUES: '/adminLiveVenues',
   UPDATE_VENUE_STATUS: '/adminUpdateVenueStatus',
   VENUE_DISHES: '/adminVenueDishes',
+  VENUE_DELIVERY_ZONE: '/adminVenueDeliveryZone',
 
   // Duplicate detection
   FIND_DUPLICATE_VENUES: '/adminFindDuplicateVenues',
   DELETE_DUPLICATE_VENUES: '/adminDeleteDuplicateVenues',
+
+  // Partner submissions
+  PARTNER_SUBMISSIONS: '/adminPartnerSubmissions',
+  REVIEW_PARTNER_SUBMISSIONS: '/adminReviewPartnerSubmissions',
+  PROMOTE_PARTNER_SUBMISSIONS: '/adminPromotePartnerSubmissions',
+
+  // Menu history
+  MENU_CHANGES: '/adminMenuChanges',
+
+  // Dead letter queue
+  FAILED_OPERATIONS: '/adminFailedOperations',
+  FAILED_OPERATION_ACTIONS: '/adminFailedOperationActions',
 } as const;
 
 /**
@@ -88,21 +101,3 @@ export function buildApiUrl(endpoint: string): string {
   const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
   return `${API_BASE_URL}${path}`;
 }
-
-/**
- * API Response Types
- */
-export interface ApiResponse<T = unknown> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
-}
-
-export interface PaginatedResponse<T> {
-  data: T[];
-  total: number;
-  page: number;
-  pageSize: number;
-  hasMore: boolean;
-}
@@ -0,0 +1,176 @@
+/**
+ * DeadLetterQueuePage
+ *
+ * Console for failed scraper and sync operations (dead letter queue).
+ * Operations can be retried, marked resolved or escalated to manual
+ * review. Sync writes are retried right away; scraper operations are
+ * picked up by the next hourly scrapers drain (drain-dlq workflow).
+ */
+
+import { useState } from 'react';
+import { RotateCcw, Check, AlertTriangle } from 'lucide-react';
+import { LoadingState } from '@/shared/components/LoadingState';
+import { ErrorState } from '@/shared/components/ErrorState';
+import { EmptyState } from '@/shared/components/EmptyState';
+import { Button } from '@/shared/ui/Button';
+import { Input } from '@/shared/ui/Input';
+import {
+  useFailedOperations,
+  useFailedOperationAction,
+  FailedOperationFilters,
+  FailedOperationStats,
+  FailedOperationTable,
+} from '@/features/dead-letter-queue';
+import type {
+  FailedOperation,
+  FailedOperationAction,
+  FailedOperationsFilters,
+} from '@/features/dead-letter-queue';
+
+export function DeadLetterQueuePage() {
+  // Filter state - open operations first
+  const [filters, setFilters] = useState<FailedOperationsFilters>({ status: 'pending_retry' });
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  // Fetch data
+  const { data, isLoading, isError, error, refetch } = useFailedOperations(filters);
+
+  // Mutations
+  const actionMutation = useFailedOperationAction({
+    onSuccess: (response) => {
+      setSelected(new Set());
+      setReason('');
+      setFeedback({
+        type: response.summary.errors > 0 ? 'error' : 'success',
+        message: response.message,
+      });
+    },
+    onError: (err) => setFeedback({ type: 'error', message: err.message }),
+  });
+
+  const handleFiltersChange = (next: FailedOperationsFilters) => {
+    setFilters(next);
+    setSelected(new Set());
+  };
+
+  const handleToggle = (operation: FailedOperation) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(operation.id)) {
+        next.delete(operation.id);
+      } else {
+        next.add(operation.id);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(data?.operations.map((op) => op.id)) : new Set());
+  };
+
+  const handleAction = (action: FailedOperationAction) => {
+    actionMutation.mutate({
+      ids: Array.from(selected),
+      action,
+      reason: action === 'manual' && reason.trim() ? reason.trim() : undefined,
+    });
+  };
+
+  // Loading state
+  if (isLoading) {
+    return <LoadingState message="Loading failed operations..." />;
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <ErrorState
+        title="Failed to load failed operations"
+        message={error?.message || 'An error occurred while loading the dead letter queue.'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  const isMutating = actionMutation.isPending;
+  const noSelection = selected.size === 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Stats and Filters */}
+      <div className="p-4 border-b bg-muted/30 space-y-4">
+        {data && <FailedOperationStats stats={data.stats} />}
+        <FailedOperationFilters filters={filters} onFiltersChange={handleFiltersChange} />
+      </div>
+
+      {/* Action Bar */}
+      <div className="p-3 border-b flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground mr-2">
+          {selected.size} of {data?.operations.length ?? 0} selected
+        </span>
+        <Button size="sm" onClick={() => handleAction('retry')} disabled={noSelection || isMutating}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Retry
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleAction('resolve')}
+          disabled={noSelection || isMutating}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Mark resolved
+        </Button>
+        <Input
+          placeholder="Reason (optional)"
+          aria-label="Manual review reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-64"
+        />
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => handleAction('manual')}
+          disabled={noSelection || isMutating}
+        >
+          <AlertTriangle className="h-4 w-4 mr-1" />
+          Mark manual
+        </Button>
+      </div>
+
+      {feedback && (
+        <div
+          role="status"
+          className={
+            feedback.type === 'success'
+              ? 'px-4 py-2 text-sm bg-green-50 text-green-800 border-b'
+              : 'px-4 py-2 text-sm bg-red-50 text-red-800 border-b'
+          }
+        >
+          {feedback.message}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {!data || data.operations.length === 0 ? (
+          <EmptyState
+            title="No failed operations"
+            description="No operations in the dead letter queue match your current filters."
+          />
+        ) : (
+          <FailedOperationTable
+            operations={data.operations}
+            selectedIds={selected}
+            onToggle={handleToggle}
+            onToggleAll={handleToggleAll}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
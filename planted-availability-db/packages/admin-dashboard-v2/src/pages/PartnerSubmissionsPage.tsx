@@ -0,0 +1,234 @@
+/**
+ * PartnerSubmissionsPage
+ *
+ * Review queue for partner-submitted data (webhook and file uploads).
+ * Staged venues, dishes, promotions and availability can be approved,
+ * rejected and promoted into production, per record or per batch.
+ */
+
+import { useState } from 'react';
+import { Check, X, Upload } from 'lucide-react';
+import { LoadingState } from '@/shared/components/LoadingState';
+import { ErrorState } from '@/shared/components/ErrorState';
+import { EmptyState } from '@/shared/components/EmptyState';
+import { Button } from '@/shared/ui/Button';
+import { Input } from '@/shared/ui/Input';
+import {
+  usePartnerSubmissions,
+  useReviewPartnerSubmissions,
+  usePromotePartnerSubmissions,
+  SubmissionFilters,
+  SubmissionBatchList,
+  SubmissionTable,
+} from '@/features/partner-submissions';
+import type {
+  PartnerSubmission,
+  PartnerSubmissionsFilters,
+  StagedItemRef,
+} from '@/features/partner-submissions';
+
+export function PartnerSubmissionsPage() {
+  // Filter state
+  const [filters, setFilters] = useState<PartnerSubmissionsFilters>({ status: 'open' });
+
+  // Selected records, keyed by staged ID
+  const [selected, setSelected] = useState<Map<string, StagedItemRef>>(new Map());
+  const [notes, setNotes] = useState('');
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  // Fetch data
+  const { data, isLoading, isError, error, refetch } = usePartnerSubmissions(filters);
+
+  const onError = (err: Error) => setFeedback({ type: 'error', message: err.message });
+
+  // Mutations
+  const reviewMutation = useReviewPartnerSubmissions({
+    onSuccess: (response) => {
+      setSelected(new Map());
+      setNotes('');
+      setFeedback({ type: 'success', message: response.message });
+    },
+    onError,
+  });
+
+  const promoteMutation = usePromotePartnerSubmissions({
+    onSuccess: (response) => {
+      setSelected(new Map());
+      setFeedback({
+        type: response.summary.failed > 0 ? 'error' : 'success',
+        message: response.message,
+      });
+    },
+    onError,
+  });
+
+  const isMutating = reviewMutation.isPending || promoteMutation.isPending;
+  const selectedItems = Array.from(selected.values());
+
+  const handleFiltersChange = (next: PartnerSubmissionsFilters) => {
+    setFilters(next);
+    setSelected(new Map());
+  };
+
+  const handleToggle = (item: PartnerSubmission) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.set(item.id, { entityType: item.entityType, id: item.id });
+      }
+      return next;
+    });
+  };
+
+  const handleToggleAll = (checked: boolean) => {
+    setSelected(
+      checked
+        ? new Map(data?.items.map((item) => [item.id, { entityType: item.entityType, id: item.id }]))
+        : new Map()
+    );
+  };
+
+  const handleApprove = (promote: boolean) => {
+    reviewMutation.mutate({
+      items: selectedItems,
+      decision: 'approve',
+      notes: notes || undefined,
+      promote,
+    });
+  };
+
+  const handleReject = () => {
+    reviewMutation.mutate({ items: selectedItems, decision: 'reject', notes });
+  };
+
+  const handlePromoteBatch = () => {
+    if (filters.batchId) {
+      promoteMutation.mutate({ batchId: filters.batchId });
+    }
+  };
+
+  // Loading state
+  if (isLoading) {
+    return <LoadingState message="Loading partner submissions..." />;
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <ErrorState
+        title="Failed to load partner submissions"
+        message={error?.message || 'An error occurred while loading partner submissions.'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Filter Bar */}
+      <div className="p-4 border-b bg-muted/30">
+        <SubmissionFilters filters={filters} onFiltersChange={handleFiltersChange} />
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Left Panel - Batches */}
+        <div className="w-1/4 min-w-[260px] max-w-[360px] border-r overflow-y-auto">
+          <div className="p-3 border-b bg-muted/30">
+            <h2 className="text-sm font-medium">Batches ({data?.batches.length ?? 0})</h2>
+          </div>
+          <SubmissionBatchList
+            batches={data?.batches ?? []}
+            selectedBatchId={filters.batchId}
+            onSelectBatch={(batchId) => handleFiltersChange({ ...filters, batchId })}
+            className="p-2"
+          />
+        </div>
+
+        {/* Right Panel - Records */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {/* Action Bar */}
+          <div className="p-3 border-b flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground mr-2">
+              {selectedItems.length} of {data?.stats.total ?? 0} selected
+            </span>
+            <Input
+              placeholder="Review notes (required to reject)"
+              aria-label="Review notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-64"
+            />
+            <Button
+              size="sm"
+              onClick={() => handleApprove(false)}
+              disabled={selectedItems.length === 0 || isMutating}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleApprove(true)}
+              disabled={selectedItems.length === 0 || isMutating}
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              Approve &amp; Promote
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={handleReject}
+              disabled={selectedItems.length === 0 || !notes.trim() || isMutating}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+            {filters.batchId && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handlePromoteBatch}
+                disabled={isMutating}
+                className="ml-auto"
+              >
+                Promote approved in batch
+              </Button>
+            )}
+          </div>
+
+          {feedback && (
+            <div
+              role="status"
+              className={
+                feedback.type === 'success'
+                  ? 'px-4 py-2 text-sm bg-green-50 text-green-800 border-b'
+                  : 'px-4 py-2 text-sm bg-red-50 text-red-800 border-b'
+              }
+            >
+              {feedback.message}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto">
+            {!data || data.items.length === 0 ? (
+              <EmptyState
+                title="No submissions found"
+                description="No partner submissions match your current filters."
+              />
+            ) : (
+              <SubmissionTable
+                items={data.items}
+                selectedIds={new Set(selected.keys())}
+                onToggle={handleToggle}
+                onToggleAll={handleToggleAll}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
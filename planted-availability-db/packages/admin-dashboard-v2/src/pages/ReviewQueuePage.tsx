@@ -12,6 +12,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import type { SupportedCountry } from '@pad/core';
 import { Card } from '@/shared/ui/Card';
 import { LoadingState } from '@/shared/components/LoadingState';
 import { ErrorState } from '@/shared/components/ErrorState';
@@ -45,6 +46,7 @@ import { BulkActionsBar } from '@/features/review/components/BulkActionsBar';
 import { FilterBar } from '@/features/review/components/FilterBar';
 import { StatsBar } from '@/features/review/components/StatsBar';
 import { ChainAssignmentDialog } from '@/features/review/components/ChainAssignmentDialog';
+import { MenuChangeTimeline } from '@/features/menu-history/components/MenuChangeTimeline';
 import { ReviewQueueFilters } from '@/features/review/types';
 
 const AUTO_REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
@@ -184,7 +186,7 @@ export function ReviewQueuePage() {
 
   // Handle country update
   const handleUpdateCountry = useCallback(
-    async (venueId: string, country: string) => {
+    async (venueId: string, country: SupportedCountry) => {
       await updateCountryMutation.mutateAsync({ venueId, country });
     },
     [updateCountryMutation]
@@ -431,6 +433,9 @@ export function ReviewQueuePage() {
                   loadingDishId={loadingDishId || undefined}
                 />
               </Card>
+
+              {/* Menu History */}
+              <MenuChangeTimeline venueId={selectedVenue.id} />
             </>
           ) : (
             <EmptyState
@@ -2,7 +2,7 @@ import { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuthContext } from '@/app/providers/AuthProvider';
 import { cn } from '@/lib/utils';
-import { LogOut, CheckCircle, Globe, BarChart3, MapPin } from 'lucide-react';
+import { LogOut, CheckCircle, Globe, BarChart3, MapPin, Inbox, AlertOctagon } from 'lucide-react';
 import { Button } from '@/shared/ui/Button';
 
 interface MainLayoutProps {
@@ -12,7 +12,9 @@ interface MainLayoutProps {
 const tabs = [
   { path: '/', label: 'Approve Queue', icon: CheckCircle },
   { path: '/live-venues', label: 'Live Venues', icon: MapPin },
+  { path: '/partner-submissions', label: 'Partner Submissions', icon: Inbox },
   { path: '/live', label: 'Sync', icon: Globe },
+  { path: '/dead-letter-queue', label: 'Failed Ops', icon: AlertOctagon },
   { path: '/stats', label: 'Stats', icon: BarChart3 },
 ];
 
@@ -36,6 +36,8 @@ describe('MainLayout', () => {
 
       expect(screen.getByRole('link', { name: /approve queue/i })).toBeInTheDocument();
       expect(screen.getByRole('link', { name: /live venues/i })).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /partner submissions/i })).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /failed ops/i })).toBeInTheDocument();
       expect(screen.getByRole('link', { name: /sync/i })).toBeInTheDocument();
       expect(screen.getByRole('link', { name: /stats/i })).toBeInTheDocument();
     });
@@ -115,6 +117,14 @@ describe('MainLayout', () => {
         'href',
         '/live-venues'
       );
+      expect(screen.getByRole('link', { name: /partner submissions/i })).toHaveAttribute(
+        'href',
+        '/partner-submissions'
+      );
+      expect(screen.getByRole('link', { name: /failed ops/i })).toHaveAttribute(
+        'href',
+        '/dead-letter-queue'
+      );
       expect(screen.getByRole('link', { name: /sync/i })).toHaveAttribute(
         'href',
         '/live'
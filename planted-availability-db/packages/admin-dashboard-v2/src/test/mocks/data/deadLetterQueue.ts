@@ -0,0 +1,51 @@
+/**
+ * Mock data for Dead Letter Queue feature testing
+ */
+
+import type { FailedOperation } from '@/features/dead-letter-queue';
+
+export const mockFailedOperations: FailedOperation[] = [
+  {
+    id: 'op-1',
+    type: 'menu_scrape',
+    status: 'pending_retry',
+    venueId: 'venue-1',
+    platform: 'uber-eats',
+    error: 'Navigation timeout of 30000 ms exceeded',
+    attempts: 2,
+    maxAttempts: 5,
+    createdAt: '2024-03-08T08:00:00Z',
+    lastAttemptAt: '2024-03-08T08:05:00Z',
+    nextRetryAt: '2024-03-08T08:35:00Z',
+    retriedBy: 'scrapers',
+    context: { venue_name: 'Tibits Zurich', url: 'https://www.ubereats.com/ch/store/tibits/abc' },
+  },
+  {
+    id: 'op-2',
+    type: 'sync_write',
+    status: 'pending_retry',
+    venueId: 'venue-2',
+    error: '10 ABORTED: Too much contention on these documents',
+    attempts: 1,
+    maxAttempts: 5,
+    createdAt: '2024-03-08T09:00:00Z',
+    lastAttemptAt: '2024-03-08T09:00:00Z',
+    nextRetryAt: '2024-03-08T09:05:00Z',
+    retriedBy: 'api',
+    context: { entity_type: 'venue', entity_id: 'venue-2', action: 'add' },
+  },
+  {
+    id: 'op-3',
+    type: 'dish_extraction',
+    status: 'requires_manual',
+    venueId: 'venue-3',
+    platform: 'wolt',
+    error: 'AI response could not be parsed',
+    attempts: 5,
+    maxAttempts: 5,
+    createdAt: '2024-03-06T10:00:00Z',
+    lastAttemptAt: '2024-03-07T04:00:00Z',
+    retriedBy: 'scrapers',
+    context: { venue_name: 'Hiltl Sihlpost' },
+  },
+];
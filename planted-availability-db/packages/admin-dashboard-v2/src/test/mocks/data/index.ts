@@ -3,3 +3,6 @@ export * from './venues';
 export * from './sync';
 export * from './scraping';
 export * from './liveVenues';
+export * from './partnerSubmissions';
+export * from './menuHistory';
+export * from './deadLetterQueue';
@@ -0,0 +1,39 @@
+/**
+ * Mock data for Menu History feature testing
+ */
+
+import type { MenuChangeEntry } from '@/features/menu-history';
+
+export const mockMenuChanges: MenuChangeEntry[] = [
+  {
+    id: 'change-3',
+    venueId: 'venue-1',
+    platform: 'uber-eats',
+    changeType: 'price_change',
+    dishName: 'Planted Chicken Bowl',
+    plantedProduct: 'planted.chicken',
+    oldValue: 'CHF 18.90',
+    newValue: 'CHF 19.90',
+    detectedAt: '2024-03-08T10:00:00Z',
+  },
+  {
+    id: 'change-2',
+    venueId: 'venue-1',
+    platform: 'uber-eats',
+    changeType: 'dish_removed',
+    dishName: 'Planted Kebab Wrap',
+    plantedProduct: 'planted.kebab',
+    oldValue: 'Planted Kebab Wrap',
+    detectedAt: '2024-03-08T09:30:00Z',
+  },
+  {
+    id: 'change-1',
+    venueId: 'venue-1',
+    platform: 'wolt',
+    changeType: 'dish_added',
+    dishName: 'Planted Chicken Bowl',
+    plantedProduct: 'planted.chicken',
+    newValue: 'Planted Chicken Bowl',
+    detectedAt: '2024-03-01T12:00:00Z',
+  },
+];
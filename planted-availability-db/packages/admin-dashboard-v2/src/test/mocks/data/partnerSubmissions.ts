@@ -0,0 +1,113 @@
+/**
+ * Mock data for Partner Submissions feature testing
+ */
+
+import type { PartnerSubmission, PartnerSubmissionBatch } from '@/features/partner-submissions';
+
+export const mockPartnerSubmissionBatches: PartnerSubmissionBatch[] = [
+  {
+    id: 'batch-1',
+    partnerId: 'partner-hiltl',
+    partnerName: 'Hiltl',
+    channel: 'webhook',
+    status: 'pending_review',
+    stats: {
+      records_received: 3,
+      records_valid: 3,
+      records_invalid: 0,
+      records_staged: 3,
+      records_approved: 0,
+      records_rejected: 0,
+      records_promoted: 0,
+    },
+    receivedAt: '2024-03-01T09:00:00Z',
+    reviewRequired: true,
+  },
+  {
+    id: 'batch-2',
+    partnerId: 'partner-coop',
+    partnerName: 'Coop',
+    channel: 'file_upload',
+    status: 'pending_review',
+    stats: {
+      records_received: 1,
+      records_valid: 1,
+      records_invalid: 0,
+      records_staged: 1,
+      records_approved: 0,
+      records_rejected: 0,
+      records_promoted: 0,
+    },
+    receivedAt: '2024-03-02T14:30:00Z',
+    reviewRequired: true,
+  },
+];
+
+export const mockPartnerSubmissions: PartnerSubmission[] = [
+  {
+    id: 'staged-venue-1',
+    entityType: 'venue',
+    batchId: 'batch-1',
+    partnerId: 'partner-hiltl',
+    partnerName: 'Hiltl',
+    externalId: 'hiltl-sihlpost',
+    status: 'pending',
+    title: 'Hiltl Sihlpost',
+    subtitle: 'Zurich, CH',
+    confidenceScore: 92,
+    flags: [],
+    data: {
+      type: 'restaurant',
+      name: 'Hiltl Sihlpost',
+      address: { street: 'Europaallee 1', city: 'Zurich', postal_code: '8004', country: 'CH' },
+    },
+    createdAt: '2024-03-01T09:00:00Z',
+  },
+  {
+    id: 'staged-dish-1',
+    entityType: 'dish',
+    batchId: 'batch-1',
+    partnerId: 'partner-hiltl',
+    partnerName: 'Hiltl',
+    externalId: 'hiltl-dish-42',
+    status: 'needs_review',
+    title: 'Planted Kebab Bowl',
+    subtitle: 'CHF 24.50',
+    confidenceScore: 55,
+    flags: ['product_unmapped'],
+    data: {
+      name: 'Planted Kebab Bowl',
+      planted_products: [],
+      price: { amount: 24.5, currency: 'CHF' },
+    },
+    createdAt: '2024-03-01T09:00:00Z',
+  },
+  {
+    id: 'staged-promotion-1',
+    entityType: 'promotion',
+    batchId: 'batch-1',
+    partnerId: 'partner-hiltl',
+    partnerName: 'Hiltl',
+    status: 'pending',
+    title: 'Spring Launch',
+    subtitle: 'discount',
+    confidenceScore: 78,
+    flags: [],
+    data: { title: 'Spring Launch', promo_type: 'discount' },
+    createdAt: '2024-03-01T09:00:00Z',
+  },
+  {
+    id: 'staged-availability-1',
+    entityType: 'availability',
+    batchId: 'batch-2',
+    partnerId: 'partner-coop',
+    partnerName: 'Coop',
+    status: 'pending',
+    title: 'planted-chicken-nature',
+    subtitle: 'In stock',
+    confidenceScore: 88,
+    flags: [],
+    data: { product_sku: 'planted-chicken-nature', in_stock: true },
+    createdAt: '2024-03-02T14:30:00Z',
+  },
+];
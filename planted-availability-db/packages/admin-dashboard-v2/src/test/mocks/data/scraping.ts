@@ -31,6 +31,33 @@ export const mockBudgetStatus = {
   throttleReason: null,
 };
 
+// /adminBudgetStatus response that getBudgetStatus maps to mockBudgetStatus
+export const mockBudgetStatusResponse = {
+  today: {
+    date: '2024-12-09',
+    searchQueries: { used: 475, free: 450, paid: 25, cost: 12.5 },
+    aiCalls: { count: 650, gemini: 600, claude: 50, cost: 32.5 },
+    total: 45,
+    percentage: 45,
+  },
+  month: {
+    year: 2024,
+    month: 12,
+    searchQueries: { used: 9000, free: 8500, paid: 500 },
+    aiCalls: { count: 12000, gemini: 11000, claude: 1000 },
+    total: 850,
+    percentage: 42.5,
+  },
+  limits: {
+    dailyBudget: 100,
+    monthlyBudget: 2000,
+    throttleAt: 80,
+    throttleThreshold: 0.8,
+  },
+  isThrottled: false,
+  throttleEvents: { today: 0, month: 0, recent: [] },
+};
+
 export const mockStrategyStats = {
   total_strategies: 150,
   active_strategies: 120,
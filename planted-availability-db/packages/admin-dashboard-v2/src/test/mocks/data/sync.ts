@@ -50,47 +50,39 @@ export const mockSyncStats = {
 export const mockSyncHistory = [
   {
     id: 'sync-1',
-    timestamp: '2024-12-09T14:30:00Z',
-    type: 'full',
-    status: 'completed',
-    venues_synced: 15,
-    dishes_synced: 45,
-    errors: [],
-    duration_ms: 5230,
-    initiated_by: 'admin@example.com',
+    executedAt: '2024-12-09T14:30:00Z',
+    executedBy: 'admin@example.com',
+    stats: { venuesAdded: 10, venuesUpdated: 5, dishesAdded: 30, dishesUpdated: 15, errors: 0 },
+    itemsSynced: { venues: 15, dishes: 45 },
+    hasErrors: false,
+    errorCount: 0,
   },
   {
     id: 'sync-2',
-    timestamp: '2024-12-08T10:00:00Z',
-    type: 'partial',
-    status: 'completed',
-    venues_synced: 5,
-    dishes_synced: 12,
-    errors: [],
-    duration_ms: 2100,
-    initiated_by: 'admin@example.com',
+    executedAt: '2024-12-08T10:00:00Z',
+    executedBy: 'admin@example.com',
+    stats: { venuesAdded: 3, venuesUpdated: 2, dishesAdded: 8, dishesUpdated: 4, errors: 0 },
+    itemsSynced: { venues: 5, dishes: 12 },
+    hasErrors: false,
+    errorCount: 0,
   },
   {
     id: 'sync-3',
-    timestamp: '2024-12-07T16:45:00Z',
-    type: 'full',
-    status: 'completed',
-    venues_synced: 20,
-    dishes_synced: 60,
-    errors: [],
-    duration_ms: 8500,
-    initiated_by: 'admin@example.com',
+    executedAt: '2024-12-07T16:45:00Z',
+    executedBy: 'admin@example.com',
+    stats: { venuesAdded: 12, venuesUpdated: 8, dishesAdded: 40, dishesUpdated: 20, errors: 0 },
+    itemsSynced: { venues: 20, dishes: 60 },
+    hasErrors: false,
+    errorCount: 0,
   },
   {
     id: 'sync-4',
-    timestamp: '2024-12-06T09:15:00Z',
-    type: 'partial',
-    status: 'failed',
-    venues_synced: 0,
-    dishes_synced: 0,
-    errors: ['Database connection timeout'],
-    duration_ms: 30000,
-    initiated_by: 'admin@example.com',
+    executedAt: '2024-12-06T09:15:00Z',
+    executedBy: 'admin@example.com',
+    stats: { venuesAdded: 0, venuesUpdated: 0, dishesAdded: 0, dishesUpdated: 0, errors: 1 },
+    itemsSynced: { venues: 0, dishes: 0 },
+    hasErrors: true,
+    errorCount: 1,
   },
 ];
 
@@ -108,14 +100,12 @@ export function createMockSyncPreview(overrides: Partial<typeof mockSyncPreview>
 export function createMockSyncHistoryEntry(overrides: Partial<typeof mockSyncHistory[0]> = {}) {
   return {
     id: `sync-${Math.random().toString(36).substr(2, 9)}`,
-    timestamp: new Date().toISOString(),
-    type: 'full' as const,
-    status: 'completed' as const,
-    venues_synced: 10,
-    dishes_synced: 30,
-    errors: [],
-    duration_ms: 5000,
-    initiated_by: 'test@example.com',
+    executedAt: new Date().toISOString(),
+    executedBy: 'test@example.com',
+    stats: { venuesAdded: 5, venuesUpdated: 5, dishesAdded: 15, dishesUpdated: 15, errors: 0 },
+    itemsSynced: { venues: 10, dishes: 30 },
+    hasErrors: false,
+    errorCount: 0,
     ...overrides,
   };
 }
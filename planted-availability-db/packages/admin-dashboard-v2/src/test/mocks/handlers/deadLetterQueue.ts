@@ -0,0 +1,81 @@
+/**
+ * MSW Handlers for Dead Letter Queue feature
+ */
+
+import { http, HttpResponse } from 'msw';
+import { mockFailedOperations } from '../data/deadLetterQueue';
+
+export const deadLetterQueueHandlers = [
+  // List failed operations
+  http.get('*/adminFailedOperations', ({ request }) => {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status');
+    const type = url.searchParams.get('type');
+    const venueId = url.searchParams.get('venueId');
+
+    let operations = [...mockFailedOperations];
+
+    if (status) {
+      operations = operations.filter(op => op.status === status);
+    }
+    if (type) {
+      operations = operations.filter(op => op.type === type);
+    }
+    if (venueId) {
+      operations = operations.filter(op => op.venueId === venueId);
+    }
+
+    const byType: Record<string, number> = {};
+    mockFailedOperations.forEach(op => {
+      byType[op.type] = (byType[op.type] || 0) + 1;
+    });
+
+    return HttpResponse.json({
+      operations,
+      stats: {
+        total: mockFailedOperations.length,
+        pendingRetry: mockFailedOperations.filter(op => op.status === 'pending_retry').length,
+        requiresManual: mockFailedOperations.filter(op => op.status === 'requires_manual').length,
+        resolved: mockFailedOperations.filter(op => op.status === 'resolved').length,
+        byType,
+        byPlatform: {},
+      },
+    });
+  }),
+
+  // Retry / resolve / manual
+  http.post('*/adminFailedOperationActions', async ({ request }) => {
+    const body = await request.json() as {
+      ids: string[];
+      action: 'retry' | 'resolve' | 'manual';
+      reason?: string;
+    };
+
+    if (!body.ids || body.ids.length === 0) {
+      return new HttpResponse(
+        JSON.stringify({ error: 'Invalid request body', details: [{ message: 'At least one id is required' }] }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const results = body.ids.map(id => {
+      const operation = mockFailedOperations.find(op => op.id === id);
+      if (body.action === 'resolve') return { id, status: 'resolved' };
+      if (body.action === 'manual') return { id, status: 'requires_manual' };
+      return { id, status: operation?.type === 'sync_write' ? 'resolved' : 'scheduled' };
+    });
+
+    return HttpResponse.json({
+      success: true,
+      message: `${body.action} applied to ${body.ids.length} of ${body.ids.length} operations`,
+      summary: {
+        total: body.ids.length,
+        resolved: results.filter(r => r.status === 'resolved').length,
+        scheduled: results.filter(r => r.status === 'scheduled').length,
+        requiresManual: results.filter(r => r.status === 'requires_manual').length,
+        errors: 0,
+      },
+      results,
+    });
+  }),
+];
@@ -3,6 +3,9 @@ import { syncHandlers } from './sync';
 import { scrapingHandlers } from './scraping';
 import { authHandlers } from './auth';
 import { liveVenuesHandlers } from './liveVenues';
+import { partnerSubmissionsHandlers } from './partnerSubmissions';
+import { menuHistoryHandlers } from './menuHistory';
+import { deadLetterQueueHandlers } from './deadLetterQueue';
 
 // Export all handlers combined
 export const handlers = [
@@ -11,4 +14,7 @@ export const handlers = [
   ...scrapingHandlers,
   ...authHandlers,
   ...liveVenuesHandlers,
+  ...partnerSubmissionsHandlers,
+  ...menuHistoryHandlers,
+  ...deadLetterQueueHandlers,
 ];
@@ -120,4 +120,50 @@ export const liveVenuesHandlers = [
       },
     });
   }),
+
+  // Set venue delivery zones
+  http.post('*/adminVenueDeliveryZone', async ({ request }) => {
+    const body = await request.json() as {
+      venueId: string;
+      mode: string;
+      radiusKm?: number;
+      geojson?: { type?: string; coordinates?: unknown };
+      postalCodes?: string[];
+    };
+
+    const venue = mockLiveVenues.find(v => v.id === body.venueId);
+    if (!venue) {
+      return new HttpResponse(
+        JSON.stringify({ error: 'Venue not found', venueId: body.venueId }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let deliveryZones: unknown;
+    switch (body.mode) {
+      case 'radius':
+        deliveryZones = { type: 'Polygon', coordinates: [[]] };
+        break;
+      case 'geojson':
+        if (body.geojson?.type !== 'Polygon' && body.geojson?.type !== 'MultiPolygon') {
+          return new HttpResponse(
+            JSON.stringify({ error: 'Invalid GeoJSON', message: 'GeoJSON contains no Polygon or MultiPolygon' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+        deliveryZones = body.geojson;
+        break;
+      case 'postal_codes':
+        deliveryZones = body.postalCodes;
+        break;
+      default:
+        deliveryZones = [];
+    }
+
+    return HttpResponse.json({
+      success: true,
+      message: body.mode === 'clear' ? 'Delivery zones cleared' : `Delivery zones updated (${body.mode})`,
+      venue: { id: venue.id, name: venue.name, deliveryZones },
+    });
+  }),
 ];
@@ -0,0 +1,46 @@
+/**
+ * MSW Handlers for Menu History feature
+ */
+
+import { http, HttpResponse } from 'msw';
+import { mockMenuChanges } from '../data/menuHistory';
+
+export const menuHistoryHandlers = [
+  // Venue menu change timeline
+  http.get('*/adminMenuChanges', ({ request }) => {
+    const url = new URL(request.url);
+    const venueId = url.searchParams.get('venueId');
+    const platform = url.searchParams.get('platform');
+    const changeType = url.searchParams.get('changeType');
+
+    if (!venueId) {
+      return HttpResponse.json({ error: 'Invalid query parameters' }, { status: 400 });
+    }
+
+    let changes = mockMenuChanges.filter(c => c.venueId === venueId);
+    if (platform) {
+      changes = changes.filter(c => c.platform === platform);
+    }
+    if (changeType) {
+      changes = changes.filter(c => c.changeType === changeType);
+    }
+
+    const byPlatform: Record<string, number> = {};
+    changes.forEach(c => {
+      byPlatform[c.platform] = (byPlatform[c.platform] || 0) + 1;
+    });
+
+    return HttpResponse.json({
+      venueId,
+      changes,
+      summary: {
+        total: changes.length,
+        added: changes.filter(c => c.changeType === 'dish_added').length,
+        removed: changes.filter(c => c.changeType === 'dish_removed').length,
+        modified: changes.filter(c => c.changeType === 'dish_modified').length,
+        priceChanges: changes.filter(c => c.changeType === 'price_change').length,
+        byPlatform,
+      },
+    });
+  }),
+];
@@ -0,0 +1,119 @@
+/**
+ * MSW Handlers for Partner Submissions feature
+ */
+
+import { http, HttpResponse } from 'msw';
+import {
+  mockPartnerSubmissions,
+  mockPartnerSubmissionBatches,
+} from '../data/partnerSubmissions';
+
+const OPEN_STATUSES = ['pending', 'validating', 'needs_review'];
+
+export const partnerSubmissionsHandlers = [
+  // List staged submissions
+  http.get('*/adminPartnerSubmissions', ({ request }) => {
+    const url = new URL(request.url);
+    const batchId = url.searchParams.get('batchId');
+    const entityType = url.searchParams.get('entityType');
+    const status = url.searchParams.get('status') || 'open';
+    const minConfidence = url.searchParams.get('minConfidence');
+    const maxConfidence = url.searchParams.get('maxConfidence');
+
+    let items = [...mockPartnerSubmissions];
+
+    if (batchId) {
+      items = items.filter(s => s.batchId === batchId);
+    }
+    if (entityType) {
+      items = items.filter(s => s.entityType === entityType);
+    }
+    items = items.filter(s => (status === 'open' ? OPEN_STATUSES.includes(s.status) : s.status === status));
+    if (minConfidence) {
+      items = items.filter(s => s.confidenceScore >= Number(minConfidence));
+    }
+    if (maxConfidence) {
+      items = items.filter(s => s.confidenceScore <= Number(maxConfidence));
+    }
+    items.sort((a, b) => a.confidenceScore - b.confidenceScore);
+
+    const byEntityType = { venue: 0, dish: 0, promotion: 0, availability: 0 };
+    items.forEach(s => {
+      byEntityType[s.entityType]++;
+    });
+
+    return HttpResponse.json({
+      items,
+      batches: batchId
+        ? mockPartnerSubmissionBatches.filter(b => b.id === batchId)
+        : mockPartnerSubmissionBatches,
+      stats: { total: items.length, byEntityType },
+    });
+  }),
+
+  // Approve / reject
+  http.post('*/adminReviewPartnerSubmissions', async ({ request }) => {
+    const body = await request.json() as {
+      items: { entityType: string; id: string }[];
+      decision: 'approve' | 'reject';
+      notes?: string;
+      promote?: boolean;
+    };
+
+    if (!body.items || body.items.length === 0) {
+      return new HttpResponse(
+        JSON.stringify({ error: 'Invalid request body', details: [{ message: 'At least one item is required' }] }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (body.decision === 'reject' && !body.notes) {
+      return new HttpResponse(
+        JSON.stringify({ error: 'Invalid request body', details: [{ message: 'Rejection notes are required' }] }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const promoted = body.decision === 'approve' && body.promote ? body.items.length : 0;
+    const verb = body.decision === 'approve' ? 'approved' : 'rejected';
+
+    return HttpResponse.json({
+      success: true,
+      message: `${body.items.length} of ${body.items.length} records ${verb}` +
+        (body.decision === 'approve' && body.promote ? `, ${promoted} promoted` : ''),
+      summary: {
+        total: body.items.length,
+        successful: body.items.length,
+        alreadyReviewed: 0,
+        notFound: 0,
+        errors: 0,
+        promoted,
+        promotionErrors: 0,
+      },
+      results: body.items.map(item => ({
+        ...item,
+        status: 'success',
+        promotion: promoted
+          ? { entity_type: item.entityType, staged_id: item.id, success: true, production_id: `prod-${item.id}` }
+          : undefined,
+      })),
+      batchStats: {},
+    });
+  }),
+
+  // Promote
+  http.post('*/adminPromotePartnerSubmissions', async ({ request }) => {
+    const body = await request.json() as { batchId?: string };
+    const count = body.batchId
+      ? mockPartnerSubmissions.filter(s => s.batchId === body.batchId).length
+      : 0;
+
+    return HttpResponse.json({
+      success: true,
+      message: `${count} of ${count} records promoted to production`,
+      summary: { total: count, promoted: count, failed: 0 },
+      results: [],
+      batchStats: {},
+    });
+  }),
+];
@@ -177,8 +177,16 @@ export const reviewHandlers = [
   http.post('*/adminBulkApprove', async ({ request }) => {
     const body = await request.json() as { venueIds: string[] };
     return HttpResponse.json({
-      success: body.venueIds.length,
-      failed: 0,
+      success: true,
+      message: `Processed ${body.venueIds.length} venues`,
+      summary: {
+        total: body.venueIds.length,
+        successful: body.venueIds.length,
+        alreadyVerified: 0,
+        errors: 0,
+        notFound: 0,
+      },
+      results: body.venueIds.map((venueId) => ({ venueId, status: 'success' })),
     });
   }),
 
@@ -186,8 +194,16 @@ export const reviewHandlers = [
   http.post('*/adminBulkReject', async ({ request }) => {
     const body = await request.json() as { venueIds: string[]; reason: string };
     return HttpResponse.json({
-      success: body.venueIds.length,
-      failed: 0,
+      success: true,
+      message: `Processed ${body.venueIds.length} venues`,
+      summary: {
+        total: body.venueIds.length,
+        successful: body.venueIds.length,
+        alreadyRejected: 0,
+        errors: 0,
+        notFound: 0,
+      },
+      results: body.venueIds.map((venueId) => ({ venueId, status: 'success' })),
     });
   }),
 
@@ -1,12 +1,12 @@
 import { http, HttpResponse } from 'msw';
-import { mockBudgetStatus, mockStrategyStats } from '../data/scraping';
+import { mockBudgetStatusResponse, mockStrategyStats } from '../data/scraping';
 
 const API_BASE = 'https://us-central1-get-planted-db.cloudfunctions.net';
 
 export const scrapingHandlers = [
   // Get budget status
   http.get(`${API_BASE}/adminBudgetStatus`, () => {
-    return HttpResponse.json(mockBudgetStatus);
+    return HttpResponse.json(mockBudgetStatusResponse);
   }),
 
   // Get strategy stats
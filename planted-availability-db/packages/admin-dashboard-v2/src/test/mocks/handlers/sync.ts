@@ -41,14 +41,19 @@ export const syncHandlers = [
 
   // Execute sync
   http.post(`${API_BASE}/adminSyncExecute`, async ({ request }) => {
-    const body = await request.json() as { itemIds?: string[]; dryRun?: boolean };
-    const itemCount = body.itemIds?.length || 0;
+    const body = await request.json() as { venueIds?: string[]; dishIds?: string[] };
+    const venues = body.venueIds?.length || 0;
+    const dishes = body.dishIds?.length || 0;
     return HttpResponse.json({
       success: true,
-      itemsProcessed: itemCount,
-      itemsSucceeded: itemCount,
-      itemsFailed: 0,
-      errors: [],
+      message: `Synced ${venues} venues and ${dishes} dishes`,
+      synced: { venues, venuesAdded: venues, venuesUpdated: 0, dishes, dishesAdded: dishes, dishesUpdated: 0 },
+      stats: {
+        requested: { venues, dishes },
+        successful: { venues, venuesAdded: venues, venuesUpdated: 0, dishes, dishesAdded: dishes, dishesUpdated: 0 },
+        failed: { venues: 0, dishes: 0 },
+        skippedForValidation: 0,
+      },
     });
   }),
 
@@ -63,17 +68,30 @@ export const syncHandlers = [
   // Get sync history
   http.get(`${API_BASE}/adminSyncHistory`, ({ request }) => {
     const url = new URL(request.url);
-    const page = parseInt(url.searchParams.get('page') || '1');
-    const pageSize = parseInt(url.searchParams.get('pageSize') || '20');
-    const offset = (page - 1) * pageSize;
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const cursor = url.searchParams.get('cursor');
+    const offset = cursor ? mockSyncHistory.findIndex(entry => entry.id === cursor) + 1 : 0;
+    const history = mockSyncHistory.slice(offset, offset + limit);
+    const hasMore = offset + limit < mockSyncHistory.length;
 
     return HttpResponse.json({
-      success: true,
-      items: mockSyncHistory.slice(offset, offset + pageSize),
-      total: mockSyncHistory.length,
-      page,
-      pageSize,
-      totalPages: Math.ceil(mockSyncHistory.length / pageSize),
+      history,
+      pagination: {
+        cursor: hasMore ? history[history.length - 1].id : undefined,
+        hasMore,
+        limit,
+      },
+      summary: {
+        lastSync: null,
+        last30Days: {
+          totalSyncs: mockSyncHistory.length,
+          totalVenues: 0,
+          totalDishes: 0,
+          totalErrors: 0,
+          averageVenuesPerSync: 0,
+          averageDishesPerSync: 0,
+        },
+      },
     });
   }),
 ];
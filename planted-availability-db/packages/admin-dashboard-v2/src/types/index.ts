@@ -1,71 +1,10 @@
 /**
  * Common Types for Admin Dashboard v2
  *
- * This file contains type definitions used across the dashboard.
- * Import types from @pad/core for shared types with the API.
+ * UI type definitions used across the dashboard. API request and response
+ * types come from the contracts in @pad/core.
  */
 
-/**
- * Status Types
- */
-export type Status = 'idle' | 'pending' | 'processing' | 'completed' | 'failed';
-
-export type SyncStatus = 'not_started' | 'syncing' | 'completed' | 'failed';
-
-export type ReviewStatus = 'pending' | 'approved' | 'rejected';
-
-/**
- * API Response Wrappers
- */
-export interface ApiSuccess<T = unknown> {
-  success: true;
-  data: T;
-  message?: string;
-}
-
-export interface ApiError {
-  success: false;
-  error: string;
-  code?: string;
-  details?: unknown;
-}
-
-export type ApiResult<T = unknown> = ApiSuccess<T> | ApiError;
-
-/**
- * Pagination
- */
-export interface PaginationParams {
-  page?: number;
-  pageSize?: number;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
-}
-
-export interface PaginatedData<T> {
-  data: T[];
-  total: number;
-  page: number;
-  pageSize: number;
-  hasMore: boolean;
-  totalPages: number;
-}
-
-/**
- * Filter Types
- */
-export interface DateRange {
-  start: Date | string;
-  end: Date | string;
-}
-
-export interface FilterOptions {
-  search?: string;
-  status?: Status | Status[];
-  dateRange?: DateRange;
-  tags?: string[];
-}
-
 /**
  * Component Props Helpers
  */
@@ -135,17 +74,6 @@ export interface Notification {
   timestamp: Date;
 }
 
-/**
- * Type Guards
- */
-export function isApiSuccess<T>(result: ApiResult<T>): result is ApiSuccess<T> {
-  return result.success === true;
-}
-
-export function isApiError(result: ApiResult): result is ApiError {
-  return result.success === false;
-}
-
 /**
  * Utility Types
  */
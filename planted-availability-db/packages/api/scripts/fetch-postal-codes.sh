@@ -0,0 +1,36 @@
+#!/bin/sh
+# Download the GeoNames postal code dumps for our markets into
+# data/postal-codes.txt, where services/geocoding.ts loads them.
+#
+# Runs before every functions deploy (see firebase.json). The file is
+# kept for 30 days so repeated local deploys don't download it again;
+# pass --force to refresh it.
+#
+# Data: GeoNames (https://www.geonames.org), CC BY 4.0. GB only has
+# outward codes ("SW1A") in the free dump; full UK postcodes resolve to
+# their outward code's centroid.
+
+set -eu
+
+COUNTRIES="CH DE AT FR IT ES NL BE LU PL GB"
+BASE_URL="${GEONAMES_POSTAL_URL:-https://download.geonames.org/export/zip}"
+
+cd "$(dirname "$0")/.."
+OUT="data/postal-codes.txt"
+
+if [ "${1:-}" != "--force" ] && [ -n "$(find "$OUT" -mtime -30 2>/dev/null)" ]; then
+  echo "Postal codes: $OUT is up to date"
+  exit 0
+fi
+
+TMP="$(mktemp -d)"
+trap 'rm -rf "$TMP"' EXIT
+
+for country in $COUNTRIES; do
+  curl -fsSL --retry 3 -o "$TMP/$country.zip" "$BASE_URL/$country.zip"
+  unzip -p "$TMP/$country.zip" "$country.txt" >> "$TMP/postal-codes.txt"
+done
+
+mkdir -p data
+mv "$TMP/postal-codes.txt" "$OUT"
+echo "Postal codes: wrote $(wc -l < "$OUT" | tr -d ' ') codes to $OUT"
@@ -9,21 +9,16 @@
  * - Projected monthly costs
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   budgetTracking,
 } from '@pad/database';
+import { analyticsQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const costsQuerySchema = z.object({
-  period: z.enum(['7d', '30d', '90d']).optional().default('30d'),
-});
-
 // Monthly budget limit (in USD)
 const MONTHLY_BUDGET = 500;
 
@@ -33,7 +28,7 @@ const MONTHLY_BUDGET = 500;
 export const adminAnalyticsCostsHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = costsQuerySchema.safeParse(req.query);
+    const validation = analyticsQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
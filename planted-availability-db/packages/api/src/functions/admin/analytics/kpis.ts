@@ -9,7 +9,6 @@
  * - Venue and dish statistics
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
@@ -17,23 +16,19 @@ import {
   aiFeedback,
   venues,
 } from '@pad/database';
+import { analyticsQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const kpisQuerySchema = z.object({
-  period: z.enum(['7d', '30d', '90d']).optional().default('30d'),
-});
-
 /**
  * Handler for GET /admin/analytics/kpis
  */
 export const adminAnalyticsKpisHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = kpisQuerySchema.safeParse(req.query);
+    const validation = analyticsQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
@@ -9,23 +9,18 @@
  * - AI prediction accuracy issues
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   discoveredDishes,
   aiFeedback,
 } from '@pad/database';
+import { analyticsQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const rejectionsQuerySchema = z.object({
-  period: z.enum(['7d', '30d', '90d']).optional().default('30d'),
-});
-
 interface RejectionReason {
   reason: string;
   count: number;
@@ -39,7 +34,7 @@ interface RejectionReason {
 export const adminAnalyticsRejectionsHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = rejectionsQuerySchema.safeParse(req.query);
+    const validation = analyticsQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
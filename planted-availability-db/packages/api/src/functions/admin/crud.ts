@@ -6,6 +6,7 @@ import {
   dishes,
   promotions,
   chains,
+  products,
   changeLogs,
   discoveredVenues,
 } from '@pad/database';
@@ -16,6 +17,14 @@ import {
   updateDishInputSchema,
   createPromotionInputSchema,
   createChainInputSchema,
+  updateChainInputSchema,
+  productSchema,
+  updateProductInputSchema,
+  adminListQuerySchema,
+  adminDishesQuerySchema,
+  assignChainBodySchema,
+  autoAssignChainsBodySchema,
+  getProductBySku,
 } from '@pad/core';
 import { verifyAuth, requireAdmin, type AuthenticatedRequest } from '../../middleware/auth.js';
 
@@ -54,6 +63,27 @@ async function withAdminAuth(
   await handler(req as AuthenticatedRequest, res);
 }
 
+/**
+ * Change log entries for the fields of an update
+ */
+function fieldChanges<T extends object>(
+  existing: T,
+  update: Partial<T>
+): { field: string; before: unknown; after: unknown }[] {
+  return (Object.keys(update) as (keyof T & string)[]).map((field) => ({
+    field,
+    before: existing[field],
+    after: update[field],
+  }));
+}
+
+/**
+ * Error for writes to a product that is managed in the catalog
+ */
+function catalogSkuError(sku: string): string {
+  return `Product ${sku} is in the product catalog; change PLANTED_PRODUCTS and run sync-products`;
+}
+
 /**
  * Admin CRUD operations for venues
  * Requires admin authentication
@@ -74,8 +104,16 @@ export const adminVenuesHandler = onRequest(functionOptions, async (req: Request
             }
             authRes.json(venue);
           } else {
-            const limit = parseInt(authReq.query.limit as string, 10) || 50;
-            const offset = parseInt(authReq.query.offset as string, 10) || 0;
+            const query = adminListQuerySchema.safeParse(authReq.query);
+            if (!query.success) {
+              authRes.status(400).json({
+                error: 'Invalid query parameters',
+                details: query.error.errors,
+              });
+              return;
+            }
+
+            const { limit, offset } = query.data;
             const venuesList = await venues.getAll({ limit, offset });
             authRes.json({ venues: venuesList, total: venuesList.length });
           }
@@ -211,8 +249,16 @@ export const adminDishesHandler = onRequest(functionOptions, async (req: Request
             }
             authRes.json(dish);
           } else {
-            const venueId = authReq.query.venue_id as string | undefined;
-            const limit = parseInt(authReq.query.limit as string, 10) || 50;
+            const query = adminDishesQuerySchema.safeParse(authReq.query);
+            if (!query.success) {
+              authRes.status(400).json({
+                error: 'Invalid query parameters',
+                details: query.error.errors,
+              });
+              return;
+            }
+
+            const { venue_id: venueId, limit } = query.data;
 
             let dishList;
             if (venueId) {
@@ -458,6 +504,43 @@ export const adminChainsHandler = onRequest(functionOptions, async (req: Request
           break;
         }
 
+        case 'PUT': {
+          if (!chainId) {
+            authRes.status(400).json({ error: 'Chain ID required' });
+            return;
+          }
+
+          const existing = await chains.getById(chainId);
+          if (!existing) {
+            authRes.status(404).json({ error: 'Not found' });
+            return;
+          }
+
+          // e.g. { closes_on_holidays: true } to close all chain venues on public holidays
+          const updateResult = updateChainInputSchema.safeParse(authReq.body);
+          if (!updateResult.success) {
+            authRes.status(400).json({
+              error: 'Validation error',
+              details: updateResult.error.issues,
+            });
+            return;
+          }
+
+          const updated = await chains.update(chainId, updateResult.data);
+
+          await changeLogs.log({
+            action: 'updated',
+            collection: 'chains',
+            document_id: chainId,
+            changes: fieldChanges(existing, updateResult.data),
+            source: { type: 'manual', user_id: authReq.user?.uid },
+            reason: 'Admin updated chain',
+          });
+
+          authRes.json(updated);
+          break;
+        }
+
         case 'DELETE': {
           if (!chainId) {
             authRes.status(400).json({ error: 'Chain ID required' });
@@ -489,6 +572,157 @@ export const adminChainsHandler = onRequest(functionOptions, async (req: Request
   });
 });
 
+/**
+ * Admin CRUD operations for products (SKU as ID)
+ * Requires admin authentication
+ *
+ * Catalog SKUs (PLANTED_PRODUCTS in @pad/core) are read-only here: they are
+ * changed in the catalog and written by sync-products, which would revert
+ * edits made here. Products created here are not in the catalog and are left
+ * alone by the sync.
+ */
+export const adminProductsHandler = onRequest(functionOptions, async (req: Request, res: Response) => {
+  await withAdminAuth(req, res, async (authReq, authRes) => {
+    try {
+      const pathParts = authReq.path.split('/').filter(Boolean);
+      const sku = pathParts.length > 1 ? pathParts[pathParts.length - 1].toUpperCase() : undefined;
+
+      switch (authReq.method) {
+        case 'GET': {
+          if (sku) {
+            const product = await products.getBySku(sku);
+            if (!product) {
+              authRes.status(404).json({ error: 'Not found' });
+              return;
+            }
+            authRes.json(product);
+          } else {
+            const activeOnly = authReq.query.active_only === 'true';
+            const productList = await products.query({ activeOnly });
+            authRes.json({ products: productList, total: productList.length });
+          }
+          break;
+        }
+
+        case 'POST': {
+          const parseResult = productSchema.safeParse(authReq.body);
+          if (!parseResult.success) {
+            authRes.status(400).json({
+              error: 'Validation error',
+              details: parseResult.error.issues,
+            });
+            return;
+          }
+
+          if (getProductBySku(parseResult.data.sku)) {
+            authRes.status(409).json({ error: catalogSkuError(parseResult.data.sku) });
+            return;
+          }
+
+          if (await products.getBySku(parseResult.data.sku)) {
+            authRes.status(409).json({ error: `Product ${parseResult.data.sku} already exists` });
+            return;
+          }
+
+          const newProduct = await products.upsert(parseResult.data);
+
+          await changeLogs.log({
+            action: 'created',
+            collection: 'products',
+            document_id: newProduct.sku,
+            changes: [{ field: '*', before: null, after: newProduct }],
+            source: { type: 'manual', user_id: authReq.user?.uid },
+            reason: 'Admin created product',
+          });
+
+          authRes.status(201).json(newProduct);
+          break;
+        }
+
+        case 'PUT': {
+          if (!sku) {
+            authRes.status(400).json({ error: 'Product SKU required' });
+            return;
+          }
+
+          if (getProductBySku(sku)) {
+            authRes.status(409).json({ error: catalogSkuError(sku) });
+            return;
+          }
+
+          const existing = await products.getBySku(sku);
+          if (!existing) {
+            authRes.status(404).json({ error: 'Not found' });
+            return;
+          }
+
+          const updateResult = updateProductInputSchema.safeParse(authReq.body);
+          if (!updateResult.success) {
+            authRes.status(400).json({
+              error: 'Validation error',
+              details: updateResult.error.issues,
+            });
+            return;
+          }
+
+          const updated = await products.upsert({ ...existing, ...updateResult.data });
+
+          await changeLogs.log({
+            action: 'updated',
+            collection: 'products',
+            document_id: sku,
+            changes: fieldChanges(existing, updateResult.data),
+            source: { type: 'manual', user_id: authReq.user?.uid },
+            reason: 'Admin updated product',
+          });
+
+          authRes.json(updated);
+          break;
+        }
+
+        case 'DELETE': {
+          if (!sku) {
+            authRes.status(400).json({ error: 'Product SKU required' });
+            return;
+          }
+
+          if (getProductBySku(sku)) {
+            authRes.status(409).json({ error: catalogSkuError(sku) });
+            return;
+          }
+
+          const toDeactivate = await products.getBySku(sku);
+          if (!toDeactivate) {
+            authRes.status(404).json({ error: 'Not found' });
+            return;
+          }
+
+          // Deactivate instead of hard delete, dishes and stock records keep the SKU
+          await products.deactivate(sku);
+
+          await changeLogs.log({
+            action: 'archived',
+            collection: 'products',
+            document_id: sku,
+            changes: [{ field: 'active', before: toDeactivate.active, after: false }],
+            source: { type: 'manual', user_id: authReq.user?.uid },
+            reason: 'Admin deactivated product',
+          });
+
+          authRes.status(204).send('');
+          break;
+        }
+
+        default:
+          authRes.status(405).json({ error: 'Method not allowed' });
+      }
+    } catch (error) {
+      console.error('Admin products error:', error);
+      authRes.status(500).json({ error: 'Internal server error' });
+    }
+  });
+});
+
 /**
  * Admin Assign Chain to Venues
  * POST /adminAssignChain
@@ -502,18 +736,16 @@ export const adminAssignChainHandler = onRequest(functionOptions, async (req: Re
     }
 
     try {
-      const { venueIds, chainId, newChainName } = authReq.body;
-
-      // Validation
-      if (!venueIds || !Array.isArray(venueIds) || venueIds.length === 0) {
-        authRes.status(400).json({ error: 'venueIds array is required' });
+      const validation = assignChainBodySchema.safeParse(authReq.body);
+      if (!validation.success) {
+        authRes.status(400).json({
+          error: 'Invalid request body',
+          details: validation.error.errors,
+        });
         return;
       }
 
-      if (!chainId && !newChainName) {
-        authRes.status(400).json({ error: 'Either chainId or newChainName must be provided' });
-        return;
-      }
+      const { venueIds, chainId, newChainName } = validation.data;
 
       let targetChainId: string;
       let targetChainName: string;
@@ -528,14 +760,14 @@ export const adminAssignChainHandler = onRequest(functionOptions, async (req: Re
         targetChainId = chainId;
         targetChainName = existingChain.name;
       } else {
-        // Create new chain
+        // Create new chain (assignChainBodySchema requires a name without chainId)
         const newChain = await chains.create({
-          name: newChainName,
+          name: newChainName!,
           type: 'restaurant',
           markets: [],
         });
         targetChainId = newChain.id;
-        targetChainName = newChainName;
+        targetChainName = newChainName!;
 
         await changeLogs.log({
           action: 'created',
@@ -719,7 +951,16 @@ export const adminAutoAssignChainsHandler = onRequest(functionOptions, async (re
     }
 
     try {
-      const { dryRun = false } = authReq.body;
+      const validation = autoAssignChainsBodySchema.safeParse(authReq.body ?? {});
+      if (!validation.success) {
+        authRes.status(400).json({
+          error: 'Invalid request body',
+          details: validation.error.errors,
+        });
+        return;
+      }
+
+      const { dryRun } = validation.data;
 
       // Get all discovered venues without a chain_id
       const allVenues = await discoveredVenues.getAll();
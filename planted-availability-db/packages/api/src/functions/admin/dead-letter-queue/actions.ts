@@ -0,0 +1,82 @@
+/**
+ * Admin Failed Operation Actions API
+ * POST /adminFailedOperationActions
+ *
+ * Manages dead letter queue operations:
+ * - retry: sync writes are retried immediately, scraper operations are made
+ *   due for the next run of the hourly drain-dlq workflow
+ * - resolve: mark as resolved (fixed by hand or no longer relevant)
+ * - manual: escalate to manual review with an optional reason
+ */
+
+import { initializeFirestore, failedOperations } from '@pad/database';
+import { failedOperationActionBodySchema, type OperationStatus } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { isApiRetryable, retrySyncWrite } from './retry.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminFailedOperationActions
+ */
+export const adminFailedOperationActionsHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = failedOperationActionBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { ids, action, reason } = validation.data;
+    const userId = req.user?.uid || 'unknown';
+
+    const results: Array<{ id: string; status: OperationStatus | 'scheduled' | 'error'; error?: string }> = [];
+    for (const id of ids) {
+      try {
+        const operation = await failedOperations.getById(id);
+        if (!operation) {
+          throw new Error(`Failed operation ${id} not found`);
+        }
+
+        if (action === 'resolve') {
+          await failedOperations.markResolved(id, userId);
+          results.push({ id, status: 'resolved' });
+        } else if (action === 'manual') {
+          await failedOperations.markRequiresManual(id, reason);
+          results.push({ id, status: 'requires_manual' });
+        } else if (isApiRetryable(operation)) {
+          results.push({ id, status: await retrySyncWrite(operation) });
+        } else {
+          await failedOperations.scheduleRetry(id);
+          results.push({ id, status: 'scheduled' });
+        }
+      } catch (error) {
+        results.push({
+          id,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const errors = results.filter((r) => r.status === 'error').length;
+
+    res.json({
+      success: errors === 0,
+      message: `${action} applied to ${ids.length - errors} of ${ids.length} operations`,
+      summary: {
+        total: ids.length,
+        resolved: results.filter((r) => r.status === 'resolved').length,
+        scheduled: results.filter((r) => r.status === 'scheduled' || r.status === 'pending_retry').length,
+        requiresManual: results.filter((r) => r.status === 'requires_manual').length,
+        errors,
+      },
+      results,
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
@@ -0,0 +1,9 @@
+/**
+ * Dead Letter Queue Admin API
+ *
+ * Endpoints for inspecting failed scraper and sync operations
+ * (failed_operations) and retrying, resolving or escalating them.
+ */
+
+export { adminFailedOperationsHandler } from './list.js';
+export { adminFailedOperationActionsHandler } from './actions.js';
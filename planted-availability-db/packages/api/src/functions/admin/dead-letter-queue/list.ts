@@ -0,0 +1,109 @@
+/**
+ * Admin Failed Operations List API
+ * GET /adminFailedOperations
+ *
+ * Returns dead letter queue operations, newest first:
+ * - Filter by status, type, platform and venue
+ * - Includes queue-wide statistics
+ */
+
+import { initializeFirestore, failedOperations } from '@pad/database';
+import {
+  failedOperationsQuerySchema,
+  type FailedOperation as FailedOperationRecord,
+  type OperationStatus,
+  type OperationType,
+} from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { isApiRetryable } from './retry.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const MAX_LIMIT = 500;
+
+/**
+ * FailedOperation - Dead letter queue entry for display
+ */
+interface FailedOperation {
+  id: string;
+  type: OperationType;
+  status: OperationStatus;
+  venueId?: string;
+  platform?: string;
+  error: string;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: Date;
+  lastAttemptAt: Date;
+  nextRetryAt?: Date;
+  manualReviewReason?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  /** Retried by the API; scraper operations are drained by the scrapers CLI */
+  retriedBy: 'api' | 'scrapers';
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Handler for GET /adminFailedOperations
+ */
+export const adminFailedOperationsHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = failedOperationsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { status, type, platform, venueId, limit } = validation.data;
+
+    const [operations, stats] = await Promise.all([
+      failedOperations.query({
+        status,
+        type,
+        platform,
+        venue_id: venueId,
+        limit: Math.min(limit, MAX_LIMIT),
+      }),
+      failedOperations.getStats(),
+    ]);
+
+    res.json({
+      operations: operations.map(toFailedOperation),
+      stats: {
+        total: stats.total_failed,
+        pendingRetry: stats.pending_retry,
+        requiresManual: stats.requires_manual,
+        resolved: stats.resolved,
+        byType: stats.by_type,
+        byPlatform: stats.by_platform,
+      },
+    });
+  },
+  { allowedMethods: ['GET'] }
+);
+
+function toFailedOperation(operation: FailedOperationRecord): FailedOperation {
+  return {
+    id: operation.id,
+    type: operation.type,
+    status: operation.status,
+    venueId: operation.venue_id,
+    platform: operation.platform,
+    error: operation.error,
+    attempts: operation.attempts,
+    maxAttempts: operation.max_attempts,
+    createdAt: operation.created_at,
+    lastAttemptAt: operation.last_attempt_at,
+    nextRetryAt: operation.next_retry_at,
+    manualReviewReason: operation.manual_review_reason,
+    resolvedAt: operation.resolved_at,
+    resolvedBy: operation.resolved_by,
+    retriedBy: isApiRetryable(operation) ? 'api' : 'scrapers',
+    context: operation.context,
+  };
+}
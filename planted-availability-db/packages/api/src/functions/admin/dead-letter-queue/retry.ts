@@ -0,0 +1,83 @@
+/**
+ * Dead Letter Queue Retries
+ *
+ * Retries failed sync writes by re-running the sync for the single entity.
+ * Scraper operations (discovery, dish extraction, menu scrapes) can't run
+ * in Cloud Functions; they are drained hourly by the drain-dlq workflow,
+ * which runs the scrapers CLI (`pnpm --filter @pad/scrapers drain-dlq`).
+ */
+
+import { failedOperations } from '@pad/database';
+import type { FailedOperation, OperationStatus } from '@pad/core';
+import { executeSync } from '../sync/execute.js';
+
+/** User recorded in sync history for retried writes */
+const DLQ_USER_ID = 'dead-letter-queue';
+
+/**
+ * Whether an operation can be retried from the API
+ */
+export function isApiRetryable(operation: FailedOperation): boolean {
+  return operation.type === 'sync_write';
+}
+
+/**
+ * Retry a failed sync write
+ *
+ * Resolves the operation on success, otherwise records the attempt (which
+ * schedules the next retry or escalates to manual review).
+ */
+export async function retrySyncWrite(operation: FailedOperation): Promise<OperationStatus> {
+  const entityType = operation.context?.entity_type;
+  const entityId = operation.context?.entity_id;
+  if (typeof entityId !== 'string' || (entityType !== 'venue' && entityType !== 'dish')) {
+    await failedOperations.markRequiresManual(operation.id, 'Sync write is missing its entity');
+    return 'requires_manual';
+  }
+
+  let error: string | undefined;
+  try {
+    const result = await executeSync(
+      entityType === 'venue' ? { venueIds: [entityId] } : { dishIds: [entityId] },
+      DLQ_USER_ID,
+      { queueFailures: false }
+    );
+    // Entities no longer verified aren't synced and count as resolved
+    error = result.errors?.find((e) => e.entityId === entityId)?.error;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  if (!error) {
+    await failedOperations.markResolved(operation.id, DLQ_USER_ID);
+    return 'resolved';
+  }
+
+  const updated = await failedOperations.recordAttempt(operation.id, error);
+  return updated.status;
+}
+
+/**
+ * Retry every sync write whose backoff has elapsed
+ */
+export async function processDueSyncWrites(limit: number = 25): Promise<{
+  processed: number;
+  resolved: number;
+  failed: number;
+}> {
+  const due = await failedOperations.getRetryable({ types: ['sync_write'], limit });
+  const result = { processed: 0, resolved: 0, failed: 0 };
+
+  for (const operation of due) {
+    result.processed++;
+    try {
+      const status = await retrySyncWrite(operation);
+      if (status === 'resolved') result.resolved++;
+      else result.failed++;
+    } catch (error) {
+      console.error(`[DLQ] Retry of operation ${operation.id} failed:`, error);
+    }
+  }
+
+  return result;
+}
@@ -8,6 +8,13 @@ import {
   searchFeedback,
   changeLogs,
 } from '@pad/database';
+import {
+  discoveredVenuesQuerySchema,
+  discoveredVenueIdsBodySchema,
+  verifyDiscoveredVenueBodySchema,
+  rejectDiscoveredVenueBodySchema,
+  updateDiscoveredVenueBodySchema,
+} from '@pad/core';
 import { verifyAuth, requireAdmin, type AuthenticatedRequest } from '../../middleware/auth.js';
 
 // Initialize Firestore
@@ -105,14 +112,25 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
           }
 
           // GET /discovered-venues - list venues with filters
-          const status = authReq.query.status as string || 'discovered';
-          const country = authReq.query.country as string;
-          const platform = authReq.query.platform as string;
-          const minConfidence = parseInt(authReq.query.min_confidence as string, 10) || 0;
-          const maxConfidence = parseInt(authReq.query.max_confidence as string, 10) || 100;
-          const limit = parseInt(authReq.query.limit as string, 10) || 50;
+          const query = discoveredVenuesQuerySchema.safeParse(authReq.query);
+          if (!query.success) {
+            authRes.status(400).json({
+              error: 'Invalid query parameters',
+              details: query.error.errors,
+            });
+            return;
+          }
 
-          let venues = await discoveredVenues.getByStatus(status as any);
+          const {
+            status,
+            country,
+            platform,
+            min_confidence: minConfidence,
+            max_confidence: maxConfidence,
+            limit,
+          } = query.data;
+
+          let venues = await discoveredVenues.getByStatus(status);
 
           // Apply filters
           if (country) {
@@ -165,12 +183,17 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
         case 'POST': {
           // POST /discovered-venues/bulk-verify
           if (venueId === 'bulk-verify') {
-            const { ids } = authReq.body as { ids: string[] };
-            if (!ids || !Array.isArray(ids)) {
-              authRes.status(400).json({ error: 'ids array required' });
+            const validation = discoveredVenueIdsBodySchema.safeParse(authReq.body);
+            if (!validation.success) {
+              authRes.status(400).json({
+                error: 'Invalid request body',
+                details: validation.error.errors,
+              });
               return;
             }
 
+            const { ids } = validation.data;
+
             let verified = 0;
             for (const id of ids) {
               try {
@@ -199,12 +222,17 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
 
           // POST /discovered-venues/bulk-reject
           if (venueId === 'bulk-reject') {
-            const { ids, reason } = authReq.body as { ids: string[]; reason: string };
-            if (!ids || !Array.isArray(ids)) {
-              authRes.status(400).json({ error: 'ids array required' });
+            const validation = discoveredVenueIdsBodySchema.safeParse(authReq.body);
+            if (!validation.success) {
+              authRes.status(400).json({
+                error: 'Invalid request body',
+                details: validation.error.errors,
+              });
               return;
             }
 
+            const { ids, reason } = validation.data;
+
             let rejected = 0;
             for (const id of ids) {
               try {
@@ -244,7 +272,16 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
 
           // POST /discovered-venues/:id/verify
           if (action === 'verify') {
-            const { updates } = authReq.body as { updates?: Record<string, unknown> };
+            const validation = verifyDiscoveredVenueBodySchema.safeParse(authReq.body ?? {});
+            if (!validation.success) {
+              authRes.status(400).json({
+                error: 'Invalid request body',
+                details: validation.error.errors,
+              });
+              return;
+            }
+
+            const { updates } = validation.data;
 
             // Apply any updates first
             if (updates && Object.keys(updates).length > 0) {
@@ -296,12 +333,17 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
 
           // POST /discovered-venues/:id/reject
           if (action === 'reject') {
-            const { reason } = authReq.body as { reason: string };
-            if (!reason) {
-              authRes.status(400).json({ error: 'Rejection reason required' });
+            const validation = rejectDiscoveredVenueBodySchema.safeParse(authReq.body ?? {});
+            if (!validation.success) {
+              authRes.status(400).json({
+                error: 'Rejection reason required',
+                details: validation.error.errors,
+              });
               return;
             }
 
+            const { reason } = validation.data;
+
             await discoveredVenues.rejectVenue(venueId, reason);
 
             // Update strategy - mark as false positive
@@ -349,7 +391,16 @@ export const adminDiscoveredVenuesHandler = onRequest(functionOptions, async (re
 
           // POST /discovered-venues/:id/update-and-verify
           if (action === 'update-and-verify') {
-            const updates = authReq.body as Record<string, unknown>;
+            const validation = updateDiscoveredVenueBodySchema.safeParse(authReq.body);
+            if (!validation.success) {
+              authRes.status(400).json({
+                error: 'Invalid request body',
+                details: validation.error.errors,
+              });
+              return;
+            }
+
+            const updates = validation.data;
 
             // Update the venue with provided data
             await discoveredVenues.update(venueId, updates as any);
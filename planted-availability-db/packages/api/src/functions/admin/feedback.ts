@@ -1,6 +1,11 @@
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
 import { initializeFirestore, aiFeedback } from '@pad/database';
+import {
+  aiFeedbackBodySchema,
+  aiFeedbackListQuerySchema,
+  aiFeedbackSinceQuerySchema,
+} from '@pad/core';
 import { verifyAuth, requireAdmin, type AuthenticatedRequest } from '../../middleware/auth.js';
 
 // Initialize Firestore
@@ -54,8 +59,15 @@ export const adminFeedbackHandler = onRequest(functionOptions, async (req: Reque
         case 'GET': {
           // GET /admin/feedback/stats
           if (action === 'stats') {
-            const sinceParam = authReq.query.since as string;
-            const since = sinceParam ? new Date(sinceParam) : undefined;
+            const query = aiFeedbackSinceQuerySchema.safeParse(authReq.query);
+            if (!query.success) {
+              authRes.status(400).json({
+                error: 'Invalid query parameters',
+                details: query.error.errors,
+              });
+              return;
+            }
+            const since = query.data.since ? new Date(query.data.since) : undefined;
 
             const stats = await aiFeedback.getStats(since);
             authRes.json(stats);
@@ -64,8 +76,15 @@ export const adminFeedbackHandler = onRequest(functionOptions, async (req: Reque
 
           // GET /admin/feedback/export
           if (action === 'export') {
-            const sinceParam = authReq.query.since as string;
-            const since = sinceParam ? new Date(sinceParam) : undefined;
+            const query = aiFeedbackSinceQuerySchema.safeParse(authReq.query);
+            if (!query.success) {
+              authRes.status(400).json({
+                error: 'Invalid query parameters',
+                details: query.error.errors,
+              });
+              return;
+            }
+            const since = query.data.since ? new Date(query.data.since) : undefined;
 
             const exportData = await aiFeedback.exportTrainingData(since);
 
@@ -91,10 +110,22 @@ export const adminFeedbackHandler = onRequest(functionOptions, async (req: Reque
           }
 
           // GET /admin/feedback - List feedback (with filters)
-          const venueId = authReq.query.venue_id as string;
-          const dishId = authReq.query.dish_id as string;
-          const discoveredVenueId = authReq.query.discovered_venue_id as string;
-          const discoveredDishId = authReq.query.discovered_dish_id as string;
+          const query = aiFeedbackListQuerySchema.safeParse(authReq.query);
+          if (!query.success) {
+            authRes.status(400).json({
+              error: 'Invalid query parameters',
+              details: query.error.errors,
+            });
+            return;
+          }
+
+          const {
+            venue_id: venueId,
+            dish_id: dishId,
+            discovered_venue_id: discoveredVenueId,
+            discovered_dish_id: discoveredDishId,
+            limit,
+          } = query.data;
 
           let feedbackList;
 
@@ -108,8 +139,7 @@ export const adminFeedbackHandler = onRequest(functionOptions, async (req: Reque
             feedbackList = await aiFeedback.getByDiscoveredDish(discoveredDishId);
           } else {
             // Get all feedback with optional limit
-            const limit = parseInt(authReq.query.limit as string, 10) || 50;
-            feedbackList = await aiFeedback.getAll({ limit });
+            feedbackList = await aiFeedback.getAll({ limit: limit || 50 });
           }
 
           authRes.json({ feedback: feedbackList, total: feedbackList.length });
@@ -118,50 +148,16 @@ export const adminFeedbackHandler = onRequest(functionOptions, async (req: Reque
 
         case 'POST': {
           // POST /admin/feedback - Submit new feedback
-          const body = authReq.body;
-
-          // Validate required fields
-          if (!body.ai_prediction || !body.human_feedback) {
+          const validation = aiFeedbackBodySchema.safeParse(authReq.body);
+          if (!validation.success) {
             authRes.status(400).json({
-              error: 'Missing required fields: ai_prediction, human_feedback'
+              error: 'Invalid request body',
+              details: validation.error.errors,
             });
             return;
           }
 
-          // Validate AI prediction structure
-          if (!body.ai_prediction.product_sku ||
-              typeof body.ai_prediction.confidence !== 'number' ||
-              !Array.isArray(body.ai_prediction.factors)) {
-            authRes.status(400).json({
-              error: 'Invalid ai_prediction structure. Required: product_sku, confidence, factors[]'
-            });
-            return;
-          }
-
-          // Validate human feedback type
-          const validFeedbackTypes = ['correct', 'wrong_product', 'not_planted', 'needs_review'];
-          if (!validFeedbackTypes.includes(body.human_feedback)) {
-            authRes.status(400).json({
-              error: `Invalid human_feedback. Must be one of: ${validFeedbackTypes.join(', ')}`
-            });
-            return;
-          }
-
-          // Validate that at least one reference is provided
-          if (!body.dish_id && !body.venue_id && !body.discovered_venue_id && !body.discovered_dish_id) {
-            authRes.status(400).json({
-              error: 'At least one reference required: dish_id, venue_id, discovered_venue_id, or discovered_dish_id'
-            });
-            return;
-          }
-
-          // If wrong_product, require correct_product_sku
-          if (body.human_feedback === 'wrong_product' && !body.correct_product_sku) {
-            authRes.status(400).json({
-              error: 'correct_product_sku required when human_feedback is "wrong_product"'
-            });
-            return;
-          }
+          const body = validation.data;
 
           // Create feedback entry
           const feedback = await aiFeedback.recordFeedback({
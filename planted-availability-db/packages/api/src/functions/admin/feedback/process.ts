@@ -15,7 +15,6 @@
  * - dryRun: If true, only simulate without making changes
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   aiFeedback,
@@ -23,25 +22,19 @@ import {
   discoveredVenues,
   discoveredDishes,
 } from '@pad/database';
+import { feedbackProcessQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for process request
-const processQuerySchema = z.object({
-  strategyId: z.string().optional(),
-  limit: z.string().transform(Number).optional().default('100'),
-  dryRun: z.enum(['true', 'false']).transform(val => val === 'true').optional().default('false'),
-});
-
 /**
  * Handler for POST /admin/feedback/process
  */
 export const adminFeedbackProcessHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = processQuerySchema.safeParse(req.query);
+    const validation = feedbackProcessQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
@@ -8,37 +8,23 @@
  * - Can trigger strategy learning update
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   aiFeedback,
 } from '@pad/database';
+import { feedbackSubmitBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for feedback submission
-const feedbackSubmitSchema = z.object({
-  entityType: z.enum(['venue', 'dish']),
-  entityId: z.string(),
-  feedbackType: z.enum(['approve', 'partial', 'reject']),
-  feedback: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  corrections: z.array(z.object({
-    field: z.string(),
-    expected: z.unknown(),
-    actual: z.unknown(),
-  })).optional(),
-});
-
 /**
  * Handler for POST /admin/feedback/submit
  */
 export const adminFeedbackSubmitHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = feedbackSubmitSchema.safeParse(req.body);
+    const validation = feedbackSubmitBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -3,6 +3,7 @@ export {
   adminDishesHandler,
   adminPromotionsHandler,
   adminChainsHandler,
+  adminProductsHandler,
   adminAssignChainHandler,
   adminAutoAssignChainsHandler,
 } from './crud.js';
@@ -85,6 +86,38 @@ export {
   adminLiveVenuesHandler,
   adminUpdateVenueStatusHandler,
   adminVenueDishesHandler,
+  adminVenueDeliveryZoneHandler,
   adminFindDuplicateVenuesHandler,
   adminDeleteDuplicateVenuesHandler,
 } from './live-venues/index.js';
+
+// Partner submission review endpoints
+export {
+  adminPartnerSubmissionsHandler,
+  adminReviewPartnerSubmissionsHandler,
+  adminPromotePartnerSubmissionsHandler,
+} from './partner-submissions/index.js';
+
+// Partner callback delivery log endpoints
+export {
+  adminPartnerCallbacksHandler,
+  adminReplayPartnerCallbacksHandler,
+} from './partner-callbacks/index.js';
+
+// Partner transformer endpoints
+export {
+  adminPartnerTransformersHandler,
+  adminPartnerTransformerDryRunHandler,
+} from './partner-transformers/index.js';
+
+// Menu change history endpoints
+export { adminMenuChangesHandler } from './menu-changes/index.js';
+
+// Dead letter queue endpoints
+export {
+  adminFailedOperationsHandler,
+  adminFailedOperationActionsHandler,
+} from './dead-letter-queue/index.js';
+
+// Search index maintenance
+export { adminSearchReindexHandler } from './search/index.js';
@@ -0,0 +1,88 @@
+/**
+ * Admin Venue Delivery Zone API
+ * POST /adminVenueDeliveryZone
+ *
+ * Sets the delivery zones of a production venue, used by delivery/check:
+ * - radius: circle around the venue location
+ * - geojson: imported Polygon/MultiPolygon (Feature/FeatureCollection accepted)
+ * - postal_codes: postal codes or ranges ("8000-8099")
+ * - clear: remove all zones
+ */
+
+import {
+  initializeFirestore,
+  venues,
+} from '@pad/database';
+import { createCirclePolygon, toDeliveryZoneGeometry, type GeoJSONGeometry, deliveryZoneBodySchema } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminVenueDeliveryZone
+ */
+export const adminVenueDeliveryZoneHandler = createAdminHandler(
+  async (req, res) => {
+    // Validate request body
+    const validation = deliveryZoneBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const body = validation.data;
+
+    // Get the venue first to check it exists
+    const venue = await venues.getById(body.venueId);
+    if (!venue) {
+      res.status(404).json({
+        error: 'Venue not found',
+        venueId: body.venueId,
+      });
+      return;
+    }
+
+    let zones: string[] | GeoJSONGeometry;
+    switch (body.mode) {
+      case 'radius':
+        zones = createCirclePolygon(venue.location, body.radiusKm, body.steps);
+        break;
+      case 'geojson':
+        try {
+          zones = toDeliveryZoneGeometry(body.geojson);
+        } catch (error) {
+          res.status(400).json({
+            error: 'Invalid GeoJSON',
+            message: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+        break;
+      case 'postal_codes':
+        zones = Array.from(new Set(body.postalCodes));
+        break;
+      case 'clear':
+        zones = [];
+        break;
+    }
+
+    const updatedVenue = await venues.setDeliveryZones(venue.id, zones);
+
+    res.json({
+      success: true,
+      message: body.mode === 'clear'
+        ? 'Delivery zones cleared'
+        : `Delivery zones updated (${body.mode})`,
+      venue: {
+        id: updatedVenue.id,
+        name: updatedVenue.name,
+        deliveryZones: updatedVenue.delivery_zones ?? null,
+      },
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
@@ -5,18 +5,13 @@
  * Returns all dishes associated with a production venue.
  */
 
-import { z } from 'zod';
 import { initializeFirestore, dishes } from '@pad/database';
+import { venueDishesQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const querySchema = z.object({
-  venueId: z.string().min(1, 'venueId is required'),
-});
-
 interface VenueDish {
   id: string;
   name: string;
@@ -42,7 +37,7 @@ interface VenueDishesResponse {
 export const adminVenueDishesHandler = createAdminHandler(
   async (req, res) => {
     // Parse and validate query params
-    const validation = querySchema.safeParse(req.query);
+    const validation = venueDishesQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
@@ -6,12 +6,12 @@
  * POST /adminMergeVenues - Merge two venues into one
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   venues,
   dishes,
 } from '@pad/database';
+import { deleteDuplicateVenuesBodySchema, mergeVenuesBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import type { Venue, VenueType, VenueStatus } from '@pad/core';
 
@@ -399,11 +399,6 @@ export const adminFindDuplicateVenuesHandler = createAdminHandler(
   { allowedMethods: ['GET'] }
 );
 
-// Validation schema for delete request
-const deleteSchema = z.object({
-  venueIds: z.array(z.string().min(1)).min(1).max(100),
-});
-
 interface DeleteDuplicatesResponse {
   success: boolean;
   message: string;
@@ -423,7 +418,7 @@ interface DeleteDuplicatesResponse {
 export const adminDeleteDuplicateVenuesHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = deleteSchema.safeParse(req.body);
+    const validation = deleteDuplicateVenuesBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -478,12 +473,6 @@ export const adminDeleteDuplicateVenuesHandler = createAdminHandler(
   { allowedMethods: ['POST'] }
 );
 
-// Validation schema for merge request
-const mergeSchema = z.object({
-  primaryVenueId: z.string().min(1),
-  secondaryVenueId: z.string().min(1),
-});
-
 interface MergeVenuesResponse {
   success: boolean;
   message: string;
@@ -508,7 +497,7 @@ interface MergeVenuesResponse {
 export const adminMergeVenuesHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = mergeSchema.safeParse(req.body);
+    const validation = mergeVenuesBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -8,4 +8,5 @@
 export { adminLiveVenuesHandler } from './list.js';
 export { adminUpdateVenueStatusHandler } from './updateStatus.js';
 export { adminVenueDishesHandler } from './dishes.js';
+export { adminVenueDeliveryZoneHandler } from './deliveryZone.js';
 export { adminFindDuplicateVenuesHandler, adminDeleteDuplicateVenuesHandler } from './duplicates.js';
@@ -8,29 +8,19 @@
  * - Uses pagination
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   venues,
   chains,
   dishes,
 } from '@pad/database';
+import { liveVenuesQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
-import type { VenueStatus, VenueType, Chain, Venue } from '@pad/core';
+import type { VenueStatus, VenueType, Chain, Venue, GeoJSONGeometry, DeliveryPlatformLink } from '@pad/core';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const listQuerySchema = z.object({
-  country: z.enum(['CH', 'DE', 'AT']).optional(),
-  status: z.enum(['active', 'stale', 'archived']).optional(),
-  venueType: z.enum(['restaurant', 'retail', 'delivery_kitchen']).optional(),
-  search: z.string().optional(),
-  page: z.string().transform(Number).optional().default('1'),
-  pageSize: z.string().transform(Number).optional().default('100'),
-});
-
 /**
  * LiveVenue - Venue with additional fields for display
  */
@@ -58,6 +48,7 @@ interface LiveVenue {
     url: string;
     active: boolean;
   }[];
+  deliveryZones?: string[] | GeoJSONGeometry;
   dishCount: number;
 }
 
@@ -92,7 +83,7 @@ interface LiveVenuesStats {
 export const adminLiveVenuesHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = listQuerySchema.safeParse(req.query);
+    const validation = liveVenuesQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
@@ -174,11 +165,13 @@ export const adminLiveVenuesHandler = createAdminHandler(
         status: venue.status,
         lastVerified: venue.last_verified,
         createdAt: venue.created_at,
-        deliveryPlatforms: venue.delivery_platforms?.map(dp => ({
-          platform: dp.partner,
+        // Venues synced from discovery store the platform name, others only the partner
+        deliveryPlatforms: venue.delivery_platforms?.map((dp: DeliveryPlatformLink & { platform?: string }) => ({
+          platform: dp.platform ?? dp.partner,
           url: dp.url,
-          active: dp.active,
+          active: dp.active ?? true,
         })) || [],
+        deliveryZones: venue.delivery_zones,
         dishCount: dishCountMap.get(venue.id) || 0,
       };
     });
@@ -5,29 +5,23 @@
  * Updates the status of a production venue (mark as stale, archive, reactivate).
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   venues,
 } from '@pad/database';
+import { updateLiveVenueStatusBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for request body
-const updateStatusSchema = z.object({
-  venueId: z.string().min(1),
-  status: z.enum(['active', 'stale', 'archived']),
-});
-
 /**
  * Handler for POST /adminUpdateVenueStatus
  */
 export const adminUpdateVenueStatusHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = updateStatusSchema.safeParse(req.body);
+    const validation = updateLiveVenueStatusBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -0,0 +1,8 @@
+/**
+ * Menu Changes Admin API
+ *
+ * Endpoint for the menu change history of a venue: when Planted dishes
+ * appeared on, disappeared from or changed on its delivery platform menus.
+ */
+
+export { adminMenuChangesHandler } from './list.js';
@@ -0,0 +1,122 @@
+/**
+ * Admin Menu Changes API
+ * GET /adminMenuChanges
+ *
+ * Returns the menu change timeline of a discovered venue, newest first:
+ * - Filter by platform, change type and date
+ * - Summary counts per change type and platform
+ */
+
+import { initializeFirestore, menuChanges } from '@pad/database';
+import { menuChangesQuerySchema, type MenuChange, type MenuChangeType } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const MAX_LIMIT = 500;
+
+/**
+ * MenuChangeEntry - Menu change flattened for the timeline
+ */
+interface MenuChangeEntry {
+  id: string;
+  venueId: string;
+  platform: string;
+  changeType: MenuChangeType;
+  dishName: string;
+  plantedProduct?: string;
+  oldValue?: string;
+  newValue?: string;
+  detectedAt: Date;
+}
+
+/**
+ * MenuChangeSummary - Counts over the returned changes
+ */
+interface MenuChangeSummary {
+  total: number;
+  added: number;
+  removed: number;
+  modified: number;
+  priceChanges: number;
+  byPlatform: Record<string, number>;
+}
+
+/**
+ * GET /adminMenuChanges
+ */
+export const adminMenuChangesHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = menuChangesQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { venueId, platform, changeType, since, limit } = validation.data;
+
+    const changes = await menuChanges.query({
+      venue_id: venueId,
+      platform,
+      change_type: changeType,
+      since: since ? new Date(since) : undefined,
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+
+    res.json({
+      venueId,
+      changes: changes.map(toEntry),
+      summary: summarize(changes),
+    });
+  },
+  { allowedMethods: ['GET'] }
+);
+
+function toEntry(change: MenuChange): MenuChangeEntry {
+  return {
+    id: change.id,
+    venueId: change.venue_id,
+    platform: change.platform,
+    changeType: change.change_type,
+    dishName: change.dish_name,
+    plantedProduct: change.planted_product,
+    oldValue: change.old_value,
+    newValue: change.new_value,
+    detectedAt: change.detected_at,
+  };
+}
+
+function summarize(changes: MenuChange[]): MenuChangeSummary {
+  const summary: MenuChangeSummary = {
+    total: changes.length,
+    added: 0,
+    removed: 0,
+    modified: 0,
+    priceChanges: 0,
+    byPlatform: {},
+  };
+
+  for (const change of changes) {
+    switch (change.change_type) {
+      case 'dish_added':
+        summary.added++;
+        break;
+      case 'dish_removed':
+        summary.removed++;
+        break;
+      case 'dish_modified':
+        summary.modified++;
+        break;
+      case 'price_change':
+        summary.priceChanges++;
+        break;
+    }
+    summary.byPlatform[change.platform] = (summary.byPlatform[change.platform] || 0) + 1;
+  }
+
+  return summary;
+}
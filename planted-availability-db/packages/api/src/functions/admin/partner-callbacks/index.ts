@@ -0,0 +1,9 @@
+/**
+ * Partner Callbacks Admin API
+ *
+ * Endpoints for inspecting the outbound callback delivery log
+ * (partner_callbacks) and replaying failed deliveries.
+ */
+
+export { adminPartnerCallbacksHandler } from './list.js';
+export { adminReplayPartnerCallbacksHandler } from './replay.js';
@@ -0,0 +1,105 @@
+/**
+ * Admin Partner Callbacks List API
+ * GET /adminPartnerCallbacks
+ *
+ * Returns the callback delivery log, newest first:
+ * - Filter by partner, batch and delivery status
+ * - Includes every attempt with its HTTP status or error
+ */
+
+import { initializeFirestore, partnerCallbacks } from '@pad/database';
+import { partnerCallbacksQuerySchema } from '@pad/core';
+import type { CallbackDeliveryStatus, PartnerCallbackDelivery } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * CallbackDelivery - Delivery log entry for display
+ */
+interface CallbackDelivery {
+  id: string;
+  partnerId: string;
+  batchId?: string;
+  event: PartnerCallbackDelivery['event'];
+  url: string;
+  status: CallbackDeliveryStatus;
+  attempts: {
+    attemptedAt: Date;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+  }[];
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  replayedAt?: Date;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Handler for GET /adminPartnerCallbacks
+ */
+export const adminPartnerCallbacksHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = partnerCallbacksQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { partnerId, batchId, status, limit } = validation.data;
+
+    const deliveries = await partnerCallbacks.query({
+      partner_id: partnerId,
+      batch_id: batchId,
+      status,
+      limit,
+    });
+
+    const byStatus: Record<CallbackDeliveryStatus, number> = {
+      pending: 0,
+      retrying: 0,
+      delivered: 0,
+      failed: 0,
+    };
+    for (const delivery of deliveries) {
+      byStatus[delivery.status]++;
+    }
+
+    res.json({
+      deliveries: deliveries.map(toCallbackDelivery),
+      stats: {
+        total: deliveries.length,
+        byStatus,
+      },
+    });
+  },
+  { allowedMethods: ['GET'] }
+);
+
+function toCallbackDelivery(delivery: PartnerCallbackDelivery): CallbackDelivery {
+  return {
+    id: delivery.id,
+    partnerId: delivery.partner_id,
+    batchId: delivery.batch_id,
+    event: delivery.event,
+    url: delivery.url,
+    status: delivery.status,
+    attempts: delivery.attempts.map((a) => ({
+      attemptedAt: a.attempted_at,
+      statusCode: a.status_code,
+      error: a.error,
+      durationMs: a.duration_ms,
+    })),
+    nextAttemptAt: delivery.next_attempt_at,
+    deliveredAt: delivery.delivered_at,
+    replayedAt: delivery.replayed_at,
+    payload: delivery.payload,
+    createdAt: delivery.created_at,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Admin Partner Callbacks Replay API
+ * POST /adminReplayPartnerCallbacks
+ *
+ * Re-sends failed partner callbacks:
+ * - Either an explicit list of deliveries, or every failed delivery of a partner
+ * - Each replay is signed afresh and gets a new retry budget
+ */
+
+import { initializeFirestore, partnerCallbacks } from '@pad/database';
+import { replayPartnerCallbacksBodySchema, MAX_CALLBACK_REPLAYS } from '@pad/core';
+import type { CallbackDeliveryStatus } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { replayCallback } from '../../../services/partnerCallbacks.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminReplayPartnerCallbacks
+ */
+export const adminReplayPartnerCallbacksHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = replayPartnerCallbacksBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { deliveryIds, partnerId } = validation.data;
+
+    const ids =
+      deliveryIds && deliveryIds.length > 0
+        ? deliveryIds
+        : (
+            await partnerCallbacks.query({ partner_id: partnerId, status: 'failed', limit: MAX_CALLBACK_REPLAYS })
+          ).map((d) => d.id);
+
+    const results: Array<{ id: string; status: CallbackDeliveryStatus | 'error'; error?: string }> = [];
+    for (const id of ids) {
+      try {
+        results.push({ id, status: await replayCallback(id) });
+      } catch (error) {
+        results.push({
+          id,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const delivered = results.filter((r) => r.status === 'delivered').length;
+
+    res.json({
+      success: true,
+      message: `${delivered} of ${ids.length} callbacks delivered`,
+      summary: {
+        total: ids.length,
+        delivered,
+        retrying: results.filter((r) => r.status === 'retrying').length,
+        errors: results.filter((r) => r.status === 'error').length,
+      },
+      results,
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
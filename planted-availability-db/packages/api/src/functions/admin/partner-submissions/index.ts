@@ -0,0 +1,10 @@
+/**
+ * Partner Submissions Admin API
+ *
+ * Endpoints for reviewing partner-submitted data (staged_venues, staged_dishes,
+ * staged_promotions, staged_availability) and promoting it into production.
+ */
+
+export { adminPartnerSubmissionsHandler } from './list.js';
+export { adminReviewPartnerSubmissionsHandler } from './review.js';
+export { adminPromotePartnerSubmissionsHandler } from './promote.js';
@@ -0,0 +1,237 @@
+/**
+ * Admin Partner Submissions List API
+ * GET /adminPartnerSubmissions
+ *
+ * Returns staged partner records (venues, dishes, promotions, availability)
+ * awaiting review, plus the ingestion batches they belong to:
+ * - Filter by batch, partner, entity type and status
+ * - Filter by confidence range, sorted lowest confidence first
+ */
+
+import { initializeFirestore, ingestionBatches, partners } from '@pad/database';
+import { partnerSubmissionsQuerySchema, type IngestionBatch, type StagingStatus } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import {
+  STAGED_ENTITY_TYPES,
+  getStagedEntitiesByBatch,
+  queryStagedEntities,
+  type StagedEntity,
+  type StagedEntityType,
+} from '../../../services/stagingPromotion.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * PartnerSubmission - Staged record flattened for display
+ */
+interface PartnerSubmission {
+  id: string;
+  entityType: StagedEntityType;
+  batchId: string;
+  partnerId: string;
+  partnerName?: string;
+  externalId?: string;
+  status: StagingStatus;
+  title: string;
+  subtitle?: string;
+  confidenceScore: number;
+  confidenceBreakdown?: Record<string, number>;
+  flags: string[];
+  productionVenueId?: string;
+  data: StagedEntity['data'];
+  review?: {
+    reviewedBy: string;
+    reviewedAt?: Date;
+    decision: 'approved' | 'rejected';
+    notes?: string;
+  };
+  createdAt: Date;
+}
+
+/**
+ * PartnerSubmissionBatch - Ingestion batch summary for display
+ */
+interface PartnerSubmissionBatch {
+  id: string;
+  partnerId: string;
+  partnerName?: string;
+  channel: IngestionBatch['source']['channel'];
+  status: IngestionBatch['status'];
+  stats: IngestionBatch['stats'];
+  receivedAt: Date;
+  reviewRequired: boolean;
+}
+
+/**
+ * Handler for GET /adminPartnerSubmissions
+ */
+export const adminPartnerSubmissionsHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = partnerSubmissionsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { batchId, partnerId, entityType, status, minConfidence, maxConfidence, limit } =
+      validation.data;
+
+    const statusFilter: StagingStatus[] =
+      status === 'open' ? ['pending', 'validating', 'needs_review'] : [status];
+    const entityTypes = entityType ? [entityType] : STAGED_ENTITY_TYPES;
+
+    // Load staged records per entity type
+    const staged: { entityType: StagedEntityType; entity: StagedEntity }[] = [];
+    for (const type of entityTypes) {
+      const entities = batchId
+        ? await getStagedEntitiesByBatch(type, batchId)
+        : await queryStagedEntities(type, { partner_id: partnerId, status: statusFilter, limit });
+      for (const entity of entities) {
+        staged.push({ entityType: type, entity });
+      }
+    }
+
+    // Filter by status (batch lookups return every status), partner and confidence
+    const filtered = staged
+      .filter(({ entity }) => statusFilter.includes(entity.status))
+      .filter(({ entity }) => !partnerId || entity.partner_id === partnerId)
+      .filter(({ entity }) => minConfidence === undefined || entity.confidence_score >= minConfidence)
+      .filter(({ entity }) => maxConfidence === undefined || entity.confidence_score <= maxConfidence)
+      .sort((a, b) => a.entity.confidence_score - b.entity.confidence_score)
+      .slice(0, limit);
+
+    // Batches: the requested one, or all batches waiting for review
+    const batchList = batchId
+      ? [await ingestionBatches.getById(batchId)].filter((b): b is IngestionBatch => b !== null)
+      : await ingestionBatches.getPendingReview(50);
+
+    if (batchId && batchList.length === 0) {
+      res.status(404).json({ error: 'Batch not found', batchId });
+      return;
+    }
+
+    // Resolve partner names
+    const partnerIds = new Set([
+      ...filtered.map(({ entity }) => entity.partner_id),
+      ...batchList.map((b) => b.partner_id),
+    ]);
+    const partnerNames = new Map<string, string>();
+    await Promise.all(
+      Array.from(partnerIds).map(async (id) => {
+        const partner = await partners.getById(id);
+        if (partner) partnerNames.set(id, partner.name);
+      })
+    );
+
+    const items: PartnerSubmission[] = filtered.map(({ entityType: type, entity }) =>
+      toPartnerSubmission(type, entity, partnerNames.get(entity.partner_id))
+    );
+
+    const batches: PartnerSubmissionBatch[] = batchList.map((batch) => ({
+      id: batch.id,
+      partnerId: batch.partner_id,
+      partnerName: partnerNames.get(batch.partner_id),
+      channel: batch.source.channel,
+      status: batch.status,
+      stats: batch.stats,
+      receivedAt: batch.received_at,
+      reviewRequired: batch.review?.required ?? false,
+    }));
+
+    const countsByType: Record<StagedEntityType, number> = {
+      venue: 0,
+      dish: 0,
+      promotion: 0,
+      availability: 0,
+    };
+    for (const item of items) {
+      countsByType[item.entityType]++;
+    }
+
+    res.json({
+      items,
+      batches,
+      stats: {
+        total: items.length,
+        byEntityType: countsByType,
+      },
+    });
+  },
+  { allowedMethods: ['GET'] }
+);
+
+function toPartnerSubmission(
+  entityType: StagedEntityType,
+  entity: StagedEntity,
+  partnerName?: string
+): PartnerSubmission {
+  const { title, subtitle, productionVenueId } = describeEntity(entityType, entity);
+
+  return {
+    id: entity.id,
+    entityType,
+    batchId: entity.batch_id,
+    partnerId: entity.partner_id,
+    partnerName,
+    externalId: entity.external_id,
+    status: entity.status,
+    title,
+    subtitle,
+    confidenceScore: entity.confidence_score,
+    confidenceBreakdown: entity.confidence_breakdown,
+    flags: entity.flags,
+    productionVenueId,
+    data: entity.data,
+    review: entity.review
+      ? {
+          reviewedBy: entity.review.reviewed_by,
+          reviewedAt: entity.review.reviewed_at,
+          decision: entity.review.decision,
+          notes: entity.review.notes,
+        }
+      : undefined,
+    createdAt: entity.created_at,
+  };
+}
+
+function describeEntity(
+  entityType: StagedEntityType,
+  entity: StagedEntity
+): { title: string; subtitle?: string; productionVenueId?: string } {
+  const productionVenueId = 'production_venue_id' in entity ? entity.production_venue_id : undefined;
+
+  switch (entityType) {
+    case 'venue': {
+      const data = entity.data as { name: string; address: { city: string; country: string } };
+      return {
+        title: data.name,
+        subtitle: `${data.address.city}, ${data.address.country}`,
+        productionVenueId,
+      };
+    }
+    case 'dish': {
+      const data = entity.data as { name: string; price: { amount: number; currency: string } };
+      return {
+        title: data.name,
+        subtitle: `${data.price.currency} ${data.price.amount.toFixed(2)}`,
+        productionVenueId,
+      };
+    }
+    case 'promotion': {
+      const data = entity.data as { title: string; promo_type: string };
+      return { title: data.title, subtitle: data.promo_type, productionVenueId };
+    }
+    case 'availability': {
+      const data = entity.data as { product_sku: string; in_stock: boolean };
+      return {
+        title: data.product_sku,
+        subtitle: data.in_stock ? 'In stock' : 'Out of stock',
+        productionVenueId,
+      };
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Admin Partner Submissions Promote API
+ * POST /adminPromotePartnerSubmissions
+ *
+ * Writes approved staged partner records into production:
+ * - Either every approved record of a batch, or an explicit list
+ * - Venues are promoted before the dishes/promotions/availability that
+ *   reference them
+ * - Updates IngestionBatch.stats for every batch touched
+ */
+
+import { initializeFirestore, ingestionBatches } from '@pad/database';
+import { promotePartnerSubmissionsBodySchema } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import {
+  STAGED_ENTITY_TYPES,
+  getStagedEntity,
+  promoteStagedEntity,
+  promoteApprovedInBatch,
+  refreshBatchReviewStats,
+  type PromotionOutcome,
+} from '../../../services/stagingPromotion.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminPromotePartnerSubmissions
+ */
+export const adminPromotePartnerSubmissionsHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = promotePartnerSubmissionsBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { batchId, items } = validation.data;
+    const changeSource = { type: 'manual' as const, user_id: req.user?.uid };
+    const reviewedBy = req.user?.email || req.user?.uid || 'admin';
+
+    let outcomes: PromotionOutcome[] = [];
+    const touchedBatches = new Set<string>();
+
+    if (batchId) {
+      const batch = await ingestionBatches.getById(batchId);
+      if (!batch) {
+        res.status(404).json({ error: 'Batch not found', batchId });
+        return;
+      }
+
+      outcomes = await promoteApprovedInBatch(batchId, changeSource);
+      touchedBatches.add(batchId);
+    } else {
+      // Keep venues first so dependent records can resolve them
+      const ordered = [...(items || [])].sort(
+        (a, b) => STAGED_ENTITY_TYPES.indexOf(a.entityType) - STAGED_ENTITY_TYPES.indexOf(b.entityType)
+      );
+
+      for (const { entityType, id } of ordered) {
+        const entity = await getStagedEntity(entityType, id);
+        if (entity) touchedBatches.add(entity.batch_id);
+        outcomes.push(await promoteStagedEntity(entityType, id, changeSource));
+      }
+    }
+
+    const batchStats: Record<string, Awaited<ReturnType<typeof refreshBatchReviewStats>>> = {};
+    for (const id of touchedBatches) {
+      batchStats[id] = await refreshBatchReviewStats(id, reviewedBy);
+    }
+
+    const promoted = outcomes.filter((o) => o.success).length;
+
+    res.json({
+      success: true,
+      message: `${promoted} of ${outcomes.length} records promoted to production`,
+      summary: {
+        total: outcomes.length,
+        promoted,
+        failed: outcomes.length - promoted,
+      },
+      results: outcomes,
+      batchStats,
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
@@ -0,0 +1,131 @@
+/**
+ * Admin Partner Submissions Review API
+ * POST /adminReviewPartnerSubmissions
+ *
+ * Approves or rejects staged partner records:
+ * - Accepts a mixed list of venues, dishes, promotions and availability
+ * - Optionally promotes approved records straight into production
+ * - Updates IngestionBatch.stats for every batch touched
+ * - Sends a records.reviewed callback to each affected partner
+ */
+
+import { initializeFirestore } from '@pad/database';
+import { reviewPartnerSubmissionsBodySchema } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import {
+  getStagedEntity,
+  reviewStagedEntity,
+  promoteStagedEntity,
+  refreshBatchReviewStats,
+  type PromotionOutcome,
+} from '../../../services/stagingPromotion.js';
+import { notifyRecordsReviewed, type ReviewedRecord } from '../../../services/partnerCallbacks.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminReviewPartnerSubmissions
+ */
+export const adminReviewPartnerSubmissionsHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = reviewPartnerSubmissionsBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { items, decision, notes, promote } = validation.data;
+    const reviewedBy = req.user?.email || req.user?.uid || 'admin';
+    const changeSource = { type: 'manual' as const, user_id: req.user?.uid };
+
+    const results: Array<{
+      entityType: string;
+      id: string;
+      status: 'success' | 'error' | 'not_found' | 'already_reviewed';
+      error?: string;
+      promotion?: PromotionOutcome;
+    }> = [];
+    const reviewedByBatch = new Map<string, ReviewedRecord[]>();
+
+    for (const { entityType, id } of items) {
+      try {
+        const entity = await getStagedEntity(entityType, id);
+        if (!entity) {
+          results.push({ entityType, id, status: 'not_found', error: 'Staged record not found' });
+          continue;
+        }
+
+        if (['approved', 'rejected', 'promoted'].includes(entity.status)) {
+          results.push({ entityType, id, status: 'already_reviewed' });
+          continue;
+        }
+
+        await reviewStagedEntity(
+          entityType,
+          id,
+          decision === 'approve' ? 'approved' : 'rejected',
+          reviewedBy,
+          notes
+        );
+
+        const result: (typeof results)[number] = { entityType, id, status: 'success' };
+        if (decision === 'approve' && promote) {
+          result.promotion = await promoteStagedEntity(entityType, id, changeSource);
+        }
+        results.push(result);
+
+        const reviewed = reviewedByBatch.get(entity.batch_id) || [];
+        reviewed.push({
+          entity_type: entityType,
+          id,
+          external_id: entity.external_id,
+          decision: decision === 'approve' ? 'approved' : 'rejected',
+          notes,
+          production_id: result.promotion?.success ? result.promotion.production_id : undefined,
+        });
+        reviewedByBatch.set(entity.batch_id, reviewed);
+      } catch (error) {
+        console.error(`Failed to review staged ${entityType} ${id}:`, error);
+        results.push({
+          entityType,
+          id,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const batchStats: Record<string, Awaited<ReturnType<typeof refreshBatchReviewStats>>> = {};
+    for (const [batchId, reviewed] of reviewedByBatch) {
+      await notifyRecordsReviewed(batchId, reviewed);
+      batchStats[batchId] = await refreshBatchReviewStats(batchId, reviewedBy);
+    }
+
+    const successful = results.filter((r) => r.status === 'success').length;
+    const promoted = results.filter((r) => r.promotion?.success).length;
+    const promotionErrors = results.filter((r) => r.promotion && !r.promotion.success).length;
+
+    res.json({
+      success: true,
+      message:
+        `${successful} of ${items.length} records ${decision === 'approve' ? 'approved' : 'rejected'}` +
+        (promote && decision === 'approve' ? `, ${promoted} promoted` : ''),
+      summary: {
+        total: items.length,
+        successful,
+        alreadyReviewed: results.filter((r) => r.status === 'already_reviewed').length,
+        notFound: results.filter((r) => r.status === 'not_found').length,
+        errors: results.filter((r) => r.status === 'error').length,
+        promoted,
+        promotionErrors,
+      },
+      results,
+      batchStats,
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
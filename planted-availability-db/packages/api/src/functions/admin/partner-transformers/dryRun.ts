@@ -0,0 +1,80 @@
+/**
+ * Admin Partner Transformer Dry Run API
+ * POST /adminPartnerTransformerDryRun
+ *
+ * Runs a transformer against a sample payload without staging anything:
+ * - Select the transformer directly, or use the one configured for a partner
+ * - Returns the transformed output with validation errors and warnings
+ */
+
+import { initializeFirestore, partners } from '@pad/database';
+import { transformerDryRunBodySchema } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import {
+  getTransformer,
+  getPartnerTransformer,
+  runTransformer,
+  type PartnerTransformer,
+} from '../../../services/transformers/index.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminPartnerTransformerDryRun
+ */
+export const adminPartnerTransformerDryRunHandler = createAdminHandler(
+  async (req, res) => {
+    const validation = transformerDryRunBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { transformerId, partnerId, payload } = validation.data;
+
+    let transformer: PartnerTransformer | undefined;
+    if (transformerId) {
+      transformer = getTransformer(transformerId);
+    } else {
+      const partner = await partners.getById(partnerId!);
+      if (!partner) {
+        res.status(404).json({ error: 'Partner not found' });
+        return;
+      }
+      transformer = getPartnerTransformer(partner);
+    }
+
+    if (!transformer) {
+      res.status(404).json({ error: 'Transformer not found' });
+      return;
+    }
+
+    const result = runTransformer(transformer, payload);
+    const output = result.payload ?? result.output;
+    const counts = (key: 'venues' | 'dishes' | 'promotions' | 'availability') =>
+      result.payload?.[key]?.length ?? 0;
+
+    res.json({
+      transformer: {
+        id: transformer.id,
+        version: transformer.version,
+        transformerVersion: result.transformer_version,
+      },
+      valid: result.errors.length === 0,
+      output,
+      errors: result.errors,
+      warnings: result.warnings,
+      counts: {
+        venues: counts('venues'),
+        dishes: counts('dishes'),
+        promotions: counts('promotions'),
+        availability: counts('availability'),
+      },
+    });
+  },
+  { allowedMethods: ['POST'] }
+);
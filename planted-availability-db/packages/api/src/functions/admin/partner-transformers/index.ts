@@ -0,0 +1,9 @@
+/**
+ * Partner Transformers Admin API
+ *
+ * Endpoints for listing registered partner data transformers and
+ * dry-running a transformer against a sample payload.
+ */
+
+export { adminPartnerTransformersHandler } from './list.js';
+export { adminPartnerTransformerDryRunHandler } from './dryRun.js';
@@ -0,0 +1,34 @@
+/**
+ * Admin Partner Transformers List API
+ * GET /adminPartnerTransformers
+ *
+ * Returns every registered transformer with its current version.
+ */
+
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { listTransformers } from '../../../services/transformers/index.js';
+
+/**
+ * TransformerInfo - Registered transformer for display
+ */
+interface TransformerInfo {
+  id: string;
+  version: string;
+  description: string;
+}
+
+/**
+ * Handler for GET /adminPartnerTransformers
+ */
+export const adminPartnerTransformersHandler = createAdminHandler(
+  async (_req, res) => {
+    const transformers: TransformerInfo[] = listTransformers().map((t) => ({
+      id: t.id,
+      version: t.version,
+      description: t.description,
+    }));
+
+    res.json({ transformers });
+  },
+  { allowedMethods: ['GET'] }
+);
@@ -11,6 +11,7 @@ import { z } from 'zod';
 import { initializeFirestore, partners, ingestionBatches } from '@pad/database';
 import type { CreatePartnerInput, UpdatePartnerInput } from '@pad/core';
 import { verifyAuth, requireAdmin, type AuthenticatedRequest } from '../../middleware/auth.js';
+import { getTransformer } from '../../services/transformers/index.js';
 
 // Initialize Firestore
 initializeFirestore();
@@ -22,6 +23,10 @@ const functionOptions: HttpsOptions = {
 };
 
 // Validation schemas
+const transformerIdSchema = z
+  .string()
+  .refine((id) => getTransformer(id) !== undefined, { message: 'Unknown transformer_id' });
+
 const createPartnerSchema = z.object({
   name: z.string().min(2).max(100),
   type: z.enum(['chain', 'independent', 'distributor', 'aggregator']),
@@ -32,17 +37,22 @@ const createPartnerSchema = z.object({
     technical_email: z.string().email().optional(),
     phone: z.string().max(30).optional(),
   }),
-  config: z.object({
-    data_format: z.enum(['planted_standard', 'custom']).default('planted_standard'),
-    transformer_id: z.string().optional(),
-    auto_approve_threshold: z.number().min(0).max(100).default(85),
-    requires_manual_review: z.boolean().default(false),
-    allowed_entity_types: z
-      .array(z.enum(['venue', 'dish', 'promotion', 'availability']))
-      .default(['venue', 'dish', 'promotion']),
-    markets: z.array(z.string().length(2)).default([]),
-    callback_url: z.string().url().optional(),
-  }),
+  config: z
+    .object({
+      data_format: z.enum(['planted_standard', 'custom']).default('planted_standard'),
+      transformer_id: transformerIdSchema.optional(),
+      auto_approve_threshold: z.number().min(0).max(100).default(85),
+      requires_manual_review: z.boolean().default(false),
+      allowed_entity_types: z
+        .array(z.enum(['venue', 'dish', 'promotion', 'availability']))
+        .default(['venue', 'dish', 'promotion']),
+      markets: z.array(z.string().length(2)).default([]),
+      callback_url: z.string().url().optional(),
+    })
+    .refine((config) => config.data_format !== 'custom' || config.transformer_id, {
+      message: 'transformer_id is required for custom data_format',
+      path: ['transformer_id'],
+    }),
   rate_limits: z
     .object({
       requests_per_hour: z.number().min(1).max(10000).default(1000),
@@ -66,7 +76,7 @@ const updatePartnerSchema = z.object({
   config: z
     .object({
       data_format: z.enum(['planted_standard', 'custom']).optional(),
-      transformer_id: z.string().optional().nullable(),
+      transformer_id: transformerIdSchema.optional().nullable(),
       auto_approve_threshold: z.number().min(0).max(100).optional(),
       requires_manual_review: z.boolean().optional(),
       allowed_entity_types: z
@@ -9,7 +9,6 @@
  * - Triggers confidence recalculation for strategy
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
@@ -17,27 +16,19 @@ import {
   discoveryStrategies,
   changeLogs,
 } from '@pad/database';
+import { approveVenueBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for approve request body
-const approveBodySchema = z.object({
-  venueId: z.string().min(1),
-  dishApprovals: z.array(z.object({
-    dishId: z.string(),
-    approved: z.boolean(),
-  })).optional(),
-});
-
 /**
  * Handler for POST /adminApproveVenue
  */
 export const adminApproveVenueHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body (venueId now comes from body)
-    const validation = approveBodySchema.safeParse(req.body);
+    const validation = approveVenueBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
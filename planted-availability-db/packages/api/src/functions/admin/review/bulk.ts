@@ -6,28 +6,18 @@
  * Bulk approve/reject multiple venues at once
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   discoveryStrategies,
   changeLogs,
 } from '@pad/database';
+import { bulkApproveBodySchema, bulkRejectBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schemas
-const bulkApproveBodySchema = z.object({
-  venueIds: z.array(z.string()).min(1, 'At least one venue ID is required'),
-});
-
-const bulkRejectBodySchema = z.object({
-  venueIds: z.array(z.string()).min(1, 'At least one venue ID is required'),
-  reason: z.string().min(1, 'Rejection reason is required'),
-});
-
 /**
  * Handler for POST /admin/review/bulk/approve
  * Approves multiple venues at once
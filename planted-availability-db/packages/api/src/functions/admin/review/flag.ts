@@ -7,30 +7,21 @@
  * - Records flagging in changelog
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   changeLogs,
 } from '@pad/database';
+import {
+  flagVenueBodySchema,
+  clearVenueFlagBodySchema,
+  flaggedVenuesQuerySchema,
+} from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for flag request body
-const flagBodySchema = z.object({
-  venueId: z.string().min(1),
-  flagType: z.enum(['dish_extraction', 're_verification']),
-  priority: z.enum(['urgent', 'high', 'normal']),
-  reason: z.string().optional(),
-});
-
-// Validation schema for clear flag request body
-const clearFlagBodySchema = z.object({
-  venueId: z.string().min(1),
-});
-
 /**
  * Handler for POST /adminFlagVenue
  * Flags a venue for priority scraper action
@@ -38,7 +29,7 @@ const clearFlagBodySchema = z.object({
 export const adminFlagVenueHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = flagBodySchema.safeParse(req.body);
+    const validation = flagVenueBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -105,7 +96,7 @@ export const adminFlagVenueHandler = createAdminHandler(
 export const adminClearVenueFlagHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = clearFlagBodySchema.safeParse(req.body);
+    const validation = clearVenueFlagBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -167,7 +158,16 @@ export const adminClearVenueFlagHandler = createAdminHandler(
  */
 export const adminFlaggedVenuesHandler = createAdminHandler(
   async (req, res) => {
-    const flagType = req.query.flagType as 'dish_extraction' | 're_verification' | undefined;
+    const validation = flaggedVenuesQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { flagType } = validation.data;
 
     // Get flagged venues (sorted by priority and date)
     const venues = await discoveredVenues.getFlaggedVenues(flagType);
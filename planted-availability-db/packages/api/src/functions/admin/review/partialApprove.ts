@@ -9,7 +9,6 @@
  * - Triggers strategy adjustment based on feedback
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
@@ -17,32 +16,20 @@ import {
   discoveryStrategies,
   changeLogs,
 } from '@pad/database';
+import { partialApproveVenueBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import type { ExtractedDish } from '@pad/core';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for partial approve request body
-const partialApproveBodySchema = z.object({
-  venueId: z.string().min(1),
-  feedback: z.string(),
-  feedbackTags: z.array(z.string()).optional().default([]),
-  dishUpdates: z.array(z.object({
-    dishId: z.string(),
-    updates: z.record(z.unknown()),
-    approved: z.boolean(),
-  })).optional(),
-  dishIds: z.array(z.string()).optional(), // For simple partial approval (which dishes to include)
-});
-
 /**
  * Handler for POST /adminPartialApproveVenue
  */
 export const adminPartialApproveVenueHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body (venueId now comes from body)
-    const validation = partialApproveBodySchema.safeParse(req.body);
+    const validation = partialApproveVenueBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
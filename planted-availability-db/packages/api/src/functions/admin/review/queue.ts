@@ -9,13 +9,13 @@
  * - Uses cursor-based pagination
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   discoveredDishes,
   chains,
 } from '@pad/database';
+import { reviewQueueQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import type { SupportedCountry, DiscoveredVenueStatus, Chain } from '@pad/core';
 
@@ -114,16 +114,6 @@ interface ChainSuggestion {
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const queueQuerySchema = z.object({
-  country: z.enum(['CH', 'DE', 'AT']).optional(),
-  status: z.enum(['discovered', 'verified', 'rejected', 'promoted', 'stale']).optional(),
-  minConfidence: z.string().transform(Number).optional(),
-  search: z.string().optional(),
-  cursor: z.string().optional(),
-  limit: z.string().transform(Number).optional().default('50'),
-});
-
 interface CountryGroup {
   country: SupportedCountry;
   venueTypes: VenueTypeGroup[];
@@ -242,7 +232,7 @@ async function suggestChainForVenue(
 export const adminReviewQueueHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = queueQuerySchema.safeParse(req.query);
+    const validation = reviewQueueQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
@@ -9,32 +9,25 @@
  * - Updates strategy to reflect false positive
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   discoveryStrategies,
   changeLogs,
 } from '@pad/database';
+import { rejectVenueBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for reject request body
-const rejectBodySchema = z.object({
-  venueId: z.string().min(1),
-  reason: z.string().min(1, 'Rejection reason is required'),
-  feedbackTags: z.array(z.string()).optional(),
-});
-
 /**
  * Handler for POST /adminRejectVenue
  */
 export const adminRejectVenueHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body (venueId now comes from body)
-    const validation = rejectBodySchema.safeParse(req.body);
+    const validation = rejectVenueBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -5,33 +5,24 @@
  * Updates the address (street and/or city) of a discovered venue
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   changeLogs,
 } from '@pad/database';
+import { updateVenueAddressBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for update address request body
-const updateAddressBodySchema = z.object({
-  venueId: z.string().min(1),
-  street: z.string().optional(),
-  city: z.string().optional(),
-}).refine(data => data.street !== undefined || data.city !== undefined, {
-  message: 'At least one of street or city must be provided',
-});
-
 /**
  * Handler for POST /adminUpdateVenueAddress
  */
 export const adminUpdateVenueAddressHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = updateAddressBodySchema.safeParse(req.body);
+    const validation = updateVenueAddressBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -8,31 +8,24 @@
  * - Records change in changelog
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   changeLogs,
 } from '@pad/database';
-import { SUPPORTED_COUNTRIES } from '@pad/core';
+import { SUPPORTED_COUNTRIES, updateVenueCountryBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for update country request body
-const updateCountryBodySchema = z.object({
-  venueId: z.string().min(1),
-  country: z.enum(SUPPORTED_COUNTRIES as unknown as [string, ...string[]]),
-});
-
 /**
  * Handler for POST /adminUpdateVenueCountry
  */
 export const adminUpdateVenueCountryHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = updateCountryBodySchema.safeParse(req.body);
+    const validation = updateVenueCountryBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request body',
@@ -6,24 +6,17 @@
  * Used for individual dish approval/rejection during venue review.
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   discoveredVenues,
   changeLogs,
 } from '@pad/database';
+import { updateDishStatusBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for update dish status request body
-const updateDishStatusBodySchema = z.object({
-  venueId: z.string().min(1),
-  dishId: z.string().min(1), // Format: "{venueId}-dish-{index}"
-  status: z.enum(['verified', 'rejected']),
-});
-
 /**
  * Parse dish ID to extract the index
  * Dish IDs are formatted as "{venueId}-dish-{index}"
@@ -5,6 +5,7 @@
  */
 
 import { initializeFirestore, scraperRuns } from '@pad/database';
+import { startDiscoveryBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import { shouldThrottle, estimateScraperCost } from '../../../services/budgetThrottle.js';
 import { z } from 'zod';
@@ -14,17 +15,7 @@ import * as path from 'path';
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema
-const startDiscoverySchema = z.object({
-  countries: z.array(z.string()).min(1, 'At least one country required'),
-  platforms: z.array(z.string()).optional(),
-  mode: z.enum(['explore', 'enumerate', 'verify']),
-  chainId: z.string().optional(),
-  maxQueries: z.number().int().positive().optional().default(50),
-  dryRun: z.boolean().optional().default(false),
-});
-
-type StartDiscoveryRequest = z.infer<typeof startDiscoverySchema>;
+type StartDiscoveryRequest = z.infer<typeof startDiscoveryBodySchema>;
 
 /**
  * Handler for POST /admin/scrapers/discovery/start
@@ -32,7 +23,7 @@ type StartDiscoveryRequest = z.infer<typeof startDiscoverySchema>;
 export const adminStartDiscoveryHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = startDiscoverySchema.safeParse(req.body);
+    const validation = startDiscoveryBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request',
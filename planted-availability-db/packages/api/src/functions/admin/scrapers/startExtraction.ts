@@ -5,6 +5,7 @@
  */
 
 import { initializeFirestore, scraperRuns } from '@pad/database';
+import { startExtractionBodySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import { shouldThrottle, estimateScraperCost } from '../../../services/budgetThrottle.js';
 import { z } from 'zod';
@@ -12,16 +13,7 @@ import { z } from 'zod';
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema
-const startExtractionSchema = z.object({
-  target: z.enum(['all', 'chain', 'venue']),
-  chainId: z.string().optional(),
-  venueId: z.string().optional(),
-  maxVenues: z.number().int().positive().optional().default(50),
-  mode: z.enum(['enrich', 'refresh', 'verify']),
-});
-
-type StartExtractionRequest = z.infer<typeof startExtractionSchema>;
+type StartExtractionRequest = z.infer<typeof startExtractionBodySchema>;
 
 /**
  * Handler for POST /admin/scrapers/extraction/start
@@ -29,7 +21,7 @@ type StartExtractionRequest = z.infer<typeof startExtractionSchema>;
 export const adminStartExtractionHandler = createAdminHandler(
   async (req, res) => {
     // Validate request body
-    const validation = startExtractionSchema.safeParse(req.body);
+    const validation = startExtractionBodySchema.safeParse(req.body);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid request',
@@ -0,0 +1,7 @@
+/**
+ * Search Admin API
+ *
+ * Maintenance endpoints for the Algolia search indexes.
+ */
+
+export { adminSearchReindexHandler } from './reindex.js';
@@ -0,0 +1,64 @@
+/**
+ * Admin Search Reindex API
+ * POST /adminSearchReindex
+ *
+ * Rebuilds the venue and dish search indexes from all active venues and
+ * their active dishes. Pass `configure: true` to (re)apply the index
+ * settings first, e.g. on initial setup.
+ */
+
+import { initializeFirestore } from '@pad/database';
+import { searchReindexBodySchema } from '@pad/core';
+import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { getSearchProvider } from '../../../services/search.js';
+import { reindexAll } from '../../../services/searchSync.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+/**
+ * Handler for POST /adminSearchReindex
+ */
+export const adminSearchReindexHandler = createAdminHandler(
+  async (req, res) => {
+    // Validate request body
+    const validation = searchReindexBodySchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const search = getSearchProvider();
+    if (!search) {
+      res.status(503).json({
+        error: 'Search is not configured',
+        message: 'Set ALGOLIA_APP_ID, ALGOLIA_API_KEY and ALGOLIA_SEARCH_KEY',
+      });
+      return;
+    }
+
+    const startedAt = Date.now();
+
+    if (validation.data.configure) {
+      await search.configureIndexes();
+    }
+
+    const indexed = await reindexAll(search);
+
+    res.json({
+      success: true,
+      message: `Indexed ${indexed.venues} venues and ${indexed.dishes} dishes`,
+      indexed,
+      configured: validation.data.configure,
+      durationMs: Date.now() - startedAt,
+    });
+  },
+  {
+    allowedMethods: ['POST'],
+    timeoutSeconds: 540, // 9 minutes for large indexes
+    memory: '1GiB',
+  }
+);
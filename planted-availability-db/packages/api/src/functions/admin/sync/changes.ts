@@ -0,0 +1,276 @@
+/**
+ * Sync Change Detection
+ *
+ * Maps discovered venues/dishes onto production fields and diffs them
+ * against the production records they were promoted to. Shared by
+ * preview (to show the diff) and execute (to apply it).
+ *
+ * FieldDiff.field is the production field path, so a diff can be written
+ * back with a Firestore update as-is. Discovered values that are missing
+ * never produce a diff: sync fills in and corrects data, it doesn't erase it.
+ */
+
+import type { Dish, DiscoveredDish, DiscoveredVenue, ExtractedDish, FieldChange, Venue } from '@pad/core';
+
+/**
+ * FieldDiff - Single changed field (rendered by the dashboard's SyncDiff)
+ */
+export interface FieldDiff {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  changed: boolean;
+}
+
+/**
+ * DishDiff - Change to one of a venue's dishes
+ */
+export interface DishDiff {
+  /** Production dish ID for updates, embedded dish index for additions */
+  id: string;
+  name: string;
+  changeType: 'addition' | 'update';
+  fields?: FieldDiff[];
+}
+
+/**
+ * Embedded dish as written by the discovery agent (carries a few fields
+ * beyond DiscoveredDish)
+ */
+export type EmbeddedDish = DiscoveredDish & {
+  product_sku?: string;
+  category?: string;
+  image_url?: string;
+  dietary_tags?: string[];
+};
+
+/**
+ * Production dish fields that sync owns
+ */
+export interface SyncedDishFields {
+  name: string;
+  description: string;
+  planted_products: string[];
+  price: { amount: number; currency: string };
+  dietary_tags: string[];
+  cuisine_type?: string;
+  image_url?: string;
+}
+
+interface PlatformLink {
+  platform?: string;
+  partner?: string;
+  url: string;
+  venue_id?: string;
+}
+
+const DEFAULT_PRODUCT = 'planted.chicken';
+
+/**
+ * Parse price string to Price object
+ * Handles formats: "CHF 18.90", "18.90", "€15.99"
+ */
+export function parsePrice(priceStr: string | undefined, currency: string | undefined): { amount: number; currency: string } {
+  if (!priceStr) return { amount: 0, currency: currency || 'CHF' };
+
+  // Handle already-number prices
+  if (typeof priceStr === 'number') {
+    return { amount: priceStr, currency: currency || 'CHF' };
+  }
+
+  // Parse "CHF 18.90" or "18.90" or "€15.99" format
+  const match = priceStr.match(/([A-Z]{3}|[€$£])?\s*(\d+(?:[.,]\d+)?)/);
+  if (match) {
+    const amount = parseFloat(match[2].replace(',', '.'));
+    let curr = currency || 'CHF';
+    if (match[1]) {
+      // Map symbols to currency codes
+      const symbolMap: Record<string, string> = { '€': 'EUR', '$': 'USD', '£': 'GBP' };
+      curr = symbolMap[match[1]] || match[1];
+    }
+    return { amount: isNaN(amount) ? 0 : amount, currency: curr };
+  }
+  return { amount: 0, currency: currency || 'CHF' };
+}
+
+/**
+ * Parse price from country price map
+ */
+export function parsePriceFromCountryMap(priceByCountry: Partial<Record<string, string>> | undefined): { amount: number; currency: string } {
+  if (!priceByCountry || Object.keys(priceByCountry).length === 0) {
+    return { amount: 0, currency: 'CHF' };
+  }
+  const firstPrice = Object.values(priceByCountry)[0];
+  return parsePrice(firstPrice, undefined);
+}
+
+/**
+ * Production fields for a dish embedded in a discovered venue
+ */
+export function embeddedDishFields(dish: EmbeddedDish): SyncedDishFields {
+  return {
+    name: dish.name,
+    description: dish.description || '',
+    planted_products: [dish.planted_product || dish.product_sku || DEFAULT_PRODUCT],
+    price: parsePrice(dish.price, dish.currency),
+    dietary_tags: dish.dietary_tags || [],
+    cuisine_type: dish.category || undefined,
+    image_url: dish.image_url || undefined,
+  };
+}
+
+/**
+ * Production fields for a discovered (extracted) dish
+ */
+export function extractedDishFields(dish: ExtractedDish): SyncedDishFields {
+  return {
+    name: dish.name,
+    description: dish.description || '',
+    planted_products: [dish.planted_product || DEFAULT_PRODUCT],
+    price: parsePriceFromCountryMap(dish.price_by_country),
+    dietary_tags: dish.dietary_tags || [],
+    cuisine_type: dish.category || undefined,
+    image_url: dish.image_url || undefined,
+  };
+}
+
+/**
+ * Normalized dish name used to match dishes within a venue
+ */
+export function dishNameKey(name: string): string {
+  return name.toLowerCase().trim();
+}
+
+/**
+ * Diff a discovered venue against its production venue
+ */
+export function diffVenue(discovered: DiscoveredVenue, production: Venue): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+
+  compareText(diffs, 'name', production.name, discovered.name);
+  compareText(diffs, 'chain_id', production.chain_id, discovered.chain_id);
+  compareText(diffs, 'address.street', production.address.street, discovered.address.street);
+  compareText(diffs, 'address.city', production.address.city, discovered.address.city);
+  compareText(diffs, 'address.postal_code', production.address.postal_code, discovered.address.postal_code);
+  compareText(diffs, 'address.country', production.address.country, discovered.address.country);
+
+  if (discovered.coordinates) {
+    const location = {
+      latitude: discovered.coordinates.latitude,
+      longitude: discovered.coordinates.longitude,
+    };
+    if (
+      !production.location ||
+      roundCoordinate(production.location.latitude) !== roundCoordinate(location.latitude) ||
+      roundCoordinate(production.location.longitude) !== roundCoordinate(location.longitude)
+    ) {
+      diffs.push(fieldDiff('location', production.location, location));
+    }
+  }
+
+  // Platform links are only ever added; existing links are kept
+  const existingLinks = (production.delivery_platforms || []) as unknown as PlatformLink[];
+  const existingUrls = new Set(existingLinks.map((p) => p.url.toLowerCase()));
+  const newLinks = discovered.delivery_platforms
+    .filter((p) => !existingUrls.has(p.url.toLowerCase()))
+    .map((p) => ({ platform: p.platform, url: p.url, venue_id: p.venue_id_on_platform }));
+  if (newLinks.length > 0) {
+    diffs.push(fieldDiff('delivery_platforms', existingLinks, [...existingLinks, ...newLinks]));
+  }
+
+  return diffs;
+}
+
+/**
+ * Diff discovered dish fields against a production dish
+ */
+export function diffDish(discovered: SyncedDishFields, production: Dish): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+
+  compareText(diffs, 'name', production.name, discovered.name);
+  compareText(diffs, 'description', production.description, discovered.description);
+  compareText(diffs, 'cuisine_type', production.cuisine_type, discovered.cuisine_type);
+  compareText(diffs, 'image_url', production.image_url, discovered.image_url);
+
+  if (discovered.price.amount > 0) {
+    const priceChanged =
+      !production.price ||
+      production.price.amount !== discovered.price.amount ||
+      production.price.currency !== discovered.price.currency;
+    if (priceChanged) {
+      diffs.push(fieldDiff('price', production.price, discovered.price));
+    }
+  }
+
+  compareList(diffs, 'planted_products', production.planted_products, discovered.planted_products);
+  compareList(diffs, 'dietary_tags', production.dietary_tags, discovered.dietary_tags);
+
+  return diffs;
+}
+
+/**
+ * Diff a discovered venue's embedded dishes against the production venue's
+ * dishes, matched by name
+ */
+export function diffEmbeddedDishes(discovered: DiscoveredVenue, productionDishes: Dish[]): DishDiff[] {
+  const byName = new Map(productionDishes.map((d) => [dishNameKey(d.name), d]));
+  const seen = new Set<string>();
+  const dishDiffs: DishDiff[] = [];
+
+  (discovered.dishes as EmbeddedDish[]).forEach((dish, index) => {
+    const key = dishNameKey(dish.name);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const production = byName.get(key);
+    if (!production) {
+      dishDiffs.push({ id: String(index), name: dish.name, changeType: 'addition' });
+      return;
+    }
+
+    const fields = diffDish(embeddedDishFields(dish), production);
+    if (fields.length > 0) {
+      dishDiffs.push({ id: production.id, name: production.name, changeType: 'update', fields });
+    }
+  });
+
+  return dishDiffs;
+}
+
+/**
+ * Firestore update data for a set of diffs
+ */
+export function toUpdateData(diffs: FieldDiff[]): Record<string, unknown> {
+  return Object.fromEntries(diffs.map((d) => [d.field, d.newValue]));
+}
+
+/**
+ * Changelog entries for a set of diffs
+ */
+export function toFieldChanges(diffs: FieldDiff[]): FieldChange[] {
+  return diffs.map((d) => ({ field: d.field, before: d.oldValue ?? null, after: d.newValue }));
+}
+
+function fieldDiff(field: string, oldValue: unknown, newValue: unknown): FieldDiff {
+  return { field, oldValue: oldValue ?? null, newValue, changed: true };
+}
+
+function compareText(diffs: FieldDiff[], field: string, current: string | undefined, next: string | undefined): void {
+  if (!next || next.trim() === '') return;
+  if ((current || '').trim() !== next.trim()) {
+    diffs.push(fieldDiff(field, current, next.trim()));
+  }
+}
+
+function compareList(diffs: FieldDiff[], field: string, current: string[] | undefined, next: string[]): void {
+  if (next.length === 0) return;
+  const normalize = (list: string[]) => [...new Set(list)].sort().join('|');
+  if (normalize(current || []) !== normalize(next)) {
+    diffs.push(fieldDiff(field, current, next));
+  }
+}
+
+function roundCoordinate(value: number): number {
+  // 5 decimals ≈ 1 m
+  return Math.round(value * 1e5) / 1e5;
+}
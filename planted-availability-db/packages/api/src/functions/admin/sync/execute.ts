@@ -4,12 +4,13 @@
  *
  * Promotes verified discovered entities to production:
  * - Creates production venue/dish records
+ * - Applies field updates to re-verified entities already in production
  * - Updates discovered entity status to 'promoted'
  * - Uses batch writes for atomicity
  * - Records sync in history
+ * - Queues failed writes in the dead letter queue for retry
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   getFirestore,
@@ -17,59 +18,66 @@ import {
   discoveredDishes,
   syncHistory,
   changeLogs,
+  failedOperations,
 } from '@pad/database';
+import { encodeGeohash, hasRegionalHolidays, syncExecuteBodySchema } from '@pad/core';
+import type { Dish, DiscoveredVenue, ExtractedDish, SyncExecuteBody, Venue } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
+import { getPostalCodeGeocoder } from '../../../services/geocoding.js';
 import type { SyncErrorRecord } from '@pad/database';
+import {
+  diffVenue,
+  diffDish,
+  dishNameKey,
+  embeddedDishFields,
+  extractedDishFields,
+  toFieldChanges,
+  toUpdateData,
+  type EmbeddedDish,
+  type FieldDiff,
+  type SyncedDishFields,
+} from './changes.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-/**
- * Parse price string to Price object
- * Handles formats: "CHF 18.90", "18.90", "€15.99"
- */
-function parsePrice(priceStr: string | undefined, currency: string | undefined): { amount: number; currency: string } {
-  if (!priceStr) return { amount: 0, currency: currency || 'CHF' };
-
-  // Handle already-number prices
-  if (typeof priceStr === 'number') {
-    return { amount: priceStr, currency: currency || 'CHF' };
-  }
+export type ExecuteSyncRequest = SyncExecuteBody;
 
-  // Parse "CHF 18.90" or "18.90" or "€15.99" format
-  const match = priceStr.match(/([A-Z]{3}|[€$£])?\s*(\d+(?:[.,]\d+)?)/);
-  if (match) {
-    const amount = parseFloat(match[2].replace(',', '.'));
-    let curr = currency || 'CHF';
-    if (match[1]) {
-      // Map symbols to currency codes
-      const symbolMap: Record<string, string> = { '€': 'EUR', '$': 'USD', '£': 'GBP' };
-      curr = symbolMap[match[1]] || match[1];
-    }
-    return { amount: isNaN(amount) ? 0 : amount, currency: curr };
-  }
-  return { amount: 0, currency: currency || 'CHF' };
+export interface ExecuteSyncOptions {
+  /** Queue failed writes in the dead letter queue (default: true) */
+  queueFailures?: boolean;
 }
 
 /**
- * Parse price from country price map
+ * Result of a sync run (the execute endpoint's response body)
  */
-function parsePriceFromCountryMap(priceByCountry: Record<string, string> | undefined): { amount: number; currency: string } {
-  if (!priceByCountry || Object.keys(priceByCountry).length === 0) {
-    return { amount: 0, currency: 'CHF' };
-  }
-  const firstPrice = Object.values(priceByCountry)[0];
-  return parsePrice(firstPrice, undefined);
+export interface ExecuteSyncResult {
+  success: boolean;
+  message: string;
+  synced: {
+    venues: number;
+    venuesAdded?: number;
+    venuesUpdated?: number;
+    dishes: number;
+    dishesAdded?: number;
+    dishesUpdated?: number;
+  };
+  errors?: SyncErrorRecord[];
+  stats?: {
+    requested: { venues: number; dishes: number };
+    successful: {
+      venues: number;
+      venuesAdded: number;
+      venuesUpdated: number;
+      dishes: number;
+      dishesAdded: number;
+      dishesUpdated: number;
+    };
+    failed: { venues: number; dishes: number };
+    skippedForValidation: number;
+  };
 }
 
-// Validation schema for execute request body
-const executeBodySchema = z.object({
-  venueIds: z.array(z.string()).optional(),
-  dishIds: z.array(z.string()).optional(),
-  syncAll: z.boolean().optional().default(false),
-  skipAddressValidation: z.boolean().optional().default(false), // For backfill scenarios
-});
-
 /**
  * Validation result for address completeness
  */
@@ -101,6 +109,19 @@ function validateVenueAddress(venue: { name: string; address: { street?: string;
   };
 }
 
+/**
+ * Region code (canton, state, UK nation) for regional public holidays,
+ * looked up from the postal code. Null where holidays don't differ by
+ * region or the postal code is unknown.
+ */
+async function lookupRegion(address: { postal_code?: string; country: string }): Promise<string | null> {
+  if (!address.postal_code || !hasRegionalHolidays(address.country)) {
+    return null;
+  }
+  const location = await getPostalCodeGeocoder().lookup(address.postal_code, address.country);
+  return location?.region ?? null;
+}
+
 /**
  * Normalize address for matching
  */
@@ -176,299 +197,363 @@ async function findExistingProductionVenue(
 }
 
 /**
- * Handler for POST /admin/sync/execute
+ * New production dish from synced dish fields
  */
-export const adminSyncExecuteHandler = createAdminHandler(
-  async (req, res) => {
-    // Validate request body
-    const validation = executeBodySchema.safeParse(req.body);
-    if (!validation.success) {
-      res.status(400).json({
-        error: 'Invalid request body',
-        details: validation.error.errors,
-      });
-      return;
-    }
+function buildProductionDish(venueId: string, fields: SyncedDishFields) {
+  return {
+    venue_id: venueId,
+    ...fields,
+    availability: { type: 'permanent' as const },
+    source: {
+      type: 'discovered' as const,
+      partner_id: 'smart-discovery-agent',
+    },
+    status: 'active' as const,
+    last_verified: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
 
-    const { venueIds, dishIds, syncAll, skipAddressValidation } = validation.data;
-
-    // Get entities to sync
-    let venuesToSync = [];
-    let dishesToSync = [];
-
-    if (syncAll) {
-      // Get all verified entities not yet promoted
-      const allVerifiedVenues = await discoveredVenues.getByStatus('verified');
-      console.log(`[Sync] Found ${allVerifiedVenues.length} verified venues`);
-      venuesToSync = allVerifiedVenues.filter(v => !v.production_venue_id && !v.promoted_at);
-      console.log(`[Sync] ${venuesToSync.length} venues to sync after filtering`);
-
-      const allVerifiedDishes = await discoveredDishes.getByStatusUnordered('verified');
-      dishesToSync = allVerifiedDishes.filter(d => !d.production_dish_id && !d.promoted_at);
-    } else {
-      // Get specific entities
-      if (venueIds && venueIds.length > 0) {
-        const venuePromises = venueIds.map(id => discoveredVenues.getById(id));
-        const fetchedVenues = await Promise.all(venuePromises);
-        venuesToSync = fetchedVenues.filter((v): v is NonNullable<typeof v> =>
-          v !== null && v.status === 'verified' && !v.production_venue_id
-        );
-      }
+/**
+ * Field updates applied to one production document
+ */
+interface AppliedUpdate {
+  collection: 'venues' | 'dishes';
+  productionId: string;
+  name: string;
+  diffs: FieldDiff[];
+}
 
-      if (dishIds && dishIds.length > 0) {
-        const dishPromises = dishIds.map(id => discoveredDishes.getById(id));
-        const fetchedDishes = await Promise.all(dishPromises);
-        dishesToSync = fetchedDishes.filter((d): d is NonNullable<typeof d> =>
-          d !== null && d.status === 'verified' && !d.production_dish_id
-        );
-      }
+/**
+ * Apply a re-verified discovered venue to its production venue: changed
+ * venue fields, changed embedded dishes (matched by name) and new dishes
+ */
+async function applyVenueUpdate(
+  db: FirebaseFirestore.Firestore,
+  discoveredVenue: DiscoveredVenue
+): Promise<{ applied: AppliedUpdate[]; dishesAdded: number }> {
+  const venueRef = db.collection('venues').doc(discoveredVenue.production_venue_id!);
+
+  return db.runTransaction(async (transaction) => {
+    const venueDoc = await transaction.get(venueRef);
+    if (!venueDoc.exists) {
+      throw new Error(`Production venue ${venueRef.id} not found`);
     }
+    const dishesSnapshot = await transaction.get(
+      db.collection('dishes').where('venue_id', '==', venueRef.id)
+    );
 
-    if (venuesToSync.length === 0 && dishesToSync.length === 0) {
-      res.json({
-        success: true,
-        message: 'No entities to sync',
-        synced: { venues: 0, dishes: 0 },
-      });
-      return;
+    const now = new Date();
+    const applied: AppliedUpdate[] = [];
+
+    const production = { id: venueDoc.id, ...venueDoc.data() } as Venue;
+    const venueDiffs = diffVenue(discoveredVenue, production);
+    const location = venueDiffs.find(d => d.field === 'location')?.newValue as
+      | { latitude: number; longitude: number }
+      | undefined;
+
+    transaction.update(venueRef, {
+      ...toUpdateData(venueDiffs),
+      ...(location ? { geohash: encodeGeohash(location) } : {}),
+      last_verified: now,
+      updated_at: now,
+    });
+    if (venueDiffs.length > 0) {
+      applied.push({ collection: 'venues', productionId: venueRef.id, name: production.name, diffs: venueDiffs });
     }
 
-    const db = getFirestore();
-    const errors: SyncErrorRecord[] = [];
-    const syncedVenueIds: string[] = [];
-    const syncedDishIds: string[] = [];
-    let venuesAdded = 0;
-    let venuesUpdated = 0;
+    // Embedded dishes: update existing ones, create the rest
+    const productionDishes = new Map(
+      dishesSnapshot.docs.map(doc => [
+        dishNameKey((doc.data().name as string) || ''),
+        { id: doc.id, ...doc.data() } as Dish,
+      ])
+    );
+    const handled = new Set<string>();
     let dishesAdded = 0;
 
-    // Sync venues (including their embedded dishes)
-    let skippedForValidation = 0;
-    for (const discoveredVenue of venuesToSync) {
-      // Validate address completeness unless explicitly skipped
-      if (!skipAddressValidation) {
-        const addressValidation = validateVenueAddress(discoveredVenue);
-        if (!addressValidation.valid) {
-          const errorMsg = `Address validation failed: ${addressValidation.errors.join(', ')}`;
-          console.warn(`[Sync] Skipping venue "${discoveredVenue.name}": ${errorMsg}`);
-          errors.push({
-            entityId: discoveredVenue.id,
-            entityType: 'venue',
-            error: errorMsg,
-          });
-          skippedForValidation++;
-          continue; // Skip to next venue
-        }
+    for (const embeddedDish of discoveredVenue.dishes as EmbeddedDish[]) {
+      const key = dishNameKey(embeddedDish.name);
+      if (handled.has(key)) continue;
+      handled.add(key);
+
+      const fields = embeddedDishFields(embeddedDish);
+      const existing = productionDishes.get(key);
+
+      if (!existing) {
+        transaction.set(db.collection('dishes').doc(), buildProductionDish(venueRef.id, fields));
+        dishesAdded++;
+        continue;
       }
 
-      try {
-        // Check if venue already exists in production
-        const existingVenue = await findExistingProductionVenue(db, discoveredVenue);
+      const dishDiffs = diffDish(fields, existing);
+      if (dishDiffs.length > 0) {
+        transaction.update(db.collection('dishes').doc(existing.id), {
+          ...toUpdateData(dishDiffs),
+          last_verified: now,
+          updated_at: now,
+        });
+        applied.push({ collection: 'dishes', productionId: existing.id, name: existing.name, diffs: dishDiffs });
+      }
+    }
 
-        // Use a transaction to ensure atomicity
-        const result = await db.runTransaction(async (transaction) => {
-          let venueRef: FirebaseFirestore.DocumentReference;
-          let isUpdate = false;
+    transaction.update(db.collection('discovered_venues').doc(discoveredVenue.id), {
+      status: 'promoted',
+      promoted_at: now,
+      updated_at: now,
+    });
 
-          if (existingVenue) {
-            // Update existing venue
-            venueRef = db.collection('venues').doc(existingVenue.id);
-            isUpdate = true;
+    return { applied, dishesAdded };
+  });
+}
 
-            // Merge delivery platforms (keep existing + add new)
-            const existingDoc = await transaction.get(venueRef);
-            const existingData = existingDoc.data() as {
-              delivery_platforms?: Array<{ platform: string; url: string }>;
-            } | undefined;
+/**
+ * Apply a re-verified discovered dish to its production dish
+ */
+async function applyDishUpdate(
+  db: FirebaseFirestore.Firestore,
+  discoveredDish: ExtractedDish
+): Promise<AppliedUpdate | null> {
+  const dishRef = db.collection('dishes').doc(discoveredDish.production_dish_id!);
+
+  return db.runTransaction(async (transaction) => {
+    const dishDoc = await transaction.get(dishRef);
+    if (!dishDoc.exists) {
+      throw new Error(`Production dish ${dishRef.id} not found`);
+    }
 
-            const existingUrls = new Set(
-              (existingData?.delivery_platforms || []).map(p => p.url.toLowerCase())
-            );
+    const now = new Date();
+    const production = { id: dishDoc.id, ...dishDoc.data() } as Dish;
+    const diffs = diffDish(extractedDishFields(discoveredDish), production);
 
-            const mergedPlatforms = [
-              ...(existingData?.delivery_platforms || []),
-              ...discoveredVenue.delivery_platforms
-                .filter(p => !existingUrls.has(p.url.toLowerCase()))
-                .map(p => ({
-                  platform: p.platform,
-                  url: p.url,
-                  venue_id: p.venue_id,
-                })),
-            ];
-
-            transaction.update(venueRef, {
-              name: discoveredVenue.name,
-              chain_id: discoveredVenue.chain_id || null,
-              address: {
-                street: discoveredVenue.address.street,
-                city: discoveredVenue.address.city,
-                postal_code: discoveredVenue.address.postal_code,
-                country: discoveredVenue.address.country,
-              },
-              location: discoveredVenue.coordinates ? {
-                latitude: discoveredVenue.coordinates.latitude,
-                longitude: discoveredVenue.coordinates.longitude,
-              } : undefined,
-              delivery_platforms: mergedPlatforms,
-              last_verified: new Date(),
-              updated_at: new Date(),
-            });
-
-            console.log(`[Sync] Updated existing venue: ${discoveredVenue.name} (${venueRef.id})`);
-          } else {
-            // Create new production venue
-            venueRef = db.collection('venues').doc();
-            const productionVenue = {
-              type: 'restaurant' as const,
-              name: discoveredVenue.name,
-              chain_id: discoveredVenue.chain_id,
-              address: {
-                street: discoveredVenue.address.street,
-                city: discoveredVenue.address.city,
-                postal_code: discoveredVenue.address.postal_code,
-                country: discoveredVenue.address.country,
-              },
-              location: discoveredVenue.coordinates ? {
-                latitude: discoveredVenue.coordinates.latitude,
-                longitude: discoveredVenue.coordinates.longitude,
-              } : { latitude: 0, longitude: 0 },
-              opening_hours: {
-                monday: { open: '11:00', close: '22:00' },
-                tuesday: { open: '11:00', close: '22:00' },
-                wednesday: { open: '11:00', close: '22:00' },
-                thursday: { open: '11:00', close: '22:00' },
-                friday: { open: '11:00', close: '22:00' },
-                saturday: { open: '11:00', close: '22:00' },
-                sunday: { open: '11:00', close: '22:00' },
-              },
-              delivery_platforms: discoveredVenue.delivery_platforms.map(p => ({
-                platform: p.platform,
-                url: p.url,
-                venue_id: p.venue_id,
-              })),
-              source: {
-                type: 'discovered' as const,
-                partner_id: 'smart-discovery-agent',
-              },
-              status: 'active' as const,
-              last_verified: new Date(),
-              created_at: new Date(),
-              updated_at: new Date(),
-            };
-
-            transaction.set(venueRef, productionVenue);
-            console.log(`[Sync] Created new venue: ${discoveredVenue.name} (${venueRef.id})`);
-          }
+    transaction.update(dishRef, {
+      ...toUpdateData(diffs),
+      last_verified: now,
+      updated_at: now,
+    });
+    transaction.update(db.collection('discovered_dishes').doc(discoveredDish.id), {
+      status: 'promoted',
+      promoted_at: now,
+      updated_at: now,
+    });
 
-          // Get existing dishes for this venue to avoid duplicates
-          const existingDishesSnapshot = await db
-            .collection('dishes')
-            .where('venue_id', '==', venueRef.id)
-            .get();
-          const existingDishNames = new Set(
-            existingDishesSnapshot.docs.map(d =>
-              (d.data().name as string || '').toLowerCase().trim()
-            )
-          );
+    return diffs.length > 0
+      ? { collection: 'dishes' as const, productionId: dishRef.id, name: production.name, diffs }
+      : null;
+  });
+}
 
-          // Create production dishes from embedded dishes array (skip duplicates)
-          let embeddedDishesCreated = 0;
-          if (discoveredVenue.dishes && discoveredVenue.dishes.length > 0) {
-            for (const embeddedDish of discoveredVenue.dishes) {
-              const normalizedName = embeddedDish.name.toLowerCase().trim();
-
-              // Skip if dish already exists
-              if (existingDishNames.has(normalizedName)) {
-                continue;
-              }
-
-              const dishRef = db.collection('dishes').doc();
-              const productionDish = {
-                venue_id: venueRef.id,
-                name: embeddedDish.name,
-                description: embeddedDish.description || '',
-                planted_products: [embeddedDish.planted_product || embeddedDish.product_sku || 'planted.chicken'],
-                price: parsePrice(embeddedDish.price, embeddedDish.currency),
-                dietary_tags: embeddedDish.dietary_tags || [],
-                cuisine_type: embeddedDish.category || undefined,
-                availability: { type: 'permanent' as const },
-                image_url: embeddedDish.image_url || undefined,
-                source: {
-                  type: 'discovered' as const,
-                  partner_id: 'smart-discovery-agent',
-                },
-                status: 'active' as const,
-                last_verified: new Date(),
-                created_at: new Date(),
-                updated_at: new Date(),
-              };
-              transaction.set(dishRef, productionDish);
-              existingDishNames.add(normalizedName);
-              embeddedDishesCreated++;
-            }
-          }
+/**
+ * Queue a failed production write in the dead letter queue
+ */
+async function queueSyncFailure(
+  entityType: 'venue' | 'dish',
+  entityId: string,
+  venueId: string,
+  action: 'add' | 'update',
+  error: unknown
+): Promise<void> {
+  try {
+    await failedOperations.queue({
+      type: 'sync_write',
+      venue_id: venueId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      context: { entity_type: entityType, entity_id: entityId, action },
+    });
+  } catch (e) {
+    console.warn(`[Sync] Failed to queue failed ${entityType} write ${entityId}:`, e);
+  }
+}
 
-          // Update discovered venue to mark as promoted
-          const discoveredVenueRef = db.collection('discovered_venues').doc(discoveredVenue.id);
-          transaction.update(discoveredVenueRef, {
-            status: 'promoted',
-            production_venue_id: venueRef.id,
-            promoted_at: new Date(),
-            updated_at: new Date(),
-          });
+/**
+ * Promote the requested discovered entities to production
+ *
+ * Shared by the execute endpoint and the dead letter queue, which retries
+ * single failed entities with queueFailures disabled.
+ */
+export async function executeSync(
+  request: ExecuteSyncRequest,
+  userId: string,
+  options: ExecuteSyncOptions = {}
+): Promise<ExecuteSyncResult> {
+  const { venueIds, dishIds, syncAll, skipAddressValidation } = request;
+  const queueFailures = options.queueFailures ?? true;
+
+  // Get entities to sync: new ones are added, re-verified ones already in
+  // production (production_venue_id / production_dish_id) are updated
+  let venuesToSync: DiscoveredVenue[] = [];
+  let dishesToSync: ExtractedDish[] = [];
+  let venuesToUpdate: DiscoveredVenue[] = [];
+  let dishesToUpdate: ExtractedDish[] = [];
+
+  if (syncAll) {
+    // Get all verified entities not yet promoted
+    const allVerifiedVenues = await discoveredVenues.getByStatus('verified');
+    console.log(`[Sync] Found ${allVerifiedVenues.length} verified venues`);
+    venuesToSync = allVerifiedVenues.filter(v => !v.production_venue_id && !v.promoted_at);
+    venuesToUpdate = allVerifiedVenues.filter(v => v.production_venue_id);
+    console.log(`[Sync] ${venuesToSync.length} venues to add, ${venuesToUpdate.length} to update after filtering`);
+
+    const allVerifiedDishes = await discoveredDishes.getByStatusUnordered('verified');
+    dishesToSync = allVerifiedDishes.filter(d => !d.production_dish_id && !d.promoted_at);
+    dishesToUpdate = allVerifiedDishes.filter(d => d.production_dish_id);
+  } else {
+    // Get specific entities
+    if (venueIds && venueIds.length > 0) {
+      const venuePromises = venueIds.map(id => discoveredVenues.getById(id));
+      const fetchedVenues = (await Promise.all(venuePromises)).filter(
+        (v): v is NonNullable<typeof v> => v !== null && v.status === 'verified'
+      );
+      venuesToSync = fetchedVenues.filter(v => !v.production_venue_id);
+      venuesToUpdate = fetchedVenues.filter(v => v.production_venue_id);
+    }
 
-          return { embeddedDishesCreated, isUpdate };
-        });
+    if (dishIds && dishIds.length > 0) {
+      const dishPromises = dishIds.map(id => discoveredDishes.getById(id));
+      const fetchedDishes = (await Promise.all(dishPromises)).filter(
+        (d): d is NonNullable<typeof d> => d !== null && d.status === 'verified'
+      );
+      dishesToSync = fetchedDishes.filter(d => !d.production_dish_id);
+      dishesToUpdate = fetchedDishes.filter(d => d.production_dish_id);
+    }
+  }
 
-        syncedVenueIds.push(discoveredVenue.id);
-        if (result.isUpdate) {
-          venuesUpdated++;
-        } else {
-          venuesAdded++;
-        }
-        dishesAdded += result.embeddedDishesCreated;
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
+  if (
+    venuesToSync.length === 0 &&
+    dishesToSync.length === 0 &&
+    venuesToUpdate.length === 0 &&
+    dishesToUpdate.length === 0
+  ) {
+    return {
+      success: true,
+      message: 'No entities to sync',
+      synced: { venues: 0, dishes: 0 },
+    };
+  }
+
+  const db = getFirestore();
+  const errors: SyncErrorRecord[] = [];
+  const syncedVenueIds: string[] = [];
+  const syncedDishIds: string[] = [];
+  let venuesAdded = 0;
+  let venuesUpdated = 0;
+  let dishesAdded = 0;
+
+  // Sync venues (including their embedded dishes)
+  let skippedForValidation = 0;
+  for (const discoveredVenue of venuesToSync) {
+    // Validate address completeness unless explicitly skipped
+    if (!skipAddressValidation) {
+      const addressValidation = validateVenueAddress(discoveredVenue);
+      if (!addressValidation.valid) {
+        const errorMsg = `Address validation failed: ${addressValidation.errors.join(', ')}`;
+        console.warn(`[Sync] Skipping venue "${discoveredVenue.name}": ${errorMsg}`);
         errors.push({
           entityId: discoveredVenue.id,
           entityType: 'venue',
           error: errorMsg,
         });
-        console.error(`Failed to sync venue ${discoveredVenue.name}:`, errorMsg);
+        skippedForValidation++;
+        continue; // Skip to next venue
       }
     }
 
-    // Sync dishes - need to look up production venue ID for each dish
-    for (const discoveredDish of dishesToSync) {
-      try {
-        // Look up the discovered venue to get the production venue ID
-        const discoveredVenue = await discoveredVenues.getById(discoveredDish.venue_id);
-        const productionVenueId = discoveredVenue?.production_venue_id;
-
-        if (!productionVenueId) {
-          // Skip dish - its venue hasn't been promoted yet
-          errors.push({
-            entityId: discoveredDish.id,
-            entityType: 'dish',
-            error: `Venue ${discoveredDish.venue_id} not yet promoted to production`,
+    try {
+      // Check if venue already exists in production
+      const existingVenue = await findExistingProductionVenue(db, discoveredVenue);
+      const region = await lookupRegion(discoveredVenue.address);
+
+      // Use a transaction to ensure atomicity
+      const result = await db.runTransaction(async (transaction) => {
+        let venueRef: FirebaseFirestore.DocumentReference;
+        let isUpdate = false;
+
+        if (existingVenue) {
+          // Update existing venue
+          venueRef = db.collection('venues').doc(existingVenue.id);
+          isUpdate = true;
+
+          // Merge delivery platforms (keep existing + add new)
+          const existingDoc = await transaction.get(venueRef);
+          const existingData = existingDoc.data() as {
+            address?: { region?: string };
+            delivery_platforms?: Array<{ platform: string; url: string }>;
+          } | undefined;
+
+          const existingUrls = new Set(
+            (existingData?.delivery_platforms || []).map(p => p.url.toLowerCase())
+          );
+
+          const mergedPlatforms = [
+            ...(existingData?.delivery_platforms || []),
+            ...discoveredVenue.delivery_platforms
+              .filter(p => !existingUrls.has(p.url.toLowerCase()))
+              .map(p => ({
+                platform: p.platform,
+                url: p.url,
+                venue_id: p.venue_id_on_platform,
+              })),
+          ];
+
+          transaction.update(venueRef, {
+            name: discoveredVenue.name,
+            chain_id: discoveredVenue.chain_id || null,
+            address: {
+              street: discoveredVenue.address.street,
+              city: discoveredVenue.address.city,
+              postal_code: discoveredVenue.address.postal_code,
+              country: discoveredVenue.address.country,
+              // Keep a region set by an admin when the postal code gives none
+              region: region ?? existingData?.address?.region,
+            },
+            location: discoveredVenue.coordinates ? {
+              latitude: discoveredVenue.coordinates.latitude,
+              longitude: discoveredVenue.coordinates.longitude,
+            } : undefined,
+            geohash: discoveredVenue.coordinates
+              ? encodeGeohash(discoveredVenue.coordinates)
+              : undefined,
+            delivery_platforms: mergedPlatforms,
+            last_verified: new Date(),
+            updated_at: new Date(),
           });
-          console.warn(`Skipping dish ${discoveredDish.name}: venue not yet promoted`);
-          continue;
-        }
 
-        // Use a transaction to ensure atomicity
-        await db.runTransaction(async (transaction) => {
-          // Create production dish with correct schema
-          const dishRef = db.collection('dishes').doc();
-          const productionDish = {
-            venue_id: productionVenueId,  // Use production venue ID, not discovered venue ID
-            name: discoveredDish.name,
-            description: discoveredDish.description || '',
-            planted_products: [discoveredDish.planted_product || 'planted.chicken'],
-            price: parsePriceFromCountryMap(discoveredDish.price_by_country),
-            dietary_tags: discoveredDish.dietary_tags || [],
-            cuisine_type: discoveredDish.category || undefined,
-            availability: { type: 'permanent' as const },
-            image_url: discoveredDish.image_url || undefined,
+          console.log(`[Sync] Updated existing venue: ${discoveredVenue.name} (${venueRef.id})`);
+        } else {
+          // Create new production venue
+          venueRef = db.collection('venues').doc();
+          const productionVenue = {
+            type: 'restaurant' as const,
+            name: discoveredVenue.name,
+            chain_id: discoveredVenue.chain_id,
+            address: {
+              street: discoveredVenue.address.street,
+              city: discoveredVenue.address.city,
+              postal_code: discoveredVenue.address.postal_code,
+              country: discoveredVenue.address.country,
+              region: region ?? undefined,
+            },
+            location: discoveredVenue.coordinates ? {
+              latitude: discoveredVenue.coordinates.latitude,
+              longitude: discoveredVenue.coordinates.longitude,
+            } : { latitude: 0, longitude: 0 },
+            geohash: encodeGeohash(discoveredVenue.coordinates || { latitude: 0, longitude: 0 }),
+            opening_hours: {
+              monday: { open: '11:00', close: '22:00' },
+              tuesday: { open: '11:00', close: '22:00' },
+              wednesday: { open: '11:00', close: '22:00' },
+              thursday: { open: '11:00', close: '22:00' },
+              friday: { open: '11:00', close: '22:00' },
+              saturday: { open: '11:00', close: '22:00' },
+              sunday: { open: '11:00', close: '22:00' },
+            },
+            delivery_platforms: discoveredVenue.delivery_platforms.map(p => ({
+              platform: p.platform,
+              url: p.url,
+              venue_id: p.venue_id_on_platform,
+            })),
             source: {
               type: 'discovered' as const,
               partner_id: 'smart-discovery-agent',
@@ -479,100 +564,291 @@ export const adminSyncExecuteHandler = createAdminHandler(
             updated_at: new Date(),
           };
 
-          transaction.set(dishRef, productionDish);
+          transaction.set(venueRef, productionVenue);
+          console.log(`[Sync] Created new venue: ${discoveredVenue.name} (${venueRef.id})`);
+        }
+
+        // Get existing dishes for this venue to avoid duplicates
+        const existingDishesSnapshot = await db
+          .collection('dishes')
+          .where('venue_id', '==', venueRef.id)
+          .get();
+        const existingDishNames = new Set(
+          existingDishesSnapshot.docs.map(d =>
+            (d.data().name as string || '').toLowerCase().trim()
+          )
+        );
 
-          // Update discovered dish to mark as promoted
-          const discoveredDishRef = db.collection('discovered_dishes').doc(discoveredDish.id);
-          transaction.update(discoveredDishRef, {
-            status: 'promoted',
-            production_dish_id: dishRef.id,
-            promoted_at: new Date(),
-            updated_at: new Date(),
-          });
+        // Create production dishes from embedded dishes array (skip duplicates)
+        let embeddedDishesCreated = 0;
+        if (discoveredVenue.dishes && discoveredVenue.dishes.length > 0) {
+          for (const embeddedDish of discoveredVenue.dishes) {
+            const normalizedName = embeddedDish.name.toLowerCase().trim();
+
+            // Skip if dish already exists
+            if (existingDishNames.has(normalizedName)) {
+              continue;
+            }
+
+            const dishRef = db.collection('dishes').doc();
+            const productionDish = buildProductionDish(
+              venueRef.id,
+              embeddedDishFields(embeddedDish as EmbeddedDish)
+            );
+            transaction.set(dishRef, productionDish);
+            existingDishNames.add(normalizedName);
+            embeddedDishesCreated++;
+          }
+        }
+
+        // Update discovered venue to mark as promoted
+        const discoveredVenueRef = db.collection('discovered_venues').doc(discoveredVenue.id);
+        transaction.update(discoveredVenueRef, {
+          status: 'promoted',
+          production_venue_id: venueRef.id,
+          promoted_at: new Date(),
+          updated_at: new Date(),
         });
 
-        syncedDishIds.push(discoveredDish.id);
-        dishesAdded++;
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
+        return { embeddedDishesCreated, isUpdate };
+      });
+
+      syncedVenueIds.push(discoveredVenue.id);
+      if (result.isUpdate) {
+        venuesUpdated++;
+      } else {
+        venuesAdded++;
+      }
+      dishesAdded += result.embeddedDishesCreated;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push({
+        entityId: discoveredVenue.id,
+        entityType: 'venue',
+        error: errorMsg,
+      });
+      console.error(`Failed to sync venue ${discoveredVenue.name}:`, errorMsg);
+      if (queueFailures) {
+        await queueSyncFailure('venue', discoveredVenue.id, discoveredVenue.id, 'add', error);
+      }
+    }
+  }
+
+  // Sync dishes - need to look up production venue ID for each dish
+  for (const discoveredDish of dishesToSync) {
+    try {
+      // Look up the discovered venue to get the production venue ID
+      const discoveredVenue = await discoveredVenues.getById(discoveredDish.venue_id);
+      const productionVenueId = discoveredVenue?.production_venue_id;
+
+      if (!productionVenueId) {
+        // Skip dish - its venue hasn't been promoted yet
         errors.push({
           entityId: discoveredDish.id,
           entityType: 'dish',
-          error: errorMsg,
+          error: `Venue ${discoveredDish.venue_id} not yet promoted to production`,
         });
-        console.error(`Failed to sync dish ${discoveredDish.name}:`, errorMsg);
+        console.warn(`Skipping dish ${discoveredDish.name}: venue not yet promoted`);
+        continue;
+      }
+
+      // Use a transaction to ensure atomicity
+      await db.runTransaction(async (transaction) => {
+        // Create production dish with correct schema
+        const dishRef = db.collection('dishes').doc();
+        // Use production venue ID, not discovered venue ID
+        const productionDish = buildProductionDish(productionVenueId, extractedDishFields(discoveredDish));
+
+        transaction.set(dishRef, productionDish);
+
+        // Update discovered dish to mark as promoted
+        const discoveredDishRef = db.collection('discovered_dishes').doc(discoveredDish.id);
+        transaction.update(discoveredDishRef, {
+          status: 'promoted',
+          production_dish_id: dishRef.id,
+          promoted_at: new Date(),
+          updated_at: new Date(),
+        });
+      });
+
+      syncedDishIds.push(discoveredDish.id);
+      dishesAdded++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push({
+        entityId: discoveredDish.id,
+        entityType: 'dish',
+        error: errorMsg,
+      });
+      console.error(`Failed to sync dish ${discoveredDish.name}:`, errorMsg);
+      if (queueFailures) {
+        await queueSyncFailure('dish', discoveredDish.id, discoveredDish.venue_id, 'add', error);
       }
     }
+  }
 
-    // Record sync in history
-    const userId = req.user?.uid || 'unknown';
-    await syncHistory.recordSync(
-      userId,
-      syncedVenueIds,
-      syncedDishIds,
-      {
-        venuesAdded,
-        venuesUpdated,
-        dishesAdded,
-        dishesUpdated: 0,
-        errors: errors.length,
-      },
-      errors.length > 0 ? errors : undefined
-    );
+  // Apply updates to re-verified venues and dishes already in production
+  const appliedUpdates: AppliedUpdate[] = [];
+  let dishesUpdated = 0;
 
-    // Log to changelog
+  for (const discoveredVenue of venuesToUpdate) {
+    try {
+      const result = await applyVenueUpdate(db, discoveredVenue);
+      appliedUpdates.push(...result.applied);
+      syncedVenueIds.push(discoveredVenue.id);
+      venuesUpdated++;
+      dishesUpdated += result.applied.filter(a => a.collection === 'dishes').length;
+      dishesAdded += result.dishesAdded;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push({
+        entityId: discoveredVenue.id,
+        entityType: 'venue',
+        error: errorMsg,
+      });
+      console.error(`Failed to update venue ${discoveredVenue.name}:`, errorMsg);
+      if (queueFailures) {
+        await queueSyncFailure('venue', discoveredVenue.id, discoveredVenue.id, 'update', error);
+      }
+    }
+  }
+
+  for (const discoveredDish of dishesToUpdate) {
+    try {
+      const applied = await applyDishUpdate(db, discoveredDish);
+      if (applied) appliedUpdates.push(applied);
+      syncedDishIds.push(discoveredDish.id);
+      dishesUpdated++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push({
+        entityId: discoveredDish.id,
+        entityType: 'dish',
+        error: errorMsg,
+      });
+      console.error(`Failed to update dish ${discoveredDish.name}:`, errorMsg);
+      if (queueFailures) {
+        await queueSyncFailure('dish', discoveredDish.id, discoveredDish.venue_id, 'update', error);
+      }
+    }
+  }
+
+  // One changelog entry per updated production document
+  for (const update of appliedUpdates) {
     try {
       await changeLogs.log({
-        action: 'created',
-        collection: 'sync_operations',
-        document_id: `sync_${Date.now()}`,
-        changes: [
-          {
-            field: 'venues_synced',
-            before: null,
-            after: venuesAdded
-          },
-          {
-            field: 'dishes_synced',
-            before: null,
-            after: dishesAdded
-          },
-        ],
+        action: 'updated',
+        collection: update.collection,
+        document_id: update.productionId,
+        changes: toFieldChanges(update.diffs),
         source: { type: 'manual', user_id: userId },
-        reason: `Admin sync: ${venuesAdded} venues, ${dishesAdded} dishes`,
+        reason: `Admin sync: re-verified ${update.collection === 'venues' ? 'venue' : 'dish'} "${update.name}"`,
       });
     } catch (e) {
-      console.warn('Failed to log sync to changelog:', e);
+      console.warn('Failed to log update to changelog:', e);
     }
+  }
 
-    res.json({
-      success: true,
-      message: `Successfully synced ${venuesAdded + venuesUpdated} venues (${venuesAdded} new, ${venuesUpdated} updated) and ${dishesAdded} dishes`,
-      synced: {
+  // Record sync in history
+  await syncHistory.recordSync(
+    userId,
+    syncedVenueIds,
+    syncedDishIds,
+    {
+      venuesAdded,
+      venuesUpdated,
+      dishesAdded,
+      dishesUpdated,
+      errors: errors.length,
+    },
+    errors.length > 0 ? errors : undefined
+  );
+
+  // Log to changelog
+  try {
+    await changeLogs.log({
+      action: 'created',
+      collection: 'sync_operations',
+      document_id: `sync_${Date.now()}`,
+      changes: [
+        {
+          field: 'venues_synced',
+          before: null,
+          after: venuesAdded
+        },
+        {
+          field: 'dishes_synced',
+          before: null,
+          after: dishesAdded
+        },
+        {
+          field: 'venues_updated',
+          before: null,
+          after: venuesUpdated
+        },
+        {
+          field: 'dishes_updated',
+          before: null,
+          after: dishesUpdated
+        },
+      ],
+      source: { type: 'manual', user_id: userId },
+      reason: `Admin sync: ${venuesAdded} venues, ${dishesAdded} dishes added; ${venuesUpdated} venues, ${dishesUpdated} dishes updated`,
+    });
+  } catch (e) {
+    console.warn('Failed to log sync to changelog:', e);
+  }
+
+  return {
+    success: true,
+    message: `Successfully synced ${venuesAdded + venuesUpdated} venues (${venuesAdded} new, ${venuesUpdated} updated) and ${dishesAdded + dishesUpdated} dishes (${dishesAdded} new, ${dishesUpdated} updated)`,
+    synced: {
+      venues: venuesAdded + venuesUpdated,
+      venuesAdded,
+      venuesUpdated,
+      dishes: dishesAdded + dishesUpdated,
+      dishesAdded,
+      dishesUpdated,
+    },
+    errors: errors.length > 0 ? errors : undefined,
+    stats: {
+      requested: {
+        venues: venuesToSync.length + venuesToUpdate.length,
+        dishes: dishesToSync.length + dishesToUpdate.length,
+      },
+      successful: {
         venues: venuesAdded + venuesUpdated,
         venuesAdded,
         venuesUpdated,
-        dishes: dishesAdded,
+        dishes: dishesAdded + dishesUpdated,
+        dishesAdded,
+        dishesUpdated,
       },
-      errors: errors.length > 0 ? errors : undefined,
-      stats: {
-        requested: {
-          venues: venuesToSync.length,
-          dishes: dishesToSync.length,
-        },
-        successful: {
-          venues: venuesAdded + venuesUpdated,
-          venuesAdded,
-          venuesUpdated,
-          dishes: dishesAdded,
-        },
-        failed: {
-          venues: venuesToSync.length - venuesAdded - venuesUpdated,
-          dishes: dishesToSync.length - dishesAdded,
-        },
-        skippedForValidation,
+      failed: {
+        venues: errors.filter(e => e.entityType === 'venue').length,
+        dishes: errors.filter(e => e.entityType === 'dish').length,
       },
-    });
+      skippedForValidation,
+    },
+  };
+}
+
+/**
+ * Handler for POST /admin/sync/execute
+ */
+export const adminSyncExecuteHandler = createAdminHandler(
+  async (req, res) => {
+    // Validate request body
+    const validation = syncExecuteBodySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    res.json(await executeSync(validation.data, req.user?.uid || 'unknown'));
   },
   {
     allowedMethods: ['POST'],
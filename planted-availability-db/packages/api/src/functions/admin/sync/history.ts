@@ -5,29 +5,23 @@
  * Returns paginated sync history records with details about each sync operation
  */
 
-import { z } from 'zod';
 import {
   initializeFirestore,
   syncHistory,
 } from '@pad/database';
+import { syncHistoryQuerySchema } from '@pad/core';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 
 // Initialize Firestore
 initializeFirestore();
 
-// Validation schema for query parameters
-const historyQuerySchema = z.object({
-  limit: z.string().transform(Number).optional().default('50'),
-  cursor: z.string().optional(),
-});
-
 /**
  * Handler for GET /admin/sync/history
  */
 export const adminSyncHistoryHandler = createAdminHandler(
   async (req, res) => {
     // Validate query parameters
-    const validation = historyQuerySchema.safeParse(req.query);
+    const validation = syncHistoryQuerySchema.safeParse(req.query);
     if (!validation.success) {
       res.status(400).json({
         error: 'Invalid query parameters',
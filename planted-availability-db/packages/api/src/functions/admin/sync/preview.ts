@@ -4,7 +4,7 @@
  *
  * Compares verified discovered entities with production and returns a diff:
  * - New venues/dishes to add
- * - Existing venues/dishes with updates
+ * - Existing venues/dishes with updates (field-level diffs against production)
  * - Stale production items that may need removal
  */
 
@@ -13,9 +13,18 @@ import {
   discoveredVenues,
   discoveredDishes,
   venues,
+  dishes,
 } from '@pad/database';
 import { createAdminHandler } from '../../../middleware/adminHandler.js';
 import type { SupportedCountry } from '@pad/core';
+import {
+  diffVenue,
+  diffDish,
+  diffEmbeddedDishes,
+  extractedDishFields,
+  type FieldDiff,
+  type DishDiff,
+} from './changes.js';
 
 // Initialize Firestore
 initializeFirestore();
@@ -47,14 +56,25 @@ interface VenueUpdate {
   id: string;
   productionId: string;
   name: string;
+  city: string;
+  country: SupportedCountry;
+  /** Changed field names */
   changes: string[];
+  diff: FieldDiff[];
+  dishDiffs: DishDiff[];
+  verifiedAt: Date;
 }
 
 interface DishUpdate {
   id: string;
   productionId: string;
+  venueId: string;
+  venueName: string;
   name: string;
+  /** Changed field names */
   changes: string[];
+  diff: FieldDiff[];
+  verifiedAt?: Date;
 }
 
 /**
@@ -115,10 +135,60 @@ export const adminSyncPreviewHandler = createAdminHandler(
       verifiedAt: dish.verified_at,
     }));
 
-    // TODO: Implement update detection
-    // For now, we'll return empty arrays for updates
+    // Detect updates: re-verified entities that are already in production
+    const reverifiedVenues = verifiedVenues.filter(v => v.production_venue_id);
+    const reverifiedDishes = verifiedDishes.filter(d => d.production_dish_id);
+
+    const productionVenueIds = reverifiedVenues.map(v => v.production_venue_id!);
+    const [productionVenues, productionDishes, dishesByVenue] = await Promise.all([
+      venues.getByIds(productionVenueIds),
+      dishes.getByIds(reverifiedDishes.map(d => d.production_dish_id!)),
+      dishes.getByVenues(productionVenueIds, false),
+    ]);
+    const productionVenueById = new Map(productionVenues.map(v => [v.id, v]));
+    const productionDishById = new Map(productionDishes.map(d => [d.id, d]));
+
     const venueUpdates: VenueUpdate[] = [];
+    for (const venue of reverifiedVenues) {
+      const production = productionVenueById.get(venue.production_venue_id!);
+      if (!production) continue;
+
+      const diff = diffVenue(venue, production);
+      const dishDiffs = diffEmbeddedDishes(venue, dishesByVenue.get(production.id) || []);
+      if (diff.length === 0 && dishDiffs.length === 0) continue;
+
+      venueUpdates.push({
+        id: venue.id,
+        productionId: production.id,
+        name: venue.name,
+        city: venue.address.city,
+        country: venue.address.country,
+        changes: diff.map(d => d.field),
+        diff,
+        dishDiffs,
+        verifiedAt: venue.verified_at || venue.created_at,
+      });
+    }
+
     const dishUpdates: DishUpdate[] = [];
+    for (const dish of reverifiedDishes) {
+      const production = productionDishById.get(dish.production_dish_id!);
+      if (!production) continue;
+
+      const diff = diffDish(extractedDishFields(dish), production);
+      if (diff.length === 0) continue;
+
+      dishUpdates.push({
+        id: dish.id,
+        productionId: production.id,
+        venueId: dish.venue_id,
+        venueName: dish.venue_name,
+        name: dish.name,
+        changes: diff.map(d => d.field),
+        diff,
+        verifiedAt: dish.verified_at,
+      });
+    }
 
     // Get stale production venues for potential removal
     // Wrap in try-catch to prevent failure if index doesn't exist
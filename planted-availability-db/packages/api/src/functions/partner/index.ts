@@ -1,28 +1,36 @@
 /**
  * Partner Ingestion API
  *
- * Endpoints for partners to submit data via webhooks.
+ * Endpoints for partners to submit data via webhooks or file uploads.
  * All endpoints require partner API key authentication.
  */
 
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
-import { z } from 'zod';
-import {
-  initializeFirestore,
-  ingestionBatches,
-  stagedVenues,
-  stagedDishes,
-  stagedPromotions,
-  stagedAvailability,
-} from '@pad/database';
-import type { CreateStagedVenueInput } from '@pad/database';
+import { initializeFirestore, ingestionBatches } from '@pad/database';
 import {
   verifyPartnerApiKey,
   verifyWebhookSignature,
   requireEntityPermission,
   type PartnerAuthenticatedRequest,
 } from '../../middleware/partnerAuth.js';
+import {
+  countPayloadRecords,
+  stagePayload,
+  completeStagedBatch,
+  type StagedIds,
+  type BatchCompletion,
+} from '../../services/partnerIngestion.js';
+import { getPartnerTransformer, runTransformer } from '../../services/transformers/index.js';
+import {
+  inferFileType,
+  readSpreadsheet,
+  mapRows,
+  storeRawFile,
+  XlsxError,
+} from '../../services/fileIngestion/index.js';
+import { notifyBatchStatusChanged } from '../../services/partnerCallbacks.js';
+import { fileUploadSchema, toValidationErrors, MAX_FILE_ROWS, type WebhookPayload } from '../../schemas/partner.js';
 
 // Initialize Firestore
 initializeFirestore();
@@ -33,115 +41,6 @@ const functionOptions: HttpsOptions = {
   invoker: 'public',
 };
 
-// Maximum items per request
-const MAX_ITEMS = 100;
-
-// Validation schemas for incoming data
-const venueDataSchema = z.object({
-  external_id: z.string().max(100).optional(),
-  type: z.enum(['restaurant', 'cafe', 'bar', 'food_truck', 'canteen', 'catering', 'retail', 'other']),
-  name: z.string().min(1).max(200),
-  chain_id: z.string().optional(),
-  address: z.object({
-    street: z.string().min(1).max(200),
-    city: z.string().min(1).max(100),
-    postal_code: z.string().min(1).max(20),
-    country: z.string().length(2),
-    raw_address: z.string().optional(),
-  }),
-  coordinates: z
-    .object({
-      lat: z.number().min(-90).max(90),
-      lng: z.number().min(-180).max(180),
-    })
-    .optional(),
-  opening_hours: z.record(z.array(z.object({ open: z.string(), close: z.string() }))).optional(),
-  contact: z
-    .object({
-      phone: z.string().optional(),
-      email: z.string().email().optional(),
-      website: z.string().url().optional(),
-    })
-    .optional(),
-  delivery_partners: z.array(z.string()).optional(),
-  metadata: z.record(z.unknown()).optional(),
-});
-
-const dishDataSchema = z.object({
-  external_id: z.string().max(100).optional(),
-  venue_external_id: z.string().max(100).optional(),
-  name: z.string().min(1).max(200),
-  name_localized: z.record(z.string()).optional(),
-  description: z.string().max(1000),
-  description_localized: z.record(z.string()).optional(),
-  planted_products: z.array(z.string()).optional(),
-  product_text: z.string().optional(), // Raw text for product mapping
-  price: z.object({
-    amount: z.number().positive(),
-    currency: z.string().length(3),
-  }),
-  image_url: z.string().url().optional(),
-  dietary_tags: z.array(z.string()).default([]),
-  cuisine_type: z.string().optional(),
-  availability: z
-    .object({
-      type: z.enum(['permanent', 'limited', 'seasonal']),
-      start_date: z.string().optional(),
-      end_date: z.string().optional(),
-      days_available: z.array(z.string()).optional(),
-    })
-    .default({ type: 'permanent' }),
-  metadata: z.record(z.unknown()).optional(),
-});
-
-const promotionDataSchema = z.object({
-  external_id: z.string().max(100).optional(),
-  venue_external_id: z.string().max(100).optional(),
-  chain_id: z.string().optional(),
-  promo_type: z.enum(['discount', 'bundle', 'loyalty', 'launch', 'seasonal', 'limited_time']),
-  title: z.string().min(1).max(200),
-  description: z.string().max(1000).optional(),
-  product_skus: z.array(z.string()).default([]),
-  discount: z
-    .object({
-      type: z.enum(['percent', 'fixed']),
-      value: z.number().positive(),
-    })
-    .optional(),
-  image_url: z.string().url().optional(),
-  valid_from: z.string(),
-  valid_until: z.string(),
-  terms: z.string().max(2000).optional(),
-  metadata: z.record(z.unknown()).optional(),
-});
-
-const availabilityDataSchema = z.object({
-  external_id: z.string().max(100).optional(),
-  venue_external_id: z.string().max(100).optional(),
-  product_sku: z.string().min(1).max(50),
-  in_stock: z.boolean(),
-  price: z
-    .object({
-      regular: z.number().positive(),
-      sale: z.number().positive().optional(),
-      currency: z.string().length(3),
-    })
-    .optional(),
-  promotion_ref: z.string().optional(),
-  shelf_location: z.string().optional(),
-  verified_at: z.string().optional(),
-  metadata: z.record(z.unknown()).optional(),
-});
-
-const webhookPayloadSchema = z.object({
-  type: z.enum(['venue_update', 'menu_update', 'promotion', 'availability']),
-  idempotency_key: z.string().max(100).optional(),
-  venues: z.array(venueDataSchema).max(MAX_ITEMS).optional(),
-  dishes: z.array(dishDataSchema).max(MAX_ITEMS).optional(),
-  promotions: z.array(promotionDataSchema).max(MAX_ITEMS).optional(),
-  availability: z.array(availabilityDataSchema).max(MAX_ITEMS).optional(),
-});
-
 /**
  * Helper to wrap partner handlers with authentication
  */
@@ -170,6 +69,31 @@ async function withPartnerAuth(
   await handler(req as PartnerAuthenticatedRequest, res);
 }
 
+/**
+ * Staging stats and IDs for ingestion responses
+ */
+function countStaged(staged: StagedIds): number {
+  return (
+    staged.venues.length + staged.dishes.length + staged.promotions.length + staged.availability.length
+  );
+}
+
+function stagingSummary(staged: StagedIds, completion: BatchCompletion) {
+  return {
+    stats: {
+      venues: staged.venues.length,
+      dishes: staged.dishes.length,
+      promotions: staged.promotions.length,
+      availability: staged.availability.length,
+      total: countStaged(staged),
+      auto_approved: completion.scoring.auto_approved,
+      needs_review: completion.scoring.needs_review,
+      promoted: completion.promoted,
+    },
+    staged_ids: staged,
+  };
+}
+
 /**
  * Partner Webhook Endpoint
  *
@@ -194,18 +118,29 @@ export const partnerWebhookHandler = onRequest(functionOptions, async (req: Requ
 
         const partner = authReq.partner!;
 
-        // Validate payload
-        const validation = webhookPayloadSchema.safeParse(authReq.body);
-        if (!validation.success) {
+        // Map the partner's format onto the standard payload, then validate
+        const transformer = getPartnerTransformer(partner);
+        if (!transformer) {
+          authRes.status(400).json({
+            error: 'No transformer configured for partner',
+            code: 'UNKNOWN_TRANSFORMER',
+            message: `Transformer '${partner.config.transformer_id ?? ''}' is not registered`,
+          });
+          return;
+        }
+
+        const transformed = runTransformer(transformer, authReq.body);
+        if (!transformed.payload) {
           authRes.status(400).json({
             error: 'Validation failed',
             code: 'INVALID_PAYLOAD',
-            details: validation.error.errors,
+            transformer_version: transformed.transformer_version,
+            details: transformed.errors,
           });
           return;
         }
 
-        const payload = validation.data;
+        const payload = transformed.payload;
 
         // Check idempotency
         const idempotencyKey =
@@ -227,11 +162,7 @@ export const partnerWebhookHandler = onRequest(functionOptions, async (req: Requ
         }
 
         // Count total records
-        const recordCount =
-          (payload.venues?.length || 0) +
-          (payload.dishes?.length || 0) +
-          (payload.promotions?.length || 0) +
-          (payload.availability?.length || 0);
+        const recordCount = countPayloadRecords(payload);
 
         if (recordCount === 0) {
           authRes.status(400).json({
@@ -255,160 +186,21 @@ export const partnerWebhookHandler = onRequest(functionOptions, async (req: Requ
         });
 
         // Start processing
-        await ingestionBatches.startProcessing(batch.id, 'v1.0');
-
-        // Process venues
-        const stagedVenueIds: string[] = [];
-        if (payload.venues && payload.venues.length > 0) {
-          const venueInputs: CreateStagedVenueInput[] = payload.venues.map((v) => ({
-            batch_id: batch.id,
-            partner_id: partner.id,
-            external_id: v.external_id,
-            data: {
-              type: v.type,
-              name: v.name,
-              chain_id: v.chain_id,
-              address: v.address,
-              opening_hours: v.opening_hours
-                ? { regular: v.opening_hours }
-                : undefined,
-              contact: v.contact,
-              delivery_partners: v.delivery_partners,
-              metadata: v.metadata,
-            },
-            original_coordinates: v.coordinates,
-          }));
-
-          const createdVenues = await stagedVenues.createBatch(venueInputs);
-          stagedVenueIds.push(...createdVenues.map((v) => v.id));
-        }
-
-        // Process dishes
-        const stagedDishIds: string[] = [];
-        if (payload.dishes && payload.dishes.length > 0) {
-          const dishInputs = payload.dishes.map((d) => ({
-            batch_id: batch.id,
-            partner_id: partner.id,
-            external_id: d.external_id,
-            venue_external_id: d.venue_external_id,
-            data: {
-              name: d.name,
-              name_localized: d.name_localized,
-              description: d.description,
-              description_localized: d.description_localized,
-              planted_products: d.planted_products || [],
-              price: d.price,
-              image_url: d.image_url,
-              dietary_tags: d.dietary_tags,
-              cuisine_type: d.cuisine_type,
-              availability: {
-                type: d.availability.type,
-                start_date: d.availability.start_date ? new Date(d.availability.start_date) : undefined,
-                end_date: d.availability.end_date ? new Date(d.availability.end_date) : undefined,
-                days_available: d.availability.days_available,
-              },
-              metadata: d.metadata,
-            },
-            product_mapping: d.product_text
-              ? {
-                  auto_mapped: false,
-                  mapping_method: 'manual' as const,
-                  mapping_confidence: 0,
-                  original_product_text: d.product_text,
-                }
-              : undefined,
-          }));
-
-          const createdDishes = await stagedDishes.createBatch(dishInputs);
-          stagedDishIds.push(...createdDishes.map((d) => d.id));
-        }
+        await ingestionBatches.startProcessing(batch.id, transformed.transformer_version);
 
-        // Process promotions
-        const stagedPromotionIds: string[] = [];
-        if (payload.promotions && payload.promotions.length > 0) {
-          const promotionInputs = payload.promotions.map((p) => ({
-            batch_id: batch.id,
-            partner_id: partner.id,
-            external_id: p.external_id,
-            chain_id: p.chain_id,
-            data: {
-              promo_type: p.promo_type,
-              title: p.title,
-              description: p.description,
-              product_skus: p.product_skus,
-              discount: p.discount,
-              image_url: p.image_url,
-              valid_from: new Date(p.valid_from),
-              valid_until: new Date(p.valid_until),
-              terms: p.terms,
-              metadata: p.metadata,
-            },
-          }));
-
-          const createdPromotions = await stagedPromotions.createBatch(promotionInputs);
-          stagedPromotionIds.push(...createdPromotions.map((p) => p.id));
-        }
-
-        // Process availability
-        const stagedAvailabilityIds: string[] = [];
-        if (payload.availability && payload.availability.length > 0) {
-          const availabilityInputs = payload.availability.map((a) => ({
-            batch_id: batch.id,
-            partner_id: partner.id,
-            external_id: a.external_id,
-            data: {
-              product_sku: a.product_sku,
-              in_stock: a.in_stock,
-              price: a.price,
-              promotion_ref: a.promotion_ref,
-              shelf_location: a.shelf_location,
-              verified_at: a.verified_at ? new Date(a.verified_at) : undefined,
-              metadata: a.metadata,
-            },
-          }));
-
-          const createdAvailability = await stagedAvailability.createBatch(availabilityInputs);
-          stagedAvailabilityIds.push(...createdAvailability.map((a) => a.id));
-        }
-
-        // Update batch with staging results
-        const totalStaged =
-          stagedVenueIds.length +
-          stagedDishIds.length +
-          stagedPromotionIds.length +
-          stagedAvailabilityIds.length;
-
-        await ingestionBatches.recordStaging(batch.id, {
-          staged: totalStaged,
-        });
-
-        // Determine if review is needed based on partner config
-        const requiresReview =
-          partner.config.requires_manual_review ||
-          partner.quality_metrics.data_quality_score < partner.config.auto_approve_threshold;
-
-        await ingestionBatches.completeProcessing(batch.id, {
-          status: requiresReview ? 'pending_review' : 'approved',
-          requiresReview,
+        const staged = await stagePayload(batch.id, partner.id, payload);
+        const completion = await completeStagedBatch(batch.id, partner, {
+          staged: countStaged(staged),
+          warnings: transformed.warnings,
         });
 
         authRes.status(202).json({
           message: 'Data received and staged for processing',
           batch_id: batch.id,
-          status: requiresReview ? 'pending_review' : 'approved',
-          stats: {
-            venues: stagedVenueIds.length,
-            dishes: stagedDishIds.length,
-            promotions: stagedPromotionIds.length,
-            availability: stagedAvailabilityIds.length,
-            total: totalStaged,
-          },
-          staged_ids: {
-            venues: stagedVenueIds,
-            dishes: stagedDishIds,
-            promotions: stagedPromotionIds,
-            availability: stagedAvailabilityIds,
-          },
+          status: completion.status,
+          transformer_version: transformed.transformer_version,
+          warnings: transformed.warnings,
+          ...stagingSummary(staged, completion),
         });
       } catch (error) {
         console.error('Webhook processing error:', error);
@@ -423,6 +215,191 @@ export const partnerWebhookHandler = onRequest(functionOptions, async (req: Requ
   );
 });
 
+/**
+ * Partner File Upload Endpoint
+ *
+ * POST /partner/upload - Submit a CSV or XLSX spreadsheet of venues or dishes
+ *
+ * Headers:
+ *   - Authorization: Bearer pad_live_xxxxx
+ *   - X-Idempotency-Key: Unique key to prevent duplicate processing
+ *
+ * Body (JSON):
+ *   - file_name, file_type? ('csv' | 'xlsx'), content_base64 (at most MAX_FILE_BYTES decoded)
+ *   - mapping: { entity_type, columns: { <field>: <column header> }, defaults?, sheet?, header_row? }
+ *
+ * Each data row becomes one staged record. Rows that fail validation are
+ * reported as ValidationErrors with the spreadsheet row number; the rest
+ * are staged.
+ */
+export const partnerUploadHandler = onRequest(functionOptions, async (req: Request, res: Response) => {
+  await withPartnerAuth(req, res, async (authReq, authRes) => {
+    try {
+      if (authReq.method !== 'POST') {
+        authRes.status(405).json({ error: 'Method not allowed' });
+        return;
+      }
+
+      const partner = authReq.partner!;
+
+      const validation = fileUploadSchema.safeParse(authReq.body);
+      if (!validation.success) {
+        authRes.status(400).json({
+          error: 'Validation failed',
+          code: 'INVALID_PAYLOAD',
+          details: toValidationErrors(validation.error, authReq.body),
+        });
+        return;
+      }
+
+      const upload = validation.data;
+      const { mapping } = upload;
+
+      let allowed = false;
+      requireEntityPermission(mapping.entity_type)(authReq, authRes, () => {
+        allowed = true;
+      });
+      if (!allowed) return;
+
+      const fileType = upload.file_type ?? inferFileType(upload.file_name);
+      if (!fileType) {
+        authRes.status(400).json({
+          error: 'Unsupported file type',
+          code: 'UNSUPPORTED_FILE_TYPE',
+          message: 'Only .csv and .xlsx files are supported',
+        });
+        return;
+      }
+
+      // Check idempotency
+      const idempotencyKey =
+        upload.idempotency_key || (authReq.headers['x-idempotency-key'] as string);
+      if (idempotencyKey) {
+        const existingBatch = await ingestionBatches.getByIdempotencyKey(partner.id, idempotencyKey);
+        if (existingBatch) {
+          authRes.status(200).json({
+            message: 'Request already processed',
+            batch_id: existingBatch.id,
+            status: existingBatch.status,
+            idempotent: true,
+          });
+          return;
+        }
+      }
+
+      // Parse and map the spreadsheet
+      const file = Buffer.from(upload.content_base64, 'base64');
+      let mapped;
+      try {
+        const rows = readSpreadsheet(file, fileType, mapping.sheet, mapping.header_row + MAX_FILE_ROWS);
+        mapped = mapRows(rows, mapping);
+      } catch (error) {
+        if (!(error instanceof XlsxError)) throw error;
+        authRes.status(400).json({
+          error: 'Unreadable file',
+          code: 'INVALID_FILE',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (mapped.errors.some((e) => e.record_index === -1)) {
+        authRes.status(400).json({
+          error: 'Column mapping does not match the file',
+          code: 'INVALID_MAPPING',
+          details: mapped.errors,
+        });
+        return;
+      }
+
+      if (mapped.total === 0) {
+        authRes.status(400).json({
+          error: 'No data provided',
+          code: 'EMPTY_PAYLOAD',
+          message: `No data rows found below header row ${mapping.header_row}`,
+        });
+        return;
+      }
+
+      // Keep the original file, then create the batch pointing at it
+      const rawPayloadRef = await storeRawFile(partner.id, upload.file_name, fileType, file);
+
+      const batch = await ingestionBatches.create({
+        partner_id: partner.id,
+        source: {
+          channel: 'file_upload',
+          idempotency_key: idempotencyKey,
+          raw_payload_ref: rawPayloadRef,
+          file_name: upload.file_name,
+          file_type: fileType,
+          ip_address: authReq.ip,
+          user_agent: authReq.headers['user-agent'],
+        },
+        records_received: mapped.total,
+      });
+
+      await ingestionBatches.startProcessing(batch.id);
+
+      const valid = mapped.venues.length + mapped.dishes.length;
+      await ingestionBatches.recordValidation(batch.id, {
+        valid,
+        invalid: mapped.total - valid,
+        errors: mapped.errors,
+      });
+
+      if (valid === 0) {
+        await ingestionBatches.markFailed(batch.id, 'No valid rows in file');
+        await notifyBatchStatusChanged(batch.id, 'transforming');
+
+        authRes.status(400).json({
+          error: 'Validation failed',
+          code: 'INVALID_PAYLOAD',
+          batch_id: batch.id,
+          status: 'failed',
+          details: mapped.errors,
+        });
+        return;
+      }
+
+      // Stage valid rows, remembering where each came from
+      const payload: WebhookPayload = {
+        type: mapping.entity_type === 'venue' ? 'venue_update' : 'menu_update',
+        venues: mapped.venues.map(({ row, record }) => ({
+          ...record,
+          metadata: { ...record.metadata, source_row: row },
+        })),
+        dishes: mapped.dishes.map(({ row, record }) => ({
+          ...record,
+          metadata: { ...record.metadata, source_row: row },
+        })),
+      };
+
+      const staged = await stagePayload(batch.id, partner.id, payload);
+      const completion = await completeStagedBatch(batch.id, partner, { staged: countStaged(staged) });
+
+      authRes.status(202).json({
+        message: 'File received and staged for processing',
+        batch_id: batch.id,
+        status: completion.status,
+        rows: {
+          received: mapped.total,
+          valid,
+          invalid: mapped.total - valid,
+        },
+        errors: mapped.errors,
+        ...stagingSummary(staged, completion),
+      });
+    } catch (error) {
+      console.error('File upload processing error:', error);
+      authRes.status(500).json({
+        error: 'Internal server error',
+        code: 'PROCESSING_ERROR',
+        message: 'Failed to process uploaded file',
+      });
+    }
+  });
+});
+
 /**
  * Partner Status Endpoint
  *
@@ -503,6 +480,7 @@ export const partnerBatchStatusHandler = onRequest(
         processing: {
           started_at: batch.processing.started_at?.toISOString(),
           completed_at: batch.processing.completed_at?.toISOString(),
+          validation_errors: batch.processing.validation_errors,
         },
         review: batch.review
           ? {
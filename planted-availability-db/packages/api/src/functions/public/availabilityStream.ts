@@ -0,0 +1,257 @@
+/**
+ * Realtime Availability Stream (Server-Sent Events)
+ *
+ * Lets the locator keep open/closed state, retail stock and promotions
+ * current without polling. Subscribe to one venue or to a bounding box:
+ *
+ *   GET /api/v1/availability/stream?venue_id=abc
+ *   GET /api/v1/availability/stream?bbox=47.3,8.4,47.45,8.65&product_sku=planted.chicken
+ *
+ * Events:
+ * - init: subscription details
+ * - availability: venue open state, dish and promotion counts (venue mode)
+ * - promotions: current venue and chain promotions (venue mode)
+ * - venues: open state of every venue in the box (bbox mode, first update)
+ * - changes: { updated, removed } venue states since the last event (bbox mode)
+ * - stock: stock of all products (venue mode) or of product_sku at the
+ *   retail venues in the box (bbox mode)
+ * - heartbeat, error
+ * - reconnect: the stream is about to end; EventSource reconnects by itself
+ */
+
+import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
+import type { Request, Response } from 'express';
+import type { Timestamp } from 'firebase-admin/firestore';
+import type { Promotion } from '@pad/core';
+import { initializeFirestore, venues } from '@pad/database';
+import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import {
+  getRealtimeService,
+  diffVenueStatuses,
+  getBoundingBoxDiagonalKm,
+  MAX_BOUNDING_BOX_KM,
+  type AvailabilityStatus,
+  type BoundingBox,
+  type VenueLiveStatus,
+} from '../../services/realtime.js';
+import { availabilityStreamQuerySchema, parseQuery } from '../../schemas/requests.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const functionOptions: HttpsOptions = {
+  region: 'europe-west6',
+  cors: true,
+  invoker: 'public', // Allow unauthenticated access
+  timeoutSeconds: 540, // 9 minutes for SSE
+};
+
+const HEARTBEAT_MS = 15 * 1000;
+
+// End streams before the function timeout so clients reconnect cleanly
+const MAX_STREAM_MS = 500 * 1000;
+
+// Client reconnect delay sent with the init event
+const RECONNECT_DELAY_MS = 3000;
+
+interface PromotionSummary {
+  id: string;
+  title: string;
+  promo_type: Promotion['promo_type'];
+  discount: Promotion['discount'] | null;
+  product_skus: string[];
+  image_url: string | null;
+  valid_from: Date;
+  valid_until: Date;
+  scope: 'venue' | 'chain';
+}
+
+function toPromotionSummary(promotion: Promotion): PromotionSummary {
+  const toDate = (value: Date) => (value as unknown as Timestamp).toDate?.() ?? value;
+  return {
+    id: promotion.id,
+    title: promotion.title,
+    promo_type: promotion.promo_type,
+    discount: promotion.discount ?? null,
+    product_skus: promotion.product_skus ?? [],
+    image_url: promotion.image_url ?? null,
+    valid_from: toDate(promotion.valid_from),
+    valid_until: toDate(promotion.valid_until),
+    scope: promotion.venue_id ? 'venue' : 'chain',
+  };
+}
+
+/**
+ * GET /api/v1/availability/stream
+ *
+ * Query: venue_id, or bbox ("south,west,north,east") with optional type
+ * and product_sku. See the module comment for the events sent.
+ */
+export const availabilityStreamHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const parseResult = parseQuery(req.query, availabilityStreamQuerySchema);
+  if (!parseResult.success) {
+    res.status(400).json({
+      error: 'Bad request',
+      message: 'Invalid query parameters',
+      details: parseResult.error,
+    });
+    return;
+  }
+
+  const query = parseResult.data;
+
+  if (query.bbox && getBoundingBoxDiagonalKm(query.bbox) > MAX_BOUNDING_BOX_KM) {
+    res.status(400).json({
+      error: 'Bad request',
+      message: `bbox is too large (max ${MAX_BOUNDING_BOX_KM} km diagonal)`,
+    });
+    return;
+  }
+
+  let chainId: string | undefined;
+  if (query.venue_id) {
+    try {
+      const venue = await venues.getById(query.venue_id);
+      if (!venue) {
+        res.status(404).json({ error: 'Not found', message: `Venue ${query.venue_id} not found` });
+        return;
+      }
+      chainId = venue.chain_id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Availability stream error:', errorMessage);
+      res.status(500).json({ error: 'Internal server error', message: errorMessage });
+      return;
+    }
+  }
+
+  res.set('Content-Type', 'text/event-stream');
+  res.set('Cache-Control', 'no-cache');
+  res.set('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const sendEvent = (eventType: string, data: unknown) => {
+    res.write(`event: ${eventType}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const realtime = getRealtimeService();
+  const listenerIds: string[] = [];
+  let stockListenerId: string | null = null;
+  let closed = false;
+
+  const onError = (error: Error) => {
+    console.error('Availability stream listener error:', error);
+    sendEvent('error', { message: error.message });
+  };
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  sendEvent('init', {
+    mode: query.venue_id ? 'venue' : 'bbox',
+    venue_id: query.venue_id ?? null,
+    bbox: query.bbox ?? null,
+    product_sku: query.product_sku ?? null,
+    heartbeat_ms: HEARTBEAT_MS,
+  });
+
+  if (query.venue_id) {
+    const venueId = query.venue_id;
+    let lastAvailability: string | null = null;
+
+    listenerIds.push(realtime.subscribeToVenueAvailability(venueId, {
+      onUpdate: (status: AvailabilityStatus) => {
+        // The service re-evaluates every minute; only send actual changes
+        const { last_updated: _lastUpdated, ...state } = status;
+        const key = JSON.stringify(state);
+        if (key !== lastAvailability) {
+          lastAvailability = key;
+          sendEvent('availability', status);
+        }
+      },
+      onError,
+    }));
+
+    listenerIds.push(realtime.subscribeToVenuePromotions(venueId, chainId, {
+      onUpdate: (promotions) => sendEvent('promotions', promotions.map(toPromotionSummary)),
+      onError,
+    }));
+
+    listenerIds.push(realtime.subscribeToVenueStock(venueId, {
+      onUpdate: (stock) => {
+        const filtered = query.product_sku ? stock.filter((s) => s.product_sku === query.product_sku) : stock;
+        sendEvent('stock', filtered);
+      },
+      onError,
+    }));
+  } else {
+    const bounds = query.bbox as BoundingBox;
+    const sent = new Map<string, VenueLiveStatus>();
+    let first = true;
+    let stockVenueKey = '';
+
+    // Stock listeners follow the set of retail venues in the box
+    const followStock = (statuses: VenueLiveStatus[]) => {
+      if (!query.product_sku || closed) return;
+      const retailIds = statuses.filter((s) => s.type === 'retail').map((s) => s.venue_id).sort();
+      const key = retailIds.join(',');
+      if (key === stockVenueKey && stockListenerId) return;
+
+      if (stockListenerId) {
+        realtime.unsubscribe(stockListenerId);
+      }
+      stockVenueKey = key;
+      stockListenerId = realtime.subscribeToStockAtVenues(retailIds, query.product_sku, {
+        onUpdate: (stock) => sendEvent('stock', stock),
+        onError,
+      });
+    };
+
+    listenerIds.push(realtime.subscribeToVenuesInBounds(bounds, {
+      onUpdate: (statuses) => {
+        if (closed) return;
+        if (first) {
+          first = false;
+          sendEvent('venues', statuses);
+        } else {
+          const changes = diffVenueStatuses(sent, statuses);
+          if (changes.updated.length > 0 || changes.removed.length > 0) {
+            sendEvent('changes', changes);
+          }
+        }
+        sent.clear();
+        statuses.forEach((status) => sent.set(status.venue_id, status));
+        followStock(statuses);
+      },
+      onError,
+    }, { type: query.type }));
+  }
+
+  const heartbeatInterval = setInterval(() => {
+    sendEvent('heartbeat', { timestamp: new Date() });
+  }, HEARTBEAT_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatInterval);
+    clearTimeout(maxDurationTimer);
+    listenerIds.forEach((id) => realtime.unsubscribe(id));
+    if (stockListenerId) {
+      realtime.unsubscribe(stockListenerId);
+    }
+    res.end();
+  };
+
+  const maxDurationTimer = setTimeout(() => {
+    sendEvent('reconnect', { reason: 'max_duration' });
+    close();
+  }, MAX_STREAM_MS);
+
+  // Clean up on client disconnect
+  req.on('close', close);
+}));
@@ -1,8 +1,9 @@
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
 import { initializeFirestore, venues, dishes } from '@pad/database';
-import type { Dish, Venue, DeliveryPartner } from '@pad/core';
+import { calculateDistance, isPointInGeometry, type Dish, type Venue, type DeliveryPartner, type GeoPoint } from '@pad/core';
 import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import { getPostalCodeGeocoder, type PostalCodeLocation } from '../../services/geocoding.js';
 import { deliveryCheckQuerySchema, parseQuery } from '../../schemas/requests.js';
 
 // Initialize Firestore
@@ -20,6 +21,10 @@ interface DeliveryOption {
 interface DeliveryCheckResponse {
   available: boolean;
   options: DeliveryOption[];
+  /** Where the postal code is, when it could be geocoded */
+  location: PostalCodeLocation | null;
+  /** Point checked against polygon delivery zones, and where it came from */
+  point: { lat: number; lng: number; source: 'coordinates' | 'postal_code' | 'address' } | null;
   message?: string;
 }
 
@@ -31,7 +36,10 @@ const functionOptions: HttpsOptions = {
 
 /**
  * GET /api/v1/delivery/check
- * Check delivery availability for a specific address or postal code
+ * Check delivery availability for a postal code, address or coordinates
+ *
+ * Postal code zones are matched on the postal code; polygon zones on the
+ * coordinates, or on the geocoded postal code/address when none are given.
  */
 export const deliveryCheckHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
   if (req.method !== 'GET') {
@@ -51,7 +59,32 @@ export const deliveryCheckHandler = onRequest(functionOptions, publicRateLimit(a
       return;
     }
 
-    const { postal_code: postalCode, country, limit } = parseResult.data;
+    const { country, address, lat, lng, limit } = parseResult.data;
+    let postalCode = parseResult.data.postal_code;
+    const geocoder = getPostalCodeGeocoder();
+
+    // Shared with /geocode - used for polygon zones and to list the closest venues first
+    let location = postalCode && country
+      ? await geocoder.lookup(postalCode, country)
+      : null;
+
+    let point: DeliveryCheckResponse['point'] = null;
+    if (lat !== undefined && lng !== undefined) {
+      point = { lat, lng, source: 'coordinates' };
+    } else if (location) {
+      point = { lat: location.lat, lng: location.lng, source: 'postal_code' };
+    } else if (address) {
+      const match = await geocoder.lookupAddress(address, country);
+      if (match) {
+        point = { lat: match.lat, lng: match.lng, source: 'address' };
+        // Lets venues with postal code zones answer address-only checks
+        if (!postalCode && match.postal_code) {
+          postalCode = match.postal_code;
+          location = country ? await geocoder.lookup(postalCode, country) : null;
+        }
+      }
+    }
+    const origin: GeoPoint | null = point ? { latitude: point.lat, longitude: point.lng } : null;
 
     // Query delivery kitchens and restaurants with delivery
     const deliveryVenues = await venues.query({
@@ -69,13 +102,14 @@ export const deliveryCheckHandler = onRequest(functionOptions, publicRateLimit(a
       limit: 100,
     });
 
-    // Combine and filter venues that serve the postal code
+    // Combine and filter venues that serve the postal code or point
     const allVenues = [...deliveryVenues, ...restaurants];
     const servingVenues = allVenues.filter((venue) => {
       if (!venue.delivery_zones) return false;
 
       // Check if postal code is in delivery zones
       if (Array.isArray(venue.delivery_zones)) {
+        if (!postalCode) return false;
         return venue.delivery_zones.some((zone) => {
           // Simple postal code matching
           // Could be enhanced with range matching (e.g., "8000-8099")
@@ -88,11 +122,16 @@ export const deliveryCheckHandler = onRequest(functionOptions, publicRateLimit(a
         });
       }
 
-      // GeoJSON polygon checking would go here
-      // For now, return true if venue has any delivery zones
-      return true;
+      // Polygon/MultiPolygon zones need a point to test
+      return origin !== null && isPointInGeometry(origin, venue.delivery_zones);
     });
 
+    if (origin) {
+      servingVenues.sort(
+        (a, b) => calculateDistance(origin, a.location) - calculateDistance(origin, b.location)
+      );
+    }
+
     // Get dishes for each serving venue
     const options: DeliveryOption[] = [];
 
@@ -142,6 +181,8 @@ export const deliveryCheckHandler = onRequest(functionOptions, publicRateLimit(a
     const response: DeliveryCheckResponse = {
       available: options.length > 0,
       options,
+      location,
+      point,
       message: options.length === 0 ? 'No delivery options available for this location' : undefined,
     };
 
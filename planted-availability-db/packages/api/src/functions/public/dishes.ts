@@ -1,7 +1,7 @@
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
 import { initializeFirestore, dishes, venues } from '@pad/database';
-import { calculateDistance, type GeoPoint } from '@pad/core';
+import { calculateDistance, encodeCursor, type GeoPoint } from '@pad/core';
 import { publicRateLimit } from '../../middleware/withRateLimit.js';
 import { dishesQuerySchema, parseQuery } from '../../schemas/requests.js';
 
@@ -33,6 +33,10 @@ const functionOptions: HttpsOptions = {
 /**
  * GET /api/v1/dishes
  * Search dishes with filters
+ *
+ * Pages follow creation order, newest first; with lat/lng each page is
+ * sorted by distance. A page can hold fewer than limit dishes while
+ * next_cursor is set, when most dishes read for it were filtered out.
  */
 export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
   if (req.method !== 'GET') {
@@ -61,15 +65,21 @@ export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (r
       cuisine,
       min_price: minPrice,
       max_price: maxPrice,
+      cursor,
       limit,
     } = parseResult.data;
 
     // Build query options
+    const fetchLimit = limit * 2; // Fetch extra for filtering
     const queryOptions: Parameters<typeof dishes.query>[0] = {
       status: 'active',
-      limit: limit * 2, // Fetch extra for filtering
+      limit: fetchLimit,
     };
 
+    if (cursor) {
+      queryOptions.startAfter = { created_at: new Date(cursor.after), id: cursor.id };
+    }
+
     if (productSku) {
       queryOptions.plantedProducts = [productSku];
     }
@@ -78,25 +88,20 @@ export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (r
       queryOptions.cuisineType = cuisine;
     }
 
-    if (tags) {
-      queryOptions.dietaryTags = tags;
-    }
-
-    // Query dishes
-    let dishResults = await dishes.query(queryOptions);
+    // Query dishes. Tags and price are filtered here rather than in the query,
+    // so the next cursor can point past dishes that were read but filtered out.
+    const dishResults = await dishes.query(queryOptions);
 
-    // Filter by price range
-    if (minPrice !== undefined || maxPrice !== undefined) {
-      dishResults = dishResults.filter((dish) => {
-        const price = dish.price.amount;
-        if (minPrice !== undefined && price < minPrice) return false;
-        if (maxPrice !== undefined && price > maxPrice) return false;
-        return true;
-      });
-    }
+    const matchesFilters = (dish: (typeof dishResults)[number]): boolean => {
+      if (tags && !tags.every((tag) => dish.dietary_tags.includes(tag))) return false;
+      const price = dish.price.amount;
+      if (minPrice !== undefined && price < minPrice) return false;
+      if (maxPrice !== undefined && price > maxPrice) return false;
+      return true;
+    };
 
     // Get unique venue IDs
-    const venueIds = [...new Set(dishResults.map((d) => d.venue_id))];
+    const venueIds = [...new Set(dishResults.filter(matchesFilters).map((d) => d.venue_id))];
 
     // Fetch venues
     const venueMap = new Map<string, Awaited<ReturnType<typeof venues.getById>>>();
@@ -113,8 +118,15 @@ export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (r
 
     // Build results with venue info
     const results: DishWithVenueInfo[] = [];
+    // Last dish read for this page, matching or not
+    let lastRead: (typeof dishResults)[number] | undefined;
 
     for (const dish of dishResults) {
+      if (results.length >= limit) break;
+      lastRead = dish;
+
+      if (!matchesFilters(dish)) continue;
+
       const venue = venueMap.get(dish.venue_id);
       if (!venue) continue;
 
@@ -141,10 +153,12 @@ export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (r
         delivery_available:
           (dish.delivery_partners && dish.delivery_partners.length > 0) || false,
       });
-
-      if (results.length >= limit) break;
     }
 
+    // More dishes follow if the page filled up before the end of the batch, or the batch was full
+    const stoppedEarly = lastRead !== dishResults[dishResults.length - 1];
+    const hasMore = lastRead !== undefined && (stoppedEarly || dishResults.length === fetchLimit);
+
     // Sort by distance if location provided
     if (hasLocation) {
       results.sort((a, b) => (a.distance_km || 0) - (b.distance_km || 0));
@@ -156,7 +170,10 @@ export const dishesHandler = onRequest(functionOptions, publicRateLimit(async (r
     res.status(200).json({
       dishes: results,
       total: results.length,
-      has_more: dishResults.length > results.length,
+      has_more: hasMore,
+      next_cursor: hasMore && lastRead
+        ? encodeCursor({ after: lastRead.created_at.toISOString(), id: lastRead.id })
+        : null,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
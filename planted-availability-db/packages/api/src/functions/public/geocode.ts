@@ -0,0 +1,78 @@
+/**
+ * Postal Code Geocoding API Endpoint
+ *
+ * Resolves a postal code to coordinates for the store locator, so the
+ * website doesn't have to call Nominatim from the browser.
+ */
+
+import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
+import type { Request, Response } from 'express';
+import { getPostalCodeGeocoder, isValidPostalCode, type PostalCodeLocation } from '../../services/geocoding.js';
+import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import { geocodeQuerySchema, parseQuery } from '../../schemas/requests.js';
+
+export type GeocodeResponse = PostalCodeLocation;
+
+const functionOptions: HttpsOptions = {
+  region: 'europe-west6',
+  cors: true,
+  invoker: 'public', // Allow unauthenticated access
+};
+
+/**
+ * GET /api/v1/geocode?postal_code=8001&country=CH
+ *
+ * Returns the coordinates of a postal code (or of its area when only the
+ * prefix is known - see `accuracy`).
+ */
+export const geocodeHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const parseResult = parseQuery(req.query, geocodeQuerySchema);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid query parameters',
+        details: parseResult.error,
+      });
+      return;
+    }
+
+    const { postal_code: postalCode, country } = parseResult.data;
+
+    if (!isValidPostalCode(postalCode, country)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: `Invalid postal code for ${country}`,
+      });
+      return;
+    }
+
+    const location = await getPostalCodeGeocoder().lookup(postalCode, country);
+
+    if (!location) {
+      res.status(404).json({
+        error: 'Not found',
+        message: `Postal code ${postalCode} not found in ${country}`,
+      });
+      return;
+    }
+
+    // Postal codes don't move; cache for a day
+    res.set('Cache-Control', 'public, max-age=86400, s-maxage=86400');
+
+    const response: GeocodeResponse = location;
+    res.status(200).json(response);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Geocode API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
@@ -3,3 +3,8 @@ export { venueDetailHandler, venuesListHandler } from './venues.js';
 export { dishesHandler, dishDetailHandler } from './dishes.js';
 export { deliveryCheckHandler } from './delivery.js';
 export { geolocateHandler } from './geolocate.js';
+export { geocodeHandler } from './geocode.js';
+export { searchHandler } from './search.js';
+export { availabilityStreamHandler } from './availabilityStream.js';
+export { promotionsHandler } from './promotions.js';
+export { productsListHandler, productDetailHandler, productAvailabilityHandler } from './products.js';
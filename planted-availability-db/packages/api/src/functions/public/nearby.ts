@@ -1,8 +1,14 @@
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
-import { initializeFirestore, venues, dishes } from '@pad/database';
-import { isVenueOpen, getNextOpeningTime, getTodayHoursString } from '@pad/core';
-import type { Venue, Dish, GeoPoint } from '@pad/core';
+import { initializeFirestore, venues, dishes, chains } from '@pad/database';
+import {
+  getVenueOpenStatus,
+  getTodayHoursString,
+  getMarketTimezone,
+  getEffectiveOpeningHours,
+  encodeCursor,
+} from '@pad/core';
+import type { Venue, Dish, GeoPoint, VenueOpenStatus, DeliveryPlatformLink } from '@pad/core';
 import { publicRateLimit } from '../../middleware/withRateLimit.js';
 import { nearbyQuerySchema, parseQuery } from '../../schemas/requests.js';
 
@@ -22,15 +28,15 @@ class NearbyCache {
   private readonly maxSize = 100;
   private readonly ttlMs = 60000; // 1 minute TTL
 
-  private generateKey(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean): string {
+  private generateKey(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean, cursor: string): string {
     // Round coordinates to 3 decimal places (~100m precision) for cache key
     const roundedLat = Math.round(lat * 1000) / 1000;
     const roundedLng = Math.round(lng * 1000) / 1000;
-    return `${roundedLat}:${roundedLng}:${radiusKm}:${type}:${limit}:${slim}`;
+    return `${roundedLat}:${roundedLng}:${radiusKm}:${type}:${limit}:${slim}:${cursor}`;
   }
 
-  get(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean): NearbyResponse | SlimNearbyResponse | null {
-    const key = this.generateKey(lat, lng, radiusKm, type, limit, slim);
+  get(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean, cursor: string): NearbyResponse | SlimNearbyResponse | null {
+    const key = this.generateKey(lat, lng, radiusKm, type, limit, slim, cursor);
     const entry = this.cache.get(key);
 
     if (!entry) return null;
@@ -46,8 +52,8 @@ class NearbyCache {
     return entry.data;
   }
 
-  set(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean, data: NearbyResponse | SlimNearbyResponse): void {
-    const key = this.generateKey(lat, lng, radiusKm, type, limit, slim);
+  set(lat: number, lng: number, radiusKm: number, type: string, limit: number, slim: boolean, cursor: string, data: NearbyResponse | SlimNearbyResponse): void {
+    const key = this.generateKey(lat, lng, radiusKm, type, limit, slim, cursor);
 
     // Evict oldest entries if at capacity
     while (this.cache.size >= this.maxSize) {
@@ -68,6 +74,11 @@ interface NearbyResult {
   venue: Venue & { distance_km: number };
   dishes: Dish[];
   is_open: boolean;
+  /** 'closes_soon' within 30 minutes of closing */
+  open_status: VenueOpenStatus['status'];
+  closes_at: string | null;
+  /** Same as next_open */
+  opens_at: string | null;
   next_open: string | null;
   today_hours: string;
 }
@@ -76,6 +87,7 @@ interface NearbyResponse {
   results: NearbyResult[];
   total: number;
   has_more: boolean;
+  next_cursor: string | null;
 }
 
 // ============================================================================
@@ -107,6 +119,8 @@ interface SlimNearbyResult {
   venue: SlimVenue;
   dishes: SlimDish[];
   is_open: boolean;
+  open_status: VenueOpenStatus['status'];
+  opens_at: string | null;
   today_hours: string;
 }
 
@@ -114,6 +128,7 @@ interface SlimNearbyResponse {
   results: SlimNearbyResult[];
   total: number;
   has_more: boolean;
+  next_cursor: string | null;
 }
 
 /**
@@ -130,8 +145,9 @@ function toSlimVenue(venue: Venue & { distance_km: number }): SlimVenue {
       city: venue.address?.city || '',
       country: venue.address?.country || '',
     },
-    delivery_platforms: venue.delivery_platforms?.map(dp => ({
-      platform: dp.platform,
+    // Venues synced from discovery store the platform name, others only the partner
+    delivery_platforms: venue.delivery_platforms?.map((dp: DeliveryPlatformLink & { platform?: string }) => ({
+      platform: dp.platform ?? dp.partner,
       url: dp.url,
       active: dp.active,
     })),
@@ -170,10 +186,12 @@ const functionOptions: HttpsOptions = {
  * - radius_km: Search radius (default: 10, max: 50)
  * - type: Filter by venue type (restaurant, retail, delivery_kitchen, all)
  * - limit: Max results (default: 20, max: 100)
+ * - cursor: next_cursor of the previous page
  * - slim: Return reduced payload for faster locator display (default: false)
  * - open_now: Filter to only open venues
  * - product_sku: Filter to venues with specific planted product
- * - dedupe_chains: Deduplicate chain venues (default: true)
+ * - dedupe_chains: Deduplicate chain venues (default: true); applies per page,
+ *   so a later page can repeat a chain from an earlier one
  *
  * Performance (T028):
  * - In-memory LRU cache with 1-minute TTL
@@ -204,7 +222,8 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
     const center: GeoPoint = { latitude: params.lat, longitude: params.lng };
 
     // T028: Check for slim parameter (default false for backwards compatibility)
-    const slimMode = req.query.slim === 'true' || req.query.slim === '1';
+    const slimMode = params.slim === 'true' || params.slim === '1';
+    const cursorKey = params.cursor ? `${params.cursor.after}:${params.cursor.id}` : '';
 
     // T028: Check in-memory cache first
     const cached = nearbyCache.get(
@@ -213,7 +232,8 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
       params.radius_km,
       params.type || 'all',
       params.limit,
-      slimMode
+      slimMode,
+      cursorKey
     );
 
     if (cached) {
@@ -226,24 +246,39 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
     }
 
     // Query nearby venues
+    const fetchLimit = params.limit + 10; // Fetch extra for filtering
     const nearbyVenues = await venues.queryNearby({
       center,
       radiusKm: params.radius_km,
       type: params.type === 'all' ? undefined : (params.type as 'retail' | 'restaurant' | 'delivery_kitchen' | undefined),
       status: 'active',
-      limit: params.limit + 10, // Fetch extra for filtering
+      startAfter: params.cursor ? { distance_km: params.cursor.after, id: params.cursor.id } : undefined,
+      limit: fetchLimit,
     });
 
     // Batch fetch dishes for all venues (much more efficient than N+1 queries)
     const venueIds = nearbyVenues.map(v => v.id);
     const dishesMap = await dishes.getByVenues(venueIds);
 
+    // Chains decide whether their venues close on public holidays
+    const chainIds = [...new Set(nearbyVenues.map((v) => v.chain_id).filter((id): id is string => !!id))];
+    const chainsById = new Map((await chains.getByIds(chainIds)).map((chain) => [chain.id, chain]));
+
     // Build results - if deduping chains, track which chain_ids we've seen
     const results: NearbyResult[] = [];
     const seenChainIds = new Set<string>();
+    // Last venue read for this page, included or not
+    let lastRead: (typeof nearbyVenues)[number] | undefined;
 
     for (const venue of nearbyVenues) {
-      const is_open = isVenueOpen(venue.opening_hours);
+      if (results.length >= params.limit) break;
+      lastRead = venue;
+
+      // Opening hours are local to the venue's market, not the functions host
+      const timezone = getMarketTimezone(venue.address?.country);
+      const openingHours = getEffectiveOpeningHours(venue, venue.chain_id ? chainsById.get(venue.chain_id) : null);
+      const openStatus = getVenueOpenStatus(openingHours, timezone);
+      const is_open = openStatus.is_open;
 
       // Skip closed venues if open_now filter is set
       if (params.open_now && !is_open) {
@@ -273,22 +308,27 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
         }
       }
 
-      const next_open = is_open ? null : getNextOpeningTime(venue.opening_hours);
+      const opens_at = openStatus.opens_at ? openStatus.opens_at.toISOString() : null;
 
       results.push({
         venue: venue as Venue & { distance_km: number },
         dishes: venueDishes,
         is_open,
-        next_open: next_open ? next_open.toISOString() : null,
-        today_hours: getTodayHoursString(venue.opening_hours),
+        open_status: openStatus.status,
+        closes_at: openStatus.closes_at ? openStatus.closes_at.toISOString() : null,
+        opens_at,
+        next_open: opens_at,
+        today_hours: getTodayHoursString(openingHours, timezone),
       });
-
-      // Stop if we have enough results
-      if (results.length >= params.limit) {
-        break;
-      }
     }
 
+    // More venues follow if the page filled up before the end of the batch, or the batch was full
+    const stoppedEarly = lastRead !== nearbyVenues[nearbyVenues.length - 1];
+    const hasMore = lastRead !== undefined && (stoppedEarly || nearbyVenues.length === fetchLimit);
+    const next_cursor = hasMore && lastRead
+      ? encodeCursor({ after: lastRead.distance_km, id: lastRead.id })
+      : null;
+
     // Set cache headers for CDN
     res.set('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
     res.set('X-Cache', 'MISS');
@@ -302,19 +342,23 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
         venue: toSlimVenue(r.venue),
         dishes: r.dishes.map(toSlimDish),
         is_open: r.is_open,
+        open_status: r.open_status,
+        opens_at: r.opens_at,
         today_hours: r.today_hours,
       }));
 
       response = {
         results: slimResults,
         total: slimResults.length,
-        has_more: nearbyVenues.length > results.length,
+        has_more: hasMore,
+        next_cursor,
       };
     } else {
       response = {
         results,
         total: results.length,
-        has_more: nearbyVenues.length > results.length,
+        has_more: hasMore,
+        next_cursor,
       };
     }
 
@@ -326,6 +370,7 @@ export const nearbyHandler = onRequest(functionOptions, publicRateLimit(async (r
       params.type || 'all',
       params.limit,
       slimMode,
+      cursorKey,
       response
     );
 
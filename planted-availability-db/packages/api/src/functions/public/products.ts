@@ -0,0 +1,258 @@
+import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
+import type { Request, Response } from 'express';
+import { initializeFirestore, venues, retailAvailability, products } from '@pad/database';
+import { encodeCursor, type GeoPoint, type Venue, type RetailAvailability } from '@pad/core';
+import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import {
+  productsQuerySchema,
+  productSkuParamSchema,
+  productAvailabilityQuerySchema,
+  parseQuery,
+} from '../../schemas/requests.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+// Retail venues checked for stock per request, closest first; further
+// venues are on the next page
+const MAX_VENUES_CHECKED = 300;
+
+interface ProductAvailabilityMatch {
+  venue: Pick<Venue, 'id' | 'name' | 'type' | 'chain_id' | 'location' | 'address'> & { distance_km: number };
+  in_stock: boolean;
+  price: NonNullable<RetailAvailability['price']> | null;
+  promotion: NonNullable<RetailAvailability['promotion']> | null;
+  shelf_location?: string;
+  last_verified: Date;
+}
+
+const functionOptions: HttpsOptions = {
+  region: 'europe-west6',
+  cors: true,
+  invoker: 'public', // Allow unauthenticated access
+};
+
+/**
+ * GET /api/v1/products
+ * Planted product catalog by category, then SKU
+ *
+ * Query Parameters:
+ * - category: Filter by product category
+ * - market: Only products sold in this market (ISO country code)
+ * - retail_only: true for retail-only products, false for products also sold to restaurants
+ * - include_inactive: Include discontinued products (default: false)
+ */
+export const productsListHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const parseResult = parseQuery(req.query, productsQuerySchema);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid query parameters',
+        details: parseResult.error,
+      });
+      return;
+    }
+
+    const params = parseResult.data;
+
+    // The catalog is a few dozen documents, so it is filtered in memory
+    // instead of needing a composite index per filter combination
+    const catalog = await products.query({ activeOnly: false });
+    const productList = catalog
+      .filter((product) =>
+        (params.include_inactive || product.active) &&
+        (!params.category || product.category === params.category) &&
+        (!params.market || product.markets.includes(params.market)) &&
+        (params.retail_only === undefined || product.retail_only === params.retail_only)
+      )
+      .sort((a, b) => a.category.localeCompare(b.category) || a.sku.localeCompare(b.sku));
+
+    // Set cache headers
+    res.set('Cache-Control', 'public, max-age=3600'); // 1 hour cache
+
+    res.status(200).json({
+      products: productList,
+      total: productList.length,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Products API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
+
+/**
+ * GET /api/v1/products/:sku
+ * A product, including discontinued ones (active: false)
+ */
+export const productDetailHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    // Extract SKU from path
+    // Expected path: /products/{sku} or /{sku}
+    const pathParts = req.path.split('/').filter(Boolean);
+    const paramResult = parseQuery({ sku: pathParts[pathParts.length - 1] }, productSkuParamSchema);
+    if (!paramResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Product SKU is required',
+      });
+      return;
+    }
+
+    const sku = paramResult.data.sku.toUpperCase();
+    const product = await products.getBySku(sku);
+    if (!product) {
+      res.status(404).json({
+        error: 'Not found',
+        message: `Product ${sku} not found`,
+      });
+      return;
+    }
+
+    // Set cache headers
+    res.set('Cache-Control', 'public, max-age=3600'); // 1 hour cache
+
+    res.status(200).json(product);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Product detail API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
+
+/**
+ * GET /api/v1/products/:sku/availability
+ * Retail venues near a location with their stock and price of a product
+ *
+ * Venues without a stock record for the product are left out rather than
+ * reported as out of stock: no record means nobody checked. Each request
+ * checks at most MAX_VENUES_CHECKED venues, so a page can hold fewer than
+ * limit results (even none) while next_cursor is set.
+ *
+ * Query Parameters:
+ * - lat, lng: Required coordinates
+ * - radius_km: Search radius (default: 10, max: 50)
+ * - in_stock: Only venues that have the product in stock
+ * - limit: Max results (default: 20, max: 100)
+ * - cursor: next_cursor of the previous page
+ */
+export const productAvailabilityHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    // Extract SKU from path
+    // Expected path: /products/{sku}/availability
+    const pathParts = req.path.split('/').filter(Boolean);
+    const skuIndex = pathParts[pathParts.length - 1] === 'availability' ? pathParts.length - 2 : pathParts.length - 1;
+    const paramResult = parseQuery({ sku: pathParts[skuIndex] }, productSkuParamSchema);
+    if (!paramResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Product SKU is required',
+      });
+      return;
+    }
+
+    const parseResult = parseQuery(req.query, productAvailabilityQuerySchema);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid query parameters',
+        details: parseResult.error,
+      });
+      return;
+    }
+
+    const productSku = paramResult.data.sku.toUpperCase();
+    const params = parseResult.data;
+    const center: GeoPoint = { latitude: params.lat, longitude: params.lng };
+
+    const nearbyVenues = await venues.queryNearby({
+      center,
+      radiusKm: params.radius_km,
+      type: 'retail',
+      status: 'active',
+      startAfter: params.cursor ? { distance_km: params.cursor.after, id: params.cursor.id } : undefined,
+      limit: MAX_VENUES_CHECKED,
+    });
+
+    const stockByVenue = await retailAvailability.getForVenues(
+      productSku,
+      nearbyVenues.map((venue) => venue.id)
+    );
+
+    const now = new Date();
+    const results: ProductAvailabilityMatch[] = [];
+    // Last venue read for this page, included or not
+    let lastRead: (typeof nearbyVenues)[number] | undefined;
+
+    for (const venue of nearbyVenues) {
+      if (results.length >= params.limit) break;
+      lastRead = venue;
+
+      const stock = stockByVenue.get(venue.id);
+      if (!stock || (params.in_stock && !stock.in_stock)) continue;
+
+      results.push({
+        venue: {
+          id: venue.id,
+          name: venue.name,
+          type: venue.type,
+          chain_id: venue.chain_id,
+          location: venue.location,
+          address: venue.address,
+          distance_km: venue.distance_km,
+        },
+        in_stock: stock.in_stock,
+        price: stock.price ?? null,
+        promotion: stock.promotion && stock.promotion.valid_until >= now ? stock.promotion : null,
+        shelf_location: stock.shelf_location,
+        last_verified: stock.last_verified,
+      });
+    }
+
+    // More venues follow if the page filled up before the end of the batch, or the batch was full
+    const stoppedEarly = lastRead !== nearbyVenues[nearbyVenues.length - 1];
+    const hasMore = lastRead !== undefined && (stoppedEarly || nearbyVenues.length === MAX_VENUES_CHECKED);
+
+    // Set cache headers
+    res.set('Cache-Control', 'public, max-age=300'); // 5 minute cache
+
+    res.status(200).json({
+      product_sku: productSku,
+      results,
+      total: results.length,
+      has_more: hasMore,
+      next_cursor: hasMore && lastRead
+        ? encodeCursor({ after: lastRead.distance_km, id: lastRead.id })
+        : null,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Product availability API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
@@ -0,0 +1,89 @@
+import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
+import type { Request, Response } from 'express';
+import { initializeFirestore, promotions } from '@pad/database';
+import { encodeCursor } from '@pad/core';
+import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import { promotionsQuerySchema, parseQuery } from '../../schemas/requests.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const functionOptions: HttpsOptions = {
+  region: 'europe-west6',
+  cors: true,
+  invoker: 'public', // Allow unauthenticated access
+};
+
+/**
+ * GET /api/v1/promotions
+ * Promotions valid at some point in a time window, ending soonest first
+ *
+ * A page can hold fewer than limit promotions while next_cursor is set,
+ * when most promotions read for it were filtered out.
+ *
+ * Query Parameters:
+ * - chain_id: Only promotions of this chain
+ * - product_sku: Only promotions on this planted product
+ * - country: Venue promotions in this country and chain promotions in this market
+ * - from, to: ISO 8601 window (default: now, i.e. running promotions)
+ * - limit: Max results (default: 50, max: 100)
+ * - cursor: next_cursor of the previous page
+ */
+export const promotionsHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    // Validate query parameters with Zod
+    const parseResult = parseQuery(req.query, promotionsQuerySchema);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid query parameters',
+        details: parseResult.error,
+      });
+      return;
+    }
+
+    const { chain_id: chainId, product_sku: productSku, country, cursor, limit } = parseResult.data;
+
+    // A window given only by its end starts now, or at its end if that has passed
+    const now = new Date();
+    const { from: start, to: end } = parseResult.data;
+    const from = start ?? (end && end < now ? end : now);
+    const to = end ?? from;
+
+    const { promotions: page, next } = await promotions.queryPage({
+      chainId,
+      productSku,
+      country,
+      validBetween: { from, to },
+      startAfter: cursor ? { valid_until: new Date(cursor.after), id: cursor.id } : undefined,
+      limit,
+    });
+
+    // Set cache headers
+    res.set('Cache-Control', 'public, max-age=300'); // 5 minute cache
+
+    res.status(200).json({
+      promotions: page.map((promotion) => ({
+        ...promotion,
+        scope: promotion.venue_id ? 'venue' : 'chain',
+      })),
+      total: page.length,
+      has_more: next !== null,
+      next_cursor: next ? encodeCursor({ after: next.valid_until.toISOString(), id: next.id }) : null,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Promotions API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
@@ -0,0 +1,67 @@
+/**
+ * Full-Text Search API Endpoint
+ *
+ * Text plus geo search over venues and dishes ("kebab near Zurich"),
+ * backed by the Algolia indexes (see services/search.ts).
+ */
+
+import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
+import type { Request, Response } from 'express';
+import { publicRateLimit } from '../../middleware/withRateLimit.js';
+import { getSearchProvider } from '../../services/search.js';
+import { runSearch } from '../../services/searchQuery.js';
+import { parseQuery, searchQuerySchema } from '../../schemas/requests.js';
+
+export type { SearchResponse } from '../../services/searchQuery.js';
+
+const functionOptions: HttpsOptions = {
+  region: 'europe-west6',
+  cors: true,
+  invoker: 'public', // Allow unauthenticated access
+};
+
+/**
+ * GET /api/v1/search?q=kebab near Zurich
+ *
+ * Optional: type (venues|dishes|all), lat/lng, radius_km, country,
+ * venue_type, product_sku, limit. A place in the query overrides lat/lng.
+ */
+export const searchHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const parseResult = parseQuery(req.query, searchQuerySchema);
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid query parameters',
+        details: parseResult.error,
+      });
+      return;
+    }
+
+    const search = getSearchProvider();
+    if (!search) {
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Search is not configured',
+      });
+      return;
+    }
+
+    const response = await runSearch(search, parseResult.data);
+
+    res.set('Cache-Control', 'public, max-age=60, s-maxage=60');
+    res.status(200).json(response);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Search API error:', errorMessage);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage,
+    });
+  }
+}));
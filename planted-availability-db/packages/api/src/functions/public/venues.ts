@@ -1,10 +1,13 @@
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
-import { initializeFirestore, venues, dishes, promotions } from '@pad/database';
+import { initializeFirestore, venues, dishes, promotions, chains } from '@pad/database';
 import {
   isVenueOpen,
   getNextOpeningTime,
   getTodayHoursString,
+  getMarketTimezone,
+  getEffectiveOpeningHours,
+  encodeCursor,
   type VenueType,
   type VenueStatus,
 } from '@pad/core';
@@ -80,12 +83,15 @@ export const venueDetailHandler = onRequest(functionOptions, publicRateLimit(asy
     }
 
     // Calculate opening status
-    const is_open = isVenueOpen(venue.opening_hours);
-    const next_open = is_open ? null : getNextOpeningTime(venue.opening_hours);
-    const today_hours = getTodayHoursString(venue.opening_hours);
+    const timezone = getMarketTimezone(venue.address?.country);
+    const chain = venue.chain_id ? await chains.getById(venue.chain_id) : null;
+    const openingHours = getEffectiveOpeningHours(venue, chain);
+    const is_open = isVenueOpen(openingHours, timezone);
+    const next_open = is_open ? null : getNextOpeningTime(openingHours, timezone);
+    const today_hours = getTodayHoursString(openingHours, timezone);
 
     // Get unique delivery partners from dishes
-    const deliveryPartners = new Map<string, { partner: string; url: string }>();
+    const deliveryPartners = new Map<string, { partner: string; url?: string }>();
     venueDishes.forEach((dish) => {
       dish.delivery_partners?.forEach((dp) => {
         if (!deliveryPartners.has(dp.partner)) {
@@ -121,7 +127,10 @@ export const venueDetailHandler = onRequest(functionOptions, publicRateLimit(asy
 
 /**
  * GET /api/v1/venues
- * List venues with optional filters
+ * List venues with optional filters, newest first
+ *
+ * Pages with cursor (next_cursor of the previous page); offset is still
+ * accepted but makes Firestore read every skipped venue.
  */
 export const venuesListHandler = onRequest(functionOptions, publicRateLimit(async (req: Request, res: Response) => {
   if (req.method !== 'GET') {
@@ -141,26 +150,33 @@ export const venuesListHandler = onRequest(functionOptions, publicRateLimit(asyn
       return;
     }
 
-    const { type, country, chain_id: chainId, status, limit, offset } = parseResult.data;
+    const { type, country, chain_id: chainId, status, cursor, limit, offset } = parseResult.data;
 
+    // One extra venue tells whether there is a next page
     const venuesList = await venues.query({
       type,
       country,
       chainId,
       status,
-      limit,
+      startAfter: cursor ? { created_at: new Date(cursor.after), id: cursor.id } : undefined,
       offset,
+      limit: limit + 1,
     });
 
+    const page = venuesList.slice(0, limit);
+    const hasMore = venuesList.length > limit;
+    const last = page[page.length - 1];
+
     // Set cache headers
     res.set('Cache-Control', 'public, max-age=120'); // 2 minute cache
 
     res.status(200).json({
-      venues: venuesList,
-      total: venuesList.length,
+      venues: page,
+      total: page.length,
       limit,
-      offset,
-      has_more: venuesList.length === limit,
+      offset: cursor ? 0 : offset,
+      has_more: hasMore,
+      next_cursor: hasMore ? encodeCursor({ after: last.created_at.toISOString(), id: last.id }) : null,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,43 @@
+import { onSchedule, ScheduledEvent } from 'firebase-functions/v2/scheduler';
+import { initializeFirestore } from '@pad/database';
+import { processDueSyncWrites } from '../admin/dead-letter-queue/retry.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const scheduledOptions = {
+  region: 'europe-west6',
+  timeoutSeconds: 540,
+  memory: '512MiB' as const,
+};
+
+// Operations retried per run; each re-runs the sync for one entity
+const RETRY_BATCH_SIZE = 25;
+
+/**
+ * Dead letter queue drain - runs every 15 minutes
+ *
+ * Retries failed sync writes whose backoff has elapsed. Operations that
+ * exhaust their attempts are escalated to manual review in the admin
+ * dashboard. Scraper operations need a browser and are drained hourly by
+ * the drain-dlq GitHub Actions workflow, which runs the scrapers CLI
+ * (`pnpm --filter @pad/scrapers drain-dlq`).
+ */
+export const deadLetterQueueDrain = onSchedule(
+  {
+    ...scheduledOptions,
+    schedule: '*/15 * * * *', // Every 15 minutes
+    timeZone: 'Europe/Zurich',
+  },
+  async (_event: ScheduledEvent) => {
+    try {
+      const result = await processDueSyncWrites(RETRY_BATCH_SIZE);
+      if (result.processed > 0) {
+        console.log('Dead letter queue drain completed:', result);
+      }
+    } catch (error) {
+      console.error('Dead letter queue drain failed:', error);
+      throw error;
+    }
+  }
+);
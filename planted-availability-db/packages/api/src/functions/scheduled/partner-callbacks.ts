@@ -0,0 +1,41 @@
+import { onSchedule, ScheduledEvent } from 'firebase-functions/v2/scheduler';
+import { initializeFirestore } from '@pad/database';
+import { processDueCallbacks } from '../../services/partnerCallbacks.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const scheduledOptions = {
+  region: 'europe-west6',
+  timeoutSeconds: 300,
+  memory: '256MiB' as const,
+};
+
+// Deliveries retried per run; each attempt times out after 10s
+const RETRY_BATCH_SIZE = 25;
+
+/**
+ * Partner callback retries - runs every 5 minutes
+ *
+ * Re-sends partner status callbacks whose backoff has elapsed. Deliveries
+ * that exhaust their retries are marked 'failed' and can be replayed from
+ * the admin API (adminReplayPartnerCallbacks).
+ */
+export const partnerCallbackRetries = onSchedule(
+  {
+    ...scheduledOptions,
+    schedule: '*/5 * * * *', // Every 5 minutes
+    timeZone: 'Europe/Zurich',
+  },
+  async (_event: ScheduledEvent) => {
+    try {
+      const result = await processDueCallbacks(RETRY_BATCH_SIZE);
+      if (result.processed > 0) {
+        console.log('Partner callback retries completed:', result);
+      }
+    } catch (error) {
+      console.error('Partner callback retries failed:', error);
+      throw error;
+    }
+  }
+);
@@ -1,7 +1,8 @@
 import { onSchedule, ScheduledEvent } from 'firebase-functions/v2/scheduler';
 import { onRequest, HttpsOptions } from 'firebase-functions/v2/https';
 import type { Request, Response } from 'express';
-import { initializeFirestore, scraperRuns, venues, dishes } from '@pad/database';
+import { initializeFirestore, scraperRuns, venues, dishes, verificationJobs } from '@pad/database';
+import { scheduleVerificationJobs } from '../../services/freshnessScheduler.js';
 
 // Initialize Firestore
 initializeFirestore();
@@ -17,17 +18,21 @@ const httpsOptions: HttpsOptions = {
   cors: true,
 };
 
+// scraper_runs entry of the daily orchestration
+const ORCHESTRATOR_SCRAPER_ID = 'freshness-orchestrator';
+
 /**
  * Daily scraper orchestration - runs at 4 AM CET
  *
- * This function coordinates the daily scraping jobs:
- * 1. Identifies stale data that needs re-verification
- * 2. Queues scraper jobs for each source
- * 3. Monitors completion and logs results
+ * Keeps venue data fresh:
+ * 1. Selects venues not verified in REVERIFY_AFTER_DAYS (active or stale)
+ * 2. Groups them by delivery platform and country and checks each group
+ *    against the scraper budget
+ * 3. Queues re-verification jobs in `verification_jobs`
  *
- * Note: For production use with actual scrapers (Wolt, Uber Eats, etc.),
- * you'll need to configure a proxy service (e.g., ScraperAPI) and
- * potentially run scrapers as separate Cloud Functions or Cloud Run jobs.
+ * The jobs are processed by the scrapers' verification worker
+ * (`pnpm --filter @pad/scrapers verify-venues`) with per-platform
+ * concurrency limits; successful jobs refresh last_verified.
  */
 export const dailyScraperOrchestrator = onSchedule(
   {
@@ -38,23 +43,39 @@ export const dailyScraperOrchestrator = onSchedule(
   async (_event: ScheduledEvent) => {
     console.log('Starting daily scraper orchestration...');
 
+    const run = await scraperRuns.start(ORCHESTRATOR_SCRAPER_ID);
+
     try {
-      // For now, we just log that the scheduled job ran
-      // In production, this would:
-      // 1. Query for stale venues/dishes (last_verified > 7 days ago)
-      // 2. Create scraper jobs for each source
-      // 3. Push jobs to Cloud Tasks queue
-      // 4. Monitor and log results
-
-      const summary = {
+      const result = await scheduleVerificationJobs({ scheduledBy: run.id });
+      const cleanedUp = await verificationJobs.cleanupFinished();
+
+      await scraperRuns.complete(run.id, result.jobs_deferred > 0 ? 'partial' : 'completed', {
+        venues_checked: result.venues_selected,
+        venues_updated: 0,
+        dishes_found: 0,
+        dishes_updated: 0,
+        errors: 0,
+      });
+      await scraperRuns.addLog(
+        run.id,
+        result.jobs_deferred > 0 ? 'warn' : 'info',
+        `Queued ${result.jobs_queued} verification jobs (${result.jobs_skipped} already queued, ${result.jobs_deferred} deferred, ${result.unverifiable} venues without platform links)`
+      );
+
+      console.log('Daily scraper orchestration completed:', {
         timestamp: new Date().toISOString(),
-        scrapers_triggered: 0,
-        message: 'Orchestrator running - scrapers need proxy configuration for production use',
-      };
-
-      console.log('Daily scraper orchestration completed:', summary);
+        run_id: run.id,
+        ...result,
+        finished_jobs_cleaned_up: cleanedUp,
+      });
     } catch (error) {
       console.error('Daily scraper orchestration failed:', error);
+      await scraperRuns.complete(
+        run.id,
+        'failed',
+        { venues_checked: 0, venues_updated: 0, dishes_found: 0, dishes_updated: 0, errors: 1 },
+        [{ message: error instanceof Error ? error.message : String(error) }]
+      ).catch(() => undefined);
       throw error;
     }
   }
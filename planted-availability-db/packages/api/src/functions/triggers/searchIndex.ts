@@ -0,0 +1,78 @@
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import type { DocumentData } from 'firebase-admin/firestore';
+import { initializeFirestore } from '@pad/database';
+import { getSearchProvider } from '../../services/search.js';
+import { syncDish, syncVenue } from '../../services/searchSync.js';
+
+// Initialize Firestore
+initializeFirestore();
+
+const triggerOptions = {
+  region: 'europe-west6',
+  retry: false,
+};
+
+// Fields that end up in the search records; writes touching only other
+// fields (last_verified, scraper bookkeeping) don't cost index operations
+const VENUE_SEARCH_FIELDS = ['name', 'type', 'chain_id', 'address', 'location', 'status'];
+const DISH_SEARCH_FIELDS = [
+  'name',
+  'name_localized',
+  'description',
+  'venue_id',
+  'planted_products',
+  'dietary_tags',
+  'cuisine_type',
+  'price',
+  'status',
+];
+
+function searchFieldsChanged(
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  fields: string[]
+): boolean {
+  if (!before || !after) {
+    return true;
+  }
+  return fields.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * Venue created, updated, archived or deleted - update the search indexes
+ */
+export const searchIndexVenueTrigger = onDocumentWritten(
+  { ...triggerOptions, document: 'venues/{venueId}' },
+  async (event) => {
+    const search = getSearchProvider();
+    if (!search || !searchFieldsChanged(event.data?.before.data(), event.data?.after.data(), VENUE_SEARCH_FIELDS)) {
+      return;
+    }
+
+    try {
+      await syncVenue(search, event.params.venueId);
+    } catch (error) {
+      // Missed writes are repaired by POST /adminSearchReindex
+      console.error(`Search index sync failed for venue ${event.params.venueId}:`, error);
+    }
+  }
+);
+
+/**
+ * Dish created, updated, archived or deleted - update the search indexes
+ */
+export const searchIndexDishTrigger = onDocumentWritten(
+  { ...triggerOptions, document: 'dishes/{dishId}' },
+  async (event) => {
+    const search = getSearchProvider();
+    if (!search || !searchFieldsChanged(event.data?.before.data(), event.data?.after.data(), DISH_SEARCH_FIELDS)) {
+      return;
+    }
+
+    try {
+      await syncDish(search, event.params.dishId);
+    } catch (error) {
+      console.error(`Search index sync failed for dish ${event.params.dishId}:`, error);
+    }
+  }
+);
@@ -9,6 +9,13 @@ export {
   dishDetailHandler as dishDetail,
   deliveryCheckHandler as deliveryCheck,
   geolocateHandler as geolocate,
+  geocodeHandler as geocode,
+  searchHandler as search,
+  availabilityStreamHandler as availabilityStream,
+  promotionsHandler as promotions,
+  productsListHandler as products,
+  productDetailHandler as productDetail,
+  productAvailabilityHandler as productAvailability,
 } from './functions/public/index.js';
 
 // Admin API endpoints
@@ -17,6 +24,7 @@ export {
   adminDishesHandler as adminDishes,
   adminPromotionsHandler as adminPromotions,
   adminChainsHandler as adminChains,
+  adminProductsHandler as adminProducts,
   adminAssignChainHandler as adminAssignChain,
   adminAutoAssignChainsHandler as adminAutoAssignChains,
   adminFlaggedHandler as adminFlagged,
@@ -73,14 +81,33 @@ export {
   adminLiveVenuesHandler as adminLiveVenues,
   adminUpdateVenueStatusHandler as adminUpdateVenueStatus,
   adminVenueDishesHandler as adminVenueDishes,
+  adminVenueDeliveryZoneHandler as adminVenueDeliveryZone,
   // Duplicate detection endpoints
   adminFindDuplicateVenuesHandler as adminFindDuplicateVenues,
   adminDeleteDuplicateVenuesHandler as adminDeleteDuplicateVenues,
+  // Partner submission review endpoints
+  adminPartnerSubmissionsHandler as adminPartnerSubmissions,
+  adminReviewPartnerSubmissionsHandler as adminReviewPartnerSubmissions,
+  adminPromotePartnerSubmissionsHandler as adminPromotePartnerSubmissions,
+  // Partner callback endpoints
+  adminPartnerCallbacksHandler as adminPartnerCallbacks,
+  adminReplayPartnerCallbacksHandler as adminReplayPartnerCallbacks,
+  // Partner transformer endpoints
+  adminPartnerTransformersHandler as adminPartnerTransformers,
+  adminPartnerTransformerDryRunHandler as adminPartnerTransformerDryRun,
+  // Menu change history endpoints
+  adminMenuChangesHandler as adminMenuChanges,
+  // Dead letter queue endpoints
+  adminFailedOperationsHandler as adminFailedOperations,
+  adminFailedOperationActionsHandler as adminFailedOperationActions,
+  // Search index maintenance
+  adminSearchReindexHandler as adminSearchReindex,
 } from './functions/admin/index.js';
 
 // Partner API endpoints
 export {
   partnerWebhookHandler as partnerWebhook,
+  partnerUploadHandler as partnerUpload,
   partnerStatusHandler as partnerStatus,
   partnerBatchStatusHandler as partnerBatchStatus,
 } from './functions/partner/index.js';
@@ -103,3 +130,12 @@ export {
   scraperHealthHandler as scraperHealth,
   scraperHealthByIdHandler as scraperHealthById,
 } from './functions/scheduled/scraper-orchestrator.js';
+
+// Partner callback retries
+export { partnerCallbackRetries } from './functions/scheduled/partner-callbacks.js';
+
+// Dead letter queue retries
+export { deadLetterQueueDrain } from './functions/scheduled/dead-letter-queue.js';
+
+// Search index sync
+export { searchIndexVenueTrigger, searchIndexDishTrigger } from './functions/triggers/searchIndex.js';
@@ -38,8 +38,11 @@ function getRateLimitKey(req: Request, prefix: string): string {
 
 /**
  * Check and update rate limit in Firestore
+ *
+ * Counts across all function instances, so it also limits calls to
+ * external services (see services/geocoding.ts).
  */
-async function checkRateLimit(
+export async function checkRateLimit(
   key: string,
   windowMs: number,
   maxRequests: number
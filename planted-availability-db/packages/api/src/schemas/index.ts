@@ -1,2 +1,3 @@
 // API Request/Response Schemas
 export * from './requests.js';
+export * from './partner.js';
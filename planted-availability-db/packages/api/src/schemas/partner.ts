@@ -0,0 +1,246 @@
+/**
+ * Partner Ingestion Schemas
+ *
+ * The planted_standard payload accepted by the partner webhook. Custom
+ * partner formats are mapped onto this shape by a transformer first.
+ */
+
+import { z } from 'zod';
+import type { ValidationError } from '@pad/core';
+
+// Maximum items per request
+export const MAX_ITEMS = 100;
+
+export const venueDataSchema = z.object({
+  external_id: z.string().max(100).optional(),
+  type: z.enum(['restaurant', 'cafe', 'bar', 'food_truck', 'canteen', 'catering', 'retail', 'other']),
+  name: z.string().min(1).max(200),
+  chain_id: z.string().optional(),
+  address: z.object({
+    street: z.string().min(1).max(200),
+    city: z.string().min(1).max(100),
+    postal_code: z.string().min(1).max(20),
+    country: z.string().length(2),
+    raw_address: z.string().optional(),
+  }),
+  coordinates: z
+    .object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    })
+    .optional(),
+  opening_hours: z.record(z.array(z.object({ open: z.string(), close: z.string() }))).optional(),
+  contact: z
+    .object({
+      phone: z.string().optional(),
+      email: z.string().email().optional(),
+      website: z.string().url().optional(),
+    })
+    .optional(),
+  delivery_partners: z.array(z.string()).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const dishDataSchema = z.object({
+  external_id: z.string().max(100).optional(),
+  venue_external_id: z.string().max(100).optional(),
+  name: z.string().min(1).max(200),
+  name_localized: z.record(z.string()).optional(),
+  description: z.string().max(1000),
+  description_localized: z.record(z.string()).optional(),
+  planted_products: z.array(z.string()).optional(),
+  product_text: z.string().optional(), // Raw text for product mapping
+  price: z.object({
+    amount: z.number().positive(),
+    currency: z.string().length(3),
+  }),
+  image_url: z.string().url().optional(),
+  dietary_tags: z.array(z.string()).default([]),
+  cuisine_type: z.string().optional(),
+  availability: z
+    .object({
+      type: z.enum(['permanent', 'limited', 'seasonal']),
+      start_date: z.string().optional(),
+      end_date: z.string().optional(),
+      days_available: z.array(z.string()).optional(),
+    })
+    .default({ type: 'permanent' }),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const promotionDataSchema = z.object({
+  external_id: z.string().max(100).optional(),
+  venue_external_id: z.string().max(100).optional(),
+  chain_id: z.string().optional(),
+  promo_type: z.enum(['discount', 'bundle', 'loyalty', 'launch', 'seasonal', 'limited_time']),
+  title: z.string().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  product_skus: z.array(z.string()).default([]),
+  discount: z
+    .object({
+      type: z.enum(['percent', 'fixed']),
+      value: z.number().positive(),
+    })
+    .optional(),
+  image_url: z.string().url().optional(),
+  valid_from: z.string(),
+  valid_until: z.string(),
+  terms: z.string().max(2000).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const availabilityDataSchema = z.object({
+  external_id: z.string().max(100).optional(),
+  venue_external_id: z.string().max(100).optional(),
+  product_sku: z.string().min(1).max(50),
+  in_stock: z.boolean(),
+  price: z
+    .object({
+      regular: z.number().positive(),
+      sale: z.number().positive().optional(),
+      currency: z.string().length(3),
+    })
+    .optional(),
+  promotion_ref: z.string().optional(),
+  shelf_location: z.string().optional(),
+  verified_at: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const webhookPayloadSchema = z.object({
+  type: z.enum(['venue_update', 'menu_update', 'promotion', 'availability']),
+  idempotency_key: z.string().max(100).optional(),
+  venues: z.array(venueDataSchema).max(MAX_ITEMS).optional(),
+  dishes: z.array(dishDataSchema).max(MAX_ITEMS).optional(),
+  promotions: z.array(promotionDataSchema).max(MAX_ITEMS).optional(),
+  availability: z.array(availabilityDataSchema).max(MAX_ITEMS).optional(),
+});
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+// Maximum data rows per uploaded file (one Firestore write batch)
+export const MAX_FILE_ROWS = 500;
+
+// Maximum size of an uploaded file after base64 decoding
+export const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Target fields a spreadsheet column can be mapped to, per entity type.
+ * Nested fields use dot paths; 'list' values are split on the mapping's
+ * list_separator and 'number' values accept a decimal comma.
+ */
+export const FILE_MAPPING_FIELDS = {
+  venue: {
+    external_id: 'string',
+    type: 'string',
+    name: 'string',
+    chain_id: 'string',
+    'address.street': 'string',
+    'address.city': 'string',
+    'address.postal_code': 'string',
+    'address.country': 'string',
+    'address.raw_address': 'string',
+    'coordinates.lat': 'number',
+    'coordinates.lng': 'number',
+    'contact.phone': 'string',
+    'contact.email': 'string',
+    'contact.website': 'string',
+    delivery_partners: 'list',
+  },
+  dish: {
+    external_id: 'string',
+    venue_external_id: 'string',
+    name: 'string',
+    description: 'string',
+    product_text: 'string',
+    planted_products: 'list',
+    'price.amount': 'number',
+    'price.currency': 'string',
+    image_url: 'string',
+    dietary_tags: 'list',
+    cuisine_type: 'string',
+    'availability.type': 'string',
+    'availability.start_date': 'string',
+    'availability.end_date': 'string',
+    'availability.days_available': 'list',
+  },
+} as const satisfies Record<'venue' | 'dish', Record<string, 'string' | 'number' | 'list'>>;
+
+export type FileMappingEntityType = keyof typeof FILE_MAPPING_FIELDS;
+
+export const fileColumnMappingSchema = z
+  .object({
+    entity_type: z.enum(['venue', 'dish']),
+    /** Target field → column header */
+    columns: z.record(z.string().min(1)),
+    /** Values for target fields that have no column, e.g. a fixed currency */
+    defaults: z.record(z.string()).optional(),
+    /** Worksheet name (XLSX only, defaults to the first sheet) */
+    sheet: z.string().optional(),
+    /** 1-based row holding the column headers */
+    header_row: z.number().int().min(1).default(1),
+    list_separator: z.string().min(1).default(','),
+  })
+  .superRefine((mapping, ctx) => {
+    const fields: Record<string, string> = FILE_MAPPING_FIELDS[mapping.entity_type];
+    for (const [group, targets] of [
+      ['columns', Object.keys(mapping.columns)],
+      ['defaults', Object.keys(mapping.defaults ?? {})],
+    ] as const) {
+      for (const target of targets) {
+        if (!(target in fields)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [group, target],
+            message: `Unknown ${mapping.entity_type} field '${target}'`,
+          });
+        }
+      }
+    }
+  });
+
+export type FileColumnMapping = z.infer<typeof fileColumnMappingSchema>;
+
+export const fileUploadSchema = z.object({
+  file_name: z.string().min(1).max(200),
+  /** Inferred from the file_name extension when omitted */
+  file_type: z.enum(['csv', 'xlsx']).optional(),
+  /** File contents, base64 encoded (at most MAX_FILE_BYTES decoded) */
+  content_base64: z
+    .string()
+    .min(1)
+    .max(Math.ceil(MAX_FILE_BYTES / 3) * 4, `File must not exceed ${MAX_FILE_BYTES / 1024 / 1024} MB`),
+  mapping: fileColumnMappingSchema,
+  idempotency_key: z.string().max(100).optional(),
+});
+
+const RECORD_COLLECTIONS = ['venues', 'dishes', 'promotions', 'availability'];
+
+/**
+ * Convert zod issues into ingestion ValidationErrors. Issues inside a record
+ * list carry that record's index; payload-level issues use -1.
+ */
+export function toValidationErrors(error: z.ZodError, input: unknown): ValidationError[] {
+  return error.errors.map((issue) => {
+    const [collection, index] = issue.path;
+    const inRecord = RECORD_COLLECTIONS.includes(String(collection)) && typeof index === 'number';
+
+    return {
+      record_index: inRecord ? index : -1,
+      field: issue.path
+        .map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`))
+        .join(''),
+      error: issue.message,
+      value: valueAtPath(input, issue.path),
+    };
+  });
+}
+
+function valueAtPath(input: unknown, path: (string | number)[]): unknown {
+  let current = input;
+  for (const part of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[part];
+  }
+  return current;
+}
@@ -0,0 +1,204 @@
+/**
+ * File Ingestion Service
+ *
+ * Turns partner spreadsheets (CSV/XLSX) into staged-ready venue or dish
+ * records using a column mapping, and keeps the original file in Cloud
+ * Storage so every IngestionBatch can point back to it (raw_payload_ref).
+ *
+ * ValidationError.record_index is the spreadsheet row number (1-based, as
+ * shown in Excel), so partners can find rejected rows directly.
+ */
+
+import { createHash } from 'crypto';
+import { getStorage } from 'firebase-admin/storage';
+import type { ValidationError } from '@pad/core';
+import {
+  venueDataSchema,
+  dishDataSchema,
+  FILE_MAPPING_FIELDS,
+  MAX_FILE_ROWS,
+  type FileColumnMapping,
+  type WebhookPayload,
+} from '../../schemas/partner.js';
+import { parseCsv } from './csv.js';
+import { parseXlsx } from './xlsx.js';
+
+export { XlsxError } from './xlsx.js';
+
+export type SpreadsheetType = 'csv' | 'xlsx';
+
+type VenueRecord = NonNullable<WebhookPayload['venues']>[number];
+type DishRecord = NonNullable<WebhookPayload['dishes']>[number];
+
+export interface MappedRows {
+  /** Valid records with their spreadsheet row numbers */
+  venues: { row: number; record: VenueRecord }[];
+  dishes: { row: number; record: DishRecord }[];
+  /** Number of non-empty data rows */
+  total: number;
+  errors: ValidationError[];
+}
+
+const CONTENT_TYPES: Record<SpreadsheetType, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const UPLOAD_PREFIX = 'partner-uploads';
+
+/**
+ * File type from a file name extension
+ */
+export function inferFileType(fileName: string): SpreadsheetType | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'csv' || extension === 'xlsx' ? extension : undefined;
+}
+
+/**
+ * Parse a spreadsheet into rows of cells. XLSX rows are numbered by the
+ * file, so a workbook with values past `maxRows` fails with XlsxError
+ * instead of being read.
+ */
+export function readSpreadsheet(
+  file: Buffer,
+  fileType: SpreadsheetType,
+  sheet?: string,
+  maxRows?: number
+): string[][] {
+  return fileType === 'xlsx' ? parseXlsx(file, sheet, maxRows) : parseCsv(file.toString('utf8'));
+}
+
+/**
+ * Map spreadsheet rows onto venue or dish records and validate each row
+ */
+export function mapRows(rows: string[][], mapping: FileColumnMapping): MappedRows {
+  const result: MappedRows = { venues: [], dishes: [], total: 0, errors: [] };
+  const fields: Record<string, string> = FILE_MAPPING_FIELDS[mapping.entity_type];
+
+  // Resolve mapped column headers to column indexes
+  const headers = (rows[mapping.header_row - 1] ?? []).map((h) => h.trim().toLowerCase());
+  const columns: { target: string; header: string; index: number }[] = [];
+  for (const [target, header] of Object.entries(mapping.columns)) {
+    const index = headers.indexOf(header.trim().toLowerCase());
+    if (index < 0) {
+      result.errors.push({
+        record_index: -1,
+        field: target,
+        error: `Column '${header}' not found in header row ${mapping.header_row}`,
+      });
+    } else {
+      columns.push({ target, header, index });
+    }
+  }
+  if (result.errors.length > 0) return result;
+
+  const schema = mapping.entity_type === 'venue' ? venueDataSchema : dishDataSchema;
+
+  for (let i = mapping.header_row; i < rows.length; i++) {
+    const cells = rows[i] ?? [];
+    if (cells.every((cell) => cell.trim() === '')) continue;
+
+    const rowNumber = i + 1;
+    result.total++;
+    if (result.total > MAX_FILE_ROWS) {
+      result.errors.push({
+        record_index: rowNumber,
+        field: '',
+        error: `Row limit of ${MAX_FILE_ROWS} exceeded; remaining rows were not processed`,
+      });
+      result.total--;
+      break;
+    }
+
+    const record: Record<string, unknown> = {};
+    for (const [target, value] of Object.entries(mapping.defaults ?? {})) {
+      setPath(record, target, convert(value, fields[target], mapping.list_separator));
+    }
+    for (const { target, index } of columns) {
+      const cell = (cells[index] ?? '').trim();
+      if (cell !== '') {
+        setPath(record, target, convert(cell, fields[target], mapping.list_separator));
+      }
+    }
+
+    const validation = schema.safeParse(record);
+    if (!validation.success) {
+      for (const issue of validation.error.errors) {
+        const target = issue.path.join('.');
+        result.errors.push({
+          record_index: rowNumber,
+          field: columns.find((c) => c.target === target)?.header ?? target,
+          error: issue.message,
+          value: getPath(record, target),
+        });
+      }
+      continue;
+    }
+
+    if (mapping.entity_type === 'venue') {
+      result.venues.push({ row: rowNumber, record: validation.data as VenueRecord });
+    } else {
+      result.dishes.push({ row: rowNumber, record: validation.data as DishRecord });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Store an uploaded file in Cloud Storage
+ *
+ * @returns gs:// reference for IngestionBatch.source.raw_payload_ref
+ */
+export async function storeRawFile(
+  partnerId: string,
+  fileName: string,
+  fileType: SpreadsheetType,
+  file: Buffer
+): Promise<string> {
+  const hash = createHash('sha256').update(file).digest('hex').slice(0, 16);
+  const safeName = fileName.replace(/[^\w.-]+/g, '_');
+  const bucket = getStorage().bucket();
+  const path = `${UPLOAD_PREFIX}/${partnerId}/${Date.now()}-${hash}-${safeName}`;
+
+  await bucket.file(path).save(file, {
+    contentType: CONTENT_TYPES[fileType],
+    metadata: { metadata: { partner_id: partnerId, original_name: fileName } },
+  });
+
+  return `gs://${bucket.name}/${path}`;
+}
+
+function convert(value: string, type: string | undefined, listSeparator: string): unknown {
+  if (type === 'list') {
+    return value
+      .split(listSeparator)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (type === 'number') {
+    const number = Number(value.replace(/['\s]/g, '').replace(',', '.'));
+    // Keep the raw text so the validation error shows what was in the cell
+    return Number.isFinite(number) ? number : value;
+  }
+  return value;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let current = target;
+  for (const part of parts.slice(0, -1)) {
+    current[part] = (current[part] as Record<string, unknown>) ?? {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+function getPath(source: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, part) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined),
+      source
+    );
+}
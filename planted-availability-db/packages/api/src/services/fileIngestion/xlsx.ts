@@ -0,0 +1,253 @@
+/**
+ * XLSX Reader
+ *
+ * Minimal reader for Office Open XML spreadsheets: unzips the workbook,
+ * resolves shared strings and returns the cell values of one worksheet.
+ * Formatting is ignored, so dates come back as Excel serial numbers and
+ * formulas as their cached value.
+ *
+ * Uploads are untrusted: every zip offset is bounds-checked, and inflated
+ * sizes are limited by the sizes declared in the central directory and by
+ * MAX_UNCOMPRESSED_BYTES, so a zip bomb fails before it fills memory. Row and
+ * column numbers come from the sheet XML, so they are checked against the
+ * caller's row limit and Excel's sheet size before any array is sized by them.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Limit for the sum of all uncompressed entry sizes of a workbook */
+export const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+/** Excel's sheet size */
+export const MAX_SHEET_ROWS = 1_048_576;
+export const MAX_SHEET_COLUMNS = 16_384;
+
+/**
+ * Thrown when a file isn't a readable XLSX workbook
+ */
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+/**
+ * Read a worksheet (the first one unless `sheetName` is given) into rows of
+ * cells. Row i is sheet row i + 1; missing rows and cells are empty, and
+ * rows and cells end at the last one with a value. A value past row `maxRows`
+ * fails the read, so the result never has more than `maxRows` rows.
+ */
+export function parseXlsx(buffer: Buffer, sheetName?: string, maxRows = MAX_SHEET_ROWS): string[][] {
+  const entries = readZip(buffer);
+  const read = (path: string): string | undefined => entries.get(path)?.toString('utf8');
+
+  const sheetPath = resolveSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'), sheetName);
+  const sheetXml = read(sheetPath);
+  if (!sheetXml) {
+    throw new XlsxError(sheetName ? `Sheet '${sheetName}' not found` : 'Workbook has no worksheets');
+  }
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const rows: string[][] = [];
+  let rowNumber = 0;
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowRef = attribute(rowMatch[1], 'r');
+    rowNumber = rowRef ? Number(rowRef) : rowNumber + 1;
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > MAX_SHEET_ROWS) {
+      throw new XlsxError(`Invalid row number '${rowRef}'`);
+    }
+
+    // Sparse until the end of the row, where it is filled up to the last value
+    const cells: string[] = [];
+    let column = -1;
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], 'r');
+      column = ref ? columnIndex(ref) : column + 1;
+      if (!(column >= 0 && column < MAX_SHEET_COLUMNS)) {
+        throw new XlsxError(`Invalid cell reference '${ref}'`);
+      }
+
+      const value = cellValue(attribute(cellMatch[1], 't'), cellMatch[2] ?? '', sharedStrings);
+      if (value !== '') cells[column] = value;
+    }
+    // Formatting alone keeps empty rows and cells in the XML, often far below the data
+    if (cells.length === 0) continue;
+
+    if (rowNumber > maxRows) {
+      throw new XlsxError(`Row ${rowNumber} is past the limit of ${maxRows} rows`);
+    }
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? '');
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+}
+
+function cellValue(type: string | undefined, inner: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return textContent(inner);
+  }
+
+  const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+  if (raw === undefined) return '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'b':
+      return raw === '1' ? 'true' : 'false';
+    default:
+      return decodeXml(raw);
+  }
+}
+
+function parseSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => textContent(match[1]));
+}
+
+/**
+ * Concatenated <t> runs (rich text splits a string into several)
+ */
+function textContent(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+function resolveSheetPath(
+  workbookXml: string | undefined,
+  relsXml: string | undefined,
+  sheetName?: string
+): string {
+  if (!workbookXml) {
+    throw new XlsxError('Not an XLSX workbook');
+  }
+
+  const sheets = Array.from(workbookXml.matchAll(/<sheet\b([^>]*)\/?>/g), (match) => ({
+    name: decodeXml(attribute(match[1], 'name') ?? ''),
+    relId: attribute(match[1], 'r:id'),
+  }));
+  const sheet = sheetName ? sheets.find((s) => s.name === sheetName) : sheets[0];
+  if (!sheet) {
+    throw new XlsxError(sheetName ? `Sheet '${sheetName}' not found` : 'Workbook has no worksheets');
+  }
+
+  for (const match of (relsXml ?? '').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(match[1], 'Id') === sheet.relId) {
+      const target = attribute(match[1], 'Target') ?? '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return `xl/worksheets/sheet${sheets.indexOf(sheet) + 1}.xml`;
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const escaped = name.replace(':', '\\:');
+  return new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+/**
+ * Zero-based column index of a cell reference ("C7" → 2), NaN if it isn't one
+ */
+function columnIndex(ref: string): number {
+  const letters = /^([A-Z]{1,3})\d+$/.exec(ref)?.[1];
+  if (!letters) return NaN;
+
+  let index = 0;
+  for (const char of letters) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read all files of a ZIP archive via its central directory
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  try {
+    return readZipEntries(buffer);
+  } catch (error) {
+    if (error instanceof XlsxError) throw error;
+    // Out-of-range reads and zlib errors both mean the archive is damaged
+    throw new XlsxError('Corrupt XLSX workbook');
+  }
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new XlsxError('Not an XLSX workbook');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const files = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocd || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new XlsxError('Corrupt XLSX workbook');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    if (offset + 46 + nameLength > eocd) {
+      throw new XlsxError('Corrupt XLSX workbook');
+    }
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // ZIP64 size markers (0xFFFFFFFF) fail this check as well
+    totalSize += uncompressedSize;
+    if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new XlsxError(`Workbook exceeds ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB uncompressed`);
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new XlsxError('Corrupt XLSX workbook');
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new XlsxError('Corrupt XLSX workbook');
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      // Inflating past the declared size throws, which readZip reports as corrupt
+      files.set(name, inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) }));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
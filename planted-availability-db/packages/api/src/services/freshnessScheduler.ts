@@ -0,0 +1,169 @@
+/**
+ * Freshness Scheduler
+ *
+ * Picks venues due for re-verification and queues one verification job
+ * per venue and delivery platform. Jobs are grouped by platform and
+ * country; each group is checked against the scraper budget before it is
+ * queued. The jobs are processed by the scrapers' verification worker
+ * (`pnpm --filter @pad/scrapers verify-venues`), which refreshes
+ * last_verified and records a scraper run.
+ */
+
+import { deliveryPartnerSchema, type DeliveryPartner, type DeliveryPlatformLink, type Venue } from '@pad/core';
+import { venues, verificationJobs, type CreateVerificationJobInput } from '@pad/database';
+import { canAffordScraperRun } from './budgetThrottle.js';
+
+// Re-verify before the hourly freshness check marks venues stale (7 days)
+export const REVERIFY_AFTER_DAYS = 5;
+
+// Venues considered per orchestrator run
+export const MAX_VENUES_PER_RUN = 300;
+
+// Per-job cost estimate for the budget check. Jobs carry the venue's
+// platform URL, so no search queries are made; a page whose menu the
+// adapter can't parse falls back to one AI extraction, budgeted for every
+// job as the worst case.
+const SEARCH_QUERIES_PER_JOB = 0;
+const AI_CALLS_PER_JOB = 1;
+
+export interface VerificationJobGroup {
+  platform: DeliveryPartner;
+  country: string;
+  jobs: CreateVerificationJobInput[];
+}
+
+export interface VerificationPlan {
+  groups: VerificationJobGroup[];
+  /** Venues without an active delivery platform link (nothing to re-check) */
+  unverifiable: string[];
+}
+
+export interface GroupScheduleResult {
+  platform: DeliveryPartner;
+  country: string;
+  queued: number;
+  skipped_duplicates: number;
+  estimated_cost: number;
+  deferred?: string;
+}
+
+export interface ScheduleResult {
+  venues_selected: number;
+  jobs_queued: number;
+  jobs_skipped: number;
+  jobs_deferred: number;
+  unverifiable: number;
+  groups: GroupScheduleResult[];
+}
+
+/**
+ * Delivery partner of a venue's platform link. Venues synced from
+ * discovery store the discovery platform name instead ({ platform: 'uber-eats' }).
+ */
+function getLinkPartner(link: DeliveryPlatformLink & { platform?: string }): DeliveryPartner | null {
+  const name = link.partner ?? link.platform?.replace(/-/g, '_');
+  const parsed = deliveryPartnerSchema.safeParse(name);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Build verification jobs for venues, grouped by platform and country.
+ * Groups are ordered by their stalest venue (venues come in ascending
+ * last_verified order), so the oldest data is scheduled first.
+ */
+export function planVerificationJobs(staleVenues: Venue[], scheduledBy?: string): VerificationPlan {
+  const groups = new Map<string, VerificationJobGroup>();
+  const unverifiable: string[] = [];
+
+  for (const venue of staleVenues) {
+    const links = (venue.delivery_platforms ?? [])
+      .filter((link) => link.active !== false && link.url)
+      .map((link) => ({ url: link.url, partner: getLinkPartner(link) }))
+      .filter((link): link is { url: string; partner: DeliveryPartner } => link.partner !== null);
+    if (links.length === 0) {
+      unverifiable.push(venue.id);
+      continue;
+    }
+
+    const country = venue.address.country.toUpperCase();
+    for (const link of links) {
+      const key = `${link.partner}:${country}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { platform: link.partner, country, jobs: [] };
+        groups.set(key, group);
+      }
+      group.jobs.push({
+        venue_id: venue.id,
+        venue_name: venue.name,
+        platform: link.partner,
+        url: link.url,
+        country,
+        scheduled_by: scheduledBy,
+      });
+    }
+  }
+
+  return { groups: [...groups.values()], unverifiable };
+}
+
+/**
+ * Queue verification jobs for venues not verified in `REVERIFY_AFTER_DAYS`.
+ *
+ * Once a group can't be afforded, it and all following groups are
+ * deferred to the next run.
+ */
+export async function scheduleVerificationJobs(
+  options: { scheduledBy?: string; maxVenues?: number } = {}
+): Promise<ScheduleResult> {
+  const staleVenues = await venues.getStaleVenues(
+    REVERIFY_AFTER_DAYS,
+    options.maxVenues ?? MAX_VENUES_PER_RUN,
+    ['active', 'stale']
+  );
+  const plan = planVerificationJobs(staleVenues, options.scheduledBy);
+
+  const result: ScheduleResult = {
+    venues_selected: staleVenues.length,
+    jobs_queued: 0,
+    jobs_skipped: 0,
+    jobs_deferred: 0,
+    unverifiable: plan.unverifiable.length,
+    groups: [],
+  };
+
+  let deferReason: string | undefined;
+
+  for (const group of plan.groups) {
+    const base = { platform: group.platform, country: group.country, queued: 0, skipped_duplicates: 0 };
+
+    if (deferReason) {
+      result.jobs_deferred += group.jobs.length;
+      result.groups.push({ ...base, estimated_cost: 0, deferred: deferReason });
+      continue;
+    }
+
+    const budget = await canAffordScraperRun(
+      group.jobs.length * SEARCH_QUERIES_PER_JOB,
+      group.jobs.length * AI_CALLS_PER_JOB
+    );
+    if (!budget.canAfford) {
+      deferReason = budget.reason ?? 'Budget exceeded';
+      result.jobs_deferred += group.jobs.length;
+      result.groups.push({ ...base, estimated_cost: budget.estimatedCost, deferred: deferReason });
+      continue;
+    }
+
+    const { queued, skipped } = await verificationJobs.enqueueMany(group.jobs);
+    result.jobs_queued += queued.length;
+    result.jobs_skipped += skipped;
+    result.groups.push({
+      ...base,
+      queued: queued.length,
+      skipped_duplicates: skipped,
+      estimated_cost: budget.estimatedCost,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,446 @@
+/**
+ * Postal Code Geocoding Service
+ *
+ * Resolves a postal code + country to coordinates.
+ *
+ * Lookup order:
+ * 1. GeoNames postal code dump (data/postal-codes.txt or POSTAL_CODES_DB_PATH),
+ *    downloaded before every deploy by scripts/fetch-postal-codes.sh, on top
+ *    of the small bundled table in services/postalCodeData.ts
+ * 2. Fallback provider (Nominatim by default, GEOCODING_PROVIDER=none to disable)
+ * 3. Area centroid from the dataset when only the code prefix is known
+ *
+ * Free-form addresses (delivery/check) always go to the fallback provider.
+ *
+ * Provider results are cached in memory, and provider calls share one
+ * Firestore rate limit across all function instances. Calls over the limit
+ * are not queued: postal codes fall back to the area centroid and address
+ * lookups return null.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { hasRegionalHolidays } from '@pad/core';
+import { POSTAL_CODE_DATA, type PostalCodeEntry } from './postalCodeData.js';
+import { checkRateLimit } from '../middleware/withRateLimit.js';
+
+export interface PostalCodeLocation {
+  postal_code: string;
+  country: string;
+  lat: number;
+  lng: number;
+  place_name: string | null;
+  /** Canton, state or UK nation code (Address.region), where holidays differ by region */
+  region: string | null;
+  /** 'exact' for the postal code itself, 'approximate' for an area centroid */
+  accuracy: 'exact' | 'approximate';
+  /** 'dataset' or the fallback provider's name */
+  source: string;
+}
+
+export interface AddressLocation {
+  lat: number;
+  lng: number;
+  /** Postal code of the match, when the provider returns one */
+  postal_code: string | null;
+  place_name: string | null;
+  source: string;
+}
+
+/**
+ * Fallback lookup for codes the dataset doesn't know
+ */
+export interface PostalCodeProvider {
+  name: string;
+  lookup(postalCode: string, country: string): Promise<Omit<PostalCodeLocation, 'source'> | null>;
+  /** Optional free-form address search */
+  lookupAddress?(address: string, country: string | undefined): Promise<Omit<AddressLocation, 'source'> | null>;
+}
+
+export interface PostalCodeGeocoderConfig {
+  datasetPath?: string;
+  /** null disables the fallback */
+  fallbackProvider?: PostalCodeProvider | null;
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+}
+
+// Loose per-country formats, checked after normalization
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  CH: /^\d{4}$/,
+  AT: /^\d{4}$/,
+  BE: /^\d{4}$/,
+  LU: /^\d{4}$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  PL: /^\d{5}$/,
+  NL: /^\d{4}([A-Z]{2})?$/,
+  UK: /^[A-Z]{1,2}\d[A-Z\d]?(\d[A-Z]{2})?$/,
+};
+
+const DEFAULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const NOT_FOUND_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+const DEFAULT_MAX_CACHE_ENTRIES = 5000;
+
+/**
+ * Normalize a country code (GB -> UK, as used across PAD)
+ */
+export function normalizeCountry(country: string): string {
+  const code = country.trim().toUpperCase();
+  return code === 'GB' ? 'UK' : code;
+}
+
+/**
+ * Normalize a postal code for lookups ("sw1a 1aa" -> "SW1A1AA", "L-1234" -> "1234")
+ */
+export function normalizePostalCode(postalCode: string, country: string): string {
+  const code = postalCode.trim().toUpperCase().replace(/[\s-]/g, '');
+  return normalizeCountry(country) === 'LU' ? code.replace(/^L/, '') : code;
+}
+
+/**
+ * Whether a postal code looks valid for the country (unknown countries pass)
+ */
+export function isValidPostalCode(postalCode: string, country: string): boolean {
+  const pattern = POSTAL_CODE_PATTERNS[normalizeCountry(country)];
+  return !pattern || pattern.test(normalizePostalCode(postalCode, country));
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  address?: { city?: string; town?: string; village?: string; suburb?: string; postcode?: string };
+}
+
+function placeName(address: NominatimResult['address']): string | null {
+  return address?.city || address?.town || address?.village || address?.suburb || null;
+}
+
+/**
+ * Reserve one provider call; false when the limit is used up
+ */
+export type ProviderRateLimiter = () => Promise<boolean>;
+
+/**
+ * Thrown when a provider call is refused by the rate limit
+ */
+export class ProviderRateLimitError extends Error {
+  constructor(provider: string) {
+    super(`${provider} rate limit reached`);
+    this.name = 'ProviderRateLimitError';
+  }
+}
+
+/**
+ * One request per second across all function instances (Firestore-backed)
+ */
+export function sharedRateLimiter(key: string, windowMs = 1000): ProviderRateLimiter {
+  return async () => (await checkRateLimit(key, windowMs, 1)).allowed;
+}
+
+/**
+ * Nominatim (OpenStreetMap) postal code and address search
+ *
+ * Public instance allows at most 1 request per second and requires a
+ * descriptive User-Agent. The limit is shared by every function instance;
+ * point NOMINATIM_URL at a hosted instance for more.
+ */
+export class NominatimProvider implements PostalCodeProvider {
+  name = 'nominatim';
+
+  constructor(
+    private readonly baseUrl = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+    private readonly rateLimiter: ProviderRateLimiter = sharedRateLimiter('geocoding_nominatim')
+  ) {}
+
+  async lookup(postalCode: string, country: string): Promise<Omit<PostalCodeLocation, 'source'> | null> {
+    await this.acquire();
+
+    const countryCode = country === 'UK' ? 'gb' : country.toLowerCase();
+    const params = new URLSearchParams({
+      postalcode: postalCode,
+      countrycodes: countryCode,
+      format: 'json',
+      addressdetails: '1',
+      limit: '1',
+    });
+
+    const result = await this.search(params);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      postal_code: postalCode,
+      country,
+      lat: parseFloat(result.lat),
+      lng: parseFloat(result.lon),
+      place_name: placeName(result.address),
+      region: null,
+      accuracy: 'exact',
+    };
+  }
+
+  async lookupAddress(address: string, country: string | undefined): Promise<Omit<AddressLocation, 'source'> | null> {
+    await this.acquire();
+
+    const params = new URLSearchParams({
+      q: address,
+      format: 'json',
+      addressdetails: '1',
+      limit: '1',
+    });
+    if (country) {
+      params.set('countrycodes', country === 'UK' ? 'gb' : country.toLowerCase());
+    }
+
+    const result = await this.search(params);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      lat: parseFloat(result.lat),
+      lng: parseFloat(result.lon),
+      postal_code: result.address?.postcode ?? null,
+      place_name: placeName(result.address),
+    };
+  }
+
+  private async search(params: URLSearchParams): Promise<NominatimResult | null> {
+    const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+      headers: { 'User-Agent': 'PlantedAvailabilityDB/1.0 (https://eatplanted.com)' },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim API error: ${response.status}`);
+    }
+
+    const results = await response.json() as NominatimResult[];
+    return results[0] ?? null;
+  }
+
+  private async acquire(): Promise<void> {
+    if (!(await this.rateLimiter())) {
+      throw new ProviderRateLimitError(this.name);
+    }
+  }
+}
+
+export class PostalCodeGeocoder {
+  private entries: Record<string, Record<string, PostalCodeEntry>>;
+  private fallbackProvider: PostalCodeProvider | null;
+  private cache = new Map<string, { location: PostalCodeLocation | null; expires: number }>();
+  private inFlight = new Map<string, Promise<PostalCodeLocation | null>>();
+  private addressCache = new Map<string, { location: AddressLocation | null; expires: number }>();
+  private readonly cacheTtlMs: number;
+  private readonly maxCacheEntries: number;
+
+  constructor(config: PostalCodeGeocoderConfig = {}) {
+    this.cacheTtlMs = config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxCacheEntries = config.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.fallbackProvider = config.fallbackProvider !== undefined
+      ? config.fallbackProvider
+      : process.env.GEOCODING_PROVIDER === 'none' ? null : new NominatimProvider();
+
+    this.entries = Object.fromEntries(
+      Object.entries(POSTAL_CODE_DATA).map(([country, codes]) => [country, { ...codes }])
+    );
+
+    const datasetPath = config.datasetPath ||
+                        process.env.POSTAL_CODES_DB_PATH ||
+                        path.join(process.cwd(), 'data', 'postal-codes.txt');
+
+    if (fs.existsSync(datasetPath)) {
+      try {
+        const count = this.loadGeoNames(fs.readFileSync(datasetPath, 'utf-8'));
+        console.log(`Postal code dataset loaded (${count} codes)`);
+      } catch (error) {
+        console.warn('Failed to load postal code dataset:', error);
+      }
+    }
+  }
+
+  /**
+   * Resolve a postal code to coordinates, or null if unknown
+   */
+  async lookup(postalCode: string, country: string): Promise<PostalCodeLocation | null> {
+    const countryCode = normalizeCountry(country);
+    const code = normalizePostalCode(postalCode, countryCode);
+
+    const exact = this.entries[countryCode]?.[code];
+    if (exact) {
+      return this.toLocation(code, countryCode, exact, 'exact');
+    }
+
+    const cacheKey = `${countryCode}:${code}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      return cached.location;
+    }
+
+    // Share one provider call between concurrent lookups of the same code
+    let pending = this.inFlight.get(cacheKey);
+    if (!pending) {
+      pending = this.resolve(code, countryCode).finally(() => this.inFlight.delete(cacheKey));
+      this.inFlight.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Resolve a free-form address via the fallback provider, or null if it
+   * can't be found (or no provider supports address search)
+   */
+  async lookupAddress(address: string, country?: string): Promise<AddressLocation | null> {
+    const provider = this.fallbackProvider;
+    if (!provider?.lookupAddress) {
+      return null;
+    }
+
+    const countryCode = country ? normalizeCountry(country) : undefined;
+    const cacheKey = `${countryCode ?? '*'}:${address.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+    const cached = this.addressCache.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      return cached.location;
+    }
+
+    try {
+      const result = await provider.lookupAddress(address, countryCode);
+      const location = result ? { ...result, source: provider.name } : null;
+      this.rememberIn(this.addressCache, cacheKey, location, location ? this.cacheTtlMs : NOT_FOUND_CACHE_TTL_MS);
+      return location;
+    } catch (error) {
+      console.warn(`Address lookup failed for "${address}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Swap the fallback provider (null disables it)
+   */
+  setFallbackProvider(provider: PostalCodeProvider | null): void {
+    this.fallbackProvider = provider;
+    this.cache.clear();
+    this.addressCache.clear();
+  }
+
+  private async resolve(code: string, country: string): Promise<PostalCodeLocation | null> {
+    if (this.fallbackProvider) {
+      try {
+        const result = await this.fallbackProvider.lookup(code, country);
+        if (result) {
+          const location = { ...result, source: this.fallbackProvider.name };
+          this.remember(`${country}:${code}`, location, this.cacheTtlMs);
+          return location;
+        }
+      } catch (error) {
+        // Don't cache provider errors; fall back to the area centroid for now
+        console.warn(`Postal code provider failed for ${country} ${code}:`, error);
+        return this.lookupArea(code, country);
+      }
+    }
+
+    const area = this.lookupArea(code, country);
+    this.remember(`${country}:${code}`, area, area ? this.cacheTtlMs : NOT_FOUND_CACHE_TTL_MS);
+    return area;
+  }
+
+  /**
+   * Longest matching prefix in the dataset (area letters for UK postcodes)
+   */
+  private lookupArea(code: string, country: string): PostalCodeLocation | null {
+    const codes = this.entries[country];
+    if (!codes) return null;
+
+    const minLength = country === 'UK'
+      ? (code.match(/^[A-Z]+/)?.[0].length ?? code.length)
+      : country === 'LU' ? 1 : 2;
+
+    for (let length = code.length - 1; length >= minLength; length--) {
+      const entry = codes[code.slice(0, length)];
+      if (entry) {
+        return this.toLocation(code, country, entry, 'approximate');
+      }
+    }
+    return null;
+  }
+
+  private toLocation(
+    code: string,
+    country: string,
+    [lat, lng, placeName, region]: PostalCodeEntry,
+    accuracy: PostalCodeLocation['accuracy']
+  ): PostalCodeLocation {
+    return {
+      postal_code: code,
+      country,
+      lat,
+      lng,
+      place_name: placeName,
+      region: region ?? null,
+      accuracy,
+      source: 'dataset',
+    };
+  }
+
+  private remember(key: string, location: PostalCodeLocation | null, ttlMs: number): void {
+    this.rememberIn(this.cache, key, location, ttlMs);
+  }
+
+  private rememberIn<T>(
+    cache: Map<string, { location: T | null; expires: number }>,
+    key: string,
+    location: T | null,
+    ttlMs: number
+  ): void {
+    if (cache.size >= this.maxCacheEntries) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { location, expires: Date.now() + ttlMs });
+  }
+
+  /**
+   * Load a GeoNames postal code dump
+   * (country, postal code, place name, admin1-3 name/code, lat, lng, accuracy)
+   *
+   * admin1 codes are cantons (CH), states (DE) and nations (GB), kept as the
+   * region where holidays differ by region.
+   */
+  private loadGeoNames(content: string): number {
+    let count = 0;
+    for (const line of content.split('\n')) {
+      const fields = line.split('\t');
+      if (fields.length < 11) continue;
+
+      const country = normalizeCountry(fields[0]);
+      const lat = parseFloat(fields[9]);
+      const lng = parseFloat(fields[10]);
+      if (isNaN(lat) || isNaN(lng)) continue;
+
+      const region = hasRegionalHolidays(country) && fields[4] ? fields[4].toUpperCase() : undefined;
+      this.entries[country] ??= {};
+      this.entries[country][normalizePostalCode(fields[1], country)] = [lat, lng, fields[2], region];
+      count++;
+    }
+    return count;
+  }
+}
+
+// Singleton instance
+let postalCodeGeocoder: PostalCodeGeocoder | null = null;
+
+/**
+ * Get or create the postal code geocoder
+ */
+export function getPostalCodeGeocoder(): PostalCodeGeocoder {
+  if (!postalCodeGeocoder) {
+    postalCodeGeocoder = new PostalCodeGeocoder();
+  }
+  return postalCodeGeocoder;
+}
@@ -0,0 +1,147 @@
+/**
+ * In-Memory Search Provider
+ *
+ * Local stand-in for the Algolia indexes, for tests and the emulator.
+ * Mirrors SearchService: prefix matching on the same searchable
+ * attributes, the same filters, geo radius filtering and ranking by
+ * distance (with coordinates) or last_verified.
+ */
+
+import { calculateDistance } from '@pad/core';
+import {
+  DEFAULT_SEARCH_RADIUS_KM,
+  type DishSearchOptions,
+  type DishSearchRecord,
+  type SearchProvider,
+  type SearchResult,
+  type VenueSearchOptions,
+  type VenueSearchRecord,
+} from './search.js';
+
+/**
+ * Lowercase words without diacritics ("Zürich" -> ["zurich"])
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function matchesQuery(queryTokens: string[], searchable: Array<string | undefined>): boolean {
+  const words = searchable.flatMap((value) => (value ? tokenize(value) : []));
+  return queryTokens.every((token) => words.some((word) => word.startsWith(token)));
+}
+
+function sameText(a: string, b: string): boolean {
+  return tokenize(a).join(' ') === tokenize(b).join(' ');
+}
+
+export class InMemorySearchService implements SearchProvider {
+  private venues = new Map<string, VenueSearchRecord>();
+  private dishes = new Map<string, DishSearchRecord>();
+
+  async configureIndexes(): Promise<void> {
+    // Nothing to configure
+  }
+
+  async indexVenues(records: VenueSearchRecord[]): Promise<void> {
+    for (const record of records) {
+      this.venues.set(record.objectID, record);
+    }
+  }
+
+  async indexDishes(records: DishSearchRecord[]): Promise<void> {
+    for (const record of records) {
+      this.dishes.set(record.objectID, record);
+    }
+  }
+
+  async removeVenues(venueIds: string[]): Promise<void> {
+    for (const id of venueIds) {
+      this.venues.delete(id);
+    }
+  }
+
+  async removeDishes(dishIds: string[]): Promise<void> {
+    for (const id of dishIds) {
+      this.dishes.delete(id);
+    }
+  }
+
+  async replaceAll(venues: VenueSearchRecord[], dishes: DishSearchRecord[]): Promise<void> {
+    this.venues = new Map(venues.map((record) => [record.objectID, record]));
+    this.dishes = new Map(dishes.map((record) => [record.objectID, record]));
+  }
+
+  async searchVenues(query: string, options?: VenueSearchOptions): Promise<SearchResult<VenueSearchRecord>> {
+    const tokens = tokenize(query);
+    const candidates = [...this.venues.values()].filter(
+      (record) =>
+        record.status === 'active' &&
+        (!options?.type || record.type === options.type) &&
+        (!options?.country || record.address_country === options.country) &&
+        (!options?.city || sameText(record.address_city, options.city)) &&
+        matchesQuery(tokens, [record.name, record.chain_name, record.address_city, record.address_street])
+    );
+    return this.rank(candidates, options);
+  }
+
+  async searchDishes(query: string, options?: DishSearchOptions): Promise<SearchResult<DishSearchRecord>> {
+    const tokens = tokenize(query);
+    const candidates = [...this.dishes.values()].filter(
+      (record) =>
+        record.status === 'active' &&
+        (!options?.plantedProduct || record.planted_products.includes(options.plantedProduct)) &&
+        (options?.dietaryTags ?? []).every((tag) => record.dietary_tags.includes(tag)) &&
+        (!options?.cuisineType || record.cuisine_type === options.cuisineType) &&
+        (!options?.country || record.venue_country === options.country) &&
+        (!options?.city || sameText(record.venue_city, options.city)) &&
+        matchesQuery(tokens, [
+          record.name,
+          ...Object.values(record.name_localized ?? {}),
+          record.description,
+          record.venue_name,
+          ...record.planted_products,
+          record.cuisine_type,
+        ])
+    );
+    return this.rank(candidates, options);
+  }
+
+  /**
+   * Number of indexed venue and dish records
+   */
+  get size(): { venues: number; dishes: number } {
+    return { venues: this.venues.size, dishes: this.dishes.size };
+  }
+
+  private rank<T extends VenueSearchRecord | DishSearchRecord>(
+    records: T[],
+    options?: VenueSearchOptions | DishSearchOptions
+  ): SearchResult<T> {
+    let ranked: T[];
+
+    if (options?.lat !== undefined && options?.lng !== undefined) {
+      const origin = { latitude: options.lat, longitude: options.lng };
+      const radiusKm = options.radiusKm || DEFAULT_SEARCH_RADIUS_KM;
+      ranked = records
+        .map((record) => ({
+          record,
+          distance: calculateDistance(origin, { latitude: record._geoloc.lat, longitude: record._geoloc.lng }),
+        }))
+        .filter(({ distance }) => distance <= radiusKm)
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ record }) => record);
+    } else {
+      ranked = [...records].sort((a, b) => b.last_verified - a.last_verified);
+    }
+
+    return {
+      hits: ranked.slice(0, options?.limit || 20),
+      nbHits: ranked.length,
+    };
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Partner Callbacks Service
+ *
+ * Sends signed status callbacks to Partner.config.callback_url so partner
+ * integrations don't need to poll partnerBatchStatus.
+ *
+ * Requests are signed exactly like inbound webhooks (see verifyWebhookSignature):
+ *   X-Planted-Signature: hex HMAC-SHA256 of `${timestamp}.${body}` with the webhook secret
+ *   X-Planted-Timestamp: Unix timestamp (seconds), refreshed on every attempt
+ *
+ * Every event is logged in partner_callbacks. The first attempt is made
+ * immediately; failures are retried by processDueCallbacks with backoff
+ * and end up 'failed' once CALLBACK_RETRY_DELAYS_MS is exhausted.
+ */
+
+import { ingestionBatches, partnerCallbacks, partners } from '@pad/database';
+import type {
+  BatchStatus,
+  CallbackDeliveryAttempt,
+  CallbackDeliveryStatus,
+  PartnerCallbackDelivery,
+  PartnerCallbackEvent,
+} from '@pad/core';
+import type { StagedEntityType } from './stagingPromotion.js';
+
+/** Delay before each retry; the number of entries bounds the attempts */
+export const CALLBACK_RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  6 * 60 * 60 * 1000, // 6 hours
+];
+
+const CALLBACK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Statuses partners are told about. The intermediate pipeline statuses
+ * (received, validating, ...) pass within a single webhook request.
+ */
+const CALLBACK_BATCH_STATUSES: BatchStatus[] = [
+  'pending_review',
+  'approved',
+  'partially_approved',
+  'rejected',
+  'failed',
+];
+
+export interface ReviewedRecord {
+  entity_type: StagedEntityType;
+  id: string;
+  external_id?: string;
+  decision: 'approved' | 'rejected';
+  notes?: string;
+  /** Production ID when the record was promoted */
+  production_id?: string;
+}
+
+/**
+ * Notify the partner that a batch reached a new status
+ */
+export async function notifyBatchStatusChanged(
+  batchId: string,
+  previousStatus?: BatchStatus
+): Promise<void> {
+  try {
+    const batch = await ingestionBatches.getById(batchId);
+    if (!batch || batch.status === previousStatus || !CALLBACK_BATCH_STATUSES.includes(batch.status)) {
+      return;
+    }
+
+    await enqueue(batch.partner_id, batchId, 'batch.status_changed', {
+      batch: {
+        id: batch.id,
+        status: batch.status,
+        previous_status: previousStatus,
+        stats: batch.stats,
+        review: batch.review
+          ? {
+              required: batch.review.required,
+              decision: batch.review.decision,
+              reviewed_at: batch.review.reviewed_at?.toISOString(),
+            }
+          : undefined,
+      },
+    });
+  } catch (error) {
+    console.error(`[PartnerCallbacks] Failed to notify status of batch ${batchId}:`, error);
+  }
+}
+
+/**
+ * Notify the partner that staged records in a batch were approved or rejected
+ */
+export async function notifyRecordsReviewed(
+  batchId: string,
+  records: ReviewedRecord[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  try {
+    const batch = await ingestionBatches.getById(batchId);
+    if (!batch) return;
+
+    await enqueue(batch.partner_id, batchId, 'records.reviewed', {
+      batch: { id: batch.id, status: batch.status },
+      records,
+    });
+  } catch (error) {
+    console.error(`[PartnerCallbacks] Failed to notify reviews in batch ${batchId}:`, error);
+  }
+}
+
+/**
+ * Attempt one delivery and schedule a retry or give up on failure
+ */
+export async function deliverCallback(deliveryId: string): Promise<CallbackDeliveryStatus> {
+  const delivery = await partnerCallbacks.getById(deliveryId);
+  if (!delivery) {
+    throw new Error(`Callback delivery ${deliveryId} not found`);
+  }
+  if (delivery.status === 'delivered') {
+    return delivery.status;
+  }
+
+  const attempt = await sendSigned(delivery);
+
+  const succeeded = attempt.status_code !== undefined && attempt.status_code >= 200 && attempt.status_code < 300;
+  const replayedAt = delivery.replayed_at;
+  const retryIndex = delivery.attempts.filter((a) => !replayedAt || a.attempted_at >= replayedAt).length;
+  const retryDelay = CALLBACK_RETRY_DELAYS_MS[retryIndex];
+
+  let status: CallbackDeliveryStatus;
+  let nextAttemptAt: Date | undefined;
+  if (succeeded) {
+    status = 'delivered';
+  } else if (retryDelay !== undefined) {
+    status = 'retrying';
+    nextAttemptAt = new Date(Date.now() + retryDelay);
+  } else {
+    status = 'failed';
+  }
+
+  await partnerCallbacks.recordAttempt(delivery.id, attempt, {
+    status,
+    next_attempt_at: nextAttemptAt,
+  });
+
+  if (status === 'failed') {
+    console.warn(
+      `[PartnerCallbacks] Giving up on ${delivery.event} for partner ${delivery.partner_id} ` +
+        `(delivery ${delivery.id}): ${attempt.error || `HTTP ${attempt.status_code}`}`
+    );
+  }
+
+  return status;
+}
+
+/**
+ * Retry every delivery whose backoff has elapsed
+ */
+export async function processDueCallbacks(limit: number = 50): Promise<{
+  processed: number;
+  delivered: number;
+  failed: number;
+}> {
+  const due = await partnerCallbacks.getDue(limit);
+  const result = { processed: 0, delivered: 0, failed: 0 };
+
+  for (const delivery of due) {
+    result.processed++;
+    try {
+      const status = await deliverCallback(delivery.id);
+      if (status === 'delivered') result.delivered++;
+      if (status === 'failed') result.failed++;
+    } catch (error) {
+      console.error(`[PartnerCallbacks] Retry of delivery ${delivery.id} failed:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Re-send a failed delivery with a fresh retry budget
+ */
+export async function replayCallback(deliveryId: string): Promise<CallbackDeliveryStatus> {
+  const delivery = await partnerCallbacks.getById(deliveryId);
+  if (!delivery) {
+    throw new Error(`Callback delivery ${deliveryId} not found`);
+  }
+  if (delivery.status !== 'failed') {
+    throw new Error(`Only failed deliveries can be replayed (status: ${delivery.status})`);
+  }
+
+  await partnerCallbacks.resetForReplay(deliveryId);
+  return deliverCallback(deliveryId);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function enqueue(
+  partnerId: string,
+  batchId: string,
+  event: PartnerCallbackEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  const partner = await partners.getById(partnerId);
+  const url = partner?.config.callback_url;
+  if (!url) return;
+
+  const delivery = await partnerCallbacks.create({
+    partner_id: partnerId,
+    batch_id: batchId,
+    event,
+    url,
+    payload: {
+      event,
+      partner_id: partnerId,
+      occurred_at: new Date().toISOString(),
+      data,
+    },
+  });
+
+  await deliverCallback(delivery.id);
+}
+
+async function sendSigned(delivery: PartnerCallbackDelivery): Promise<CallbackDeliveryAttempt> {
+  const startedAt = new Date();
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(startedAt.getTime() / 1000).toString();
+
+  try {
+    const signature = await partners.signPayload(delivery.partner_id, body, timestamp);
+    if (!signature) {
+      return {
+        attempted_at: startedAt,
+        error: 'Partner has no webhook credentials',
+        duration_ms: 0,
+      };
+    }
+
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'PlantedAvailabilityDB-Callbacks/1.0',
+        'X-Planted-Signature': signature,
+        'X-Planted-Timestamp': timestamp,
+        'X-Planted-Event': delivery.event,
+        'X-Planted-Delivery': delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+
+    return {
+      attempted_at: startedAt,
+      status_code: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim(),
+      duration_ms: Date.now() - startedAt.getTime(),
+    };
+  } catch (error) {
+    return {
+      attempted_at: startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startedAt.getTime(),
+    };
+  }
+}
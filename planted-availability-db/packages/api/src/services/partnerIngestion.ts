@@ -0,0 +1,210 @@
+/**
+ * Partner Ingestion Service
+ *
+ * Channel-independent part of the partner ingestion pipeline. Once a channel
+ * (webhook, file upload) has produced a validated planted_standard payload
+ * and an IngestionBatch, this stages the records, scores them, promotes
+ * auto-approved records and notifies the partner:
+ *
+ *   stagePayload → completeStagedBatch
+ */
+
+import {
+  ingestionBatches,
+  stagedVenues,
+  stagedDishes,
+  stagedPromotions,
+  stagedAvailability,
+} from '@pad/database';
+import type { CreateStagedVenueInput } from '@pad/database';
+import type { Partner } from '@pad/core';
+import type { WebhookPayload } from '../schemas/partner.js';
+import { scoreAndRouteBatch, AUTO_REVIEWER, type ScoringSummary } from './stagingScoring.js';
+import { promoteApprovedInBatch, refreshBatchReviewStats } from './stagingPromotion.js';
+import { notifyBatchStatusChanged, notifyRecordsReviewed } from './partnerCallbacks.js';
+
+export interface StagedIds {
+  venues: string[];
+  dishes: string[];
+  promotions: string[];
+  availability: string[];
+}
+
+export interface BatchCompletion {
+  status: 'pending_review' | 'approved';
+  scoring: ScoringSummary;
+  promoted: number;
+}
+
+/**
+ * Count the records in a payload
+ */
+export function countPayloadRecords(payload: WebhookPayload): number {
+  return (
+    (payload.venues?.length || 0) +
+    (payload.dishes?.length || 0) +
+    (payload.promotions?.length || 0) +
+    (payload.availability?.length || 0)
+  );
+}
+
+/**
+ * Write every record of a payload to the staging collections
+ */
+export async function stagePayload(
+  batchId: string,
+  partnerId: string,
+  payload: WebhookPayload
+): Promise<StagedIds> {
+  const staged: StagedIds = { venues: [], dishes: [], promotions: [], availability: [] };
+
+  // Process venues
+  if (payload.venues && payload.venues.length > 0) {
+    const venueInputs: CreateStagedVenueInput[] = payload.venues.map((v) => ({
+      batch_id: batchId,
+      partner_id: partnerId,
+      external_id: v.external_id,
+      data: {
+        type: v.type,
+        name: v.name,
+        chain_id: v.chain_id,
+        address: v.address,
+        opening_hours: v.opening_hours
+          ? { regular: v.opening_hours }
+          : undefined,
+        contact: v.contact,
+        delivery_partners: v.delivery_partners,
+        metadata: v.metadata,
+      },
+      original_coordinates: v.coordinates,
+    }));
+
+    const createdVenues = await stagedVenues.createBatch(venueInputs);
+    staged.venues.push(...createdVenues.map((v) => v.id));
+  }
+
+  // Process dishes
+  if (payload.dishes && payload.dishes.length > 0) {
+    const dishInputs = payload.dishes.map((d) => ({
+      batch_id: batchId,
+      partner_id: partnerId,
+      external_id: d.external_id,
+      venue_external_id: d.venue_external_id,
+      data: {
+        name: d.name,
+        name_localized: d.name_localized,
+        description: d.description,
+        description_localized: d.description_localized,
+        planted_products: d.planted_products || [],
+        price: d.price,
+        image_url: d.image_url,
+        dietary_tags: d.dietary_tags,
+        cuisine_type: d.cuisine_type,
+        availability: {
+          type: d.availability.type,
+          start_date: d.availability.start_date ? new Date(d.availability.start_date) : undefined,
+          end_date: d.availability.end_date ? new Date(d.availability.end_date) : undefined,
+          days_available: d.availability.days_available,
+        },
+        metadata: d.metadata,
+      },
+      product_mapping: d.product_text
+        ? {
+            auto_mapped: false,
+            mapping_method: 'manual' as const,
+            mapping_confidence: 0,
+            original_product_text: d.product_text,
+          }
+        : undefined,
+    }));
+
+    const createdDishes = await stagedDishes.createBatch(dishInputs);
+    staged.dishes.push(...createdDishes.map((d) => d.id));
+  }
+
+  // Process promotions
+  if (payload.promotions && payload.promotions.length > 0) {
+    const promotionInputs = payload.promotions.map((p) => ({
+      batch_id: batchId,
+      partner_id: partnerId,
+      external_id: p.external_id,
+      chain_id: p.chain_id,
+      data: {
+        promo_type: p.promo_type,
+        title: p.title,
+        description: p.description,
+        product_skus: p.product_skus,
+        discount: p.discount,
+        image_url: p.image_url,
+        valid_from: new Date(p.valid_from),
+        valid_until: new Date(p.valid_until),
+        terms: p.terms,
+        metadata: p.metadata,
+      },
+    }));
+
+    const createdPromotions = await stagedPromotions.createBatch(promotionInputs);
+    staged.promotions.push(...createdPromotions.map((p) => p.id));
+  }
+
+  // Process availability
+  if (payload.availability && payload.availability.length > 0) {
+    const availabilityInputs = payload.availability.map((a) => ({
+      batch_id: batchId,
+      partner_id: partnerId,
+      external_id: a.external_id,
+      data: {
+        product_sku: a.product_sku,
+        in_stock: a.in_stock,
+        price: a.price,
+        promotion_ref: a.promotion_ref,
+        shelf_location: a.shelf_location,
+        verified_at: a.verified_at ? new Date(a.verified_at) : undefined,
+        metadata: a.metadata,
+      },
+    }));
+
+    const createdAvailability = await stagedAvailability.createBatch(availabilityInputs);
+    staged.availability.push(...createdAvailability.map((a) => a.id));
+  }
+
+  return staged;
+}
+
+/**
+ * Score a staged batch, auto-approve and promote records above the partner's
+ * threshold, and send status callbacks
+ */
+export async function completeStagedBatch(
+  batchId: string,
+  partner: Partner,
+  staging: { staged: number; warnings?: string[] }
+): Promise<BatchCompletion> {
+  // Update batch with staging results
+  await ingestionBatches.recordStaging(batchId, staging);
+
+  // Score records and auto-approve those above the partner's threshold
+  const scoring = await scoreAndRouteBatch(batchId, partner);
+  const requiresReview = scoring.needs_review > 0;
+  const status = requiresReview ? 'pending_review' : 'approved';
+
+  await ingestionBatches.completeProcessing(batchId, { status, requiresReview });
+
+  const outcomes =
+    scoring.auto_approved > 0 ? await promoteApprovedInBatch(batchId, { type: 'system' }) : [];
+  const promoted = outcomes.filter((o) => o.success).length;
+  await refreshBatchReviewStats(batchId, AUTO_REVIEWER);
+
+  // Status callbacks to the partner's callback_url, if configured
+  await notifyRecordsReviewed(
+    batchId,
+    scoring.auto_approved_records.map((record) => ({
+      ...record,
+      decision: 'approved' as const,
+      production_id: outcomes.find((o) => o.staged_id === record.id && o.success)?.production_id,
+    }))
+  );
+  await notifyBatchStatusChanged(batchId, 'scoring');
+
+  return { status, scoring, promoted };
+}
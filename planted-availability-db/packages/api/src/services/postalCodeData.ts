@@ -0,0 +1,235 @@
+/**
+ * Bundled Postal Code Dataset
+ *
+ * Centroids for our supported markets, keyed by country and by a
+ * normalized postal code (uppercase, no spaces or dashes) or code prefix.
+ * Full codes are exact; prefixes (the leading digits, or the area letters
+ * for UK postcodes) resolve to the main city of that area.
+ * Entries in countries with regional public holidays carry the region code.
+ *
+ * Deployed functions also load the full GeoNames dump (fetched by
+ * scripts/fetch-postal-codes.sh), whose entries take precedence. This table
+ * keeps tests and local runs working without it and supplies the area
+ * prefixes the dump doesn't have.
+ */
+
+/** region: canton, state or UK nation code (Address.region), where holidays differ by region */
+export type PostalCodeEntry = [lat: number, lng: number, placeName: string, region?: string];
+
+export const POSTAL_CODE_DATA: Record<string, Record<string, PostalCodeEntry>> = {
+  CH: {
+    // Exact codes
+    '1000': [46.5197, 6.6323, 'Lausanne', 'VD'],
+    '1200': [46.2044, 6.1432, 'Genève', 'GE'],
+    '3000': [46.948, 7.4474, 'Bern', 'BE'],
+    '4000': [47.5596, 7.5886, 'Basel', 'BS'],
+    '6000': [47.0502, 8.3093, 'Luzern', 'LU'],
+    '6003': [47.0502, 8.3093, 'Luzern', 'LU'],
+    '8000': [47.3769, 8.5417, 'Zürich', 'ZH'],
+    '8001': [47.3686, 8.5391, 'Zürich', 'ZH'],
+    '8004': [47.3776, 8.5244, 'Zürich', 'ZH'],
+    '8005': [47.3904, 8.5182, 'Zürich', 'ZH'],
+    '8008': [47.3531, 8.557, 'Zürich', 'ZH'],
+    '8048': [47.3842, 8.4831, 'Zürich', 'ZH'],
+    '8304': [47.415, 8.595, 'Wallisellen', 'ZH'],
+    // Areas
+    '10': [46.5197, 6.6323, 'Lausanne', 'VD'],
+    '12': [46.2044, 6.1432, 'Genève', 'GE'],
+    '17': [46.8065, 7.162, 'Fribourg', 'FR'],
+    '19': [46.2331, 7.3606, 'Sion', 'VS'],
+    '20': [46.99, 6.9293, 'Neuchâtel', 'NE'],
+    '25': [47.1368, 7.2468, 'Biel/Bienne', 'BE'],
+    '30': [46.948, 7.4474, 'Bern', 'BE'],
+    '40': [47.5596, 7.5886, 'Basel', 'BS'],
+    '50': [47.3925, 8.0442, 'Aarau', 'AG'],
+    '60': [47.0502, 8.3093, 'Luzern', 'LU'],
+    '63': [47.1662, 8.5155, 'Zug', 'ZG'],
+    '69': [46.0037, 8.9511, 'Lugano', 'TI'],
+    '70': [46.8508, 9.532, 'Chur', 'GR'],
+    '80': [47.3769, 8.5417, 'Zürich', 'ZH'],
+    '82': [47.6973, 8.6349, 'Schaffhausen', 'SH'],
+    '84': [47.4988, 8.7237, 'Winterthur', 'ZH'],
+    '90': [47.4245, 9.3767, 'St. Gallen', 'SG'],
+  },
+  DE: {
+    // Exact codes
+    '10115': [52.52, 13.405, 'Berlin', 'BE'],
+    '10117': [52.517, 13.3889, 'Berlin', 'BE'],
+    '20095': [53.5511, 9.9937, 'Hamburg', 'HH'],
+    '50667': [50.9375, 6.9603, 'Köln', 'NW'],
+    '60311': [50.1109, 8.6821, 'Frankfurt am Main', 'HE'],
+    '80331': [48.1351, 11.582, 'München', 'BY'],
+    '80335': [48.1392, 11.5651, 'München', 'BY'],
+    // Areas
+    '01': [51.0504, 13.7373, 'Dresden', 'SN'],
+    '04': [51.3397, 12.3731, 'Leipzig', 'SN'],
+    '06': [51.4969, 11.9688, 'Halle (Saale)', 'ST'],
+    '09': [50.8278, 12.9214, 'Chemnitz', 'SN'],
+    '10': [52.52, 13.405, 'Berlin', 'BE'],
+    '12': [52.52, 13.405, 'Berlin', 'BE'],
+    '13': [52.52, 13.405, 'Berlin', 'BE'],
+    '14': [52.3906, 13.0645, 'Potsdam', 'BB'],
+    '18': [54.0887, 12.1407, 'Rostock', 'MV'],
+    '20': [53.5511, 9.9937, 'Hamburg', 'HH'],
+    '22': [53.5511, 9.9937, 'Hamburg', 'HH'],
+    '24': [54.3233, 10.1228, 'Kiel', 'SH'],
+    '26': [53.1435, 8.2146, 'Oldenburg', 'NI'],
+    '28': [53.0793, 8.8017, 'Bremen', 'HB'],
+    '30': [52.3759, 9.732, 'Hannover', 'NI'],
+    '33': [52.0302, 8.5325, 'Bielefeld', 'NW'],
+    '38': [52.2689, 10.5268, 'Braunschweig', 'NI'],
+    '39': [52.1205, 11.6276, 'Magdeburg', 'ST'],
+    '40': [51.2277, 6.7735, 'Düsseldorf', 'NW'],
+    '42': [51.2562, 7.1508, 'Wuppertal', 'NW'],
+    '44': [51.5136, 7.4653, 'Dortmund', 'NW'],
+    '45': [51.4556, 7.0116, 'Essen', 'NW'],
+    '47': [51.4344, 6.7623, 'Duisburg', 'NW'],
+    '48': [51.9607, 7.6261, 'Münster', 'NW'],
+    '50': [50.9375, 6.9603, 'Köln', 'NW'],
+    '51': [50.9375, 6.9603, 'Köln', 'NW'],
+    '53': [50.7374, 7.0982, 'Bonn', 'NW'],
+    '55': [49.9929, 8.2473, 'Mainz', 'RP'],
+    '60': [50.1109, 8.6821, 'Frankfurt am Main', 'HE'],
+    '65': [50.0782, 8.2397, 'Wiesbaden', 'HE'],
+    '66': [49.2402, 6.9969, 'Saarbrücken', 'SL'],
+    '68': [49.4875, 8.466, 'Mannheim', 'BW'],
+    '69': [49.3988, 8.6724, 'Heidelberg', 'BW'],
+    '70': [48.7758, 9.1829, 'Stuttgart', 'BW'],
+    '76': [49.0069, 8.4037, 'Karlsruhe', 'BW'],
+    '78': [47.6603, 9.1758, 'Konstanz', 'BW'],
+    '79': [47.999, 7.8421, 'Freiburg im Breisgau', 'BW'],
+    '80': [48.1351, 11.582, 'München', 'BY'],
+    '81': [48.1351, 11.582, 'München', 'BY'],
+    '86': [48.3705, 10.8978, 'Augsburg', 'BY'],
+    '89': [48.4011, 9.9876, 'Ulm', 'BW'],
+    '90': [49.4521, 11.0767, 'Nürnberg', 'BY'],
+    '93': [49.0134, 12.1016, 'Regensburg', 'BY'],
+    '97': [49.7913, 9.9534, 'Würzburg', 'BY'],
+    '99': [50.9848, 11.0299, 'Erfurt', 'TH'],
+  },
+  AT: {
+    // Exact codes
+    '1010': [48.2082, 16.3738, 'Wien'],
+    '1020': [48.2167, 16.4, 'Wien'],
+    // Areas
+    '10': [48.2082, 16.3738, 'Wien'],
+    '11': [48.2082, 16.3738, 'Wien'],
+    '12': [48.2082, 16.3738, 'Wien'],
+    '31': [48.2047, 15.6256, 'St. Pölten'],
+    '40': [48.3069, 14.2858, 'Linz'],
+    '50': [47.8095, 13.055, 'Salzburg'],
+    '60': [47.2692, 11.4041, 'Innsbruck'],
+    '69': [47.5031, 9.7471, 'Bregenz'],
+    '80': [47.0707, 15.4395, 'Graz'],
+    '90': [46.6247, 14.3053, 'Klagenfurt'],
+  },
+  LU: {
+    '1': [49.6116, 6.1319, 'Luxembourg'],
+    '2': [49.6116, 6.1319, 'Luxembourg'],
+    '4': [49.4958, 5.9806, 'Esch-sur-Alzette'],
+  },
+  NL: {
+    '10': [52.3676, 4.9041, 'Amsterdam'],
+    '11': [52.3676, 4.9041, 'Amsterdam'],
+    '20': [52.3874, 4.6462, 'Haarlem'],
+    '23': [52.1601, 4.497, 'Leiden'],
+    '25': [52.0705, 4.3007, 'Den Haag'],
+    '30': [51.9244, 4.4777, 'Rotterdam'],
+    '35': [52.0907, 5.1214, 'Utrecht'],
+    '56': [51.4416, 5.4697, 'Eindhoven'],
+    '65': [51.8126, 5.8372, 'Nijmegen'],
+    '97': [53.2194, 6.5665, 'Groningen'],
+  },
+  UK: {
+    // Postcode areas
+    'B': [52.4862, -1.8904, 'Birmingham', 'ENG'],
+    'BN': [50.8225, -0.1372, 'Brighton', 'ENG'],
+    'BS': [51.4545, -2.5879, 'Bristol', 'ENG'],
+    'CB': [52.2053, 0.1218, 'Cambridge', 'ENG'],
+    'CF': [51.4816, -3.1791, 'Cardiff', 'WLS'],
+    'E': [51.54, -0.03, 'London', 'ENG'],
+    'EC': [51.5155, -0.0922, 'London', 'ENG'],
+    'EH': [55.9533, -3.1883, 'Edinburgh', 'SCT'],
+    'G': [55.8642, -4.2518, 'Glasgow', 'SCT'],
+    'L': [53.4084, -2.9916, 'Liverpool', 'ENG'],
+    'LS': [53.8008, -1.5491, 'Leeds', 'ENG'],
+    'M': [53.4808, -2.2426, 'Manchester', 'ENG'],
+    'N': [51.57, -0.11, 'London', 'ENG'],
+    'NE': [54.9783, -1.6178, 'Newcastle upon Tyne', 'ENG'],
+    'NG': [52.9548, -1.1581, 'Nottingham', 'ENG'],
+    'NW': [51.55, -0.18, 'London', 'ENG'],
+    'OX': [51.752, -1.2577, 'Oxford', 'ENG'],
+    'S': [53.3811, -1.4701, 'Sheffield', 'ENG'],
+    'SE': [51.47, -0.06, 'London', 'ENG'],
+    'SW': [51.47, -0.17, 'London', 'ENG'],
+    'W': [51.514, -0.194, 'London', 'ENG'],
+    'WC': [51.517, -0.12, 'London', 'ENG'],
+  },
+  FR: {
+    '06': [43.7102, 7.262, 'Nice'],
+    '13': [43.2965, 5.3698, 'Marseille'],
+    '31': [43.6047, 1.4442, 'Toulouse'],
+    '33': [44.8378, -0.5792, 'Bordeaux'],
+    '34': [43.6108, 3.8767, 'Montpellier'],
+    '35': [48.1173, -1.6778, 'Rennes'],
+    '44': [47.2184, -1.5536, 'Nantes'],
+    '59': [50.6292, 3.0573, 'Lille'],
+    '67': [48.5734, 7.7521, 'Strasbourg'],
+    '69': [45.764, 4.8357, 'Lyon'],
+    '75': [48.8566, 2.3522, 'Paris'],
+  },
+  IT: {
+    '00': [41.9028, 12.4964, 'Roma'],
+    '10': [45.0703, 7.6869, 'Torino'],
+    '16': [44.4056, 8.9463, 'Genova'],
+    '20': [45.4642, 9.19, 'Milano'],
+    '30': [45.4408, 12.3155, 'Venezia'],
+    '37': [45.4384, 10.9916, 'Verona'],
+    '40': [44.4949, 11.3426, 'Bologna'],
+    '50': [43.7696, 11.2558, 'Firenze'],
+    '80': [40.8518, 14.2681, 'Napoli'],
+    '90': [38.1157, 13.3615, 'Palermo'],
+  },
+  ES: {
+    '07': [39.5696, 2.6502, 'Palma'],
+    '08': [41.3874, 2.1686, 'Barcelona'],
+    '28': [40.4168, -3.7038, 'Madrid'],
+    '29': [36.7213, -4.4214, 'Málaga'],
+    '41': [37.3891, -5.9845, 'Sevilla'],
+    '46': [39.4699, -0.3763, 'València'],
+    '48': [43.263, -2.935, 'Bilbao'],
+    '50': [41.6488, -0.8891, 'Zaragoza'],
+  },
+  BE: {
+    '10': [50.8503, 4.3517, 'Bruxelles'],
+    '11': [50.8503, 4.3517, 'Bruxelles'],
+    '12': [50.8503, 4.3517, 'Bruxelles'],
+    '20': [51.2194, 4.4025, 'Antwerpen'],
+    '30': [50.8798, 4.7005, 'Leuven'],
+    '40': [50.6326, 5.5797, 'Liège'],
+    '80': [51.2093, 3.2247, 'Brugge'],
+    '90': [51.0543, 3.7174, 'Gent'],
+  },
+  PL: {
+    '00': [52.2297, 21.0122, 'Warszawa'],
+    '01': [52.2297, 21.0122, 'Warszawa'],
+    '02': [52.2297, 21.0122, 'Warszawa'],
+    '03': [52.2297, 21.0122, 'Warszawa'],
+    '04': [52.2297, 21.0122, 'Warszawa'],
+    '30': [50.0647, 19.945, 'Kraków'],
+    '31': [50.0647, 19.945, 'Kraków'],
+    '50': [51.1079, 17.0385, 'Wrocław'],
+    '51': [51.1079, 17.0385, 'Wrocław'],
+    '52': [51.1079, 17.0385, 'Wrocław'],
+    '53': [51.1079, 17.0385, 'Wrocław'],
+    '54': [51.1079, 17.0385, 'Wrocław'],
+    '60': [52.4064, 16.9252, 'Poznań'],
+    '61': [52.4064, 16.9252, 'Poznań'],
+    '80': [54.352, 18.6466, 'Gdańsk'],
+    '90': [51.7592, 19.456, 'Łódź'],
+    '91': [51.7592, 19.456, 'Łódź'],
+    '92': [51.7592, 19.456, 'Łódź'],
+    '93': [51.7592, 19.456, 'Łódź'],
+    '94': [51.7592, 19.456, 'Łódź'],
+  },
+};
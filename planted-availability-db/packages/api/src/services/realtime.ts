@@ -5,13 +5,31 @@
  * using Firestore real-time listeners.
  */
 
-import { getFirestore, Timestamp } from 'firebase-admin/firestore';
-import type { Venue, Dish, RetailAvailability, Promotion } from '@pad/core';
-import { isVenueOpen, getNextOpeningTime } from '@pad/core';
+import { getFirestore, Timestamp, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import type { Venue, RetailAvailability, Promotion, Chain, VenueOpenStatus } from '@pad/core';
+import {
+  getVenueOpenStatus,
+  getTodayHoursString,
+  getMarketTimezone,
+  getEffectiveOpeningHours,
+  getGeohashQueryBounds,
+  calculateDistance,
+} from '@pad/core';
+
+/** How often open/closed state is re-evaluated between Firestore updates */
+export const STATUS_REFRESH_MS = 60 * 1000;
+
+/** Largest bounding box (diagonal) that can be subscribed to */
+export const MAX_BOUNDING_BOX_KM = 50;
+
+// Firestore 'in' operator supports up to 30 values per query
+const IN_QUERY_LIMIT = 30;
 
 export interface AvailabilityStatus {
   venue_id: string;
   is_open: boolean;
+  open_status: VenueOpenStatus['status'];
+  closes_at: Date | null;
   next_open: Date | null;
   today_hours: string;
   has_planted_dishes: boolean;
@@ -29,11 +47,109 @@ export interface StockStatus {
   last_checked: Date;
 }
 
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Open state of a venue inside a subscribed bounding box
+ */
+export interface VenueLiveStatus {
+  venue_id: string;
+  name: string;
+  type: Venue['type'];
+  location: { latitude: number; longitude: number };
+  is_open: boolean;
+  open_status: VenueOpenStatus['status'];
+  closes_at: Date | null;
+  opens_at: Date | null;
+}
+
 export interface RealtimeCallback<T> {
   onUpdate: (data: T) => void;
   onError: (error: Error) => void;
 }
 
+/**
+ * Diagonal of a bounding box in km
+ */
+export function getBoundingBoxDiagonalKm(bounds: BoundingBox): number {
+  return calculateDistance(
+    { latitude: bounds.south, longitude: bounds.west },
+    { latitude: bounds.north, longitude: bounds.east }
+  );
+}
+
+export function isInBoundingBox(point: { latitude: number; longitude: number }, bounds: BoundingBox): boolean {
+  return (
+    point.latitude >= bounds.south &&
+    point.latitude <= bounds.north &&
+    point.longitude >= bounds.west &&
+    point.longitude <= bounds.east
+  );
+}
+
+/**
+ * Open state of a venue, with holiday closures when it (or its chain) closes on holidays
+ */
+export function toVenueLiveStatus(
+  venue: Pick<Venue, 'id' | 'name' | 'type' | 'location' | 'address' | 'opening_hours' | 'closes_on_holidays'>,
+  chain: Pick<Chain, 'closes_on_holidays'> | null | undefined,
+  now: Date = new Date()
+): VenueLiveStatus {
+  const openingHours = getEffectiveOpeningHours(venue, chain, now);
+  const status = getVenueOpenStatus(openingHours, getMarketTimezone(venue.address?.country), now);
+
+  return {
+    venue_id: venue.id,
+    name: venue.name,
+    type: venue.type,
+    location: { latitude: venue.location.latitude, longitude: venue.location.longitude },
+    is_open: status.is_open,
+    open_status: status.status,
+    closes_at: status.closes_at,
+    opens_at: status.opens_at,
+  };
+}
+
+/**
+ * Changes between the statuses last sent to a client and the current ones
+ */
+export function diffVenueStatuses(
+  previous: Map<string, VenueLiveStatus>,
+  current: VenueLiveStatus[]
+): { updated: VenueLiveStatus[]; removed: string[] } {
+  const currentIds = new Set(current.map((status) => status.venue_id));
+  const updated = current.filter((status) => {
+    const before = previous.get(status.venue_id);
+    return !before || JSON.stringify(before) !== JSON.stringify(status);
+  });
+  const removed = [...previous.keys()].filter((id) => !currentIds.has(id));
+  return { updated, removed };
+}
+
+function toStockStatus(data: RetailAvailability): StockStatus {
+  return {
+    product_sku: data.product_sku,
+    venue_id: data.venue_id,
+    in_stock: data.in_stock,
+    price: data.price?.regular,
+    promotion_price: data.promotion?.price,
+    last_checked: (data.last_verified as unknown as Timestamp).toDate(),
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
 /**
  * Real-time availability service
  */
@@ -43,6 +159,9 @@ export class RealtimeService {
 
   /**
    * Subscribe to venue availability updates
+   *
+   * Also re-evaluates the open state every STATUS_REFRESH_MS, since
+   * venues open and close without any document changing.
    */
   subscribeToVenueAvailability(
     venueId: string,
@@ -50,7 +169,30 @@ export class RealtimeService {
   ): string {
     const listenerId = `venue-${venueId}-${Date.now()}`;
 
-    const unsubscribe = this.db
+    let latest: { venue: Venue; chain: Chain | undefined; dishCount: number; promotionCount: number } | null = null;
+
+    const emit = () => {
+      if (!latest) return;
+      const { venue, chain, dishCount, promotionCount } = latest;
+      const timezone = getMarketTimezone(venue.address?.country);
+      const openingHours = getEffectiveOpeningHours(venue, chain);
+      const status = getVenueOpenStatus(openingHours, timezone);
+
+      callback.onUpdate({
+        venue_id: venueId,
+        is_open: status.is_open,
+        open_status: status.status,
+        closes_at: status.closes_at,
+        next_open: status.opens_at,
+        today_hours: getTodayHoursString(openingHours, timezone),
+        has_planted_dishes: dishCount > 0,
+        dish_count: dishCount,
+        active_promotions: promotionCount,
+        last_updated: new Date(),
+      });
+    };
+
+    const unsubscribeSnapshot = this.db
       .collection('venues')
       .doc(venueId)
       .onSnapshot(
@@ -60,38 +202,70 @@ export class RealtimeService {
             return;
           }
 
-          const venue = { id: snapshot.id, ...snapshot.data() } as Venue;
-
-          // Get dish count
-          const dishesSnapshot = await this.db
-            .collection('dishes')
-            .where('venue_id', '==', venueId)
-            .where('status', '==', 'active')
-            .count()
-            .get();
-
-          // Get active promotions count
-          const now = Timestamp.now();
-          const promosSnapshot = await this.db
-            .collection('promotions')
-            .where('venue_id', '==', venueId)
-            .where('valid_until', '>=', now)
-            .count()
-            .get();
-
-          const isOpen = isVenueOpen(venue.opening_hours);
-          const nextOpen = isOpen ? null : getNextOpeningTime(venue.opening_hours);
-
-          callback.onUpdate({
-            venue_id: venueId,
-            is_open: isOpen,
-            next_open: nextOpen,
-            today_hours: this.formatTodayHours(venue.opening_hours),
-            has_planted_dishes: dishesSnapshot.data().count > 0,
-            dish_count: dishesSnapshot.data().count,
-            active_promotions: promosSnapshot.data().count,
-            last_updated: new Date(),
-          });
+          try {
+            const venue = { id: snapshot.id, ...snapshot.data() } as Venue;
+
+            // Get dish count
+            const dishesSnapshot = await this.db
+              .collection('dishes')
+              .where('venue_id', '==', venueId)
+              .where('status', '==', 'active')
+              .count()
+              .get();
+
+            // Get active promotions count
+            const now = Timestamp.now();
+            const promosSnapshot = await this.db
+              .collection('promotions')
+              .where('venue_id', '==', venueId)
+              .where('valid_until', '>=', now)
+              .count()
+              .get();
+
+            const chainSnapshot = venue.chain_id
+              ? await this.db.collection('chains').doc(venue.chain_id).get()
+              : null;
+
+            latest = {
+              venue,
+              chain: chainSnapshot?.data() as Chain | undefined,
+              dishCount: dishesSnapshot.data().count,
+              promotionCount: promosSnapshot.data().count,
+            };
+            emit();
+          } catch (error) {
+            callback.onError(error instanceof Error ? error : new Error(String(error)));
+          }
+        },
+        (error) => {
+          callback.onError(error);
+        }
+      );
+
+    const refresh = setInterval(emit, STATUS_REFRESH_MS);
+
+    this.listeners.set(listenerId, () => {
+      clearInterval(refresh);
+      unsubscribeSnapshot();
+    });
+    return listenerId;
+  }
+
+  /**
+   * Subscribe to stock of all products at a venue
+   */
+  subscribeToVenueStock(
+    venueId: string,
+    callback: RealtimeCallback<StockStatus[]>
+  ): string {
+    const listenerId = `stock-${venueId}-${Date.now()}`;
+
+    const unsubscribe = this.db
+      .collection('retail_availability')
+      .where('venue_id', '==', venueId)
+      .onSnapshot(
+        (snapshot) => {
+          callback.onUpdate(snapshot.docs.map((doc) => toStockStatus(doc.data() as RetailAvailability)));
         },
         (error) => {
           callback.onError(error);
@@ -102,6 +276,168 @@ export class RealtimeService {
     return listenerId;
   }
 
+  /**
+   * Subscribe to stock of a product at a set of venues (e.g. the retail
+   * venues in a bounding box). Resubscribe when the set changes.
+   */
+  subscribeToStockAtVenues(
+    venueIds: string[],
+    productSku: string,
+    callback: RealtimeCallback<StockStatus[]>
+  ): string {
+    const listenerId = `stock-venues-${productSku}-${Date.now()}`;
+    const chunks = chunk(venueIds, IN_QUERY_LIMIT);
+    const byChunk: StockStatus[][] = chunks.map(() => []);
+    const loaded = new Set<number>();
+
+    const unsubscribes = chunks.map((ids, index) =>
+      this.db
+        .collection('retail_availability')
+        .where('product_sku', '==', productSku)
+        .where('venue_id', 'in', ids)
+        .onSnapshot(
+          (snapshot) => {
+            byChunk[index] = snapshot.docs.map((doc) => toStockStatus(doc.data() as RetailAvailability));
+            loaded.add(index);
+            // Wait for every chunk before the first update
+            if (loaded.size === chunks.length) {
+              callback.onUpdate(byChunk.flat());
+            }
+          },
+          (error) => {
+            callback.onError(error);
+          }
+        )
+    );
+
+    if (chunks.length === 0) {
+      callback.onUpdate([]);
+    }
+
+    this.listeners.set(listenerId, () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+    return listenerId;
+  }
+
+  /**
+   * Subscribe to the current promotions of a venue and of its chain
+   */
+  subscribeToVenuePromotions(
+    venueId: string,
+    chainId: string | undefined,
+    callback: RealtimeCallback<Promotion[]>
+  ): string {
+    const listenerId = `promos-venue-${venueId}-${Date.now()}`;
+    const now = Timestamp.now();
+    const sources: Array<['venue_id' | 'chain_id', string]> = [['venue_id', venueId]];
+    if (chainId) {
+      sources.push(['chain_id', chainId]);
+    }
+
+    const bySource: Promotion[][] = sources.map(() => []);
+    const loaded = new Set<number>();
+
+    const unsubscribes = sources.map(([field, value], index) =>
+      this.db
+        .collection('promotions')
+        .where(field, '==', value)
+        .where('valid_until', '>=', now)
+        .orderBy('valid_until', 'asc')
+        .onSnapshot(
+          (snapshot) => {
+            bySource[index] = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Promotion);
+            loaded.add(index);
+            if (loaded.size === sources.length) {
+              callback.onUpdate(bySource.flat());
+            }
+          },
+          (error) => {
+            callback.onError(error);
+          }
+        )
+    );
+
+    this.listeners.set(listenerId, () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+    return listenerId;
+  }
+
+  /**
+   * Subscribe to the open state of active venues in a bounding box
+   *
+   * Listens to the geohash ranges covering the box (like queryNearby) and
+   * re-evaluates the open state every STATUS_REFRESH_MS. Each update is
+   * the full list; diff with diffVenueStatuses.
+   */
+  subscribeToVenuesInBounds(
+    bounds: BoundingBox,
+    callback: RealtimeCallback<VenueLiveStatus[]>,
+    options: { type?: Venue['type'] } = {}
+  ): string {
+    const listenerId = `bounds-${bounds.south},${bounds.west},${bounds.north},${bounds.east}-${Date.now()}`;
+
+    const center = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+    };
+    const ranges = getGeohashQueryBounds(center, getBoundingBoxDiagonalKm(bounds) / 2);
+
+    const byRange: QueryDocumentSnapshot[][] = ranges.map(() => []);
+    const loaded = new Set<number>();
+    const chains = new Map<string, Chain | null>();
+
+    const emit = async () => {
+      if (loaded.size < ranges.length) return;
+
+      const venues = byRange
+        .flat()
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Venue)
+        .filter((venue) => venue.location && isInBoundingBox(venue.location, bounds))
+        .filter((venue) => !options.type || venue.type === options.type);
+
+      // Chains decide holiday closures; they rarely change, so fetch each once
+      const missing = [...new Set(venues.map((v) => v.chain_id).filter((id): id is string => !!id && !chains.has(id)))];
+      if (missing.length > 0) {
+        const docs = await this.db.getAll(...missing.map((id) => this.db.collection('chains').doc(id)));
+        docs.forEach((doc) => chains.set(doc.id, doc.exists ? (doc.data() as Chain) : null));
+      }
+
+      const now = new Date();
+      callback.onUpdate(
+        venues.map((venue) => toVenueLiveStatus(venue, venue.chain_id ? chains.get(venue.chain_id) : null, now))
+      );
+    };
+
+    const notify = () => {
+      emit().catch((error) => callback.onError(error instanceof Error ? error : new Error(String(error))));
+    };
+
+    const unsubscribes = ranges.map(([start, end], index) =>
+      this.db
+        .collection('venues')
+        .where('status', '==', 'active')
+        .orderBy('geohash')
+        .startAt(start)
+        .endAt(end)
+        .onSnapshot(
+          (snapshot) => {
+            byRange[index] = snapshot.docs;
+            loaded.add(index);
+            notify();
+          },
+          (error) => {
+            callback.onError(error);
+          }
+        )
+    );
+
+    const refresh = setInterval(notify, STATUS_REFRESH_MS);
+
+    this.listeners.set(listenerId, () => {
+      clearInterval(refresh);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    });
+    return listenerId;
+  }
+
   /**
    * Subscribe to stock updates for a product at a venue
    */
@@ -129,15 +465,7 @@ export class RealtimeService {
             return;
           }
 
-          const data = snapshot.docs[0].data() as RetailAvailability;
-          callback.onUpdate({
-            product_sku: productSku,
-            venue_id: venueId,
-            in_stock: data.in_stock,
-            price: data.price?.regular,
-            promotion_price: data.promotion?.price,
-            last_checked: data.last_verified.toDate(),
-          });
+          callback.onUpdate(toStockStatus(snapshot.docs[0].data() as RetailAvailability));
         },
         (error) => {
           callback.onError(error);
@@ -298,21 +626,6 @@ export class RealtimeService {
   private toRad(deg: number): number {
     return deg * (Math.PI / 180);
   }
-
-  /**
-   * Format today's hours as string
-   */
-  private formatTodayHours(openingHours: any): string {
-    const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const today = days[new Date().getDay()];
-    const hours = openingHours?.regular?.[today];
-
-    if (!hours || hours.length === 0) {
-      return 'Closed';
-    }
-
-    return hours.map((h: any) => `${h.open} - ${h.close}`).join(', ');
-  }
 }
 
 // Singleton instance
@@ -9,9 +9,14 @@
  * 2. Create an application
  * 3. Create indexes: 'venues' and 'dishes'
  * 4. Set env vars: ALGOLIA_APP_ID, ALGOLIA_API_KEY, ALGOLIA_SEARCH_KEY
+ * 5. Run POST /adminSearchReindex with { "configure": true }
+ *
+ * Records are kept in sync by the Firestore triggers in
+ * functions/triggers/searchIndex.ts. Tests use InMemorySearchService
+ * (services/inMemorySearch.ts), which implements the same SearchProvider.
  */
 
-import algoliasearch, { SearchClient, SearchIndex } from 'algoliasearch';
+import { algoliasearch, type SearchClient } from 'algoliasearch';
 import type { Venue, Dish } from '@pad/core';
 
 // Algolia record types (what we store in the index)
@@ -60,15 +65,139 @@ export interface SearchConfig {
   searchKey: string; // Search-only key for client
 }
 
-export class SearchService {
+interface GeoSearchOptions {
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  country?: string;
+  city?: string;
+  limit?: number;
+}
+
+export interface VenueSearchOptions extends GeoSearchOptions {
+  type?: 'retail' | 'restaurant' | 'delivery_kitchen';
+}
+
+export interface DishSearchOptions extends GeoSearchOptions {
+  plantedProduct?: string;
+  dietaryTags?: string[];
+  cuisineType?: string;
+}
+
+export interface SearchResult<T> {
+  hits: T[];
+  nbHits: number;
+}
+
+/**
+ * Venue details denormalized into dish records
+ */
+export interface DishVenueInfo {
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Index backend used by the search endpoint and the index sync
+ */
+export interface SearchProvider {
+  /** Configure index settings (run once during setup) */
+  configureIndexes(): Promise<void>;
+  indexVenues(records: VenueSearchRecord[]): Promise<void>;
+  indexDishes(records: DishSearchRecord[]): Promise<void>;
+  removeVenues(venueIds: string[]): Promise<void>;
+  removeDishes(dishIds: string[]): Promise<void>;
+  /** Replace the full contents of both indexes */
+  replaceAll(venues: VenueSearchRecord[], dishes: DishSearchRecord[]): Promise<void>;
+  searchVenues(query: string, options?: VenueSearchOptions): Promise<SearchResult<VenueSearchRecord>>;
+  searchDishes(query: string, options?: DishSearchOptions): Promise<SearchResult<DishSearchRecord>>;
+}
+
+export const DEFAULT_SEARCH_RADIUS_KM = 10;
+
+const VENUES_INDEX = 'venues';
+const DISHES_INDEX = 'dishes';
+
+/**
+ * Algolia filter matching an attribute value
+ *
+ * The value is quoted with quotes and backslashes escaped, so it can't
+ * close the string and add clauses (e.g. `x" OR status:"deleted`).
+ */
+export function algoliaFilter(attribute: string, value: string): string {
+  return `${attribute}:"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Build the index record of a venue
+ */
+export function toVenueSearchRecord(venue: Venue, chainName?: string): VenueSearchRecord {
+  return {
+    objectID: venue.id,
+    name: venue.name,
+    type: venue.type,
+    chain_name: chainName,
+    address_city: venue.address.city,
+    address_country: venue.address.country,
+    address_street: venue.address.street,
+    address_postal_code: venue.address.postal_code,
+    _geoloc: {
+      lat: venue.location.latitude,
+      lng: venue.location.longitude,
+    },
+    status: venue.status,
+    last_verified: venue.last_verified.getTime(),
+  };
+}
+
+/**
+ * Build the index record of a dish with its venue's location
+ */
+export function toDishSearchRecord(dish: Dish, venue: DishVenueInfo): DishSearchRecord {
+  return {
+    objectID: dish.id,
+    name: dish.name,
+    name_localized: dish.name_localized,
+    description: dish.description,
+    venue_id: dish.venue_id,
+    venue_name: venue.name,
+    venue_city: venue.city,
+    venue_country: venue.country,
+    planted_products: dish.planted_products,
+    dietary_tags: dish.dietary_tags,
+    cuisine_type: dish.cuisine_type,
+    price_amount: dish.price.amount,
+    price_currency: dish.price.currency,
+    _geoloc: {
+      lat: venue.lat,
+      lng: venue.lng,
+    },
+    status: dish.status,
+    last_verified: dish.last_verified.getTime(),
+  };
+}
+
+/**
+ * Venue details for dish records
+ */
+export function toDishVenueInfo(venue: Venue): DishVenueInfo {
+  return {
+    name: venue.name,
+    city: venue.address.city,
+    country: venue.address.country,
+    lat: venue.location.latitude,
+    lng: venue.location.longitude,
+  };
+}
+
+export class SearchService implements SearchProvider {
   private client: SearchClient;
-  private venuesIndex: SearchIndex;
-  private dishesIndex: SearchIndex;
 
   constructor(config: SearchConfig) {
     this.client = algoliasearch(config.appId, config.apiKey);
-    this.venuesIndex = this.client.initIndex('venues');
-    this.dishesIndex = this.client.initIndex('dishes');
   }
 
   /**
@@ -76,241 +205,177 @@ export class SearchService {
    */
   async configureIndexes(): Promise<void> {
     // Venues index settings
-    await this.venuesIndex.setSettings({
-      searchableAttributes: [
-        'name',
-        'chain_name',
-        'address_city',
-        'address_street',
-      ],
-      attributesForFaceting: [
-        'filterOnly(type)',
-        'filterOnly(status)',
-        'filterOnly(address_country)',
-        'filterOnly(address_city)',
-      ],
-      customRanking: ['desc(last_verified)'],
-      // Enable geo search
-      attributeForDistinct: 'objectID',
+    await this.client.setSettings({
+      indexName: VENUES_INDEX,
+      indexSettings: {
+        searchableAttributes: [
+          'name',
+          'chain_name',
+          'address_city',
+          'address_street',
+        ],
+        attributesForFaceting: [
+          'filterOnly(type)',
+          'filterOnly(status)',
+          'filterOnly(address_country)',
+          'filterOnly(address_city)',
+        ],
+        customRanking: ['desc(last_verified)'],
+        // Enable geo search
+        attributeForDistinct: 'objectID',
+      },
     });
 
     // Dishes index settings
-    await this.dishesIndex.setSettings({
-      searchableAttributes: [
-        'name',
-        'name_localized',
-        'description',
-        'venue_name',
-        'planted_products',
-        'cuisine_type',
-      ],
-      attributesForFaceting: [
-        'filterOnly(status)',
-        'filterOnly(venue_country)',
-        'filterOnly(venue_city)',
-        'filterOnly(dietary_tags)',
-        'filterOnly(cuisine_type)',
-        'filterOnly(planted_products)',
-      ],
-      customRanking: ['desc(last_verified)'],
-      attributeForDistinct: 'objectID',
+    await this.client.setSettings({
+      indexName: DISHES_INDEX,
+      indexSettings: {
+        searchableAttributes: [
+          'name',
+          'name_localized',
+          'description',
+          'venue_name',
+          'planted_products',
+          'cuisine_type',
+        ],
+        attributesForFaceting: [
+          'filterOnly(status)',
+          'filterOnly(venue_country)',
+          'filterOnly(venue_city)',
+          'filterOnly(dietary_tags)',
+          'filterOnly(cuisine_type)',
+          'filterOnly(planted_products)',
+        ],
+        customRanking: ['desc(last_verified)'],
+        attributeForDistinct: 'objectID',
+      },
     });
 
     console.log('Algolia indexes configured successfully');
   }
 
   /**
-   * Index a venue
+   * Index (create or replace) venue records
    */
-  async indexVenue(venue: Venue, chainName?: string): Promise<void> {
-    const record: VenueSearchRecord = {
-      objectID: venue.id,
-      name: venue.name,
-      type: venue.type,
-      chain_name: chainName,
-      address_city: venue.address.city,
-      address_country: venue.address.country,
-      address_street: venue.address.street,
-      address_postal_code: venue.address.postal_code,
-      _geoloc: {
-        lat: venue.location.latitude,
-        lng: venue.location.longitude,
-      },
-      status: venue.status,
-      last_verified: venue.last_verified.toDate().getTime(),
-    };
-
-    await this.venuesIndex.saveObject(record);
+  async indexVenues(records: VenueSearchRecord[]): Promise<void> {
+    if (records.length > 0) {
+      await this.client.saveObjects({ indexName: VENUES_INDEX, objects: records as unknown as Record<string, unknown>[] });
+    }
   }
 
   /**
-   * Index multiple venues
+   * Index (create or replace) dish records
    */
-  async indexVenues(venues: Array<Venue & { chainName?: string }>): Promise<void> {
-    const records: VenueSearchRecord[] = venues.map((venue) => ({
-      objectID: venue.id,
-      name: venue.name,
-      type: venue.type,
-      chain_name: venue.chainName,
-      address_city: venue.address.city,
-      address_country: venue.address.country,
-      address_street: venue.address.street,
-      address_postal_code: venue.address.postal_code,
-      _geoloc: {
-        lat: venue.location.latitude,
-        lng: venue.location.longitude,
-      },
-      status: venue.status,
-      last_verified: venue.last_verified.toDate().getTime(),
-    }));
-
-    await this.venuesIndex.saveObjects(records);
+  async indexDishes(records: DishSearchRecord[]): Promise<void> {
+    if (records.length > 0) {
+      await this.client.saveObjects({ indexName: DISHES_INDEX, objects: records as unknown as Record<string, unknown>[] });
+    }
   }
 
   /**
-   * Index a dish with venue location
+   * Remove venues from the index
    */
-  async indexDish(
-    dish: Dish,
-    venue: { name: string; city: string; country: string; lat: number; lng: number }
-  ): Promise<void> {
-    const record: DishSearchRecord = {
-      objectID: dish.id,
-      name: dish.name,
-      name_localized: dish.name_localized,
-      description: dish.description,
-      venue_id: dish.venue_id,
-      venue_name: venue.name,
-      venue_city: venue.city,
-      venue_country: venue.country,
-      planted_products: dish.planted_products,
-      dietary_tags: dish.dietary_tags,
-      cuisine_type: dish.cuisine_type,
-      price_amount: dish.price.amount,
-      price_currency: dish.price.currency,
-      _geoloc: {
-        lat: venue.lat,
-        lng: venue.lng,
-      },
-      status: dish.status,
-      last_verified: dish.last_verified.toDate().getTime(),
-    };
-
-    await this.dishesIndex.saveObject(record);
+  async removeVenues(venueIds: string[]): Promise<void> {
+    if (venueIds.length > 0) {
+      await this.client.deleteObjects({ indexName: VENUES_INDEX, objectIDs: venueIds });
+    }
   }
 
   /**
-   * Remove a venue from the index
+   * Remove dishes from the index
    */
-  async removeVenue(venueId: string): Promise<void> {
-    await this.venuesIndex.deleteObject(venueId);
+  async removeDishes(dishIds: string[]): Promise<void> {
+    if (dishIds.length > 0) {
+      await this.client.deleteObjects({ indexName: DISHES_INDEX, objectIDs: dishIds });
+    }
   }
 
   /**
-   * Remove a dish from the index
+   * Rebuild both indexes; Algolia swaps in the new contents atomically,
+   * so records of deleted documents disappear too
    */
-  async removeDish(dishId: string): Promise<void> {
-    await this.dishesIndex.deleteObject(dishId);
+  async replaceAll(venues: VenueSearchRecord[], dishes: DishSearchRecord[]): Promise<void> {
+    await this.client.replaceAllObjects({
+      indexName: VENUES_INDEX,
+      objects: venues as unknown as Record<string, unknown>[],
+    });
+    await this.client.replaceAllObjects({
+      indexName: DISHES_INDEX,
+      objects: dishes as unknown as Record<string, unknown>[],
+    });
   }
 
   /**
    * Search venues by query with optional geo filter
    */
-  async searchVenues(
-    query: string,
-    options?: {
-      lat?: number;
-      lng?: number;
-      radiusKm?: number;
-      type?: 'retail' | 'restaurant' | 'delivery_kitchen';
-      country?: string;
-      city?: string;
-      limit?: number;
-    }
-  ): Promise<{ hits: VenueSearchRecord[]; nbHits: number }> {
-    const filters: string[] = ["status:active"];
+  async searchVenues(query: string, options?: VenueSearchOptions): Promise<SearchResult<VenueSearchRecord>> {
+    const filters: string[] = ['status:active'];
 
     if (options?.type) {
-      filters.push(`type:${options.type}`);
+      filters.push(algoliaFilter('type', options.type));
     }
     if (options?.country) {
-      filters.push(`address_country:${options.country}`);
+      filters.push(algoliaFilter('address_country', options.country));
     }
     if (options?.city) {
-      filters.push(`address_city:${options.city}`);
-    }
-
-    const searchParams: any = {
-      filters: filters.join(' AND '),
-      hitsPerPage: options?.limit || 20,
-    };
-
-    // Add geo search if coordinates provided
-    if (options?.lat !== undefined && options?.lng !== undefined) {
-      searchParams.aroundLatLng = `${options.lat}, ${options.lng}`;
-      searchParams.aroundRadius = (options.radiusKm || 10) * 1000; // Convert km to meters
+      filters.push(algoliaFilter('address_city', options.city));
     }
 
-    const result = await this.venuesIndex.search<VenueSearchRecord>(query, searchParams);
-
-    return {
-      hits: result.hits,
-      nbHits: result.nbHits,
-    };
+    return this.search<VenueSearchRecord>(VENUES_INDEX, query, filters, options);
   }
 
   /**
    * Search dishes by query with optional geo filter
    */
-  async searchDishes(
-    query: string,
-    options?: {
-      lat?: number;
-      lng?: number;
-      radiusKm?: number;
-      plantedProduct?: string;
-      dietaryTags?: string[];
-      cuisineType?: string;
-      country?: string;
-      city?: string;
-      limit?: number;
-    }
-  ): Promise<{ hits: DishSearchRecord[]; nbHits: number }> {
-    const filters: string[] = ["status:active"];
+  async searchDishes(query: string, options?: DishSearchOptions): Promise<SearchResult<DishSearchRecord>> {
+    const filters: string[] = ['status:active'];
 
     if (options?.plantedProduct) {
-      filters.push(`planted_products:${options.plantedProduct}`);
+      filters.push(algoliaFilter('planted_products', options.plantedProduct));
     }
     if (options?.dietaryTags && options.dietaryTags.length > 0) {
-      const tagFilters = options.dietaryTags.map((t) => `dietary_tags:${t}`).join(' AND ');
+      const tagFilters = options.dietaryTags.map((t) => algoliaFilter('dietary_tags', t)).join(' AND ');
       filters.push(`(${tagFilters})`);
     }
     if (options?.cuisineType) {
-      filters.push(`cuisine_type:${options.cuisineType}`);
+      filters.push(algoliaFilter('cuisine_type', options.cuisineType));
     }
     if (options?.country) {
-      filters.push(`venue_country:${options.country}`);
+      filters.push(algoliaFilter('venue_country', options.country));
     }
     if (options?.city) {
-      filters.push(`venue_city:${options.city}`);
+      filters.push(algoliaFilter('venue_city', options.city));
     }
 
-    const searchParams: any = {
-      filters: filters.join(' AND '),
-      hitsPerPage: options?.limit || 20,
-    };
-
-    // Add geo search if coordinates provided
-    if (options?.lat !== undefined && options?.lng !== undefined) {
-      searchParams.aroundLatLng = `${options.lat}, ${options.lng}`;
-      searchParams.aroundRadius = (options.radiusKm || 10) * 1000;
-    }
+    return this.search<DishSearchRecord>(DISHES_INDEX, query, filters, options);
+  }
 
-    const result = await this.dishesIndex.search<DishSearchRecord>(query, searchParams);
+  private async search<T>(
+    indexName: string,
+    query: string,
+    filters: string[],
+    options?: GeoSearchOptions
+  ): Promise<SearchResult<T>> {
+    const geo = options?.lat !== undefined && options?.lng !== undefined
+      ? {
+          aroundLatLng: `${options.lat}, ${options.lng}`,
+          aroundRadius: Math.round((options.radiusKm || DEFAULT_SEARCH_RADIUS_KM) * 1000), // Convert km to meters
+        }
+      : {};
+
+    const result = await this.client.searchSingleIndex<T>({
+      indexName,
+      searchParams: {
+        query,
+        filters: filters.join(' AND '),
+        hitsPerPage: options?.limit || 20,
+        ...geo,
+      },
+    });
 
     return {
       hits: result.hits,
-      nbHits: result.nbHits,
+      nbHits: result.nbHits ?? result.hits.length,
     };
   }
 
@@ -321,8 +386,8 @@ export class SearchService {
     return {
       appId,
       searchKey,
-      venuesIndex: 'venues',
-      dishesIndex: 'dishes',
+      venuesIndex: VENUES_INDEX,
+      dishesIndex: DISHES_INDEX,
     };
   }
 }
@@ -342,3 +407,23 @@ export function createSearchService(): SearchService | null {
 
   return new SearchService({ appId, apiKey, searchKey });
 }
+
+// Singleton instance (undefined until first use)
+let searchProvider: SearchProvider | null | undefined;
+
+/**
+ * Get the configured search provider, or null when search isn't set up
+ */
+export function getSearchProvider(): SearchProvider | null {
+  if (searchProvider === undefined) {
+    searchProvider = createSearchService();
+  }
+  return searchProvider;
+}
+
+/**
+ * Swap the search provider (tests and local emulators use InMemorySearchService)
+ */
+export function setSearchProvider(provider: SearchProvider | null): void {
+  searchProvider = provider;
+}
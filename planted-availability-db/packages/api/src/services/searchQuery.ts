@@ -0,0 +1,213 @@
+/**
+ * Search Queries
+ *
+ * Splits free-text queries like "kebab near Zurich" into the text to
+ * search for and a place, resolves the place to coordinates with the
+ * postal code geocoder and runs the search against a SearchProvider.
+ */
+
+import { calculateDistance } from '@pad/core';
+import { getPostalCodeGeocoder, isValidPostalCode, type PostalCodeGeocoder } from './geocoding.js';
+import type { DishSearchRecord, SearchProvider, VenueSearchRecord } from './search.js';
+
+export interface ParsedSearchQuery {
+  /** Text to match against the index */
+  text: string;
+  /** Place after "near"/"in"/..., or null */
+  place: string | null;
+}
+
+export interface ResolvedPlace {
+  lat: number;
+  lng: number;
+  place_name: string | null;
+  source: 'postal_code' | 'address';
+}
+
+// The last keyword wins: "chicken in curry near Zurich" searches "chicken in curry"
+const PLACE_PATTERN = /^(?:(.*\S)\s+)?(?:near|in|around|bei|nahe|près de|vicino a)\s+(.+)$/i;
+
+// "near me" means the caller's own coordinates (lat/lng)
+const OWN_LOCATION = new Set(['me', 'here', 'mir', 'moi']);
+
+/**
+ * Split a query into text and place
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const trimmed = query.trim().replace(/\s+/g, ' ');
+  const match = trimmed.match(PLACE_PATTERN);
+
+  if (!match) {
+    return { text: trimmed, place: null };
+  }
+
+  const text = match[1] ?? '';
+  const place = match[2].trim();
+
+  if (OWN_LOCATION.has(place.toLowerCase())) {
+    return { text, place: null };
+  }
+  return { text, place };
+}
+
+/**
+ * Resolve a place (postal code, city or address) to coordinates, or null
+ * if it can't be found
+ */
+export async function resolveSearchPlace(
+  place: string,
+  country?: string,
+  geocoder: PostalCodeGeocoder = getPostalCodeGeocoder()
+): Promise<ResolvedPlace | null> {
+  if (country && isValidPostalCode(place, country)) {
+    const location = await geocoder.lookup(place, country);
+    if (location) {
+      return { lat: location.lat, lng: location.lng, place_name: location.place_name, source: 'postal_code' };
+    }
+  }
+
+  const location = await geocoder.lookupAddress(place, country);
+  if (!location) {
+    return null;
+  }
+  return { lat: location.lat, lng: location.lng, place_name: location.place_name, source: 'address' };
+}
+
+export interface VenueSearchHit {
+  id: string;
+  name: string;
+  type: VenueSearchRecord['type'];
+  chain_name: string | null;
+  address: { street: string; city: string; postal_code: string; country: string };
+  location: { latitude: number; longitude: number };
+  distance_km?: number;
+}
+
+export interface DishSearchHit {
+  id: string;
+  name: string;
+  description: string;
+  venue: { id: string; name: string; city: string; country: string };
+  planted_products: string[];
+  dietary_tags: string[];
+  cuisine_type: string | null;
+  price: { amount: number; currency: string };
+  location: { latitude: number; longitude: number };
+  distance_km?: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  /** Text matched against the index, after removing the place */
+  text: string;
+  /** Geo filter applied, or null for a text-only search */
+  location: {
+    lat: number;
+    lng: number;
+    radius_km: number;
+    place_name: string | null;
+    source: 'coordinates' | ResolvedPlace['source'];
+  } | null;
+  venues: VenueSearchHit[];
+  dishes: DishSearchHit[];
+  total: { venues: number; dishes: number };
+}
+
+export interface SearchParams {
+  q: string;
+  type: 'venues' | 'dishes' | 'all';
+  lat?: number;
+  lng?: number;
+  radius_km: number;
+  country?: string;
+  venue_type?: VenueSearchRecord['type'];
+  product_sku?: string;
+  limit: number;
+}
+
+function distanceFrom(origin: SearchResponse['location'], geoloc: { lat: number; lng: number }): number | undefined {
+  if (!origin) {
+    return undefined;
+  }
+  const km = calculateDistance({ latitude: origin.lat, longitude: origin.lng }, { latitude: geoloc.lat, longitude: geoloc.lng });
+  return Math.round(km * 100) / 100;
+}
+
+function toVenueHit(record: VenueSearchRecord, origin: SearchResponse['location']): VenueSearchHit {
+  return {
+    id: record.objectID,
+    name: record.name,
+    type: record.type,
+    chain_name: record.chain_name ?? null,
+    address: {
+      street: record.address_street,
+      city: record.address_city,
+      postal_code: record.address_postal_code,
+      country: record.address_country,
+    },
+    location: { latitude: record._geoloc.lat, longitude: record._geoloc.lng },
+    distance_km: distanceFrom(origin, record._geoloc),
+  };
+}
+
+function toDishHit(record: DishSearchRecord, origin: SearchResponse['location']): DishSearchHit {
+  return {
+    id: record.objectID,
+    name: record.name,
+    description: record.description,
+    venue: { id: record.venue_id, name: record.venue_name, city: record.venue_city, country: record.venue_country },
+    planted_products: record.planted_products,
+    dietary_tags: record.dietary_tags,
+    cuisine_type: record.cuisine_type ?? null,
+    price: { amount: record.price_amount, currency: record.price_currency },
+    location: { latitude: record._geoloc.lat, longitude: record._geoloc.lng },
+    distance_km: distanceFrom(origin, record._geoloc),
+  };
+}
+
+/**
+ * Run a search: a place in the query ("near Zurich") takes precedence
+ * over lat/lng; if it can't be geocoded the whole query is searched as text
+ */
+export async function runSearch(
+  search: SearchProvider,
+  params: SearchParams,
+  geocoder: PostalCodeGeocoder = getPostalCodeGeocoder()
+): Promise<SearchResponse> {
+  const parsed = parseSearchQuery(params.q);
+  let text = parsed.text;
+  let location: SearchResponse['location'] = null;
+
+  if (parsed.place) {
+    const place = await resolveSearchPlace(parsed.place, params.country, geocoder);
+    if (place) {
+      location = { ...place, radius_km: params.radius_km };
+    } else {
+      text = params.q.trim();
+    }
+  }
+
+  if (!location && params.lat !== undefined && params.lng !== undefined) {
+    location = { lat: params.lat, lng: params.lng, radius_km: params.radius_km, place_name: null, source: 'coordinates' };
+  }
+
+  const geo = location ? { lat: location.lat, lng: location.lng, radiusKm: location.radius_km } : {};
+
+  const [venueResult, dishResult] = await Promise.all([
+    params.type === 'dishes'
+      ? null
+      : search.searchVenues(text, { ...geo, type: params.venue_type, country: params.country, limit: params.limit }),
+    params.type === 'venues'
+      ? null
+      : search.searchDishes(text, { ...geo, plantedProduct: params.product_sku, country: params.country, limit: params.limit }),
+  ]);
+
+  return {
+    query: params.q,
+    text,
+    location,
+    venues: venueResult?.hits.map((record) => toVenueHit(record, location)) ?? [],
+    dishes: dishResult?.hits.map((record) => toDishHit(record, location)) ?? [],
+    total: { venues: venueResult?.nbHits ?? 0, dishes: dishResult?.nbHits ?? 0 },
+  };
+}
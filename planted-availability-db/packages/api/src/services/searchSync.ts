@@ -0,0 +1,141 @@
+/**
+ * Search Index Sync
+ *
+ * Keeps the search indexes in line with Firestore: active venues and
+ * their active dishes are indexed, everything else is removed. Used by
+ * the Firestore triggers (single documents) and the admin reindex (all).
+ */
+
+import { venues, dishes, chains } from '@pad/database';
+import type { Dish, Venue } from '@pad/core';
+import {
+  toDishSearchRecord,
+  toDishVenueInfo,
+  toVenueSearchRecord,
+  type DishSearchRecord,
+  type SearchProvider,
+  type VenueSearchRecord,
+} from './search.js';
+
+/**
+ * Reads used by the sync, so it can run against fixtures in tests
+ */
+export interface SearchDataSource {
+  getVenue(venueId: string): Promise<Venue | null>;
+  getDish(dishId: string): Promise<Dish | null>;
+  getChainNames(chainIds: string[]): Promise<Map<string, string>>;
+  /** All dishes of a venue, whatever their status */
+  getVenueDishes(venueId: string): Promise<Dish[]>;
+  getActiveVenues(): Promise<Venue[]>;
+  /** Active dishes of the given venues */
+  getActiveDishes(venueIds: string[]): Promise<Dish[]>;
+}
+
+// Venues per getByVenues() call during a reindex
+const REINDEX_VENUE_BATCH = 300;
+
+export const firestoreSearchDataSource: SearchDataSource = {
+  getVenue: (venueId) => venues.getById(venueId),
+  getDish: (dishId) => dishes.getById(dishId),
+  async getChainNames(chainIds) {
+    const found = await chains.getByIds([...new Set(chainIds)]);
+    return new Map(found.map((chain) => [chain.id, chain.name]));
+  },
+  getVenueDishes: (venueId) => dishes.getByVenue(venueId, false),
+  getActiveVenues: () => venues.query({ status: 'active' }),
+  async getActiveDishes(venueIds) {
+    const result: Dish[] = [];
+    for (let i = 0; i < venueIds.length; i += REINDEX_VENUE_BATCH) {
+      const byVenue = await dishes.getByVenues(venueIds.slice(i, i + REINDEX_VENUE_BATCH));
+      byVenue.forEach((venueDishes) => result.push(...venueDishes));
+    }
+    return result;
+  },
+};
+
+export interface ReindexResult {
+  venues: number;
+  dishes: number;
+}
+
+async function chainNameOf(venue: Venue, source: SearchDataSource): Promise<string | undefined> {
+  if (!venue.chain_id) {
+    return undefined;
+  }
+  return (await source.getChainNames([venue.chain_id])).get(venue.chain_id);
+}
+
+/**
+ * Index or remove a venue after a write. Its dishes carry the venue's
+ * name and location, so they're re-indexed (or removed) along with it.
+ */
+export async function syncVenue(
+  search: SearchProvider,
+  venueId: string,
+  source: SearchDataSource = firestoreSearchDataSource
+): Promise<'indexed' | 'removed'> {
+  const venue = await source.getVenue(venueId);
+  const venueDishes = await source.getVenueDishes(venueId);
+
+  if (!venue || venue.status !== 'active') {
+    await search.removeVenues([venueId]);
+    await search.removeDishes(venueDishes.map((dish) => dish.id));
+    return 'removed';
+  }
+
+  await search.indexVenues([toVenueSearchRecord(venue, await chainNameOf(venue, source))]);
+
+  const venueInfo = toDishVenueInfo(venue);
+  const active = venueDishes.filter((dish) => dish.status === 'active');
+  await search.indexDishes(active.map((dish) => toDishSearchRecord(dish, venueInfo)));
+  await search.removeDishes(venueDishes.filter((dish) => dish.status !== 'active').map((dish) => dish.id));
+  return 'indexed';
+}
+
+/**
+ * Index or remove a dish after a write. Dishes of inactive venues aren't indexed.
+ */
+export async function syncDish(
+  search: SearchProvider,
+  dishId: string,
+  source: SearchDataSource = firestoreSearchDataSource
+): Promise<'indexed' | 'removed'> {
+  const dish = await source.getDish(dishId);
+  const venue = dish?.status === 'active' ? await source.getVenue(dish.venue_id) : null;
+
+  if (!dish || !venue || venue.status !== 'active') {
+    await search.removeDishes([dishId]);
+    return 'removed';
+  }
+
+  await search.indexDishes([toDishSearchRecord(dish, toDishVenueInfo(venue))]);
+  return 'indexed';
+}
+
+/**
+ * Rebuild both indexes from all active venues and their active dishes
+ */
+export async function reindexAll(
+  search: SearchProvider,
+  source: SearchDataSource = firestoreSearchDataSource
+): Promise<ReindexResult> {
+  const activeVenues = await source.getActiveVenues();
+  const chainNames = await source.getChainNames(
+    activeVenues.flatMap((venue) => (venue.chain_id ? [venue.chain_id] : []))
+  );
+
+  const venueRecords: VenueSearchRecord[] = activeVenues.map((venue) =>
+    toVenueSearchRecord(venue, venue.chain_id ? chainNames.get(venue.chain_id) : undefined)
+  );
+
+  const venueInfo = new Map(activeVenues.map((venue) => [venue.id, toDishVenueInfo(venue)]));
+  const activeDishes = await source.getActiveDishes(activeVenues.map((venue) => venue.id));
+  const dishRecords: DishSearchRecord[] = activeDishes.flatMap((dish) => {
+    const info = venueInfo.get(dish.venue_id);
+    return info ? [toDishSearchRecord(dish, info)] : [];
+  });
+
+  await search.replaceAll(venueRecords, dishRecords);
+
+  return { venues: venueRecords.length, dishes: dishRecords.length };
+}
@@ -0,0 +1,624 @@
+/**
+ * Staging Promotion Service
+ *
+ * Moves reviewed partner submissions from the staging collections into
+ * production (venues, dishes, promotions, retail_availability) and keeps
+ * the owning IngestionBatch stats in step with the review outcome.
+ *
+ * Dishes, promotions and availability records point at their venue either
+ * directly (production_venue_id), via a staged venue in the same submission
+ * (staged_venue_id), or by the partner's own venue reference
+ * (venue_external_id). Venues are therefore always promoted first.
+ */
+
+import {
+  venues,
+  dishes,
+  promotions,
+  retailAvailability,
+  changeLogs,
+  ingestionBatches,
+  partners,
+  stagedVenues,
+  stagedDishes,
+  stagedPromotions,
+  stagedAvailability,
+} from '@pad/database';
+import type {
+  ChangeSource,
+  DataSource,
+  FieldChange,
+  DayOfWeek,
+  OpeningHours,
+  StagedVenue,
+  StagedDish,
+  StagedPromotion,
+  StagedAvailability,
+  StagingStatus,
+  Venue,
+  VenueType,
+  Dish,
+} from '@pad/core';
+import { notifyBatchStatusChanged } from './partnerCallbacks.js';
+import { dishNameKey } from '../functions/admin/sync/changes.js';
+
+export type StagedEntityType = 'venue' | 'dish' | 'promotion' | 'availability';
+
+export const STAGED_ENTITY_TYPES: StagedEntityType[] = ['venue', 'dish', 'promotion', 'availability'];
+
+export type StagedEntity = StagedVenue | StagedDish | StagedPromotion | StagedAvailability;
+
+/** Reviewer recorded on records and batches decided by the pipeline */
+export const AUTO_REVIEWER = 'system:auto-approve';
+
+export interface PromotionOutcome {
+  entity_type: StagedEntityType;
+  staged_id: string;
+  success: boolean;
+  production_id?: string;
+  /** True when an existing production record was updated instead of created */
+  linked?: boolean;
+  error?: string;
+}
+
+export interface BatchReviewCounts {
+  pending: number;
+  approved: number;
+  rejected: number;
+  promoted: number;
+}
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+const PRODUCTION_VENUE_TYPES: VenueType[] = ['retail', 'restaurant', 'delivery_kitchen'];
+
+const PARTNER_SOURCE: DataSource = { type: 'partner_feed' };
+
+/**
+ * Load a staged entity of any type
+ */
+export async function getStagedEntity(
+  entityType: StagedEntityType,
+  id: string
+): Promise<StagedEntity | null> {
+  switch (entityType) {
+    case 'venue':
+      return stagedVenues.getById(id);
+    case 'dish':
+      return stagedDishes.getById(id);
+    case 'promotion':
+      return stagedPromotions.getById(id);
+    case 'availability':
+      return stagedAvailability.getById(id);
+  }
+}
+
+/**
+ * Load all staged entities of a type for a batch
+ */
+export async function getStagedEntitiesByBatch(
+  entityType: StagedEntityType,
+  batchId: string
+): Promise<StagedEntity[]> {
+  switch (entityType) {
+    case 'venue':
+      return stagedVenues.getByBatch(batchId);
+    case 'dish':
+      return stagedDishes.getByBatch(batchId);
+    case 'promotion':
+      return stagedPromotions.getByBatch(batchId);
+    case 'availability':
+      return stagedAvailability.getByBatch(batchId);
+  }
+}
+
+/**
+ * Query staged entities of a type across batches
+ */
+export async function queryStagedEntities(
+  entityType: StagedEntityType,
+  options: { partner_id?: string; status?: StagingStatus | StagingStatus[]; limit?: number }
+): Promise<StagedEntity[]> {
+  switch (entityType) {
+    case 'venue':
+      return stagedVenues.query(options);
+    case 'dish':
+      return stagedDishes.query(options);
+    case 'promotion':
+      return stagedPromotions.query(options);
+    case 'availability':
+      return stagedAvailability.query(options);
+  }
+}
+
+/**
+ * Record an approve/reject decision on a staged entity
+ */
+export async function reviewStagedEntity(
+  entityType: StagedEntityType,
+  id: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string,
+  notes?: string
+): Promise<void> {
+  const collection = {
+    venue: stagedVenues,
+    dish: stagedDishes,
+    promotion: stagedPromotions,
+    availability: stagedAvailability,
+  }[entityType];
+
+  if (decision === 'approved') {
+    await collection.approve(id, reviewedBy, notes);
+  } else {
+    await collection.reject(id, reviewedBy, notes);
+  }
+}
+
+/**
+ * Promote a single approved staged entity into production
+ */
+export async function promoteStagedEntity(
+  entityType: StagedEntityType,
+  id: string,
+  changeSource: ChangeSource
+): Promise<PromotionOutcome> {
+  const outcome: PromotionOutcome = { entity_type: entityType, staged_id: id, success: false };
+
+  try {
+    const entity = await getStagedEntity(entityType, id);
+    if (!entity) {
+      outcome.error = 'Staged record not found';
+      return outcome;
+    }
+    if (entity.status !== 'approved') {
+      outcome.error = `Only approved records can be promoted (status: ${entity.status})`;
+      return outcome;
+    }
+
+    switch (entityType) {
+      case 'venue':
+        Object.assign(outcome, await promoteVenue(entity as StagedVenue, changeSource));
+        break;
+      case 'dish':
+        Object.assign(outcome, await promoteDish(entity as StagedDish, changeSource));
+        break;
+      case 'promotion':
+        Object.assign(outcome, await promotePromotion(entity as StagedPromotion, changeSource));
+        break;
+      case 'availability':
+        Object.assign(outcome, await promoteAvailability(entity as StagedAvailability, changeSource));
+        break;
+    }
+    outcome.success = true;
+  } catch (error) {
+    outcome.error = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[StagingPromotion] Failed to promote ${entityType} ${id}:`, error);
+  }
+
+  return outcome;
+}
+
+/**
+ * Promote every approved record in a batch, venues first so that dependent
+ * records can resolve their production venue. Callers refresh the batch
+ * stats afterwards.
+ */
+export async function promoteApprovedInBatch(
+  batchId: string,
+  changeSource: ChangeSource
+): Promise<PromotionOutcome[]> {
+  const outcomes: PromotionOutcome[] = [];
+
+  for (const entityType of STAGED_ENTITY_TYPES) {
+    const entities = await getStagedEntitiesByBatch(entityType, batchId);
+    for (const entity of entities.filter((e) => e.status === 'approved')) {
+      outcomes.push(await promoteStagedEntity(entityType, entity.id, changeSource));
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Recount review outcomes for a batch and write them to IngestionBatch.stats.
+ * Promoted records also count as approved. Once nothing is left to review the
+ * batch itself receives a final decision, and the first such decision feeds
+ * the partner's quality metrics with the human review outcomes.
+ */
+export async function refreshBatchReviewStats(
+  batchId: string,
+  reviewedBy: string
+): Promise<BatchReviewCounts> {
+  const counts: BatchReviewCounts = { pending: 0, approved: 0, rejected: 0, promoted: 0 };
+  const batch = await ingestionBatches.getById(batchId);
+
+  const perType = await Promise.all([
+    stagedVenues.countByStatus(batchId),
+    stagedDishes.countByStatus(batchId),
+    stagedPromotions.countByStatus(batchId),
+    stagedAvailability.countByStatus(batchId),
+  ]);
+
+  for (const byStatus of perType) {
+    counts.pending += byStatus.pending + byStatus.validating + byStatus.needs_review;
+    counts.approved += byStatus.approved + byStatus.promoted;
+    counts.rejected += byStatus.rejected;
+    counts.promoted += byStatus.promoted;
+  }
+
+  await ingestionBatches.recordReviewProgress(batchId, counts);
+
+  if (counts.pending === 0 && counts.approved + counts.rejected > 0) {
+    await ingestionBatches.recordReview(batchId, {
+      reviewed_by: reviewedBy,
+      decision:
+        counts.rejected === 0 ? 'approved' : counts.approved === 0 ? 'rejected' : 'partial',
+    });
+
+    if (batch && !batch.review?.decision) {
+      await recordPartnerOutcome(batch.partner_id, batchId);
+    }
+    await notifyBatchStatusChanged(batchId, batch?.status);
+  }
+
+  return counts;
+}
+
+/**
+ * Count the accept/reject decisions a human reviewer made on a batch's
+ * records. Auto-approvals only echo the partner's own threshold, so they
+ * must not raise the partner's acceptance rate.
+ */
+export function countHumanReviewOutcomes(entities: StagedEntity[]): {
+  accepted: number;
+  rejected: number;
+} {
+  const outcome = { accepted: 0, rejected: 0 };
+
+  for (const entity of entities) {
+    if (!entity.review || entity.review.reviewed_by === AUTO_REVIEWER) continue;
+
+    if (entity.status === 'approved' || entity.status === 'promoted') {
+      outcome.accepted++;
+    } else if (entity.status === 'rejected') {
+      outcome.rejected++;
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Feed a batch's final human review outcome into the partner's quality metrics
+ */
+async function recordPartnerOutcome(partnerId: string, batchId: string): Promise<void> {
+  try {
+    const entities = (
+      await Promise.all(STAGED_ENTITY_TYPES.map((type) => getStagedEntitiesByBatch(type, batchId)))
+    ).flat();
+    const averageConfidence =
+      entities.length > 0
+        ? entities.reduce((sum, e) => sum + e.confidence_score, 0) / entities.length
+        : 0;
+
+    await partners.recordSubmission(partnerId, {
+      ...countHumanReviewOutcomes(entities),
+      averageConfidence,
+    });
+  } catch (error) {
+    console.warn(`[StagingPromotion] Failed to update quality metrics for partner ${partnerId}:`, error);
+  }
+}
+
+// ============================================================================
+// Per-type promotion
+// ============================================================================
+
+async function promoteVenue(
+  staged: StagedVenue,
+  changeSource: ChangeSource
+): Promise<Partial<PromotionOutcome>> {
+  const coordinates =
+    staged.geocoding.resolved_coordinates || staged.geocoding.original_coordinates;
+  if (!coordinates) {
+    throw new Error('Venue has no coordinates - geocode it before promoting');
+  }
+
+  const data = staged.data;
+  // Fields the submission leaves out stay undefined, so a linked venue keeps its own
+  const venueData = {
+    type: PRODUCTION_VENUE_TYPES.includes(data.type) ? data.type : undefined,
+    name: data.name,
+    chain_id: data.chain_id,
+    location: { latitude: coordinates.lat, longitude: coordinates.lng },
+    address: {
+      street: data.address.street,
+      city: data.address.city,
+      postal_code: data.address.postal_code,
+      country: data.address.country.toUpperCase(),
+    },
+    opening_hours: data.opening_hours ? toOpeningHours(data.opening_hours) : undefined,
+    contact: data.contact,
+    source: PARTNER_SOURCE,
+    last_verified: new Date(),
+  };
+
+  if (staged.production_venue_id) {
+    const existing = await venues.getById(staged.production_venue_id);
+    if (!existing) {
+      throw new Error(`Linked production venue ${staged.production_venue_id} not found`);
+    }
+
+    await venues.update(existing.id, venueData);
+    await stagedVenues.markPromoted(staged.id, existing.id);
+
+    const changes = diffVenueFields(existing, venueData);
+    if (changes.length > 0) {
+      await logChange('updated', 'venues', existing.id, staged, changeSource, changes);
+    }
+    return { production_id: existing.id, linked: true };
+  }
+
+  const created = await venues.create({
+    ...venueData,
+    type: venueData.type ?? 'restaurant',
+    opening_hours: venueData.opening_hours ?? { regular: {} },
+    status: 'active',
+  });
+  await stagedVenues.markPromoted(staged.id, created.id);
+  await logChange('created', 'venues', created.id, staged, changeSource);
+  return { production_id: created.id };
+}
+
+async function promoteDish(
+  staged: StagedDish,
+  changeSource: ChangeSource
+): Promise<Partial<PromotionOutcome>> {
+  if (staged.data.planted_products.length === 0) {
+    throw new Error('Dish has no Planted product mapped');
+  }
+
+  const venueId = await resolveProductionVenueId(staged);
+  if (!venueId) {
+    throw new Error('Dish venue has not been promoted yet');
+  }
+
+  const data = staged.data;
+  const dishData = {
+    venue_id: venueId,
+    name: data.name,
+    name_localized: data.name_localized,
+    description: data.description,
+    description_localized: data.description_localized,
+    planted_products: data.planted_products,
+    price: data.price,
+    image_url: data.image_url,
+    image_source: data.image_source,
+    dietary_tags: data.dietary_tags,
+    cuisine_type: data.cuisine_type,
+    availability: data.availability,
+    source: PARTNER_SOURCE,
+    status: 'active' as const,
+    last_verified: new Date(),
+  };
+
+  // A resubmitted menu updates the venue's dishes instead of adding them again
+  const existing = await findProductionDish(staged, venueId);
+  if (existing) {
+    await dishes.update(existing.id, dishData);
+    await stagedDishes.markPromoted(staged.id, existing.id);
+
+    const changes = diffFields(existing, dishData, LOGGED_DISH_FIELDS);
+    if (changes.length > 0) {
+      await logChange('updated', 'dishes', existing.id, staged, changeSource, changes);
+    }
+    return { production_id: existing.id, linked: true };
+  }
+
+  const created = await dishes.create(dishData);
+  await stagedDishes.markPromoted(staged.id, created.id);
+  await logChange('created', 'dishes', created.id, staged, changeSource);
+  return { production_id: created.id };
+}
+
+async function promotePromotion(
+  staged: StagedPromotion,
+  changeSource: ChangeSource
+): Promise<Partial<PromotionOutcome>> {
+  // Chain-wide promotions don't need a venue
+  const venueId = await resolveProductionVenueId(staged);
+  if (!venueId && !staged.chain_id) {
+    throw new Error('Promotion has neither a promoted venue nor a chain');
+  }
+
+  const data = staged.data;
+  const created = await promotions.create({
+    venue_id: venueId || undefined,
+    chain_id: staged.chain_id,
+    product_skus: data.product_skus,
+    promo_type: data.promo_type,
+    discount: data.discount,
+    title: data.title,
+    description: data.description,
+    image_url: data.image_url,
+    valid_from: data.valid_from,
+    valid_until: data.valid_until,
+    terms: data.terms,
+    source: PARTNER_SOURCE,
+  });
+
+  await stagedPromotions.markPromoted(staged.id, created.id);
+  await logChange('created', 'promotions', created.id, staged, changeSource);
+  return { production_id: created.id };
+}
+
+async function promoteAvailability(
+  staged: StagedAvailability,
+  changeSource: ChangeSource
+): Promise<Partial<PromotionOutcome>> {
+  const venueId = await resolveProductionVenueId(staged);
+  if (!venueId) {
+    throw new Error('Availability venue has not been promoted yet');
+  }
+
+  const data = staged.data;
+  const result = await retailAvailability.upsert(
+    {
+      venue_id: venueId,
+      product_sku: data.product_sku,
+      in_stock: data.in_stock,
+      price: data.price ? { regular: data.price.regular, currency: data.price.currency } : undefined,
+    },
+    PARTNER_SOURCE
+  );
+
+  await stagedAvailability.markPromoted(staged.id);
+  if (result.action !== 'unchanged') {
+    await logChange(result.action, 'retail_availability', result.id, staged, changeSource, result.changes);
+  }
+  return { production_id: result.id, linked: result.action !== 'created' };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the production venue for a dependent staged record
+ */
+async function resolveProductionVenueId(
+  staged: StagedDish | StagedPromotion | StagedAvailability
+): Promise<string | null> {
+  if (staged.production_venue_id) {
+    return staged.production_venue_id;
+  }
+
+  if (staged.staged_venue_id) {
+    const stagedVenue = await stagedVenues.getById(staged.staged_venue_id);
+    return stagedVenue?.production_venue_id || null;
+  }
+
+  const venueExternalId = 'venue_external_id' in staged ? staged.venue_external_id : undefined;
+  if (venueExternalId) {
+    const batchVenues = await stagedVenues.getByBatch(staged.batch_id);
+    const match = batchVenues.find((v) => v.external_id === venueExternalId);
+    return match?.production_venue_id || null;
+  }
+
+  return null;
+}
+
+/**
+ * The production dish a staged dish updates: the one it was promoted to
+ * before, else the venue's dish with the same name
+ */
+async function findProductionDish(staged: StagedDish, venueId: string): Promise<Dish | null> {
+  if (staged.production_dish_id) {
+    const promoted = await dishes.getById(staged.production_dish_id);
+    if (promoted?.venue_id === venueId) return promoted;
+  }
+
+  const key = dishNameKey(staged.data.name);
+  const matches = (await dishes.getByVenue(venueId, false)).filter((dish) => dishNameKey(dish.name) === key);
+  // Prefer the dish that is still on the menu
+  return matches.find((dish) => dish.status === 'active') ?? matches[0] ?? null;
+}
+
+function toOpeningHours(hours: NonNullable<StagedVenue['data']['opening_hours']>): OpeningHours {
+  const regular: OpeningHours['regular'] = {};
+  for (const [day, ranges] of Object.entries(hours.regular)) {
+    const normalized = day.toLowerCase() as DayOfWeek;
+    if (DAYS_OF_WEEK.includes(normalized)) {
+      regular[normalized] = ranges;
+    }
+  }
+
+  return {
+    regular,
+    exceptions: hours.exceptions,
+  };
+}
+
+// Venue fields a partner submission can change; last_verified and source
+// are rewritten on every promotion and not worth a change log entry
+const LOGGED_VENUE_FIELDS = [
+  'type',
+  'name',
+  'chain_id',
+  'location',
+  'address',
+  'opening_hours',
+  'contact',
+  'status',
+] as const satisfies readonly (keyof Venue)[];
+
+// Dish fields a partner submission can change
+const LOGGED_DISH_FIELDS = [
+  'name',
+  'name_localized',
+  'description',
+  'description_localized',
+  'planted_products',
+  'price',
+  'image_url',
+  'dietary_tags',
+  'cuisine_type',
+  'availability',
+  'status',
+] as const satisfies readonly (keyof Dish)[];
+
+/**
+ * Serialize with sorted object keys so values compare by content
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * Fields whose promoted value differs from the production venue.
+ * Fields the submission leaves undefined are not written and not compared.
+ */
+export function diffVenueFields(existing: Venue, update: Partial<Venue>): FieldChange[] {
+  return diffFields(existing, update, LOGGED_VENUE_FIELDS);
+}
+
+function diffFields<T extends object>(existing: T, update: Partial<T>, fields: readonly (keyof T & string)[]): FieldChange[] {
+  return fields
+    .filter((field) => update[field] !== undefined && stableStringify(existing[field]) !== stableStringify(update[field]))
+    .map((field) => ({ field, before: existing[field] ?? null, after: update[field] }));
+}
+
+async function logChange(
+  action: 'created' | 'updated',
+  collection: string,
+  documentId: string,
+  staged: StagedEntity,
+  changeSource: ChangeSource,
+  changes: FieldChange[] = []
+): Promise<void> {
+  try {
+    await changeLogs.log({
+      action,
+      collection,
+      document_id: documentId,
+      changes,
+      source: changeSource,
+      reason: `Promoted partner submission ${staged.id} (partner ${staged.partner_id}, batch ${staged.batch_id})`,
+    });
+  } catch (error) {
+    console.warn('[StagingPromotion] Failed to log change:', error);
+  }
+}
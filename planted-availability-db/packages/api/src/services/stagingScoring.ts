@@ -0,0 +1,229 @@
+/**
+ * Staging Scoring Service
+ *
+ * Scoring stage of the partner ingestion pipeline. Every record staged for a
+ * batch gets a confidence score and breakdown, then is either auto-approved
+ * or routed to the review queue according to the partner's config:
+ *
+ * - `requires_manual_review` sends every record to review
+ * - records scoring below `auto_approve_threshold` go to review
+ * - records with a weak component (see CONFIDENCE_FLAG_THRESHOLD) go to review
+ *
+ * Auto-approved records are promoted by the caller via promoteApprovedInBatch.
+ */
+
+import {
+  venues,
+  stagedVenues,
+  stagedDishes,
+  stagedPromotions,
+  stagedAvailability,
+} from '@pad/database';
+import {
+  matchProductSku,
+  scoreStagedVenue,
+  scoreStagedDish,
+  scoreStagedPromotion,
+  scoreStagedAvailability,
+} from '@pad/core';
+import type { ConfidenceContext, ConfidenceResult, Partner, StagedDish } from '@pad/core';
+import { AUTO_REVIEWER, reviewStagedEntity, type StagedEntityType } from './stagingPromotion.js';
+
+export { AUTO_REVIEWER };
+
+/** Confidence given to dish products mapped from free text by keyword */
+const KEYWORD_MAPPING_CONFIDENCE = 80;
+
+export interface ScoringSummary {
+  scored: number;
+  auto_approved: number;
+  needs_review: number;
+  average_confidence: number;
+  auto_approved_records: { entity_type: StagedEntityType; id: string; external_id?: string }[];
+}
+
+/**
+ * Score every pending record in a batch and auto-approve or flag it
+ */
+export async function scoreAndRouteBatch(batchId: string, partner: Partner): Promise<ScoringSummary> {
+  const summary: ScoringSummary = {
+    scored: 0,
+    auto_approved: 0,
+    needs_review: 0,
+    average_confidence: 0,
+    auto_approved_records: [],
+  };
+  const context: ConfidenceContext = {
+    sourceReliability: partner.quality_metrics.data_quality_score,
+  };
+  let confidenceTotal = 0;
+
+  const route = async (
+    entityType: StagedEntityType,
+    { id, external_id }: { id: string; external_id?: string },
+    result: ConfidenceResult<object>
+  ): Promise<void> => {
+    summary.scored++;
+    confidenceTotal += result.score;
+
+    await updateConfidence(entityType, id, result);
+
+    const flags = [...result.flags];
+    if (result.score < partner.config.auto_approve_threshold) {
+      flags.push('low_confidence');
+    }
+    if (partner.config.requires_manual_review) {
+      flags.push('manual_review_required');
+    }
+
+    if (flags.length === 0) {
+      await reviewStagedEntity(
+        entityType,
+        id,
+        'approved',
+        AUTO_REVIEWER,
+        `Auto-approved: confidence ${result.score} >= threshold ${partner.config.auto_approve_threshold}`
+      );
+      summary.auto_approved++;
+      summary.auto_approved_records.push({ entity_type: entityType, id, external_id });
+      return;
+    }
+
+    for (const flag of flags) {
+      await addFlag(entityType, id, flag);
+    }
+    summary.needs_review++;
+  };
+
+  const batchVenues = await stagedVenues.getByBatch(batchId);
+  for (const venue of batchVenues.filter((v) => v.status === 'pending')) {
+    const productionVenue = venue.production_venue_id
+      ? await venues.getById(venue.production_venue_id)
+      : null;
+    const result = scoreStagedVenue(venue, {
+      ...context,
+      productionVenueName: productionVenue?.name,
+    });
+    await route('venue', venue, result);
+  }
+
+  // Dependent records can refer to any venue in the submission, not just pending ones
+  const venuesByExternalId = new Map(
+    batchVenues
+      .filter((v) => v.external_id)
+      .map((v) => [v.external_id!, v.id])
+  );
+
+  const batchDishes = (await stagedDishes.getByBatch(batchId)).filter((d) => d.status === 'pending');
+  for (const dish of batchDishes) {
+    await resolveDishVenue(dish, venuesByExternalId);
+    await resolveDishProducts(dish);
+    await route('dish', dish, scoreStagedDish(dish, context));
+  }
+
+  const batchPromotions = (await stagedPromotions.getByBatch(batchId)).filter(
+    (p) => p.status === 'pending'
+  );
+  for (const promotion of batchPromotions) {
+    await route('promotion', promotion, scoreStagedPromotion(promotion, context));
+  }
+
+  const batchAvailability = (await stagedAvailability.getByBatch(batchId)).filter(
+    (a) => a.status === 'pending'
+  );
+  for (const availability of batchAvailability) {
+    await route('availability', availability, scoreStagedAvailability(availability, context));
+  }
+
+  summary.average_confidence =
+    summary.scored > 0 ? Math.round(confidenceTotal / summary.scored) : 0;
+
+  console.log(
+    `[StagingScoring] Batch ${batchId}: ${summary.auto_approved} auto-approved, ` +
+      `${summary.needs_review} to review (avg confidence ${summary.average_confidence})`
+  );
+
+  return summary;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Link a dish to the staged venue matching its partner venue reference
+ */
+async function resolveDishVenue(
+  dish: StagedDish,
+  venuesByExternalId: Map<string, string>
+): Promise<void> {
+  if (dish.production_venue_id || dish.staged_venue_id || !dish.venue_external_id) {
+    return;
+  }
+
+  const stagedVenueId = venuesByExternalId.get(dish.venue_external_id);
+  if (stagedVenueId) {
+    await stagedDishes.linkToVenue(dish.id, { staged_venue_id: stagedVenueId });
+    dish.staged_venue_id = stagedVenueId;
+  }
+}
+
+/**
+ * Map a dish without SKUs to a Planted product from its product text or name
+ */
+async function resolveDishProducts(dish: StagedDish): Promise<void> {
+  if (dish.data.planted_products.length > 0) {
+    return;
+  }
+
+  const productText = dish.product_mapping.original_product_text;
+  const sku =
+    (productText && matchProductSku(productText)) || matchProductSku(dish.data.name);
+  if (!sku) {
+    return;
+  }
+
+  const mapping: StagedDish['product_mapping'] = {
+    auto_mapped: true,
+    mapping_method: 'keyword',
+    mapping_confidence: KEYWORD_MAPPING_CONFIDENCE,
+    original_product_text: productText ?? dish.data.name,
+    suggested_products: [sku],
+  };
+
+  await stagedDishes.updateProductMapping(dish.id, mapping);
+  dish.product_mapping = mapping;
+  dish.data.planted_products = [sku];
+}
+
+async function updateConfidence(
+  entityType: StagedEntityType,
+  id: string,
+  result: ConfidenceResult<object>
+): Promise<void> {
+  const breakdown = { ...result.breakdown } as Record<string, number>;
+
+  switch (entityType) {
+    case 'venue':
+      return stagedVenues.updateConfidence(id, result.score, breakdown);
+    case 'dish':
+      return stagedDishes.updateConfidence(id, result.score, breakdown);
+    case 'promotion':
+      return stagedPromotions.updateConfidence(id, result.score, breakdown);
+    case 'availability':
+      return stagedAvailability.updateConfidence(id, result.score, breakdown);
+  }
+}
+
+async function addFlag(entityType: StagedEntityType, id: string, flag: string): Promise<void> {
+  switch (entityType) {
+    case 'venue':
+      return stagedVenues.addFlag(id, flag);
+    case 'dish':
+      return stagedDishes.addFlag(id, flag);
+    case 'promotion':
+      return stagedPromotions.addFlag(id, flag);
+    case 'availability':
+      return stagedAvailability.addFlag(id, flag);
+  }
+}
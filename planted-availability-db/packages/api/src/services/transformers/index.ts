@@ -0,0 +1,84 @@
+/**
+ * Partner Transformer Registry
+ *
+ * Transformers are keyed by Partner.config.transformer_id and map
+ * partner-specific payloads onto the planted_standard webhook payload.
+ * Register new transformers in TRANSFORMERS.
+ */
+
+import type { Partner, ValidationError } from '@pad/core';
+import { webhookPayloadSchema, toValidationErrors, type WebhookPayload } from '../../schemas/partner.js';
+import { plantedStandardTransformer } from './plantedStandard.js';
+import { posMenuExportTransformer } from './posMenuExport.js';
+import { TransformError, type PartnerTransformer } from './types.js';
+
+export * from './types.js';
+
+const TRANSFORMERS: PartnerTransformer[] = [plantedStandardTransformer, posMenuExportTransformer];
+
+const registry = new Map(TRANSFORMERS.map((t) => [t.id, t]));
+
+export interface TransformOutcome {
+  transformer_id: string;
+  /** `<id>@<version>`, as stored in IngestionBatch.processing.transformer_version */
+  transformer_version: string;
+  /** Validated planted_standard payload; undefined when there are errors */
+  payload?: WebhookPayload;
+  /** Transformer output before validation */
+  output?: unknown;
+  errors: ValidationError[];
+  warnings: string[];
+}
+
+export function getTransformer(id: string): PartnerTransformer | undefined {
+  return registry.get(id);
+}
+
+export function listTransformers(): PartnerTransformer[] {
+  return TRANSFORMERS;
+}
+
+/**
+ * Transformer for a partner's config, or undefined if its transformer_id
+ * isn't registered
+ */
+export function getPartnerTransformer(partner: Partner): PartnerTransformer | undefined {
+  if (partner.config.data_format === 'planted_standard') {
+    return plantedStandardTransformer;
+  }
+  return partner.config.transformer_id ? getTransformer(partner.config.transformer_id) : undefined;
+}
+
+/**
+ * Transform a raw partner payload and validate the result
+ */
+export function runTransformer(transformer: PartnerTransformer, rawPayload: unknown): TransformOutcome {
+  const outcome: TransformOutcome = {
+    transformer_id: transformer.id,
+    transformer_version: `${transformer.id}@${transformer.version}`,
+    errors: [],
+    warnings: [],
+  };
+
+  try {
+    const result = transformer.transform(rawPayload);
+    outcome.output = result.payload;
+    outcome.warnings = result.warnings;
+  } catch (error) {
+    outcome.errors.push({
+      record_index: -1,
+      field: error instanceof TransformError ? error.field : '',
+      error: error instanceof Error ? error.message : 'Transform failed',
+    });
+    return outcome;
+  }
+
+  const validation = webhookPayloadSchema.safeParse(outcome.output);
+  if (validation.success) {
+    outcome.payload = validation.data;
+  } else {
+    outcome.errors = toValidationErrors(validation.error, outcome.output);
+  }
+
+  return outcome;
+}
@@ -0,0 +1,17 @@
+/**
+ * planted_standard transformer
+ *
+ * Partners using Partner.config.data_format = 'planted_standard' already
+ * send the webhook payload shape, so the payload passes through unchanged.
+ */
+
+import type { PartnerTransformer } from './types.js';
+
+export const plantedStandardTransformer: PartnerTransformer = {
+  id: 'planted_standard',
+  version: '1.0.0',
+  description: 'Planted standard webhook payload (no mapping)',
+  transform(payload) {
+    return { payload, warnings: [] };
+  },
+};
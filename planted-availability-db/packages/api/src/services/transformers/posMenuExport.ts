@@ -0,0 +1,123 @@
+/**
+ * pos_menu_export transformer
+ *
+ * Maps the store/menu export produced by common restaurant POS systems:
+ *
+ *   {
+ *     "stores": [{
+ *       "store_id": "zh-01", "store_name": "...", "kind": "restaurant",
+ *       "address": { "line1": "...", "city": "...", "zip": "...", "country_code": "CH" },
+ *       "geo": { "latitude": 47.37, "longitude": 8.54 },
+ *       "phone": "...", "website": "...",
+ *       "menu": [{
+ *         "item_id": "...", "title": "...", "description": "...",
+ *         "price_cents": 2450, "currency": "CHF",
+ *         "tags": ["vegan"], "planted_product": "planted.kebab"
+ *       }]
+ *     }]
+ *   }
+ *
+ * Each store becomes a venue and each menu item a dish linked to it via
+ * venue_external_id. `planted_product` is passed on as product_text for
+ * product mapping during scoring.
+ */
+
+import { TransformError, type PartnerTransformer } from './types.js';
+
+type JsonObject = Record<string, unknown>;
+
+const VENUE_KINDS = ['restaurant', 'cafe', 'bar', 'food_truck', 'canteen', 'catering', 'retail'];
+
+export const posMenuExportTransformer: PartnerTransformer = {
+  id: 'pos_menu_export',
+  version: '1.0.0',
+  description: 'POS store/menu export (stores[] with nested menu items, prices in cents)',
+  transform(payload) {
+    if (!isObject(payload) || !Array.isArray(payload.stores)) {
+      throw new TransformError('Expected an object with a stores array', 'stores');
+    }
+
+    const warnings: string[] = [];
+    const venues: JsonObject[] = [];
+    const dishes: JsonObject[] = [];
+
+    payload.stores.forEach((store, storeIndex) => {
+      if (!isObject(store)) {
+        warnings.push(`stores[${storeIndex}] skipped: not an object`);
+        return;
+      }
+
+      const storeId = asString(store.store_id);
+      const address = isObject(store.address) ? store.address : {};
+      const geo = isObject(store.geo) ? store.geo : undefined;
+      const kind = asString(store.kind);
+
+      venues.push({
+        external_id: storeId,
+        type: kind && VENUE_KINDS.includes(kind) ? kind : 'other',
+        name: asString(store.store_name),
+        address: {
+          street: asString(address.line1),
+          city: asString(address.city),
+          postal_code: asString(address.zip),
+          country: asString(address.country_code)?.toUpperCase(),
+        },
+        coordinates: geo ? { lat: geo.latitude, lng: geo.longitude } : undefined,
+        contact:
+          store.phone || store.website
+            ? { phone: asString(store.phone), website: asString(store.website) }
+            : undefined,
+      });
+
+      const menu = Array.isArray(store.menu) ? store.menu : [];
+      menu.forEach((item, itemIndex) => {
+        const location = `stores[${storeIndex}].menu[${itemIndex}]`;
+        if (!isObject(item)) {
+          warnings.push(`${location} skipped: not an object`);
+          return;
+        }
+        if (typeof item.price_cents !== 'number') {
+          warnings.push(`${location} skipped: no price_cents`);
+          return;
+        }
+
+        dishes.push({
+          external_id: asString(item.item_id),
+          venue_external_id: storeId,
+          name: asString(item.title),
+          description: asString(item.description) ?? '',
+          product_text: asString(item.planted_product),
+          price: {
+            amount: item.price_cents / 100,
+            currency: asString(item.currency)?.toUpperCase(),
+          },
+          dietary_tags: Array.isArray(item.tags) ? item.tags.filter((t) => typeof t === 'string') : [],
+        });
+      });
+
+      if (!storeId && menu.length > 0) {
+        warnings.push(`stores[${storeIndex}] has no store_id; its dishes can't be linked`);
+      }
+    });
+
+    return {
+      payload: {
+        type: dishes.length > 0 ? 'menu_update' : 'venue_update',
+        idempotency_key: asString(payload.export_id),
+        venues,
+        dishes,
+      },
+      warnings,
+    };
+  },
+};
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
@@ -0,0 +1,37 @@
+/**
+ * Partner Transformer Types
+ */
+
+/**
+ * Maps a partner-specific payload onto the planted_standard webhook payload
+ * (see webhookPayloadSchema). The output is validated after transforming,
+ * so transformers only need to reshape data, not check it.
+ */
+export interface PartnerTransformer {
+  /** Matches Partner.config.transformer_id */
+  id: string;
+  /** Bumped on every mapping change; recorded on each IngestionBatch */
+  version: string;
+  description: string;
+  transform(payload: unknown): TransformResult;
+}
+
+export interface TransformResult {
+  /** Candidate planted_standard payload */
+  payload: unknown;
+  /** Non-fatal issues, e.g. records that were skipped */
+  warnings: string[];
+}
+
+/**
+ * Thrown by transformers when a payload can't be mapped at all
+ */
+export class TransformError extends Error {
+  constructor(
+    message: string,
+    public readonly field: string = ''
+  ) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
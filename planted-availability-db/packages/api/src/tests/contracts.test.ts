@@ -0,0 +1,788 @@
+/**
+ * API Contract Test Suite
+ *
+ * Calls the HTTP handlers against in-memory collections and checks that
+ * their JSON responses match the response schemas in @pad/core, which the
+ * client SDK and the admin dashboard are typed from.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ZodTypeAny } from 'zod';
+import {
+  apiErrorSchema,
+  venuesListResponseSchema,
+  venueDetailResponseSchema,
+  nearbyResponseSchema,
+  slimNearbyResponseSchema,
+  dishesResponseSchema,
+  dishDetailResponseSchema,
+  deliveryCheckResponseSchema,
+  geocodeResponseSchema,
+  geolocateResponseSchema,
+  searchResponseSchema,
+  failedOperationsResponseSchema,
+  menuChangesResponseSchema,
+  partnerSubmissionsResponseSchema,
+  reviewQueueResponseSchema,
+  liveVenuesResponseSchema,
+  syncHistoryResponseSchema,
+  budgetStatusResponseSchema,
+  availableScrapersResponseSchema,
+  partnerCallbacksResponseSchema,
+  partnerTransformersResponseSchema,
+  discoveredVenuesResponseSchema,
+  promotionsResponseSchema,
+  productsResponseSchema,
+  productDetailResponseSchema,
+  productAvailabilityResponseSchema,
+  type Dish,
+  type Product,
+  type Promotion,
+  type Venue,
+} from '@pad/core';
+
+const venue = {
+  id: 'v1',
+  type: 'restaurant',
+  name: 'Kebab Haus',
+  chain_id: 'c1',
+  location: { latitude: 47.3769, longitude: 8.5417 },
+  address: { street: 'Bahnhofstrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+  opening_hours: { regular: { monday: [{ open: '11:00', close: '22:00' }] } },
+  delivery_zones: ['8001', '8002-8005'],
+  delivery_platforms: [
+    { partner: 'wolt', url: 'https://wolt.com/de/che/zurich/restaurant/kebab-haus', active: true },
+    // Synced from discovery: platform name instead of partner
+    { platform: 'uber-eats', url: 'https://www.ubereats.com/ch/store/kebab-haus' },
+  ],
+  source: { type: 'scraped' },
+  last_verified: new Date('2026-10-01T00:00:00Z'),
+  status: 'active',
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+} as unknown as Venue;
+
+const dish = {
+  id: 'd1',
+  venue_id: 'v1',
+  name: 'Planted Kebab',
+  description: 'Kebab with planted.kebab',
+  planted_products: ['planted.kebab'],
+  price: { amount: 18.5, currency: 'CHF' },
+  dietary_tags: ['vegan'],
+  availability: { type: 'limited', start_date: new Date('2026-10-01T00:00:00Z') },
+  delivery_partners: [{ partner: 'wolt', url: 'https://wolt.com/de/che/zurich/restaurant/kebab-haus' }],
+  source: { type: 'scraped' },
+  last_verified: new Date('2026-10-01T00:00:00Z'),
+  status: 'active',
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+} as Dish;
+
+const promotion = {
+  id: 'p1',
+  chain_id: 'c1',
+  product_skus: ['planted.kebab'],
+  promo_type: 'discount',
+  discount: { type: 'percent', value: 20 },
+  title: '20% off',
+  valid_from: new Date('2026-10-01T00:00:00Z'),
+  valid_until: new Date('2026-10-31T00:00:00Z'),
+  source: { type: 'manual' },
+  active: true,
+  created_at: new Date('2026-09-01T00:00:00Z'),
+} as Promotion;
+
+const kebabProduct: Product = {
+  sku: 'PLANTED-KEBAB-ORIGINAL-200G',
+  name: { de: 'planted.kebab Original', en: 'planted.kebab Original', fr: 'planted.kebab Original' },
+  category: 'kebab',
+  variant: 'original',
+  weight_grams: 200,
+  image_url: 'https://storage.googleapis.com/pad-images/products/kebab-original.webp',
+  markets: ['CH', 'DE'],
+  retail_only: false,
+  active: true,
+  slug: 'kebab',
+};
+
+const discontinuedProduct: Product = {
+  ...kebabProduct,
+  sku: 'PLANTED-CHICKEN-TIKKA-200G',
+  name: { de: 'planted.chicken Tikka', en: 'planted.chicken Tikka' },
+  category: 'chicken',
+  variant: 'tikka',
+  active: false,
+  slug: undefined,
+};
+
+const discoveredVenue = {
+  id: 'dv1',
+  name: 'Kebab Haus Oerlikon',
+  is_chain: false,
+  address: { street: 'Schaffhauserstrasse 300', city: 'Zürich', postal_code: '8050', country: 'CH' },
+  delivery_platforms: [{ platform: 'wolt', url: 'https://wolt.com/de/che/zurich/restaurant/kebab-haus-oerlikon', active: true }],
+  planted_products: ['planted.kebab'],
+  dishes: [{ name: 'Planted Kebab', planted_product: 'planted.kebab', confidence: 90, price: 'CHF 18.50' }],
+  confidence_score: 82,
+  status: 'discovered',
+  discovered_by_query: 'planted kebab zürich',
+  created_at: new Date('2026-10-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+};
+
+vi.mock('@pad/database', () => ({
+  initializeFirestore: () => undefined,
+  venues: {
+    query: async () => [venue],
+    queryNearby: async () => [{ ...venue, distance_km: 0.4 }],
+    getById: async (id: string) => (id === venue.id ? venue : null),
+    getByIds: async () => [venue],
+    getFreshnessStats: async () => ({ total: 1, active: 1, stale: 0, archived: 0, avgDaysSinceVerification: 3 }),
+  },
+  dishes: {
+    query: async () => [dish],
+    getById: async (id: string) => (id === dish.id ? dish : null),
+    getByVenue: async () => [dish],
+    getByVenues: async () => new Map([[venue.id, [dish]]]),
+  },
+  promotions: {
+    query: async () => [promotion],
+    queryPage: async () => ({ promotions: [promotion], next: { valid_until: promotion.valid_until, id: promotion.id } }),
+    getActiveForVenue: async () => [],
+    getActiveForChain: async () => [promotion],
+  },
+  chains: {
+    query: async () => [{ id: 'c1', name: 'Kebab Haus', type: 'restaurant', markets: ['CH'] }],
+    getById: async () => null,
+    getByIds: async () => [{ id: 'c1', name: 'Kebab Haus', type: 'restaurant', markets: ['CH'] }],
+  },
+  products: {
+    query: async () => [kebabProduct, discontinuedProduct],
+    getBySku: async (sku: string) => [kebabProduct, discontinuedProduct].find((p) => p.sku === sku) ?? null,
+    upsert: async (product: Product) => product,
+    deactivate: async () => undefined,
+  },
+  changeLogs: {
+    log: vi.fn(async () => undefined),
+  },
+  retailAvailability: {
+    getForVenues: async (sku: string) =>
+      new Map(sku !== kebabProduct.sku ? [] : [
+        [
+          venue.id,
+          {
+            id: 'ra1',
+            venue_id: venue.id,
+            product_sku: kebabProduct.sku,
+            in_stock: true,
+            price: { regular: 6.95, currency: 'CHF' },
+            promotion: { id: 'p1', price: 5.5, valid_until: new Date('2099-01-01T00:00:00Z') },
+            last_verified: new Date('2026-10-01T00:00:00Z'),
+            source: { type: 'scraped' },
+            created_at: new Date('2026-01-01T00:00:00Z'),
+            updated_at: new Date('2026-10-01T00:00:00Z'),
+          },
+        ],
+      ]),
+  },
+  failedOperations: {
+    query: async () => [
+      {
+        id: 'op1',
+        type: 'menu_scrape',
+        status: 'pending_retry',
+        venue_id: 'v1',
+        platform: 'wolt',
+        error: 'Timeout',
+        attempts: 1,
+        max_attempts: 3,
+        created_at: new Date('2026-10-01T00:00:00Z'),
+        last_attempt_at: new Date('2026-10-01T00:00:00Z'),
+        next_retry_at: new Date('2026-10-01T01:00:00Z'),
+      },
+    ],
+    getStats: async () => ({
+      total_failed: 1,
+      pending_retry: 1,
+      requires_manual: 0,
+      resolved: 0,
+      by_type: { menu_scrape: 1 },
+      by_platform: { wolt: 1 },
+    }),
+  },
+  menuChanges: {
+    query: async () => [
+      {
+        id: 'mc1',
+        venue_id: 'dv1',
+        platform: 'wolt',
+        change_type: 'price_change',
+        dish_name: 'Planted Kebab',
+        old_value: 'CHF 17.50',
+        new_value: 'CHF 18.50',
+        detected_at: new Date('2026-10-01T00:00:00Z'),
+      },
+    ],
+  },
+  ingestionBatches: {
+    getById: async () => null,
+    getPendingReview: async () => [
+      {
+        id: 'b1',
+        partner_id: 'partner1',
+        source: { channel: 'webhook' },
+        status: 'pending_review',
+        stats: {
+          records_received: 1,
+          records_valid: 1,
+          records_invalid: 0,
+          records_staged: 1,
+          records_approved: 0,
+          records_rejected: 0,
+          records_promoted: 0,
+        },
+        processing: {},
+        received_at: new Date('2026-10-01T00:00:00Z'),
+        review: { required: true },
+      },
+    ],
+  },
+  partners: {
+    getById: async () => ({ id: 'partner1', name: 'Kebab Haus AG' }),
+  },
+  discoveredVenues: {
+    getByStatus: async (status: string) => (status === discoveredVenue.status ? [discoveredVenue] : []),
+    getAll: async () => [discoveredVenue],
+  },
+  discoveredDishes: {
+    query: async () => [],
+    getByVenue: async () => [],
+  },
+  syncHistory: {
+    getHistory: async () => ({
+      history: [
+        {
+          id: 'sh1',
+          executedAt: new Date('2026-10-01T00:00:00Z'),
+          executedBy: 'admin@planted.com',
+          itemsSynced: { venues: ['v1'], dishes: ['d1'] },
+          stats: { venuesAdded: 1, venuesUpdated: 0, dishesAdded: 1, dishesUpdated: 0, errors: 0 },
+          errors: [],
+        },
+      ],
+      hasMore: false,
+    }),
+    getAggregateStats: async () => ({
+      totalSyncs: 1,
+      totalVenues: 1,
+      totalDishes: 1,
+      totalErrors: 0,
+      averageVenuesPerSync: 1,
+      averageDishesPerSync: 1,
+    }),
+    getLastSync: async () => null,
+  },
+  budgetTracking: {
+    getTodayBudget: async () => ({
+      id: '2026-10-01',
+      date: '2026-10-01',
+      searchQueries: { free: 40, paid: 10 },
+      aiCalls: { gemini: 20, claude: 2 },
+      costs: { search: 0.05, ai: 0.4, total: 0.45 },
+      throttleEvents: [],
+    }),
+    getMonthlyTotals: async () => ({
+      searchQueries: { free: 400, paid: 100 },
+      aiCalls: { gemini: 200, claude: 20 },
+      costs: { search: 0.5, ai: 4, total: 4.5 },
+      throttleEventsCount: 0,
+    }),
+  },
+  scraperRuns: {
+    getRecent: async () => [],
+    getRunning: async () => [],
+  },
+  partnerCallbacks: {
+    query: async () => [
+      {
+        id: 'cb1',
+        partner_id: 'partner1',
+        batch_id: 'b1',
+        event: 'batch.status_changed',
+        url: 'https://partner.example.com/callbacks',
+        payload: { batch_id: 'b1', status: 'completed' },
+        status: 'failed',
+        attempts: [{ attempted_at: new Date('2026-10-01T00:00:00Z'), status_code: 500, duration_ms: 120 }],
+        created_at: new Date('2026-10-01T00:00:00Z'),
+        updated_at: new Date('2026-10-01T00:00:00Z'),
+      },
+    ],
+  },
+}));
+
+vi.mock('../middleware/withRateLimit.js', () => ({
+  publicRateLimit: <T>(handler: T) => handler,
+}));
+
+vi.mock('../middleware/auth.js', () => ({
+  verifyAuth: async (_req: unknown, _res: unknown, next: () => void) => next(),
+  requireAdmin: async (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock('../services/geocoding.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/geocoding.js')>();
+  const location = {
+    postal_code: '8001',
+    country: 'CH',
+    lat: 47.3717,
+    lng: 8.5423,
+    place_name: 'Zürich',
+    region: 'ZH',
+    accuracy: 'exact' as const,
+    source: 'dataset',
+  };
+  return {
+    ...actual,
+    getPostalCodeGeocoder: () => ({
+      lookup: async () => location,
+      lookupAddress: async () => null,
+    }),
+  };
+});
+
+vi.mock('../services/geolocation.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/geolocation.js')>();
+  return {
+    ...actual,
+    getGeolocationService: () => ({
+      lookup: async () => ({
+        city: 'Zürich',
+        region: 'ZH',
+        country: 'Switzerland',
+        countryCode: 'CH',
+        lat: 47.3769,
+        lng: 8.5417,
+        timezone: 'Europe/Zurich',
+        accuracy_radius_km: 20,
+      }),
+    }),
+  };
+});
+
+vi.mock('../services/stagingPromotion.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/stagingPromotion.js')>();
+  const stagedVenue = {
+    id: 'sv1',
+    batch_id: 'b1',
+    partner_id: 'partner1',
+    external_id: 'ext-1',
+    status: 'needs_review',
+    confidence_score: 62,
+    flags: ['missing_hours'],
+    data: { name: 'Kebab Haus', address: { city: 'Zürich', country: 'CH' } },
+    created_at: new Date('2026-10-01T00:00:00Z'),
+  };
+  return {
+    ...actual,
+    queryStagedEntities: async (type: string) => (type === 'venue' ? [stagedVenue] : []),
+    getStagedEntitiesByBatch: async (type: string) => (type === 'venue' ? [stagedVenue] : []),
+  };
+});
+
+type HttpHandler = (req: unknown, res: unknown) => unknown;
+
+interface CallOptions {
+  method?: string;
+  path?: string;
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Call a handler with a minimal Express request/response and return the
+ * status and JSON body as a client would receive it
+ */
+async function call(handler: unknown, options: CallOptions = {}): Promise<{ status: number; body: unknown }> {
+  let status = 200;
+  const headers: Record<string, string> = {};
+
+  const body = await new Promise<unknown>((resolve, reject) => {
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(payload: unknown) {
+        resolve(JSON.parse(JSON.stringify(payload ?? null)));
+        return res;
+      },
+      send(payload: unknown) {
+        resolve(payload);
+        return res;
+      },
+      end() {
+        resolve(undefined);
+        return res;
+      },
+      set(name: string, value: string) {
+        headers[name.toLowerCase()] = value;
+        return res;
+      },
+      setHeader(name: string, value: string) {
+        headers[name.toLowerCase()] = value;
+        return res;
+      },
+      getHeader: (name: string) => headers[name.toLowerCase()],
+      on: () => res,
+    };
+    const req = {
+      method: options.method ?? 'GET',
+      path: options.path ?? '/',
+      url: options.path ?? '/',
+      query: options.query ?? {},
+      body: options.body,
+      headers: {},
+      socket: { remoteAddress: '127.0.0.1' },
+    };
+
+    Promise.resolve((handler as HttpHandler)(req, res)).catch(reject);
+  });
+
+  return { status, body };
+}
+
+function expectContract(schema: ZodTypeAny, body: unknown): void {
+  const result = schema.safeParse(body);
+  expect(result.success ? [] : result.error.issues).toEqual([]);
+}
+
+describe('public API contract', () => {
+  it('GET /venues matches venuesListResponseSchema', async () => {
+    const { venuesListHandler } = await import('../functions/public/venues.js');
+    const { status, body } = await call(venuesListHandler, { query: { country: 'ch' } });
+
+    expect(status).toBe(200);
+    expectContract(venuesListResponseSchema, body);
+  });
+
+  it('GET /venues/:id matches venueDetailResponseSchema', async () => {
+    const { venueDetailHandler } = await import('../functions/public/venues.js');
+    const { status, body } = await call(venueDetailHandler, { path: '/venues/v1' });
+
+    expect(status).toBe(200);
+    expectContract(venueDetailResponseSchema, body);
+  });
+
+  it('GET /nearby matches nearbyResponseSchema', async () => {
+    const { nearbyHandler } = await import('../functions/public/nearby.js');
+    const { status, body } = await call(nearbyHandler, { query: { lat: '47.37', lng: '8.54', radius_km: '5' } });
+
+    expect(status).toBe(200);
+    expectContract(nearbyResponseSchema, body);
+  });
+
+  it('GET /nearby?slim=true matches slimNearbyResponseSchema', async () => {
+    const { nearbyHandler } = await import('../functions/public/nearby.js');
+    const { status, body } = await call(nearbyHandler, { query: { lat: '47.37', lng: '8.54', slim: 'true' } });
+
+    expect(status).toBe(200);
+    expectContract(slimNearbyResponseSchema, body);
+    const platforms = slimNearbyResponseSchema.parse(body).results[0].venue.delivery_platforms;
+    expect(platforms?.map((p) => p.platform)).toEqual(['wolt', 'uber-eats']);
+  });
+
+  it('GET /dishes matches dishesResponseSchema', async () => {
+    const { dishesHandler } = await import('../functions/public/dishes.js');
+    const { status, body } = await call(dishesHandler, { query: { lat: '47.37', lng: '8.54' } });
+
+    expect(status).toBe(200);
+    expectContract(dishesResponseSchema, body);
+  });
+
+  it('GET /dishes/:id matches dishDetailResponseSchema', async () => {
+    const { dishDetailHandler } = await import('../functions/public/dishes.js');
+    const { status, body } = await call(dishDetailHandler, { path: '/dishes/d1' });
+
+    expect(status).toBe(200);
+    expectContract(dishDetailResponseSchema, body);
+  });
+
+  it('GET /delivery/check matches deliveryCheckResponseSchema', async () => {
+    const { deliveryCheckHandler } = await import('../functions/public/delivery.js');
+    const { status, body } = await call(deliveryCheckHandler, { query: { postal_code: '8003', country: 'CH' } });
+
+    expect(status).toBe(200);
+    expectContract(deliveryCheckResponseSchema, body);
+    expect(deliveryCheckResponseSchema.parse(body).available).toBe(true);
+  });
+
+  it('GET /geocode matches geocodeResponseSchema', async () => {
+    const { geocodeHandler } = await import('../functions/public/geocode.js');
+    const { status, body } = await call(geocodeHandler, { query: { postal_code: '8001', country: 'CH' } });
+
+    expect(status).toBe(200);
+    expectContract(geocodeResponseSchema, body);
+  });
+
+  it('GET /geolocate matches geolocateResponseSchema', async () => {
+    const { geolocateHandler } = await import('../functions/public/geolocate.js');
+    const { status, body } = await call(geolocateHandler);
+
+    expect(status).toBe(200);
+    expectContract(geolocateResponseSchema, body);
+  });
+
+  it('GET /search matches searchResponseSchema', async () => {
+    const { InMemorySearchService } = await import('../services/inMemorySearch.js');
+    const { setSearchProvider, toVenueSearchRecord, toDishSearchRecord, toDishVenueInfo } = await import(
+      '../services/search.js'
+    );
+    const search = new InMemorySearchService();
+    await search.replaceAll([toVenueSearchRecord(venue)], [toDishSearchRecord(dish, toDishVenueInfo(venue))]);
+    setSearchProvider(search);
+
+    const { searchHandler } = await import('../functions/public/search.js');
+    const { status, body } = await call(searchHandler, { query: { q: 'kebab', lat: '47.37', lng: '8.54' } });
+
+    expect(status).toBe(200);
+    expectContract(searchResponseSchema, body);
+    expect(searchResponseSchema.parse(body).total).toEqual({ venues: 1, dishes: 1 });
+  });
+
+  it('GET /promotions matches promotionsResponseSchema', async () => {
+    const { promotionsHandler } = await import('../functions/public/promotions.js');
+    const { status, body } = await call(promotionsHandler, {
+      query: { product_sku: 'planted.kebab', country: 'ch', from: '2026-10-01T00:00:00Z', to: '2026-10-07T00:00:00Z' },
+    });
+
+    expect(status).toBe(200);
+    expectContract(promotionsResponseSchema, body);
+    expect((body as { promotions: { id: string; scope: string }[] }).promotions).toEqual([
+      expect.objectContaining({ id: 'p1', scope: 'chain' }),
+    ]);
+    expect(body).toMatchObject({ has_more: true, next_cursor: expect.any(String) });
+
+    const next = await call(promotionsHandler, { query: { cursor: (body as { next_cursor: string }).next_cursor } });
+    expect(next.status).toBe(200);
+
+    const invalid = await call(promotionsHandler, { query: { cursor: 'not-a-cursor' } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('GET /products matches productsResponseSchema', async () => {
+    const { productsListHandler } = await import('../functions/public/products.js');
+    const { status, body } = await call(productsListHandler, { query: { market: 'ch' } });
+
+    expect(status).toBe(200);
+    expectContract(productsResponseSchema, body);
+    // Discontinued products only with include_inactive
+    expect(body).toMatchObject({ products: [{ sku: 'PLANTED-KEBAB-ORIGINAL-200G' }], total: 1 });
+
+    const withInactive = await call(productsListHandler, { query: { include_inactive: 'true' } });
+    expect((withInactive.body as { total: number }).total).toBe(2);
+  });
+
+  it('GET /products/:sku matches productDetailResponseSchema', async () => {
+    const { productDetailHandler } = await import('../functions/public/products.js');
+    const { status, body } = await call(productDetailHandler, { path: '/products/planted-kebab-original-200g' });
+
+    expect(status).toBe(200);
+    expectContract(productDetailResponseSchema, body);
+    expect(body).toMatchObject({ sku: 'PLANTED-KEBAB-ORIGINAL-200G', slug: 'kebab' });
+
+    const missing = await call(productDetailHandler, { path: '/products/PLANTED-TOFU-200G' });
+    expect(missing.status).toBe(404);
+    expectContract(apiErrorSchema, missing.body);
+  });
+
+  it('GET /products/:sku/availability matches productAvailabilityResponseSchema', async () => {
+    const { productAvailabilityHandler } = await import('../functions/public/products.js');
+    const { status, body } = await call(productAvailabilityHandler, {
+      path: '/products/planted-kebab-original-200g/availability',
+      query: { lat: '47.37', lng: '8.54', in_stock: 'true' },
+    });
+
+    expect(status).toBe(200);
+    expectContract(productAvailabilityResponseSchema, body);
+    expect(body).toMatchObject({
+      product_sku: 'PLANTED-KEBAB-ORIGINAL-200G',
+      total: 1,
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('returns apiErrorSchema bodies for invalid queries', async () => {
+    const { nearbyHandler } = await import('../functions/public/nearby.js');
+    const { status, body } = await call(nearbyHandler, { query: { lat: '47.37' } });
+
+    expect(status).toBe(400);
+    expectContract(apiErrorSchema, body);
+  });
+});
+
+describe('admin API contract', () => {
+  it('GET /adminFailedOperations matches failedOperationsResponseSchema', async () => {
+    const { adminFailedOperationsHandler } = await import('../functions/admin/dead-letter-queue/list.js');
+    const { status, body } = await call(adminFailedOperationsHandler);
+
+    expect(status).toBe(200);
+    expectContract(failedOperationsResponseSchema, body);
+  });
+
+  it('GET /adminMenuChanges matches menuChangesResponseSchema', async () => {
+    const { adminMenuChangesHandler } = await import('../functions/admin/menu-changes/list.js');
+    const { status, body } = await call(adminMenuChangesHandler, { query: { venueId: 'dv1' } });
+
+    expect(status).toBe(200);
+    expectContract(menuChangesResponseSchema, body);
+  });
+
+  it('GET /adminPartnerSubmissions matches partnerSubmissionsResponseSchema', async () => {
+    const { adminPartnerSubmissionsHandler } = await import('../functions/admin/partner-submissions/list.js');
+    const { status, body } = await call(adminPartnerSubmissionsHandler);
+
+    expect(status).toBe(200);
+    expectContract(partnerSubmissionsResponseSchema, body);
+  });
+
+  it('GET /adminPartnerSubmissions rejects confidence filters that are not 0-100', async () => {
+    const { adminPartnerSubmissionsHandler } = await import('../functions/admin/partner-submissions/list.js');
+
+    for (const minConfidence of ['abc', '-1', '101']) {
+      const { status } = await call(adminPartnerSubmissionsHandler, { query: { minConfidence } });
+      expect(status).toBe(400);
+    }
+
+    const { status } = await call(adminPartnerSubmissionsHandler, { query: { minConfidence: '50', maxConfidence: '80' } });
+    expect(status).toBe(200);
+  });
+
+  it('GET /adminReviewQueue matches reviewQueueResponseSchema', async () => {
+    const { adminReviewQueueHandler } = await import('../functions/admin/review/queue.js');
+    const { status, body } = await call(adminReviewQueueHandler);
+
+    expect(status).toBe(200);
+    expectContract(reviewQueueResponseSchema, body);
+  });
+
+  it('GET /adminLiveVenues matches liveVenuesResponseSchema', async () => {
+    const { adminLiveVenuesHandler } = await import('../functions/admin/live-venues/list.js');
+    const { status, body } = await call(adminLiveVenuesHandler);
+
+    expect(status).toBe(200);
+    expectContract(liveVenuesResponseSchema, body);
+  });
+
+  it('GET /adminSyncHistory matches syncHistoryResponseSchema', async () => {
+    const { adminSyncHistoryHandler } = await import('../functions/admin/sync/history.js');
+    const { status, body } = await call(adminSyncHistoryHandler);
+
+    expect(status).toBe(200);
+    expectContract(syncHistoryResponseSchema, body);
+  });
+
+  it('GET /adminBudgetStatus matches budgetStatusResponseSchema', async () => {
+    const { adminBudgetStatusHandler } = await import('../functions/admin/budget/status.js');
+    const { status, body } = await call(adminBudgetStatusHandler);
+
+    expect(status).toBe(200);
+    expectContract(budgetStatusResponseSchema, body);
+  });
+
+  it('GET /adminAvailableScrapers matches availableScrapersResponseSchema', async () => {
+    const { adminAvailableScrapersHandler } = await import('../functions/admin/scrapers/available.js');
+    const { status, body } = await call(adminAvailableScrapersHandler);
+
+    expect(status).toBe(200);
+    expectContract(availableScrapersResponseSchema, body);
+  });
+
+  it('GET /adminPartnerCallbacks matches partnerCallbacksResponseSchema', async () => {
+    const { adminPartnerCallbacksHandler } = await import('../functions/admin/partner-callbacks/list.js');
+    const { status, body } = await call(adminPartnerCallbacksHandler, { query: { status: 'failed' } });
+
+    expect(status).toBe(200);
+    expectContract(partnerCallbacksResponseSchema, body);
+
+    const invalid = await call(adminPartnerCallbacksHandler, { query: { status: 'lost' } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('GET /adminPartnerTransformers matches partnerTransformersResponseSchema', async () => {
+    const { adminPartnerTransformersHandler } = await import('../functions/admin/partner-transformers/list.js');
+    const { status, body } = await call(adminPartnerTransformersHandler);
+
+    expect(status).toBe(200);
+    expectContract(partnerTransformersResponseSchema, body);
+  });
+
+  it('GET /adminDiscoveredVenues matches discoveredVenuesResponseSchema', async () => {
+    const { adminDiscoveredVenuesHandler } = await import('../functions/admin/discovery-review.js');
+    const { status, body } = await call(adminDiscoveredVenuesHandler, {
+      path: '/discovered-venues',
+      query: { min_confidence: '50' },
+    });
+
+    expect(status).toBe(200);
+    expectContract(discoveredVenuesResponseSchema, body);
+    expect(body).toMatchObject({ venues: [{ id: 'dv1' }], total: 1 });
+
+    const invalid = await call(adminDiscoveredVenuesHandler, {
+      path: '/discovered-venues',
+      query: { min_confidence: 'high' },
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('validates admin request bodies against the core schemas', async () => {
+    const { adminBulkApproveHandler } = await import('../functions/admin/review/bulk.js');
+    const { adminAssignChainHandler } = await import('../functions/admin/crud.js');
+    const { adminStartDiscoveryHandler } = await import('../functions/admin/scrapers/startDiscovery.js');
+
+    const bulk = await call(adminBulkApproveHandler, { method: 'POST', body: { venueIds: [] } });
+    const assign = await call(adminAssignChainHandler, { method: 'POST', body: { venueIds: ['dv1'] } });
+    const discovery = await call(adminStartDiscoveryHandler, {
+      method: 'POST',
+      body: { countries: ['XX'], platforms: ['wolt'], mode: 'explore' },
+    });
+
+    for (const response of [bulk, assign, discovery]) {
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ details: expect.any(Array) });
+    }
+  });
+
+  it('keeps catalog products read-only in /adminProducts', async () => {
+    const { adminProductsHandler } = await import('../functions/admin/crud.js');
+    const { changeLogs } = await import('@pad/database');
+
+    // In PLANTED_PRODUCTS: sync-products would revert any write
+    for (const method of ['PUT', 'DELETE']) {
+      const response = await call(adminProductsHandler, {
+        method,
+        path: '/adminProducts/planted-kebab-original-200g',
+        body: { retail_only: true },
+      });
+      expect(response.status).toBe(409);
+    }
+    const create = await call(adminProductsHandler, { method: 'POST', path: '/adminProducts', body: kebabProduct });
+    expect(create.status).toBe(409);
+
+    // Created in the admin API, not in the catalog
+    const update = await call(adminProductsHandler, {
+      method: 'PUT',
+      path: '/adminProducts/planted-chicken-tikka-200g',
+      body: { markets: ['CH'] },
+    });
+    expect(update.status).toBe(200);
+    expect(update.body).toMatchObject({ sku: discontinuedProduct.sku, markets: ['CH'] });
+    expect(changeLogs.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        collection: 'products',
+        changes: [{ field: 'markets', before: ['CH', 'DE'], after: ['CH'] }],
+      })
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Dead Letter Queue Retry Test Suite
+ *
+ * Scheduled retries of failed sync writes, with the sync itself and the
+ * failed_operations collection stubbed out.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FailedOperation } from '@pad/core';
+
+const state = vi.hoisted(() => ({
+  due: [] as FailedOperation[],
+  syncErrors: new Map<string, string>(),
+  syncCalls: [] as unknown[],
+  resolved: [] as string[],
+  attempts: [] as { id: string; error?: string }[],
+  manual: [] as string[],
+  limits: [] as (number | undefined)[],
+}));
+
+vi.mock('@pad/database', () => ({
+  failedOperations: {
+    getRetryable: async ({ types, limit }: { types: string[]; limit?: number }) => {
+      state.limits.push(limit);
+      return state.due.filter((op) => types.includes(op.type)).slice(0, limit);
+    },
+    markResolved: async (id: string) => {
+      state.resolved.push(id);
+    },
+    markRequiresManual: async (id: string) => {
+      state.manual.push(id);
+    },
+    recordAttempt: async (id: string, error?: string) => {
+      state.attempts.push({ id, error });
+      const operation = state.due.find((op) => op.id === id)!;
+      return {
+        ...operation,
+        attempts: operation.attempts + 1,
+        status: operation.attempts + 1 >= operation.max_attempts ? 'requires_manual' : 'pending_retry',
+      };
+    },
+  },
+}));
+
+vi.mock('../functions/admin/sync/execute.js', () => ({
+  executeSync: async (request: { venueIds?: string[]; dishIds?: string[] }) => {
+    state.syncCalls.push(request);
+    const id = request.venueIds?.[0] ?? request.dishIds?.[0] ?? '';
+    if (id === 'throws') throw new Error('Firestore unavailable');
+    const error = state.syncErrors.get(id);
+    return { errors: error ? [{ entityId: id, error }] : [] };
+  },
+}));
+
+const { processDueSyncWrites } = await import('../functions/admin/dead-letter-queue/retry.js');
+
+function syncWrite(id: string, entityType: string | undefined, entityId: string | undefined, attempts = 1): FailedOperation {
+  return {
+    id,
+    type: 'sync_write',
+    error: 'Write failed',
+    attempts,
+    max_attempts: 5,
+    created_at: new Date(),
+    last_attempt_at: new Date(),
+    status: 'pending_retry',
+    context: { entity_type: entityType, entity_id: entityId },
+  };
+}
+
+beforeEach(() => {
+  state.due = [];
+  state.syncErrors.clear();
+  state.syncCalls = [];
+  state.resolved = [];
+  state.attempts = [];
+  state.manual = [];
+  state.limits = [];
+});
+
+describe('processDueSyncWrites', () => {
+  it('re-syncs the entity of each due write and resolves it', async () => {
+    state.due = [syncWrite('op1', 'venue', 'v1'), syncWrite('op2', 'dish', 'd1')];
+
+    const result = await processDueSyncWrites(25);
+
+    expect(result).toEqual({ processed: 2, resolved: 2, failed: 0 });
+    expect(state.syncCalls).toEqual([{ venueIds: ['v1'] }, { dishIds: ['d1'] }]);
+    expect(state.resolved).toEqual(['op1', 'op2']);
+    expect(state.limits).toEqual([25]);
+  });
+
+  it('records another attempt when the sync fails again', async () => {
+    state.due = [syncWrite('op1', 'venue', 'v1'), syncWrite('op2', 'venue', 'throws', 4)];
+    state.syncErrors.set('v1', 'Venue has no coordinates');
+
+    const result = await processDueSyncWrites();
+
+    expect(result).toEqual({ processed: 2, resolved: 0, failed: 2 });
+    expect(state.attempts).toEqual([
+      { id: 'op1', error: 'Venue has no coordinates' },
+      { id: 'op2', error: 'Firestore unavailable' },
+    ]);
+  });
+
+  it('escalates writes without an entity to manual review', async () => {
+    state.due = [syncWrite('op1', 'venue', undefined), syncWrite('op2', 'promotion', 'p1')];
+
+    const result = await processDueSyncWrites();
+
+    expect(result.failed).toBe(2);
+    expect(state.manual).toEqual(['op1', 'op2']);
+    expect(state.syncCalls).toEqual([]);
+  });
+
+  it('leaves scraper operations to the scrapers drain', async () => {
+    state.due = [{ ...syncWrite('op1', 'venue', 'v1'), type: 'dish_extraction' }];
+
+    const result = await processDueSyncWrites();
+
+    expect(result.processed).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * File Ingestion Test Suite
+ *
+ * CSV and XLSX parsing of partner uploads, including damaged and oversized
+ * files. Workbooks are zipped in the test so each case can corrupt exactly
+ * one part of the archive.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { parseCsv } from '../services/fileIngestion/csv.js';
+import { parseXlsx, XlsxError, MAX_UNCOMPRESSED_BYTES } from '../services/fileIngestion/xlsx.js';
+import { fileUploadSchema, MAX_FILE_BYTES } from '../schemas/partner.js';
+
+interface ZipEntry {
+  name: string;
+  content: string;
+  /** Overrides the uncompressed size written to the central directory */
+  declaredSize?: number;
+}
+
+/**
+ * Build a ZIP archive with deflated entries
+ */
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const raw = Buffer.from(entry.content, 'utf8');
+    const data = deflateRawSync(raw);
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, eocd]);
+}
+
+const WORKBOOK = '<workbook><sheets><sheet name="Venues" sheetId="1" r:id="rId1"/></sheets></workbook>';
+const RELS =
+  '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>';
+const SHARED_STRINGS = '<sst><si><t>name</t></si><si><r><t>Kebab </t></r><r><t>Haus</t></r></si></sst>';
+const SHEET =
+  '<worksheet><sheetData>' +
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>price</t></is></c></row>' +
+  '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><v>18.9</v></c></row>' +
+  '</sheetData></worksheet>';
+
+function workbook(sheet: Partial<ZipEntry> = {}): ZipEntry[] {
+  return [
+    { name: 'xl/workbook.xml', content: WORKBOOK },
+    { name: 'xl/_rels/workbook.xml.rels', content: RELS },
+    { name: 'xl/sharedStrings.xml', content: SHARED_STRINGS },
+    { name: 'xl/worksheets/sheet1.xml', content: SHEET, ...sheet },
+  ];
+}
+
+describe('parseCsv', () => {
+  it('parses quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('name,note\n"Kebab, Haus","says ""hi""\nthere"\n')).toEqual([
+      ['name', 'note'],
+      ['Kebab, Haus', 'says "hi"\nthere'],
+    ]);
+  });
+
+  it('detects semicolon exports and strips the BOM', () => {
+    expect(parseCsv('﻿name;price\r\nKebab Haus;18,90')).toEqual([
+      ['name', 'price'],
+      ['Kebab Haus', '18,90'],
+    ]);
+  });
+
+  it('keeps the rest of the file in the cell after an unterminated quote', () => {
+    expect(parseCsv('name\n"Kebab Haus\nZürich')).toEqual([['name'], ['Kebab Haus\nZürich']]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads shared, inline and numeric cells by position', () => {
+    expect(parseXlsx(zip(workbook()))).toEqual([['name', 'price'], [], ['Kebab Haus', '18.9']]);
+  });
+
+  it('reads a sheet by name', () => {
+    expect(parseXlsx(zip(workbook()), 'Venues')[0]).toEqual(['name', 'price']);
+    expect(() => parseXlsx(zip(workbook()), 'Dishes')).toThrow("Sheet 'Dishes' not found");
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => parseXlsx(Buffer.from('name,price\nKebab Haus,18.90'))).toThrow(XlsxError);
+    expect(() => parseXlsx(Buffer.alloc(0))).toThrow(XlsxError);
+  });
+
+  it('rejects truncated archives', () => {
+    const file = zip(workbook());
+
+    // Keep the end of central directory record, drop the entries before it
+    const truncated = Buffer.concat([file.subarray(0, 40), file.subarray(file.length - 22)]);
+
+    expect(() => parseXlsx(truncated)).toThrow(XlsxError);
+  });
+
+  it('rejects archives whose offsets point outside the file', () => {
+    const file = zip(workbook());
+    file.writeUInt32LE(0xfffffff0, file.length - 22 + 16);
+
+    expect(() => parseXlsx(file)).toThrow(new XlsxError('Corrupt XLSX workbook'));
+  });
+
+  it('rejects entries with damaged compressed data', () => {
+    const file = zip(workbook());
+    const sheetData = file.indexOf('xl/workbook.xml') + 'xl/workbook.xml'.length;
+    file.fill(0xff, sheetData, sheetData + 8);
+
+    expect(() => parseXlsx(file)).toThrow(new XlsxError('Corrupt XLSX workbook'));
+  });
+
+  it('rejects workbooks declaring more than the uncompressed size limit', () => {
+    const file = zip(workbook({ declaredSize: MAX_UNCOMPRESSED_BYTES }));
+
+    expect(() => parseXlsx(file)).toThrow(/exceeds 50 MB uncompressed/);
+  });
+
+  it('stops inflating entries at their declared size', () => {
+    const bomb = zip(workbook({ content: SHEET + ' '.repeat(100_000), declaredSize: SHEET.length }));
+
+    expect(() => parseXlsx(bomb)).toThrow(new XlsxError('Corrupt XLSX workbook'));
+  });
+
+  it('rejects row and column numbers past the sheet size before allocating them', () => {
+    const sheet = (row: string) => zip(workbook({ content: `<worksheet><sheetData>${row}</sheetData></worksheet>` }));
+
+    // A few hundred bytes that used to fill a 30 million slot array
+    expect(() => parseXlsx(sheet('<row r="30000000"><c r="A30000000" t="inlineStr"><is><t>x</t></is></c></row>'))).toThrow(
+      new XlsxError("Invalid row number '30000000'")
+    );
+    expect(() => parseXlsx(sheet('<row r="1"><c r="ZZZZ1"><v>1</v></c></row>'))).toThrow(
+      new XlsxError("Invalid cell reference 'ZZZZ1'")
+    );
+    expect(() => parseXlsx(sheet('<row r="1"><c r="XFE1"><v>1</v></c></row>'))).toThrow(XlsxError);
+  });
+
+  it('stops at values past the row limit', () => {
+    const file = zip(
+      workbook({
+        content:
+          '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row>' +
+          '<row r="900000"><c r="A900000"><v>2</v></c></row></sheetData></worksheet>',
+      })
+    );
+
+    expect(() => parseXlsx(file, undefined, 501)).toThrow(new XlsxError('Row 900000 is past the limit of 501 rows'));
+  });
+
+  it('ends rows and cells at the last value', () => {
+    // Formatted but empty rows and cells, as Excel writes them
+    const file = zip(
+      workbook({
+        content:
+          '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c><c r="XFD1" s="2"/></row>' +
+          '<row r="1048576" s="3" customFormat="1"/></sheetData></worksheet>',
+      })
+    );
+
+    expect(parseXlsx(file, undefined, 501)).toEqual([['1']]);
+  });
+});
+
+describe('fileUploadSchema', () => {
+  const upload = {
+    file_name: 'venues.csv',
+    mapping: { entity_type: 'venue', columns: { name: 'name' } },
+  };
+
+  it(`accepts files up to ${MAX_FILE_BYTES / 1024 / 1024} MB`, () => {
+    const content = Buffer.alloc(MAX_FILE_BYTES).toString('base64');
+
+    expect(fileUploadSchema.safeParse({ ...upload, content_base64: content }).success).toBe(true);
+  });
+
+  it('rejects larger files', () => {
+    const content = Buffer.alloc(MAX_FILE_BYTES + 3).toString('base64');
+    const result = fileUploadSchema.safeParse({ ...upload, content_base64: content });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['content_base64']);
+  });
+});
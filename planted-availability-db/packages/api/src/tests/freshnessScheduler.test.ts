@@ -0,0 +1,94 @@
+/**
+ * Freshness Scheduler Test Suite
+ *
+ * Grouping of stale venues into verification jobs by platform and country.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DeliveryPlatformLink, Venue } from '@pad/core';
+import { planVerificationJobs } from '../services/freshnessScheduler.js';
+
+function makeVenue(id: string, country: string, links: DeliveryPlatformLink[]): Venue {
+  return {
+    id,
+    name: `Venue ${id}`,
+    type: 'restaurant',
+    location: { latitude: 47.37, longitude: 8.54 },
+    address: { street: 'Teststrasse 1', city: 'Zürich', postal_code: '8000', country },
+    delivery_platforms: links,
+    source: { type: 'scraped' },
+    last_verified: new Date('2026-10-01T00:00:00Z'),
+    status: 'active',
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-10-01T00:00:00Z'),
+  } as Venue;
+}
+
+const wolt = (slug: string): DeliveryPlatformLink => ({
+  partner: 'wolt',
+  url: `https://wolt.com/de/che/zurich/restaurant/${slug}`,
+  active: true,
+});
+
+const uberEats = (slug: string): DeliveryPlatformLink => ({
+  partner: 'uber_eats',
+  url: `https://www.ubereats.com/ch/store/${slug}`,
+  active: true,
+});
+
+describe('planVerificationJobs', () => {
+  it('groups jobs by platform and country', () => {
+    const plan = planVerificationJobs([
+      makeVenue('a', 'CH', [wolt('a'), uberEats('a')]),
+      makeVenue('b', 'CH', [wolt('b')]),
+      makeVenue('c', 'de', [wolt('c')]),
+    ]);
+
+    const summary = plan.groups.map((g) => [g.platform, g.country, g.jobs.map((j) => j.venue_id)]);
+    expect(summary).toEqual([
+      ['wolt', 'CH', ['a', 'b']],
+      ['uber_eats', 'CH', ['a']],
+      ['wolt', 'DE', ['c']],
+    ]);
+    expect(plan.unverifiable).toEqual([]);
+  });
+
+  it('creates one job per active platform link', () => {
+    const plan = planVerificationJobs(
+      [makeVenue('a', 'CH', [wolt('a'), { ...uberEats('a'), active: false }])],
+      'run-1'
+    );
+
+    expect(plan.groups).toHaveLength(1);
+    expect(plan.groups[0].jobs[0]).toEqual({
+      venue_id: 'a',
+      venue_name: 'Venue a',
+      platform: 'wolt',
+      url: 'https://wolt.com/de/che/zurich/restaurant/a',
+      country: 'CH',
+      scheduled_by: 'run-1',
+    });
+  });
+
+  it('accepts links synced from discovery with a platform name', () => {
+    const synced = { platform: 'uber-eats', url: 'https://www.ubereats.com/ch/store/a' } as unknown as DeliveryPlatformLink;
+    const plan = planVerificationJobs([
+      makeVenue('a', 'CH', [synced]),
+      makeVenue('b', 'CH', [{ platform: 'smood', url: 'https://www.smood.ch/b' } as unknown as DeliveryPlatformLink]),
+    ]);
+
+    expect(plan.groups.map((g) => [g.platform, g.jobs.map((j) => j.venue_id)])).toEqual([['uber_eats', ['a']]]);
+    expect(plan.unverifiable).toEqual(['b']);
+  });
+
+  it('reports venues without active platform links as unverifiable', () => {
+    const plan = planVerificationJobs([
+      makeVenue('a', 'CH', []),
+      makeVenue('b', 'CH', [{ ...wolt('b'), active: false }]),
+      makeVenue('c', 'CH', [wolt('c')]),
+    ]);
+
+    expect(plan.unverifiable).toEqual(['a', 'b']);
+    expect(plan.groups.flatMap((g) => g.jobs.map((j) => j.venue_id))).toEqual(['c']);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Postal Code Geocoding Test Suite
+ *
+ * Dataset lookups, the GeoNames dump, the fallback provider with its cache
+ * and the shared Nominatim rate limit. Providers are stubbed; nothing here
+ * calls a geocoding service.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  PostalCodeGeocoder,
+  NominatimProvider,
+  ProviderRateLimitError,
+  isValidPostalCode,
+  normalizePostalCode,
+  type PostalCodeProvider,
+} from '../services/geocoding.js';
+
+const MISSING_DATASET = path.join(tmpdir(), 'pad-no-postal-codes.txt');
+
+function stubProvider(results: Record<string, { lat: number; lng: number } | Error | null> = {}) {
+  const lookup = vi.fn(async (postalCode: string, country: string) => {
+    const result = results[`${country}:${postalCode}`] ?? null;
+    if (result instanceof Error) throw result;
+    return result && { postal_code: postalCode, country, ...result, place_name: null, region: null, accuracy: 'exact' as const };
+  });
+  const lookupAddress = vi.fn(async () => ({ lat: 47.37, lng: 8.54, postal_code: '8001', place_name: 'Zürich' }));
+  const provider: PostalCodeProvider = { name: 'stub', lookup, lookupAddress };
+  return { provider, lookup, lookupAddress };
+}
+
+function geocoder(provider: PostalCodeProvider | null, datasetPath = MISSING_DATASET): PostalCodeGeocoder {
+  return new PostalCodeGeocoder({ datasetPath, fallbackProvider: provider });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('postal code formats', () => {
+  it('normalizes spacing, case and the Luxembourg prefix', () => {
+    expect(normalizePostalCode(' sw1a 1aa ', 'GB')).toBe('SW1A1AA');
+    expect(normalizePostalCode('L-1234', 'LU')).toBe('1234');
+  });
+
+  it('checks the format per country', () => {
+    expect(isValidPostalCode('8001', 'CH')).toBe(true);
+    expect(isValidPostalCode('80331', 'CH')).toBe(false);
+    expect(isValidPostalCode('1012 AB', 'NL')).toBe(true);
+    expect(isValidPostalCode('SW1A 1AA', 'GB')).toBe(true);
+    expect(isValidPostalCode('anything', 'US')).toBe(true);
+  });
+});
+
+describe('PostalCodeGeocoder', () => {
+  it('resolves known codes from the bundled table without the provider', async () => {
+    const { provider, lookup } = stubProvider();
+
+    expect(await geocoder(provider).lookup('8001', 'ch')).toMatchObject({
+      postal_code: '8001',
+      country: 'CH',
+      place_name: 'Zürich',
+      region: 'ZH',
+      accuracy: 'exact',
+      source: 'dataset',
+    });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('loads a GeoNames dump on top of the bundled table', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'pad-geonames-'));
+    const datasetPath = path.join(dir, 'postal-codes.txt');
+    writeFileSync(
+      datasetPath,
+      [
+        'CH\t8057\tZürich\tKanton Zürich\tZH\tBezirk Zürich\t112\tZürich\t261\t47.4\t8.5444\t4',
+        'GB\tEH1\tEdinburgh\tScotland\tSCT\tCity of Edinburgh\tS12000036\t\t\t55.95\t-3.19\t4',
+        'FR\t75001\tParis 01\tÎle-de-France\t11\tParis\t75\tParis\t751\t48.86\t2.34\t5',
+        'broken line',
+      ].join('\n')
+    );
+
+    try {
+      const geo = geocoder(null, datasetPath);
+
+      expect(await geo.lookup('8057', 'CH')).toMatchObject({ lat: 47.4, lng: 8.5444, region: 'ZH', accuracy: 'exact' });
+      // Full postcodes resolve to their outward code
+      expect(await geo.lookup('EH1 1YZ', 'GB')).toMatchObject({ lat: 55.95, region: 'SCT', accuracy: 'approximate' });
+      // Regions are only kept where holidays differ by region
+      expect(await geo.lookup('75001', 'FR')).toMatchObject({ place_name: 'Paris 01', region: null });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('asks the provider for unknown codes and caches the answer', async () => {
+    const { provider, lookup } = stubProvider({ 'CH:8400': { lat: 47.5, lng: 8.72 } });
+    const geo = geocoder(provider);
+
+    const [first, second] = await Promise.all([geo.lookup('8400', 'CH'), geo.lookup('8400', 'CH')]);
+    const third = await geo.lookup('8400', 'CH');
+
+    expect(first).toMatchObject({ lat: 47.5, lng: 8.72, source: 'stub' });
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the area centroid when the provider has no match', async () => {
+    const { provider } = stubProvider();
+
+    expect(await geocoder(provider).lookup('8099', 'CH')).toMatchObject({
+      postal_code: '8099',
+      place_name: 'Zürich',
+      accuracy: 'approximate',
+      source: 'dataset',
+    });
+  });
+
+  it('does not cache provider errors', async () => {
+    const { provider, lookup } = stubProvider({ 'CH:8099': new ProviderRateLimitError('stub') });
+    const geo = geocoder(provider);
+
+    expect(await geo.lookup('8099', 'CH')).toMatchObject({ accuracy: 'approximate' });
+    await geo.lookup('8099', 'CH');
+
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null for codes outside any known area', async () => {
+    expect(await geocoder(null).lookup('99999', 'FI')).toBeNull();
+  });
+
+  it('caches address lookups per country', async () => {
+    const { provider, lookupAddress } = stubProvider();
+    const geo = geocoder(provider);
+
+    await geo.lookupAddress('Bahnhofstrasse 1, Zürich', 'CH');
+    const location = await geo.lookupAddress('bahnhofstrasse 1,  zürich', 'CH');
+
+    expect(location).toMatchObject({ postal_code: '8001', source: 'stub' });
+    expect(lookupAddress).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('NominatimProvider', () => {
+  it('queries by postal code and country', async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      new Response(JSON.stringify([{ lat: '51.5', lon: '-0.14', address: { city: 'London' } }]))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new NominatimProvider('https://nominatim.test', async () => true);
+
+    expect(await provider.lookup('SW1A1AA', 'UK')).toMatchObject({ lat: 51.5, lng: -0.14, place_name: 'London' });
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.searchParams.get('postalcode')).toBe('SW1A1AA');
+    expect(url.searchParams.get('countrycodes')).toBe('gb');
+  });
+
+  it('does not call Nominatim over the shared rate limit', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new NominatimProvider('https://nominatim.test', async () => false);
+
+    await expect(provider.lookup('8400', 'CH')).rejects.toThrow(ProviderRateLimitError);
+    await expect(provider.lookupAddress('Bahnhofstrasse 1', 'CH')).rejects.toThrow(ProviderRateLimitError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Cursor Pagination Test Suite
+ *
+ * Pages through /venues, /dishes and /nearby with next_cursor against
+ * in-memory collections that order and resume like the Firestore queries.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Dish, Venue } from '@pad/core';
+
+interface Cursor {
+  created_at: Date;
+  id: string;
+}
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// created_at descending, then document ID descending
+function pageByCreatedAt<T extends { id: string; created_at: Date }>(
+  items: T[],
+  options: { startAfter?: Cursor; limit?: number }
+): T[] {
+  const sorted = [...items].sort(
+    (a, b) => b.created_at.getTime() - a.created_at.getTime() || compareIds(b.id, a.id)
+  );
+  const cursor = options.startAfter;
+  const remaining = cursor
+    ? sorted.filter(
+        (item) =>
+          item.created_at.getTime() < cursor.created_at.getTime() ||
+          (item.created_at.getTime() === cursor.created_at.getTime() && item.id < cursor.id)
+      )
+    : sorted;
+  return remaining.slice(0, options.limit);
+}
+
+function makeVenue(id: string, createdAt: string, distanceKm: number): Venue & { distance_km: number } {
+  return {
+    id,
+    type: 'restaurant',
+    name: `Venue ${id}`,
+    location: { latitude: 47.37, longitude: 8.54 },
+    address: { street: 'Teststrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+    source: { type: 'scraped' },
+    last_verified: new Date('2026-10-01T00:00:00Z'),
+    status: 'active',
+    created_at: new Date(createdAt),
+    updated_at: new Date(createdAt),
+    distance_km: distanceKm,
+  } as Venue & { distance_km: number };
+}
+
+function makeDish(id: string, createdAt: string, price: number): Dish {
+  return {
+    id,
+    venue_id: 'v1',
+    name: `Dish ${id}`,
+    description: '',
+    planted_products: ['planted.chicken'],
+    price: { amount: price, currency: 'CHF' },
+    dietary_tags: ['vegan'],
+    availability: { type: 'permanent' },
+    source: { type: 'scraped' },
+    last_verified: new Date('2026-10-01T00:00:00Z'),
+    status: 'active',
+    created_at: new Date(createdAt),
+    updated_at: new Date(createdAt),
+  } as Dish;
+}
+
+// v3 and v4 share created_at and distance to exercise the ID tie-break
+const venueFixtures = [
+  makeVenue('v1', '2026-01-05T00:00:00Z', 0.5),
+  makeVenue('v2', '2026-01-04T00:00:00Z', 1.25),
+  makeVenue('v3', '2026-01-03T00:00:00Z', 2),
+  makeVenue('v4', '2026-01-03T00:00:00Z', 2),
+  makeVenue('v5', '2026-01-02T00:00:00Z', 3.5),
+  makeVenue('v6', '2026-01-01T00:00:00Z', 4),
+  makeVenue('v7', '2025-12-31T00:00:00Z', 4.75),
+];
+
+const dishFixtures = Array.from({ length: 11 }, (_, i) =>
+  // Every third dish is too cheap for the min_price filter
+  makeDish(`d${String(i).padStart(2, '0')}`, `2026-01-${String(20 - i).padStart(2, '0')}T00:00:00Z`, i % 3 === 0 ? 5 : 15)
+);
+
+vi.mock('@pad/database', () => ({
+  initializeFirestore: () => undefined,
+  venues: {
+    query: async (options: { startAfter?: Cursor; limit?: number }) => pageByCreatedAt(venueFixtures, options),
+    queryNearby: async (options: { startAfter?: { distance_km: number; id: string }; limit?: number }) => {
+      const cursor = options.startAfter;
+      return [...venueFixtures]
+        .sort((a, b) => a.distance_km - b.distance_km || compareIds(a.id, b.id))
+        .filter(
+          (venue) =>
+            !cursor ||
+            venue.distance_km > cursor.distance_km ||
+            (venue.distance_km === cursor.distance_km && venue.id > cursor.id)
+        )
+        .slice(0, options.limit);
+    },
+    getByIds: async (ids: string[]) => venueFixtures.filter((venue) => ids.includes(venue.id)),
+  },
+  dishes: {
+    query: async (options: { startAfter?: Cursor; limit?: number }) => pageByCreatedAt(dishFixtures, options),
+    getByVenues: async () => new Map(),
+  },
+  promotions: {},
+  chains: {
+    getByIds: async () => [],
+  },
+}));
+
+vi.mock('../middleware/withRateLimit.js', () => ({
+  publicRateLimit: <T>(handler: T) => handler,
+}));
+
+type HttpHandler = (req: unknown, res: unknown) => unknown;
+
+interface Page {
+  status: number;
+  body: { next_cursor: string | null; has_more: boolean } & Record<string, unknown>;
+}
+
+async function get(handler: unknown, query: Record<string, string>): Promise<Page> {
+  let status = 200;
+  const headers: Record<string, string> = {};
+
+  const body = await new Promise<Page['body']>((resolve, reject) => {
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(payload: unknown) {
+        resolve(JSON.parse(JSON.stringify(payload)));
+        return res;
+      },
+      set(name: string, value: string) {
+        headers[name.toLowerCase()] = value;
+        return res;
+      },
+      setHeader(name: string, value: string) {
+        headers[name.toLowerCase()] = value;
+        return res;
+      },
+      getHeader: (name: string) => headers[name.toLowerCase()],
+      on: () => res,
+    };
+    const req = { method: 'GET', path: '/', url: '/', query, headers: {} };
+
+    Promise.resolve((handler as HttpHandler)(req, res)).catch(reject);
+  });
+
+  return { status, body };
+}
+
+/**
+ * Follow next_cursor until the last page and return the IDs of every page
+ */
+async function collectPages(
+  handler: unknown,
+  query: Record<string, string>,
+  idsOf: (body: Page['body']) => string[]
+): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+
+  do {
+    const { status, body } = await get(handler, cursor ? { ...query, cursor } : query);
+    expect(status).toBe(200);
+    expect(body.has_more).toBe(body.next_cursor !== null);
+    pages.push(idsOf(body));
+    cursor = body.next_cursor;
+  } while (cursor && pages.length < 20);
+
+  return pages;
+}
+
+describe('cursor pagination', () => {
+  it('pages through every venue once, newest first', async () => {
+    const { venuesListHandler } = await import('../functions/public/venues.js');
+    const pages = await collectPages(venuesListHandler, { limit: '2' }, (body) =>
+      (body.venues as Venue[]).map((venue) => venue.id)
+    );
+
+    expect(pages).toEqual([['v1', 'v2'], ['v4', 'v3'], ['v5', 'v6'], ['v7']]);
+  });
+
+  it('pages through nearby venues once, closest first', async () => {
+    const { nearbyHandler } = await import('../functions/public/nearby.js');
+    const pages = await collectPages(
+      nearbyHandler,
+      { lat: '47.37', lng: '8.54', limit: '3', dedupe_chains: 'false' },
+      (body) => (body.results as { venue: Venue }[]).map((result) => result.venue.id)
+    );
+
+    expect(pages.flat()).toEqual(['v1', 'v2', 'v3', 'v4', 'v5', 'v6', 'v7']);
+    expect(pages[0]).toHaveLength(3);
+  });
+
+  it('resumes dishes after filtered-out dishes without skipping matches', async () => {
+    const { dishesHandler } = await import('../functions/public/dishes.js');
+    const pages = await collectPages(dishesHandler, { limit: '2', min_price: '10' }, (body) =>
+      (body.dishes as { dish: Dish }[]).map((result) => result.dish.id)
+    );
+
+    const expected = dishFixtures.filter((dish) => dish.price.amount >= 10).map((dish) => dish.id);
+    expect(pages.flat()).toEqual(expected);
+    expect(pages.every((page) => page.length <= 2)).toBe(true);
+  });
+
+  it('rejects a cursor that is not a next_cursor', async () => {
+    const { venuesListHandler } = await import('../functions/public/venues.js');
+    const { status, body } = await get(venuesListHandler, { cursor: 'not-a-cursor' });
+
+    expect(status).toBe(400);
+    expect(body.details).toEqual([{ field: 'cursor', message: 'Invalid cursor' }]);
+  });
+});
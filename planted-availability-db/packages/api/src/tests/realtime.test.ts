@@ -0,0 +1,108 @@
+/**
+ * Realtime Availability Test Suite
+ *
+ * Open state evaluation and diffing used by the availability stream,
+ * plus its query validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OpeningHours } from '@pad/core';
+import {
+  diffVenueStatuses,
+  getBoundingBoxDiagonalKm,
+  isInBoundingBox,
+  toVenueLiveStatus,
+  type VenueLiveStatus,
+} from '../services/realtime.js';
+import { availabilityStreamQuerySchema, parseQuery } from '../schemas/requests.js';
+
+const lunchAndDinner: OpeningHours = {
+  regular: {
+    monday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    tuesday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    wednesday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    thursday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    friday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    saturday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+    sunday: [{ open: '11:30', close: '14:00' }, { open: '17:30', close: '22:00' }],
+  },
+};
+
+const venue = {
+  id: 'v1',
+  name: 'Tibits Zürich',
+  type: 'restaurant' as const,
+  location: { latitude: 47.3667, longitude: 8.545 },
+  address: { street: 'Seefeldstrasse 2', city: 'Zürich', postal_code: '8008', country: 'CH', region: 'ZH' },
+  opening_hours: lunchAndDinner,
+};
+
+const zurich = { south: 47.32, west: 8.45, north: 47.43, east: 8.63 };
+
+describe('toVenueLiveStatus', () => {
+  it('should evaluate the open state in the market timezone', () => {
+    // 13:40 in Zürich (CEST)
+    const status = toVenueLiveStatus(venue, null, new Date('2026-10-20T11:40:00Z'));
+
+    expect(status).toMatchObject({ venue_id: 'v1', is_open: true, open_status: 'closes_soon' });
+    expect(status.closes_at?.toISOString()).toBe('2026-10-20T12:00:00.000Z');
+    expect(status.location).toEqual({ latitude: 47.3667, longitude: 8.545 });
+  });
+
+  it('should report the next opening when closed', () => {
+    const status = toVenueLiveStatus(venue, null, new Date('2026-10-20T13:00:00Z'));
+
+    expect(status.open_status).toBe('closed');
+    expect(status.opens_at?.toISOString()).toBe('2026-10-20T15:30:00.000Z');
+  });
+
+  it('should close on holidays when the chain does', () => {
+    const christmas = new Date('2026-12-25T12:00:00Z');
+
+    expect(toVenueLiveStatus(venue, null, christmas).is_open).toBe(true);
+    expect(toVenueLiveStatus(venue, { closes_on_holidays: true }, christmas).is_open).toBe(false);
+  });
+});
+
+describe('diffVenueStatuses', () => {
+  const now = new Date('2026-10-20T11:00:00Z');
+  const open = toVenueLiveStatus(venue, null, now);
+  const other: VenueLiveStatus = { ...open, venue_id: 'v2', name: 'Other' };
+
+  it('should report new, changed and removed venues', () => {
+    const previous = new Map([
+      ['v1', open],
+      ['v2', other],
+    ]);
+    const closedNow = toVenueLiveStatus(venue, null, new Date('2026-10-20T13:00:00Z'));
+    const added: VenueLiveStatus = { ...open, venue_id: 'v3' };
+
+    const changes = diffVenueStatuses(previous, [closedNow, added]);
+
+    expect(changes.updated.map((s) => s.venue_id)).toEqual(['v1', 'v3']);
+    expect(changes.removed).toEqual(['v2']);
+  });
+
+  it('should report nothing when the state is unchanged', () => {
+    const previous = new Map([['v1', open]]);
+    expect(diffVenueStatuses(previous, [{ ...open }])).toEqual({ updated: [], removed: [] });
+  });
+});
+
+describe('bounding boxes', () => {
+  it('should check containment and size', () => {
+    expect(isInBoundingBox(venue.location, zurich)).toBe(true);
+    expect(isInBoundingBox({ latitude: 46.948, longitude: 7.4474 }, zurich)).toBe(false);
+    expect(getBoundingBoxDiagonalKm(zurich)).toBeGreaterThan(15);
+    expect(getBoundingBoxDiagonalKm(zurich)).toBeLessThan(20);
+  });
+
+  it('should parse the stream query', () => {
+    const parsed = parseQuery({ bbox: '47.32,8.45,47.43,8.63', product_sku: 'planted.chicken' }, availabilityStreamQuerySchema);
+    expect(parsed.success && parsed.data.bbox).toEqual(zurich);
+
+    expect(parseQuery({ bbox: '47.43,8.45,47.32,8.63' }, availabilityStreamQuerySchema).success).toBe(false);
+    expect(parseQuery({}, availabilityStreamQuerySchema).success).toBe(false);
+    expect(parseQuery({ venue_id: 'v1', bbox: '47.32,8.45,47.43,8.63' }, availabilityStreamQuerySchema).success).toBe(false);
+  });
+});
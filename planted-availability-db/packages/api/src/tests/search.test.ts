@@ -0,0 +1,243 @@
+/**
+ * Search Test Suite
+ *
+ * Runs the search endpoint logic and the index sync against the
+ * in-memory search provider, so no Algolia account is needed.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { searchQuerySchema, type Dish, type Venue } from '@pad/core';
+import { InMemorySearchService, tokenize } from '../services/inMemorySearch.js';
+import { algoliaFilter } from '../services/search.js';
+import { parseSearchQuery, runSearch, type SearchParams } from '../services/searchQuery.js';
+import { reindexAll, syncDish, syncVenue, type SearchDataSource } from '../services/searchSync.js';
+import { PostalCodeGeocoder, type PostalCodeProvider } from '../services/geocoding.js';
+
+function makeVenue(id: string, overrides: Partial<Venue> = {}): Venue {
+  return {
+    id,
+    type: 'restaurant',
+    name: 'Venue',
+    location: { latitude: 47.3769, longitude: 8.5417 },
+    address: { street: 'Bahnhofstrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+    opening_hours: { regular: {} },
+    source: { type: 'manual' },
+    last_verified: new Date('2026-10-01T00:00:00Z'),
+    status: 'active',
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  } as Venue;
+}
+
+function makeDish(id: string, venueId: string, overrides: Partial<Dish> = {}): Dish {
+  return {
+    id,
+    venue_id: venueId,
+    name: 'Dish',
+    description: '',
+    planted_products: ['planted.kebab'],
+    price: { amount: 18.5, currency: 'CHF' },
+    dietary_tags: ['vegan'],
+    availability: { type: 'permanent' },
+    source: { type: 'manual' },
+    last_verified: new Date('2026-10-01T00:00:00Z'),
+    status: 'active',
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  } as Dish;
+}
+
+const zurichKebab = makeVenue('v-zh', { name: 'Kebab Haus', chain_id: 'c-kebab' });
+const bernKebab = makeVenue('v-be', {
+  name: 'Kebab Haus',
+  chain_id: 'c-kebab',
+  location: { latitude: 46.948, longitude: 7.4474 },
+  address: { street: 'Marktgasse 5', city: 'Bern', postal_code: '3011', country: 'CH' },
+});
+const zurichBurger = makeVenue('v-burger', {
+  name: 'Green Burger',
+  location: { latitude: 47.3904, longitude: 8.5182 },
+  address: { street: 'Langstrasse 10', city: 'Zürich', postal_code: '8005', country: 'CH' },
+});
+
+const fixtureVenues = [zurichKebab, bernKebab, zurichBurger];
+const fixtureDishes = [
+  makeDish('d-zh', 'v-zh', { name: 'Planted Kebab Teller', cuisine_type: 'turkish' }),
+  makeDish('d-be', 'v-be', { name: 'Planted Kebab Wrap' }),
+  makeDish('d-burger', 'v-burger', { name: 'Crispy Burger', planted_products: ['planted.chicken'] }),
+];
+
+function createSource(venues: Venue[], dishes: Dish[]): SearchDataSource {
+  return {
+    getVenue: async (id) => venues.find((v) => v.id === id) ?? null,
+    getDish: async (id) => dishes.find((d) => d.id === id) ?? null,
+    getChainNames: async (ids) => new Map(ids.filter((id) => id === 'c-kebab').map((id) => [id, 'Kebab Haus AG'])),
+    getVenueDishes: async (venueId) => dishes.filter((d) => d.venue_id === venueId),
+    getActiveVenues: async () => venues.filter((v) => v.status === 'active'),
+    getActiveDishes: async (venueIds) => dishes.filter((d) => venueIds.includes(d.venue_id) && d.status === 'active'),
+  };
+}
+
+// Geocodes place names from a fixed table instead of Nominatim
+const placeProvider: PostalCodeProvider = {
+  name: 'fixture',
+  lookup: async () => null,
+  lookupAddress: async (address) =>
+    address.toLowerCase() === 'zurich'
+      ? { lat: 47.3769, lng: 8.5417, postal_code: null, place_name: 'Zürich' }
+      : null,
+};
+
+const params = (q: string, overrides: Partial<SearchParams> = {}): SearchParams => ({
+  q,
+  type: 'all',
+  radius_km: 10,
+  limit: 20,
+  ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+  it('should split text and place', () => {
+    expect(parseSearchQuery('kebab near Zurich')).toEqual({ text: 'kebab', place: 'Zurich' });
+    expect(parseSearchQuery('  chicken in curry   in 8001 ')).toEqual({ text: 'chicken in curry', place: '8001' });
+    expect(parseSearchQuery('near Bern')).toEqual({ text: '', place: 'Bern' });
+  });
+
+  it('should treat "near me" and plain text as text only', () => {
+    expect(parseSearchQuery('kebab near me')).toEqual({ text: 'kebab', place: null });
+    expect(parseSearchQuery('planted kebab')).toEqual({ text: 'planted kebab', place: null });
+  });
+});
+
+describe('algoliaFilter', () => {
+  it('should quote the value', () => {
+    expect(algoliaFilter('venue_city', 'La Chaux-de-Fonds')).toBe('venue_city:"La Chaux-de-Fonds"');
+  });
+
+  it('should escape quotes and backslashes so a value cannot add clauses', () => {
+    expect(algoliaFilter('cuisine_type', 'thai" OR status:"deleted')).toBe(
+      'cuisine_type:"thai\\" OR status:\\"deleted"'
+    );
+    expect(algoliaFilter('address_city', 'Bern\\')).toBe('address_city:"Bern\\\\"');
+  });
+});
+
+describe('searchQuerySchema', () => {
+  it('should accept catalog SKUs and dish product keys', () => {
+    expect(searchQuerySchema.safeParse({ q: 'kebab', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G' }).success).toBe(true);
+    expect(searchQuerySchema.safeParse({ q: 'kebab', product_sku: 'planted.kebab' }).success).toBe(true);
+  });
+
+  it('should reject product SKUs that are not SKUs', () => {
+    expect(searchQuerySchema.safeParse({ q: 'kebab', product_sku: 'x OR status:deleted' }).success).toBe(false);
+    expect(searchQuerySchema.safeParse({ q: 'kebab', product_sku: 'planted"kebab' }).success).toBe(false);
+  });
+});
+
+describe('InMemorySearchService', () => {
+  let search: InMemorySearchService;
+
+  beforeEach(async () => {
+    search = new InMemorySearchService();
+    await reindexAll(search, createSource(fixtureVenues, fixtureDishes));
+  });
+
+  it('should match word prefixes without diacritics', async () => {
+    expect(tokenize('Zürich Hauptbahnhof')).toEqual(['zurich', 'hauptbahnhof']);
+
+    const result = await search.searchVenues('keb zur');
+    expect(result.hits.map((hit) => hit.objectID)).toEqual(['v-zh']);
+  });
+
+  it('should filter by radius and rank by distance', async () => {
+    const result = await search.searchDishes('', { lat: 47.3769, lng: 8.5417, radiusKm: 5 });
+    expect(result.hits.map((hit) => hit.objectID)).toEqual(['d-zh', 'd-burger']);
+    expect(result.nbHits).toBe(2);
+  });
+
+  it('should apply attribute filters', async () => {
+    const result = await search.searchDishes('', { plantedProduct: 'planted.chicken' });
+    expect(result.hits.map((hit) => hit.objectID)).toEqual(['d-burger']);
+
+    const venues = await search.searchVenues('kebab', { city: 'Bern' });
+    expect(venues.hits.map((hit) => hit.objectID)).toEqual(['v-be']);
+  });
+});
+
+describe('runSearch', () => {
+  let search: InMemorySearchService;
+  const geocoder = new PostalCodeGeocoder({ fallbackProvider: placeProvider });
+
+  beforeEach(async () => {
+    search = new InMemorySearchService();
+    await reindexAll(search, createSource(fixtureVenues, fixtureDishes));
+  });
+
+  it('should geocode the place in the query', async () => {
+    const result = await runSearch(search, params('kebab near Zurich'), geocoder);
+
+    expect(result.text).toBe('kebab');
+    expect(result.location).toMatchObject({ place_name: 'Zürich', source: 'address', radius_km: 10 });
+    expect(result.venues.map((v) => v.id)).toEqual(['v-zh']);
+    expect(result.venues[0].chain_name).toBe('Kebab Haus AG');
+    expect(result.dishes.map((d) => d.id)).toEqual(['d-zh']);
+    expect(result.dishes[0].distance_km).toBe(0);
+  });
+
+  it('should resolve postal codes from the dataset', async () => {
+    const result = await runSearch(search, params('kebab in 3000', { country: 'CH', type: 'venues' }), geocoder);
+
+    expect(result.location).toMatchObject({ place_name: 'Bern', source: 'postal_code' });
+    expect(result.venues.map((v) => v.id)).toEqual(['v-be']);
+    expect(result.dishes).toEqual([]);
+  });
+
+  it('should fall back to a text search when the place is unknown', async () => {
+    const result = await runSearch(search, params('burger near Atlantis'), geocoder);
+
+    expect(result.location).toBeNull();
+    expect(result.text).toBe('burger near Atlantis');
+    expect(result.total).toEqual({ venues: 0, dishes: 0 });
+  });
+
+  it('should use lat/lng when the query has no place', async () => {
+    const result = await runSearch(search, params('kebab', { lat: 46.95, lng: 7.45, radius_km: 2 }), geocoder);
+
+    expect(result.location?.source).toBe('coordinates');
+    expect(result.dishes.map((d) => d.id)).toEqual(['d-be']);
+  });
+});
+
+describe('search index sync', () => {
+  it('should remove archived venues and their dishes', async () => {
+    const search = new InMemorySearchService();
+    const venues = fixtureVenues.map((v) => ({ ...v }));
+    const source = createSource(venues, fixtureDishes);
+    await reindexAll(search, source);
+    expect(search.size).toEqual({ venues: 3, dishes: 3 });
+
+    venues[0].status = 'archived';
+    expect(await syncVenue(search, 'v-zh', source)).toBe('removed');
+    expect(search.size).toEqual({ venues: 2, dishes: 2 });
+
+    venues[0].status = 'active';
+    expect(await syncVenue(search, 'v-zh', source)).toBe('indexed');
+    expect(search.size).toEqual({ venues: 3, dishes: 3 });
+  });
+
+  it('should index new dishes and drop archived ones', async () => {
+    const search = new InMemorySearchService();
+    const dishes = [...fixtureDishes];
+    const source = createSource(fixtureVenues, dishes);
+
+    dishes.push(makeDish('d-new', 'v-burger', { name: 'Planted Schnitzel' }));
+    expect(await syncDish(search, 'd-new', source)).toBe('indexed');
+    expect((await search.searchDishes('schnitzel')).hits[0].venue_name).toBe('Green Burger');
+
+    dishes[dishes.length - 1] = { ...dishes[dishes.length - 1], status: 'archived' };
+    expect(await syncDish(search, 'd-new', source)).toBe('removed');
+    expect((await search.searchDishes('schnitzel')).nbHits).toBe(0);
+  });
+});
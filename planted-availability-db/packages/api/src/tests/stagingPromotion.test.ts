@@ -0,0 +1,201 @@
+/**
+ * Staging Promotion Test Suite
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Dish, StagedDish, StagedVenue, StagingStatus, Venue } from '@pad/core';
+
+const db = vi.hoisted(() => ({
+  venues: { getById: vi.fn(), update: vi.fn(), create: vi.fn() },
+  dishes: { getById: vi.fn(), getByVenue: vi.fn(), update: vi.fn(), create: vi.fn() },
+  stagedVenues: { getById: vi.fn(), markPromoted: vi.fn() },
+  stagedDishes: { getById: vi.fn(), markPromoted: vi.fn() },
+  changeLogs: { log: vi.fn() },
+}));
+
+vi.mock('@pad/database', () => db);
+
+const { AUTO_REVIEWER, countHumanReviewOutcomes, diffVenueFields, promoteStagedEntity } = await import(
+  '../services/stagingPromotion.js'
+);
+
+const changeSource = { type: 'system' as const };
+
+const existing = {
+  id: 'v1',
+  type: 'restaurant',
+  name: 'Kebab Haus',
+  location: { latitude: 47.3769, longitude: 8.5417 },
+  address: { street: 'Bahnhofstrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+  source: { type: 'scraped' },
+  status: 'active',
+  last_verified: new Date('2026-10-01T00:00:00Z'),
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+} as Venue;
+
+describe('diffVenueFields', () => {
+  it('logs nothing when a partner resubmits the same venue', () => {
+    const update: Partial<Venue> = {
+      type: 'restaurant',
+      name: 'Kebab Haus',
+      // Same address, keys in another order
+      address: { country: 'CH', postal_code: '8001', city: 'Zürich', street: 'Bahnhofstrasse 1' },
+      location: { latitude: 47.3769, longitude: 8.5417 },
+      status: 'active',
+      source: { type: 'partner_feed' },
+      last_verified: new Date(),
+    };
+
+    expect(diffVenueFields(existing, update)).toEqual([]);
+  });
+
+  it('logs only the fields that changed', () => {
+    const address = { ...existing.address, street: 'Langstrasse 10', postal_code: '8004' };
+
+    expect(diffVenueFields(existing, { name: 'Kebab Haus', address })).toEqual([
+      { field: 'address', before: existing.address, after: address },
+    ]);
+  });
+
+  it('logs fields the venue did not have before', () => {
+    const contact = { phone: '+41 44 000 00 00' };
+
+    expect(diffVenueFields(existing, { contact })).toEqual([{ field: 'contact', before: null, after: contact }]);
+  });
+
+  it('ignores fields the submission leaves undefined', () => {
+    expect(diffVenueFields(existing, { name: undefined, chain_id: undefined })).toEqual([]);
+  });
+});
+
+function staged(status: StagingStatus, reviewedBy?: string): StagedVenue {
+  return {
+    id: `s-${status}-${reviewedBy ?? 'none'}`,
+    status,
+    confidence_score: 90,
+    review: reviewedBy
+      ? { reviewed_by: reviewedBy, decision: status === 'rejected' ? 'rejected' : 'approved' }
+      : undefined,
+  } as StagedVenue;
+}
+
+describe('countHumanReviewOutcomes', () => {
+  it('counts approvals and rejections by reviewers', () => {
+    const entities = [
+      staged('approved', 'admin@planted.ch'),
+      staged('promoted', 'admin@planted.ch'),
+      staged('rejected', 'admin@planted.ch'),
+    ];
+
+    expect(countHumanReviewOutcomes(entities)).toEqual({ accepted: 2, rejected: 1 });
+  });
+
+  it('leaves auto-approved records out', () => {
+    const entities = [
+      staged('promoted', AUTO_REVIEWER),
+      staged('promoted', AUTO_REVIEWER),
+      staged('rejected', 'admin@planted.ch'),
+    ];
+
+    expect(countHumanReviewOutcomes(entities)).toEqual({ accepted: 0, rejected: 1 });
+  });
+
+  it('ignores records without a review', () => {
+    expect(countHumanReviewOutcomes([staged('pending'), staged('needs_review')])).toEqual({
+      accepted: 0,
+      rejected: 0,
+    });
+  });
+});
+
+describe('promoteStagedEntity', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    db.dishes.create.mockResolvedValue({ id: 'd-new' });
+  });
+
+  it('keeps the hours, type and status of a linked venue the submission leaves out', async () => {
+    const hours = { regular: { monday: [{ open: '11:00', close: '22:00' }] } };
+    db.venues.getById.mockResolvedValue({ ...existing, status: 'stale', opening_hours: hours });
+    db.stagedVenues.getById.mockResolvedValue({
+      id: 'sv1',
+      status: 'approved',
+      production_venue_id: 'v1',
+      // Not a production venue type
+      data: { type: 'caterer', name: 'Kebab Haus', address: existing.address },
+      geocoding: { status: 'success', resolved_coordinates: { lat: 47.3769, lng: 8.5417 } },
+    });
+
+    const outcome = await promoteStagedEntity('venue', 'sv1', changeSource);
+
+    expect(outcome).toMatchObject({ success: true, production_id: 'v1', linked: true });
+    const update = db.venues.update.mock.calls[0][1];
+    expect(update.opening_hours).toBeUndefined();
+    expect(update.type).toBeUndefined();
+    expect(update).not.toHaveProperty('status');
+    expect(db.changeLogs.log).not.toHaveBeenCalled();
+  });
+
+  function stagedDish(overrides: Partial<StagedDish> = {}): StagedDish {
+    return {
+      id: 'sd1',
+      status: 'approved',
+      production_venue_id: 'v1',
+      data: {
+        name: '  Planted Kebab ',
+        description: 'Kebab mit planted.kebab',
+        planted_products: ['planted.kebab'],
+        price: { amount: 18.5, currency: 'CHF' },
+        dietary_tags: ['vegan'],
+        availability: { type: 'permanent' },
+      },
+      ...overrides,
+    } as StagedDish;
+  }
+
+  const productionDish = {
+    id: 'd1',
+    venue_id: 'v1',
+    name: 'Planted kebab',
+    description: 'Kebab mit planted.kebab',
+    planted_products: ['planted.kebab'],
+    price: { amount: 17.5, currency: 'CHF' },
+    dietary_tags: ['vegan'],
+    availability: { type: 'permanent' },
+    status: 'active',
+  } as Dish;
+
+  it('updates the venue dish with the same name instead of adding another', async () => {
+    db.stagedDishes.getById.mockResolvedValue(stagedDish());
+    db.dishes.getByVenue.mockResolvedValue([{ ...productionDish, id: 'd0', status: 'archived' }, productionDish]);
+
+    const outcome = await promoteStagedEntity('dish', 'sd1', changeSource);
+
+    expect(outcome).toMatchObject({ success: true, production_id: 'd1', linked: true });
+    expect(db.dishes.create).not.toHaveBeenCalled();
+    expect(db.dishes.update).toHaveBeenCalledWith('d1', expect.objectContaining({ price: { amount: 18.5, currency: 'CHF' } }));
+    expect(db.stagedDishes.markPromoted).toHaveBeenCalledWith('sd1', 'd1');
+    expect(db.changeLogs.log.mock.calls[0][0].changes.map((c: { field: string }) => c.field)).toEqual(['name', 'price']);
+  });
+
+  it('updates the dish a staged dish was promoted to before', async () => {
+    db.stagedDishes.getById.mockResolvedValue(stagedDish({ production_dish_id: 'd7' }));
+    db.dishes.getById.mockResolvedValue({ ...productionDish, id: 'd7', name: 'Kebab Teller' });
+
+    const outcome = await promoteStagedEntity('dish', 'sd1', changeSource);
+
+    expect(outcome).toMatchObject({ production_id: 'd7', linked: true });
+    expect(db.dishes.getByVenue).not.toHaveBeenCalled();
+  });
+
+  it('creates dishes the venue does not have yet', async () => {
+    db.stagedDishes.getById.mockResolvedValue(stagedDish());
+    db.dishes.getByVenue.mockResolvedValue([{ ...productionDish, name: 'Planted Schnitzel' }]);
+
+    const outcome = await promoteStagedEntity('dish', 'sd1', changeSource);
+
+    expect(outcome).toMatchObject({ success: true, production_id: 'd-new' });
+    expect(db.dishes.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Sync Change Detection Test Suite
+ *
+ * Diffing of discovered venues and their menus against production records.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DiscoveredVenue, Dish, Venue } from '@pad/core';
+import {
+  diffDish,
+  diffEmbeddedDishes,
+  diffVenue,
+  embeddedDishFields,
+  parsePrice,
+  toUpdateData,
+  type EmbeddedDish,
+} from '../functions/admin/sync/changes.js';
+
+function productionDish(id: string, name: string, amount: number): Dish {
+  return {
+    id,
+    venue_id: 'v1',
+    name,
+    description: 'With planted.kebab',
+    planted_products: ['planted.kebab'],
+    price: { amount, currency: 'CHF' },
+    dietary_tags: ['vegan'],
+    status: 'active',
+  } as Dish;
+}
+
+function embeddedDish(name: string, price: string): EmbeddedDish {
+  return {
+    name,
+    description: 'With planted.kebab',
+    price,
+    currency: 'CHF',
+    planted_product: 'planted.kebab',
+    dietary_tags: ['vegan'],
+  } as EmbeddedDish;
+}
+
+function discoveredVenue(dishes: EmbeddedDish[], overrides: Partial<DiscoveredVenue> = {}): DiscoveredVenue {
+  return {
+    id: 'd1',
+    name: 'Kebab Haus',
+    address: { street: 'Bahnhofstrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+    delivery_platforms: [],
+    dishes,
+    ...overrides,
+  } as DiscoveredVenue;
+}
+
+const production = {
+  id: 'v1',
+  name: 'Kebab Haus',
+  location: { latitude: 47.3769, longitude: 8.5417 },
+  address: { street: 'Bahnhofstrasse 1', city: 'Zürich', postal_code: '8001', country: 'CH' },
+  delivery_platforms: [{ partner: 'wolt', url: 'https://wolt.com/de/che/zurich/restaurant/kebab-haus' }],
+} as unknown as Venue;
+
+describe('diffEmbeddedDishes', () => {
+  const menu = [productionDish('p1', 'Kebab Teller', 18.9), productionDish('p2', 'Kebab Wrap', 14.5)];
+
+  it('reports dishes that are not on the production menu as additions', () => {
+    const venue = discoveredVenue([
+      embeddedDish('Kebab Teller', 'CHF 18.90'),
+      embeddedDish('Kebab Wrap', 'CHF 14.50'),
+      embeddedDish('Kebab Bowl', 'CHF 21.00'),
+    ]);
+
+    expect(diffEmbeddedDishes(venue, menu)).toEqual([{ id: '2', name: 'Kebab Bowl', changeType: 'addition' }]);
+  });
+
+  it('reports price changes as updates of the production dish', () => {
+    const venue = discoveredVenue([embeddedDish('Kebab Teller ', 'CHF 19.50'), embeddedDish('Kebab Wrap', '14.50')]);
+
+    expect(diffEmbeddedDishes(venue, menu)).toEqual([
+      {
+        id: 'p1',
+        name: 'Kebab Teller',
+        changeType: 'update',
+        fields: [
+          {
+            field: 'price',
+            oldValue: { amount: 18.9, currency: 'CHF' },
+            newValue: { amount: 19.5, currency: 'CHF' },
+            changed: true,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps production dishes that are no longer on the discovered menu', () => {
+    const venue = discoveredVenue([embeddedDish('Kebab Teller', 'CHF 18.90')]);
+
+    expect(diffEmbeddedDishes(venue, menu)).toEqual([]);
+  });
+
+  it('diffs duplicate discovered dishes once', () => {
+    const venue = discoveredVenue([embeddedDish('Kebab Bowl', 'CHF 21.00'), embeddedDish('Kebab Bowl', 'CHF 22.00')]);
+
+    expect(diffEmbeddedDishes(venue, [])).toHaveLength(1);
+  });
+});
+
+describe('diffDish', () => {
+  it('ignores a missing discovered price', () => {
+    const fields = embeddedDishFields(embeddedDish('Kebab Teller', ''));
+
+    expect(diffDish(fields, productionDish('p1', 'Kebab Teller', 18.9))).toEqual([]);
+  });
+
+  it('compares product and tag lists regardless of order', () => {
+    const dish = { ...productionDish('p1', 'Kebab Teller', 18.9), dietary_tags: ['gluten_free', 'vegan'] };
+    const fields = { ...embeddedDishFields(embeddedDish('Kebab Teller', '18.90')), dietary_tags: ['vegan', 'gluten_free'] };
+
+    expect(diffDish(fields, dish)).toEqual([]);
+  });
+});
+
+describe('diffVenue', () => {
+  it('reports changed address fields and new platform links only', () => {
+    const venue = discoveredVenue([], {
+      address: { street: 'Langstrasse 10', city: 'Zürich', postal_code: '8004', country: 'CH' },
+      delivery_platforms: [
+        { platform: 'wolt', url: 'https://wolt.com/de/che/zurich/restaurant/KEBAB-HAUS' },
+        { platform: 'uber-eats', url: 'https://www.ubereats.com/ch/store/kebab-haus/abc', venue_id_on_platform: 'abc' },
+      ],
+    } as Partial<DiscoveredVenue>);
+
+    const diffs = diffVenue(venue, production);
+
+    expect(diffs.map((d) => d.field)).toEqual(['address.street', 'address.postal_code', 'delivery_platforms']);
+    expect(toUpdateData(diffs)).toMatchObject({
+      'address.street': 'Langstrasse 10',
+      delivery_platforms: [
+        production.delivery_platforms![0],
+        { platform: 'uber-eats', url: 'https://www.ubereats.com/ch/store/kebab-haus/abc', venue_id: 'abc' },
+      ],
+    });
+  });
+
+  it('ignores coordinate noise below a metre', () => {
+    const venue = discoveredVenue([], { coordinates: { latitude: 47.376901, longitude: 8.541699 } });
+
+    expect(diffVenue(venue, production)).toEqual([]);
+  });
+});
+
+describe('parsePrice', () => {
+  it('parses currency codes, symbols and decimal commas', () => {
+    expect(parsePrice('CHF 18.90', undefined)).toEqual({ amount: 18.9, currency: 'CHF' });
+    expect(parsePrice('€15,99', undefined)).toEqual({ amount: 15.99, currency: 'EUR' });
+    expect(parsePrice('12', 'EUR')).toEqual({ amount: 12, currency: 'EUR' });
+  });
+});
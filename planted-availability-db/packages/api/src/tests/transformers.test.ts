@@ -0,0 +1,132 @@
+/**
+ * Partner Transformer Test Suite
+ *
+ * Mapping of partner payloads onto the planted_standard webhook payload.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Partner } from '@pad/core';
+import { getPartnerTransformer, runTransformer } from '../services/transformers/index.js';
+import { posMenuExportTransformer as posMenuExport } from '../services/transformers/posMenuExport.js';
+
+const store = {
+  store_id: 'zh-01',
+  store_name: 'Planted Kitchen Zürich',
+  kind: 'restaurant',
+  address: { line1: 'Langstrasse 10', city: 'Zürich', zip: '8004', country_code: 'ch' },
+  geo: { latitude: 47.378, longitude: 8.528 },
+  phone: '+41 44 000 00 00',
+  menu: [
+    {
+      item_id: 'm-1',
+      title: 'Kebab Bowl',
+      description: 'With planted.kebab',
+      price_cents: 2450,
+      currency: 'chf',
+      tags: ['vegan', 42],
+      planted_product: 'planted.kebab',
+    },
+  ],
+};
+
+function partnerWith(config: Partial<Partner['config']>): Partner {
+  return { config: { data_format: 'custom', ...config } } as Partner;
+}
+
+describe('pos_menu_export transformer', () => {
+  it('maps stores to venues and menu items to linked dishes', () => {
+    const outcome = runTransformer(posMenuExport, { export_id: 'exp-1', stores: [store] });
+
+    expect(outcome.errors).toEqual([]);
+    expect(outcome.transformer_version).toBe('pos_menu_export@1.0.0');
+    expect(outcome.payload).toMatchObject({
+      type: 'menu_update',
+      idempotency_key: 'exp-1',
+      venues: [
+        {
+          external_id: 'zh-01',
+          type: 'restaurant',
+          name: 'Planted Kitchen Zürich',
+          address: { street: 'Langstrasse 10', city: 'Zürich', postal_code: '8004', country: 'CH' },
+          coordinates: { lat: 47.378, lng: 8.528 },
+          contact: { phone: '+41 44 000 00 00' },
+        },
+      ],
+      dishes: [
+        {
+          external_id: 'm-1',
+          venue_external_id: 'zh-01',
+          name: 'Kebab Bowl',
+          product_text: 'planted.kebab',
+          price: { amount: 24.5, currency: 'CHF' },
+          dietary_tags: ['vegan'],
+        },
+      ],
+    });
+  });
+
+  it('maps unknown store kinds to other and stores without menu to venue_update', () => {
+    const outcome = runTransformer(posMenuExport, { stores: [{ ...store, kind: 'kiosk', menu: [] }] });
+
+    expect(outcome.payload?.type).toBe('venue_update');
+    expect(outcome.payload?.venues?.[0].type).toBe('other');
+  });
+
+  it('skips menu items without a price and warns', () => {
+    const menu = [{ item_id: 'm-2', title: 'Daily Special' }, 'not an item'];
+    const outcome = runTransformer(posMenuExport, { stores: [{ ...store, menu }] });
+
+    expect(outcome.payload?.dishes).toEqual([]);
+    expect(outcome.warnings).toEqual([
+      'stores[0].menu[0] skipped: no price_cents',
+      'stores[0].menu[1] skipped: not an object',
+    ]);
+  });
+
+  it('warns when dishes cannot be linked to their store', () => {
+    const { store_id: _storeId, ...anonymous } = store;
+    const outcome = runTransformer(posMenuExport, { stores: [anonymous] });
+
+    expect(outcome.warnings).toEqual(["stores[0] has no store_id; its dishes can't be linked"]);
+  });
+
+  it('reports payloads without a stores array as a transform error', () => {
+    const outcome = runTransformer(posMenuExport, { venues: [] });
+
+    expect(outcome.payload).toBeUndefined();
+    expect(outcome.errors).toEqual([
+      { record_index: -1, field: 'stores', error: 'Expected an object with a stores array' },
+    ]);
+  });
+
+  it('reports mapped records that fail validation', () => {
+    const outcome = runTransformer(posMenuExport, { stores: [{ ...store, address: {} }] });
+
+    expect(outcome.payload).toBeUndefined();
+    expect(outcome.output).toBeDefined();
+    expect(outcome.errors.map((e) => e.field)).toContain('venues[0].address.street');
+  });
+});
+
+describe('planted_standard transformer', () => {
+  it('passes payloads through unchanged', () => {
+    const payload = { type: 'venue_update', venues: [] };
+    const outcome = runTransformer(getPartnerTransformer(partnerWith({ data_format: 'planted_standard' }))!, payload);
+
+    expect(outcome.errors).toEqual([]);
+    expect(outcome.output).toBe(payload);
+  });
+});
+
+describe('getPartnerTransformer', () => {
+  it('uses the transformer configured for custom formats', () => {
+    expect(getPartnerTransformer(partnerWith({ transformer_id: 'pos_menu_export' }))?.id).toBe(
+      'pos_menu_export'
+    );
+  });
+
+  it('returns undefined for unknown or missing transformer ids', () => {
+    expect(getPartnerTransformer(partnerWith({ transformer_id: 'unknown' }))).toBeUndefined();
+    expect(getPartnerTransformer(partnerWith({}))).toBeUndefined();
+  });
+});
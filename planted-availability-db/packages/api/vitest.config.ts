@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // lib/ holds vendored packages for deploys; don't run their tests
+    include: ['src/**/*.test.ts'],
+    exclude: ['node_modules', 'dist', 'lib'],
+  },
+});
@@ -1,4 +1,55 @@
-import type { Venue, Dish, VenueWithDistance, DishWithVenue } from '@pad/core';
+import type {
+  VenueType,
+  VenueStatus,
+  OpenStatus,
+  NearbyParams,
+  NearbyResponse,
+  NearbyResult,
+  VenuesListParams,
+  VenuesListResponse,
+  VenueDetailResponse,
+  ApiVenue,
+  DishesParams,
+  DishesResponse,
+  DishResult,
+  DishDetailResponse,
+  DeliveryCheckParams,
+  DeliveryCheckResponse,
+  GeocodeParams,
+  GeocodeResponse,
+  PromotionsParams,
+  PromotionsResponse,
+  PromotionResult,
+  ProductCategory,
+  ProductsParams,
+  ProductsResponse,
+  ProductDetailResponse,
+  ProductAvailabilityParams,
+  ProductAvailabilityResponse,
+  ProductAvailabilityResult,
+  AvailabilityStreamParams,
+  VenueAvailabilityEvent,
+  VenueLiveStatusEvent,
+  VenueChangesEvent,
+  StockStatusEvent,
+  PromotionSummaryEvent,
+} from '@pad/core';
+
+// Responses are typed by the API contract in @pad/core
+export type {
+  OpenStatus,
+  NearbyResponse,
+  VenuesListResponse,
+  VenueDetailResponse,
+  DishesResponse,
+  DishDetailResponse,
+  DeliveryCheckResponse,
+  GeocodeResponse,
+  PromotionsResponse,
+  ProductsResponse,
+  ProductDetailResponse,
+  ProductAvailabilityResponse,
+};
 
 export interface PADClientConfig {
   baseUrl: string;
@@ -6,35 +57,109 @@ export interface PADClientConfig {
   timeout?: number;
 }
 
+// Query string of an endpoint; keys must match its query schema
+type QueryParams<T> = { [K in keyof T]?: string | number };
+
 export interface NearbyQuery {
   latitude: number;
   longitude: number;
   radiusKm?: number;
-  type?: 'retail' | 'restaurant' | 'delivery_kitchen';
+  type?: VenueType;
   limit?: number;
+  /** next_cursor of the previous page */
+  cursor?: string;
 }
 
 export interface DeliveryQuery {
   postalCode?: string;
   address?: string;
+  /** Exact delivery location, checked against polygon delivery zones */
+  latitude?: number;
+  longitude?: number;
   country?: string;
   limit?: number;
 }
 
 export interface VenueQuery {
   country?: string;
-  city?: string;
-  type?: string;
+  type?: VenueType;
+  chainId?: string;
+  status?: VenueStatus;
   limit?: number;
+  cursor?: string;
+  /** @deprecated Use cursor */
   offset?: number;
 }
 
 export interface DishQuery {
-  venueId?: string;
   productSku?: string;
   limit?: number;
+  cursor?: string;
+}
+
+export interface PromotionQuery {
+  chainId?: string;
+  productSku?: string;
+  country?: string;
+  /** Only promotions valid at some point between from and to (default: now) */
+  from?: Date | string;
+  to?: Date | string;
+  limit?: number;
+  /** next_cursor of the previous page */
+  cursor?: string;
+}
+
+export interface ProductQuery {
+  category?: ProductCategory;
+  /** Only products sold in this market (ISO country code) */
+  market?: string;
+  retailOnly?: boolean;
+  /** Include discontinued products */
+  includeInactive?: boolean;
+}
+
+export interface ProductAvailabilityQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+  /** Only venues that have the product in stock */
+  inStock?: boolean;
+  limit?: number;
+  /** next_cursor of the previous page */
+  cursor?: string;
 }
 
+export type GeocodeResult = GeocodeResponse;
+
+/** Bounding box in degrees */
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export type AvailabilityStreamQuery =
+  | { venueId: string; productSku?: string }
+  | { bbox: BoundingBox; type?: VenueType; productSku?: string };
+
+export type VenueAvailability = VenueAvailabilityEvent;
+export type VenueLiveStatus = VenueLiveStatusEvent;
+export type StockStatus = StockStatusEvent;
+export type PromotionSummary = PromotionSummaryEvent;
+
+export interface AvailabilityStreamHandlers {
+  onAvailability?: (availability: VenueAvailability) => void;
+  onPromotions?: (promotions: PromotionSummary[]) => void;
+  /** Full list of venues in the box (first update) */
+  onVenues?: (venues: VenueLiveStatus[]) => void;
+  /** Venues whose state changed or that left the box since the last update */
+  onChanges?: (changes: VenueChangesEvent) => void;
+  onStock?: (stock: StockStatus[]) => void;
+  /** Connection opened (true) or lost (false); EventSource reconnects by itself */
+  onConnectionChange?: (connected: boolean) => void;
+  onError?: (error: PADError) => void;
+}
 
 export class PADClient {
   private readonly baseUrl: string;
@@ -92,68 +217,250 @@ export class PADClient {
   }
 
   /**
-   * Find venues near a location
+   * Yield the items of every page, following next_cursor until the last page
+   */
+  private async *paginate<TPage extends { next_cursor: string | null }, TItem>(
+    fetchPage: (cursor: string | undefined) => Promise<TPage>,
+    itemsOf: (page: TPage) => TItem[]
+  ): AsyncGenerator<TItem> {
+    let cursor: string | undefined;
+    do {
+      const page = await fetchPage(cursor);
+      yield* itemsOf(page);
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Find venues (with their dishes and opening state) near a location
    */
-  async findNearby(query: NearbyQuery): Promise<VenueWithDistance[]> {
-    const response = await this.fetch<{ venues: VenueWithDistance[] }>('/api/v1/nearby', {
+  async findNearby(query: NearbyQuery): Promise<NearbyResponse> {
+    const params: QueryParams<NearbyParams> = {
       lat: query.latitude,
       lng: query.longitude,
-      radius: query.radiusKm,
+      radius_km: query.radiusKm,
       type: query.type,
       limit: query.limit,
-    });
-    return response.venues;
+      cursor: query.cursor,
+    };
+    return this.fetch('/api/v1/nearby', params);
+  }
+
+  /**
+   * Iterate over all venues near a location, closest first, fetching
+   * further pages as needed
+   */
+  iterateNearby(query: Omit<NearbyQuery, 'cursor'>): AsyncGenerator<NearbyResult> {
+    return this.paginate((cursor) => this.findNearby({ ...query, cursor }), (page) => page.results);
   }
 
   /**
    * Check delivery availability for a location
    */
-  async checkDelivery(query: DeliveryQuery): Promise<{
-    available: boolean;
-    options: Array<{
-      venue: Pick<Venue, 'id' | 'name' | 'type' | 'address'>;
-      dishes: Array<Pick<Dish, 'id' | 'name' | 'price' | 'image_url'>>;
-      partners: Array<{ partner: string; url: string }>;
-    }>;
-  }> {
-    return this.fetch('/api/v1/delivery/check', {
+  async checkDelivery(query: DeliveryQuery): Promise<DeliveryCheckResponse> {
+    const params: QueryParams<DeliveryCheckParams> = {
       postal_code: query.postalCode,
       address: query.address,
+      lat: query.latitude,
+      lng: query.longitude,
       country: query.country,
       limit: query.limit,
-    });
+    };
+    return this.fetch('/api/v1/delivery/check', params);
+  }
+
+  /**
+   * Resolve a postal code to coordinates
+   */
+  async geocodePostalCode(postalCode: string, country: string): Promise<GeocodeResponse> {
+    const params: QueryParams<GeocodeParams> = {
+      postal_code: postalCode,
+      country,
+    };
+    return this.fetch('/api/v1/geocode', params);
   }
 
   /**
    * Get venues with optional filtering
    */
-  async getVenues(query?: VenueQuery): Promise<{ venues: Venue[]; total: number }> {
-    return this.fetch('/api/v1/venues', query as Record<string, string | number | undefined>);
+  async getVenues(query?: VenueQuery): Promise<VenuesListResponse> {
+    const params: QueryParams<VenuesListParams> = {
+      country: query?.country,
+      type: query?.type,
+      chain_id: query?.chainId,
+      status: query?.status,
+      limit: query?.limit,
+      cursor: query?.cursor,
+      offset: query?.offset,
+    };
+    return this.fetch('/api/v1/venues', params);
+  }
+
+  /**
+   * Iterate over all venues matching the filters, newest first
+   */
+  iterateVenues(query?: Omit<VenueQuery, 'cursor' | 'offset'>): AsyncGenerator<ApiVenue> {
+    return this.paginate((cursor) => this.getVenues({ ...query, cursor }), (page) => page.venues);
   }
 
   /**
-   * Get a single venue by ID
+   * Get a venue with its dishes, promotions and opening state
    */
-  async getVenue(id: string): Promise<Venue> {
-    return this.fetch(`/api/v1/venues/${id}`);
+  async getVenue(id: string): Promise<VenueDetailResponse> {
+    return this.fetch(`/api/v1/venues/${encodeURIComponent(id)}`);
   }
 
   /**
    * Get dishes with optional filtering
    */
-  async getDishes(query?: DishQuery): Promise<{ dishes: DishWithVenue[]; total: number }> {
-    return this.fetch('/api/v1/dishes', {
-      venue_id: query?.venueId,
+  async getDishes(query?: DishQuery): Promise<DishesResponse> {
+    const params: QueryParams<DishesParams> = {
       product_sku: query?.productSku,
       limit: query?.limit,
-    });
+      cursor: query?.cursor,
+    };
+    return this.fetch('/api/v1/dishes', params);
+  }
+
+  /**
+   * Iterate over all dishes matching the filters, newest first
+   */
+  iterateDishes(query?: Omit<DishQuery, 'cursor'>): AsyncGenerator<DishResult> {
+    return this.paginate((cursor) => this.getDishes({ ...query, cursor }), (page) => page.dishes);
   }
 
   /**
-   * Get a single dish by ID
+   * Get a single dish and its venue
    */
-  async getDish(id: string): Promise<DishWithVenue> {
-    return this.fetch(`/api/v1/dishes/${id}`);
+  async getDish(id: string): Promise<DishDetailResponse> {
+    return this.fetch(`/api/v1/dishes/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Get promotions valid in a time window (default: running now)
+   */
+  async getPromotions(query?: PromotionQuery): Promise<PromotionsResponse> {
+    const toIso = (value?: Date | string) => (value instanceof Date ? value.toISOString() : value);
+    const params: QueryParams<PromotionsParams> = {
+      chain_id: query?.chainId,
+      product_sku: query?.productSku,
+      country: query?.country,
+      from: toIso(query?.from),
+      to: toIso(query?.to),
+      limit: query?.limit,
+      cursor: query?.cursor,
+    };
+    return this.fetch('/api/v1/promotions', params);
+  }
+
+  /**
+   * Iterate over all promotions valid in the time window, ending soonest first
+   */
+  iteratePromotions(query?: Omit<PromotionQuery, 'cursor'>): AsyncGenerator<PromotionResult> {
+    return this.paginate((cursor) => this.getPromotions({ ...query, cursor }), (page) => page.promotions);
+  }
+
+  /**
+   * Get the planted product catalog
+   */
+  async getProducts(query?: ProductQuery): Promise<ProductsResponse> {
+    const params: QueryParams<ProductsParams> = {
+      category: query?.category,
+      market: query?.market,
+      retail_only: query?.retailOnly === undefined ? undefined : String(query.retailOnly),
+      include_inactive: query?.includeInactive ? 'true' : undefined,
+    };
+    return this.fetch('/api/v1/products', params);
+  }
+
+  /**
+   * Get a product by SKU
+   */
+  async getProduct(sku: string): Promise<ProductDetailResponse> {
+    return this.fetch(`/api/v1/products/${encodeURIComponent(sku)}`);
+  }
+
+  /**
+   * Find retail venues near a location with their stock and price of a product
+   */
+  async getProductAvailability(sku: string, query: ProductAvailabilityQuery): Promise<ProductAvailabilityResponse> {
+    const params: QueryParams<ProductAvailabilityParams> = {
+      lat: query.latitude,
+      lng: query.longitude,
+      radius_km: query.radiusKm,
+      in_stock: query.inStock ? 'true' : undefined,
+      limit: query.limit,
+      cursor: query.cursor,
+    };
+    return this.fetch(`/api/v1/products/${encodeURIComponent(sku)}/availability`, params);
+  }
+
+  /**
+   * Iterate over all retail venues near a location that carry a product,
+   * closest first
+   */
+  iterateProductAvailability(
+    sku: string,
+    query: Omit<ProductAvailabilityQuery, 'cursor'>
+  ): AsyncGenerator<ProductAvailabilityResult> {
+    return this.paginate((cursor) => this.getProductAvailability(sku, { ...query, cursor }), (page) => page.results);
+  }
+
+  /**
+   * Subscribe to realtime availability (Server-Sent Events) for a venue
+   * or a bounding box. Returns a function that closes the stream.
+   */
+  subscribeToAvailability(query: AvailabilityStreamQuery, handlers: AvailabilityStreamHandlers): () => void {
+    if (typeof EventSource === 'undefined') {
+      throw new PADError('EventSource is not supported in this environment');
+    }
+
+    const params: QueryParams<AvailabilityStreamParams> =
+      'venueId' in query
+        ? { venue_id: query.venueId, product_sku: query.productSku }
+        : {
+            bbox: [query.bbox.south, query.bbox.west, query.bbox.north, query.bbox.east].join(','),
+            type: query.type,
+            product_sku: query.productSku,
+          };
+
+    const url = new URL(`${this.baseUrl}/api/v1/availability/stream`);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    const source = new EventSource(url.toString());
+
+    const listen = <T>(event: string, handler: ((data: T) => void) | undefined) => {
+      if (!handler) return;
+      source.addEventListener(event, (e) => {
+        handler(JSON.parse((e as MessageEvent<string>).data) as T);
+      });
+    };
+
+    listen('availability', handlers.onAvailability);
+    listen('promotions', handlers.onPromotions);
+    listen('venues', handlers.onVenues);
+    listen('changes', handlers.onChanges);
+    listen('stock', handlers.onStock);
+
+    source.addEventListener('open', () => handlers.onConnectionChange?.(true));
+    source.addEventListener('error', (e) => {
+      // Server-sent error events carry data; connection errors don't
+      const data = (e as MessageEvent<string>).data;
+      if (data) {
+        handlers.onError?.(new PADError(JSON.parse(data).message ?? 'Stream error'));
+      } else {
+        handlers.onConnectionChange?.(false);
+        if (source.readyState === EventSource.CLOSED) {
+          handlers.onError?.(new PADError('Availability stream closed'));
+        }
+      }
+    });
+
+    return () => source.close();
   }
 }
 
@@ -1,6 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { PADClient, NearbyQuery, DeliveryQuery, VenueQuery, DishQuery, PADClientConfig } from './client';
-import type { VenueWithDistance, Venue, DishWithVenue } from '@pad/core';
+import {
+  PADClient,
+  NearbyQuery,
+  DeliveryQuery,
+  VenueQuery,
+  DishQuery,
+  PromotionQuery,
+  ProductQuery,
+  ProductAvailabilityQuery,
+  PADClientConfig,
+  BoundingBox,
+  VenueAvailability,
+  VenueLiveStatus,
+  StockStatus,
+  PromotionSummary,
+  NearbyResponse,
+  DeliveryCheckResponse,
+  VenuesListResponse,
+  VenueDetailResponse,
+  DishesResponse,
+  PromotionsResponse,
+  ProductsResponse,
+  ProductDetailResponse,
+  ProductAvailabilityResponse,
+} from './client';
 
 // Singleton client instance
 let clientInstance: PADClient | null = null;
@@ -27,7 +50,7 @@ interface QueryState<T> {
  * Hook to find nearby venues
  */
 export function useNearbyVenues(query: NearbyQuery | null) {
-  const [state, setState] = useState<QueryState<VenueWithDistance[]>>({
+  const [state, setState] = useState<QueryState<NearbyResponse>>({
     data: null,
     loading: false,
     error: null,
@@ -44,8 +67,8 @@ export function useNearbyVenues(query: NearbyQuery | null) {
 
     try {
       const client = getPADClient();
-      const venues = await client.findNearby(currentQuery);
-      setState({ data: venues, loading: false, error: null });
+      const result = await client.findNearby(currentQuery);
+      setState({ data: result, loading: false, error: null });
     } catch (error) {
       setState({
         data: null,
@@ -59,7 +82,7 @@ export function useNearbyVenues(query: NearbyQuery | null) {
     if (query) {
       refetch();
     }
-  }, [query?.latitude, query?.longitude, query?.radiusKm, query?.type, query?.limit, refetch]);
+  }, [query?.latitude, query?.longitude, query?.radiusKm, query?.type, query?.limit, query?.cursor, refetch]);
 
   return { ...state, refetch };
 }
@@ -68,14 +91,7 @@ export function useNearbyVenues(query: NearbyQuery | null) {
  * Hook to check delivery availability
  */
 export function useDeliveryCheck(query: DeliveryQuery | null) {
-  const [state, setState] = useState<QueryState<{
-    available: boolean;
-    options: Array<{
-      venue: Pick<Venue, 'id' | 'name' | 'type' | 'address'>;
-      dishes: Array<{ id: string; name: string; price?: { amount: number; currency: string }; image_url?: string }>;
-      partners: Array<{ partner: string; url: string }>;
-    }>;
-  }>>({
+  const [state, setState] = useState<QueryState<DeliveryCheckResponse>>({
     data: null,
     loading: false,
     error: null,
@@ -116,7 +132,7 @@ export function useDeliveryCheck(query: DeliveryQuery | null) {
  * Hook to get venues
  */
 export function useVenues(query?: VenueQuery) {
-  const [state, setState] = useState<QueryState<{ venues: Venue[]; total: number }>>({
+  const [state, setState] = useState<QueryState<VenuesListResponse>>({
     data: null,
     loading: false,
     error: null,
@@ -143,16 +159,16 @@ export function useVenues(query?: VenueQuery) {
 
   useEffect(() => {
     refetch();
-  }, [query?.country, query?.city, query?.type, query?.limit, query?.offset, refetch]);
+  }, [query?.country, query?.type, query?.chainId, query?.status, query?.limit, query?.cursor, query?.offset, refetch]);
 
   return { ...state, refetch };
 }
 
 /**
- * Hook to get a single venue
+ * Hook to get a single venue with its dishes and promotions
  */
 export function useVenue(id: string | null) {
-  const [state, setState] = useState<QueryState<Venue>>({
+  const [state, setState] = useState<QueryState<VenueDetailResponse>>({
     data: null,
     loading: false,
     error: null,
@@ -165,8 +181,8 @@ export function useVenue(id: string | null) {
 
     getPADClient()
       .getVenue(id)
-      .then((venue) => {
-        setState({ data: venue, loading: false, error: null });
+      .then((detail) => {
+        setState({ data: detail, loading: false, error: null });
       })
       .catch((error) => {
         setState({
@@ -184,7 +200,7 @@ export function useVenue(id: string | null) {
  * Hook to get dishes
  */
 export function useDishes(query?: DishQuery) {
-  const [state, setState] = useState<QueryState<{ dishes: DishWithVenue[]; total: number }>>({
+  const [state, setState] = useState<QueryState<DishesResponse>>({
     data: null,
     loading: false,
     error: null,
@@ -211,11 +227,256 @@ export function useDishes(query?: DishQuery) {
 
   useEffect(() => {
     refetch();
-  }, [query?.venueId, query?.productSku, query?.limit, refetch]);
+  }, [query?.productSku, query?.limit, query?.cursor, refetch]);
+
+  return { ...state, refetch };
+}
+
+/**
+ * Hook to get promotions (default: running now)
+ */
+export function usePromotions(query?: PromotionQuery) {
+  const [state, setState] = useState<QueryState<PromotionsResponse>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const refetch = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const client = getPADClient();
+      const result = await client.getPromotions(queryRef.current);
+      setState({ data: result, loading: false, error: null });
+    } catch (error) {
+      setState({
+        data: null,
+        loading: false,
+        error: error instanceof Error ? error : new Error('Unknown error'),
+      });
+    }
+  }, []);
+
+  // Dates compare by time, not by object identity
+  const from = query?.from instanceof Date ? query.from.getTime() : query?.from;
+  const to = query?.to instanceof Date ? query.to.getTime() : query?.to;
+
+  useEffect(() => {
+    refetch();
+  }, [query?.chainId, query?.productSku, query?.country, from, to, query?.limit, query?.cursor, refetch]);
+
+  return { ...state, refetch };
+}
+
+/**
+ * Hook to get the planted product catalog
+ */
+export function useProducts(query?: ProductQuery) {
+  const [state, setState] = useState<QueryState<ProductsResponse>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const refetch = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const client = getPADClient();
+      const result = await client.getProducts(queryRef.current);
+      setState({ data: result, loading: false, error: null });
+    } catch (error) {
+      setState({
+        data: null,
+        loading: false,
+        error: error instanceof Error ? error : new Error('Unknown error'),
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [query?.category, query?.market, query?.retailOnly, query?.includeInactive, refetch]);
 
   return { ...state, refetch };
 }
 
+/**
+ * Hook to get a product by SKU
+ */
+export function useProduct(sku: string | null) {
+  const [state, setState] = useState<QueryState<ProductDetailResponse>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!sku) return;
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    getPADClient()
+      .getProduct(sku)
+      .then((product) => {
+        setState({ data: product, loading: false, error: null });
+      })
+      .catch((error) => {
+        setState({
+          data: null,
+          loading: false,
+          error: error instanceof Error ? error : new Error('Unknown error'),
+        });
+      });
+  }, [sku]);
+
+  return state;
+}
+
+/**
+ * Hook to find nearby retail venues with stock of a product
+ */
+export function useProductAvailability(sku: string | null, query: ProductAvailabilityQuery | null) {
+  const [state, setState] = useState<QueryState<ProductAvailabilityResponse>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const refetch = useCallback(async () => {
+    const currentQuery = queryRef.current;
+    if (!sku || !currentQuery) return;
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const client = getPADClient();
+      const result = await client.getProductAvailability(sku, currentQuery);
+      setState({ data: result, loading: false, error: null });
+    } catch (error) {
+      setState({
+        data: null,
+        loading: false,
+        error: error instanceof Error ? error : new Error('Unknown error'),
+      });
+    }
+  }, [sku]);
+
+  useEffect(() => {
+    refetch();
+  }, [query?.latitude, query?.longitude, query?.radiusKm, query?.inStock, query?.limit, query?.cursor, refetch]);
+
+  return { ...state, refetch };
+}
+
+interface StreamState {
+  connected: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for live availability of a venue: open state, promotions and
+ * retail stock, updated by the server as they change
+ */
+export function useVenueAvailability(venueId: string | null, options?: { productSku?: string }) {
+  const [state, setState] = useState<StreamState & {
+    availability: VenueAvailability | null;
+    promotions: PromotionSummary[];
+    stock: StockStatus[];
+  }>({
+    availability: null,
+    promotions: [],
+    stock: [],
+    connected: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!venueId) return undefined;
+
+    setState({ availability: null, promotions: [], stock: [], connected: false, error: null });
+
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = getPADClient().subscribeToAvailability(
+        { venueId, productSku: options?.productSku },
+        {
+          onAvailability: (availability) => setState((prev) => ({ ...prev, availability })),
+          onPromotions: (promotions) => setState((prev) => ({ ...prev, promotions })),
+          onStock: (stock) => setState((prev) => ({ ...prev, stock })),
+          onConnectionChange: (connected) => setState((prev) => ({ ...prev, connected, error: connected ? null : prev.error })),
+          onError: (error) => setState((prev) => ({ ...prev, error })),
+        }
+      );
+    } catch (error) {
+      setState((prev) => ({ ...prev, error: error instanceof Error ? error : new Error('Unknown error') }));
+    }
+    return unsubscribe;
+  }, [venueId, options?.productSku]);
+
+  return state;
+}
+
+/**
+ * Hook for the live open state of venues in a map area, plus stock of a
+ * product at its retail venues when productSku is given
+ */
+export function useLiveVenues(
+  bbox: BoundingBox | null,
+  options?: { type?: 'retail' | 'restaurant' | 'delivery_kitchen'; productSku?: string }
+) {
+  const [state, setState] = useState<StreamState & {
+    venues: VenueLiveStatus[];
+    stock: StockStatus[];
+  }>({
+    venues: [],
+    stock: [],
+    connected: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!bbox) return undefined;
+
+    setState({ venues: [], stock: [], connected: false, error: null });
+
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = getPADClient().subscribeToAvailability(
+        { bbox, type: options?.type, productSku: options?.productSku },
+        {
+          onVenues: (venues) => setState((prev) => ({ ...prev, venues })),
+          onChanges: ({ updated, removed }) =>
+            setState((prev) => {
+              const byId = new Map(prev.venues.map((venue) => [venue.venue_id, venue]));
+              removed.forEach((id) => byId.delete(id));
+              updated.forEach((venue) => byId.set(venue.venue_id, venue));
+              return { ...prev, venues: Array.from(byId.values()) };
+            }),
+          onStock: (stock) => setState((prev) => ({ ...prev, stock })),
+          onConnectionChange: (connected) => setState((prev) => ({ ...prev, connected, error: connected ? null : prev.error })),
+          onError: (error) => setState((prev) => ({ ...prev, error })),
+        }
+      );
+    } catch (error) {
+      setState((prev) => ({ ...prev, error: error instanceof Error ? error : new Error('Unknown error') }));
+    }
+    return unsubscribe;
+  }, [bbox?.north, bbox?.south, bbox?.east, bbox?.west, options?.type, options?.productSku]);
+
+  return state;
+}
+
 /**
  * Hook to get user's current location
  */
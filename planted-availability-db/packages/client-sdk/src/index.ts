@@ -6,6 +6,29 @@ export type {
   DeliveryQuery,
   VenueQuery,
   DishQuery,
+  PromotionQuery,
+  ProductQuery,
+  ProductAvailabilityQuery,
+  GeocodeResult,
+  BoundingBox,
+  AvailabilityStreamQuery,
+  AvailabilityStreamHandlers,
+  OpenStatus,
+  VenueAvailability,
+  VenueLiveStatus,
+  StockStatus,
+  PromotionSummary,
+  NearbyResponse,
+  VenuesListResponse,
+  VenueDetailResponse,
+  DishesResponse,
+  DishDetailResponse,
+  DeliveryCheckResponse,
+  GeocodeResponse,
+  PromotionsResponse,
+  ProductsResponse,
+  ProductDetailResponse,
+  ProductAvailabilityResponse,
 } from './client';
 
 // React hooks
@@ -17,7 +40,13 @@ export {
   useVenues,
   useVenue,
   useDishes,
+  usePromotions,
+  useProducts,
+  useProduct,
+  useProductAvailability,
   useGeolocation,
+  useVenueAvailability,
+  useLiveVenues,
 } from './hooks';
 
 // Re-export types from core
@@ -31,4 +60,15 @@ export type {
   GeoPoint,
   OpeningHours,
   Price,
+  // Entities as returned by the API (dates as ISO strings)
+  ApiVenue,
+  ApiDish,
+  ApiPromotion,
+  NearbyResult,
+  DishResult,
+  DeliveryOption,
+  PromotionResult,
+  Product,
+  ProductCategory,
+  ProductAvailabilityResult,
 } from '@pad/core';
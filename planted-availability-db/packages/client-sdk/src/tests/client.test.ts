@@ -0,0 +1,199 @@
+/**
+ * PADClient Test Suite
+ *
+ * Query strings and cursor pagination against a stubbed fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PADClient, PADError } from '../client';
+
+const fetchMock = vi.fn();
+
+function respondWith(...bodies: unknown[]) {
+  for (const body of bodies) {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => body });
+  }
+}
+
+function requestedUrl(call = 0): URL {
+  return new URL(fetchMock.mock.calls[call][0] as string);
+}
+
+const client = new PADClient({ baseUrl: 'https://pad.example/', apiKey: 'key' });
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe('getPromotions', () => {
+  it('maps the query to the API parameters', async () => {
+    respondWith({ promotions: [], total: 0, has_more: false, next_cursor: null });
+
+    await client.getPromotions({
+      chainId: 'chain-1',
+      productSku: 'planted.kebab',
+      country: 'CH',
+      from: new Date('2026-10-19T08:00:00Z'),
+      to: '2026-10-26T08:00:00.000Z',
+      limit: 10,
+      cursor: 'abc',
+    });
+
+    const url = requestedUrl();
+    expect(url.pathname).toBe('/api/v1/promotions');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      chain_id: 'chain-1',
+      product_sku: 'planted.kebab',
+      country: 'CH',
+      from: '2026-10-19T08:00:00.000Z',
+      to: '2026-10-26T08:00:00.000Z',
+      limit: '10',
+      cursor: 'abc',
+    });
+    expect(fetchMock.mock.calls[0][1].headers['X-API-Key']).toBe('key');
+  });
+
+  it('leaves out unset parameters', async () => {
+    respondWith({ promotions: [], total: 0, has_more: false, next_cursor: null });
+
+    await client.getPromotions();
+
+    expect(requestedUrl().search).toBe('');
+  });
+
+  it('throws a PADError with the API message', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: async () => ({ message: 'Invalid cursor', code: 'INVALID_PARAMS' }),
+    });
+
+    const error = await client.getPromotions({ cursor: 'bad' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PADError);
+    expect(error).toMatchObject({ message: 'Invalid cursor', statusCode: 400, code: 'INVALID_PARAMS' });
+  });
+});
+
+describe('iteratePromotions', () => {
+  it('follows next_cursor until the last page', async () => {
+    respondWith(
+      { promotions: [{ id: 'p1' }, { id: 'p2' }], total: 2, has_more: true, next_cursor: 'c1' },
+      // Short page that still has more
+      { promotions: [], total: 0, has_more: true, next_cursor: 'c2' },
+      { promotions: [{ id: 'p3' }], total: 1, has_more: false, next_cursor: null }
+    );
+
+    const ids: string[] = [];
+    for await (const promotion of client.iteratePromotions({ country: 'CH' })) {
+      ids.push(promotion.id);
+    }
+
+    expect(ids).toEqual(['p1', 'p2', 'p3']);
+    expect(fetchMock.mock.calls.map((_, i) => requestedUrl(i).searchParams.get('cursor'))).toEqual([null, 'c1', 'c2']);
+    expect(requestedUrl(2).searchParams.get('country')).toBe('CH');
+  });
+});
+
+describe('getProductAvailability', () => {
+  it('maps the query to the API parameters', async () => {
+    respondWith({ product_sku: 'planted.kebab', results: [], total: 0, has_more: false, next_cursor: null });
+
+    await client.getProductAvailability('planted.kebab', {
+      latitude: 47.37,
+      longitude: 8.54,
+      radiusKm: 5,
+      inStock: true,
+      limit: 20,
+      cursor: 'abc',
+    });
+
+    const url = requestedUrl();
+    expect(url.pathname).toBe('/api/v1/products/planted.kebab/availability');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      lat: '47.37',
+      lng: '8.54',
+      radius_km: '5',
+      in_stock: 'true',
+      limit: '20',
+      cursor: 'abc',
+    });
+  });
+
+  it('sends in_stock only when set', async () => {
+    respondWith({ product_sku: 'planted.kebab', results: [], total: 0, has_more: false, next_cursor: null });
+
+    await client.getProductAvailability('planted.kebab', { latitude: 47.37, longitude: 8.54, inStock: false });
+
+    expect(requestedUrl().searchParams.has('in_stock')).toBe(false);
+  });
+});
+
+describe('iterateProductAvailability', () => {
+  it('follows next_cursor until the last page', async () => {
+    const result = (id: string) => ({ venue: { id }, in_stock: true });
+    respondWith(
+      { product_sku: 'planted.kebab', results: [result('v1')], total: 1, has_more: true, next_cursor: 'c1' },
+      { product_sku: 'planted.kebab', results: [result('v2')], total: 1, has_more: false, next_cursor: null }
+    );
+
+    const ids: string[] = [];
+    for await (const availability of client.iterateProductAvailability('planted.kebab', { latitude: 47.37, longitude: 8.54 })) {
+      ids.push(availability.venue.id);
+    }
+
+    expect(ids).toEqual(['v1', 'v2']);
+    expect(requestedUrl(1).searchParams.get('cursor')).toBe('c1');
+    expect(requestedUrl(1).pathname).toBe('/api/v1/products/planted.kebab/availability');
+  });
+});
+
+describe('getProducts', () => {
+  it('maps the query to the API parameters', async () => {
+    respondWith({ products: [], total: 0 });
+
+    await client.getProducts({ category: 'kebab', market: 'CH', retailOnly: false, includeInactive: true });
+
+    const url = requestedUrl();
+    expect(url.pathname).toBe('/api/v1/products');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      category: 'kebab',
+      market: 'CH',
+      retail_only: 'false',
+      include_inactive: 'true',
+    });
+  });
+
+  it('leaves out unset filters', async () => {
+    respondWith({ products: [], total: 0 });
+
+    await client.getProducts({ includeInactive: false });
+
+    expect(requestedUrl().search).toBe('');
+  });
+});
+
+describe('getProduct', () => {
+  it('requests the product by SKU', async () => {
+    respondWith({ sku: 'PLANTED-KEBAB-ORIGINAL-200G' });
+
+    const product = await client.getProduct('PLANTED-KEBAB-ORIGINAL-200G');
+
+    expect(requestedUrl().pathname).toBe('/api/v1/products/PLANTED-KEBAB-ORIGINAL-200G');
+    expect(product).toEqual({ sku: 'PLANTED-KEBAB-ORIGINAL-200G' });
+  });
+
+  it('throws a PADError for unknown SKUs', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({ message: 'Product not found' }) });
+
+    const error = await client.getProduct('PLANTED-TOFU-200G').catch((e) => e);
+
+    expect(error).toBeInstanceOf(PADError);
+    expect(error).toMatchObject({ message: 'Product not found', statusCode: 404 });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * React Hooks Test Suite
+ *
+ * The hooks against a client whose methods are spied on.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { PADClient, PromotionsResponse, ProductsResponse, ProductDetailResponse, ProductAvailabilityResponse } from '../client';
+import { PADError } from '../client';
+import { initPADClient, usePromotions, useProducts, useProduct, useProductAvailability } from '../hooks';
+
+const client = initPADClient({ baseUrl: 'https://pad.example' });
+
+const promotionsPage: PromotionsResponse = {
+  promotions: [],
+  total: 0,
+  has_more: false,
+  next_cursor: null,
+  from: '2026-10-19T08:00:00.000Z',
+  to: '2026-10-19T08:00:00.000Z',
+};
+
+const kebab: ProductDetailResponse = {
+  sku: 'PLANTED-KEBAB-ORIGINAL-200G',
+  name: { de: 'planted.kebab Original', en: 'planted.kebab Original', fr: 'planted.kebab Original' },
+  category: 'kebab',
+  variant: 'original',
+  weight_grams: 200,
+  image_url: 'https://storage.googleapis.com/pad-images/products/kebab-original.webp',
+  markets: ['CH', 'DE'],
+  retail_only: false,
+  active: true,
+  slug: 'kebab',
+};
+
+const catalog: ProductsResponse = { products: [kebab], total: 1 };
+
+const availabilityPage: ProductAvailabilityResponse = {
+  product_sku: 'planted.kebab',
+  results: [],
+  total: 0,
+  has_more: false,
+  next_cursor: null,
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('usePromotions', () => {
+  let getPromotions: MockInstance<PADClient['getPromotions']>;
+
+  beforeEach(() => {
+    getPromotions = vi.spyOn(client, 'getPromotions').mockResolvedValue(promotionsPage);
+  });
+
+  it('loads promotions for the query', async () => {
+    const { result } = renderHook(() => usePromotions({ country: 'CH' }));
+
+    await waitFor(() => expect(result.current.data).toEqual(promotionsPage));
+    expect(result.current.loading).toBe(false);
+    expect(getPromotions).toHaveBeenCalledWith({ country: 'CH' });
+  });
+
+  it('refetches when the cursor changes', async () => {
+    const { rerender } = renderHook(({ cursor }) => usePromotions({ country: 'CH', cursor }), {
+      initialProps: { cursor: undefined as string | undefined },
+    });
+    await waitFor(() => expect(getPromotions).toHaveBeenCalledTimes(1));
+
+    rerender({ cursor: 'c1' });
+
+    await waitFor(() => expect(getPromotions).toHaveBeenCalledTimes(2));
+    expect(getPromotions).toHaveBeenLastCalledWith({ country: 'CH', cursor: 'c1' });
+  });
+
+  it('does not refetch for an equal Date', async () => {
+    const { rerender } = renderHook(() => usePromotions({ from: new Date('2026-10-19T08:00:00Z') }));
+    await waitFor(() => expect(getPromotions).toHaveBeenCalledTimes(1));
+
+    rerender();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getPromotions).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports errors', async () => {
+    getPromotions.mockRejectedValue(new PADError('Invalid cursor', 400));
+
+    const { result } = renderHook(() => usePromotions({ cursor: 'bad' }));
+
+    await waitFor(() => expect(result.current.error?.message).toBe('Invalid cursor'));
+    expect(result.current.data).toBeNull();
+  });
+});
+
+describe('useProductAvailability', () => {
+  let getProductAvailability: MockInstance<PADClient['getProductAvailability']>;
+
+  beforeEach(() => {
+    getProductAvailability = vi.spyOn(client, 'getProductAvailability').mockResolvedValue(availabilityPage);
+  });
+
+  it('loads availability for the product and location', async () => {
+    const query = { latitude: 47.37, longitude: 8.54, inStock: true };
+    const { result } = renderHook(() => useProductAvailability('planted.kebab', query));
+
+    await waitFor(() => expect(result.current.data).toEqual(availabilityPage));
+    expect(getProductAvailability).toHaveBeenCalledWith('planted.kebab', query);
+  });
+
+  it('waits for a SKU and a location', async () => {
+    renderHook(() => useProductAvailability(null, { latitude: 47.37, longitude: 8.54 }));
+    const { result } = renderHook(() => useProductAvailability('planted.kebab', null));
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getProductAvailability).not.toHaveBeenCalled();
+    expect(result.current).toMatchObject({ data: null, loading: false });
+  });
+
+  it('refetches when the cursor changes', async () => {
+    const { rerender } = renderHook(({ cursor }) => useProductAvailability('planted.kebab', { latitude: 47.37, longitude: 8.54, cursor }), {
+      initialProps: { cursor: undefined as string | undefined },
+    });
+    await waitFor(() => expect(getProductAvailability).toHaveBeenCalledTimes(1));
+
+    rerender({ cursor: 'c1' });
+
+    await waitFor(() => expect(getProductAvailability).toHaveBeenCalledTimes(2));
+    expect(getProductAvailability).toHaveBeenLastCalledWith('planted.kebab', { latitude: 47.37, longitude: 8.54, cursor: 'c1' });
+  });
+});
+
+describe('useProducts', () => {
+  let getProducts: MockInstance<PADClient['getProducts']>;
+
+  beforeEach(() => {
+    getProducts = vi.spyOn(client, 'getProducts').mockResolvedValue(catalog);
+  });
+
+  it('loads the catalog for the query', async () => {
+    const { result } = renderHook(() => useProducts({ market: 'CH' }));
+
+    await waitFor(() => expect(result.current.data).toEqual(catalog));
+    expect(getProducts).toHaveBeenCalledWith({ market: 'CH' });
+  });
+
+  it('refetches when a filter changes', async () => {
+    const { rerender } = renderHook(({ retailOnly }) => useProducts({ retailOnly }), {
+      initialProps: { retailOnly: undefined as boolean | undefined },
+    });
+    await waitFor(() => expect(getProducts).toHaveBeenCalledTimes(1));
+
+    rerender({ retailOnly: true });
+
+    await waitFor(() => expect(getProducts).toHaveBeenCalledTimes(2));
+    expect(getProducts).toHaveBeenLastCalledWith({ retailOnly: true });
+  });
+});
+
+describe('useProduct', () => {
+  let getProduct: MockInstance<PADClient['getProduct']>;
+
+  beforeEach(() => {
+    getProduct = vi.spyOn(client, 'getProduct').mockResolvedValue(kebab);
+  });
+
+  it('loads the product by SKU', async () => {
+    const { result } = renderHook(() => useProduct(kebab.sku));
+
+    await waitFor(() => expect(result.current.data).toEqual(kebab));
+    expect(getProduct).toHaveBeenCalledWith(kebab.sku);
+  });
+
+  it('waits for a SKU', async () => {
+    const { result } = renderHook(() => useProduct(null));
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getProduct).not.toHaveBeenCalled();
+    expect(result.current).toEqual({ data: null, loading: false, error: null });
+  });
+
+  it('reports unknown SKUs', async () => {
+    getProduct.mockRejectedValue(new PADError('Product not found', 404));
+
+    const { result } = renderHook(() => useProduct('PLANTED-TOFU-200G'));
+
+    await waitFor(() => expect(result.current.error?.message).toBe('Product not found'));
+    expect(result.current.data).toBeNull();
+  });
+});
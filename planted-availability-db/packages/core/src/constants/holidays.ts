@@ -0,0 +1,174 @@
+/**
+ * Public holiday calendars per market
+ *
+ * Regional holidays are keyed by Address.region: Swiss canton codes (ZH, BE, ...),
+ * German state codes (BY, NW, ...) and UK nations (ENG, WLS, SCT, NIR).
+ */
+
+export type HolidayRule =
+  | { type: 'fixed'; month: number; day: number }
+  /** Days relative to Easter Sunday (Good Friday = -2) */
+  | { type: 'easter'; offset: number }
+  /** nth weekday of a month (weekday 0 = Sunday, n = -1 for the last) */
+  | { type: 'nth_weekday'; month: number; weekday: number; n: number }
+  /** Last given weekday strictly before a date (Buß- und Bettag) */
+  | { type: 'weekday_before'; month: number; day: number; weekday: number };
+
+/**
+ * What happens when a holiday falls on a weekend
+ */
+export type WeekendRule =
+  /** An extra day off on the next free weekday (UK substitute days) */
+  | 'substitute_next_weekday'
+  /** Moves to the Saturday before when it falls on a Sunday (Koningsdag) */
+  | 'sunday_to_saturday';
+
+export interface HolidayDefinition {
+  name: string;
+  rule: HolidayRule;
+  weekend?: WeekendRule;
+  /** Only observed in these regions */
+  regions?: string[];
+  /** Observed everywhere except these regions (also applies when the region is unknown) */
+  exceptRegions?: string[];
+}
+
+const fixed = (month: number, day: number): HolidayRule => ({ type: 'fixed', month, day });
+const easter = (offset: number): HolidayRule => ({ type: 'easter', offset });
+const nthWeekday = (month: number, weekday: number, n: number): HolidayRule => ({ type: 'nth_weekday', month, weekday, n });
+
+const MONDAY = 1;
+const WEDNESDAY = 3;
+
+const SUBSTITUTE: WeekendRule = 'substitute_next_weekday';
+
+// Catholic cantons observing Corpus Christi, Assumption, All Saints, Immaculate Conception
+const CH_CATHOLIC = ['AI', 'FR', 'JU', 'LU', 'NW', 'OW', 'SZ', 'TI', 'UR', 'VS', 'ZG'];
+
+export const HOLIDAY_CALENDARS: Record<string, HolidayDefinition[]> = {
+  CH: [
+    { name: 'Neujahr', rule: fixed(1, 1) },
+    {
+      name: 'Berchtoldstag',
+      rule: fixed(1, 2),
+      regions: ['AG', 'BE', 'FR', 'GL', 'JU', 'LU', 'NE', 'OW', 'SH', 'SO', 'TG', 'VD', 'ZG', 'ZH'],
+    },
+    { name: 'Karfreitag', rule: easter(-2), exceptRegions: ['TI', 'VS'] },
+    { name: 'Ostermontag', rule: easter(1), exceptRegions: ['VS'] },
+    { name: 'Tag der Arbeit', rule: fixed(5, 1), regions: ['BL', 'BS', 'JU', 'NE', 'SH', 'TG', 'TI', 'ZH'] },
+    { name: 'Auffahrt', rule: easter(39) },
+    { name: 'Pfingstmontag', rule: easter(50), exceptRegions: ['VS'] },
+    { name: 'Fronleichnam', rule: easter(60), regions: CH_CATHOLIC },
+    { name: 'Bundesfeiertag', rule: fixed(8, 1) },
+    { name: 'Mariä Himmelfahrt', rule: fixed(8, 15), regions: CH_CATHOLIC },
+    { name: 'Allerheiligen', rule: fixed(11, 1), regions: [...CH_CATHOLIC, 'GL', 'SG'] },
+    { name: 'Mariä Empfängnis', rule: fixed(12, 8), regions: CH_CATHOLIC.filter((c) => c !== 'JU') },
+    { name: 'Weihnachten', rule: fixed(12, 25) },
+    { name: 'Stephanstag', rule: fixed(12, 26), exceptRegions: ['GE', 'JU', 'NE', 'VD', 'VS'] },
+    { name: 'Restauration genevoise', rule: fixed(12, 31), regions: ['GE'] },
+  ],
+  DE: [
+    { name: 'Neujahr', rule: fixed(1, 1) },
+    { name: 'Heilige Drei Könige', rule: fixed(1, 6), regions: ['BW', 'BY', 'ST'] },
+    { name: 'Internationaler Frauentag', rule: fixed(3, 8), regions: ['BE', 'MV'] },
+    { name: 'Karfreitag', rule: easter(-2) },
+    { name: 'Ostermontag', rule: easter(1) },
+    { name: 'Tag der Arbeit', rule: fixed(5, 1) },
+    { name: 'Christi Himmelfahrt', rule: easter(39) },
+    { name: 'Pfingstmontag', rule: easter(50) },
+    { name: 'Fronleichnam', rule: easter(60), regions: ['BW', 'BY', 'HE', 'NW', 'RP', 'SL'] },
+    { name: 'Mariä Himmelfahrt', rule: fixed(8, 15), regions: ['SL'] },
+    { name: 'Weltkindertag', rule: fixed(9, 20), regions: ['TH'] },
+    { name: 'Tag der Deutschen Einheit', rule: fixed(10, 3) },
+    {
+      name: 'Reformationstag',
+      rule: fixed(10, 31),
+      regions: ['BB', 'HB', 'HH', 'MV', 'NI', 'SN', 'ST', 'SH', 'TH'],
+    },
+    { name: 'Allerheiligen', rule: fixed(11, 1), regions: ['BW', 'BY', 'NW', 'RP', 'SL'] },
+    {
+      name: 'Buß- und Bettag',
+      rule: { type: 'weekday_before', month: 11, day: 23, weekday: WEDNESDAY },
+      regions: ['SN'],
+    },
+    { name: '1. Weihnachtstag', rule: fixed(12, 25) },
+    { name: '2. Weihnachtstag', rule: fixed(12, 26) },
+  ],
+  AT: [
+    { name: 'Neujahr', rule: fixed(1, 1) },
+    { name: 'Heilige Drei Könige', rule: fixed(1, 6) },
+    { name: 'Ostermontag', rule: easter(1) },
+    { name: 'Staatsfeiertag', rule: fixed(5, 1) },
+    { name: 'Christi Himmelfahrt', rule: easter(39) },
+    { name: 'Pfingstmontag', rule: easter(50) },
+    { name: 'Fronleichnam', rule: easter(60) },
+    { name: 'Mariä Himmelfahrt', rule: fixed(8, 15) },
+    { name: 'Nationalfeiertag', rule: fixed(10, 26) },
+    { name: 'Allerheiligen', rule: fixed(11, 1) },
+    { name: 'Mariä Empfängnis', rule: fixed(12, 8) },
+    { name: 'Christtag', rule: fixed(12, 25) },
+    { name: 'Stefanitag', rule: fixed(12, 26) },
+  ],
+  FR: [
+    { name: "Jour de l'an", rule: fixed(1, 1) },
+    { name: 'Lundi de Pâques', rule: easter(1) },
+    { name: 'Fête du Travail', rule: fixed(5, 1) },
+    { name: 'Victoire 1945', rule: fixed(5, 8) },
+    { name: 'Ascension', rule: easter(39) },
+    { name: 'Lundi de Pentecôte', rule: easter(50) },
+    { name: 'Fête nationale', rule: fixed(7, 14) },
+    { name: 'Assomption', rule: fixed(8, 15) },
+    { name: 'Toussaint', rule: fixed(11, 1) },
+    { name: 'Armistice 1918', rule: fixed(11, 11) },
+    { name: 'Noël', rule: fixed(12, 25) },
+  ],
+  UK: [
+    { name: "New Year's Day", rule: fixed(1, 1), weekend: SUBSTITUTE },
+    { name: '2nd January', rule: fixed(1, 2), weekend: SUBSTITUTE, regions: ['SCT'] },
+    { name: "St Patrick's Day", rule: fixed(3, 17), weekend: SUBSTITUTE, regions: ['NIR'] },
+    { name: 'Good Friday', rule: easter(-2) },
+    { name: 'Easter Monday', rule: easter(1), exceptRegions: ['SCT'] },
+    { name: 'Early May bank holiday', rule: nthWeekday(5, MONDAY, 1) },
+    { name: 'Spring bank holiday', rule: nthWeekday(5, MONDAY, -1) },
+    { name: 'Battle of the Boyne', rule: fixed(7, 12), weekend: SUBSTITUTE, regions: ['NIR'] },
+    { name: 'Summer bank holiday', rule: nthWeekday(8, MONDAY, 1), regions: ['SCT'] },
+    { name: 'Summer bank holiday', rule: nthWeekday(8, MONDAY, -1), exceptRegions: ['SCT'] },
+    { name: "St Andrew's Day", rule: fixed(11, 30), weekend: SUBSTITUTE, regions: ['SCT'] },
+    { name: 'Christmas Day', rule: fixed(12, 25), weekend: SUBSTITUTE },
+    { name: 'Boxing Day', rule: fixed(12, 26), weekend: SUBSTITUTE },
+  ],
+  NL: [
+    { name: 'Nieuwjaarsdag', rule: fixed(1, 1) },
+    { name: 'Tweede Paasdag', rule: easter(1) },
+    { name: 'Koningsdag', rule: fixed(4, 27), weekend: 'sunday_to_saturday' },
+    { name: 'Hemelvaartsdag', rule: easter(39) },
+    { name: 'Tweede Pinksterdag', rule: easter(50) },
+    { name: 'Eerste Kerstdag', rule: fixed(12, 25) },
+    { name: 'Tweede Kerstdag', rule: fixed(12, 26) },
+  ],
+  IT: [
+    { name: 'Capodanno', rule: fixed(1, 1) },
+    { name: 'Epifania', rule: fixed(1, 6) },
+    { name: "Lunedì dell'Angelo", rule: easter(1) },
+    { name: 'Festa della Liberazione', rule: fixed(4, 25) },
+    { name: 'Festa del Lavoro', rule: fixed(5, 1) },
+    { name: 'Festa della Repubblica', rule: fixed(6, 2) },
+    { name: 'Ferragosto', rule: fixed(8, 15) },
+    { name: 'Ognissanti', rule: fixed(11, 1) },
+    { name: 'Immacolata Concezione', rule: fixed(12, 8) },
+    { name: 'Natale', rule: fixed(12, 25) },
+    { name: 'Santo Stefano', rule: fixed(12, 26) },
+  ],
+  ES: [
+    { name: 'Año Nuevo', rule: fixed(1, 1) },
+    { name: 'Epifanía del Señor', rule: fixed(1, 6) },
+    { name: 'Viernes Santo', rule: easter(-2) },
+    { name: 'Fiesta del Trabajo', rule: fixed(5, 1) },
+    { name: 'Asunción de la Virgen', rule: fixed(8, 15) },
+    { name: 'Fiesta Nacional de España', rule: fixed(10, 12) },
+    { name: 'Todos los Santos', rule: fixed(11, 1) },
+    { name: 'Día de la Constitución', rule: fixed(12, 6) },
+    { name: 'Inmaculada Concepción', rule: fixed(12, 8) },
+    { name: 'Navidad', rule: fixed(12, 25) },
+  ],
+};
@@ -1,2 +1,3 @@
 export * from './markets.js';
 export * from './products.js';
+export * from './holidays.js';
@@ -87,3 +87,13 @@ export function isMarketSupported(countryCode: string): boolean {
 export function getMarketsByPriority(priority: number): MarketConfig[] {
   return Object.values(MARKETS).filter((m) => m.priority === priority);
 }
+
+/** Timezone for venues outside the configured markets */
+export const DEFAULT_TIMEZONE = 'Europe/Zurich';
+
+/**
+ * IANA timezone of a venue's market (opening hours are local times)
+ */
+export function getMarketTimezone(countryCode: string | undefined): string {
+  return (countryCode && MARKETS[countryCode.toUpperCase()]?.timezone) || DEFAULT_TIMEZONE;
+}
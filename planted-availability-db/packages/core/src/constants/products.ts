@@ -1,7 +1,10 @@
 import type { Product, ProductCategory } from '../types/product.js';
 
 /**
- * Planted product catalog - reference data for scraper matching
+ * Planted product catalog - source of truth for the products collection
+ * (seeded with `pnpm run sync-products`) and reference data for scraper
+ * matching. Catalog SKUs are added and changed here only; products created
+ * in the admin API are outside the catalog.
  */
 export const PLANTED_PRODUCTS: Product[] = [
   // Chicken
@@ -15,6 +18,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR', 'IT', 'NL', 'UK', 'ES'],
     retail_only: false,
     active: true,
+    slug: 'chicken-nature',
   },
   {
     sku: 'PLANTED-CHICKEN-LEMON-HERBS-200G',
@@ -26,6 +30,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR', 'IT', 'NL', 'UK', 'ES'],
     retail_only: false,
     active: true,
+    slug: 'chicken-lemon-herbs',
   },
   {
     sku: 'PLANTED-CHICKEN-JERUSALEM-200G',
@@ -37,6 +42,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: false,
     active: true,
+    slug: 'chicken-jerusalem',
   },
   {
     sku: 'PLANTED-CHICKEN-CRISPY-STRIPS-200G',
@@ -48,6 +54,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'UK'],
     retail_only: true,
     active: true,
+    slug: 'chicken-crispy-strips',
   },
   {
     sku: 'PLANTED-CHICKEN-BURGER-220G',
@@ -59,6 +66,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR'],
     retail_only: false,
     active: true,
+    slug: 'chicken-burger',
   },
 
   // Kebab
@@ -72,6 +80,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR', 'NL'],
     retail_only: false,
     active: true,
+    slug: 'kebab',
   },
 
   // Pulled
@@ -85,6 +94,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR', 'UK'],
     retail_only: false,
     active: true,
+    slug: 'pulled-bbq',
   },
   {
     sku: 'PLANTED-PULLED-SPICY-HERBS-200G',
@@ -96,6 +106,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: false,
     active: true,
+    slug: 'pulled-spicy-herbs',
   },
 
   // Schnitzel
@@ -109,6 +120,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'schnitzel-wiener',
   },
   {
     sku: 'PLANTED-SCHNITZEL-CLASSIC-200G',
@@ -120,6 +132,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'schnitzel',
   },
 
   // Bratwurst
@@ -133,6 +146,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'bratwurst-original',
   },
   {
     sku: 'PLANTED-BRATWURST-HERBS-200G',
@@ -144,6 +158,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'bratwurst-herbs',
   },
 
   // Steak
@@ -157,6 +172,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR'],
     retail_only: false,
     active: true,
+    slug: 'steak',
   },
   {
     sku: 'PLANTED-STEAK-PAPRIKA-200G',
@@ -168,6 +184,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: false,
     active: true,
+    slug: 'steak-paprika',
   },
 
   // Duck
@@ -181,6 +198,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE'],
     retail_only: false,
     active: true,
+    slug: 'duck-asian',
   },
 
   // Skewers
@@ -194,6 +212,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'skewers-herbs',
   },
   {
     sku: 'PLANTED-SKEWERS-TANDOORI-200G',
@@ -205,6 +224,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: true,
     active: true,
+    slug: 'skewers-tandoori',
   },
 
   // Filetwürfel
@@ -218,6 +238,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: false,
     active: true,
+    slug: 'filetwuerfel-classic',
   },
   {
     sku: 'PLANTED-FILETWUERFEL-MEXICANA-200G',
@@ -229,6 +250,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT'],
     retail_only: false,
     active: true,
+    slug: 'filetwuerfel-mexicana',
   },
 
   // Burger
@@ -242,6 +264,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'FR', 'UK'],
     retail_only: false,
     active: true,
+    slug: 'burger-crispy',
   },
 
   // Nuggets
@@ -255,6 +278,7 @@ export const PLANTED_PRODUCTS: Product[] = [
     markets: ['CH', 'DE', 'AT', 'UK'],
     retail_only: true,
     active: true,
+    slug: 'nuggets',
   },
 ];
 
@@ -302,3 +326,82 @@ export function getProductsByMarket(countryCode: string): Product[] {
 export function getAllActiveSkus(): string[] {
   return PLANTED_PRODUCTS.filter((p) => p.active).map((p) => p.sku);
 }
+
+/**
+ * Normalize a product name for keyword matching: lowercase, strip accents,
+ * collapse punctuation (so "planted.chicken" reads as "planted chicken")
+ */
+function normalizeProductName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const DEFAULT_VARIANTS = ['nature', 'original', 'classic'];
+
+/**
+ * Match a free-text product name (e.g. from a retailer website) to a
+ * PLANTED_PRODUCTS SKU.
+ *
+ * The category is detected from PRODUCT_KEYWORDS, then the variant is chosen
+ * by counting variant words (from the variant slug and localized names) that
+ * appear in the name. When no variant word matches, the base variant
+ * (nature/original/classic) is assumed. Returns null for non-Planted products
+ * or when the category can't be determined.
+ */
+export function matchProductSku(name: string, countryCode?: string): string | null {
+  const normalized = normalizeProductName(name);
+  const words = new Set(normalized.split(' '));
+
+  if (!words.has('planted')) return null;
+
+  // Category terms are the keywords without the brand prefix
+  const categoryTerms = {} as Record<ProductCategory, string[]>;
+  for (const category of Object.keys(PRODUCT_KEYWORDS) as ProductCategory[]) {
+    categoryTerms[category] = PRODUCT_KEYWORDS[category].map((k) =>
+      normalizeProductName(k).replace(/^planted /, '')
+    );
+  }
+
+  const matchedCategories = (Object.keys(categoryTerms) as ProductCategory[]).filter((category) =>
+    categoryTerms[category].some((term) => ` ${normalized} `.includes(` ${term} `))
+  );
+
+  if (matchedCategories.length === 0) return null;
+
+  const candidates = PLANTED_PRODUCTS.filter(
+    (p) =>
+      p.active &&
+      matchedCategories.includes(p.category) &&
+      (!countryCode || p.markets.includes(countryCode))
+  );
+
+  let best: { sku: string; score: number; isDefault: boolean } | null = null;
+
+  for (const product of candidates) {
+    const variantWords = new Set<string>();
+    for (const source of [product.variant.replace(/-/g, ' '), ...Object.values(product.name)]) {
+      for (const word of normalizeProductName(source).split(' ')) {
+        if (word.length >= 3 && word !== 'planted' && !categoryTerms[product.category].includes(word)) {
+          variantWords.add(word);
+        }
+      }
+    }
+
+    const score = Array.from(variantWords).filter((w) => words.has(w)).length;
+    const isDefault = DEFAULT_VARIANTS.includes(product.variant);
+
+    if (!best || score > best.score || (score === best.score && isDefault && !best.isDefault)) {
+      best = { sku: product.sku, score, isDefault };
+    }
+  }
+
+  if (!best) return null;
+  // Without any variant evidence only the base variant is a safe guess
+  if (best.score === 0 && !best.isDefault) return null;
+
+  return best.sku;
+}
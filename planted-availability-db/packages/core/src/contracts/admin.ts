@@ -0,0 +1,2168 @@
+/**
+ * Admin API contract
+ *
+ * Request and response schemas of the admin functions used by the admin
+ * dashboard. Admin responses use camelCase fields.
+ */
+
+import { z } from 'zod';
+import { venueStatusSchema, venueTypeSchema } from '../schemas/venue.js';
+import { scraperStatsSchema } from '../schemas/scraper.js';
+import { SUPPORTED_COUNTRIES, type SupportedCountry } from '../types/discovery.js';
+import { isoDateSchema, apiVenueSchema, apiDishSchema } from './common.js';
+
+// ============================================================================
+// Dead letter queue (/adminFailedOperations, /adminFailedOperationActions)
+// ============================================================================
+
+export const operationTypeSchema = z.enum([
+  'discovery',
+  'dish_extraction',
+  'venue_verification',
+  'menu_scrape',
+  'sync_write',
+]);
+
+export const operationStatusSchema = z.enum(['pending_retry', 'requires_manual', 'resolved']);
+
+export const failedOperationsQuerySchema = z.object({
+  status: operationStatusSchema.optional(),
+  type: operationTypeSchema.optional(),
+  platform: z.string().optional(),
+  venueId: z.string().optional(),
+  limit: z.string().transform(Number).optional().default('100'),
+});
+
+export const failedOperationActionBodySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(50),
+  action: z.enum(['retry', 'resolve', 'manual']),
+  reason: z.string().max(500).optional(),
+});
+
+export const failedOperationSchema = z.object({
+  id: z.string(),
+  type: operationTypeSchema,
+  status: operationStatusSchema,
+  venueId: z.string().optional(),
+  platform: z.string().optional(),
+  error: z.string(),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  createdAt: isoDateSchema,
+  lastAttemptAt: isoDateSchema,
+  nextRetryAt: isoDateSchema.optional(),
+  manualReviewReason: z.string().optional(),
+  resolvedAt: isoDateSchema.optional(),
+  resolvedBy: z.string().optional(),
+  // Sync writes are retried by the API, everything else by the scrapers drain
+  retriedBy: z.enum(['api', 'scrapers']),
+  context: z.record(z.unknown()).optional(),
+});
+
+export const failedOperationsResponseSchema = z.object({
+  operations: z.array(failedOperationSchema),
+  stats: z.object({
+    total: z.number(),
+    pendingRetry: z.number(),
+    requiresManual: z.number(),
+    resolved: z.number(),
+    byType: z.record(operationTypeSchema, z.number()),
+    byPlatform: z.record(z.number()),
+  }),
+});
+
+export const failedOperationActionResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    resolved: z.number(),
+    scheduled: z.number(),
+    requiresManual: z.number(),
+    errors: z.number(),
+  }),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      status: z.union([operationStatusSchema, z.enum(['scheduled', 'error'])]),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+// ============================================================================
+// Menu change history (/adminMenuChanges)
+// ============================================================================
+
+export const menuChangeTypeSchema = z.enum(['dish_added', 'dish_removed', 'dish_modified', 'price_change']);
+
+export const menuChangesQuerySchema = z.object({
+  venueId: z.string().min(1),
+  platform: z.string().optional(),
+  changeType: menuChangeTypeSchema.optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  limit: z.string().transform(Number).optional().default('100'),
+});
+
+export const menuChangeEntrySchema = z.object({
+  id: z.string(),
+  venueId: z.string(),
+  platform: z.string(),
+  changeType: menuChangeTypeSchema,
+  dishName: z.string(),
+  plantedProduct: z.string().optional(),
+  oldValue: z.string().optional(),
+  newValue: z.string().optional(),
+  detectedAt: isoDateSchema,
+});
+
+export const menuChangeSummarySchema = z.object({
+  total: z.number(),
+  added: z.number(),
+  removed: z.number(),
+  modified: z.number(),
+  priceChanges: z.number(),
+  byPlatform: z.record(z.number()),
+});
+
+export const menuChangesResponseSchema = z.object({
+  venueId: z.string(),
+  changes: z.array(menuChangeEntrySchema),
+  summary: menuChangeSummarySchema,
+});
+
+// ============================================================================
+// Partner submissions (/adminPartnerSubmissions, /adminReviewPartnerSubmissions,
+// /adminPromotePartnerSubmissions)
+// ============================================================================
+
+export const stagedEntityTypeSchema = z.enum(['venue', 'dish', 'promotion', 'availability']);
+
+export const stagingStatusSchema = z.enum([
+  'pending',
+  'validating',
+  'needs_review',
+  'approved',
+  'rejected',
+  'promoted',
+]);
+
+export const batchStatusSchema = z.enum([
+  'received',
+  'validating',
+  'transforming',
+  'staging',
+  'scoring',
+  'pending_review',
+  'approved',
+  'partially_approved',
+  'rejected',
+  'failed',
+]);
+
+export const partnerSubmissionsQuerySchema = z.object({
+  batchId: z.string().optional(),
+  partnerId: z.string().optional(),
+  entityType: stagedEntityTypeSchema.optional(),
+  // 'open' = anything still awaiting a decision
+  status: z.enum([...stagingStatusSchema.options, 'open']).optional().default('open'),
+  // Confidence scores are 0-100
+  minConfidence: z.coerce.number().min(0).max(100).optional(),
+  maxConfidence: z.coerce.number().min(0).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(200),
+});
+
+export const stagedItemRefSchema = z.object({
+  entityType: stagedEntityTypeSchema,
+  id: z.string().min(1),
+});
+
+export const reviewPartnerSubmissionsBodySchema = z
+  .object({
+    items: z.array(stagedItemRefSchema).min(1, 'At least one item is required').max(100),
+    decision: z.enum(['approve', 'reject']),
+    notes: z.string().max(1000).optional(),
+    // Promote approved records to production right away
+    promote: z.boolean().optional().default(false),
+  })
+  .refine((body) => body.decision === 'approve' || (body.notes && body.notes.trim().length > 0), {
+    message: 'Rejection notes are required',
+    path: ['notes'],
+  });
+
+export const promotePartnerSubmissionsBodySchema = z
+  .object({
+    batchId: z.string().min(1).optional(),
+    items: z.array(stagedItemRefSchema).max(100).optional(),
+  })
+  .refine((body) => body.batchId || (body.items && body.items.length > 0), {
+    message: 'Either batchId or items is required',
+  });
+
+export const partnerSubmissionSchema = z.object({
+  id: z.string(),
+  entityType: stagedEntityTypeSchema,
+  batchId: z.string(),
+  partnerId: z.string(),
+  partnerName: z.string().optional(),
+  externalId: z.string().optional(),
+  status: stagingStatusSchema,
+  title: z.string(),
+  subtitle: z.string().optional(),
+  confidenceScore: z.number(),
+  confidenceBreakdown: z.record(z.number()).optional(),
+  flags: z.array(z.string()),
+  productionVenueId: z.string().optional(),
+  // Transformed partner record (venue, dish, promotion or availability)
+  data: z.record(z.unknown()),
+  review: z
+    .object({
+      reviewedBy: z.string(),
+      reviewedAt: isoDateSchema.optional(),
+      decision: z.enum(['approved', 'rejected']),
+      notes: z.string().optional(),
+    })
+    .optional(),
+  createdAt: isoDateSchema,
+});
+
+export const partnerSubmissionBatchSchema = z.object({
+  id: z.string(),
+  partnerId: z.string(),
+  partnerName: z.string().optional(),
+  channel: z.enum(['webhook', 'email', 'file_upload', 'agent', 'manual']),
+  status: batchStatusSchema,
+  stats: z.object({
+    records_received: z.number(),
+    records_valid: z.number(),
+    records_invalid: z.number(),
+    records_staged: z.number(),
+    records_approved: z.number(),
+    records_rejected: z.number(),
+    records_promoted: z.number(),
+  }),
+  receivedAt: isoDateSchema,
+  reviewRequired: z.boolean(),
+});
+
+export const partnerSubmissionsResponseSchema = z.object({
+  items: z.array(partnerSubmissionSchema),
+  batches: z.array(partnerSubmissionBatchSchema),
+  stats: z.object({
+    total: z.number(),
+    byEntityType: z.record(stagedEntityTypeSchema, z.number()),
+  }),
+});
+
+// Counts written to IngestionBatch.stats after a review or promotion
+export const batchReviewCountsSchema = z.object({
+  pending: z.number(),
+  approved: z.number(),
+  rejected: z.number(),
+  promoted: z.number(),
+});
+
+export const promotionOutcomeSchema = z.object({
+  entity_type: stagedEntityTypeSchema,
+  staged_id: z.string(),
+  success: z.boolean(),
+  production_id: z.string().optional(),
+  // True when an existing production record was updated instead of created
+  linked: z.boolean().optional(),
+  error: z.string().optional(),
+});
+
+export const reviewPartnerSubmissionsResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    successful: z.number(),
+    alreadyReviewed: z.number(),
+    notFound: z.number(),
+    errors: z.number(),
+    promoted: z.number(),
+    promotionErrors: z.number(),
+  }),
+  results: z.array(
+    z.object({
+      entityType: stagedEntityTypeSchema,
+      id: z.string(),
+      status: z.enum(['success', 'error', 'not_found', 'already_reviewed']),
+      error: z.string().optional(),
+      promotion: promotionOutcomeSchema.optional(),
+    })
+  ),
+  batchStats: z.record(batchReviewCountsSchema),
+});
+
+export const promotePartnerSubmissionsResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    promoted: z.number(),
+    failed: z.number(),
+  }),
+  results: z.array(promotionOutcomeSchema),
+  batchStats: z.record(batchReviewCountsSchema),
+});
+
+// ============================================================================
+// Review queue (/adminReviewQueue, /adminApproveVenue, /adminPartialApproveVenue,
+// /adminRejectVenue, /adminBulkApprove, /adminBulkReject, /adminFlagVenue,
+// /adminClearVenueFlag, /adminFlaggedVenues, /adminUpdateVenueAddress,
+// /adminUpdateVenueCountry, /adminUpdateDishStatus)
+// ============================================================================
+
+// Countries and statuses the review queue can be filtered by
+// Countries discovery runs in (see SUPPORTED_COUNTRIES)
+const supportedCountrySchema = z.enum(SUPPORTED_COUNTRIES as unknown as [SupportedCountry, ...SupportedCountry[]]);
+
+export const reviewCountrySchema = z.enum(['CH', 'DE', 'AT']);
+
+export const reviewVenueStatusSchema = z.enum(['discovered', 'verified', 'rejected', 'promoted', 'stale']);
+
+export const reviewFlagTypeSchema = z.enum(['dish_extraction', 're_verification']);
+
+export const reviewFlagPrioritySchema = z.enum(['urgent', 'high', 'normal']);
+
+export const reviewQueueQuerySchema = z.object({
+  country: reviewCountrySchema.optional(),
+  status: reviewVenueStatusSchema.optional(),
+  minConfidence: z.string().transform(Number).optional(),
+  search: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.string().transform(Number).optional().default('50'),
+});
+
+export const approveVenueBodySchema = z.object({
+  venueId: z.string().min(1),
+  dishApprovals: z
+    .array(
+      z.object({
+        dishId: z.string(),
+        approved: z.boolean(),
+      })
+    )
+    .optional(),
+});
+
+export const partialApproveVenueBodySchema = z.object({
+  venueId: z.string().min(1),
+  feedback: z.string(),
+  feedbackTags: z.array(z.string()).optional().default([]),
+  dishUpdates: z
+    .array(
+      z.object({
+        dishId: z.string(),
+        updates: z.record(z.unknown()),
+        approved: z.boolean(),
+      })
+    )
+    .optional(),
+  // Dishes to include in a simple partial approval
+  dishIds: z.array(z.string()).optional(),
+});
+
+export const rejectVenueBodySchema = z.object({
+  venueId: z.string().min(1),
+  reason: z.string().min(1, 'Rejection reason is required'),
+  feedbackTags: z.array(z.string()).optional(),
+});
+
+export const bulkApproveBodySchema = z.object({
+  venueIds: z.array(z.string()).min(1, 'At least one venue ID is required'),
+});
+
+export const bulkRejectBodySchema = z.object({
+  venueIds: z.array(z.string()).min(1, 'At least one venue ID is required'),
+  reason: z.string().min(1, 'Rejection reason is required'),
+});
+
+export const flagVenueBodySchema = z.object({
+  venueId: z.string().min(1),
+  flagType: reviewFlagTypeSchema,
+  priority: reviewFlagPrioritySchema,
+  reason: z.string().optional(),
+});
+
+export const clearVenueFlagBodySchema = z.object({
+  venueId: z.string().min(1),
+});
+
+export const flaggedVenuesQuerySchema = z.object({
+  flagType: reviewFlagTypeSchema.optional(),
+});
+
+export const updateVenueAddressBodySchema = z
+  .object({
+    venueId: z.string().min(1),
+    street: z.string().optional(),
+    city: z.string().optional(),
+  })
+  .refine((data) => data.street !== undefined || data.city !== undefined, {
+    message: 'At least one of street or city must be provided',
+  });
+
+export const updateVenueCountryBodySchema = z.object({
+  venueId: z.string().min(1),
+  country: supportedCountrySchema,
+});
+
+export const updateDishStatusBodySchema = z.object({
+  venueId: z.string().min(1),
+  // Embedded dishes are addressed as "{venueId}-dish-{index}"
+  dishId: z.string().min(1),
+  status: z.enum(['verified', 'rejected']),
+});
+
+export const reviewDishSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  product: z.string(),
+  confidence: z.number(),
+  // Display price, e.g. "CHF 18.90"
+  price: z.string().optional(),
+  imageUrl: z.string().optional(),
+  status: z.string(),
+});
+
+export const adminPlatformLinkSchema = z.object({
+  platform: z.string(),
+  url: z.string(),
+  active: z.boolean(),
+});
+
+export const adminVenueAddressSchema = z.object({
+  street: z.string().optional(),
+  city: z.string(),
+  postalCode: z.string().optional(),
+  country: z.string(),
+});
+
+export const reviewVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  chainId: z.string().optional(),
+  chainName: z.string().optional(),
+  // Chain matched by name for venues without a chain_id
+  suggestedChainId: z.string().optional(),
+  suggestedChainName: z.string().optional(),
+  suggestedChainConfidence: z.number().optional(),
+  address: adminVenueAddressSchema,
+  confidenceScore: z.number(),
+  status: reviewVenueStatusSchema,
+  createdAt: isoDateSchema,
+  dishes: z.array(reviewDishSchema),
+  deliveryPlatforms: z.array(adminPlatformLinkSchema),
+  flagType: z.enum(['dish_extraction', 're_verification', 'manual_review']).nullable().optional(),
+  flagPriority: reviewFlagPrioritySchema.optional(),
+  flagReason: z.string().optional(),
+  flaggedAt: isoDateSchema.optional(),
+});
+
+// Country > venue type > chain > venue tree of the review and live venue lists
+export interface AdminHierarchyNode<TVenue> {
+  id: string;
+  type: 'country' | 'venueType' | 'chain' | 'venue';
+  label: string;
+  count: number;
+  children?: AdminHierarchyNode<TVenue>[];
+  // Only on venue nodes
+  venue?: TVenue;
+}
+
+function hierarchyNodeSchema<T extends z.ZodTypeAny>(
+  venueSchema: T
+): z.ZodType<AdminHierarchyNode<z.infer<T>>, z.ZodTypeDef, unknown> {
+  const nodeSchema: z.ZodType<AdminHierarchyNode<z.infer<T>>, z.ZodTypeDef, unknown> = z.lazy(() =>
+    z.object({
+      id: z.string(),
+      type: z.enum(['country', 'venueType', 'chain', 'venue']),
+      label: z.string(),
+      count: z.number(),
+      children: z.array(nodeSchema).optional(),
+      venue: venueSchema.optional(),
+    })
+  );
+  return nodeSchema;
+}
+
+export const reviewHierarchyNodeSchema = hierarchyNodeSchema(reviewVenueSchema);
+
+export const reviewQueueStatsSchema = z.object({
+  pending: z.number(),
+  verified: z.number(),
+  rejected: z.number(),
+  promoted: z.number(),
+  stale: z.number(),
+  byCountry: z.record(z.number()),
+  byConfidence: z.object({
+    low: z.number(),
+    medium: z.number(),
+    high: z.number(),
+  }),
+  chainAssignment: z.object({
+    assigned: z.number(),
+    unassigned: z.number(),
+    // Marked as a chain but without a chain_id
+    needsAssignment: z.number(),
+  }),
+  flagged: z.object({
+    total: z.number(),
+    dish_extraction: z.number(),
+    re_verification: z.number(),
+  }),
+  total: z.number(),
+});
+
+export const reviewQueueResponseSchema = z.object({
+  items: z.array(reviewVenueSchema),
+  hierarchy: z.array(reviewHierarchyNodeSchema),
+  stats: reviewQueueStatsSchema,
+  pagination: z.object({
+    cursor: z.string().optional(),
+    hasMore: z.boolean(),
+    total: z.number(),
+    pageSize: z.number(),
+  }),
+});
+
+const reviewedVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: reviewVenueStatusSchema,
+  verifiedAt: isoDateSchema.optional(),
+});
+
+export const approveVenueResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: reviewedVenueSchema,
+  dishes: z.object({
+    approved: z.number(),
+    rejected: z.number(),
+    total: z.number(),
+  }),
+});
+
+export const partialApproveVenueResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: reviewedVenueSchema,
+  feedback: z.object({
+    message: z.string(),
+    tags: z.array(z.string()),
+  }),
+  dishes: z.object({
+    updated: z.number(),
+    approved: z.number(),
+    rejected: z.number(),
+    errors: z.number(),
+    total: z.number(),
+  }),
+  dishResults: z.array(
+    z.object({
+      dishId: z.string(),
+      status: z.enum(['updated', 'approved', 'rejected', 'error']),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+export const rejectVenueResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    status: reviewVenueStatusSchema,
+    rejectionReason: z.string().optional(),
+  }),
+  feedback: z.object({
+    reason: z.string(),
+    tags: z.array(z.string()),
+  }),
+});
+
+export const bulkApproveResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    successful: z.number(),
+    alreadyVerified: z.number(),
+    errors: z.number(),
+    notFound: z.number(),
+  }),
+  results: z.array(
+    z.object({
+      venueId: z.string(),
+      status: z.enum(['success', 'error', 'already_verified', 'not_found']),
+      error: z.string().optional(),
+      venueName: z.string().optional(),
+    })
+  ),
+});
+
+export const bulkRejectResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    successful: z.number(),
+    alreadyRejected: z.number(),
+    errors: z.number(),
+    notFound: z.number(),
+  }),
+  results: z.array(
+    z.object({
+      venueId: z.string(),
+      status: z.enum(['success', 'error', 'already_rejected', 'not_found']),
+      error: z.string().optional(),
+      venueName: z.string().optional(),
+    })
+  ),
+});
+
+export const flagVenueResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    flag_type: reviewFlagTypeSchema,
+    flag_priority: reviewFlagPrioritySchema,
+    flagged_at: isoDateSchema,
+  }),
+});
+
+export const clearVenueFlagResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+});
+
+export const flaggedVenuesResponseSchema = z.object({
+  success: z.boolean(),
+  venues: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      address: z.object({
+        street: z.string().optional(),
+        city: z.string(),
+        postal_code: z.string().optional(),
+        country: z.string(),
+      }),
+      flag_type: z.enum(['dish_extraction', 're_verification', 'manual_review']).nullable().optional(),
+      flag_priority: reviewFlagPrioritySchema.optional(),
+      flag_reason: z.string().optional(),
+      flagged_at: isoDateSchema.optional(),
+      flagged_by: z.string().optional(),
+      dishes_count: z.number(),
+      confidence_score: z.number(),
+      status: reviewVenueStatusSchema,
+    })
+  ),
+  count: z.number(),
+});
+
+export const updateVenueAddressResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    address: z.object({
+      street: z.string().optional(),
+      city: z.string(),
+      country: z.string(),
+    }),
+  }),
+});
+
+export const updateVenueCountryResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    previousCountry: z.string(),
+    country: z.string(),
+  }),
+});
+
+export const updateDishStatusResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  dish: z.object({
+    id: z.string(),
+    name: z.string(),
+    status: z.enum(['verified', 'rejected']),
+  }),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+});
+
+// ============================================================================
+// Live venues (/adminLiveVenues, /adminUpdateVenueStatus, /adminVenueDishes,
+// /adminUpdateDeliveryZone, /adminFindDuplicateVenues,
+// /adminDeleteDuplicateVenues, /adminMergeVenues)
+// ============================================================================
+
+export const liveVenuesQuerySchema = z.object({
+  country: reviewCountrySchema.optional(),
+  status: venueStatusSchema.optional(),
+  venueType: venueTypeSchema.optional(),
+  search: z.string().optional(),
+  page: z.string().transform(Number).optional().default('1'),
+  pageSize: z.string().transform(Number).optional().default('100'),
+});
+
+export const updateLiveVenueStatusBodySchema = z.object({
+  venueId: z.string().min(1),
+  status: venueStatusSchema,
+});
+
+export const venueDishesQuerySchema = z.object({
+  venueId: z.string().min(1, 'venueId is required'),
+});
+
+export const deliveryZoneBodySchema = z.discriminatedUnion('mode', [
+  z.object({
+    venueId: z.string().min(1),
+    mode: z.literal('radius'),
+    radiusKm: z.number().positive().max(50),
+    steps: z.number().int().min(8).max(256).optional(),
+  }),
+  z.object({
+    venueId: z.string().min(1),
+    mode: z.literal('geojson'),
+    geojson: z.unknown(),
+  }),
+  z.object({
+    venueId: z.string().min(1),
+    mode: z.literal('postal_codes'),
+    postalCodes: z.array(z.string().trim().min(1).max(20)).min(1).max(1000),
+  }),
+  z.object({
+    venueId: z.string().min(1),
+    mode: z.literal('clear'),
+  }),
+]);
+
+export const deleteDuplicateVenuesBodySchema = z.object({
+  venueIds: z.array(z.string().min(1)).min(1).max(100),
+});
+
+export const mergeVenuesBodySchema = z.object({
+  primaryVenueId: z.string().min(1),
+  secondaryVenueId: z.string().min(1),
+});
+
+// Postal codes, or a GeoJSON geometry
+export const deliveryZonesSchema = z.union([
+  z.array(z.string()),
+  z.object({
+    type: z.enum(['Polygon', 'MultiPolygon', 'Point', 'LineString']),
+    coordinates: z.array(z.unknown()),
+  }),
+]);
+
+export const liveVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  chainId: z.string().optional(),
+  chainName: z.string().optional(),
+  address: adminVenueAddressSchema,
+  location: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+  }),
+  status: venueStatusSchema,
+  lastVerified: isoDateSchema,
+  createdAt: isoDateSchema,
+  deliveryPlatforms: z.array(adminPlatformLinkSchema),
+  deliveryZones: deliveryZonesSchema.optional(),
+  dishCount: z.number(),
+});
+
+export const liveVenueHierarchyNodeSchema = hierarchyNodeSchema(liveVenueSchema);
+
+export const liveVenuesStatsSchema = z.object({
+  active: z.number(),
+  stale: z.number(),
+  archived: z.number(),
+  total: z.number(),
+  byCountry: z.record(z.number()),
+  byType: z.record(z.number()),
+  avgDaysSinceVerification: z.number(),
+});
+
+export const liveVenuesResponseSchema = z.object({
+  items: z.array(liveVenueSchema),
+  hierarchy: z.array(liveVenueHierarchyNodeSchema),
+  stats: liveVenuesStatsSchema,
+  pagination: z.object({
+    page: z.number(),
+    pageSize: z.number(),
+    total: z.number(),
+    totalPages: z.number(),
+    hasMore: z.boolean(),
+  }),
+});
+
+export const updateLiveVenueStatusResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    previousStatus: venueStatusSchema,
+    status: venueStatusSchema,
+    lastVerified: isoDateSchema,
+  }),
+});
+
+export const venueDishSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  plantedProducts: z.array(z.string()),
+  price: z.object({
+    amount: z.number(),
+    currency: z.string(),
+  }),
+  dietaryTags: z.array(z.string()),
+  cuisineType: z.string().optional(),
+  imageUrl: z.string().optional(),
+  status: z.string(),
+  lastVerified: isoDateSchema,
+});
+
+export const venueDishesResponseSchema = z.object({
+  venueId: z.string(),
+  dishes: z.array(venueDishSchema),
+  total: z.number(),
+});
+
+export const deliveryZoneResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    deliveryZones: deliveryZonesSchema.nullable(),
+  }),
+});
+
+export const duplicateVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  chainId: z.string().optional(),
+  chainName: z.string().optional(),
+  address: adminVenueAddressSchema,
+  coordinates: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  platformUrls: z.array(z.string()),
+  status: venueStatusSchema,
+  lastVerified: isoDateSchema,
+  createdAt: isoDateSchema,
+  dishCount: z.number(),
+});
+
+export const duplicateGroupSchema = z.object({
+  addressKey: z.string(),
+  formattedAddress: z.string(),
+  venues: z.array(duplicateVenueSchema),
+  score: z.object({
+    addressMatch: z.boolean(),
+    // Meters, -1 if unknown
+    coordinateProximity: z.number(),
+    platformUrlMatch: z.boolean(),
+    // 0-1
+    nameSimilarity: z.number(),
+    totalScore: z.number(),
+  }),
+  recommendation: z.enum(['merge', 'review', 'keep_both']),
+});
+
+export const findDuplicateVenuesResponseSchema = z.object({
+  duplicateGroups: z.array(duplicateGroupSchema),
+  totalDuplicateGroups: z.number(),
+  totalDuplicateVenues: z.number(),
+  stats: z.object({
+    byCountry: z.record(z.number()),
+    totalVenuesScanned: z.number(),
+  }),
+});
+
+export const deleteDuplicateVenuesResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  deletedVenues: z.number(),
+  deletedDishes: z.number(),
+  details: z.array(
+    z.object({
+      venueId: z.string(),
+      venueName: z.string(),
+      dishesDeleted: z.number(),
+    })
+  ),
+});
+
+export const mergeVenuesResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  mergedVenue: z.object({
+    id: z.string(),
+    name: z.string(),
+    totalDishes: z.number(),
+    totalPlatforms: z.number(),
+  }),
+  deletedSecondary: z.object({
+    venueId: z.string(),
+    venueName: z.string(),
+    dishesTransferred: z.number(),
+    platformsTransferred: z.number(),
+  }),
+});
+
+// ============================================================================
+// Sync (/adminSyncPreview, /adminSyncExecute, /adminSyncHistory)
+// ============================================================================
+
+export const syncExecuteBodySchema = z.object({
+  venueIds: z.array(z.string()).optional(),
+  dishIds: z.array(z.string()).optional(),
+  syncAll: z.boolean().optional().default(false),
+  // For backfills of venues whose address can't be validated
+  skipAddressValidation: z.boolean().optional().default(false),
+});
+
+export const syncHistoryQuerySchema = z.object({
+  limit: z.string().transform(Number).optional().default('50'),
+  cursor: z.string().optional(),
+});
+
+export const syncFieldDiffSchema = z.object({
+  field: z.string(),
+  oldValue: z.unknown(),
+  newValue: z.unknown(),
+  changed: z.boolean(),
+});
+
+export const syncDishDiffSchema = z.object({
+  // Production dish ID for updates, embedded dish index for additions
+  id: z.string(),
+  name: z.string(),
+  changeType: z.enum(['addition', 'update']),
+  fields: z.array(syncFieldDiffSchema).optional(),
+});
+
+export const syncVenueAdditionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  chainId: z.string().optional(),
+  chainName: z.string().optional(),
+  city: z.string(),
+  country: z.string(),
+  confidenceScore: z.number(),
+  dishCount: z.number(),
+  verifiedAt: isoDateSchema,
+});
+
+export const syncDishAdditionSchema = z.object({
+  id: z.string(),
+  venueId: z.string(),
+  venueName: z.string(),
+  name: z.string(),
+  product: z.string(),
+  price: z.string().optional(),
+  confidenceScore: z.number(),
+  verifiedAt: isoDateSchema.optional(),
+});
+
+export const syncVenueUpdateSchema = z.object({
+  id: z.string(),
+  productionId: z.string(),
+  name: z.string(),
+  city: z.string(),
+  country: z.string(),
+  // Changed field names
+  changes: z.array(z.string()),
+  diff: z.array(syncFieldDiffSchema),
+  dishDiffs: z.array(syncDishDiffSchema),
+  verifiedAt: isoDateSchema,
+});
+
+export const syncDishUpdateSchema = z.object({
+  id: z.string(),
+  productionId: z.string(),
+  venueId: z.string(),
+  venueName: z.string(),
+  name: z.string(),
+  changes: z.array(z.string()),
+  diff: z.array(syncFieldDiffSchema),
+  verifiedAt: isoDateSchema.optional(),
+});
+
+export const syncStaleVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  city: z.string(),
+  country: z.string(),
+  lastVerified: isoDateSchema,
+  daysSinceVerification: z.number(),
+});
+
+export const syncPreviewResponseSchema = z.object({
+  additions: z.object({
+    venues: z.array(syncVenueAdditionSchema),
+    dishes: z.array(syncDishAdditionSchema),
+  }),
+  updates: z.object({
+    venues: z.array(syncVenueUpdateSchema),
+    dishes: z.array(syncDishUpdateSchema),
+  }),
+  // Not diffed yet: always empty
+  removals: z.object({
+    venues: z.array(z.unknown()),
+    dishes: z.array(z.unknown()),
+  }),
+  staleVenues: z.array(syncStaleVenueSchema),
+  stats: z.object({
+    total: z.number(),
+    additions: z.number(),
+    updates: z.number(),
+    removals: z.number(),
+    venues: z.object({ additions: z.number(), updates: z.number() }),
+    dishes: z.object({ additions: z.number(), updates: z.number() }),
+  }),
+});
+
+export const syncExecuteResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  synced: z.object({
+    venues: z.number(),
+    venuesAdded: z.number(),
+    venuesUpdated: z.number(),
+    dishes: z.number(),
+    dishesAdded: z.number(),
+    dishesUpdated: z.number(),
+  }),
+  errors: z
+    .array(
+      z.object({
+        entityId: z.string(),
+        entityType: z.enum(['venue', 'dish']),
+        error: z.string(),
+      })
+    )
+    .optional(),
+  stats: z.object({
+    requested: z.object({ venues: z.number(), dishes: z.number() }),
+    successful: z.object({
+      venues: z.number(),
+      venuesAdded: z.number(),
+      venuesUpdated: z.number(),
+      dishes: z.number(),
+      dishesAdded: z.number(),
+      dishesUpdated: z.number(),
+    }),
+    failed: z.object({ venues: z.number(), dishes: z.number() }),
+    skippedForValidation: z.number(),
+  }),
+});
+
+export const syncRunStatsSchema = z.object({
+  venuesAdded: z.number(),
+  venuesUpdated: z.number(),
+  dishesAdded: z.number(),
+  dishesUpdated: z.number(),
+  errors: z.number(),
+});
+
+export const syncHistoryEntrySchema = z.object({
+  id: z.string(),
+  executedAt: isoDateSchema,
+  executedBy: z.string(),
+  stats: syncRunStatsSchema,
+  itemsSynced: z.object({
+    venues: z.number(),
+    dishes: z.number(),
+  }),
+  hasErrors: z.boolean(),
+  errorCount: z.number(),
+});
+
+export const syncHistoryResponseSchema = z.object({
+  history: z.array(syncHistoryEntrySchema),
+  pagination: z.object({
+    cursor: z.string().optional(),
+    hasMore: z.boolean(),
+    limit: z.number(),
+  }),
+  summary: z.object({
+    lastSync: z
+      .object({
+        executedAt: isoDateSchema,
+        executedBy: z.string(),
+        venuesSynced: z.number(),
+        dishesSynced: z.number(),
+        errors: z.number(),
+      })
+      .nullable(),
+    last30Days: z.object({
+      totalSyncs: z.number(),
+      totalVenues: z.number(),
+      totalDishes: z.number(),
+      totalErrors: z.number(),
+      averageVenuesPerSync: z.number(),
+      averageDishesPerSync: z.number(),
+    }),
+  }),
+});
+
+// ============================================================================
+// Scrapers (/adminAvailableScrapers, /adminStartDiscovery,
+// /adminStartExtraction, /adminCancelScraper, /adminScraperStream)
+// ============================================================================
+
+export const scraperRunStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'partial', 'cancelled']);
+
+export const discoveryModeSchema = z.enum(['explore', 'enumerate', 'verify']);
+
+export const extractionModeSchema = z.enum(['enrich', 'refresh', 'verify']);
+
+export const extractionTargetSchema = z.enum(['all', 'chain', 'venue']);
+
+export const startDiscoveryBodySchema = z.object({
+  countries: z.array(supportedCountrySchema).min(1, 'At least one country required'),
+  platforms: z.array(z.string()).optional(),
+  mode: discoveryModeSchema,
+  chainId: z.string().optional(),
+  maxQueries: z.number().int().positive().optional().default(50),
+  dryRun: z.boolean().optional().default(false),
+});
+
+export const startExtractionBodySchema = z.object({
+  target: extractionTargetSchema,
+  chainId: z.string().optional(),
+  venueId: z.string().optional(),
+  maxVenues: z.number().int().positive().optional().default(50),
+  mode: extractionModeSchema,
+});
+
+export const scraperRunProgressSchema = z.object({
+  current: z.number(),
+  total: z.number(),
+  percentage: z.number(),
+});
+
+export const scraperRunCostsSchema = z.object({
+  searchQueries: z.number(),
+  aiCalls: z.number(),
+  estimated: z.number(),
+});
+
+export const availableScrapersResponseSchema = z.object({
+  discovery: z.object({
+    countries: z.array(z.string()),
+    platforms: z.array(z.string()),
+    modes: z.array(
+      z.object({
+        id: discoveryModeSchema,
+        name: z.string(),
+        description: z.string(),
+        estimatedQueries: z.number(),
+        estimatedDuration: z.string(),
+        requiresChainId: z.boolean().optional(),
+      })
+    ),
+    defaultMaxQueries: z.number(),
+  }),
+  extraction: z.object({
+    modes: z.array(
+      z.object({
+        id: extractionModeSchema,
+        name: z.string(),
+        description: z.string(),
+        estimatedAICalls: z.number(),
+        estimatedDuration: z.string(),
+      })
+    ),
+    targets: z.array(
+      z.object({
+        id: extractionTargetSchema,
+        name: z.string(),
+        description: z.string(),
+        requiresChainId: z.boolean().optional(),
+        requiresVenueId: z.boolean().optional(),
+      })
+    ),
+    defaultMaxVenues: z.number(),
+  }),
+  recentRuns: z.array(
+    z.object({
+      id: z.string(),
+      scraperId: z.string(),
+      status: scraperRunStatusSchema,
+      startedAt: isoDateSchema,
+      completedAt: isoDateSchema.optional(),
+      progress: scraperRunProgressSchema.optional(),
+      stats: scraperStatsSchema,
+      costs: scraperRunCostsSchema.optional(),
+      config: z.record(z.unknown()).optional(),
+    })
+  ),
+  runningScrapers: z.array(
+    z.object({
+      id: z.string(),
+      scraperId: z.string(),
+      status: scraperRunStatusSchema,
+      startedAt: isoDateSchema,
+      progress: scraperRunProgressSchema.optional(),
+      config: z.record(z.unknown()).optional(),
+    })
+  ),
+  statistics: z.object({
+    totalRecentRuns: z.number(),
+    currentlyRunning: z.number(),
+    // Percent of recent runs that completed; null without recent runs
+    recentSuccessRate: z.number().nullable(),
+  }),
+});
+
+export const startScraperResponseSchema = z.object({
+  runId: z.string(),
+  // Server-sent events stream of the run
+  statusUrl: z.string(),
+  status: z.literal('pending'),
+  message: z.string(),
+  config: z.record(z.unknown()),
+  estimatedCost: z.number(),
+  warning: z.string().optional(),
+});
+
+export const cancelScraperResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  runId: z.string(),
+  cancelledBy: z.string(),
+  cancelledAt: isoDateSchema,
+});
+
+// Events of the /adminScraperStream server-sent events stream
+export const scraperStreamInitEventSchema = z.object({
+  runId: z.string(),
+  scraperId: z.string(),
+  status: scraperRunStatusSchema,
+  startedAt: isoDateSchema,
+  config: z.record(z.unknown()).optional(),
+});
+
+export const scraperStreamUpdateEventSchema = z.object({
+  status: scraperRunStatusSchema,
+  progress: scraperRunProgressSchema.optional(),
+  results: z.object({
+    found: z.number(),
+    processed: z.number(),
+    errors: z.number(),
+  }),
+  costs: scraperRunCostsSchema.optional(),
+  logs: z
+    .array(
+      z.object({
+        timestamp: isoDateSchema,
+        level: z.enum(['info', 'warn', 'error']),
+        message: z.string(),
+      })
+    )
+    .optional(),
+  // Seconds until the run completes
+  eta: z.number().optional(),
+});
+
+export const scraperStreamDoneEventSchema = z.object({
+  status: scraperRunStatusSchema,
+  completedAt: isoDateSchema.optional(),
+  stats: scraperStatsSchema,
+  errors: z.array(z.object({ message: z.string(), url: z.string().optional() })).optional(),
+});
+
+// ============================================================================
+// Budget (/adminBudgetStatus)
+// ============================================================================
+
+export const budgetStatusResponseSchema = z.object({
+  today: z.object({
+    date: z.string(),
+    searchQueries: z.object({
+      used: z.number(),
+      free: z.number(),
+      paid: z.number(),
+      cost: z.number(),
+    }),
+    aiCalls: z.object({
+      count: z.number(),
+      gemini: z.number(),
+      claude: z.number(),
+      cost: z.number(),
+    }),
+    total: z.number(),
+    percentage: z.number(),
+  }),
+  month: z.object({
+    year: z.number(),
+    month: z.number(),
+    searchQueries: z.object({
+      used: z.number(),
+      free: z.number(),
+      paid: z.number(),
+    }),
+    aiCalls: z.object({
+      count: z.number(),
+      gemini: z.number(),
+      claude: z.number(),
+    }),
+    total: z.number(),
+    percentage: z.number(),
+  }),
+  limits: z.object({
+    dailyBudget: z.number(),
+    monthlyBudget: z.number(),
+    // Daily cost at which scrapers are throttled
+    throttleAt: z.number(),
+    throttleThreshold: z.number(),
+  }),
+  isThrottled: z.boolean(),
+  throttleReason: z.string().optional(),
+  throttleEvents: z.object({
+    today: z.number(),
+    month: z.number(),
+    recent: z.array(
+      z.object({
+        timestamp: isoDateSchema,
+        reason: z.string(),
+      })
+    ),
+  }),
+});
+
+// ============================================================================
+// Analytics (/adminAnalyticsKpis, /adminAnalyticsCosts,
+// /adminAnalyticsRejections, /adminStrategyStats)
+// ============================================================================
+
+export const analyticsQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d']).optional().default('30d'),
+});
+
+const approvalCountsSchema = z.object({
+  approved: z.number(),
+  rejected: z.number(),
+  rate: z.number(),
+});
+
+export const analyticsKpisResponseSchema = z.object({
+  discovery: z.object({
+    total: z.number(),
+    venues: z.number(),
+    dishes: z.number(),
+    byDay: z.array(z.object({ date: z.string(), count: z.number() })),
+    rate: z.number(),
+    rateUnit: z.string(),
+  }),
+  approval: z.object({
+    approved: z.number(),
+    rejected: z.number(),
+    pending: z.number(),
+    rate: z.number(),
+    byType: z.object({
+      venues: approvalCountsSchema,
+      dishes: approvalCountsSchema,
+    }),
+  }),
+  accuracy: z.object({
+    overall: z.number(),
+    venue: z.number(),
+    dish: z.number(),
+    aiPredictions: z.object({
+      total: z.number(),
+      correct: z.number(),
+      rate: z.number(),
+    }),
+  }),
+  venues: z.object({
+    total: z.number(),
+    live: z.number(),
+    pending: z.number(),
+    verified: z.number(),
+    promoted: z.number(),
+    rejected: z.number(),
+  }),
+  dishes: z.object({
+    total: z.number(),
+    verified: z.number(),
+    promoted: z.number(),
+    rejected: z.number(),
+  }),
+  trend: z.object({
+    period: z.string(),
+    change: z.number(),
+    direction: z.enum(['up', 'down', 'stable']),
+    firstHalf: z.number(),
+    secondHalf: z.number(),
+  }),
+});
+
+export const analyticsCostsResponseSchema = z.object({
+  period: z.string(),
+  total: z.number(),
+  breakdown: z.object({
+    search: z.object({
+      cost: z.number(),
+      percentage: z.number(),
+      queries: z.number(),
+      costPerQuery: z.number(),
+    }),
+    ai: z.object({
+      cost: z.number(),
+      percentage: z.number(),
+      calls: z.number(),
+      costPerCall: z.number(),
+      byProvider: z.object({ gemini: z.number(), claude: z.number() }),
+    }),
+    scraping: z.object({
+      cost: z.number(),
+      percentage: z.number(),
+    }),
+  }),
+  byDay: z.array(
+    z.object({
+      date: z.string(),
+      search: z.number(),
+      ai: z.number(),
+      scraping: z.number(),
+      total: z.number(),
+    })
+  ),
+  budget: z.object({
+    limit: z.number(),
+    used: z.number(),
+    remaining: z.number(),
+    percentage: z.number(),
+    isOverBudget: z.boolean(),
+  }),
+  projected: z.object({
+    monthlyCost: z.number(),
+    willExceedBudget: z.boolean(),
+    dailyAverage: z.number(),
+    daysRemaining: z.number(),
+  }),
+  currentMonth: z.object({
+    month: z.number(),
+    year: z.number(),
+    daysElapsed: z.number(),
+    daysTotal: z.number(),
+    searchQueries: z.object({ free: z.number(), paid: z.number() }),
+    aiCalls: z.object({ gemini: z.number(), claude: z.number() }),
+    throttleEvents: z.number(),
+  }),
+});
+
+export const rejectionReasonSchema = z.object({
+  reason: z.string(),
+  count: z.number(),
+  percentage: z.number(),
+  examples: z.array(z.string()),
+});
+
+const rejectionGroupSchema = z.object({
+  total: z.number(),
+  reasons: z.array(rejectionReasonSchema),
+  topReason: z.string(),
+});
+
+export const analyticsRejectionsResponseSchema = z.object({
+  period: z.string(),
+  summary: z.object({
+    total: z.number(),
+    venues: z.number(),
+    dishes: z.number(),
+    rejectionRate: z.number(),
+  }),
+  venues: rejectionGroupSchema,
+  dishes: rejectionGroupSchema,
+  aiPredictions: z.object({
+    issues: z.object({
+      wrongProduct: z.number(),
+      notPlanted: z.number(),
+      needsReview: z.number(),
+      total: z.number(),
+    }),
+    accuracy: z.number(),
+    reviewed: z.number(),
+  }),
+  byDay: z.array(
+    z.object({
+      date: z.string(),
+      venues: z.number(),
+      dishes: z.number(),
+      total: z.number(),
+    })
+  ),
+  topChains: z.array(z.object({ chain: z.string(), count: z.number() })),
+  insights: z.array(z.string()),
+});
+
+const strategySummarySchema = z.object({
+  id: z.string(),
+  query_template: z.string(),
+  platform: z.string(),
+  country: z.string(),
+  success_rate: z.number(),
+  total_uses: z.number(),
+});
+
+export const strategyStatsResponseSchema = z.object({
+  success: z.boolean(),
+  stats: z.object({
+    total_strategies: z.number(),
+    active_strategies: z.number(),
+    deprecated_strategies: z.number(),
+    average_success_rate: z.number(),
+    total_uses: z.number(),
+    total_discoveries: z.number(),
+    total_false_positives: z.number(),
+    recently_used_count: z.number(),
+    tiers: z.object({
+      high: z.number(),
+      medium: z.number(),
+      low: z.number(),
+      untested: z.number(),
+    }),
+    by_origin: z.object({
+      seed: z.number(),
+      evolved: z.number(),
+      manual: z.number(),
+      agent: z.number(),
+    }),
+    by_platform: z.record(z.number()),
+    by_country: z.record(z.number()),
+  }),
+  top_strategies: z.array(strategySummarySchema.extend({ successful_discoveries: z.number() })),
+  struggling_strategies: z.array(strategySummarySchema.extend({ false_positives: z.number() })),
+});
+
+// ============================================================================
+// Feedback (/adminFeedbackSubmit, /adminFeedbackProcess, /adminFeedback)
+// ============================================================================
+
+export const humanFeedbackTypeSchema = z.enum(['correct', 'wrong_product', 'not_planted', 'needs_review']);
+
+export const feedbackSubmitBodySchema = z.object({
+  entityType: z.enum(['venue', 'dish']),
+  entityId: z.string(),
+  feedbackType: z.enum(['approve', 'partial', 'reject']),
+  feedback: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  corrections: z
+    .array(
+      z.object({
+        field: z.string(),
+        expected: z.unknown(),
+        actual: z.unknown(),
+      })
+    )
+    .optional(),
+});
+
+export const feedbackProcessQuerySchema = z.object({
+  strategyId: z.string().optional(),
+  limit: z.string().transform(Number).optional().default('100'),
+  dryRun: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional()
+    .default('false'),
+});
+
+export const aiFeedbackListQuerySchema = z.object({
+  venue_id: z.string().optional(),
+  dish_id: z.string().optional(),
+  discovered_venue_id: z.string().optional(),
+  discovered_dish_id: z.string().optional(),
+  limit: z.string().transform(Number).optional().default('50'),
+});
+
+// Stats and training data export
+export const aiFeedbackSinceQuerySchema = z.object({
+  since: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })
+    .optional(),
+});
+
+export const aiFeedbackBodySchema = z
+  .object({
+    dish_id: z.string().optional(),
+    venue_id: z.string().optional(),
+    discovered_venue_id: z.string().optional(),
+    discovered_dish_id: z.string().optional(),
+    ai_prediction: z.object({
+      product_sku: z.string().min(1),
+      confidence: z.number(),
+      factors: z.array(z.string()),
+    }),
+    human_feedback: humanFeedbackTypeSchema,
+    correct_product_sku: z.string().optional(),
+    feedback_notes: z.string().optional(),
+  })
+  .refine((body) => body.dish_id || body.venue_id || body.discovered_venue_id || body.discovered_dish_id, {
+    message: 'At least one reference required: dish_id, venue_id, discovered_venue_id, or discovered_dish_id',
+  })
+  .refine((body) => body.human_feedback !== 'wrong_product' || body.correct_product_sku, {
+    message: 'correct_product_sku required when human_feedback is "wrong_product"',
+    path: ['correct_product_sku'],
+  });
+
+export const feedbackSubmitResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  feedback: z.object({
+    id: z.string(),
+    entityType: z.enum(['venue', 'dish']),
+    entityId: z.string(),
+    feedbackType: z.enum(['approve', 'partial', 'reject']),
+    tags: z.array(z.string()),
+    corrections: z.array(
+      z.object({
+        field: z.string(),
+        expected: z.unknown(),
+        actual: z.unknown(),
+      })
+    ),
+    createdAt: isoDateSchema,
+  }),
+});
+
+export const feedbackProcessResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  dryRun: z.boolean().optional(),
+  processed: z.number(),
+  strategies: z.array(
+    z.object({
+      strategyId: z.string(),
+      oldSuccessRate: z.number(),
+      newSuccessRate: z.number(),
+      approvals: z.number(),
+      rejections: z.number(),
+      partials: z.number(),
+    })
+  ),
+});
+
+// ============================================================================
+// Discovered venues (/adminDiscoveredVenues)
+// ============================================================================
+
+export const discoveredVenuesQuerySchema = z.object({
+  status: reviewVenueStatusSchema.optional().default('discovered'),
+  country: z.string().optional(),
+  platform: z.string().optional(),
+  min_confidence: z.coerce.number().min(0).max(100).optional().default(0),
+  max_confidence: z.coerce.number().min(0).max(100).optional().default(100),
+  limit: z.coerce.number().int().min(1).optional().default(50),
+});
+
+export const discoveredVenueIdsBodySchema = z.object({
+  ids: z.array(z.string().min(1)),
+  reason: z.string().optional(),
+});
+
+export const verifyDiscoveredVenueBodySchema = z.object({
+  updates: z.record(z.unknown()).optional(),
+});
+
+export const rejectDiscoveredVenueBodySchema = z.object({
+  reason: z.string().min(1, 'Rejection reason required'),
+});
+
+// update-and-verify takes the venue fields to change as the body itself
+export const updateDiscoveredVenueBodySchema = z.record(z.unknown());
+
+export const discoveredVenueDishSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  product: z.string(),
+  confidence: z.number(),
+  price: z.string().optional(),
+  price_by_country: z.record(z.string()).optional(),
+  image_url: z.string().optional(),
+  status: z.string(),
+});
+
+// Stored discovered venue (snake_case) with its discovered dishes
+export const discoveredVenueSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    chain_id: z.string().optional(),
+    chain_name: z.string().optional(),
+    is_chain: z.boolean(),
+    address: z.object({
+      street: z.string().optional(),
+      city: z.string(),
+      postal_code: z.string().optional(),
+      country: z.string(),
+    }),
+    coordinates: z.object({ latitude: z.number(), longitude: z.number() }).optional(),
+    delivery_platforms: z.array(
+      z.object({
+        platform: z.string(),
+        url: z.string(),
+        active: z.boolean(),
+      })
+    ),
+    planted_products: z.array(z.string()),
+    confidence_score: z.number(),
+    status: reviewVenueStatusSchema,
+    rejection_reason: z.string().optional(),
+    created_at: isoDateSchema,
+    verified_at: isoDateSchema.optional(),
+    promoted_at: isoDateSchema.optional(),
+    dishes: z.array(discoveredVenueDishSchema),
+  })
+  .passthrough();
+
+export const discoveredVenuesResponseSchema = z.object({
+  venues: z.array(discoveredVenueSchema),
+  total: z.number(),
+});
+
+export const discoveredVenuesStatsResponseSchema = z.object({
+  total_discovered: z.number(),
+  total_verified: z.number(),
+  total_rejected: z.number(),
+  by_country: z.record(z.number()),
+  by_platform: z.record(z.number()),
+  by_confidence: z.object({
+    low: z.number(),
+    medium: z.number(),
+    high: z.number(),
+  }),
+});
+
+// ============================================================================
+// CRUD (/adminVenues, /adminDishes, /adminPromotions, /adminChains,
+// /adminProducts, /adminAssignChain, /adminAutoAssignChains)
+//
+// Create and update bodies are the entity input schemas (createVenueInputSchema
+// etc.); responses are the stored entities.
+// ============================================================================
+
+export const adminListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export const adminDishesQuerySchema = adminListQuerySchema.extend({
+  venue_id: z.string().optional(),
+});
+
+export const assignChainBodySchema = z
+  .object({
+    venueIds: z.array(z.string().min(1)).min(1, 'venueIds array is required'),
+    chainId: z.string().min(1).optional(),
+    newChainName: z.string().trim().min(1).optional(),
+  })
+  .refine((body) => body.chainId || body.newChainName, {
+    message: 'Either chainId or newChainName must be provided',
+  });
+
+export const autoAssignChainsBodySchema = z.object({
+  dryRun: z.boolean().optional().default(false),
+});
+
+export const adminVenuesListResponseSchema = z.object({
+  venues: z.array(apiVenueSchema),
+  total: z.number(),
+});
+
+export const adminDishesListResponseSchema = z.object({
+  dishes: z.array(apiDishSchema),
+  total: z.number(),
+});
+
+export const assignChainResponseSchema = z.object({
+  success: z.boolean(),
+  chainId: z.string(),
+  chainName: z.string(),
+  updatedCount: z.number(),
+  totalRequested: z.number(),
+  errors: z.array(z.object({ venueId: z.string(), error: z.string() })).optional(),
+});
+
+export const chainMatchSchema = z.object({
+  venueId: z.string(),
+  venueName: z.string(),
+  chainName: z.string(),
+  // Empty for chains a dry run would create
+  chainId: z.string(),
+  pattern: z.string(),
+  isNewChain: z.boolean(),
+});
+
+export const autoAssignChainsResponseSchema = z.union([
+  z.object({
+    dryRun: z.literal(true),
+    summary: z.object({
+      totalVenuesWithoutChain: z.number(),
+      venuesMatched: z.number(),
+      existingChainsToUse: z.number(),
+      newChainsToCreate: z.number(),
+    }),
+    matches: z.array(chainMatchSchema),
+    chainsToCreate: z.array(z.object({ chainName: z.string(), venueCount: z.number() })),
+  }),
+  z.object({
+    success: z.boolean(),
+    summary: z.object({
+      totalVenuesWithoutChain: z.number(),
+      venuesMatched: z.number(),
+      venuesUpdated: z.number(),
+      chainsCreated: z.number(),
+      errors: z.number(),
+    }),
+    created: z.array(z.object({ chainId: z.string(), chainName: z.string() })),
+    matched: z.array(chainMatchSchema),
+    errors: z
+      .array(z.object({ venueId: z.string(), venueName: z.string(), error: z.string() }))
+      .optional(),
+  }),
+]);
+
+// ============================================================================
+// Partner callbacks and transformers (/adminPartnerCallbacks,
+// /adminReplayPartnerCallbacks, /adminPartnerTransformers,
+// /adminPartnerTransformerDryRun)
+// ============================================================================
+
+export const callbackDeliveryStatusSchema = z.enum(['pending', 'retrying', 'delivered', 'failed']);
+
+export const partnerCallbacksQuerySchema = z.object({
+  partnerId: z.string().optional(),
+  batchId: z.string().optional(),
+  status: callbackDeliveryStatusSchema.optional(),
+  limit: z.string().transform(Number).optional().default('100'),
+});
+
+export const MAX_CALLBACK_REPLAYS = 50;
+
+export const replayPartnerCallbacksBodySchema = z
+  .object({
+    deliveryIds: z.array(z.string().min(1)).max(MAX_CALLBACK_REPLAYS).optional(),
+    partnerId: z.string().min(1).optional(),
+  })
+  .refine((body) => body.partnerId || (body.deliveryIds && body.deliveryIds.length > 0), {
+    message: 'Either deliveryIds or partnerId is required',
+  });
+
+export const transformerDryRunBodySchema = z
+  .object({
+    transformerId: z.string().min(1).optional(),
+    partnerId: z.string().min(1).optional(),
+    payload: z.unknown(),
+  })
+  .refine((body) => body.transformerId || body.partnerId, {
+    message: 'Either transformerId or partnerId is required',
+  })
+  .refine((body) => body.payload !== undefined, {
+    message: 'payload is required',
+    path: ['payload'],
+  });
+
+export const callbackDeliverySchema = z.object({
+  id: z.string(),
+  partnerId: z.string(),
+  batchId: z.string().optional(),
+  event: z.enum(['batch.status_changed', 'records.reviewed']),
+  url: z.string(),
+  status: callbackDeliveryStatusSchema,
+  attempts: z.array(
+    z.object({
+      attemptedAt: isoDateSchema,
+      statusCode: z.number().optional(),
+      error: z.string().optional(),
+      durationMs: z.number(),
+    })
+  ),
+  nextAttemptAt: isoDateSchema.optional(),
+  deliveredAt: isoDateSchema.optional(),
+  replayedAt: isoDateSchema.optional(),
+  payload: z.record(z.unknown()),
+  createdAt: isoDateSchema,
+});
+
+export const partnerCallbacksResponseSchema = z.object({
+  deliveries: z.array(callbackDeliverySchema),
+  stats: z.object({
+    total: z.number(),
+    byStatus: z.record(callbackDeliveryStatusSchema, z.number()),
+  }),
+});
+
+export const replayPartnerCallbacksResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  summary: z.object({
+    total: z.number(),
+    delivered: z.number(),
+    retrying: z.number(),
+    errors: z.number(),
+  }),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      status: z.union([callbackDeliveryStatusSchema, z.literal('error')]),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+export const partnerTransformersResponseSchema = z.object({
+  transformers: z.array(
+    z.object({
+      id: z.string(),
+      version: z.string(),
+      description: z.string(),
+    })
+  ),
+});
+
+export const transformerDryRunResponseSchema = z.object({
+  transformer: z.object({
+    id: z.string(),
+    version: z.string(),
+    // `<id>@<version>`, as recorded on ingestion batches
+    transformerVersion: z.string(),
+  }),
+  valid: z.boolean(),
+  // Validated planted_standard payload, or the raw transformer output when invalid
+  output: z.unknown(),
+  errors: z.array(
+    z.object({
+      record_index: z.number(),
+      field: z.string(),
+      error: z.string(),
+      value: z.unknown().optional(),
+    })
+  ),
+  warnings: z.array(z.string()),
+  counts: z.object({
+    venues: z.number(),
+    dishes: z.number(),
+    promotions: z.number(),
+    availability: z.number(),
+  }),
+});
+
+// ============================================================================
+// Search (/adminSearchReindex)
+// ============================================================================
+
+export const searchReindexBodySchema = z.object({
+  // (Re)apply the index settings first, e.g. on initial setup
+  configure: z.boolean().optional().default(false),
+});
+
+export const searchReindexResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  indexed: z.object({
+    venues: z.number(),
+    dishes: z.number(),
+  }),
+  configured: z.boolean(),
+  durationMs: z.number(),
+});
+
+export type FailedOperationsQuery = z.infer<typeof failedOperationsQuerySchema>;
+export type FailedOperationsParams = z.input<typeof failedOperationsQuerySchema>;
+export type FailedOperationActionBody = z.input<typeof failedOperationActionBodySchema>;
+export type FailedOperationEntry = z.infer<typeof failedOperationSchema>;
+export type FailedOperationsResponse = z.infer<typeof failedOperationsResponseSchema>;
+export type FailedOperationActionResponse = z.infer<typeof failedOperationActionResponseSchema>;
+
+export type MenuChangesQuery = z.infer<typeof menuChangesQuerySchema>;
+export type MenuChangesParams = z.input<typeof menuChangesQuerySchema>;
+export type MenuChangeEntry = z.infer<typeof menuChangeEntrySchema>;
+export type MenuChangeSummary = z.infer<typeof menuChangeSummarySchema>;
+export type MenuChangesResponse = z.infer<typeof menuChangesResponseSchema>;
+
+export type StagedEntityType = z.infer<typeof stagedEntityTypeSchema>;
+export type StagedItemRef = z.infer<typeof stagedItemRefSchema>;
+export type PartnerSubmissionsQuery = z.infer<typeof partnerSubmissionsQuerySchema>;
+export type PartnerSubmissionsParams = z.input<typeof partnerSubmissionsQuerySchema>;
+export type ReviewPartnerSubmissionsBody = z.input<typeof reviewPartnerSubmissionsBodySchema>;
+export type PromotePartnerSubmissionsBody = z.input<typeof promotePartnerSubmissionsBodySchema>;
+export type PartnerSubmission = z.infer<typeof partnerSubmissionSchema>;
+export type PartnerSubmissionBatch = z.infer<typeof partnerSubmissionBatchSchema>;
+export type PartnerSubmissionsResponse = z.infer<typeof partnerSubmissionsResponseSchema>;
+export type BatchReviewCounts = z.infer<typeof batchReviewCountsSchema>;
+export type PromotionOutcome = z.infer<typeof promotionOutcomeSchema>;
+export type ReviewPartnerSubmissionsResponse = z.infer<typeof reviewPartnerSubmissionsResponseSchema>;
+export type PromotePartnerSubmissionsResponse = z.infer<typeof promotePartnerSubmissionsResponseSchema>;
+
+export type ReviewCountry = z.infer<typeof reviewCountrySchema>;
+export type ReviewVenueStatus = z.infer<typeof reviewVenueStatusSchema>;
+export type ReviewFlagType = z.infer<typeof reviewFlagTypeSchema>;
+export type ReviewFlagPriority = z.infer<typeof reviewFlagPrioritySchema>;
+export type ReviewQueueQuery = z.infer<typeof reviewQueueQuerySchema>;
+export type ReviewQueueParams = z.input<typeof reviewQueueQuerySchema>;
+export type ApproveVenueBody = z.input<typeof approveVenueBodySchema>;
+export type PartialApproveVenueBody = z.input<typeof partialApproveVenueBodySchema>;
+export type RejectVenueBody = z.input<typeof rejectVenueBodySchema>;
+export type BulkApproveBody = z.input<typeof bulkApproveBodySchema>;
+export type BulkRejectBody = z.input<typeof bulkRejectBodySchema>;
+export type FlagVenueBody = z.input<typeof flagVenueBodySchema>;
+export type ClearVenueFlagBody = z.input<typeof clearVenueFlagBodySchema>;
+export type FlaggedVenuesParams = z.input<typeof flaggedVenuesQuerySchema>;
+export type UpdateVenueAddressBody = z.input<typeof updateVenueAddressBodySchema>;
+export type UpdateVenueCountryBody = z.input<typeof updateVenueCountryBodySchema>;
+export type UpdateDishStatusBody = z.input<typeof updateDishStatusBodySchema>;
+export type ReviewDish = z.infer<typeof reviewDishSchema>;
+export type AdminPlatformLink = z.infer<typeof adminPlatformLinkSchema>;
+export type AdminVenueAddress = z.infer<typeof adminVenueAddressSchema>;
+export type ReviewVenue = z.infer<typeof reviewVenueSchema>;
+export type ReviewHierarchyNode = z.infer<typeof reviewHierarchyNodeSchema>;
+export type ReviewQueueStats = z.infer<typeof reviewQueueStatsSchema>;
+export type ReviewQueueResponse = z.infer<typeof reviewQueueResponseSchema>;
+export type ApproveVenueResponse = z.infer<typeof approveVenueResponseSchema>;
+export type PartialApproveVenueResponse = z.infer<typeof partialApproveVenueResponseSchema>;
+export type RejectVenueResponse = z.infer<typeof rejectVenueResponseSchema>;
+export type BulkApproveResponse = z.infer<typeof bulkApproveResponseSchema>;
+export type BulkRejectResponse = z.infer<typeof bulkRejectResponseSchema>;
+export type FlagVenueResponse = z.infer<typeof flagVenueResponseSchema>;
+export type ClearVenueFlagResponse = z.infer<typeof clearVenueFlagResponseSchema>;
+export type FlaggedVenuesResponse = z.infer<typeof flaggedVenuesResponseSchema>;
+export type UpdateVenueAddressResponse = z.infer<typeof updateVenueAddressResponseSchema>;
+export type UpdateVenueCountryResponse = z.infer<typeof updateVenueCountryResponseSchema>;
+export type UpdateDishStatusResponse = z.infer<typeof updateDishStatusResponseSchema>;
+
+export type LiveVenuesQuery = z.infer<typeof liveVenuesQuerySchema>;
+export type LiveVenuesParams = z.input<typeof liveVenuesQuerySchema>;
+export type UpdateLiveVenueStatusBody = z.input<typeof updateLiveVenueStatusBodySchema>;
+export type VenueDishesParams = z.input<typeof venueDishesQuerySchema>;
+export type DeliveryZoneBody = z.input<typeof deliveryZoneBodySchema>;
+export type DeleteDuplicateVenuesBody = z.input<typeof deleteDuplicateVenuesBodySchema>;
+export type MergeVenuesBody = z.input<typeof mergeVenuesBodySchema>;
+export type DeliveryZones = z.infer<typeof deliveryZonesSchema>;
+export type LiveVenue = z.infer<typeof liveVenueSchema>;
+export type LiveVenueHierarchyNode = z.infer<typeof liveVenueHierarchyNodeSchema>;
+export type LiveVenuesStats = z.infer<typeof liveVenuesStatsSchema>;
+export type LiveVenuesResponse = z.infer<typeof liveVenuesResponseSchema>;
+export type UpdateLiveVenueStatusResponse = z.infer<typeof updateLiveVenueStatusResponseSchema>;
+export type VenueDish = z.infer<typeof venueDishSchema>;
+export type VenueDishesResponse = z.infer<typeof venueDishesResponseSchema>;
+export type DeliveryZoneResponse = z.infer<typeof deliveryZoneResponseSchema>;
+export type DuplicateVenue = z.infer<typeof duplicateVenueSchema>;
+export type DuplicateGroup = z.infer<typeof duplicateGroupSchema>;
+export type FindDuplicateVenuesResponse = z.infer<typeof findDuplicateVenuesResponseSchema>;
+export type DeleteDuplicateVenuesResponse = z.infer<typeof deleteDuplicateVenuesResponseSchema>;
+export type MergeVenuesResponse = z.infer<typeof mergeVenuesResponseSchema>;
+
+export type SyncExecuteBody = z.input<typeof syncExecuteBodySchema>;
+export type SyncHistoryParams = z.input<typeof syncHistoryQuerySchema>;
+export type SyncFieldDiff = z.infer<typeof syncFieldDiffSchema>;
+export type SyncDishDiff = z.infer<typeof syncDishDiffSchema>;
+export type SyncVenueAddition = z.infer<typeof syncVenueAdditionSchema>;
+export type SyncDishAddition = z.infer<typeof syncDishAdditionSchema>;
+export type SyncVenueUpdate = z.infer<typeof syncVenueUpdateSchema>;
+export type SyncDishUpdate = z.infer<typeof syncDishUpdateSchema>;
+export type SyncStaleVenue = z.infer<typeof syncStaleVenueSchema>;
+export type SyncPreviewResponse = z.infer<typeof syncPreviewResponseSchema>;
+export type SyncExecuteResponse = z.infer<typeof syncExecuteResponseSchema>;
+export type SyncRunStats = z.infer<typeof syncRunStatsSchema>;
+export type SyncHistoryEntry = z.infer<typeof syncHistoryEntrySchema>;
+export type SyncHistoryResponse = z.infer<typeof syncHistoryResponseSchema>;
+
+export type ScraperRunStatus = z.infer<typeof scraperRunStatusSchema>;
+export type ExtractionMode = z.infer<typeof extractionModeSchema>;
+export type ExtractionTarget = z.infer<typeof extractionTargetSchema>;
+export type StartDiscoveryBody = z.input<typeof startDiscoveryBodySchema>;
+export type StartExtractionBody = z.input<typeof startExtractionBodySchema>;
+export type ScraperRunProgress = z.infer<typeof scraperRunProgressSchema>;
+export type ScraperRunCosts = z.infer<typeof scraperRunCostsSchema>;
+export type AvailableScrapersResponse = z.infer<typeof availableScrapersResponseSchema>;
+export type StartScraperResponse = z.infer<typeof startScraperResponseSchema>;
+export type CancelScraperResponse = z.infer<typeof cancelScraperResponseSchema>;
+export type ScraperStreamInitEvent = z.infer<typeof scraperStreamInitEventSchema>;
+export type ScraperStreamUpdateEvent = z.infer<typeof scraperStreamUpdateEventSchema>;
+export type ScraperStreamDoneEvent = z.infer<typeof scraperStreamDoneEventSchema>;
+
+export type BudgetStatusResponse = z.infer<typeof budgetStatusResponseSchema>;
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type AnalyticsParams = z.input<typeof analyticsQuerySchema>;
+export type AnalyticsKpisResponse = z.infer<typeof analyticsKpisResponseSchema>;
+export type AnalyticsCostsResponse = z.infer<typeof analyticsCostsResponseSchema>;
+export type RejectionReason = z.infer<typeof rejectionReasonSchema>;
+export type AnalyticsRejectionsResponse = z.infer<typeof analyticsRejectionsResponseSchema>;
+export type StrategyStatsResponse = z.infer<typeof strategyStatsResponseSchema>;
+
+export type HumanFeedbackType = z.infer<typeof humanFeedbackTypeSchema>;
+export type FeedbackSubmitBody = z.input<typeof feedbackSubmitBodySchema>;
+export type FeedbackProcessParams = z.input<typeof feedbackProcessQuerySchema>;
+export type AiFeedbackListParams = z.input<typeof aiFeedbackListQuerySchema>;
+export type AiFeedbackBody = z.input<typeof aiFeedbackBodySchema>;
+export type FeedbackSubmitResponse = z.infer<typeof feedbackSubmitResponseSchema>;
+export type FeedbackProcessResponse = z.infer<typeof feedbackProcessResponseSchema>;
+
+export type DiscoveredVenuesQuery = z.infer<typeof discoveredVenuesQuerySchema>;
+export type DiscoveredVenuesParams = z.input<typeof discoveredVenuesQuerySchema>;
+export type DiscoveredVenueIdsBody = z.input<typeof discoveredVenueIdsBodySchema>;
+export type VerifyDiscoveredVenueBody = z.input<typeof verifyDiscoveredVenueBodySchema>;
+export type RejectDiscoveredVenueBody = z.input<typeof rejectDiscoveredVenueBodySchema>;
+export type UpdateDiscoveredVenueBody = z.input<typeof updateDiscoveredVenueBodySchema>;
+export type DiscoveredVenueDish = z.infer<typeof discoveredVenueDishSchema>;
+export type DiscoveredVenueEntry = z.infer<typeof discoveredVenueSchema>;
+export type DiscoveredVenuesResponse = z.infer<typeof discoveredVenuesResponseSchema>;
+export type DiscoveredVenuesStatsResponse = z.infer<typeof discoveredVenuesStatsResponseSchema>;
+
+export type AdminListParams = z.input<typeof adminListQuerySchema>;
+export type AdminDishesParams = z.input<typeof adminDishesQuerySchema>;
+export type AssignChainBody = z.input<typeof assignChainBodySchema>;
+export type AutoAssignChainsBody = z.input<typeof autoAssignChainsBodySchema>;
+export type AdminVenuesListResponse = z.infer<typeof adminVenuesListResponseSchema>;
+export type AdminDishesListResponse = z.infer<typeof adminDishesListResponseSchema>;
+export type AssignChainResponse = z.infer<typeof assignChainResponseSchema>;
+export type ChainMatch = z.infer<typeof chainMatchSchema>;
+export type AutoAssignChainsResponse = z.infer<typeof autoAssignChainsResponseSchema>;
+
+export type PartnerCallbacksParams = z.input<typeof partnerCallbacksQuerySchema>;
+export type ReplayPartnerCallbacksBody = z.input<typeof replayPartnerCallbacksBodySchema>;
+export type TransformerDryRunBody = z.input<typeof transformerDryRunBodySchema>;
+export type CallbackDeliveryEntry = z.infer<typeof callbackDeliverySchema>;
+export type PartnerCallbacksResponse = z.infer<typeof partnerCallbacksResponseSchema>;
+export type ReplayPartnerCallbacksResponse = z.infer<typeof replayPartnerCallbacksResponseSchema>;
+export type PartnerTransformersResponse = z.infer<typeof partnerTransformersResponseSchema>;
+export type TransformerDryRunResponse = z.infer<typeof transformerDryRunResponseSchema>;
+
+export type SearchReindexBody = z.input<typeof searchReindexBodySchema>;
+export type SearchReindexResponse = z.infer<typeof searchReindexResponseSchema>;
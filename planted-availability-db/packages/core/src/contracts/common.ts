@@ -0,0 +1,110 @@
+/**
+ * Shared API contract schemas
+ *
+ * Entities as they appear in API responses: JSON, so dates are ISO strings
+ * rather than the Date objects of the stored entities.
+ */
+
+import { z } from 'zod';
+import {
+  venueSchema,
+  venueTypeSchema,
+  deliveryPartnerSchema,
+  deliveryPlatformLinkSchema,
+  geoPointSchema,
+} from '../schemas/venue.js';
+import { dishSchema, dishAvailabilitySchema } from '../schemas/dish.js';
+import { promotionBaseSchema } from '../schemas/promotion.js';
+import { decodeCursor } from '../utils/cursor.js';
+
+// Date serialized by JSON.stringify
+export const isoDateSchema = z.string().datetime({ offset: true });
+
+/**
+ * Opaque page cursor (`next_cursor` of the previous page), decoded to the
+ * sort key and ID of the last item on that page
+ */
+function pageCursorSchema<T extends z.ZodTypeAny>(afterSchema: T) {
+  const decodedSchema = z.object({ after: afterSchema, id: z.string() });
+
+  return z
+    .string()
+    .max(512)
+    .transform((token, ctx): z.infer<typeof decodedSchema> => {
+      const decoded = decodedSchema.safeParse(decodeCursor(token));
+      if (!decoded.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return decoded.data;
+    });
+}
+
+// Lists in creation order, newest first
+export const createdAtCursorSchema = pageCursorSchema(isoDateSchema);
+
+// Lists in valid_until order, ending soonest first
+export const validUntilCursorSchema = pageCursorSchema(isoDateSchema);
+
+// Lists in distance order, closest first
+export const distanceCursorSchema = pageCursorSchema(z.number().nonnegative());
+
+/**
+ * Error body of non-2xx responses
+ *
+ * Public functions list invalid query parameters as { field, message };
+ * admin functions return the Zod issues.
+ */
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.unknown().optional(),
+});
+
+export const openStatusSchema = z.enum(['open', 'closes_soon', 'closed']);
+
+// Venues synced from discovery name the platform ('uber-eats') instead of the partner
+export const apiDeliveryPlatformLinkSchema = deliveryPlatformLinkSchema.extend({
+  partner: deliveryPartnerSchema.optional(),
+  platform: z.string().optional(),
+  active: z.boolean().optional(),
+  last_verified: isoDateSchema.optional(),
+});
+
+export const apiVenueSchema = venueSchema.extend({
+  delivery_platforms: z.array(apiDeliveryPlatformLinkSchema).optional(),
+  last_verified: isoDateSchema,
+  created_at: isoDateSchema,
+  updated_at: isoDateSchema,
+});
+
+export const apiDishSchema = dishSchema.extend({
+  availability: dishAvailabilitySchema.extend({
+    start_date: isoDateSchema.optional(),
+    end_date: isoDateSchema.optional(),
+  }),
+  last_verified: isoDateSchema,
+  created_at: isoDateSchema,
+  updated_at: isoDateSchema,
+});
+
+export const apiPromotionSchema = promotionBaseSchema.extend({
+  valid_from: isoDateSchema,
+  valid_until: isoDateSchema,
+  created_at: isoDateSchema,
+});
+
+// Venue summary embedded in dish results
+export const venueSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  location: geoPointSchema,
+});
+
+export type ApiError = z.infer<typeof apiErrorSchema>;
+export type OpenStatus = z.infer<typeof openStatusSchema>;
+export type ApiDeliveryPlatformLink = z.infer<typeof apiDeliveryPlatformLinkSchema>;
+export type ApiVenue = z.infer<typeof apiVenueSchema>;
+export type ApiDish = z.infer<typeof apiDishSchema>;
+export type ApiPromotion = z.infer<typeof apiPromotionSchema>;
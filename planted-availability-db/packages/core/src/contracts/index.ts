@@ -0,0 +1,4 @@
+// API contract: request and response schemas shared by the API and its clients
+export * from './common.js';
+export * from './public.js';
+export * from './admin.js';
@@ -0,0 +1,748 @@
+/**
+ * Public API contract
+ *
+ * Query and response schemas of the public functions (/api/v1/*). Query
+ * schemas take the raw query string values and transform them; response
+ * schemas describe the JSON body of a 200 response.
+ */
+
+import { z } from 'zod';
+import {
+  venueTypeSchema,
+  venueStatusSchema,
+  deliveryPartnerSchema,
+  geoPointSchema,
+  addressSchema,
+  openingHoursSchema,
+} from '../schemas/venue.js';
+import { priceSchema, deliveryPartnerInfoSchema } from '../schemas/dish.js';
+import { promoTypeSchema, discountSchema } from '../schemas/promotion.js';
+import { productSchema, productCategorySchema } from '../schemas/product.js';
+import {
+  isoDateSchema,
+  openStatusSchema,
+  createdAtCursorSchema,
+  distanceCursorSchema,
+  validUntilCursorSchema,
+  apiVenueSchema,
+  apiDishSchema,
+  apiPromotionSchema,
+  venueSummarySchema,
+} from './common.js';
+
+// ============================================================================
+// Query parameters
+// ============================================================================
+
+// Common validation patterns
+const coordinateSchema = z.object({
+  lat: z
+    .string()
+    .transform((v) => parseFloat(v))
+    .refine((v) => !isNaN(v) && v >= -90 && v <= 90, 'Latitude must be between -90 and 90'),
+  lng: z
+    .string()
+    .transform((v) => parseFloat(v))
+    .refine((v) => !isNaN(v) && v >= -180 && v <= 180, 'Longitude must be between -180 and 180'),
+});
+
+const paginationSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((v) => (v ? Math.min(parseInt(v, 10), 100) : 20))
+    .refine((v) => !isNaN(v) && v > 0, 'Limit must be a positive number'),
+  offset: z
+    .string()
+    .optional()
+    .transform((v) => (v ? parseInt(v, 10) : 0))
+    .refine((v) => !isNaN(v) && v >= 0, 'Offset must be a non-negative number'),
+});
+
+const countryCodeSchema = z
+  .string()
+  .length(2, 'Country code must be 2 characters (ISO 3166-1 alpha-2)')
+  .toUpperCase()
+  .optional();
+
+// Digits for most markets, letters too for UK/NL ("SW1A 1AA", "1012 AB")
+const postalCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/, 'Invalid postal code format');
+
+// Catalog SKUs ("PLANTED-KEBAB-ORIGINAL-200G") and the product keys dishes
+// are tagged with ("planted.kebab")
+const productSkuSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9.-]{0,99}$/, 'Invalid product SKU format');
+
+/**
+ * GET /api/v1/venues - List venues
+ */
+export const venuesListQuerySchema = z.object({
+  type: venueTypeSchema.optional(),
+  country: countryCodeSchema,
+  chain_id: z.string().optional(),
+  status: venueStatusSchema.optional(),
+  cursor: createdAtCursorSchema.optional(),
+  // Deprecated: Firestore reads every skipped venue, use cursor. Ignored when cursor is set.
+  ...paginationSchema.shape,
+});
+
+/**
+ * GET /api/v1/venues/:id - Venue detail
+ */
+export const venueIdParamSchema = z.object({
+  id: z.string().min(1, 'Venue ID is required'),
+});
+
+/**
+ * GET /api/v1/nearby - Nearby venues and dishes
+ */
+export const nearbyQuerySchema = z
+  .object({
+    ...coordinateSchema.shape,
+    radius_km: z
+      .string()
+      .optional()
+      .transform((v) => (v ? Math.min(parseFloat(v), 50) : 10))
+      .refine((v) => !isNaN(v) && v > 0, 'Radius must be a positive number'),
+    type: z.enum(['retail', 'restaurant', 'delivery_kitchen', 'all']).optional().default('all'),
+    open_now: z
+      .string()
+      .optional()
+      .transform((v) => v === 'true'),
+    product_sku: z.string().optional(),
+    dedupe_chains: z
+      .string()
+      .optional()
+      .transform((v) => v !== 'false'), // Default true - only show closest venue per chain
+    // Reduced payload for the locator ('true' or '1')
+    slim: z.string().optional(),
+    cursor: distanceCursorSchema.optional(),
+    limit: paginationSchema.shape.limit,
+  })
+  .refine((data) => data.lat !== undefined && data.lng !== undefined, {
+    message: 'lat and lng are required',
+    path: ['lat', 'lng'],
+  });
+
+/**
+ * GET /api/v1/dishes - Search dishes
+ */
+export const dishesQuerySchema = z.object({
+  product_sku: z.string().optional(),
+  lat: z
+    .string()
+    .optional()
+    .transform((v) => (v ? parseFloat(v) : undefined)),
+  lng: z
+    .string()
+    .optional()
+    .transform((v) => (v ? parseFloat(v) : undefined)),
+  radius_km: z
+    .string()
+    .optional()
+    .transform((v) => (v ? Math.min(parseFloat(v), 100) : 50)),
+  tags: z
+    .string()
+    .optional()
+    .transform((v) => v?.split(',').filter(Boolean)),
+  cuisine: z.string().optional(),
+  min_price: z
+    .string()
+    .optional()
+    .transform((v) => (v ? parseFloat(v) : undefined)),
+  max_price: z
+    .string()
+    .optional()
+    .transform((v) => (v ? parseFloat(v) : undefined)),
+  cursor: createdAtCursorSchema.optional(),
+  limit: paginationSchema.shape.limit,
+});
+
+/**
+ * GET /api/v1/dishes/:id - Dish detail
+ */
+export const dishIdParamSchema = z.object({
+  id: z.string().min(1, 'Dish ID is required'),
+});
+
+/**
+ * GET /api/v1/delivery/check - Delivery availability
+ */
+export const deliveryCheckQuerySchema = z
+  .object({
+    postal_code: postalCodeSchema.optional(),
+    country: countryCodeSchema,
+    address: z.string().max(500, 'Address too long').optional(),
+    // Checked against polygon delivery zones
+    lat: coordinateSchema.shape.lat.optional(),
+    lng: coordinateSchema.shape.lng.optional(),
+    limit: z
+      .string()
+      .optional()
+      .transform((v) => (v ? Math.min(parseInt(v, 10), 20) : 10)),
+  })
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: 'lat and lng must be given together',
+    path: ['lat', 'lng'],
+  })
+  .refine((data) => data.postal_code || data.address || data.lat !== undefined, {
+    message: 'Either postal_code, address or lat/lng is required',
+    path: ['postal_code'],
+  });
+
+/**
+ * GET /api/v1/geocode - Postal code to coordinates
+ */
+export const geocodeQuerySchema = z.object({
+  postal_code: postalCodeSchema,
+  country: z
+    .string()
+    .length(2, 'Country code must be 2 characters (ISO 3166-1 alpha-2)')
+    .toUpperCase(),
+});
+
+/**
+ * GET /api/v1/search - Full-text search over venues and dishes
+ */
+export const searchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1, 'q is required').max(200, 'Query too long'),
+    type: z.enum(['venues', 'dishes', 'all']).optional().default('all'),
+    lat: coordinateSchema.shape.lat.optional(),
+    lng: coordinateSchema.shape.lng.optional(),
+    radius_km: z
+      .string()
+      .optional()
+      .transform((v) => (v ? Math.min(parseFloat(v), 50) : 10))
+      .refine((v) => !isNaN(v) && v > 0, 'Radius must be a positive number'),
+    country: countryCodeSchema,
+    venue_type: venueTypeSchema.optional(),
+    product_sku: productSkuSchema.optional(),
+    limit: paginationSchema.shape.limit,
+  })
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: 'lat and lng must be given together',
+    path: ['lat', 'lng'],
+  });
+
+// "south,west,north,east" in degrees
+const boundingBoxSchema = z
+  .string()
+  .transform((v) => v.split(',').map((part) => parseFloat(part)))
+  .refine((parts) => parts.length === 4 && parts.every((n) => !isNaN(n)), 'bbox must be "south,west,north,east"')
+  .transform(([south, west, north, east]) => ({ south, west, north, east }))
+  .refine(
+    (b) => b.south >= -90 && b.north <= 90 && b.south < b.north && b.west >= -180 && b.east <= 180 && b.west < b.east,
+    'bbox is out of range or inverted'
+  );
+
+/**
+ * GET /api/v1/availability/stream - Realtime availability (SSE)
+ */
+export const availabilityStreamQuerySchema = z
+  .object({
+    venue_id: z.string().min(1).optional(),
+    bbox: boundingBoxSchema.optional(),
+    type: venueTypeSchema.optional(),
+    product_sku: z.string().optional(),
+  })
+  .refine((data) => (data.venue_id === undefined) !== (data.bbox === undefined), {
+    message: 'Either venue_id or bbox is required (not both)',
+    path: ['venue_id'],
+  });
+
+/**
+ * GET /api/v1/promotions - Promotions valid in a time window
+ *
+ * from/to default to now, i.e. promotions running right now.
+ */
+export const promotionsQuerySchema = z
+  .object({
+    chain_id: z.string().optional(),
+    product_sku: z.string().optional(),
+    country: countryCodeSchema,
+    // Valid at some point between from and to
+    from: isoDateSchema.transform((v) => new Date(v)).optional(),
+    to: isoDateSchema.transform((v) => new Date(v)).optional(),
+    cursor: validUntilCursorSchema.optional(),
+    limit: z
+      .string()
+      .optional()
+      .transform((v) => (v ? Math.min(parseInt(v, 10), 100) : 50))
+      .refine((v) => !isNaN(v) && v > 0, 'Limit must be a positive number'),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+/**
+ * GET /api/v1/products - Product catalog
+ */
+export const productsQuerySchema = z.object({
+  category: productCategorySchema.optional(),
+  // Products sold in this market
+  market: countryCodeSchema,
+  retail_only: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : v === 'true')),
+  include_inactive: z
+    .string()
+    .optional()
+    .transform((v) => v === 'true'),
+});
+
+/**
+ * GET /api/v1/products/:sku - Product detail
+ * GET /api/v1/products/:sku/availability - Stock at nearby retail venues
+ */
+export const productSkuParamSchema = z.object({
+  sku: z.string().min(1, 'Product SKU is required'),
+});
+
+export const productAvailabilityQuerySchema = z.object({
+  ...coordinateSchema.shape,
+  radius_km: z
+    .string()
+    .optional()
+    .transform((v) => (v ? Math.min(parseFloat(v), 50) : 10))
+    .refine((v) => !isNaN(v) && v > 0, 'Radius must be a positive number'),
+  in_stock: z
+    .string()
+    .optional()
+    .transform((v) => v === 'true'),
+  cursor: distanceCursorSchema.optional(),
+  limit: paginationSchema.shape.limit,
+});
+
+export type VenuesListQuery = z.infer<typeof venuesListQuerySchema>;
+export type VenueIdParam = z.infer<typeof venueIdParamSchema>;
+export type NearbyQuery = z.infer<typeof nearbyQuerySchema>;
+export type DishesQuery = z.infer<typeof dishesQuerySchema>;
+export type DishIdParam = z.infer<typeof dishIdParamSchema>;
+export type DeliveryCheckQuery = z.infer<typeof deliveryCheckQuerySchema>;
+export type GeocodeQuery = z.infer<typeof geocodeQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type AvailabilityStreamQuery = z.infer<typeof availabilityStreamQuerySchema>;
+export type PromotionsQuery = z.infer<typeof promotionsQuerySchema>;
+export type ProductsQuery = z.infer<typeof productsQuerySchema>;
+export type ProductSkuParam = z.infer<typeof productSkuParamSchema>;
+export type ProductAvailabilityQuery = z.infer<typeof productAvailabilityQuerySchema>;
+
+// Query string parameters as sent by clients
+export type VenuesListParams = z.input<typeof venuesListQuerySchema>;
+export type NearbyParams = z.input<typeof nearbyQuerySchema>;
+export type DishesParams = z.input<typeof dishesQuerySchema>;
+export type DeliveryCheckParams = z.input<typeof deliveryCheckQuerySchema>;
+export type GeocodeParams = z.input<typeof geocodeQuerySchema>;
+export type SearchParams = z.input<typeof searchQuerySchema>;
+export type AvailabilityStreamParams = z.input<typeof availabilityStreamQuerySchema>;
+export type PromotionsParams = z.input<typeof promotionsQuerySchema>;
+export type ProductsParams = z.input<typeof productsQuerySchema>;
+export type ProductAvailabilityParams = z.input<typeof productAvailabilityQuerySchema>;
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * GET /api/v1/venues
+ */
+export const venuesListResponseSchema = z.object({
+  venues: z.array(apiVenueSchema),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+  has_more: z.boolean(),
+  // Pass as cursor to get the next page, null on the last page
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * GET /api/v1/venues/:id
+ */
+export const venueDetailResponseSchema = z.object({
+  venue: apiVenueSchema,
+  dishes: z.array(apiDishSchema),
+  // Venue and chain-wide promotions
+  promotions: z.array(apiPromotionSchema),
+  is_open: z.boolean(),
+  next_open: isoDateSchema.nullable(),
+  today_hours: z.string(),
+  // Unique partners of the venue's dishes
+  delivery_partners: z.array(
+    z.object({
+      partner: deliveryPartnerSchema,
+      url: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * GET /api/v1/nearby
+ */
+export const nearbyResultSchema = z.object({
+  venue: apiVenueSchema.extend({ distance_km: z.number() }),
+  dishes: z.array(apiDishSchema),
+  is_open: z.boolean(),
+  // 'closes_soon' within 30 minutes of closing
+  open_status: openStatusSchema,
+  closes_at: isoDateSchema.nullable(),
+  // Same as next_open
+  opens_at: isoDateSchema.nullable(),
+  next_open: isoDateSchema.nullable(),
+  today_hours: z.string(),
+});
+
+export const nearbyResponseSchema = z.object({
+  results: z.array(nearbyResultSchema),
+  total: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * GET /api/v1/nearby?slim=true - only the fields the locator displays
+ */
+export const slimVenueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  chain_id: z.string().optional(),
+  location: geoPointSchema,
+  address: z.object({ city: z.string(), country: z.string() }),
+  delivery_platforms: z
+    .array(z.object({ platform: z.string(), url: z.string(), active: z.boolean().optional() }))
+    .optional(),
+  distance_km: z.number(),
+});
+
+export const slimDishSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  price: priceSchema,
+  image_url: z.string().optional(),
+  dietary_tags: z.array(z.string()).optional(),
+  planted_products: z.array(z.string()),
+  cuisine_type: z.string().optional(),
+});
+
+export const slimNearbyResultSchema = z.object({
+  venue: slimVenueSchema,
+  dishes: z.array(slimDishSchema),
+  is_open: z.boolean(),
+  open_status: openStatusSchema,
+  opens_at: isoDateSchema.nullable(),
+  today_hours: z.string(),
+});
+
+export const slimNearbyResponseSchema = z.object({
+  results: z.array(slimNearbyResultSchema),
+  total: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * GET /api/v1/dishes
+ */
+export const dishResultSchema = z.object({
+  dish: apiDishSchema,
+  venue: venueSummarySchema.extend({
+    address: z.object({ city: z.string(), country: z.string() }),
+  }),
+  // Only when lat/lng were given
+  distance_km: z.number().optional(),
+  delivery_available: z.boolean(),
+});
+
+export const dishesResponseSchema = z.object({
+  dishes: z.array(dishResultSchema),
+  total: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * GET /api/v1/dishes/:id
+ */
+export const dishDetailResponseSchema = z.object({
+  dish: apiDishSchema,
+  // null when the dish's venue no longer exists
+  venue: venueSummarySchema
+    .extend({
+      address: addressSchema,
+      opening_hours: openingHoursSchema,
+    })
+    .nullable(),
+});
+
+/**
+ * GET /api/v1/geocode
+ */
+export const postalCodeLocationSchema = z.object({
+  postal_code: z.string(),
+  country: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  place_name: z.string().nullable(),
+  // Canton, state or UK nation code where public holidays differ by region
+  region: z.string().nullable(),
+  // 'exact' for the postal code itself, 'approximate' for an area centroid
+  accuracy: z.enum(['exact', 'approximate']),
+  // 'dataset' or the fallback provider's name
+  source: z.string(),
+});
+
+export const geocodeResponseSchema = postalCodeLocationSchema;
+
+/**
+ * GET /api/v1/delivery/check
+ */
+export const deliveryOptionSchema = z.object({
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    type: venueTypeSchema,
+    address: addressSchema,
+  }),
+  dishes: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      price: priceSchema,
+      image_url: z.string().optional(),
+      delivery_partners: z.array(deliveryPartnerInfoSchema).optional(),
+    })
+  ),
+  partners: z.array(z.object({ partner: deliveryPartnerSchema, url: z.string().optional() })),
+});
+
+export const deliveryCheckResponseSchema = z.object({
+  available: z.boolean(),
+  options: z.array(deliveryOptionSchema),
+  // Where the postal code is, when it could be geocoded
+  location: postalCodeLocationSchema.nullable(),
+  // Point checked against polygon delivery zones, and where it came from
+  point: z
+    .object({
+      lat: z.number(),
+      lng: z.number(),
+      source: z.enum(['coordinates', 'postal_code', 'address']),
+    })
+    .nullable(),
+  message: z.string().optional(),
+});
+
+/**
+ * GET /api/v1/geolocate
+ */
+export const geolocateResponseSchema = z.object({
+  city: z.string().nullable(),
+  region: z.string().nullable(),
+  country: z.string(),
+  countryCode: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  timezone: z.string().nullable(),
+  accuracy_radius_km: z.number(),
+});
+
+/**
+ * GET /api/v1/search
+ */
+export const venueSearchHitSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  chain_name: z.string().nullable(),
+  address: z.object({
+    street: z.string(),
+    city: z.string(),
+    postal_code: z.string(),
+    country: z.string(),
+  }),
+  location: geoPointSchema,
+  distance_km: z.number().optional(),
+});
+
+export const dishSearchHitSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  venue: z.object({ id: z.string(), name: z.string(), city: z.string(), country: z.string() }),
+  planted_products: z.array(z.string()),
+  dietary_tags: z.array(z.string()),
+  cuisine_type: z.string().nullable(),
+  price: z.object({ amount: z.number(), currency: z.string() }),
+  location: geoPointSchema,
+  distance_km: z.number().optional(),
+});
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  // Text matched against the index, after removing the place
+  text: z.string(),
+  // Geo filter applied, or null for a text-only search
+  location: z
+    .object({
+      lat: z.number(),
+      lng: z.number(),
+      radius_km: z.number(),
+      place_name: z.string().nullable(),
+      source: z.enum(['coordinates', 'postal_code', 'address']),
+    })
+    .nullable(),
+  venues: z.array(venueSearchHitSchema),
+  dishes: z.array(dishSearchHitSchema),
+  total: z.object({ venues: z.number(), dishes: z.number() }),
+});
+
+/**
+ * GET /api/v1/promotions
+ */
+export const promotionResultSchema = apiPromotionSchema.extend({
+  scope: z.enum(['venue', 'chain']),
+});
+
+export const promotionsResponseSchema = z.object({
+  promotions: z.array(promotionResultSchema),
+  total: z.number(),
+  has_more: z.boolean(),
+  // Pass as cursor to get the next page, null on the last page
+  next_cursor: z.string().nullable(),
+  // Window the promotions are valid in
+  from: isoDateSchema,
+  to: isoDateSchema,
+});
+
+/**
+ * GET /api/v1/products
+ */
+export const productsResponseSchema = z.object({
+  // By category, then SKU
+  products: z.array(productSchema),
+  total: z.number(),
+});
+
+/**
+ * GET /api/v1/products/:sku
+ */
+export const productDetailResponseSchema = productSchema;
+
+/**
+ * GET /api/v1/products/:sku/availability
+ */
+export const productAvailabilityResultSchema = z.object({
+  venue: venueSummarySchema.extend({
+    chain_id: z.string().optional(),
+    address: addressSchema,
+    distance_km: z.number(),
+  }),
+  in_stock: z.boolean(),
+  price: z.object({ regular: z.number(), currency: z.string() }).nullable(),
+  // Promotional price while a promotion runs
+  promotion: z.object({ id: z.string(), price: z.number(), valid_until: isoDateSchema }).nullable(),
+  shelf_location: z.string().optional(),
+  last_verified: isoDateSchema,
+});
+
+export const productAvailabilityResponseSchema = z.object({
+  product_sku: z.string(),
+  // Closest first; venues without a stock record for the product are left out
+  results: z.array(productAvailabilityResultSchema),
+  total: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * GET /api/v1/availability/stream - event payloads
+ */
+export const venueAvailabilityEventSchema = z.object({
+  venue_id: z.string(),
+  is_open: z.boolean(),
+  open_status: openStatusSchema,
+  closes_at: isoDateSchema.nullable(),
+  next_open: isoDateSchema.nullable(),
+  today_hours: z.string(),
+  has_planted_dishes: z.boolean(),
+  dish_count: z.number(),
+  active_promotions: z.number(),
+  last_updated: isoDateSchema,
+});
+
+export const venueLiveStatusEventSchema = z.object({
+  venue_id: z.string(),
+  name: z.string(),
+  type: venueTypeSchema,
+  location: geoPointSchema,
+  is_open: z.boolean(),
+  open_status: openStatusSchema,
+  closes_at: isoDateSchema.nullable(),
+  opens_at: isoDateSchema.nullable(),
+});
+
+export const venueChangesEventSchema = z.object({
+  updated: z.array(venueLiveStatusEventSchema),
+  // Venues that left the box
+  removed: z.array(z.string()),
+});
+
+export const stockStatusEventSchema = z.object({
+  product_sku: z.string(),
+  venue_id: z.string(),
+  in_stock: z.boolean(),
+  price: z.number().optional(),
+  promotion_price: z.number().optional(),
+  last_checked: isoDateSchema,
+});
+
+export const promotionSummaryEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  promo_type: promoTypeSchema,
+  discount: discountSchema.nullable(),
+  product_skus: z.array(z.string()),
+  image_url: z.string().nullable(),
+  valid_from: isoDateSchema,
+  valid_until: isoDateSchema,
+  scope: z.enum(['venue', 'chain']),
+});
+
+export type VenuesListResponse = z.infer<typeof venuesListResponseSchema>;
+export type VenueDetailResponse = z.infer<typeof venueDetailResponseSchema>;
+export type NearbyResult = z.infer<typeof nearbyResultSchema>;
+export type NearbyResponse = z.infer<typeof nearbyResponseSchema>;
+export type SlimVenue = z.infer<typeof slimVenueSchema>;
+export type SlimDish = z.infer<typeof slimDishSchema>;
+export type SlimNearbyResult = z.infer<typeof slimNearbyResultSchema>;
+export type SlimNearbyResponse = z.infer<typeof slimNearbyResponseSchema>;
+export type DishResult = z.infer<typeof dishResultSchema>;
+export type DishesResponse = z.infer<typeof dishesResponseSchema>;
+export type DishDetailResponse = z.infer<typeof dishDetailResponseSchema>;
+export type PostalCodeLocationResponse = z.infer<typeof postalCodeLocationSchema>;
+export type GeocodeResponse = z.infer<typeof geocodeResponseSchema>;
+export type DeliveryOption = z.infer<typeof deliveryOptionSchema>;
+export type DeliveryCheckResponse = z.infer<typeof deliveryCheckResponseSchema>;
+export type GeolocateResponse = z.infer<typeof geolocateResponseSchema>;
+export type VenueSearchHit = z.infer<typeof venueSearchHitSchema>;
+export type DishSearchHit = z.infer<typeof dishSearchHitSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type PromotionResult = z.infer<typeof promotionResultSchema>;
+export type PromotionsResponse = z.infer<typeof promotionsResponseSchema>;
+export type ProductsResponse = z.infer<typeof productsResponseSchema>;
+export type ProductDetailResponse = z.infer<typeof productDetailResponseSchema>;
+export type ProductAvailabilityResult = z.infer<typeof productAvailabilityResultSchema>;
+export type ProductAvailabilityResponse = z.infer<typeof productAvailabilityResponseSchema>;
+export type VenueAvailabilityEvent = z.infer<typeof venueAvailabilityEventSchema>;
+export type VenueLiveStatusEvent = z.infer<typeof venueLiveStatusEventSchema>;
+export type VenueChangesEvent = z.infer<typeof venueChangesEventSchema>;
+export type StockStatusEvent = z.infer<typeof stockStatusEventSchema>;
+export type PromotionSummaryEvent = z.infer<typeof promotionSummaryEventSchema>;
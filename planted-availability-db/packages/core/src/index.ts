@@ -1,5 +1,6 @@
 // Main entry point for @pad/core package
 export * from './types/index.js';
 export * from './schemas/index.js';
+export * from './contracts/index.js';
 export * from './utils/index.js';
 export * from './constants/index.js';
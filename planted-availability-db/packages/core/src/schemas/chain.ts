@@ -17,6 +17,7 @@ export const chainSchema = z.object({
   markets: z.array(z.string().length(2)).min(1), // ISO country codes
   partnership_level: partnershipLevelSchema.optional(),
   contact: chainContactSchema.optional(),
+  closes_on_holidays: z.boolean().optional(),
 });
 
 export const createChainInputSchema = chainSchema.omit({ id: true });
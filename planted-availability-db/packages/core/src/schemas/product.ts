@@ -28,6 +28,7 @@ export const productSchema = z.object({
   markets: z.array(z.string().length(2)).min(1), // ISO country codes
   retail_only: z.boolean(),
   active: z.boolean(),
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug must be lowercase alphanumeric with hyphens').optional(),
 });
 
 export const createProductInputSchema = productSchema.extend({
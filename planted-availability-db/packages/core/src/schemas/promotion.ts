@@ -25,6 +25,8 @@ export const promotionBaseSchema = z.object({
   terms: z.string().max(2000).optional(),
   source: dataSourceSchema,
   active: z.boolean(), // Computed: true if valid_from <= now <= valid_until
+  // Computed: the venue's country, or the chain's markets
+  countries: z.array(z.string()).optional(),
   created_at: z.coerce.date(),
 });
 
@@ -57,6 +59,7 @@ export const createPromotionInputSchema = promotionBaseSchema.omit({
   id: true,
   created_at: true,
   active: true, // Computed server-side
+  countries: true, // Computed server-side
 }).refine(
   (data) => data.valid_until > data.valid_from,
   { message: 'valid_until must be after valid_from' }
@@ -66,6 +69,7 @@ export const updatePromotionInputSchema = promotionBaseSchema.omit({
   id: true,
   created_at: true,
   active: true, // Computed server-side
+  countries: true, // Computed server-side
 }).partial();
 
 export const createRetailAvailabilityInputSchema = retailAvailabilitySchema.omit({ id: true });
@@ -26,6 +26,7 @@ export const addressSchema = z.object({
   city: z.string().min(1).max(100),
   postal_code: z.string().min(1).max(20),
   country: z.string().regex(countryCodeRegex, 'Country must be ISO 3166-1 alpha-2 code'),
+  region: z.string().min(2).max(3).toUpperCase().optional(),
 });
 
 const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -73,6 +74,7 @@ export const venueSchema = z.object({
   opening_hours: openingHoursSchema,
   delivery_zones: z.union([z.array(z.string()), z.any()]).optional(), // GeoJSON geometry
   contact: contactSchema,
+  closes_on_holidays: z.boolean().optional(), // Overrides the chain setting
   // Delivery platform links (URLs stored once per venue)
   delivery_platforms: z.array(deliveryPlatformLinkSchema).optional(),
   source: dataSourceSchema,
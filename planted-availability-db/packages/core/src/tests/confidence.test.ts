@@ -0,0 +1,200 @@
+/**
+ * Staged Entity Confidence Scoring Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  scoreStagedVenue,
+  scoreStagedDish,
+  scoreStagedPromotion,
+  scoreStagedAvailability,
+} from '../utils/confidence.js';
+import type { StagedVenue, StagedDish } from '../types/staging.js';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+const venue: Pick<StagedVenue, 'data' | 'geocoding'> = {
+  data: {
+    type: 'restaurant',
+    name: 'Hiltl Sihlpost',
+    address: { street: 'Europaallee 1', city: 'Zurich', postal_code: '8004', country: 'CH' },
+    opening_hours: { regular: { monday: [{ open: '11:00', close: '22:00' }] } },
+    contact: { website: 'https://hiltl.ch' },
+    delivery_partners: ['uber_eats'],
+  },
+  geocoding: {
+    status: 'success',
+    resolved_coordinates: { lat: 47.378, lng: 8.532 },
+    geocoding_confidence: 95,
+  },
+};
+
+const dish: Pick<
+  StagedDish,
+  'data' | 'product_mapping' | 'staged_venue_id' | 'production_venue_id' | 'venue_external_id'
+> = {
+  staged_venue_id: 'staged-venue-1',
+  data: {
+    name: 'Planted Kebab Bowl',
+    description: 'Kebab with hummus and salad',
+    planted_products: ['PLANTED-KEBAB-ORIGINAL-200G'],
+    price: { amount: 24.5, currency: 'CHF' },
+    image_url: 'https://example.com/bowl.jpg',
+    dietary_tags: ['vegan'],
+    cuisine_type: 'middle_eastern',
+    availability: { type: 'permanent' },
+  },
+  product_mapping: { auto_mapped: false, mapping_method: 'sku_lookup', mapping_confidence: 100 },
+};
+
+describe('scoreStagedVenue', () => {
+  it('should score a complete, geocoded venue highly', () => {
+    const result = scoreStagedVenue(venue, { sourceReliability: 90 });
+
+    expect(result.breakdown).toEqual({
+      completeness: 100,
+      geocoding: 95,
+      name_match: 80,
+      source_reliability: 90,
+    });
+    expect(result.score).toBe(92);
+    expect(result.flags).toEqual([]);
+  });
+
+  it('should flag venues without coordinates', () => {
+    const result = scoreStagedVenue(
+      { ...venue, geocoding: { status: 'pending' } },
+      { sourceReliability: 90 }
+    );
+
+    expect(result.breakdown.geocoding).toBe(0);
+    expect(result.flags).toContain('low_geocoding');
+  });
+
+  it('should compare the name against a linked production venue', () => {
+    const result = scoreStagedVenue(venue, {
+      sourceReliability: 90,
+      productionVenueName: 'Burger King',
+    });
+
+    expect(result.breakdown.name_match).toBe(0);
+    expect(result.flags).toContain('low_name_match');
+  });
+});
+
+describe('scoreStagedDish', () => {
+  it('should score a mapped dish linked to a staged venue', () => {
+    const result = scoreStagedDish(dish, { sourceReliability: 50 });
+
+    expect(result.breakdown).toEqual({
+      completeness: 100,
+      product_mapping: 100,
+      price_validity: 100,
+      venue_link: 90,
+    });
+    expect(result.score).toBe(97);
+  });
+
+  it('should flag unknown products and unresolved venues', () => {
+    const result = scoreStagedDish(
+      {
+        ...dish,
+        staged_venue_id: undefined,
+        venue_external_id: 'unknown-venue',
+        data: { ...dish.data, planted_products: ['NOT-A-SKU'] },
+      },
+      { sourceReliability: 50 }
+    );
+
+    expect(result.breakdown.product_mapping).toBe(0);
+    expect(result.breakdown.venue_link).toBe(30);
+    expect(result.flags).toEqual(['low_product_mapping', 'low_venue_link']);
+  });
+
+  it('should cap auto-mapped products at the mapping confidence', () => {
+    const result = scoreStagedDish(
+      {
+        ...dish,
+        product_mapping: { auto_mapped: true, mapping_method: 'keyword', mapping_confidence: 70 },
+      },
+      { sourceReliability: 50 }
+    );
+
+    expect(result.breakdown.product_mapping).toBe(70);
+  });
+
+  it('should penalize implausible prices', () => {
+    const result = scoreStagedDish(
+      { ...dish, data: { ...dish.data, price: { amount: 245, currency: 'CHF' } } },
+      { sourceReliability: 50 }
+    );
+
+    expect(result.breakdown.price_validity).toBe(30);
+  });
+});
+
+describe('scoreStagedPromotion', () => {
+  const promotion = {
+    chain_id: 'chain-hiltl',
+    data: {
+      promo_type: 'new_product' as const,
+      title: 'Spring Launch',
+      description: 'New planted.kebab dishes',
+      product_skus: ['PLANTED-KEBAB-ORIGINAL-200G'],
+      valid_from: new Date('2024-02-15'),
+      valid_until: new Date('2024-04-15'),
+    },
+  };
+
+  it('should accept a current chain-wide promotion', () => {
+    const result = scoreStagedPromotion(promotion, { sourceReliability: 50, now: NOW });
+
+    expect(result.breakdown.date_validity).toBe(100);
+    expect(result.breakdown.venue_link).toBe(100);
+    expect(result.flags).toEqual([]);
+  });
+
+  it('should flag expired promotions', () => {
+    const result = scoreStagedPromotion(
+      { ...promotion, data: { ...promotion.data, valid_until: new Date('2024-02-20') } },
+      { sourceReliability: 50, now: NOW }
+    );
+
+    expect(result.breakdown.date_validity).toBe(10);
+    expect(result.flags).toContain('low_date_validity');
+  });
+});
+
+describe('scoreStagedAvailability', () => {
+  it('should score a recent, linked availability record', () => {
+    const result = scoreStagedAvailability(
+      {
+        production_venue_id: 'venue-coop-1',
+        data: {
+          product_sku: 'planted-chicken-nature-200g',
+          in_stock: true,
+          price: { regular: 4.95, currency: 'CHF' },
+          verified_at: new Date('2024-02-28'),
+        },
+      },
+      { sourceReliability: 50, now: NOW }
+    );
+
+    expect(result.breakdown).toEqual({
+      product_mapping: 100,
+      venue_link: 100,
+      price_validity: 100,
+      freshness: 100,
+    });
+    expect(result.score).toBe(100);
+  });
+
+  it('should flag records without a venue', () => {
+    const result = scoreStagedAvailability(
+      { data: { product_sku: 'PLANTED-CHICKEN-NATURE-200G', in_stock: false } },
+      { sourceReliability: 50, now: NOW }
+    );
+
+    expect(result.flags).toEqual(['low_venue_link']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Page Cursor Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeCursor, decodeCursor } from '../utils/cursor.js';
+import { createdAtCursorSchema, distanceCursorSchema } from '../contracts/common.js';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips string and number sort keys', () => {
+    const byDate = { after: '2026-10-01T08:30:00.000Z', id: 'venues_abc' };
+    const byDistance = { after: 1.2345678901234, id: 'venues_äöü/+' };
+
+    expect(decodeCursor(encodeCursor(byDate))).toEqual(byDate);
+    expect(decodeCursor(encodeCursor(byDistance))).toEqual(byDistance);
+  });
+
+  it('produces URL-safe tokens', () => {
+    const token = encodeCursor({ after: 0.5, id: '???>>>~~~' });
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects tokens that are not cursors', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(btoa('{"after":1,"id":"x"}'))).toBeNull();
+    expect(decodeCursor(btoa('[1,""]'))).toBeNull();
+    expect(decodeCursor(btoa('[null,"x"]'))).toBeNull();
+  });
+});
+
+describe('cursor query schemas', () => {
+  it('decode tokens with the expected sort key type', () => {
+    const token = encodeCursor({ after: '2026-10-01T08:30:00.000Z', id: 'dishes_1' });
+    expect(createdAtCursorSchema.parse(token)).toEqual({ after: '2026-10-01T08:30:00.000Z', id: 'dishes_1' });
+    expect(distanceCursorSchema.safeParse(token).success).toBe(false);
+  });
+
+  it('report invalid cursors', () => {
+    const result = distanceCursorSchema.safeParse('garbage');
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('Invalid cursor');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Delivery Zone Geometry Test Suite
+ *
+ * Point-in-polygon checks (including holes and MultiPolygons), radius
+ * zones and GeoJSON import.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDistance,
+  createCirclePolygon,
+  isPointInGeometry,
+  toDeliveryZoneGeometry,
+} from '../utils/geo.js';
+import type { GeoJSONGeometry, GeoPoint } from '../types/venue.js';
+
+// Zürich Kreis 1-ish box with a hole around the main station
+const zurichZone: GeoJSONGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [8.52, 47.36],
+      [8.56, 47.36],
+      [8.56, 47.39],
+      [8.52, 47.39],
+      [8.52, 47.36],
+    ],
+    [
+      [8.535, 47.376],
+      [8.542, 47.376],
+      [8.542, 47.38],
+      [8.535, 47.38],
+      [8.535, 47.376],
+    ],
+  ],
+};
+
+const bellevue: GeoPoint = { latitude: 47.3667, longitude: 8.545 };
+const mainStation: GeoPoint = { latitude: 47.378, longitude: 8.54 };
+const oerlikon: GeoPoint = { latitude: 47.4111, longitude: 8.5442 };
+
+describe('isPointInGeometry', () => {
+  it('should find points inside a polygon', () => {
+    expect(isPointInGeometry(bellevue, zurichZone)).toBe(true);
+    expect(isPointInGeometry(oerlikon, zurichZone)).toBe(false);
+  });
+
+  it('should exclude points inside a hole', () => {
+    expect(isPointInGeometry(mainStation, zurichZone)).toBe(false);
+  });
+
+  it('should check every polygon of a MultiPolygon', () => {
+    const zone: GeoJSONGeometry = {
+      type: 'MultiPolygon',
+      coordinates: [
+        zurichZone.coordinates as number[][][],
+        [
+          [
+            [8.53, 47.4],
+            [8.56, 47.4],
+            [8.56, 47.42],
+            [8.53, 47.42],
+            [8.53, 47.4],
+          ],
+        ],
+      ],
+    };
+
+    expect(isPointInGeometry(bellevue, zone)).toBe(true);
+    expect(isPointInGeometry(oerlikon, zone)).toBe(true);
+    expect(isPointInGeometry(mainStation, zone)).toBe(false);
+  });
+
+  it('should never match non-polygon geometries', () => {
+    expect(isPointInGeometry(bellevue, { type: 'Point', coordinates: [8.545, 47.3667] })).toBe(false);
+  });
+});
+
+describe('createCirclePolygon', () => {
+  const center: GeoPoint = { latitude: 47.3769, longitude: 8.5417 };
+
+  it('should build a closed ring at the given radius', () => {
+    const zone = createCirclePolygon(center, 5, 32);
+    const [ring] = zone.coordinates as number[][][];
+
+    expect(zone.type).toBe('Polygon');
+    expect(ring).toHaveLength(33);
+    expect(ring[0]).toEqual(ring[32]);
+    for (const [longitude, latitude] of ring) {
+      expect(calculateDistance(center, { latitude, longitude })).toBeCloseTo(5, 1);
+    }
+  });
+
+  it('should contain points within the radius only', () => {
+    const zone = createCirclePolygon(center, 3);
+
+    expect(isPointInGeometry(bellevue, zone)).toBe(true);
+    expect(isPointInGeometry(oerlikon, zone)).toBe(false);
+  });
+
+  it('should reject non-positive radii', () => {
+    expect(() => createCirclePolygon(center, 0)).toThrow();
+  });
+});
+
+describe('toDeliveryZoneGeometry', () => {
+  const square = [
+    [8.52, 47.36],
+    [8.56, 47.36],
+    [8.56, 47.39],
+    [8.52, 47.39],
+    [8.52, 47.36],
+  ];
+
+  it('should accept a bare Polygon', () => {
+    expect(toDeliveryZoneGeometry({ type: 'Polygon', coordinates: [square] })).toEqual({
+      type: 'Polygon',
+      coordinates: [square],
+    });
+  });
+
+  it('should unwrap Features and merge FeatureCollections', () => {
+    const feature = { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [square] } };
+
+    expect(toDeliveryZoneGeometry(feature).type).toBe('Polygon');
+    expect(toDeliveryZoneGeometry({ type: 'FeatureCollection', features: [feature, feature] })).toEqual({
+      type: 'MultiPolygon',
+      coordinates: [[square], [square]],
+    });
+  });
+
+  it('should close open rings', () => {
+    const zone = toDeliveryZoneGeometry({ type: 'Polygon', coordinates: [square.slice(0, 4)] });
+    expect((zone.coordinates as number[][][])[0]).toEqual(square);
+  });
+
+  it('should reject GeoJSON without usable polygons', () => {
+    expect(() => toDeliveryZoneGeometry({ type: 'Point', coordinates: [8.5, 47.3] })).toThrow(/no Polygon/);
+    expect(() => toDeliveryZoneGeometry({ type: 'Polygon', coordinates: [[[8.5, 47.3], [8.6, 47.3]]] })).toThrow(
+      /Invalid GeoJSON/
+    );
+    expect(() => toDeliveryZoneGeometry({ type: 'Polygon', coordinates: [[[47.3, 200], [8.6, 47.3], [8.6, 47.4]]] })).toThrow(
+      /longitude, latitude/
+    );
+  });
+});
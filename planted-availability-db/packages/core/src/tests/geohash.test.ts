@@ -0,0 +1,84 @@
+/**
+ * Geohash Utilities Test Suite
+ *
+ * Verifies encoding against known reference hashes and that the query
+ * ranges returned for a radius cover every point inside that radius.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeGeohash, getGeohashQueryBounds } from '../utils/geohash.js';
+import { calculateDistance } from '../utils/geo.js';
+import type { GeoPoint } from '../types/venue.js';
+
+function isCovered(hash: string, ranges: [string, string][]): boolean {
+  return ranges.some(([start, end]) => hash >= start && hash <= end);
+}
+
+/**
+ * Walk a polar grid around center so that points close to the circle
+ * edge are exercised as well as the interior
+ */
+function samplePointsWithin(center: GeoPoint, radiusKm: number): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  for (let ring = 1; ring <= 10; ring++) {
+    const distanceKm = (radiusKm * ring) / 10 - 0.001;
+    for (let step = 0; step < 36; step++) {
+      const bearing = (step * 10 * Math.PI) / 180;
+      const latDelta = (distanceKm / 111.32) * Math.cos(bearing);
+      const lngDelta = (distanceKm / (111.32 * Math.cos((center.latitude * Math.PI) / 180))) * Math.sin(bearing);
+      points.push({ latitude: center.latitude + latDelta, longitude: center.longitude + lngDelta });
+    }
+  }
+  return points.filter((p) => calculateDistance(center, p) <= radiusKm);
+}
+
+describe('encodeGeohash', () => {
+  it('should match reference hashes', () => {
+    expect(encodeGeohash({ latitude: 57.64911, longitude: 10.40744 }, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash({ latitude: 42.605, longitude: -5.603 }, 5)).toBe('ezs42');
+  });
+
+  it('should default to 10 characters', () => {
+    expect(encodeGeohash({ latitude: 52.52, longitude: 13.405 })).toHaveLength(10);
+  });
+
+  it('should reject invalid precision', () => {
+    expect(() => encodeGeohash({ latitude: 0, longitude: 0 }, 0)).toThrow();
+    expect(() => encodeGeohash({ latitude: 0, longitude: 0 }, 23)).toThrow();
+  });
+});
+
+describe('getGeohashQueryBounds', () => {
+  const centers: Record<string, GeoPoint> = {
+    zurich: { latitude: 47.3769, longitude: 8.5417 },
+    berlin: { latitude: 52.52, longitude: 13.405 },
+    london: { latitude: 51.5074, longitude: -0.1278 },
+    // Sits on the prime meridian / cell boundary
+    greenwich: { latitude: 51.4779, longitude: 0.0 },
+  };
+
+  for (const [name, center] of Object.entries(centers)) {
+    for (const radiusKm of [0.5, 2, 10, 25, 50]) {
+      it(`should cover all points within ${radiusKm}km of ${name}`, () => {
+        const ranges = getGeohashQueryBounds(center, radiusKm);
+        expect(ranges.length).toBeGreaterThan(0);
+        expect(ranges.length).toBeLessThanOrEqual(9);
+
+        for (const point of samplePointsWithin(center, radiusKm)) {
+          expect(isCovered(encodeGeohash(point), ranges)).toBe(true);
+        }
+      });
+    }
+  }
+
+  it('should exclude points far outside the radius', () => {
+    const ranges = getGeohashQueryBounds(centers.zurich, 5);
+    expect(isCovered(encodeGeohash(centers.berlin), ranges)).toBe(false);
+  });
+
+  it('should not return duplicate ranges', () => {
+    const ranges = getGeohashQueryBounds(centers.berlin, 1);
+    const keys = ranges.map(([start, end]) => `${start}:${end}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
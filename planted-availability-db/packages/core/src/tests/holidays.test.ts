@@ -0,0 +1,151 @@
+/**
+ * Public Holiday Calendar Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyHolidayClosures,
+  closesOnHolidays,
+  getEasterSunday,
+  getEffectiveOpeningHours,
+  getPublicHoliday,
+  getPublicHolidays,
+  hasRegionalHolidays,
+} from '../utils/holidays.js';
+import { isVenueOpen } from '../utils/time.js';
+import type { OpeningHours } from '../types/venue.js';
+
+const everyDay: OpeningHours = {
+  regular: {
+    monday: [{ open: '11:00', close: '22:00' }],
+    tuesday: [{ open: '11:00', close: '22:00' }],
+    wednesday: [{ open: '11:00', close: '22:00' }],
+    thursday: [{ open: '11:00', close: '22:00' }],
+    friday: [{ open: '11:00', close: '22:00' }],
+    saturday: [{ open: '11:00', close: '22:00' }],
+    sunday: [{ open: '11:00', close: '22:00' }],
+  },
+};
+
+describe('getEasterSunday', () => {
+  it('should compute Easter Sunday', () => {
+    expect(getEasterSunday(2025)).toBe('2025-04-20');
+    expect(getEasterSunday(2026)).toBe('2026-04-05');
+    expect(getEasterSunday(2027)).toBe('2027-03-28');
+  });
+});
+
+describe('getPublicHolidays', () => {
+  it('should include national holidays without a region', () => {
+    const dates = getPublicHolidays('CH', 2026).map((h) => h.date);
+
+    expect(dates).toContain('2026-08-01'); // Bundesfeiertag
+    expect(dates).toContain('2026-04-03'); // Karfreitag
+    expect(dates).toContain('2026-05-14'); // Auffahrt
+    expect(dates).not.toContain('2026-06-04'); // Fronleichnam is cantonal
+  });
+
+  it('should apply Swiss cantonal holidays', () => {
+    expect(getPublicHoliday('2026-06-04', 'CH', 'LU')?.name).toBe('Fronleichnam');
+    expect(getPublicHoliday('2026-06-04', 'CH', 'ZH')).toBeNull();
+    expect(getPublicHoliday('2026-05-01', 'CH', 'ZH')?.name).toBe('Tag der Arbeit');
+    // Good Friday isn't a holiday in Ticino
+    expect(getPublicHoliday('2026-04-03', 'CH', 'TI')).toBeNull();
+  });
+
+  it('should apply German state holidays', () => {
+    expect(getPublicHoliday('2026-01-06', 'DE', 'BY')?.regional).toBe(true);
+    expect(getPublicHoliday('2026-01-06', 'DE', 'BE')).toBeNull();
+    expect(getPublicHoliday('2026-10-31', 'DE', 'SN')?.name).toBe('Reformationstag');
+    // Buß- und Bettag: Wednesday before November 23
+    expect(getPublicHoliday('2026-11-18', 'DE', 'SN')?.name).toBe('Buß- und Bettag');
+    expect(getPublicHoliday('2026-10-03', 'DE')?.regional).toBe(false);
+  });
+
+  it('should resolve weekday-based UK bank holidays', () => {
+    expect(getPublicHoliday('2026-05-04', 'GB')?.name).toBe('Early May bank holiday');
+    expect(getPublicHoliday('2026-05-25', 'UK')?.name).toBe('Spring bank holiday');
+    expect(getPublicHoliday('2026-08-31', 'UK', 'ENG')?.name).toBe('Summer bank holiday');
+    expect(getPublicHoliday('2026-08-03', 'UK', 'SCT')?.name).toBe('Summer bank holiday');
+  });
+
+  it('should add UK substitute days for weekend holidays', () => {
+    // 2021: Christmas on Saturday, Boxing Day on Sunday
+    expect(getPublicHoliday('2021-12-27', 'UK')?.name).toBe('Christmas Day (substitute day)');
+    expect(getPublicHoliday('2021-12-28', 'UK')?.name).toBe('Boxing Day (substitute day)');
+    // 2022: Christmas on Sunday, Boxing Day on Monday
+    expect(getPublicHoliday('2022-12-26', 'UK')?.name).toBe('Boxing Day');
+    expect(getPublicHoliday('2022-12-27', 'UK')?.name).toBe('Christmas Day (substitute day)');
+    // 2022: New Year's Day on Saturday, 2 January on Sunday (Scotland)
+    expect(getPublicHoliday('2022-01-03', 'UK', 'ENG')?.name).toBe("New Year's Day (substitute day)");
+    expect(getPublicHoliday('2022-01-04', 'UK', 'ENG')).toBeNull();
+    expect(getPublicHoliday('2022-01-04', 'UK', 'SCT')?.name).toBe('2nd January (substitute day)');
+    // Weekday holidays get no substitute
+    expect(getPublicHolidays('UK', 2024).some((h) => h.name.includes('substitute'))).toBe(false);
+  });
+
+  it('should move Koningsdag to Saturday when it falls on a Sunday', () => {
+    expect(getPublicHoliday('2025-04-26', 'NL')?.name).toBe('Koningsdag');
+    expect(getPublicHoliday('2025-04-27', 'NL')).toBeNull();
+    expect(getPublicHoliday('2026-04-27', 'NL')?.name).toBe('Koningsdag');
+  });
+
+  it('should return nothing for unknown countries', () => {
+    expect(getPublicHolidays('US', 2026)).toEqual([]);
+  });
+});
+
+describe('hasRegionalHolidays', () => {
+  it('should tell which countries need Address.region', () => {
+    expect(hasRegionalHolidays('CH')).toBe(true);
+    expect(hasRegionalHolidays('GB')).toBe(true);
+    expect(hasRegionalHolidays('NL')).toBe(false);
+    expect(hasRegionalHolidays('US')).toBe(false);
+  });
+});
+
+describe('applyHolidayClosures', () => {
+  it('should close venues on nearby holidays', () => {
+    const hours = applyHolidayClosures(everyDay, { country: 'CH' }, new Date('2026-07-30T12:00:00Z'));
+
+    expect(hours.exceptions).toEqual([{ date: '2026-08-01', hours: 'closed' }]);
+    expect(isVenueOpen(hours, 'Europe/Zurich', new Date('2026-08-01T12:00:00Z'))).toBe(false);
+    expect(isVenueOpen(hours, 'Europe/Zurich', new Date('2026-08-02T12:00:00Z'))).toBe(true);
+  });
+
+  it('should keep existing exceptions for holidays', () => {
+    const christmasEve: OpeningHours = {
+      ...everyDay,
+      exceptions: [{ date: '2026-12-25', hours: [{ open: '17:00', close: '23:00' }] }],
+    };
+    const hours = applyHolidayClosures(christmasEve, { country: 'DE', region: 'BE' }, new Date('2026-12-24T12:00:00Z'));
+
+    expect(hours.exceptions).toEqual([
+      { date: '2026-12-25', hours: [{ open: '17:00', close: '23:00' }] },
+      { date: '2026-12-26', hours: 'closed' },
+      { date: '2027-01-01', hours: 'closed' },
+    ]);
+  });
+
+  it('should cover holidays in the next year', () => {
+    const hours = applyHolidayClosures(everyDay, { country: 'AT' }, new Date('2026-12-30T12:00:00Z'));
+    expect(hours.exceptions?.map((e) => e.date)).toEqual(['2027-01-01', '2027-01-06']);
+  });
+});
+
+describe('getEffectiveOpeningHours', () => {
+  const venue = { opening_hours: everyDay, address: { country: 'CH', region: 'ZH' } };
+  const now = new Date('2026-12-24T12:00:00Z');
+
+  it('should follow the chain setting', () => {
+    expect(closesOnHolidays({}, { closes_on_holidays: true })).toBe(true);
+    // Christmas, St Stephen's, New Year and Berchtoldstag (ZH)
+    expect(getEffectiveOpeningHours(venue, { closes_on_holidays: true }, now)?.exceptions).toHaveLength(4);
+    expect(getEffectiveOpeningHours(venue, null, now)).toBe(everyDay);
+  });
+
+  it('should let the venue override its chain', () => {
+    const openOnHolidays = { ...venue, closes_on_holidays: false };
+    expect(getEffectiveOpeningHours(openOnHolidays, { closes_on_holidays: true }, now)).toBe(everyDay);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Product SKU Matching Test Suite
+ *
+ * Uses product names as they appear on retailer websites.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchProductSku, PLANTED_PRODUCTS } from '../constants/products.js';
+import { productSchema } from '../schemas/product.js';
+
+describe('matchProductSku', () => {
+  it('should match base variants when no variant words are present', () => {
+    expect(matchProductSku('planted. Kebab')).toBe('PLANTED-KEBAB-ORIGINAL-200G');
+    expect(matchProductSku('planted. Pea protein chicken (Nature)')).toBe('PLANTED-CHICKEN-NATURE-200G');
+    expect(matchProductSku('planted.steak 160g')).toBe('PLANTED-STEAK-CLASSIC-200G');
+  });
+
+  it('should pick the variant from the name', () => {
+    expect(matchProductSku('planted. pulled BBQ')).toBe('PLANTED-PULLED-BBQ-200G');
+    expect(matchProductSku('Planted Chicken Crispy Strips 200g')).toBe('PLANTED-CHICKEN-CRISPY-STRIPS-200G');
+    expect(matchProductSku('planted.burger Crispy')).toBe('PLANTED-BURGER-CRISPY-220G');
+    expect(matchProductSku('planted.chicken Burger')).toBe('PLANTED-CHICKEN-BURGER-220G');
+  });
+
+  it('should match localized variant names', () => {
+    expect(matchProductSku('planted.chicken Zitrone & Kräuter')).toBe('PLANTED-CHICKEN-LEMON-HERBS-200G');
+    expect(matchProductSku('planted.bratwurst Krauter')).toBe('PLANTED-BRATWURST-HERBS-200G');
+    expect(matchProductSku('planted.filetwürfel A La Mexicana')).toBe('PLANTED-FILETWUERFEL-MEXICANA-200G');
+  });
+
+  it('should respect the market', () => {
+    expect(matchProductSku('planted.duck Asian Style', 'CH')).toBe('PLANTED-DUCK-ASIAN-200G');
+    expect(matchProductSku('planted.duck Asian Style', 'UK')).toBeNull();
+  });
+
+  it('should return null for non-Planted or unrecognised products', () => {
+    expect(matchProductSku('Beyond Meat Burger')).toBeNull();
+    expect(matchProductSku('planted. Teriyaki Bowl')).toBeNull();
+    expect(matchProductSku('planted.duck Peking')).toBeNull();
+  });
+});
+
+describe('PLANTED_PRODUCTS', () => {
+  it('should only contain valid products, as they seed the products collection', () => {
+    for (const product of PLANTED_PRODUCTS) {
+      expect(productSchema.safeParse(product).error?.issues ?? [], product.sku).toEqual([]);
+    }
+  });
+
+  it('should not repeat SKUs or content slugs', () => {
+    const skus = PLANTED_PRODUCTS.map((product) => product.sku);
+    const slugs = PLANTED_PRODUCTS.flatMap((product) => (product.slug ? [product.slug] : []));
+
+    expect(new Set(skus).size).toBe(skus.length);
+    expect(new Set(slugs).size).toBe(slugs.length);
+  });
+});
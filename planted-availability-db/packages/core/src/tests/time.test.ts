@@ -0,0 +1,138 @@
+/**
+ * Opening Hours Test Suite
+ *
+ * Opening hours are evaluated in the venue's timezone: exceptions match the
+ * local date and ranges past midnight belong to the day they open on.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getNextOpeningTime,
+  getTodayHoursString,
+  getVenueOpenStatus,
+  isVenueOpen,
+} from '../utils/time.js';
+import { getMarketTimezone } from '../constants/markets.js';
+import type { OpeningHours } from '../types/venue.js';
+
+const ZURICH = 'Europe/Zurich';
+
+const barHours: OpeningHours = {
+  regular: {
+    monday: [],
+    tuesday: [{ open: '11:30', close: '14:00' }, { open: '18:00', close: '22:00' }],
+    wednesday: [{ open: '11:30', close: '14:00' }],
+    thursday: [],
+    friday: [{ open: '18:00', close: '02:00' }],
+    saturday: [{ open: '18:00', close: '02:00' }],
+    sunday: [],
+  },
+  exceptions: [
+    { date: '2026-12-25', hours: 'closed' },
+    { date: '2026-12-31', hours: [{ open: '20:00', close: '03:00' }] },
+  ],
+};
+
+describe('getMarketTimezone', () => {
+  it('should use the market timezone', () => {
+    expect(getMarketTimezone('DE')).toBe('Europe/Berlin');
+    expect(getMarketTimezone('uk')).toBe('Europe/London');
+  });
+
+  it('should fall back for unknown countries', () => {
+    expect(getMarketTimezone('US')).toBe(ZURICH);
+    expect(getMarketTimezone(undefined)).toBe(ZURICH);
+  });
+});
+
+describe('isVenueOpen', () => {
+  it('should evaluate hours in the venue timezone', () => {
+    // Tuesday 12:30 in Zurich (CET, UTC+1) is 11:30 UTC
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-10T11:30:00Z'))).toBe(true);
+    // 10:45 UTC is still 11:45 in Zurich...
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-10T10:45:00Z'))).toBe(true);
+    // ...but only 10:45 in London
+    expect(isVenueOpen(barHours, 'Europe/London', new Date('2026-11-10T10:45:00Z'))).toBe(false);
+  });
+
+  it('should treat the closing time as closed', () => {
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-10T13:00:00Z'))).toBe(false);
+  });
+
+  it('should keep overnight ranges open after midnight', () => {
+    // Saturday 01:30 local - Friday's 18:00-02:00 range
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-14T00:30:00Z'))).toBe(true);
+    // Saturday 02:30 local
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-14T01:30:00Z'))).toBe(false);
+    // Friday 01:30 local - Thursday has no hours
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-11-13T00:30:00Z'))).toBe(false);
+  });
+
+  it('should match exceptions on the local date', () => {
+    // Friday Dec 25 19:00 local: closed for the holiday
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-12-25T18:00:00Z'))).toBe(false);
+    // Dec 24 23:30 UTC is already Dec 25 00:30 in Zurich; Thursday Dec 24 has no hours
+    expect(isVenueOpen(barHours, ZURICH, new Date('2026-12-24T23:30:00Z'))).toBe(false);
+    // Jan 1 02:30 local is still inside the Dec 31 20:00-03:00 exception
+    expect(isVenueOpen(barHours, ZURICH, new Date('2027-01-01T01:30:00Z'))).toBe(true);
+  });
+
+  it('should report venues without hours as closed', () => {
+    expect(isVenueOpen(undefined, ZURICH)).toBe(false);
+  });
+});
+
+describe('getVenueOpenStatus', () => {
+  it('should flag venues closing soon', () => {
+    // Tuesday 21:45 local, closes at 22:00
+    const status = getVenueOpenStatus(barHours, ZURICH, new Date('2026-11-10T20:45:00Z'));
+    expect(status).toEqual({
+      is_open: true,
+      status: 'closes_soon',
+      closes_at: new Date('2026-11-10T21:00:00Z'),
+      opens_at: null,
+    });
+  });
+
+  it('should return the next day closing time for overnight ranges', () => {
+    // Friday 23:00 local
+    const status = getVenueOpenStatus(barHours, ZURICH, new Date('2026-11-13T22:00:00Z'));
+    expect(status.status).toBe('open');
+    expect(status.closes_at).toEqual(new Date('2026-11-14T01:00:00Z'));
+  });
+
+  it('should return the next opening time when closed', () => {
+    // Wednesday 15:00 local -> Friday 18:00 local
+    const status = getVenueOpenStatus(barHours, ZURICH, new Date('2026-11-11T14:00:00Z'));
+    expect(status).toEqual({
+      is_open: false,
+      status: 'closed',
+      closes_at: null,
+      opens_at: new Date('2026-11-13T17:00:00Z'),
+    });
+  });
+});
+
+describe('getNextOpeningTime', () => {
+  it('should skip closed exceptions', () => {
+    // Thursday Dec 24 12:00 local: Friday Dec 25 is closed, so Saturday 18:00
+    expect(getNextOpeningTime(barHours, ZURICH, new Date('2026-12-24T11:00:00Z'))).toEqual(
+      new Date('2026-12-26T17:00:00Z')
+    );
+  });
+
+  it('should convert local times across DST changes', () => {
+    // Sunday Mar 29 2026 is the switch to CEST (UTC+2); next opening is Tuesday 11:30 CEST
+    expect(getNextOpeningTime(barHours, ZURICH, new Date('2026-03-28T23:00:00Z'))).toEqual(
+      new Date('2026-03-31T09:30:00Z')
+    );
+  });
+});
+
+describe('getTodayHoursString', () => {
+  it('should use the local date', () => {
+    // Dec 30 23:30 UTC is Dec 31 in Zurich
+    expect(getTodayHoursString(barHours, ZURICH, new Date('2026-12-30T23:30:00Z'))).toBe('20:00 - 03:00');
+    expect(getTodayHoursString(barHours, ZURICH, new Date('2026-12-25T12:00:00Z'))).toBe('Closed');
+  });
+});
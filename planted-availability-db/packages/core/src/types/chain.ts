@@ -15,6 +15,8 @@ export interface Chain {
   markets: string[]; // ISO country codes
   partnership_level?: PartnershipLevel;
   contact?: ChainContact;
+  // Venues are closed on public holidays (unless a venue overrides it)
+  closes_on_holidays?: boolean;
 }
 
 export type CreateChainInput = Omit<Chain, 'id'>;
@@ -28,7 +28,8 @@ export const PLATFORM_COUNTRIES: Record<DeliveryPlatform, SupportedCountry[]> =
   'lieferando': ['DE', 'AT', 'NL', 'BE', 'PL'],
   'wolt': ['DE', 'AT', 'PL'],
   'smood': ['CH'],
-  'deliveroo': ['UK', 'FR', 'ES', 'IT', 'BE', 'NL'],
+  // Deliveroo left Spain (2021) and the Netherlands (2022)
+  'deliveroo': ['UK', 'FR', 'IT', 'BE'],
   'glovo': ['ES', 'IT', 'PL'],
 };
 
@@ -38,7 +39,7 @@ export const PLATFORM_URLS: Record<DeliveryPlatform, string> = {
   'lieferando': 'lieferando.de', // Also lieferando.at, thuisbezorgd.nl
   'wolt': 'wolt.com',
   'smood': 'smood.ch',
-  'deliveroo': 'deliveroo.co.uk', // Also deliveroo.fr, deliveroo.es, deliveroo.it
+  'deliveroo': 'deliveroo.co.uk', // Also deliveroo.fr, deliveroo.it, deliveroo.be
   'glovo': 'glovoapp.com',
 };
 
@@ -63,7 +64,6 @@ export const PLATFORM_URLS_BY_COUNTRY: Record<SupportedCountry, Partial<Record<D
     'uber-eats': 'ubereats.com/nl',
     'just-eat': 'thuisbezorgd.nl',
     'lieferando': 'thuisbezorgd.nl',
-    'deliveroo': 'deliveroo.nl',
   },
   UK: {
     'uber-eats': 'ubereats.com/gb',
@@ -78,7 +78,6 @@ export const PLATFORM_URLS_BY_COUNTRY: Record<SupportedCountry, Partial<Record<D
   ES: {
     'uber-eats': 'ubereats.com/es',
     'just-eat': 'just-eat.es',
-    'deliveroo': 'deliveroo.es',
     'glovo': 'glovoapp.com/es',
   },
   IT: {
@@ -499,7 +498,7 @@ export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
     'lieferando': { enabled: true, countries: ['DE', 'AT', 'NL', 'BE', 'PL'] },
     'wolt': { enabled: true, countries: ['DE', 'AT', 'PL'] },
     'smood': { enabled: true, countries: ['CH'] },
-    'deliveroo': { enabled: true, countries: ['UK', 'FR', 'ES', 'IT', 'BE', 'NL'] },
+    'deliveroo': { enabled: true, countries: ['UK', 'FR', 'IT', 'BE'] },
     'glovo': { enabled: true, countries: ['ES', 'IT', 'PL'] },
   },
 };
@@ -768,18 +767,6 @@ export const SEED_STRATEGIES: Omit<DiscoveryStrategy, 'id' | 'created_at'>[] = [
     origin: 'seed',
   },
 
-  // Netherlands - Deliveroo
-  {
-    platform: 'deliveroo',
-    country: 'NL',
-    query_template: 'site:deliveroo.nl planted {city}',
-    success_rate: 70,
-    total_uses: 0,
-    successful_discoveries: 0,
-    false_positives: 0,
-    tags: ['city-specific', 'product-specific'],
-    origin: 'seed',
-  },
 
   // UK - Deliveroo
   {
@@ -892,18 +879,6 @@ export const SEED_STRATEGIES: Omit<DiscoveryStrategy, 'id' | 'created_at'>[] = [
     origin: 'seed',
   },
 
-  // Spain - Deliveroo
-  {
-    platform: 'deliveroo',
-    country: 'ES',
-    query_template: 'site:deliveroo.es planted chicken {city}',
-    success_rate: 70,
-    total_uses: 0,
-    successful_discoveries: 0,
-    false_positives: 0,
-    tags: ['city-specific', 'product-specific'],
-    origin: 'seed',
-  },
 
   // Spain - Uber Eats
   {
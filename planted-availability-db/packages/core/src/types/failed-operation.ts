@@ -0,0 +1,40 @@
+export type OperationType =
+  | 'discovery'
+  | 'dish_extraction'
+  | 'venue_verification'
+  | 'menu_scrape'
+  | 'sync_write';
+
+export type OperationStatus = 'pending_retry' | 'requires_manual' | 'resolved';
+
+/**
+ * An operation that failed and is kept in the dead letter queue (DLQ) for
+ * retry with exponential backoff. After max_attempts it needs a human.
+ */
+export interface FailedOperation {
+  id: string;
+  type: OperationType;
+  venue_id?: string;
+  platform?: string;
+  error: string;
+  stack?: string;
+  attempts: number;
+  max_attempts: number;
+  created_at: Date;
+  last_attempt_at: Date;
+  next_retry_at?: Date;
+  status: OperationStatus;
+  context?: Record<string, unknown>; // Original operation context for retry
+  manual_review_reason?: string;
+  resolved_at?: Date;
+  resolved_by?: string;
+}
+
+export interface DLQStats {
+  total_failed: number;
+  pending_retry: number;
+  requires_manual: number;
+  resolved: number;
+  by_type: Partial<Record<OperationType, number>>;
+  by_platform: Record<string, number>;
+}
@@ -11,3 +11,6 @@ export * from './staging.js';
 export * from './discovery.js';
 export * from './dish-discovery.js';
 export * from './ai-feedback.js';
+export * from './menu-history.js';
+export * from './failed-operation.js';
+export * from './verification-job.js';
@@ -0,0 +1,19 @@
+export type MenuChangeType = 'dish_added' | 'dish_removed' | 'dish_modified' | 'price_change';
+
+/**
+ * A change to a venue's menu on one platform, detected by comparing two
+ * consecutive menu snapshots. Only dishes with a Planted product are tracked.
+ */
+export interface MenuChange {
+  id: string;
+  venue_id: string; // Reference to discovered_venues
+  platform: string;
+  detected_at: Date;
+  change_type: MenuChangeType;
+  dish_name: string;
+  planted_product?: string;
+  old_value?: string;
+  new_value?: string;
+  snapshot_before_id?: string;
+  snapshot_after_id: string;
+}
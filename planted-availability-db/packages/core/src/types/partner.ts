@@ -120,6 +120,8 @@ export interface IngestionBatch {
     records_staged: number;
     records_approved: number;
     records_rejected: number;
+    /** Approved records that have been written to production */
+    records_promoted: number;
   };
 
   // Processing metadata
@@ -166,6 +168,45 @@ export type StagingStatus =
   | 'rejected'
   | 'promoted';
 
+/**
+ * Events delivered to Partner.config.callback_url
+ */
+export type PartnerCallbackEvent = 'batch.status_changed' | 'records.reviewed';
+
+export type CallbackDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface CallbackDeliveryAttempt {
+  attempted_at: Date;
+  /** HTTP status returned by the partner, if a response was received */
+  status_code?: number;
+  error?: string;
+  duration_ms: number;
+}
+
+/**
+ * Outbound partner callback - one document per event, with every delivery attempt
+ */
+export interface PartnerCallbackDelivery {
+  id: string;
+  partner_id: string;
+  batch_id?: string;
+  event: PartnerCallbackEvent;
+  url: string;
+  /** JSON body sent to the partner (signed as-is) */
+  payload: Record<string, unknown>;
+
+  status: CallbackDeliveryStatus;
+  attempts: CallbackDeliveryAttempt[];
+  /** When the next retry is due (status 'retrying') */
+  next_attempt_at?: Date;
+  delivered_at?: Date;
+  /** Last admin replay; only attempts after it count against the retry budget */
+  replayed_at?: Date;
+
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface ValidationError {
   record_index: number;
   field: string;
@@ -23,6 +23,7 @@ export interface Product {
   markets: string[]; // ISO country codes: ['CH', 'DE', 'AT', 'FR', 'IT', 'NL', 'UK', 'ES']
   retail_only: boolean;
   active: boolean;
+  slug?: string; // Product page in the planted-astro content collection, e.g. "chicken-nature"
 }
 
 export type CreateProductInput = Omit<Product, 'sku'> & { sku?: string };
@@ -23,6 +23,7 @@ export interface Promotion {
   terms?: string;
   source: DataSource;
   active: boolean; // Computed: true if valid_from <= now <= valid_until
+  countries?: string[]; // Computed: the venue's country, or the chain's markets
   created_at: Date;
 }
 
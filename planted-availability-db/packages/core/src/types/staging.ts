@@ -67,6 +67,8 @@ export interface StagedDish extends StagedEntityBase {
   production_venue_id?: string;
   /** Partner's venue reference */
   venue_external_id?: string;
+  /** Production dish it was promoted to; resubmissions update that dish */
+  production_dish_id?: string;
 
   // Dish data
   data: {
@@ -189,3 +191,10 @@ export interface PromotionConfidenceBreakdown {
   product_mapping: number;
   venue_link: number;
 }
+
+export interface AvailabilityConfidenceBreakdown {
+  product_mapping: number;
+  venue_link: number;
+  price_validity: number;
+  freshness: number;
+}
@@ -24,6 +24,7 @@ export interface Address {
   city: string;
   postal_code: string;
   country: string; // ISO 3166-1 alpha-2
+  region?: string; // Canton/state/UK nation code (ZH, BY, SCT) for regional public holidays; sync sets it from the postal code
 }
 
 export interface OpeningHours {
@@ -70,6 +71,8 @@ export interface Venue {
   opening_hours: OpeningHours;
   delivery_zones?: string[] | GeoJSONGeometry;
   contact?: Contact;
+  // Overrides the chain's closes_on_holidays setting
+  closes_on_holidays?: boolean;
 
   // Delivery platform links (URLs stored at venue level, not duplicated per dish)
   delivery_platforms?: DeliveryPlatformLink[];
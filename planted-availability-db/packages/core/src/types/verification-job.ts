@@ -0,0 +1,43 @@
+import type { DeliveryPartner } from './venue.js';
+
+export type VerificationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A queued re-verification of one venue on one delivery platform.
+ *
+ * Jobs are scheduled by the daily freshness orchestrator for venues whose
+ * last_verified is getting old, and consumed by the scrapers' verification
+ * worker. A successful job refreshes the venue's last_verified.
+ */
+export interface VerificationJob {
+  id: string;
+  venue_id: string;
+  venue_name: string;
+  platform: DeliveryPartner;
+  url: string;
+  country: string;
+  status: VerificationJobStatus;
+  /** Attempts started so far */
+  attempts: number;
+  max_attempts: number;
+  /** Not claimed by a worker before this time (backoff after failures) */
+  run_after: Date;
+  created_at: Date;
+  updated_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+  /** A running job whose lease expired is requeued (worker crashed) */
+  lease_expires_at?: Date;
+  worker_id?: string;
+  error?: string;
+  /** Scraper run of the orchestrator that queued the job */
+  scheduled_by?: string;
+}
+
+export interface VerificationJobStats {
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  by_platform: Record<string, { queued: number; running: number }>;
+}
@@ -0,0 +1,335 @@
+import type {
+  StagedVenue,
+  StagedDish,
+  StagedPromotion,
+  StagedAvailability,
+  VenueConfidenceBreakdown,
+  DishConfidenceBreakdown,
+  PromotionConfidenceBreakdown,
+  AvailabilityConfidenceBreakdown,
+} from '../types/staging.js';
+import { getProductBySku } from '../constants/products.js';
+
+/**
+ * Components scoring below this value are flagged for review
+ */
+export const CONFIDENCE_FLAG_THRESHOLD = 50;
+
+export interface ConfidenceResult<B> {
+  /** Weighted overall score 0-100 */
+  score: number;
+  breakdown: B;
+  /** `low_<component>` for every component below CONFIDENCE_FLAG_THRESHOLD */
+  flags: string[];
+}
+
+export interface ConfidenceContext {
+  /** Partner data quality score 0-100 */
+  sourceReliability: number;
+  /** Name of the linked production venue, if any */
+  productionVenueName?: string;
+  now?: Date;
+}
+
+const VENUE_WEIGHTS: VenueConfidenceBreakdown = {
+  completeness: 0.25,
+  geocoding: 0.3,
+  name_match: 0.2,
+  source_reliability: 0.25,
+};
+
+const DISH_WEIGHTS: DishConfidenceBreakdown = {
+  completeness: 0.2,
+  product_mapping: 0.35,
+  price_validity: 0.15,
+  venue_link: 0.3,
+};
+
+const PROMOTION_WEIGHTS: PromotionConfidenceBreakdown = {
+  completeness: 0.2,
+  date_validity: 0.3,
+  product_mapping: 0.25,
+  venue_link: 0.25,
+};
+
+const AVAILABILITY_WEIGHTS: AvailabilityConfidenceBreakdown = {
+  product_mapping: 0.35,
+  venue_link: 0.35,
+  price_validity: 0.15,
+  freshness: 0.15,
+};
+
+/** Plausible dish prices per currency */
+const DISH_PRICE_RANGES: Record<string, { min: number; max: number }> = {
+  CHF: { min: 4, max: 80 },
+  EUR: { min: 3, max: 60 },
+  GBP: { min: 3, max: 50 },
+  USD: { min: 3, max: 60 },
+};
+
+/** Plausible retail pack prices per currency */
+const RETAIL_PRICE_RANGES: Record<string, { min: number; max: number }> = {
+  CHF: { min: 1, max: 30 },
+  EUR: { min: 1, max: 25 },
+  GBP: { min: 1, max: 20 },
+  USD: { min: 1, max: 25 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score a staged venue
+ */
+export function scoreStagedVenue(
+  venue: Pick<StagedVenue, 'data' | 'geocoding'>,
+  context: ConfidenceContext
+): ConfidenceResult<VenueConfidenceBreakdown> {
+  const { data, geocoding } = venue;
+
+  const breakdown: VenueConfidenceBreakdown = {
+    completeness: completeness(
+      [data.name, data.address.street, data.address.city, data.address.postal_code, data.address.country],
+      [
+        data.opening_hours && Object.keys(data.opening_hours.regular).length > 0,
+        data.contact?.phone || data.contact?.website || data.contact?.email,
+        data.delivery_partners?.length,
+      ]
+    ),
+    geocoding: scoreGeocoding(geocoding),
+    name_match: context.productionVenueName
+      ? tokenSimilarity(data.name, context.productionVenueName)
+      : isPlausibleName(data.name, [data.address.street, data.address.city])
+        ? 80
+        : 30,
+    source_reliability: clamp(context.sourceReliability),
+  };
+
+  return toResult(breakdown, VENUE_WEIGHTS);
+}
+
+/**
+ * Score a staged dish. Product mapping and venue linking should be resolved
+ * before scoring.
+ */
+export function scoreStagedDish(
+  dish: Pick<
+    StagedDish,
+    'data' | 'product_mapping' | 'staged_venue_id' | 'production_venue_id' | 'venue_external_id'
+  >,
+  context: ConfidenceContext
+): ConfidenceResult<DishConfidenceBreakdown> {
+  const { data } = dish;
+
+  let productMapping = scoreSkus(data.planted_products, 0);
+  if (productMapping > 0 && dish.product_mapping.auto_mapped) {
+    productMapping = Math.min(productMapping, dish.product_mapping.mapping_confidence);
+  }
+
+  const breakdown: DishConfidenceBreakdown = {
+    completeness: completeness(
+      [data.name, data.description, data.price.amount > 0],
+      [data.image_url, data.dietary_tags.length, data.cuisine_type]
+    ),
+    product_mapping: productMapping,
+    price_validity: scorePrice(data.price.amount, data.price.currency, DISH_PRICE_RANGES),
+    venue_link: scoreVenueLink(dish),
+  };
+
+  return toResult(breakdown, DISH_WEIGHTS);
+}
+
+/**
+ * Score a staged promotion
+ */
+export function scoreStagedPromotion(
+  promotion: Pick<StagedPromotion, 'data' | 'staged_venue_id' | 'production_venue_id' | 'chain_id'>,
+  context: ConfidenceContext
+): ConfidenceResult<PromotionConfidenceBreakdown> {
+  const { data } = promotion;
+  const now = context.now ?? new Date();
+
+  const breakdown: PromotionConfidenceBreakdown = {
+    completeness: completeness(
+      [data.title, data.promo_type !== 'discount' || data.discount],
+      [data.description, data.image_url, data.terms]
+    ),
+    date_validity: scorePromotionDates(data.valid_from, data.valid_until, now),
+    // Promotions without SKUs apply to the whole range, which is plausible but unverified
+    product_mapping: scoreSkus(data.product_skus, 60),
+    venue_link: promotion.chain_id ? 100 : scoreVenueLink(promotion),
+  };
+
+  return toResult(breakdown, PROMOTION_WEIGHTS);
+}
+
+/**
+ * Score a staged retail availability record
+ */
+export function scoreStagedAvailability(
+  availability: Pick<StagedAvailability, 'data' | 'staged_venue_id' | 'production_venue_id'>,
+  context: ConfidenceContext
+): ConfidenceResult<AvailabilityConfidenceBreakdown> {
+  const { data } = availability;
+  const now = context.now ?? new Date();
+
+  let priceValidity = 70;
+  if (data.price) {
+    priceValidity =
+      data.price.sale !== undefined && data.price.sale > data.price.regular
+        ? 30
+        : scorePrice(data.price.regular, data.price.currency, RETAIL_PRICE_RANGES);
+  }
+
+  const breakdown: AvailabilityConfidenceBreakdown = {
+    product_mapping: scoreSkus([data.product_sku], 0),
+    venue_link: scoreVenueLink(availability),
+    price_validity: priceValidity,
+    freshness: scoreFreshness(data.verified_at, now),
+  };
+
+  return toResult(breakdown, AVAILABILITY_WEIGHTS);
+}
+
+// ============================================================================
+// Component scores
+// ============================================================================
+
+/**
+ * Required fields make up 60% of completeness, optional fields 40%
+ */
+function completeness(required: unknown[], optional: unknown[]): number {
+  const filled = (values: unknown[]) =>
+    values.filter((v) => (typeof v === 'string' ? v.trim().length > 0 : Boolean(v))).length;
+
+  const requiredShare = required.length > 0 ? filled(required) / required.length : 1;
+  const optionalShare = optional.length > 0 ? filled(optional) / optional.length : 1;
+  return Math.round(requiredShare * 60 + optionalShare * 40);
+}
+
+function scoreGeocoding(geocoding: StagedVenue['geocoding']): number {
+  if (geocoding.resolved_coordinates) {
+    return clamp(geocoding.geocoding_confidence ?? 90);
+  }
+
+  const original = geocoding.original_coordinates;
+  if (original) {
+    // Null island is a common placeholder for missing coordinates
+    return original.lat === 0 && original.lng === 0 ? 10 : 70;
+  }
+
+  return 0;
+}
+
+/**
+ * Share of SKUs that are known, active Planted products
+ */
+function scoreSkus(skus: string[], emptyScore: number): number {
+  if (skus.length === 0) return emptyScore;
+
+  const known = skus.filter((sku) => getProductBySku(sku.toUpperCase())?.active).length;
+  return Math.round((known / skus.length) * 100);
+}
+
+function scorePrice(
+  amount: number,
+  currency: string,
+  ranges: Record<string, { min: number; max: number }>
+): number {
+  if (!(amount > 0)) return 0;
+
+  const range = ranges[currency.toUpperCase()];
+  if (!range) return 50;
+
+  return amount >= range.min && amount <= range.max ? 100 : 30;
+}
+
+function scoreVenueLink(record: {
+  production_venue_id?: string;
+  staged_venue_id?: string;
+  venue_external_id?: string;
+}): number {
+  if (record.production_venue_id) return 100;
+  if (record.staged_venue_id) return 90;
+  // Partner reference that did not resolve to a venue in the submission
+  if (record.venue_external_id) return 30;
+  return 0;
+}
+
+function scorePromotionDates(validFrom: Date, validUntil: Date, now: Date): number {
+  const from = validFrom.getTime();
+  const until = validUntil.getTime();
+
+  if (Number.isNaN(from) || Number.isNaN(until) || until <= from) return 0;
+  if (until < now.getTime()) return 10;
+  if (until - from > 366 * DAY_MS) return 60;
+  return 100;
+}
+
+function scoreFreshness(verifiedAt: Date | undefined, now: Date): number {
+  if (!verifiedAt || Number.isNaN(verifiedAt.getTime())) return 60;
+
+  const age = now.getTime() - verifiedAt.getTime();
+  if (age < -DAY_MS) return 50;
+  if (age <= 7 * DAY_MS) return 100;
+  if (age <= 30 * DAY_MS) return 70;
+  return 30;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toResult<B extends object>(breakdown: B, weights: B): ConfidenceResult<B> {
+  const entries = Object.entries(breakdown) as [keyof B & string, number][];
+
+  const score = entries.reduce(
+    (sum, [key, value]) => sum + value * (weights[key] as unknown as number),
+    0
+  );
+
+  return {
+    score: clamp(Math.round(score)),
+    breakdown,
+    flags: entries
+      .filter(([, value]) => value < CONFIDENCE_FLAG_THRESHOLD)
+      .map(([key]) => `low_${key}`),
+  };
+}
+
+function tokenize(value: string): Set<string> {
+  return new Set(
+    value
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Jaccard similarity of name tokens, 0-100
+ */
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = [...tokensA].filter((t) => tokensB.has(t)).length;
+  return Math.round((shared / new Set([...tokensA, ...tokensB]).size) * 100);
+}
+
+/**
+ * Reject names that are too short, have no letters, or just repeat the address
+ */
+function isPlausibleName(name: string, addressParts: string[]): boolean {
+  const trimmed = name.trim();
+  if (trimmed.length < 3 || !/[a-z\u00c0-\u024f]/i.test(trimmed)) return false;
+
+  const normalized = trimmed.toLowerCase();
+  return !addressParts.some((part) => part.trim().toLowerCase() === normalized);
+}
+
+function clamp(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
@@ -0,0 +1,49 @@
+/**
+ * Position after the last item of a page: that item's sort key and its ID,
+ * which breaks ties between items with the same sort key.
+ */
+export interface PageCursor<T extends string | number = string | number> {
+  after: T;
+  id: string;
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Encode a cursor as an opaque, URL-safe token
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return toBase64Url(JSON.stringify([cursor.after, cursor.id]));
+}
+
+/**
+ * Decode a token from encodeCursor, or null if it is not a valid cursor
+ */
+export function decodeCursor(token: string): PageCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(fromBase64Url(token));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+  const [after, id] = decoded;
+  if ((typeof after !== 'string' && typeof after !== 'number') || typeof id !== 'string' || !id) {
+    return null;
+  }
+
+  return { after, id };
+}
@@ -1,4 +1,4 @@
-import type { GeoPoint } from '../types/venue.js';
+import type { GeoPoint, GeoJSONGeometry } from '../types/venue.js';
 
 const EARTH_RADIUS_KM = 6371;
 
@@ -25,6 +25,10 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+function toDegrees(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
 /**
  * Check if a point is within a given radius of a center point
  */
@@ -82,3 +86,158 @@ export function createGeoPoint(latitude: number, longitude: number): GeoPoint {
   }
   return { latitude, longitude };
 }
+
+// ============================================
+// DELIVERY ZONES (GeoJSON)
+// GeoJSON positions are [longitude, latitude]
+// ============================================
+
+type Ring = number[][];
+
+/**
+ * Ray casting test against a single linear ring
+ */
+function isPointInRing(point: GeoPoint, ring: Ring): boolean {
+  const x = point.longitude;
+  const y = point.latitude;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * First ring is the outer boundary, any further rings are holes
+ */
+function isPointInPolygon(point: GeoPoint, rings: Ring[]): boolean {
+  const [outer, ...holes] = rings;
+  if (!outer || !isPointInRing(point, outer)) {
+    return false;
+  }
+  return !holes.some((hole) => isPointInRing(point, hole));
+}
+
+/**
+ * Check if a point lies inside a Polygon or MultiPolygon delivery zone
+ * Other geometry types (Point, LineString) never contain a point.
+ */
+export function isPointInGeometry(point: GeoPoint, geometry: GeoJSONGeometry): boolean {
+  switch (geometry.type) {
+    case 'Polygon':
+      return isPointInPolygon(point, geometry.coordinates as Ring[]);
+    case 'MultiPolygon':
+      return (geometry.coordinates as Ring[][]).some((polygon) => isPointInPolygon(point, polygon));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Approximate a delivery radius around a center point as a Polygon
+ */
+export function createCirclePolygon(center: GeoPoint, radiusKm: number, steps = 64): GeoJSONGeometry {
+  if (radiusKm <= 0) {
+    throw new Error('Radius must be positive');
+  }
+
+  const angularDistance = radiusKm / EARTH_RADIUS_KM;
+  const lat1 = toRadians(center.latitude);
+  const lng1 = toRadians(center.longitude);
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  const ring: Ring = [];
+
+  for (let step = 0; step < steps; step++) {
+    const bearing = (2 * Math.PI * step) / steps;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+        Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([round(toDegrees(lng2)), round(toDegrees(lat2))]);
+  }
+  ring.push([...ring[0]]);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+function toRing(value: unknown): Ring {
+  if (!Array.isArray(value)) {
+    throw new Error('Polygon ring must be an array of positions');
+  }
+
+  const ring = value.map((position) => {
+    if (
+      !Array.isArray(position) ||
+      position.length < 2 ||
+      typeof position[0] !== 'number' ||
+      typeof position[1] !== 'number' ||
+      Math.abs(position[0]) > 180 ||
+      Math.abs(position[1]) > 90
+    ) {
+      throw new Error('Positions must be [longitude, latitude]');
+    }
+    return [position[0], position[1]];
+  });
+
+  // Close the ring if the source left it open
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([...first]);
+  }
+  if (ring.length < 4) {
+    throw new Error('Polygon rings need at least 3 distinct positions');
+  }
+
+  return ring;
+}
+
+function toPolygons(value: unknown): Ring[][] {
+  const geometry = value as { type?: string; coordinates?: unknown; geometry?: unknown; features?: unknown };
+
+  switch (geometry?.type) {
+    case 'Polygon':
+      return [(geometry.coordinates as unknown[]).map(toRing)];
+    case 'MultiPolygon':
+      return (geometry.coordinates as unknown[][]).map((polygon) => polygon.map(toRing));
+    case 'Feature':
+      return toPolygons(geometry.geometry);
+    case 'FeatureCollection':
+      return (geometry.features as unknown[]).flatMap((feature) => toPolygons(feature));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Extract a delivery zone from imported GeoJSON
+ * Accepts a Polygon/MultiPolygon geometry, a Feature or a FeatureCollection
+ * (polygons are merged into one MultiPolygon). Throws if there is no usable polygon.
+ */
+export function toDeliveryZoneGeometry(input: unknown): GeoJSONGeometry {
+  let polygons: Ring[][];
+  try {
+    polygons = toPolygons(input);
+  } catch (error) {
+    throw new Error(`Invalid GeoJSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (polygons.length === 0) {
+    throw new Error('GeoJSON contains no Polygon or MultiPolygon');
+  }
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
@@ -0,0 +1,174 @@
+import type { GeoPoint } from '../types/venue.js';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const BITS_PER_CHAR = 5;
+const MAXIMUM_BITS_PRECISION = 22 * BITS_PER_CHAR;
+
+const EARTH_MERIDIONAL_CIRCUMFERENCE_M = 40007860;
+const EARTH_EQUATORIAL_RADIUS_M = 6378137.0;
+const EARTH_ECCENTRICITY_SQUARED = 0.00669447819799;
+const METERS_PER_DEGREE_LATITUDE = 110574;
+const EPSILON = 1e-12;
+
+/**
+ * Default precision for stored geohashes (~1.2m x 0.6m cells)
+ */
+export const GEOHASH_PRECISION = 10;
+
+/**
+ * Inclusive [start, end] range of geohash strings, for use with
+ * orderBy('geohash').startAt(start).endAt(end)
+ */
+export type GeohashRange = [string, string];
+
+/**
+ * Encode a coordinate as a base32 geohash
+ */
+export function encodeGeohash(point: GeoPoint, precision: number = GEOHASH_PRECISION): string {
+  if (precision < 1 || precision > 22) {
+    throw new Error('Geohash precision must be between 1 and 22');
+  }
+
+  const latRange = { min: -90, max: 90 };
+  const lngRange = { min: -180, max: 180 };
+  let hash = '';
+  let value = 0;
+  let bits = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const coordinate = evenBit ? point.longitude : point.latitude;
+    const range = evenBit ? lngRange : latRange;
+    const mid = (range.min + range.max) / 2;
+
+    if (coordinate > mid) {
+      value = (value << 1) + 1;
+      range.min = mid;
+    } else {
+      value = value << 1;
+      range.max = mid;
+    }
+
+    evenBit = !evenBit;
+    if (bits < 4) {
+      bits++;
+    } else {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Calculate the set of geohash ranges that together cover every point
+ * within radiusKm of center. Results must still be filtered by exact
+ * distance, since the ranges cover a bounding area larger than the circle.
+ */
+export function getGeohashQueryBounds(center: GeoPoint, radiusKm: number): GeohashRange[] {
+  const radiusM = radiusKm * 1000;
+  const queryBits = Math.max(1, boundingBoxBits(center, radiusM));
+  const precision = Math.ceil(queryBits / BITS_PER_CHAR);
+
+  const ranges = boundingBoxCoordinates(center, radiusM).map((point) =>
+    rangeForGeohash(encodeGeohash(point, precision), queryBits)
+  );
+
+  // Neighbouring corners frequently fall into the same cell
+  return ranges.filter(
+    (range, index) =>
+      !ranges.some((other, otherIndex) => otherIndex < index && other[0] === range[0] && other[1] === range[1])
+  );
+}
+
+function rangeForGeohash(geohash: string, bits: number): GeohashRange {
+  const precision = Math.ceil(bits / BITS_PER_CHAR);
+  if (geohash.length < precision) {
+    return [geohash, `${geohash}~`];
+  }
+
+  const truncated = geohash.substring(0, precision);
+  const base = truncated.substring(0, truncated.length - 1);
+  const lastValue = BASE32.indexOf(truncated.charAt(truncated.length - 1));
+  const significantBits = bits - base.length * BITS_PER_CHAR;
+  const unusedBits = BITS_PER_CHAR - significantBits;
+
+  // Clear the bits below the query resolution
+  const startValue = (lastValue >> unusedBits) << unusedBits;
+  const endValue = startValue + (1 << unusedBits);
+
+  if (endValue > 31) {
+    return [base + BASE32[startValue], `${base}~`];
+  }
+  return [base + BASE32[startValue], base + BASE32[endValue]];
+}
+
+function boundingBoxBits(center: GeoPoint, radiusM: number): number {
+  const latDelta = radiusM / METERS_PER_DEGREE_LATITUDE;
+  const latNorth = Math.min(90, center.latitude + latDelta);
+  const latSouth = Math.max(-90, center.latitude - latDelta);
+
+  const bitsLat = Math.floor(latitudeBitsForResolution(radiusM)) * 2;
+  const bitsLngNorth = Math.floor(longitudeBitsForResolution(radiusM, latNorth)) * 2 - 1;
+  const bitsLngSouth = Math.floor(longitudeBitsForResolution(radiusM, latSouth)) * 2 - 1;
+
+  return Math.min(bitsLat, bitsLngNorth, bitsLngSouth, MAXIMUM_BITS_PRECISION);
+}
+
+function boundingBoxCoordinates(center: GeoPoint, radiusM: number): GeoPoint[] {
+  const latDelta = radiusM / METERS_PER_DEGREE_LATITUDE;
+  const latNorth = Math.min(90, center.latitude + latDelta);
+  const latSouth = Math.max(-90, center.latitude - latDelta);
+  const lngDelta = Math.max(
+    metersToLongitudeDegrees(radiusM, latNorth),
+    metersToLongitudeDegrees(radiusM, latSouth)
+  );
+  const west = wrapLongitude(center.longitude - lngDelta);
+  const east = wrapLongitude(center.longitude + lngDelta);
+
+  return [
+    { latitude: center.latitude, longitude: center.longitude },
+    { latitude: center.latitude, longitude: west },
+    { latitude: center.latitude, longitude: east },
+    { latitude: latNorth, longitude: center.longitude },
+    { latitude: latNorth, longitude: west },
+    { latitude: latNorth, longitude: east },
+    { latitude: latSouth, longitude: center.longitude },
+    { latitude: latSouth, longitude: west },
+    { latitude: latSouth, longitude: east },
+  ];
+}
+
+function metersToLongitudeDegrees(distanceM: number, latitude: number): number {
+  const radians = (latitude * Math.PI) / 180;
+  const numerator = (Math.cos(radians) * EARTH_EQUATORIAL_RADIUS_M * Math.PI) / 180;
+  const denominator = 1 / Math.sqrt(1 - EARTH_ECCENTRICITY_SQUARED * Math.sin(radians) * Math.sin(radians));
+  const degreeLength = numerator * denominator;
+
+  if (degreeLength < EPSILON) {
+    return distanceM > 0 ? 360 : 0;
+  }
+  return Math.min(360, distanceM / degreeLength);
+}
+
+function longitudeBitsForResolution(resolutionM: number, latitude: number): number {
+  const degrees = metersToLongitudeDegrees(resolutionM, latitude);
+  return Math.abs(degrees) > 0.000001 ? Math.max(1, Math.log2(360 / degrees)) : 1;
+}
+
+function latitudeBitsForResolution(resolutionM: number): number {
+  return Math.min(Math.log2(EARTH_MERIDIONAL_CIRCUMFERENCE_M / 2 / resolutionM), MAXIMUM_BITS_PRECISION);
+}
+
+function wrapLongitude(longitude: number): number {
+  if (longitude <= 180 && longitude >= -180) {
+    return longitude;
+  }
+  const adjusted = longitude + 180;
+  if (adjusted > 0) {
+    return (adjusted % 360) - 180;
+  }
+  return 180 - (-adjusted % 360);
+}
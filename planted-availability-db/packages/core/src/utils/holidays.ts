@@ -0,0 +1,213 @@
+import { HOLIDAY_CALENDARS, type HolidayDefinition, type HolidayRule } from '../constants/holidays.js';
+import type { Address, OpeningHours, Venue } from '../types/venue.js';
+import type { Chain } from '../types/chain.js';
+
+export interface PublicHoliday {
+  date: string; // YYYY-MM-DD format
+  name: string;
+  /** Only observed in some regions */
+  regional: boolean;
+}
+
+/**
+ * Days around "now" covered by applyHolidayClosures: the days before (for
+ * ranges past midnight and timezones ahead of UTC) through the week searched by getNextOpeningTime
+ */
+const HOLIDAY_WINDOW_DAYS = { before: 2, after: 9 };
+
+function formatDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatDate(year, month, day + days);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekend(date: string): boolean {
+  const weekday = weekdayOf(date);
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Easter Sunday (Gregorian, anonymous algorithm) as YYYY-MM-DD
+ */
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDate(year, month, day);
+}
+
+function resolveRule(rule: HolidayRule, year: number): string {
+  switch (rule.type) {
+    case 'fixed':
+      return formatDate(year, rule.month, rule.day);
+    case 'easter': {
+      const [, month, day] = getEasterSunday(year).split('-').map(Number);
+      return formatDate(year, month, day + rule.offset);
+    }
+    case 'nth_weekday': {
+      if (rule.n > 0) {
+        const firstWeekday = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+        return formatDate(year, rule.month, 1 + ((rule.weekday - firstWeekday + 7) % 7) + (rule.n - 1) * 7);
+      }
+      // Day 0 of the next month is the last day of this one
+      const lastDay = new Date(Date.UTC(year, rule.month, 0));
+      const back = (lastDay.getUTCDay() - rule.weekday + 7) % 7;
+      return formatDate(year, rule.month, lastDay.getUTCDate() - back + (rule.n + 1) * 7);
+    }
+    case 'weekday_before': {
+      const weekday = new Date(Date.UTC(year, rule.month - 1, rule.day)).getUTCDay();
+      return formatDate(year, rule.month, rule.day - (((weekday - rule.weekday + 6) % 7) + 1));
+    }
+  }
+}
+
+function observedDate(holiday: HolidayDefinition, year: number): string {
+  const date = resolveRule(holiday.rule, year);
+  return holiday.weekend === 'sunday_to_saturday' && weekdayOf(date) === 0 ? addDays(date, -1) : date;
+}
+
+function isObservedIn(holiday: HolidayDefinition, region: string | undefined): boolean {
+  if (holiday.regions) {
+    return region !== undefined && holiday.regions.includes(region);
+  }
+  if (holiday.exceptRegions && region) {
+    return !holiday.exceptRegions.includes(region);
+  }
+  return true;
+}
+
+function calendarCode(country: string): string {
+  const code = country.toUpperCase();
+  return code === 'GB' ? 'UK' : code;
+}
+
+/**
+ * Whether some of a country's public holidays depend on Address.region
+ */
+export function hasRegionalHolidays(country: string): boolean {
+  return (HOLIDAY_CALENDARS[calendarCode(country)] ?? []).some(
+    (holiday) => holiday.regions !== undefined || holiday.exceptRegions !== undefined
+  );
+}
+
+/**
+ * Public holidays of a country in a year, optionally including the
+ * holidays of a region (canton/state). Without a region only holidays
+ * observed (nearly) nationwide are returned.
+ */
+export function getPublicHolidays(country: string, year: number, region?: string): PublicHoliday[] {
+  const calendar = HOLIDAY_CALENDARS[calendarCode(country)] ?? [];
+  const regionCode = region?.toUpperCase();
+
+  const observed = calendar
+    .filter((holiday) => isObservedIn(holiday, regionCode))
+    .map((holiday) => ({ holiday, date: observedDate(holiday, year) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const holidays: PublicHoliday[] = observed.map(({ holiday, date }) => ({
+    date,
+    name: holiday.name,
+    regional: holiday.regions !== undefined,
+  }));
+
+  // Weekend holidays with a substitute day take the next weekday that isn't
+  // a holiday already (Christmas and Boxing Day on a weekend: Mon and Tue)
+  const taken = new Set(holidays.map((h) => h.date));
+  for (const { holiday, date } of observed) {
+    if (holiday.weekend !== 'substitute_next_weekday' || !isWeekend(date)) continue;
+
+    let substitute = addDays(date, 1);
+    while (isWeekend(substitute) || taken.has(substitute)) {
+      substitute = addDays(substitute, 1);
+    }
+    taken.add(substitute);
+    holidays.push({
+      date: substitute,
+      name: `${holiday.name} (substitute day)`,
+      regional: holiday.regions !== undefined,
+    });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The public holiday on a date (YYYY-MM-DD), or null
+ */
+export function getPublicHoliday(date: string, country: string, region?: string): PublicHoliday | null {
+  const year = Number(date.slice(0, 4));
+  return getPublicHolidays(country, year, region).find((h) => h.date === date) ?? null;
+}
+
+/**
+ * Whether a venue closes on public holidays: the venue setting wins,
+ * otherwise the chain's, otherwise no
+ */
+export function closesOnHolidays(
+  venue: Pick<Venue, 'closes_on_holidays'>,
+  chain?: Pick<Chain, 'closes_on_holidays'> | null
+): boolean {
+  return venue.closes_on_holidays ?? chain?.closes_on_holidays ?? false;
+}
+
+/**
+ * Add 'closed' exceptions for public holidays around `now`.
+ * Exceptions already set for a date (special holiday hours) are kept.
+ */
+export function applyHolidayClosures(
+  openingHours: OpeningHours,
+  address: Pick<Address, 'country' | 'region'>,
+  now: Date = new Date()
+): OpeningHours {
+  const from = new Date(now.getTime() - HOLIDAY_WINDOW_DAYS.before * 86400000).toISOString().split('T')[0];
+  const to = new Date(now.getTime() + HOLIDAY_WINDOW_DAYS.after * 86400000).toISOString().split('T')[0];
+
+  const years = new Set([Number(from.slice(0, 4)), Number(to.slice(0, 4))]);
+  const existing = new Set(openingHours.exceptions?.map((e) => e.date));
+  const closures = [...years]
+    .flatMap((year) => getPublicHolidays(address.country, year, address.region))
+    .filter((h) => h.date >= from && h.date <= to && !existing.has(h.date))
+    .map((h) => ({ date: h.date, hours: 'closed' as const }));
+
+  if (closures.length === 0) {
+    return openingHours;
+  }
+
+  return {
+    ...openingHours,
+    exceptions: [...(openingHours.exceptions ?? []), ...closures],
+  };
+}
+
+/**
+ * Opening hours to evaluate for a venue: its own hours, plus holiday
+ * closures when the venue (or its chain) closes on public holidays
+ */
+export function getEffectiveOpeningHours(
+  venue: Pick<Venue, 'opening_hours' | 'closes_on_holidays'> & { address: Pick<Address, 'country' | 'region'> },
+  chain?: Pick<Chain, 'closes_on_holidays'> | null,
+  now: Date = new Date()
+): OpeningHours | undefined {
+  if (!venue.opening_hours || !closesOnHolidays(venue, chain)) {
+    return venue.opening_hours;
+  }
+  return applyHolidayClosures(venue.opening_hours, venue.address, now);
+}
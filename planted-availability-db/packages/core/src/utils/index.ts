@@ -1,3 +1,7 @@
 export * from './geo.js';
+export * from './geohash.js';
 export * from './time.js';
+export * from './holidays.js';
 export * from './currency.js';
+export * from './confidence.js';
+export * from './cursor.js';
@@ -4,24 +4,164 @@ const DAYS_OF_WEEK: DayOfWeek[] = [
   'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
 ];
 
+/**
+ * Opening status of a venue at a given moment
+ */
+export interface VenueOpenStatus {
+  is_open: boolean;
+  /** 'closes_soon' when open and closing within the closes-soon window */
+  status: 'open' | 'closes_soon' | 'closed';
+  /** When the current opening range ends (null when closed) */
+  closes_at: Date | null;
+  /** Next opening within a week (null when open or no upcoming hours) */
+  opens_at: Date | null;
+}
+
+/** How long before closing a venue counts as "closes soon" */
+export const CLOSES_SOON_MINUTES = 30;
+
+interface LocalDateTime {
+  /** Local calendar date (YYYY-MM-DD), matched against exceptions */
+  date: string;
+  day: DayOfWeek;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time in a timezone (host timezone when omitted)
+ */
+function getLocalDateTime(now: Date, timezone?: string): LocalDateTime {
+  let year: number, month: number, day: number, hours: number, minutes: number;
+
+  if (timezone) {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timezone).formatToParts(now)) {
+      parts[part.type] = part.value;
+    }
+    [year, month, day, hours, minutes] = [parts.year, parts.month, parts.day, parts.hour, parts.minute].map(Number);
+  } else {
+    [year, month, day, hours, minutes] = [
+      now.getFullYear(), now.getMonth() + 1, now.getDate(), now.getHours(), now.getMinutes(),
+    ];
+  }
+
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return { date, day: getDayOfWeek(date), minutes: hours * 60 + minutes };
+}
+
+function getDayOfWeek(date: string): DayOfWeek {
+  const [year, month, day] = date.split('-').map(Number);
+  return DAYS_OF_WEEK[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Instant at which a local date/time occurs in a timezone (host timezone when omitted)
+ */
+function toInstant(date: string, minutes: number, timezone?: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!timezone) {
+    return new Date(year, month - 1, day, 0, minutes);
+  }
+
+  // Treat the wall-clock time as UTC, then correct by the zone's offset at
+  // that instant (twice, in case the first guess lands across a DST change)
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalDateTime(new Date(instant), timezone);
+    const [y, m, d] = local.date.split('-').map(Number);
+    const offset = Date.UTC(y, m - 1, d, 0, local.minutes) - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Ranges for a local date: the exception for that date if there is one,
+ * otherwise the regular hours for its weekday
+ */
+function getRangesForDate(openingHours: OpeningHours, date: string): TimeRange[] {
+  const exception = openingHours.exceptions?.find((e) => e.date === date);
+  if (exception) {
+    return exception.hours === 'closed' ? [] : exception.hours;
+  }
+  return openingHours.regular[getDayOfWeek(date)] ?? [];
+}
+
+/**
+ * Whether a range runs past midnight (e.g. 18:00-02:00)
+ */
+function isOvernight(range: TimeRange): boolean {
+  return parseTimeToMinutes(range.close) <= parseTimeToMinutes(range.open);
+}
+
+/**
+ * End of the range the venue is currently open in, or null when closed.
+ * Overnight ranges belong to the day they open on, so after midnight the
+ * previous day's ranges (and exceptions) apply.
+ */
+function findClosingTime(openingHours: OpeningHours, local: LocalDateTime, timezone?: string): Date | null {
+  for (const range of getRangesForDate(openingHours, local.date)) {
+    const open = parseTimeToMinutes(range.open);
+    const close = parseTimeToMinutes(range.close);
+    if (local.minutes < open) continue;
+    if (isOvernight(range)) {
+      return toInstant(addDays(local.date, 1), close, timezone);
+    }
+    if (local.minutes < close) {
+      return toInstant(local.date, close, timezone);
+    }
+  }
+
+  for (const range of getRangesForDate(openingHours, addDays(local.date, -1))) {
+    const close = parseTimeToMinutes(range.close);
+    if (isOvernight(range) && local.minutes < close) {
+      return toInstant(local.date, close, timezone);
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get the current day of week
  */
-export function getCurrentDayOfWeek(timezone?: string): DayOfWeek {
-  const date = timezone
-    ? new Date(new Date().toLocaleString('en-US', { timeZone: timezone }))
-    : new Date();
-  return DAYS_OF_WEEK[date.getDay()];
+export function getCurrentDayOfWeek(timezone?: string, now: Date = new Date()): DayOfWeek {
+  return getLocalDateTime(now, timezone).day;
 }
 
 /**
  * Get current time in HH:MM format
  */
-export function getCurrentTime(timezone?: string): string {
-  const date = timezone
-    ? new Date(new Date().toLocaleString('en-US', { timeZone: timezone }))
-    : new Date();
-  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+export function getCurrentTime(timezone?: string, now: Date = new Date()): string {
+  const { minutes } = getLocalDateTime(now, timezone);
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
 }
 
 /**
@@ -33,7 +173,7 @@ export function parseTimeToMinutes(time: string): number {
 }
 
 /**
- * Check if a time is within a time range
+ * Check if a time is within a time range (closing time excluded)
  */
 export function isTimeInRange(time: string, range: TimeRange): boolean {
   const timeMinutes = parseTimeToMinutes(time);
@@ -41,11 +181,43 @@ export function isTimeInRange(time: string, range: TimeRange): boolean {
   const closeMinutes = parseTimeToMinutes(range.close);
 
   // Handle overnight hours (e.g., open: 22:00, close: 02:00)
-  if (closeMinutes < openMinutes) {
-    return timeMinutes >= openMinutes || timeMinutes <= closeMinutes;
+  if (closeMinutes <= openMinutes) {
+    return timeMinutes >= openMinutes || timeMinutes < closeMinutes;
   }
 
-  return timeMinutes >= openMinutes && timeMinutes <= closeMinutes;
+  return timeMinutes >= openMinutes && timeMinutes < closeMinutes;
+}
+
+/**
+ * Get a venue's opening status: open/closes soon/closed, with the closing
+ * time or next opening time.
+ *
+ * Opening hours are local times, so pass the venue's timezone
+ * (getMarketTimezone(venue.address.country)).
+ */
+export function getVenueOpenStatus(
+  openingHours: OpeningHours | undefined | null,
+  timezone?: string,
+  now: Date = new Date(),
+  closesSoonMinutes: number = CLOSES_SOON_MINUTES
+): VenueOpenStatus {
+  // Handle undefined or null opening hours
+  if (!openingHours || !openingHours.regular) {
+    return { is_open: false, status: 'closed', closes_at: null, opens_at: null };
+  }
+
+  const closesAt = findClosingTime(openingHours, getLocalDateTime(now, timezone), timezone);
+  if (closesAt) {
+    const closesSoon = closesAt.getTime() - now.getTime() <= closesSoonMinutes * 60 * 1000;
+    return { is_open: true, status: closesSoon ? 'closes_soon' : 'open', closes_at: closesAt, opens_at: null };
+  }
+
+  return {
+    is_open: false,
+    status: 'closed',
+    closes_at: null,
+    opens_at: getNextOpeningTime(openingHours, timezone, now),
+  };
 }
 
 /**
@@ -53,34 +225,15 @@ export function isTimeInRange(time: string, range: TimeRange): boolean {
  */
 export function isVenueOpen(
   openingHours: OpeningHours | undefined | null,
-  timezone?: string
+  timezone?: string,
+  now: Date = new Date()
 ): boolean {
   // Handle undefined or null opening hours
   if (!openingHours || !openingHours.regular) {
     return false;
   }
 
-  const now = timezone
-    ? new Date(new Date().toLocaleString('en-US', { timeZone: timezone }))
-    : new Date();
-  const today = now.toISOString().split('T')[0];
-  const currentDay = getCurrentDayOfWeek(timezone);
-  const currentTime = getCurrentTime(timezone);
-
-  // Check for exceptions first (holidays, special dates)
-  if (openingHours.exceptions) {
-    const exception = openingHours.exceptions.find((e) => e.date === today);
-    if (exception) {
-      if (exception.hours === 'closed') return false;
-      return exception.hours.some((range) => isTimeInRange(currentTime, range));
-    }
-  }
-
-  // Check regular hours
-  const todayHours = openingHours.regular[currentDay];
-  if (!todayHours || todayHours.length === 0) return false;
-
-  return todayHours.some((range) => isTimeInRange(currentTime, range));
+  return findClosingTime(openingHours, getLocalDateTime(now, timezone), timezone) !== null;
 }
 
 /**
@@ -88,48 +241,26 @@ export function isVenueOpen(
  */
 export function getNextOpeningTime(
   openingHours: OpeningHours | undefined | null,
-  timezone?: string
+  timezone?: string,
+  now: Date = new Date()
 ): Date | null {
   // Handle undefined or null opening hours
   if (!openingHours || !openingHours.regular) {
     return null;
   }
 
-  const now = timezone
-    ? new Date(new Date().toLocaleString('en-US', { timeZone: timezone }))
-    : new Date();
+  const local = getLocalDateTime(now, timezone);
 
   // Check up to 7 days ahead
-  for (let daysAhead = 0; daysAhead < 7; daysAhead++) {
-    const checkDate = new Date(now);
-    checkDate.setDate(checkDate.getDate() + daysAhead);
-
-    const dayOfWeek = DAYS_OF_WEEK[checkDate.getDay()];
-    const dateStr = checkDate.toISOString().split('T')[0];
-
-    // Check exceptions
-    if (openingHours.exceptions) {
-      const exception = openingHours.exceptions.find((e) => e.date === dateStr);
-      if (exception) {
-        if (exception.hours === 'closed') continue;
-        const firstOpen = exception.hours[0];
-        if (firstOpen) {
-          const [hours, minutes] = firstOpen.open.split(':').map(Number);
-          checkDate.setHours(hours, minutes, 0, 0);
-          if (checkDate > now) return checkDate;
-        }
-        continue;
-      }
-    }
+  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+    const date = addDays(local.date, daysAhead);
+    const opens = getRangesForDate(openingHours, date)
+      .map((range) => parseTimeToMinutes(range.open))
+      .filter((open) => daysAhead > 0 || open > local.minutes)
+      .sort((a, b) => a - b);
 
-    // Check regular hours
-    const dayHours = openingHours.regular[dayOfWeek];
-    if (dayHours && dayHours.length > 0) {
-      for (const range of dayHours) {
-        const [hours, minutes] = range.open.split(':').map(Number);
-        checkDate.setHours(hours, minutes, 0, 0);
-        if (checkDate > now) return checkDate;
-      }
+    if (opens.length > 0) {
+      return toInstant(date, opens[0], timezone);
     }
   }
 
@@ -141,31 +272,16 @@ export function getNextOpeningTime(
  */
 export function getTodayHoursString(
   openingHours: OpeningHours | undefined | null,
-  timezone?: string
+  timezone?: string,
+  now: Date = new Date()
 ): string {
   // Handle undefined or null opening hours
   if (!openingHours || !openingHours.regular) {
     return 'Hours not available';
   }
 
-  const now = timezone
-    ? new Date(new Date().toLocaleString('en-US', { timeZone: timezone }))
-    : new Date();
-  const today = now.toISOString().split('T')[0];
-  const currentDay = getCurrentDayOfWeek(timezone);
-
-  // Check exceptions
-  if (openingHours.exceptions) {
-    const exception = openingHours.exceptions.find((e) => e.date === today);
-    if (exception) {
-      if (exception.hours === 'closed') return 'Closed';
-      return exception.hours.map((r) => `${r.open} - ${r.close}`).join(', ');
-    }
-  }
-
-  // Regular hours
-  const todayHours = openingHours.regular[currentDay];
-  if (!todayHours || todayHours.length === 0) return 'Closed';
+  const todayHours = getRangesForDate(openingHours, getLocalDateTime(now, timezone).date);
+  if (todayHours.length === 0) return 'Closed';
 
   return todayHours.map((r) => `${r.open} - ${r.close}`).join(', ');
 }
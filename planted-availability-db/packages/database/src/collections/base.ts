@@ -16,6 +16,15 @@ export interface QueryOptions {
   };
 }
 
+/**
+ * Sort key and ID of the last document of a page ordered by created_at
+ * (then document ID), to continue the query after it
+ */
+export interface CreatedAtCursor {
+  created_at: Date;
+  id: string;
+}
+
 export interface BatchOperation<T> {
   type: 'create' | 'update' | 'delete';
   id?: string;
@@ -29,6 +29,7 @@ export class ChainsCollection {
       markets: data.markets || [],
       partnership_level: data.partnership_level,
       contact: data.contact,
+      closes_on_holidays: data.closes_on_holidays,
     };
   }
 
@@ -1,5 +1,5 @@
 import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
-import { BaseCollection, type QueryOptions } from './base.js';
+import { BaseCollection, type QueryOptions, type CreatedAtCursor } from './base.js';
 import { timestampToDate, createTimestamp } from '../firestore.js';
 import type { Dish, VenueStatus } from '@pad/core';
 
@@ -9,6 +9,7 @@ export interface DishQueryOptions extends QueryOptions {
   plantedProducts?: string[];
   cuisineType?: string;
   dietaryTags?: string[];
+  startAfter?: CreatedAtCursor;
 }
 
 export class DishesCollection extends BaseCollection<Dish> {
@@ -153,14 +154,19 @@ export class DishesCollection extends BaseCollection<Dish> {
       query = query.where('planted_products', 'array-contains-any', options.plantedProducts);
     }
 
-    if (options.limit) {
-      query = query.limit(options.limit);
-    }
+    // Document ID breaks created_at ties, so cursors point at a single document
+    query = query.orderBy('__name__', 'desc');
 
-    if (options.offset) {
+    if (options.startAfter) {
+      query = query.startAfter(createTimestamp(options.startAfter.created_at), options.startAfter.id);
+    } else if (options.offset) {
       query = query.offset(options.offset);
     }
 
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
     const snapshot = await query.get();
     let dishes = snapshot.docs.map((doc) => this.fromFirestore(doc));
 
@@ -0,0 +1,407 @@
+/**
+ * Failed Operations Collection
+ *
+ * Dead letter queue (DLQ) for failed scraper, extraction and sync
+ * operations. Operations are retried with exponential backoff and escalated
+ * to manual review after max_attempts.
+ *
+ * Retry Schedule (delay after the n-th failed attempt):
+ * - 1: 5 min, 2: 30 min, 3: 2 hours, 4: 6 hours
+ * - After 5 attempts: requires_manual
+ */
+
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
+import { getFirestore, timestampToDate, createTimestamp, generateId } from '../firestore.js';
+import type { FailedOperation, OperationStatus, OperationType, DLQStats } from '@pad/core';
+
+export const FAILED_OPERATION_MAX_ATTEMPTS = 5;
+
+// Exponential backoff delays in milliseconds, indexed by attempts so far
+const RETRY_DELAYS_MS = [
+  0, // Not attempted yet: immediate
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  6 * 60 * 60 * 1000, // 6 hours
+];
+
+export interface CreateFailedOperationInput {
+  type: OperationType;
+  venue_id?: string;
+  platform?: string;
+  error: string;
+  stack?: string;
+  /** Attempts made so far (default 1: the original attempt) */
+  attempts?: number;
+  max_attempts?: number;
+  context?: Record<string, unknown>;
+}
+
+export interface FailedOperationQueryOptions {
+  status?: OperationStatus;
+  type?: OperationType;
+  platform?: string;
+  venue_id?: string;
+  before_date?: Date;
+  after_date?: Date;
+  limit?: number;
+}
+
+/**
+ * Failed Operations Collection
+ */
+export class FailedOperationsCollection {
+  private collectionName = 'failed_operations';
+
+  private get db() {
+    return getFirestore();
+  }
+
+  private get collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  protected fromFirestore(doc: QueryDocumentSnapshot): FailedOperation {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      type: data.type,
+      venue_id: data.venue_id || undefined,
+      platform: data.platform || undefined,
+      error: data.error,
+      stack: data.stack || undefined,
+      attempts: data.attempts,
+      max_attempts: data.max_attempts,
+      created_at: timestampToDate(data.created_at),
+      last_attempt_at: timestampToDate(data.last_attempt_at),
+      next_retry_at: data.next_retry_at ? timestampToDate(data.next_retry_at) : undefined,
+      status: data.status,
+      context: data.context || undefined,
+      manual_review_reason: data.manual_review_reason || undefined,
+      resolved_at: data.resolved_at ? timestampToDate(data.resolved_at) : undefined,
+      resolved_by: data.resolved_by || undefined,
+    };
+  }
+
+  protected toFirestore(data: Partial<FailedOperation>): DocumentData {
+    const result: DocumentData = { ...data };
+    delete result.id;
+
+    if (data.created_at) {
+      result.created_at = createTimestamp(data.created_at);
+    }
+    if (data.last_attempt_at) {
+      result.last_attempt_at = createTimestamp(data.last_attempt_at);
+    }
+    if (data.next_retry_at) {
+      result.next_retry_at = createTimestamp(data.next_retry_at);
+    } else if ('next_retry_at' in data) {
+      // No further retries scheduled
+      result.next_retry_at = null;
+    }
+    if (data.resolved_at) {
+      result.resolved_at = createTimestamp(data.resolved_at);
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a failed operation
+   *
+   * If the same operation (type, venue, platform and context.entity_id) is
+   * already open, that entry is updated with the new error instead of
+   * queueing a duplicate.
+   */
+  async queue(input: CreateFailedOperationInput): Promise<FailedOperation> {
+    const now = new Date();
+
+    const existing = await this.findOpen(input);
+    if (existing) {
+      const attempts = existing.attempts + (input.attempts ?? 1);
+      const updates = this.attemptUpdate(attempts, existing.max_attempts, now);
+      await this.collection.doc(existing.id).update(
+        this.toFirestore({
+          ...updates,
+          error: input.error,
+          stack: input.stack,
+          context: input.context ?? existing.context,
+        })
+      );
+      return { ...existing, ...updates, error: input.error, stack: input.stack };
+    }
+
+    const id = generateId(this.collectionName);
+    const maxAttempts = input.max_attempts ?? FAILED_OPERATION_MAX_ATTEMPTS;
+    const operation: FailedOperation = {
+      id,
+      type: input.type,
+      venue_id: input.venue_id,
+      platform: input.platform,
+      error: input.error,
+      stack: input.stack,
+      created_at: now,
+      context: input.context,
+      ...this.attemptUpdate(input.attempts ?? 1, maxAttempts, now),
+      max_attempts: maxAttempts,
+    };
+
+    await this.collection.doc(id).set(this.toFirestore(operation));
+    return operation;
+  }
+
+  /**
+   * Get an operation by ID
+   */
+  async getById(id: string): Promise<FailedOperation | null> {
+    const doc = await this.collection.doc(id).get();
+    if (!doc.exists) return null;
+    return this.fromFirestore(doc as QueryDocumentSnapshot);
+  }
+
+  /**
+   * Query operations, newest first
+   */
+  async query(options: FailedOperationQueryOptions = {}): Promise<FailedOperation[]> {
+    let query = this.collection.orderBy('created_at', 'desc');
+
+    if (options.status) {
+      query = query.where('status', '==', options.status);
+    }
+
+    if (options.type) {
+      query = query.where('type', '==', options.type);
+    }
+
+    if (options.platform) {
+      query = query.where('platform', '==', options.platform);
+    }
+
+    if (options.venue_id) {
+      query = query.where('venue_id', '==', options.venue_id);
+    }
+
+    if (options.after_date) {
+      query = query.where('created_at', '>=', createTimestamp(options.after_date));
+    }
+
+    if (options.before_date) {
+      query = query.where('created_at', '<=', createTimestamp(options.before_date));
+    }
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => this.fromFirestore(doc));
+  }
+
+  /**
+   * Operations whose next retry is due, oldest due first
+   */
+  async getRetryable(options: { types?: OperationType[]; limit?: number } = {}): Promise<FailedOperation[]> {
+    let query = this.collection.where('status', '==', 'pending_retry');
+
+    if (options.types) {
+      query = query.where('type', 'in', options.types);
+    }
+
+    const snapshot = await query
+      .where('next_retry_at', '<=', createTimestamp(new Date()))
+      .orderBy('next_retry_at', 'asc')
+      .limit(options.limit ?? 50)
+      .get();
+
+    return snapshot.docs.map((doc) => this.fromFirestore(doc));
+  }
+
+  /**
+   * Record a failed retry: schedules the next one with backoff, or escalates
+   * to manual review once max_attempts is reached
+   */
+  async recordAttempt(id: string, error?: string): Promise<FailedOperation> {
+    const operation = await this.getById(id);
+    if (!operation) {
+      throw new Error(`Failed operation not found: ${id}`);
+    }
+
+    const updates = this.attemptUpdate(operation.attempts + 1, operation.max_attempts, new Date());
+    await this.collection.doc(id).update(
+      this.toFirestore({ ...updates, ...(error !== undefined && { error }) })
+    );
+
+    return { ...operation, ...updates, error: error ?? operation.error };
+  }
+
+  /**
+   * Make an operation due for retry now (manual retry)
+   *
+   * Operations escalated to manual review get one more attempt.
+   */
+  async scheduleRetry(id: string): Promise<void> {
+    const operation = await this.getById(id);
+    if (!operation) {
+      throw new Error(`Failed operation not found: ${id}`);
+    }
+
+    await this.collection.doc(id).update({
+      status: 'pending_retry',
+      next_retry_at: createTimestamp(new Date()),
+      max_attempts: Math.max(operation.max_attempts, operation.attempts + 1),
+    });
+  }
+
+  /**
+   * Mark an operation as resolved
+   */
+  async markResolved(id: string, resolvedBy?: string): Promise<void> {
+    await this.collection.doc(id).update({
+      status: 'resolved',
+      next_retry_at: null,
+      resolved_at: createTimestamp(new Date()),
+      ...(resolvedBy && { resolved_by: resolvedBy }),
+    });
+  }
+
+  /**
+   * Resolve all open operations of a type for a venue (e.g. after the venue
+   * was processed successfully by a regular run)
+   */
+  async resolveOpenForVenue(type: OperationType, venueId: string, platform?: string): Promise<number> {
+    let query = this.collection.where('venue_id', '==', venueId).where('type', '==', type);
+    if (platform) {
+      query = query.where('platform', '==', platform);
+    }
+
+    const snapshot = await query.get();
+    const open = snapshot.docs.filter((doc) => doc.data().status !== 'resolved');
+    if (open.length === 0) return 0;
+
+    const batch = this.db.batch();
+    const resolvedAt = createTimestamp(new Date());
+    for (const doc of open) {
+      batch.update(doc.ref, { status: 'resolved', next_retry_at: null, resolved_at: resolvedAt });
+    }
+    await batch.commit();
+
+    return open.length;
+  }
+
+  /**
+   * Mark an operation as requiring manual intervention
+   */
+  async markRequiresManual(id: string, reason?: string): Promise<void> {
+    await this.collection.doc(id).update({
+      status: 'requires_manual',
+      next_retry_at: null,
+      ...(reason && { manual_review_reason: reason }),
+    });
+  }
+
+  /**
+   * Delete an operation
+   */
+  async delete(id: string): Promise<void> {
+    await this.collection.doc(id).delete();
+  }
+
+  /**
+   * Count operations by status, type and platform
+   */
+  async getStats(): Promise<DLQStats> {
+    const snapshot = await this.collection.get();
+
+    const stats: DLQStats = {
+      total_failed: snapshot.size,
+      pending_retry: 0,
+      requires_manual: 0,
+      resolved: 0,
+      by_type: {},
+      by_platform: {},
+    };
+
+    snapshot.docs.forEach((doc) => {
+      const data = doc.data();
+
+      if (data.status === 'pending_retry') {
+        stats.pending_retry++;
+      } else if (data.status === 'requires_manual') {
+        stats.requires_manual++;
+      } else if (data.status === 'resolved') {
+        stats.resolved++;
+      }
+
+      const type = data.type as OperationType;
+      stats.by_type[type] = (stats.by_type[type] || 0) + 1;
+
+      if (data.platform) {
+        stats.by_platform[data.platform] = (stats.by_platform[data.platform] || 0) + 1;
+      }
+    });
+
+    return stats;
+  }
+
+  /**
+   * Delete resolved operations older than the given number of days
+   */
+  async cleanupResolved(olderThanDays = 30): Promise<number> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - olderThanDays);
+
+    const snapshot = await this.collection
+      .where('status', '==', 'resolved')
+      .where('created_at', '<=', createTimestamp(cutoff))
+      .get();
+
+    if (snapshot.empty) return 0;
+
+    const batch = this.db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+
+    return snapshot.size;
+  }
+
+  private async findOpen(input: CreateFailedOperationInput): Promise<FailedOperation | null> {
+    // Only operations tied to a venue can be matched
+    if (!input.venue_id) return null;
+
+    const snapshot = await this.collection
+      .where('venue_id', '==', input.venue_id)
+      .where('type', '==', input.type)
+      .get();
+
+    const entityId = input.context?.entity_id;
+    const doc = snapshot.docs.find((d) => {
+      const data = d.data();
+      return (
+        data.status !== 'resolved' &&
+        (data.platform || undefined) === input.platform &&
+        data.context?.entity_id === entityId
+      );
+    });
+    return doc ? this.fromFirestore(doc) : null;
+  }
+
+  private attemptUpdate(
+    attempts: number,
+    maxAttempts: number,
+    now: Date
+  ): Pick<FailedOperation, 'attempts' | 'last_attempt_at' | 'next_retry_at' | 'status'> {
+    if (attempts >= maxAttempts) {
+      return { attempts, last_attempt_at: now, next_retry_at: undefined, status: 'requires_manual' };
+    }
+
+    const delayMs = RETRY_DELAYS_MS[attempts] ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
+    return {
+      attempts,
+      last_attempt_at: now,
+      next_retry_at: new Date(now.getTime() + delayMs),
+      status: 'pending_retry',
+    };
+  }
+}
+
+export const failedOperations = new FailedOperationsCollection();
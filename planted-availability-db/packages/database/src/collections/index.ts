@@ -9,6 +9,7 @@ export * from './scraper-runs.js';
 export * from './retail-availability.js';
 export * from './partners.js';
 export * from './ingestionBatches.js';
+export * from './partnerCallbacks.js';
 export * from './staging/index.js';
 export * from './discovery-strategies.js';
 export * from './discovery-runs.js';
@@ -21,6 +22,9 @@ export * from './dish-feedback.js';
 export * from './ai-feedback.js';
 export * from './budgetTracking.js';
 export * from './syncHistory.js';
+export * from './menu-changes.js';
+export * from './failed-operations.js';
+export * from './verification-jobs.js';
 
 // Export collection instances for convenience
 export { venues } from './venues.js';
@@ -33,6 +37,7 @@ export { scraperRuns } from './scraper-runs.js';
 export { retailAvailability } from './retail-availability.js';
 export { partners } from './partners.js';
 export { ingestionBatches } from './ingestionBatches.js';
+export { partnerCallbacks } from './partnerCallbacks.js';
 export { stagedVenues, stagedDishes, stagedPromotions, stagedAvailability } from './staging/index.js';
 export { discoveryStrategies } from './discovery-strategies.js';
 export { discoveryRuns } from './discovery-runs.js';
@@ -45,3 +50,6 @@ export { dishFeedback } from './dish-feedback.js';
 export { aiFeedback } from './ai-feedback.js';
 export { budgetTracking } from './budgetTracking.js';
 export { syncHistory } from './syncHistory.js';
+export { menuChanges } from './menu-changes.js';
+export { failedOperations } from './failed-operations.js';
+export { verificationJobs } from './verification-jobs.js';
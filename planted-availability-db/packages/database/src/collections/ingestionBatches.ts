@@ -45,13 +45,15 @@ export class IngestionBatchesCollection {
       partner_id: data.partner_id,
       source: data.source,
       status: data.status,
-      stats: data.stats || {
+      stats: {
         records_received: 0,
         records_valid: 0,
         records_invalid: 0,
         records_staged: 0,
         records_approved: 0,
         records_rejected: 0,
+        records_promoted: 0,
+        ...data.stats,
       },
       processing: {
         started_at: data.processing?.started_at
@@ -136,6 +138,7 @@ export class IngestionBatchesCollection {
         records_staged: 0,
         records_approved: 0,
         records_rejected: 0,
+        records_promoted: 0,
       },
       processing: {},
       received_at: now,
@@ -299,6 +302,26 @@ export class IngestionBatchesCollection {
     await this.collection.doc(id).update(updates);
   }
 
+  /**
+   * Record per-record review progress while a batch is being worked through.
+   * Counts are absolute so repeated calls stay consistent.
+   */
+  async recordReviewProgress(
+    id: string,
+    counts: {
+      approved: number;
+      rejected: number;
+      promoted: number;
+    }
+  ): Promise<void> {
+    await this.collection.doc(id).update({
+      'stats.records_approved': counts.approved,
+      'stats.records_rejected': counts.rejected,
+      'stats.records_promoted': counts.promoted,
+      updated_at: createTimestamp(new Date()),
+    });
+  }
+
   /**
    * Mark batch as failed
    */
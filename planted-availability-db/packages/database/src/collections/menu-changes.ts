@@ -0,0 +1,122 @@
+/**
+ * Menu Changes Collection
+ *
+ * Planted dishes appearing on, disappearing from or changing on a venue's
+ * menu, as detected by the menu snapshot service after each extraction.
+ */
+
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
+import { getFirestore, timestampToDate, createTimestamp } from '../firestore.js';
+import type { MenuChange, MenuChangeType } from '@pad/core';
+
+export interface MenuChangeQueryOptions {
+  venue_id?: string;
+  platform?: string;
+  change_type?: MenuChangeType | MenuChangeType[];
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Menu Changes Collection
+ */
+export class MenuChangesCollection {
+  private collectionName = 'menu_changes';
+
+  private get db() {
+    return getFirestore();
+  }
+
+  private get collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  protected fromFirestore(doc: QueryDocumentSnapshot): MenuChange {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      venue_id: data.venue_id,
+      platform: data.platform,
+      detected_at: timestampToDate(data.detected_at),
+      change_type: data.change_type,
+      dish_name: data.dish_name,
+      planted_product: data.planted_product,
+      old_value: data.old_value,
+      new_value: data.new_value,
+      snapshot_before_id: data.snapshot_before_id,
+      snapshot_after_id: data.snapshot_after_id,
+    };
+  }
+
+  protected toFirestore(data: Partial<MenuChange>): DocumentData {
+    const result: DocumentData = { ...data };
+    delete result.id;
+
+    if (data.detected_at) {
+      result.detected_at = createTimestamp(data.detected_at);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record detected changes in a single batch
+   *
+   * Assigns the generated document IDs to the given changes.
+   */
+  async recordMany(changes: MenuChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const batch = this.db.batch();
+    for (const change of changes) {
+      const ref = this.collection.doc();
+      change.id = ref.id;
+      batch.set(ref, this.toFirestore(change));
+    }
+
+    await batch.commit();
+  }
+
+  /**
+   * Query changes, newest first
+   */
+  async query(options: MenuChangeQueryOptions = {}): Promise<MenuChange[]> {
+    let query = this.collection.orderBy('detected_at', 'desc');
+
+    if (options.venue_id) {
+      query = query.where('venue_id', '==', options.venue_id);
+    }
+
+    if (options.platform) {
+      query = query.where('platform', '==', options.platform);
+    }
+
+    if (options.change_type) {
+      if (Array.isArray(options.change_type)) {
+        query = query.where('change_type', 'in', options.change_type);
+      } else {
+        query = query.where('change_type', '==', options.change_type);
+      }
+    }
+
+    if (options.since) {
+      query = query.where('detected_at', '>=', createTimestamp(options.since));
+    }
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => this.fromFirestore(doc));
+  }
+
+  /**
+   * Most recent changes for a venue
+   */
+  async getByVenue(venueId: string, limit = 20): Promise<MenuChange[]> {
+    return this.query({ venue_id: venueId, limit });
+  }
+}
+
+export const menuChanges = new MenuChangesCollection();
@@ -0,0 +1,217 @@
+/**
+ * Partner Callbacks Collection
+ *
+ * Delivery log for outbound status callbacks to partners. Each document is
+ * one event for one partner, with the full history of delivery attempts.
+ */
+
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
+import { getFirestore, timestampToDate, createTimestamp, generateId } from '../firestore.js';
+import type {
+  PartnerCallbackDelivery,
+  PartnerCallbackEvent,
+  CallbackDeliveryAttempt,
+  CallbackDeliveryStatus,
+} from '@pad/core';
+
+export interface CreateCallbackDeliveryInput {
+  partner_id: string;
+  batch_id?: string;
+  event: PartnerCallbackEvent;
+  url: string;
+  payload: Record<string, unknown>;
+}
+
+export interface CallbackDeliveryQueryOptions {
+  partner_id?: string;
+  batch_id?: string;
+  status?: CallbackDeliveryStatus | CallbackDeliveryStatus[];
+  limit?: number;
+}
+
+/**
+ * Partner Callbacks Collection
+ */
+export class PartnerCallbacksCollection {
+  private collectionName = 'partner_callbacks';
+
+  private get db() {
+    return getFirestore();
+  }
+
+  private get collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  protected fromFirestore(doc: QueryDocumentSnapshot): PartnerCallbackDelivery {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      partner_id: data.partner_id,
+      batch_id: data.batch_id,
+      event: data.event,
+      url: data.url,
+      payload: data.payload || {},
+      status: data.status,
+      attempts: (data.attempts || []).map((a: DocumentData) => ({
+        attempted_at: timestampToDate(a.attempted_at),
+        status_code: a.status_code,
+        error: a.error,
+        duration_ms: a.duration_ms,
+      })),
+      next_attempt_at: data.next_attempt_at ? timestampToDate(data.next_attempt_at) : undefined,
+      delivered_at: data.delivered_at ? timestampToDate(data.delivered_at) : undefined,
+      replayed_at: data.replayed_at ? timestampToDate(data.replayed_at) : undefined,
+      created_at: timestampToDate(data.created_at),
+      updated_at: timestampToDate(data.updated_at),
+    };
+  }
+
+  private attemptsToFirestore(attempts: CallbackDeliveryAttempt[]): DocumentData[] {
+    return attempts.map((a) => {
+      const result: DocumentData = {
+        attempted_at: createTimestamp(a.attempted_at),
+        duration_ms: a.duration_ms,
+      };
+      if (a.status_code !== undefined) result.status_code = a.status_code;
+      if (a.error !== undefined) result.error = a.error;
+      return result;
+    });
+  }
+
+  /**
+   * Create a pending delivery
+   */
+  async create(input: CreateCallbackDeliveryInput): Promise<PartnerCallbackDelivery> {
+    const id = generateId(this.collectionName);
+    const now = new Date();
+
+    const delivery: PartnerCallbackDelivery = {
+      id,
+      partner_id: input.partner_id,
+      batch_id: input.batch_id,
+      event: input.event,
+      url: input.url,
+      payload: input.payload,
+      status: 'pending',
+      attempts: [],
+      created_at: now,
+      updated_at: now,
+    };
+
+    const doc: DocumentData = {
+      partner_id: delivery.partner_id,
+      event: delivery.event,
+      url: delivery.url,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: [],
+      created_at: createTimestamp(now),
+      updated_at: createTimestamp(now),
+    };
+    if (delivery.batch_id) {
+      doc.batch_id = delivery.batch_id;
+    }
+
+    await this.collection.doc(id).set(doc);
+    return delivery;
+  }
+
+  /**
+   * Get delivery by ID
+   */
+  async getById(id: string): Promise<PartnerCallbackDelivery | null> {
+    const doc = await this.collection.doc(id).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return this.fromFirestore(doc as QueryDocumentSnapshot);
+  }
+
+  /**
+   * Append a delivery attempt and move the delivery to its new status
+   */
+  async recordAttempt(
+    id: string,
+    attempt: CallbackDeliveryAttempt,
+    outcome: { status: CallbackDeliveryStatus; next_attempt_at?: Date }
+  ): Promise<void> {
+    const delivery = await this.getById(id);
+    if (!delivery) {
+      throw new Error(`Callback delivery ${id} not found`);
+    }
+
+    const now = new Date();
+    const updates: DocumentData = {
+      attempts: this.attemptsToFirestore([...delivery.attempts, attempt]),
+      status: outcome.status,
+      next_attempt_at: outcome.next_attempt_at ? createTimestamp(outcome.next_attempt_at) : null,
+      updated_at: createTimestamp(now),
+    };
+
+    if (outcome.status === 'delivered') {
+      updates.delivered_at = createTimestamp(now);
+    }
+
+    await this.collection.doc(id).update(updates);
+  }
+
+  /**
+   * Put a failed delivery back in the queue. Attempt history is kept.
+   */
+  async resetForReplay(id: string): Promise<void> {
+    const now = createTimestamp(new Date());
+    await this.collection.doc(id).update({
+      status: 'pending',
+      next_attempt_at: null,
+      replayed_at: now,
+      updated_at: now,
+    });
+  }
+
+  /**
+   * Get retries whose backoff has elapsed
+   */
+  async getDue(limit: number = 50, now: Date = new Date()): Promise<PartnerCallbackDelivery[]> {
+    const snapshot = await this.collection
+      .where('status', '==', 'retrying')
+      .where('next_attempt_at', '<=', createTimestamp(now))
+      .orderBy('next_attempt_at', 'asc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.fromFirestore(doc));
+  }
+
+  /**
+   * Query deliveries, newest first
+   */
+  async query(options: CallbackDeliveryQueryOptions = {}): Promise<PartnerCallbackDelivery[]> {
+    let query = this.collection.orderBy('created_at', 'desc');
+
+    if (options.partner_id) {
+      query = query.where('partner_id', '==', options.partner_id);
+    }
+
+    if (options.batch_id) {
+      query = query.where('batch_id', '==', options.batch_id);
+    }
+
+    if (options.status) {
+      if (Array.isArray(options.status)) {
+        query = query.where('status', 'in', options.status);
+      } else {
+        query = query.where('status', '==', options.status);
+      }
+    }
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => this.fromFirestore(doc));
+  }
+}
+
+export const partnerCallbacks = new PartnerCallbacksCollection();
@@ -185,6 +185,25 @@ export class PartnersCollection {
     }
   }
 
+  /**
+   * Sign an outbound payload (e.g. a status callback) with the partner's
+   * webhook secret, using the same scheme as verifyWebhookSignature:
+   * HMAC-SHA256 of `${timestamp}.${payload}`, hex encoded.
+   * Returns null if the partner has no credentials.
+   */
+  async signPayload(partnerId: string, payload: string, timestamp: string): Promise<string | null> {
+    const credDoc = await this.credentialsCollection.doc(partnerId).get();
+    if (!credDoc.exists) {
+      return null;
+    }
+
+    const credentials = credDoc.data() as PartnerCredentials;
+    return crypto
+      .createHmac('sha256', credentials.webhook_secret_hash)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+
   /**
    * Create a new partner with credentials
    * Returns the partner and plaintext credentials (only time they're available)
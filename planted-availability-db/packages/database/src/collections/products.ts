@@ -34,6 +34,7 @@ export class ProductsCollection {
       markets: data.markets || [],
       retail_only: data.retail_only ?? false,
       active: data.active ?? true,
+      slug: data.slug,
     };
   }
 
@@ -1,4 +1,4 @@
-import type { QueryDocumentSnapshot, DocumentData, WriteBatch } from 'firebase-admin/firestore';
+import type { QueryDocumentSnapshot, DocumentData, WriteBatch, Query } from 'firebase-admin/firestore';
 import { getFirestore, timestampToDate, createTimestamp, generateId } from '../firestore.js';
 import type { Promotion, PromoType } from '@pad/core';
 
@@ -7,11 +7,37 @@ export interface PromotionQueryOptions {
   chainId?: string;
   promoType?: PromoType;
   activeOnly?: boolean;
+  // Valid at some point in the window; takes precedence over activeOnly
+  validBetween?: { from: Date; to: Date };
   productSku?: string;
+  // Market the promotion applies in (see countries)
+  country?: string;
+  // Last promotion of the previous page
+  startAfter?: ValidUntilCursor;
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Position after a promotion in valid_until order (then document ID)
+ */
+export interface ValidUntilCursor {
+  valid_until: Date;
+  id: string;
+}
+
+export interface PromotionPage {
+  // Matching promotions among those read
+  promotions: Promotion[];
+  // Last promotion read, matching or not; null when no promotions follow
+  next: ValidUntilCursor | null;
+}
+
+export interface PromotionCountriesBackfillResult {
+  scanned: number;
+  updated: number;
+}
+
 /**
  * Promotions collection (no updated_at field)
  */
@@ -49,6 +75,7 @@ export class PromotionsCollection {
       terms: data.terms,
       source: data.source,
       active,
+      countries: data.countries,
       created_at: timestampToDate(data.created_at),
     };
   }
@@ -101,9 +128,11 @@ export class PromotionsCollection {
     const id = generateId(this.collectionName);
     const now = new Date();
 
+    const countries = await this.countriesFor(data.venue_id, data.chain_id);
+
     // Note: We intentionally do NOT store 'active' - it's computed in fromFirestore
     const docData = {
-      ...this.toFirestore(data as Partial<Promotion>),
+      ...this.toFirestore({ ...data, countries } as Partial<Promotion>),
       created_at: createTimestamp(now),
     };
 
@@ -116,6 +145,7 @@ export class PromotionsCollection {
       id,
       ...data,
       active,
+      countries,
       created_at: now,
     };
   }
@@ -131,7 +161,16 @@ export class PromotionsCollection {
       throw new Error(`Promotion ${id} not found`);
     }
 
-    await docRef.update(this.toFirestore(data as Partial<Promotion>));
+    const changes: Partial<Promotion> = { ...data };
+    if ('venue_id' in data || 'chain_id' in data) {
+      const current = doc.data()!;
+      changes.countries = await this.countriesFor(
+        'venue_id' in data ? data.venue_id : current.venue_id,
+        'chain_id' in data ? data.chain_id : current.chain_id
+      );
+    }
+
+    await docRef.update(this.toFirestore(changes));
 
     const updated = await this.getById(id);
     if (!updated) {
@@ -151,7 +190,47 @@ export class PromotionsCollection {
    * Query promotions with filters
    */
   async query(options: PromotionQueryOptions = {}): Promise<Promotion[]> {
-    let query = this.collection.orderBy('valid_until', 'asc');
+    const window = this.windowOf(options);
+    let query = this.buildQuery(options, window);
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options.offset) {
+      query = query.offset(options.offset);
+    }
+
+    const snapshot = await query.get();
+    return this.filterRead(snapshot.docs.map((doc) => this.fromFirestore(doc)), options, window);
+  }
+
+  /**
+   * Read one page of promotions in valid_until order
+   * valid_from (and product_sku together with country) are filtered after
+   * reading, so a page can hold fewer than limit promotions while more follow.
+   */
+  async queryPage(options: PromotionQueryOptions & { limit: number }): Promise<PromotionPage> {
+    const window = this.windowOf(options);
+    const snapshot = await this.buildQuery(options, window).limit(options.limit).get();
+    const read = snapshot.docs.map((doc) => this.fromFirestore(doc));
+    const last = read[read.length - 1];
+
+    return {
+      promotions: this.filterRead(read, options, window),
+      next: read.length === options.limit ? { valid_until: last.valid_until, id: last.id } : null,
+    };
+  }
+
+  // Active means valid in the window [now, now]
+  private windowOf(options: PromotionQueryOptions): { from: Date; to: Date } | undefined {
+    const now = new Date();
+    return options.validBetween ?? (options.activeOnly !== false ? { from: now, to: now } : undefined);
+  }
+
+  private buildQuery(options: PromotionQueryOptions, window?: { from: Date; to: Date }): Query {
+    // Document ID breaks valid_until ties, so cursors point at a single document
+    let query = this.collection.orderBy('valid_until', 'asc').orderBy('__name__', 'asc');
 
     if (options.venueId) {
       query = query.where('venue_id', '==', options.venueId);
@@ -165,33 +244,106 @@ export class PromotionsCollection {
       query = query.where('promo_type', '==', options.promoType);
     }
 
-    if (options.productSku) {
+    // Firestore allows one array-contains per query: with both filters the
+    // product is matched in filterRead
+    if (options.country) {
+      query = query.where('countries', 'array-contains', options.country.toUpperCase());
+    } else if (options.productSku) {
       query = query.where('product_skus', 'array-contains', options.productSku);
     }
 
-    if (options.activeOnly !== false) {
-      const now = createTimestamp();
-      query = query.where('valid_until', '>=', now);
+    if (window) {
+      query = query.where('valid_until', '>=', createTimestamp(window.from));
     }
 
-    if (options.limit) {
-      query = query.limit(options.limit);
+    if (options.startAfter) {
+      query = query.startAfter(createTimestamp(options.startAfter.valid_until), options.startAfter.id);
     }
 
-    if (options.offset) {
-      query = query.offset(options.offset);
+    return query;
+  }
+
+  private filterRead(
+    promotions: Promotion[],
+    options: PromotionQueryOptions,
+    window?: { from: Date; to: Date }
+  ): Promotion[] {
+    return promotions.filter(
+      (p) =>
+        // Filter by valid_from in memory (Firestore can't do range queries on two fields)
+        (!window || p.valid_from <= window.to) &&
+        (!options.country || !options.productSku || p.product_skus.includes(options.productSku))
+    );
+  }
+
+  /**
+   * Markets a promotion applies in: the venue's country, or the chain's
+   * markets for chain-wide promotions
+   */
+  private async countriesFor(venueId?: string, chainId?: string): Promise<string[]> {
+    if (venueId) {
+      const venue = await this.db.collection('venues').doc(venueId).get();
+      const country = venue.data()?.address?.country;
+      return typeof country === 'string' ? [country.toUpperCase()] : [];
     }
+    if (chainId) {
+      const chain = await this.db.collection('chains').doc(chainId).get();
+      const markets: unknown[] = chain.data()?.markets ?? [];
+      return markets.filter((m): m is string => typeof m === 'string').map((m) => m.toUpperCase());
+    }
+    return [];
+  }
 
-    const snapshot = await query.get();
-    let promotions = snapshot.docs.map((doc) => this.fromFirestore(doc));
+  /**
+   * Write countries to every promotion whose stored value is missing or out
+   * of date. Promotions without countries never match a country filter, so
+   * this must run once for pre-existing data and after a venue's country or
+   * a chain's markets change.
+   */
+  async backfillCountries(options: { dryRun?: boolean; pageSize?: number } = {}): Promise<PromotionCountriesBackfillResult> {
+    const pageSize = options.pageSize || 400;
+    const result: PromotionCountriesBackfillResult = { scanned: 0, updated: 0 };
+    const countriesByOwner = new Map<string, string[]>();
+    let lastDoc: QueryDocumentSnapshot | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      let query = this.collection.orderBy('__name__').limit(pageSize);
+      if (lastDoc) {
+        query = query.startAfter(lastDoc);
+      }
+
+      const snapshot = await query.get();
+      if (snapshot.empty) break;
+
+      const batch = this.db.batch();
+      let pending = 0;
+
+      for (const doc of snapshot.docs) {
+        result.scanned++;
+        const data = doc.data();
+        // Many promotions share a venue or chain
+        const key = `${data.venue_id ?? ''}|${data.chain_id ?? ''}`;
+        if (!countriesByOwner.has(key)) {
+          countriesByOwner.set(key, await this.countriesFor(data.venue_id, data.chain_id));
+        }
+        const countries = countriesByOwner.get(key)!;
+        if (JSON.stringify(data.countries ?? null) === JSON.stringify(countries)) continue;
+
+        batch.update(doc.ref, { countries });
+        pending++;
+        result.updated++;
+      }
 
-    // Filter by valid_from in memory (Firestore can't do range queries on two fields)
-    if (options.activeOnly !== false) {
-      const now = new Date();
-      promotions = promotions.filter((p) => p.valid_from <= now);
+      if (pending > 0 && !options.dryRun) {
+        await batch.commit();
+      }
+
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      hasMore = snapshot.size === pageSize;
     }
 
-    return promotions;
+    return result;
   }
 
   /**
@@ -1,7 +1,7 @@
 import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
 import { BaseCollection, type QueryOptions } from './base.js';
 import { createTimestamp, timestampToDate } from '../firestore.js';
-import type { RetailAvailability, DataSource } from '@pad/core';
+import type { RetailAvailability, DataSource, FieldChange } from '@pad/core';
 
 export interface RetailAvailabilityQueryOptions extends QueryOptions {
   venue_id?: string;
@@ -9,6 +9,19 @@ export interface RetailAvailabilityQueryOptions extends QueryOptions {
   in_stock?: boolean;
 }
 
+export interface RetailAvailabilityUpsertInput {
+  venue_id: string;
+  product_sku: string;
+  in_stock: boolean;
+  price?: { regular: number; currency: string };
+}
+
+export interface RetailAvailabilityUpsertResult {
+  action: 'created' | 'updated' | 'unchanged';
+  id: string;
+  changes: FieldChange[];
+}
+
 export class RetailAvailabilityCollection extends BaseCollection<RetailAvailability> {
   protected collectionName = 'retail_availability';
 
@@ -112,6 +125,32 @@ export class RetailAvailabilityCollection extends BaseCollection<RetailAvailabil
     return snapshot.docs.map((doc) => this.fromFirestore(doc));
   }
 
+  /**
+   * Get availability of a product at each of the given venues
+   * Firestore 'in' operator supports up to 30 venue IDs per query
+   */
+  async getForVenues(productSku: string, venueIds: string[]): Promise<Map<string, RetailAvailability>> {
+    const chunks: string[][] = [];
+    for (let i = 0; i < venueIds.length; i += 30) {
+      chunks.push(venueIds.slice(i, i + 30));
+    }
+
+    const snapshots = await Promise.all(
+      chunks.map((chunk) =>
+        this.collection.where('product_sku', '==', productSku).where('venue_id', 'in', chunk).get()
+      )
+    );
+
+    const byVenue = new Map<string, RetailAvailability>();
+    for (const snapshot of snapshots) {
+      for (const doc of snapshot.docs) {
+        const availability = this.fromFirestore(doc);
+        byVenue.set(availability.venue_id, availability);
+      }
+    }
+    return byVenue;
+  }
+
   /**
    * Get or create availability for a venue/product combination
    */
@@ -178,6 +217,69 @@ export class RetailAvailabilityCollection extends BaseCollection<RetailAvailabil
     await batch.commit();
   }
 
+  /**
+   * Create or update the record for a venue/product pair.
+   * Returns the field-level changes so callers can write change logs.
+   * Unchanged records still get last_verified bumped.
+   */
+  async upsert(
+    input: RetailAvailabilityUpsertInput,
+    source: DataSource
+  ): Promise<RetailAvailabilityUpsertResult> {
+    const existing = await this.getOrCreate(input.venue_id, input.product_sku);
+    const now = createTimestamp();
+
+    if (!existing) {
+      const ref = this.collection.doc();
+      await ref.set({
+        ...this.toFirestore({
+          venue_id: input.venue_id,
+          product_sku: input.product_sku,
+          in_stock: input.in_stock,
+          price: input.price,
+          last_verified: new Date(),
+          source,
+        }),
+        created_at: now,
+        updated_at: now,
+      });
+
+      const changes: FieldChange[] = [{ field: 'in_stock', before: null, after: input.in_stock }];
+      if (input.price) {
+        changes.push({ field: 'price', before: null, after: input.price });
+      }
+      return { action: 'created', id: ref.id, changes };
+    }
+
+    const changes: FieldChange[] = [];
+    if (existing.in_stock !== input.in_stock) {
+      changes.push({ field: 'in_stock', before: existing.in_stock, after: input.in_stock });
+    }
+    if (
+      input.price &&
+      (existing.price?.regular !== input.price.regular || existing.price?.currency !== input.price.currency)
+    ) {
+      changes.push({ field: 'price', before: existing.price ?? null, after: input.price });
+    }
+
+    const ref = this.collection.doc(existing.id);
+    await ref.update({
+      ...this.toFirestore({
+        in_stock: input.in_stock,
+        price: input.price ?? existing.price,
+        last_verified: new Date(),
+        source,
+      }),
+      updated_at: now,
+    });
+
+    return {
+      action: changes.length > 0 ? 'updated' : 'unchanged',
+      id: existing.id,
+      changes,
+    };
+  }
+
   /**
    * Get stale availability records that need re-verification
    */
@@ -57,6 +57,7 @@ export class StagedDishesCollection {
       staged_venue_id: data.staged_venue_id,
       production_venue_id: data.production_venue_id,
       venue_external_id: data.venue_external_id,
+      production_dish_id: data.production_dish_id,
       data: {
         ...data.data,
         availability: {
@@ -1,13 +1,23 @@
 import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
-import { BaseCollection, type QueryOptions } from './base.js';
+import { BaseCollection, type QueryOptions, type CreatedAtCursor } from './base.js';
 import { createFirestoreGeoPoint, timestampToDate, createTimestamp } from '../firestore.js';
-import type { Venue, VenueType, VenueStatus, GeoPoint } from '@pad/core';
+import { encodeGeohash, getGeohashQueryBounds } from '@pad/core';
+import type {
+  Venue,
+  VenueType,
+  VenueStatus,
+  GeoPoint,
+  GeoJSONGeometry,
+  DeliveryPartner,
+  DeliveryPlatformLink,
+} from '@pad/core';
 
 export interface VenueQueryOptions extends QueryOptions {
   type?: VenueType;
   status?: VenueStatus;
   chainId?: string;
   country?: string;
+  startAfter?: CreatedAtCursor;
 }
 
 export interface NearbyQueryOptions {
@@ -16,6 +26,28 @@ export interface NearbyQueryOptions {
   type?: VenueType;
   status?: VenueStatus;
   limit?: number;
+  // Last venue of the previous page
+  startAfter?: { distance_km: number; id: string };
+}
+
+export interface GeohashBackfillResult {
+  scanned: number;
+  updated: number;
+  skipped: number;
+}
+
+function parseDeliveryZones(value: unknown): Venue['delivery_zones'] {
+  if (!value || Array.isArray(value)) {
+    return value as string[] | undefined;
+  }
+
+  const geometry = value as { type: GeoJSONGeometry['type']; coordinates: unknown };
+  return {
+    type: geometry.type,
+    coordinates: typeof geometry.coordinates === 'string'
+      ? JSON.parse(geometry.coordinates)
+      : geometry.coordinates,
+  } as GeoJSONGeometry;
 }
 
 export class VenuesCollection extends BaseCollection<Venue> {
@@ -34,8 +66,9 @@ export class VenuesCollection extends BaseCollection<Venue> {
       },
       address: data.address,
       opening_hours: data.opening_hours,
-      delivery_zones: data.delivery_zones,
+      delivery_zones: parseDeliveryZones(data.delivery_zones),
       contact: data.contact,
+      closes_on_holidays: data.closes_on_holidays,
       delivery_platforms: data.delivery_platforms,
       source: data.source,
       last_verified: timestampToDate(data.last_verified),
@@ -48,12 +81,21 @@ export class VenuesCollection extends BaseCollection<Venue> {
   protected toFirestore(data: Partial<Venue>): DocumentData {
     const result: DocumentData = { ...data };
 
-    // Convert GeoPoint to Firestore GeoPoint
+    // Convert GeoPoint to Firestore GeoPoint, keeping the geohash in sync
     if (data.location) {
       result.location = createFirestoreGeoPoint(
         data.location.latitude,
         data.location.longitude
       );
+      result.geohash = encodeGeohash(data.location);
+    }
+
+    // Firestore can't store nested arrays, so GeoJSON coordinates are kept as a string
+    if (data.delivery_zones && !Array.isArray(data.delivery_zones)) {
+      result.delivery_zones = {
+        type: data.delivery_zones.type,
+        coordinates: JSON.stringify(data.delivery_zones.coordinates),
+      };
     }
 
     // Convert dates to Firestore Timestamps
@@ -93,62 +135,129 @@ export class VenuesCollection extends BaseCollection<Venue> {
       query = query.where('address.country', '==', options.country);
     }
 
-    if (options.limit) {
-      query = query.limit(options.limit);
-    }
+    // Document ID breaks created_at ties, so cursors point at a single document
+    query = query.orderBy('__name__', 'desc');
 
-    if (options.offset) {
+    if (options.startAfter) {
+      query = query.startAfter(createTimestamp(options.startAfter.created_at), options.startAfter.id);
+    } else if (options.offset) {
       query = query.offset(options.offset);
     }
 
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
     const snapshot = await query.get();
     return snapshot.docs.map((doc) => this.fromFirestore(doc));
   }
 
   /**
    * Query venues near a location
-   * Note: Firestore doesn't support native geo-queries with radius.
-   * This queries all active venues and filters by distance in memory.
-   * For large datasets, consider using Geohash-based queries.
+   * Runs one geohash-prefix range query per covering cell, so every venue
+   * within the radius is found regardless of collection size. The ranges
+   * cover a box larger than the circle, so results are filtered by exact distance.
    */
   async queryNearby(options: NearbyQueryOptions): Promise<(Venue & { distance_km: number })[]> {
-    // Query all active venues (or filtered by status)
-    // For large datasets, this should be optimized with Geohash
-    let query = this.collection.where('status', '==', options.status || 'active');
+    const bounds = getGeohashQueryBounds(options.center, options.radiusKm);
 
-    if (options.type) {
-      query = query.where('type', '==', options.type);
-    }
+    const snapshots = await Promise.all(
+      bounds.map(([start, end]) => {
+        let query = this.collection.where('status', '==', options.status || 'active');
 
-    // Limit to a reasonable number to prevent excessive reads
-    const snapshot = await query.limit(100).get();
-    const venues = snapshot.docs.map((doc) => this.fromFirestore(doc));
-
-    // Calculate bounding box for quick pre-filtering
-    const latDelta = options.radiusKm / 111.32;
-    const lngDelta = options.radiusKm / (111.32 * Math.cos((options.center.latitude * Math.PI) / 180));
-    const minLat = options.center.latitude - latDelta;
-    const maxLat = options.center.latitude + latDelta;
-    const minLng = options.center.longitude - lngDelta;
-    const maxLng = options.center.longitude + lngDelta;
-
-    // Filter by bounding box first, then calculate actual distance
-    const withDistance = venues
-      .filter((venue) => {
-        const lat = venue.location.latitude;
-        const lng = venue.location.longitude;
-        return lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng;
+        if (options.type) {
+          query = query.where('type', '==', options.type);
+        }
+
+        return query.orderBy('geohash').startAt(start).endAt(end).get();
       })
+    );
+
+    // Adjacent ranges never overlap, but dedupe defensively by document ID
+    const venuesById = new Map<string, Venue>();
+    for (const snapshot of snapshots) {
+      for (const doc of snapshot.docs) {
+        if (!venuesById.has(doc.id)) {
+          venuesById.set(doc.id, this.fromFirestore(doc));
+        }
+      }
+    }
+
+    const withDistance = Array.from(venuesById.values())
       .map((venue) => ({
         ...venue,
         distance_km: this.calculateDistance(options.center, venue.location),
       }))
       .filter((venue) => venue.distance_km <= options.radiusKm);
 
-    // Sort by distance and limit
-    return withDistance
-      .sort((a, b) => a.distance_km - b.distance_km)
-      .slice(0, options.limit || 20);
+    // Sort by distance, then ID so that equidistant venues page in a stable order
+    const sorted = withDistance.sort(
+      (a, b) => a.distance_km - b.distance_km || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+
+    const cursor = options.startAfter;
+    const remaining = cursor
+      ? sorted.filter(
+          (venue) =>
+            venue.distance_km > cursor.distance_km ||
+            (venue.distance_km === cursor.distance_km && venue.id > cursor.id)
+        )
+      : sorted;
+
+    return remaining.slice(0, options.limit || 20);
+  }
+
+  /**
+   * Write a geohash to every venue that is missing one or whose stored
+   * geohash no longer matches its location. Venues without geohash are
+   * invisible to queryNearby, so this must run once for pre-existing data.
+   */
+  async backfillGeohashes(options: { dryRun?: boolean; pageSize?: number } = {}): Promise<GeohashBackfillResult> {
+    const pageSize = options.pageSize || 400;
+    const result: GeohashBackfillResult = { scanned: 0, updated: 0, skipped: 0 };
+    let lastDoc: QueryDocumentSnapshot | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      let query = this.collection.orderBy('__name__').limit(pageSize);
+      if (lastDoc) {
+        query = query.startAfter(lastDoc);
+      }
+
+      const snapshot = await query.get();
+      if (snapshot.empty) break;
+
+      const batch = this.db.batch();
+      let pending = 0;
+
+      for (const doc of snapshot.docs) {
+        result.scanned++;
+        const data = doc.data();
+        const latitude = data.location?.latitude;
+        const longitude = data.location?.longitude;
+
+        if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+          result.skipped++;
+          continue;
+        }
+
+        const geohash = encodeGeohash({ latitude, longitude });
+        if (data.geohash === geohash) continue;
+
+        batch.update(doc.ref, { geohash });
+        pending++;
+        result.updated++;
+      }
+
+      if (pending > 0 && !options.dryRun) {
+        await batch.commit();
+      }
+
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      hasMore = snapshot.size === pageSize;
+    }
+
+    return result;
   }
 
   /**
@@ -164,13 +273,20 @@ export class VenuesCollection extends BaseCollection<Venue> {
 
   /**
    * Get stale venues that need re-verification
+   *
+   * Only active venues by default; pass statuses to include venues the
+   * freshness check already marked stale.
    */
-  async getStaleVenues(daysSinceVerification: number = 7, limit: number = 100): Promise<Venue[]> {
+  async getStaleVenues(
+    daysSinceVerification: number = 7,
+    limit: number = 100,
+    statuses: VenueStatus[] = ['active']
+  ): Promise<Venue[]> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysSinceVerification);
 
     const snapshot = await this.collection
-      .where('status', '==', 'active')
+      .where('status', 'in', statuses)
       .where('last_verified', '<', createTimestamp(cutoffDate))
       .orderBy('last_verified', 'asc')
       .limit(limit)
@@ -181,11 +297,24 @@ export class VenuesCollection extends BaseCollection<Venue> {
 
   /**
    * Mark venue as verified
+   *
+   * With a partner, that delivery platform link is marked verified too.
    */
-  async markVerified(id: string): Promise<Venue> {
+  async markVerified(id: string, partner?: DeliveryPartner): Promise<Venue> {
+    const now = new Date();
+
+    let deliveryPlatforms: DeliveryPlatformLink[] | undefined;
+    if (partner) {
+      const venue = await this.getById(id);
+      deliveryPlatforms = venue?.delivery_platforms?.map((link) =>
+        link.partner === partner ? { ...link, active: true, last_verified: now } : link
+      );
+    }
+
     return this.update(id, {
-      last_verified: new Date(),
+      last_verified: now,
       status: 'active',
+      ...(deliveryPlatforms && { delivery_platforms: deliveryPlatforms }),
     } as Partial<Venue>);
   }
 
@@ -196,6 +325,14 @@ export class VenuesCollection extends BaseCollection<Venue> {
     return this.update(id, { status: 'archived' } as Partial<Venue>);
   }
 
+  /**
+   * Replace a venue's delivery zones (postal codes or a Polygon/MultiPolygon);
+   * an empty list clears them
+   */
+  async setDeliveryZones(id: string, zones: string[] | GeoJSONGeometry): Promise<Venue> {
+    return this.update(id, { delivery_zones: zones } as Partial<Venue>);
+  }
+
   /**
    * Mark venue as stale (hasn't been verified recently)
    */
@@ -0,0 +1,328 @@
+/**
+ * Verification Jobs Collection
+ *
+ * Persistent queue of venue re-verification jobs. The daily scraper
+ * orchestrator queues one job per stale venue and delivery platform; the
+ * scrapers' verification worker claims jobs per platform, so concurrency
+ * can be limited per platform across workers.
+ *
+ * Failed jobs are requeued with backoff until max_attempts, then stay
+ * 'failed' (the venue keeps ageing towards archival).
+ */
+
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
+import { getFirestore, timestampToDate, createTimestamp, generateId } from '../firestore.js';
+import type { DeliveryPartner, VerificationJob, VerificationJobStats } from '@pad/core';
+
+export const VERIFICATION_JOB_MAX_ATTEMPTS = 3;
+
+// Backoff before the next attempt, indexed by attempts so far
+const RETRY_DELAYS_MS = [
+  0,
+  30 * 60 * 1000, // 30 minutes
+  4 * 60 * 60 * 1000, // 4 hours
+];
+
+// How long a claimed job may run before it counts as abandoned
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+export interface CreateVerificationJobInput {
+  venue_id: string;
+  venue_name: string;
+  platform: DeliveryPartner;
+  url: string;
+  country: string;
+  max_attempts?: number;
+  scheduled_by?: string;
+}
+
+/**
+ * Verification Jobs Collection
+ */
+export class VerificationJobsCollection {
+  private collectionName = 'verification_jobs';
+
+  private get db() {
+    return getFirestore();
+  }
+
+  private get collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  protected fromFirestore(doc: QueryDocumentSnapshot): VerificationJob {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      venue_id: data.venue_id,
+      venue_name: data.venue_name,
+      platform: data.platform,
+      url: data.url,
+      country: data.country,
+      status: data.status,
+      attempts: data.attempts,
+      max_attempts: data.max_attempts,
+      run_after: timestampToDate(data.run_after),
+      created_at: timestampToDate(data.created_at),
+      updated_at: timestampToDate(data.updated_at),
+      started_at: data.started_at ? timestampToDate(data.started_at) : undefined,
+      completed_at: data.completed_at ? timestampToDate(data.completed_at) : undefined,
+      lease_expires_at: data.lease_expires_at ? timestampToDate(data.lease_expires_at) : undefined,
+      worker_id: data.worker_id || undefined,
+      error: data.error || undefined,
+      scheduled_by: data.scheduled_by || undefined,
+    };
+  }
+
+  protected toFirestore(data: Partial<VerificationJob>): DocumentData {
+    const result: DocumentData = { ...data };
+    delete result.id;
+
+    for (const key of ['run_after', 'created_at', 'updated_at', 'started_at', 'completed_at', 'lease_expires_at'] as const) {
+      const value = data[key];
+      if (value) {
+        result[key] = createTimestamp(value);
+      } else if (key in data) {
+        result[key] = null;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue jobs, skipping venue/platform pairs that already have an open
+   * (queued or running) job
+   */
+  async enqueueMany(inputs: CreateVerificationJobInput[]): Promise<{ queued: VerificationJob[]; skipped: number }> {
+    const open = await this.getOpenJobKeys();
+    const now = new Date();
+    const queued: VerificationJob[] = [];
+    let skipped = 0;
+
+    for (const input of inputs) {
+      const key = `${input.venue_id}:${input.platform}`;
+      if (open.has(key)) {
+        skipped++;
+        continue;
+      }
+      open.add(key);
+
+      queued.push({
+        id: generateId(this.collectionName),
+        venue_id: input.venue_id,
+        venue_name: input.venue_name,
+        platform: input.platform,
+        url: input.url,
+        country: input.country,
+        status: 'queued',
+        attempts: 0,
+        max_attempts: input.max_attempts ?? VERIFICATION_JOB_MAX_ATTEMPTS,
+        run_after: now,
+        created_at: now,
+        updated_at: now,
+        scheduled_by: input.scheduled_by,
+      });
+    }
+
+    // Firestore batches hold at most 500 writes
+    for (let i = 0; i < queued.length; i += 500) {
+      const batch = this.db.batch();
+      for (const job of queued.slice(i, i + 500)) {
+        batch.set(this.collection.doc(job.id), this.toFirestore(job));
+      }
+      await batch.commit();
+    }
+
+    return { queued, skipped };
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getById(id: string): Promise<VerificationJob | null> {
+    const doc = await this.collection.doc(id).get();
+    if (!doc.exists) return null;
+    return this.fromFirestore(doc as QueryDocumentSnapshot);
+  }
+
+  /**
+   * Claim up to `limit` due jobs of a platform for a worker
+   *
+   * The number of jobs already running on the platform (by any worker)
+   * counts towards `maxRunning`, so the per-platform concurrency holds
+   * across workers.
+   */
+  async claim(
+    platform: DeliveryPartner,
+    workerId: string,
+    options: { limit: number; maxRunning: number; leaseMs?: number }
+  ): Promise<VerificationJob[]> {
+    return this.db.runTransaction(async (transaction) => {
+      const running = await transaction.get(
+        this.collection.where('platform', '==', platform).where('status', '==', 'running')
+      );
+      const slots = Math.min(options.limit, options.maxRunning - running.size);
+      if (slots <= 0) return [];
+
+      const due = await transaction.get(
+        this.collection
+          .where('platform', '==', platform)
+          .where('status', '==', 'queued')
+          .where('run_after', '<=', createTimestamp(new Date()))
+          .orderBy('run_after', 'asc')
+          .limit(slots)
+      );
+
+      const now = new Date();
+      const leaseExpiresAt = new Date(now.getTime() + (options.leaseMs ?? DEFAULT_LEASE_MS));
+
+      return due.docs.map((doc) => {
+        const job = this.fromFirestore(doc);
+        const updates: Partial<VerificationJob> = {
+          status: 'running',
+          attempts: job.attempts + 1,
+          started_at: now,
+          updated_at: now,
+          lease_expires_at: leaseExpiresAt,
+          worker_id: workerId,
+        };
+        transaction.update(doc.ref, this.toFirestore(updates));
+        return { ...job, ...updates };
+      });
+    });
+  }
+
+  /**
+   * Mark a running job as succeeded
+   */
+  async markSucceeded(id: string): Promise<void> {
+    const now = new Date();
+    await this.collection.doc(id).update(
+      this.toFirestore({
+        status: 'succeeded',
+        completed_at: now,
+        updated_at: now,
+        lease_expires_at: undefined,
+        error: undefined,
+      })
+    );
+  }
+
+  /**
+   * Record a failed attempt: requeues the job with backoff, or marks it
+   * failed once max_attempts is reached
+   */
+  async markFailed(id: string, error: string): Promise<VerificationJob> {
+    const job = await this.getById(id);
+    if (!job) {
+      throw new Error(`Verification job not found: ${id}`);
+    }
+
+    const now = new Date();
+    const updates: Partial<VerificationJob> =
+      job.attempts >= job.max_attempts
+        ? { status: 'failed', completed_at: now }
+        : {
+            status: 'queued',
+            run_after: new Date(
+              now.getTime() + (RETRY_DELAYS_MS[job.attempts] ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1])
+            ),
+          };
+
+    await this.collection.doc(id).update(
+      this.toFirestore({ ...updates, error, updated_at: now, lease_expires_at: undefined })
+    );
+
+    return { ...job, ...updates, error, updated_at: now, lease_expires_at: undefined };
+  }
+
+  /**
+   * Requeue running jobs whose lease expired (their worker died)
+   */
+  async releaseExpired(): Promise<number> {
+    const now = new Date();
+    const snapshot = await this.collection
+      .where('status', '==', 'running')
+      .where('lease_expires_at', '<=', createTimestamp(now))
+      .get();
+
+    if (snapshot.empty) return 0;
+
+    const batch = this.db.batch();
+    snapshot.docs.forEach((doc) =>
+      batch.update(doc.ref, this.toFirestore({ status: 'queued', run_after: now, updated_at: now, lease_expires_at: undefined }))
+    );
+    await batch.commit();
+
+    return snapshot.size;
+  }
+
+  /**
+   * Platforms with due queued jobs
+   */
+  async getDuePlatforms(): Promise<DeliveryPartner[]> {
+    const snapshot = await this.collection
+      .where('status', '==', 'queued')
+      .where('run_after', '<=', createTimestamp(new Date()))
+      .select('platform')
+      .get();
+
+    return [...new Set(snapshot.docs.map((doc) => doc.data().platform as DeliveryPartner))];
+  }
+
+  /**
+   * Count jobs by status, with open jobs per platform
+   */
+  async getStats(): Promise<VerificationJobStats> {
+    const snapshot = await this.collection.select('status', 'platform').get();
+
+    const stats: VerificationJobStats = { queued: 0, running: 0, succeeded: 0, failed: 0, by_platform: {} };
+
+    snapshot.docs.forEach((doc) => {
+      const { status, platform } = doc.data();
+      if (status in stats) {
+        stats[status as 'queued' | 'running' | 'succeeded' | 'failed']++;
+      }
+      if (status === 'queued' || status === 'running') {
+        stats.by_platform[platform] ??= { queued: 0, running: 0 };
+        stats.by_platform[platform][status as 'queued' | 'running']++;
+      }
+    });
+
+    return stats;
+  }
+
+  /**
+   * Delete finished jobs older than the given number of days
+   */
+  async cleanupFinished(olderThanDays = 14): Promise<number> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - olderThanDays);
+
+    const snapshot = await this.collection
+      .where('status', 'in', ['succeeded', 'failed'])
+      .where('updated_at', '<=', createTimestamp(cutoff))
+      .limit(500)
+      .get();
+
+    if (snapshot.empty) return 0;
+
+    const batch = this.db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+
+    return snapshot.size;
+  }
+
+  private async getOpenJobKeys(): Promise<Set<string>> {
+    const snapshot = await this.collection
+      .where('status', 'in', ['queued', 'running'])
+      .select('venue_id', 'platform')
+      .get();
+
+    return new Set(snapshot.docs.map((doc) => `${doc.data().venue_id}:${doc.data().platform}`));
+  }
+}
+
+export const verificationJobs = new VerificationJobsCollection();
@@ -0,0 +1,132 @@
+/**
+ * Promotions Collection Test Suite
+ *
+ * Country filtering, cursor pages and the computed countries field against
+ * an in-memory stand-in for the Firestore calls the collection makes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Promotion } from '@pad/core';
+
+type DocData = Record<string, unknown>;
+
+const store = vi.hoisted(() => new Map<string, Map<string, Record<string, unknown>>>());
+
+vi.mock('../firestore.js', () => {
+  const collectionOf = (name: string) => {
+    if (!store.has(name)) store.set(name, new Map());
+    return store.get(name)!;
+  };
+
+  type Filter = [string, string, unknown];
+  const matches = (data: DocData, [field, op, value]: Filter) => {
+    if (op === 'array-contains') return ((data[field] as unknown[]) ?? []).includes(value);
+    if (op === '>=') return (data[field] as Date) >= (value as Date);
+    return data[field] === value;
+  };
+
+  const query = (name: string, filters: Filter[], after?: [Date, string], max?: number) => ({
+    where: (field: string, op: string, value: unknown) => query(name, [...filters, [field, op, value]], after, max),
+    // Always valid_until, then document ID
+    orderBy: () => query(name, filters, after, max),
+    startAfter: (validUntil: Date, id: string) => query(name, filters, [validUntil, id], max),
+    limit: (n: number) => query(name, filters, after, n),
+    get: async () => {
+      const docs = [...collectionOf(name).entries()]
+        .filter(([, data]) => filters.every((filter) => matches(data, filter)))
+        .sort(([idA, a], [idB, b]) => +(a.valid_until as Date) - +(b.valid_until as Date) || (idA < idB ? -1 : 1))
+        .filter(([id, data]) => !after || +(data.valid_until as Date) > +after[0] || (+(data.valid_until as Date) === +after[0] && id > after[1]))
+        .slice(0, max)
+        .map(([id, data]) => ({ id, data: () => data, ref: { id } }));
+      return { empty: docs.length === 0, size: docs.length, docs };
+    },
+  });
+
+  const db = {
+    collection: (name: string) => ({
+      ...query(name, []),
+      doc: (id: string) => ({
+        get: async () => ({ exists: collectionOf(name).has(id), data: () => collectionOf(name).get(id) }),
+        set: async (data: DocData) => {
+          collectionOf(name).set(id, { ...data });
+        },
+      }),
+    }),
+  };
+
+  let nextId = 1;
+  return {
+    getFirestore: () => db,
+    createTimestamp: (date: Date = new Date()) => date,
+    timestampToDate: (value: unknown) => value as Date,
+    generateId: () => `p${nextId++}`,
+  };
+});
+
+const { promotions } = await import('../collections/promotions.js');
+
+function promotion(overrides: Partial<Promotion>): Omit<Promotion, 'id' | 'created_at' | 'active'> {
+  return {
+    product_skus: ['planted.kebab'],
+    promo_type: 'discount',
+    title: '20% off',
+    valid_from: new Date('2026-10-01T00:00:00Z'),
+    valid_until: new Date('2026-10-31T00:00:00Z'),
+    source: { type: 'manual' },
+    ...overrides,
+  };
+}
+
+const window = { from: new Date('2026-10-10T00:00:00Z'), to: new Date('2026-10-10T00:00:00Z') };
+
+beforeEach(() => {
+  store.clear();
+  store.set('venues', new Map([['v-ch', { address: { country: 'ch' } }], ['v-de', { address: { country: 'DE' } }]]));
+  store.set('chains', new Map([['c1', { markets: ['CH', 'AT'] }]]));
+});
+
+describe('PromotionsCollection', () => {
+  it('stores the venue country or the chain markets as countries', async () => {
+    const venuePromotion = await promotions.create(promotion({ venue_id: 'v-ch' }));
+    const chainPromotion = await promotions.create(promotion({ chain_id: 'c1' }));
+
+    expect(venuePromotion.countries).toEqual(['CH']);
+    expect(store.get('promotions')!.get(chainPromotion.id)!.countries).toEqual(['CH', 'AT']);
+  });
+
+  it('filters by country in the query', async () => {
+    await promotions.create(promotion({ venue_id: 'v-de' }));
+    const chainPromotion = await promotions.create(promotion({ chain_id: 'c1' }));
+
+    const page = await promotions.queryPage({ country: 'at', validBetween: window, limit: 10 });
+
+    expect(page.promotions.map((p) => p.id)).toEqual([chainPromotion.id]);
+    expect(page.next).toBeNull();
+  });
+
+  it('matches the product in memory together with a country', async () => {
+    await promotions.create(promotion({ venue_id: 'v-ch', product_skus: ['planted.chicken'] }));
+    const kebab = await promotions.create(promotion({ venue_id: 'v-ch' }));
+
+    const page = await promotions.queryPage({ country: 'CH', productSku: 'planted.kebab', validBetween: window, limit: 10 });
+
+    expect(page.promotions.map((p) => p.id)).toEqual([kebab.id]);
+  });
+
+  it('pages in valid_until order and continues after the cursor', async () => {
+    const late = await promotions.create(promotion({ venue_id: 'v-ch', valid_until: new Date('2026-11-30T00:00:00Z') }));
+    const soon = await promotions.create(promotion({ venue_id: 'v-ch', valid_until: new Date('2026-10-15T00:00:00Z') }));
+    // Read, but starts after the window
+    const upcoming = await promotions.create(
+      promotion({ venue_id: 'v-ch', valid_from: new Date('2026-10-20T00:00:00Z'), valid_until: new Date('2026-10-25T00:00:00Z') })
+    );
+
+    const first = await promotions.queryPage({ country: 'CH', validBetween: window, limit: 2 });
+    expect(first.promotions.map((p) => p.id)).toEqual([soon.id]);
+    expect(first.next).toEqual({ valid_until: upcoming.valid_until, id: upcoming.id });
+
+    const second = await promotions.queryPage({ country: 'CH', validBetween: window, startAfter: first.next!, limit: 2 });
+    expect(second.promotions.map((p) => p.id)).toEqual([late.id]);
+    expect(second.next).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Retail Availability Collection Test Suite
+ *
+ * Runs RetailAvailabilityCollection.upsert against an in-memory stand-in
+ * for the Firestore calls it makes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DataSource } from '@pad/core';
+
+type DocData = Record<string, unknown>;
+
+const docs = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock('../firestore.js', () => {
+  const snapshotOf = (id: string) => ({ id, exists: true, data: () => docs.get(id)! });
+
+  const query = (filters: [string, unknown][], max?: number) => ({
+    where: (field: string, _op: string, value: unknown) => query([...filters, [field, value]], max),
+    orderBy: () => query(filters, max),
+    limit: (n: number) => query(filters, n),
+    get: async () => {
+      const matches = [...docs.keys()]
+        .filter((id) => filters.every(([field, value]) => docs.get(id)![field] === value))
+        .slice(0, max)
+        .map(snapshotOf);
+      return { empty: matches.length === 0, docs: matches };
+    },
+  });
+
+  let nextId = 1;
+  const collection = {
+    ...query([]),
+    doc: (id = `doc${nextId++}`) => ({
+      id,
+      set: async (data: DocData) => {
+        docs.set(id, { ...data });
+      },
+      update: async (data: DocData) => {
+        docs.set(id, { ...docs.get(id), ...data });
+      },
+    }),
+  };
+
+  return {
+    getFirestore: () => ({ collection: () => collection }),
+    createTimestamp: (date: Date = new Date()) => date,
+    timestampToDate: (value: unknown) => value as Date,
+    generateId: () => `doc${nextId++}`,
+  };
+});
+
+const { retailAvailability } = await import('../collections/retail-availability.js');
+
+const source: DataSource = { type: 'scraped', scraper_id: 'migros-ch' };
+const price = { regular: 4.95, currency: 'CHF' };
+
+beforeEach(() => {
+  docs.clear();
+});
+
+describe('RetailAvailabilityCollection.upsert', () => {
+  it('creates a record with the initial stock state and price as changes', async () => {
+    const result = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, price },
+      source
+    );
+
+    expect(result.action).toBe('created');
+    expect(result.changes).toEqual([
+      { field: 'in_stock', before: null, after: true },
+      { field: 'price', before: null, after: price },
+    ]);
+    expect(docs.get(result.id)).toMatchObject({ venue_id: 'v1', in_stock: true, price, source });
+  });
+
+  it('reports unchanged records but bumps last_verified', async () => {
+    const created = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, price },
+      source
+    );
+    const verifiedBefore = docs.get(created.id)!.last_verified as Date;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const result = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, price: { ...price } },
+      source
+    );
+
+    expect(result).toEqual({ action: 'unchanged', id: created.id, changes: [] });
+    expect((docs.get(created.id)!.last_verified as Date).getTime()).toBeGreaterThan(verifiedBefore.getTime());
+  });
+
+  it('records stock and price changes on existing records', async () => {
+    const created = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, price },
+      source
+    );
+
+    const result = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: false, price: { ...price, regular: 5.5 } },
+      source
+    );
+
+    expect(result.action).toBe('updated');
+    expect(result.id).toBe(created.id);
+    expect(result.changes).toEqual([
+      { field: 'in_stock', before: true, after: false },
+      { field: 'price', before: price, after: { ...price, regular: 5.5 } },
+    ]);
+  });
+
+  it('keeps the last known price when an update has none', async () => {
+    const created = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, price },
+      source
+    );
+
+    const result = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: false },
+      source
+    );
+
+    expect(result.changes).toEqual([{ field: 'in_stock', before: true, after: false }]);
+    expect(docs.get(created.id)).toMatchObject({ in_stock: false, price });
+  });
+
+  it('keeps records of other venues and products apart', async () => {
+    await retailAvailability.upsert({ venue_id: 'v1', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true }, source);
+    const otherVenue = await retailAvailability.upsert(
+      { venue_id: 'v2', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: false },
+      source
+    );
+    const otherProduct = await retailAvailability.upsert(
+      { venue_id: 'v1', product_sku: 'PLANTED-DUCK-ASIAN-200G', in_stock: false },
+      source
+    );
+
+    expect(otherVenue.action).toBe('created');
+    expect(otherProduct.action).toBe('created');
+    expect(docs.size).toBe(3);
+  });
+});
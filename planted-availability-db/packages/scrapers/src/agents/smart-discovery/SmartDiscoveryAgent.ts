@@ -31,7 +31,8 @@ import { DishFinderAIClient } from '../smart-dish-finder/DishFinderAIClient.js';
 import { getQueryCache, type QueryCache } from './QueryCache.js';
 import { getSearchEnginePool, type SearchEnginePool } from './SearchEnginePool.js';
 import { getCountryFromUrl } from './country_url_util.js';
-import { platformAdapters, type VenuePageData } from './platforms/index.js';
+import { platformAdapters, fetchVenuePageData, type VenuePageData } from './platforms/index.js';
+import { queueFailedOperation } from '../../services/DeadLetterQueue.js';
 
 export interface DiscoveryAgentConfig {
   maxQueriesPerRun?: number;
@@ -595,18 +596,19 @@ export class SmartDiscoveryAgent {
     }
 
     // Extract venue page data (including address) from the venue URL
-    const venuePageData = await this.extractVenuePageData(venue.url, platform);
+    const { data: venuePageData, error: venuePageError } = await this.extractVenuePageData(venue.url, platform);
 
     // Extract dishes inline if enabled
     let dishes: DiscoveredDish[] = [];
+    let dishExtractionError: string | undefined;
     if (this.config.extractDishesInline) {
-      dishes = await this.extractDishesForVenue(
+      ({ dishes, error: dishExtractionError } = await this.extractDishesForVenue(
         venue.url,
         venue.name,
         platform,
         actualCountry,
         knownProducts !== null // Pass true if this is a known chain
-      );
+      ));
 
       // Update products based on extracted dishes if we didn't have any
       if (products.length === 0 && dishes.length > 0) {
@@ -663,10 +665,38 @@ export class SmartDiscoveryAgent {
       address: venueAddress.street ? `${venueAddress.street}, ${venueAddress.city}` : venueAddress.city,
       hasCoordinates: !!venueCoordinates,
     });
+
+    // Queue failed page fetches so the venue gets its address/dishes later
+    const context = { url: venue.url, country: actualCountry, venue_name: venue.name, run_id: this.currentRun?.id };
+    if (venuePageError) {
+      await this.queueFailure('discovery', discoveredVenue.id, platform, venuePageError, context);
+    }
+    if (dishExtractionError) {
+      await this.queueFailure('dish_extraction', discoveredVenue.id, platform, dishExtractionError, context);
+    }
+  }
+
+  /**
+   * Queue a failed operation in the dead letter queue
+   */
+  private async queueFailure(
+    type: 'discovery' | 'dish_extraction',
+    venueId: string,
+    platform: DeliveryPlatform,
+    error: string,
+    context: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await queueFailedOperation({ type, venue_id: venueId, platform, error, context });
+    } catch (queueError) {
+      this.log(`Failed to queue ${type} failure for ${venueId}: ${queueError}`);
+    }
   }
 
   /**
    * Extract dishes from a venue URL using the DishFinderAIClient
+   *
+   * Returns the last error if all attempts failed.
    */
   private async extractDishesForVenue(
     url: string,
@@ -674,7 +704,7 @@ export class SmartDiscoveryAgent {
     platform: DeliveryPlatform,
     country: SupportedCountry,
     isKnownChain: boolean = false
-  ): Promise<DiscoveredDish[]> {
+  ): Promise<{ dishes: DiscoveredDish[]; error?: string }> {
     this.log(`[DISH] Extracting dishes from ${venueName}...`);
 
     let lastError: Error | null = null;
@@ -730,7 +760,7 @@ export class SmartDiscoveryAgent {
 
         this.log(`[DISH] Found ${dishes.length} dishes from ${venueName}`);
         this.stats.dishes_extracted += dishes.length;
-        return dishes;
+        return { dishes };
       } catch (error) {
         lastError = error as Error;
 
@@ -744,44 +774,28 @@ export class SmartDiscoveryAgent {
     // All retries failed
     this.log(`[DISH] Failed to extract dishes for ${venueName} after ${maxRetries + 1} attempts: ${lastError?.message}`);
     this.stats.dish_extraction_failures++;
-    return [];
+    return { dishes: [], error: lastError?.message || 'Dish extraction failed' };
   }
 
   /**
    * Extract venue page data (including address) from a URL using platform adapter
+   *
+   * Returns the error if the page couldn't be fetched or parsed.
    */
   private async extractVenuePageData(
     url: string,
     platform: DeliveryPlatform
-  ): Promise<VenuePageData | null> {
+  ): Promise<{ data: VenuePageData | null; error?: string }> {
     this.log(`[ADDRESS] Extracting venue page data from ${url}...`);
 
-    try {
-      // Fetch the venue page
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-        },
-      });
-
-      if (!response.ok) {
-        this.log(`[ADDRESS] Failed to fetch URL: ${response.status} ${response.statusText}`);
-        return null;
-      }
-
-      const html = await response.text();
-
-      // Get the adapter for this platform
-      const adapter = platformAdapters[platform];
-      if (!adapter) {
-        this.log(`[ADDRESS] No adapter found for platform: ${platform}`);
-        return null;
-      }
+    if (!platformAdapters[platform]) {
+      this.log(`[ADDRESS] No adapter found for platform: ${platform}`);
+      return { data: null };
+    }
 
-      // Parse the venue page to extract address and other data
-      const venuePageData = adapter.parseVenuePage(html);
+    try {
+      // Fetch the venue page and parse address and other data
+      const venuePageData = await fetchVenuePageData(url, platform);
 
       if (venuePageData.address?.street) {
         this.log(`[ADDRESS] Extracted address: ${venuePageData.address.street}, ${venuePageData.address.city}`);
@@ -789,10 +803,10 @@ export class SmartDiscoveryAgent {
         this.log(`[ADDRESS] No street address found in page data`);
       }
 
-      return venuePageData;
+      return { data: venuePageData };
     } catch (error) {
       this.log(`[ADDRESS] Failed to extract venue page data: ${error}`);
-      return null;
+      return { data: null, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
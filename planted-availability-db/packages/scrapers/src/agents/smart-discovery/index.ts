@@ -66,8 +66,13 @@ export {
   LieferandoAdapter,
   WoltAdapter,
   SmoodAdapter,
+  DeliverooAdapter,
+  GlovoAdapter,
   platformAdapters,
+  adapterImplementations,
   getAdapter,
+  resolveAdapter,
+  parseVenuePage,
   getAdaptersForCountry,
   getSupportedPlatforms,
 } from './platforms/index.js';
@@ -59,6 +59,8 @@ export interface PlatformSearchResult {
  */
 export abstract class BasePlatformAdapter {
   abstract platform: DeliveryPlatform;
+  /** Parser version, bumped whenever parsing changes (see AdapterVersionManager) */
+  abstract version: string;
   abstract supportedCountries: SupportedCountry[];
   abstract baseUrl: string;
 
@@ -107,6 +109,17 @@ export abstract class BasePlatformAdapter {
    */
   abstract parseVenuePage(html: string): VenuePageData;
 
+  /**
+   * Check whether a parsed venue page looks usable: it needs a name and
+   * at least an address or menu items
+   *
+   * Anything less usually means the platform changed its markup and the
+   * parser only matches part of the page (e.g. the <title>).
+   */
+  isValidVenuePage(data: VenuePageData): boolean {
+    return Boolean(data.name?.trim()) && (Boolean(data.address) || data.menuItems.length > 0);
+  }
+
   /**
    * Find Planted products in menu items
    */
@@ -200,6 +213,16 @@ export abstract class BasePlatformAdapter {
     return null;
   }
 
+  /**
+   * Helper to get a page's own URL from its canonical or og:url link
+   */
+  protected getCanonicalUrl(html: string): string | null {
+    const match =
+      html.match(/<link[^>]*rel="canonical"[^>]*href="([^"]+)"/i) ||
+      html.match(/<meta[^>]*property="og:url"[^>]*content="([^"]+)"/i);
+    return match ? match[1] : null;
+  }
+
   /**
    * Helper to determine country from URL
    */
@@ -0,0 +1,280 @@
+/**
+ * Deliveroo Platform Adapter
+ *
+ * Handles data extraction from Deliveroo.
+ * URL format: https://deliveroo.{tld}/menu/{city}/{area}/{restaurant-slug}
+ * Belgium adds a language segment: https://deliveroo.be/{fr|nl}/menu/...
+ * Countries: UK, FR, IT, BE (Deliveroo left Spain in 2021 and the Netherlands in 2022)
+ *
+ * Only tested against synthetic pages so far; parsing of live markup is
+ * unverified (see tests/fixtures/platforms/README.md).
+ */
+
+import type { SupportedCountry } from '@pad/core';
+import {
+  BasePlatformAdapter,
+  type VenuePageData,
+  type MenuItem,
+  type PlatformSearchResult,
+} from './BasePlatformAdapter.js';
+import { getCountryFromUrl as detectCountryFromUrl } from '../country_url_util.js';
+
+const DELIVEROO_DOMAINS: Partial<Record<SupportedCountry, string>> = {
+  UK: 'deliveroo.co.uk',
+  FR: 'deliveroo.fr',
+  IT: 'deliveroo.it',
+  BE: 'deliveroo.be',
+};
+
+export class DeliverooAdapter extends BasePlatformAdapter {
+  platform = 'deliveroo' as const;
+  version = '1.0.0';
+  supportedCountries: SupportedCountry[] = ['UK', 'FR', 'IT', 'BE'];
+  baseUrl = 'https://deliveroo.co.uk';
+
+  private getDomain(country: SupportedCountry): string {
+    return DELIVEROO_DOMAINS[country] || 'deliveroo.co.uk';
+  }
+
+  override getSearchDomain(country: SupportedCountry): string {
+    return this.getDomain(country);
+  }
+
+  buildSearchUrl(query: string, country: SupportedCountry, city?: string): string {
+    const domain = this.getDomain(country);
+    const encodedQuery = encodeURIComponent(query);
+    if (city) {
+      return `site:${domain}/menu ${encodedQuery} ${city}`;
+    }
+    return `site:${domain}/menu ${encodedQuery}`;
+  }
+
+  buildVenueUrl(venueIdOrSlug: string, country: SupportedCountry): string {
+    const origin = `https://${this.getDomain(country)}`;
+    // Handle full paths
+    if (venueIdOrSlug.startsWith('/')) {
+      return `${origin}${venueIdOrSlug}`;
+    }
+    // Venue IDs are "city/area/restaurant-slug"
+    return `${origin}/menu/${venueIdOrSlug}`;
+  }
+
+  extractVenueId(url: string): string | null {
+    // Extract from: https://deliveroo.co.uk/menu/london/soho/restaurant-slug
+    // or: https://deliveroo.be/fr/menu/bruxelles/ixelles/restaurant-slug
+    const match = url.match(/\/menu\/([^/?#]+)\/([^/?#]+)\/([^/?#]+)/);
+    return match ? `${match[1]}/${match[2]}/${match[3]}` : null;
+  }
+
+  private getCountryFromPage(html: string): SupportedCountry | null {
+    const url = this.getCanonicalUrl(html);
+    const country = url ? detectCountryFromUrl(url) : null;
+    return country && this.supportsCountry(country) ? country : null;
+  }
+
+  private getCurrency(country: SupportedCountry | null): string {
+    return country === 'UK' ? 'GBP' : 'EUR';
+  }
+
+  parseSearchResults(html: string): PlatformSearchResult[] {
+    const results: PlatformSearchResult[] = [];
+    const country = this.getCountryFromPage(html);
+    const origin = `https://${this.getDomain(country || 'UK')}`;
+
+    // Restaurant cards link to /menu/{city}/{area}/{slug}
+    const pattern =
+      /<a[^>]*href="((?:https?:\/\/[^"]*)?(?:\/\w{2})?\/menu\/[^"]+)"[^>]*>[\s\S]*?<(?:h3|p|span)[^>]*>([^<]+)<\/(?:h3|p|span)>/gi;
+
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+      const urlPath = match[1].replace(/\?.*$/, '');
+      const url = urlPath.startsWith('http') ? urlPath : `${origin}${urlPath}`;
+      const name = this.cleanText(match[2]);
+      const venueId = this.extractVenueId(url);
+
+      if (venueId && name && !results.some((r) => r.venueId === venueId)) {
+        results.push({
+          name,
+          url,
+          venueId,
+          city: venueId.split('/')[0],
+        });
+      }
+    }
+
+    return results;
+  }
+
+  parseVenuePage(html: string): VenuePageData {
+    const data: VenuePageData = {
+      name: '',
+      menuItems: [],
+      rawHtml: html,
+    };
+
+    const country = this.getCountryFromPage(html);
+    const currency = this.getCurrency(country);
+
+    // Method 1: JSON-LD schema.org Restaurant data
+    const jsonLdMatch = html.match(/<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi);
+    if (jsonLdMatch) {
+      for (const match of jsonLdMatch) {
+        try {
+          const jsonContent = match.replace(/<script[^>]*>/, '').replace(/<\/script>/, '');
+          const parsed = JSON.parse(jsonContent);
+          const ldObjects = Array.isArray(parsed) ? parsed : [parsed];
+
+          for (const obj of ldObjects) {
+            if (obj['@type'] !== 'Restaurant' && obj['@type'] !== 'LocalBusiness') {
+              continue;
+            }
+
+            if (obj.name && !data.name) {
+              data.name = this.cleanText(obj.name);
+            }
+
+            if (obj.address && !data.address?.street) {
+              data.address = {
+                street: obj.address.streetAddress,
+                city: obj.address.addressLocality,
+                postal_code: obj.address.postalCode,
+                country: country || 'UK',
+              };
+            }
+
+            if (obj.geo && !data.coordinates) {
+              data.coordinates = {
+                latitude: parseFloat(obj.geo.latitude),
+                longitude: parseFloat(obj.geo.longitude),
+                accuracy: 'exact',
+              };
+            }
+
+            if (obj.aggregateRating) {
+              data.rating = parseFloat(obj.aggregateRating.ratingValue);
+              data.reviewCount = parseInt(obj.aggregateRating.reviewCount);
+            }
+          }
+        } catch {
+          // Continue to next JSON-LD block
+        }
+      }
+    }
+
+    // Method 2: __NEXT_DATA__ menu state
+    const nextDataMatch = html.match(/<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+    if (nextDataMatch) {
+      try {
+        const parsed = JSON.parse(nextDataMatch[1]);
+        const meta = parsed.props?.initialState?.menuPage?.menu?.meta;
+        const restaurant = meta?.restaurant;
+
+        if (restaurant?.name && !data.name) {
+          data.name = this.cleanText(restaurant.name);
+        }
+
+        const location = restaurant?.location;
+        if (location?.address && !data.address?.street) {
+          data.address = {
+            street: location.address.address1,
+            city: location.address.city || location.cityName,
+            postal_code: location.address.post_code,
+            country: country || 'UK',
+          };
+        }
+
+        if (location?.lat !== undefined && location?.lon !== undefined && !data.coordinates) {
+          data.coordinates = {
+            latitude: parseFloat(location.lat),
+            longitude: parseFloat(location.lon),
+            accuracy: 'exact',
+          };
+        }
+
+        if (restaurant?.rating && !data.rating) {
+          data.rating = restaurant.rating.value;
+          data.reviewCount = restaurant.rating.count;
+        }
+
+        const categories = new Map<string, string>();
+        for (const category of meta?.categories || []) {
+          categories.set(String(category.id), category.name);
+        }
+
+        for (const item of meta?.items || []) {
+          if (!item.name) continue;
+          data.menuItems.push({
+            name: this.cleanText(item.name),
+            description: item.description ? this.cleanText(item.description) : undefined,
+            price:
+              item.price?.fractional !== undefined
+                ? (item.price.fractional / 100).toFixed(2)
+                : this.parsePrice(item.price?.formatted),
+            currency: item.price?.code || currency,
+            category: categories.get(String(item.categoryId)),
+            imageUrl: item.image?.url,
+            isAvailable: item.available,
+          });
+        }
+      } catch {
+        // Fall through to HTML extraction
+      }
+    }
+
+    // HTML fallback for name
+    if (!data.name) {
+      const nameMatch = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
+      if (nameMatch) {
+        data.name = this.cleanText(nameMatch[1]);
+      }
+    }
+
+    if (data.menuItems.length === 0) {
+      data.menuItems = this.extractMenuItemsFromHtml(html, currency);
+    }
+
+    return data;
+  }
+
+  /**
+   * Parse a formatted price like "£12.50", "12,50 €" or "€ 9.90"
+   */
+  private parsePrice(formatted?: string): string | undefined {
+    const match = formatted?.match(/(\d+[.,]\d{2})/);
+    return match ? match[1].replace(',', '.') : undefined;
+  }
+
+  private extractMenuItemsFromHtml(html: string, currency: string): MenuItem[] {
+    const items: MenuItem[] = [];
+
+    // Menu item cards
+    const itemPattern =
+      /<div[^>]*data-testid="menu-item"[^>]*>[\s\S]*?<p[^>]*>([^<]+)<\/p>\s*(?:<p[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/p>)?[\s\S]*?<span[^>]*>([^<]*\d+[.,]\d{2}[^<]*)<\/span>/gi;
+
+    let match;
+    while ((match = itemPattern.exec(html)) !== null) {
+      items.push({
+        name: this.cleanText(match[1]),
+        description: match[2] ? this.cleanText(match[2]) : undefined,
+        price: this.parsePrice(match[3]),
+        currency,
+      });
+    }
+
+    // Fallback: search for planted mentions
+    if (items.length === 0) {
+      const plantedPattern = /(?:>|\s)([^<>]{0,50}planted[^<>]{0,50})(?:<|£|€|\d)/gi;
+      while ((match = plantedPattern.exec(html)) !== null) {
+        const text = this.cleanText(match[1]);
+        if (text.length > 5 && text.length < 150) {
+          items.push({
+            name: text,
+            description: 'Contains Planted product',
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+}
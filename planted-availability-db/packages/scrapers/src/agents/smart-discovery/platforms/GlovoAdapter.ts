@@ -0,0 +1,277 @@
+/**
+ * Glovo Platform Adapter
+ *
+ * Handles data extraction from Glovo.
+ * URL format: https://glovoapp.com/{country}/{language}/{city}/{store-slug}/
+ * Countries: ES, IT, PL
+ *
+ * Only tested against synthetic pages so far; parsing of live markup is
+ * unverified (see tests/fixtures/platforms/README.md).
+ */
+
+import type { SupportedCountry, DiscoveredVenueAddress } from '@pad/core';
+import {
+  BasePlatformAdapter,
+  type VenuePageData,
+  type MenuItem,
+  type PlatformSearchResult,
+} from './BasePlatformAdapter.js';
+import { getCountryFromUrl as detectCountryFromUrl } from '../country_url_util.js';
+
+const GLOVO_COUNTRIES: Partial<Record<SupportedCountry, { path: string; language: string; currency: string }>> = {
+  ES: { path: 'es', language: 'es', currency: 'EUR' },
+  IT: { path: 'it', language: 'it', currency: 'EUR' },
+  PL: { path: 'pl', language: 'pl', currency: 'PLN' },
+};
+
+export class GlovoAdapter extends BasePlatformAdapter {
+  platform = 'glovo' as const;
+  version = '1.0.0';
+  supportedCountries: SupportedCountry[] = ['ES', 'IT', 'PL'];
+  baseUrl = 'https://glovoapp.com';
+
+  private getCountryConfig(country: SupportedCountry) {
+    return GLOVO_COUNTRIES[country] || GLOVO_COUNTRIES.ES!;
+  }
+
+  override getSearchDomain(country: SupportedCountry): string {
+    return `glovoapp.com/${this.getCountryConfig(country).path}`;
+  }
+
+  buildSearchUrl(query: string, country: SupportedCountry, city?: string): string {
+    const domain = this.getSearchDomain(country);
+    const encodedQuery = encodeURIComponent(query);
+    if (city) {
+      return `site:${domain} ${encodedQuery} ${city}`;
+    }
+    return `site:${domain} ${encodedQuery}`;
+  }
+
+  buildVenueUrl(venueIdOrSlug: string, country: SupportedCountry): string {
+    // Handle full paths
+    if (venueIdOrSlug.startsWith('/')) {
+      return `${this.baseUrl}${venueIdOrSlug}`;
+    }
+    // Venue IDs are "city/store-slug"
+    const { path, language } = this.getCountryConfig(country);
+    return `${this.baseUrl}/${path}/${language}/${venueIdOrSlug.replace(/\/$/, '')}/`;
+  }
+
+  extractVenueId(url: string): string | null {
+    // Extract from: https://glovoapp.com/es/es/madrid/store-slug/
+    const match = url.match(/glovoapp\.com\/\w{2}\/\w{2}\/([^/?#]+)\/([^/?#]+)/);
+    return match ? `${match[1]}/${match[2]}` : null;
+  }
+
+  private getCountryFromPage(html: string): SupportedCountry | null {
+    const url = this.getCanonicalUrl(html);
+    const country = url ? detectCountryFromUrl(url) : null;
+    return country && this.supportsCountry(country) ? country : null;
+  }
+
+  parseSearchResults(html: string): PlatformSearchResult[] {
+    const results: PlatformSearchResult[] = [];
+
+    // Store cards link to /{country}/{language}/{city}/{store-slug}/
+    const pattern =
+      /<a[^>]*href="((?:https:\/\/glovoapp\.com)?\/\w{2}\/\w{2}\/[^"/]+\/[^"/]+\/?)"[^>]*>[\s\S]*?<(?:h3|p|span)[^>]*>([^<]+)<\/(?:h3|p|span)>/gi;
+
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+      const url = match[1].startsWith('http') ? match[1] : `${this.baseUrl}${match[1]}`;
+      const name = this.cleanText(match[2]);
+      const venueId = this.extractVenueId(url);
+
+      if (venueId && name && !results.some((r) => r.venueId === venueId)) {
+        results.push({
+          name,
+          url,
+          venueId,
+          city: venueId.split('/')[0],
+        });
+      }
+    }
+
+    return results;
+  }
+
+  parseVenuePage(html: string): VenuePageData {
+    const data: VenuePageData = {
+      name: '',
+      menuItems: [],
+      rawHtml: html,
+    };
+
+    const country = this.getCountryFromPage(html) || 'ES';
+    const { currency } = this.getCountryConfig(country);
+
+    // Method 1: __NEXT_DATA__ store state (most complete for Glovo)
+    const nextDataMatch = html.match(/<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+    if (nextDataMatch) {
+      try {
+        const parsed = JSON.parse(nextDataMatch[1]);
+        const pageProps = parsed.props?.pageProps || {};
+        const store = pageProps.store;
+
+        if (store?.name) {
+          data.name = this.cleanText(store.name);
+        }
+
+        if (store?.address) {
+          data.address = this.parseAddress(store.address, store.cityName, country);
+        }
+
+        if (store?.location?.latitude !== undefined && store?.location?.longitude !== undefined) {
+          data.coordinates = {
+            latitude: parseFloat(store.location.latitude),
+            longitude: parseFloat(store.location.longitude),
+            accuracy: 'exact',
+          };
+        }
+
+        if (store?.ratingInfo) {
+          data.rating = store.ratingInfo.percentage;
+          data.reviewCount = store.ratingInfo.totalRatings;
+        }
+
+        if (store?.open !== undefined) {
+          data.isOpen = Boolean(store.open);
+        }
+
+        // Menu sections: body[].data.{title, elements[].data}
+        for (const section of pageProps.storeContent?.body || []) {
+          const category = section.data?.title;
+          for (const element of section.data?.elements || []) {
+            const product = element.data || element;
+            if (!product?.name) continue;
+            data.menuItems.push({
+              name: this.cleanText(product.name),
+              description: product.description ? this.cleanText(product.description) : undefined,
+              price: this.formatPrice(product.priceInfo?.amount ?? product.price),
+              currency: product.priceInfo?.currencyCode || currency,
+              category,
+              imageUrl: product.imageUrl,
+            });
+          }
+        }
+      } catch {
+        // Fall through to JSON-LD / HTML extraction
+      }
+    }
+
+    // Method 2: JSON-LD schema.org data
+    if (!data.address?.street || !data.coordinates) {
+      const jsonLdMatch = html.match(/<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi);
+      for (const match of jsonLdMatch || []) {
+        try {
+          const jsonContent = match.replace(/<script[^>]*>/, '').replace(/<\/script>/, '');
+          const parsed = JSON.parse(jsonContent);
+          const ldObjects = Array.isArray(parsed) ? parsed : [parsed];
+
+          for (const obj of ldObjects) {
+            if (obj['@type'] !== 'Restaurant' && obj['@type'] !== 'LocalBusiness') {
+              continue;
+            }
+
+            if (obj.name && !data.name) {
+              data.name = this.cleanText(obj.name);
+            }
+
+            if (obj.address && !data.address?.street) {
+              data.address = {
+                street: obj.address.streetAddress,
+                city: obj.address.addressLocality,
+                postal_code: obj.address.postalCode,
+                country,
+              };
+            }
+
+            if (obj.geo && !data.coordinates) {
+              data.coordinates = {
+                latitude: parseFloat(obj.geo.latitude),
+                longitude: parseFloat(obj.geo.longitude),
+                accuracy: 'exact',
+              };
+            }
+          }
+        } catch {
+          // Continue to next JSON-LD block
+        }
+      }
+    }
+
+    // HTML fallback for name
+    if (!data.name) {
+      const nameMatch = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
+      if (nameMatch) {
+        data.name = this.cleanText(nameMatch[1]);
+      }
+    }
+
+    if (data.menuItems.length === 0) {
+      data.menuItems = this.extractMenuItemsFromHtml(html, currency);
+    }
+
+    return data;
+  }
+
+  private formatPrice(amount: unknown): string | undefined {
+    const value = Number(amount);
+    return amount !== undefined && amount !== null && !Number.isNaN(value) ? value.toFixed(2) : undefined;
+  }
+
+  /**
+   * Split a Glovo address string like "Calle de Alcalá 21, 28014 Madrid"
+   */
+  private parseAddress(
+    address: string,
+    cityName: string | undefined,
+    country: SupportedCountry
+  ): DiscoveredVenueAddress {
+    const parts = address.split(',').map((part) => part.trim());
+    const street = parts[0];
+    const postalMatch = parts.slice(1).join(' ').match(/(\d{2}-\d{3}|\d{5})\s*(.*)/);
+
+    return {
+      street,
+      city: postalMatch?.[2] || cityName || parts[parts.length - 1],
+      postal_code: postalMatch?.[1],
+      country,
+      full_address: address,
+    };
+  }
+
+  private extractMenuItemsFromHtml(html: string, currency: string): MenuItem[] {
+    const items: MenuItem[] = [];
+
+    // Product rows
+    const itemPattern =
+      /<div[^>]*data-test-id="product-row-content"[^>]*>[\s\S]*?<span[^>]*data-test-id="product-row-name[^"]*"[^>]*>([^<]+)<\/span>\s*(?:<span[^>]*data-test-id="product-row-description[^"]*"[^>]*>([^<]*)<\/span>)?[\s\S]*?(\d+[.,]\d{2})/gi;
+
+    let match;
+    while ((match = itemPattern.exec(html)) !== null) {
+      items.push({
+        name: this.cleanText(match[1]),
+        description: match[2] ? this.cleanText(match[2]) : undefined,
+        price: match[3].replace(',', '.'),
+        currency,
+      });
+    }
+
+    // Fallback: search for planted mentions
+    if (items.length === 0) {
+      const plantedPattern = /(?:>|\s)([^<>]{0,50}planted[^<>]{0,50})(?:<|€|zł|\d)/gi;
+      while ((match = plantedPattern.exec(html)) !== null) {
+        const text = this.cleanText(match[1]);
+        if (text.length > 5 && text.length < 150) {
+          items.push({
+            name: text,
+            description: 'Contains Planted product',
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+}
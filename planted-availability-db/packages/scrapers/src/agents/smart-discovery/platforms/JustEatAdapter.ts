@@ -15,6 +15,7 @@ import {
 
 export class JustEatAdapter extends BasePlatformAdapter {
   platform = 'just-eat' as const;
+  version = '1.0.0';
   supportedCountries: SupportedCountry[] = ['CH', 'UK', 'FR', 'ES', 'IT', 'NL', 'BE', 'PL'];
   baseUrl = 'https://www.just-eat.ch';
 
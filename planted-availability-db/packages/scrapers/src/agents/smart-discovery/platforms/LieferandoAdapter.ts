@@ -16,6 +16,7 @@ import {
 
 export class LieferandoAdapter extends BasePlatformAdapter {
   platform = 'lieferando' as const;
+  version = '1.0.0';
   supportedCountries: SupportedCountry[] = ['DE', 'AT'];
   baseUrl = 'https://www.lieferando.de';
 
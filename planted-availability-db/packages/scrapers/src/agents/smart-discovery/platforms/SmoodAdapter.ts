@@ -15,6 +15,7 @@ import {
 
 export class SmoodAdapter extends BasePlatformAdapter {
   platform = 'smood' as const;
+  version = '1.0.1';
   supportedCountries: SupportedCountry[] = ['CH'];
   baseUrl = 'https://www.smood.ch';
 
@@ -58,9 +59,9 @@ export class SmoodAdapter extends BasePlatformAdapter {
     // Smood search result patterns
     const patterns = [
       // Restaurant card with link
-      /<a[^>]*href="(\/(?:en|fr|de)\/(?:delivery|livraison|lieferung)\/[^"]+)"[^>]*>[\\s\\S]*?<h[23][^>]*>([^<]+)<\/h[23]>/gi,
+      /<a[^>]*href="(\/(?:en|fr|de)\/(?:delivery|livraison|lieferung)\/[^"]+)"[^>]*>[\s\S]*?<h[23][^>]*>([^<]+)<\/h[23]>/gi,
       // Card with name in span
-      /<a[^>]*class="[^"]*restaurant-card[^"]*"[^>]*href="([^"]+)"[^>]*>[\\s\\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)/gi,
+      /<a[^>]*class="[^"]*restaurant-card[^"]*"[^>]*href="([^"]+)"[^>]*>[\s\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)/gi,
     ];
 
     for (const pattern of patterns) {
@@ -95,9 +96,9 @@ export class SmoodAdapter extends BasePlatformAdapter {
 
     // Smood embeds data in __NEXT_DATA__ or similar
     const statePatterns = [
-      /<script[^>]*id="__NEXT_DATA__"[^>]*>([\\s\\S]*?)<\/script>/,
-      /window\.__INITIAL_STATE__\s*=\s*({[\\s\\S]+?});?\s*<\/script>/,
-      /"restaurant"\s*:\s*({[\\s\\S]+?})(?=,"\w+":|\s*})/,
+      /<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/,
+      /window\.__INITIAL_STATE__\s*=\s*({[\s\S]+?});?\s*<\/script>/,
+      /"restaurant"\s*:\s*({[\s\S]+?})(?=,"\w+":|\s*})/,
     ];
 
     for (const pattern of statePatterns) {
@@ -208,11 +209,11 @@ export class SmoodAdapter extends BasePlatformAdapter {
     // Smood menu item patterns
     const patterns = [
       // Product card pattern
-      /<div[^>]*class="[^"]*product-card[^"]*"[^>]*>[\\s\\S]*?<h[34][^>]*>([^<]+)<\/h[34]>[\\s\\S]*?(?:<p[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/p>)?[\\s\\S]*?(?:CHF\s*(\d+[.,]\d{2}))?/gi,
+      /<div[^>]*class="[^"]*product-card[^"]*"[^>]*>[\s\S]*?<h[34][^>]*>([^<]+)<\/h[34]>[\s\S]*?(?:<p[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/p>)?[\s\S]*?(?:CHF\s*(\d+[.,]\d{2}))?/gi,
       // Menu item with name and price
-      /<div[^>]*class="[^"]*menu-item[^"]*"[^>]*>[\\s\\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)<\/span>[\\s\\S]*?(?:<span[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/span>)?[\\s\\S]*?(?:(\d+[.,]\d{2})\s*(?:CHF|Fr\.?))?/gi,
+      /<div[^>]*class="[^"]*menu-item[^"]*"[^>]*>[\s\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)<\/span>[\s\S]*?(?:<span[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/span>)?[\s\S]*?(?:(\d+[.,]\d{2})\s*(?:CHF|Fr\.?))?/gi,
       // Article pattern
-      /<article[^>]*class="[^"]*item[^"]*"[^>]*>[\\s\\S]*?<h3[^>]*>([^<]+)<\/h3>[\\s\\S]*?(?:<p[^>]*>([^<]*)<\/p>)?[\\s\\S]*?(?:(\d+[.,]\d{2}))/gi,
+      /<article[^>]*class="[^"]*item[^"]*"[^>]*>[\s\S]*?<h3[^>]*>([^<]+)<\/h3>[\s\S]*?(?:<p[^>]*>([^<]*)<\/p>)?[\s\S]*?(?:(\d+[.,]\d{2}))/gi,
     ];
 
     for (const pattern of patterns) {
@@ -18,6 +18,7 @@ import {
 
 export class UberEatsAdapter extends BasePlatformAdapter {
   platform = 'uber-eats' as const;
+  version = '1.0.0';
   supportedCountries: SupportedCountry[] = ['CH', 'DE', 'AT'];
   baseUrl = 'https://www.ubereats.com';
 
@@ -16,6 +16,7 @@ import {
 
 export class WoltAdapter extends BasePlatformAdapter {
   platform = 'wolt' as const;
+  version = '1.0.1';
   supportedCountries: SupportedCountry[] = ['DE', 'AT'];
   baseUrl = 'https://wolt.com';
 
@@ -77,9 +78,9 @@ export class WoltAdapter extends BasePlatformAdapter {
     // Wolt search result patterns
     const patterns = [
       // Restaurant card with link
-      /<a[^>]*href="(\/\w{2}\/[^"]*\/restaurant\/[^"]+)"[^>]*>[\\s\\S]*?<h3[^>]*>([^<]+)<\/h3>/gi,
+      /<a[^>]*href="(\/\w{2}\/[^"]*\/restaurant\/[^"]+)"[^>]*>[\s\S]*?<h3[^>]*>([^<]+)<\/h3>/gi,
       // Data attribute pattern
-      /<a[^>]*data-test-id="VenueCard"[^>]*href="([^"]+)"[^>]*>[\\s\\S]*?([^<]{2,50})<\/(?:h3|span)/gi,
+      /<a[^>]*data-test-id="VenueCard"[^>]*href="([^"]+)"[^>]*>[\s\S]*?([^<]{2,50})<\/(?:h3|span)/gi,
     ];
 
     for (const pattern of patterns) {
@@ -268,9 +269,9 @@ export class WoltAdapter extends BasePlatformAdapter {
     // Wolt menu item patterns
     const patterns = [
       // Product card pattern
-      /<div[^>]*data-test-id="MenuItem"[^>]*>[\\s\\S]*?<h3[^>]*>([^<]+)<\/h3>[\\s\\S]*?(?:<p[^>]*>([^<]*)<\/p>)?[\\s\\S]*?(?:€\s*(\d+[.,]\d{2}))?/gi,
+      /<div[^>]*data-test-id="MenuItem"[^>]*>[\s\S]*?<h3[^>]*>([^<]+)<\/h3>[\s\S]*?(?:<p[^>]*>([^<]*)<\/p>)?[\s\S]*?(?:€\s*(\d+[.,]\d{2}))?/gi,
       // Alternative pattern
-      /<article[^>]*class="[^"]*product[^"]*"[^>]*>[\\s\\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)<\/span>[\\s\\S]*?(?:<span[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/span>)?[\\s\\S]*?(?:(\d+[.,]\d{2})\s*€)?/gi,
+      /<article[^>]*class="[^"]*product[^"]*"[^>]*>[\s\S]*?<span[^>]*class="[^"]*name[^"]*"[^>]*>([^<]+)<\/span>[\s\S]*?(?:<span[^>]*class="[^"]*description[^"]*"[^>]*>([^<]*)<\/span>)?[\s\S]*?(?:(\d+[.,]\d{2})\s*€)?/gi,
     ];
 
     for (const pattern of patterns) {
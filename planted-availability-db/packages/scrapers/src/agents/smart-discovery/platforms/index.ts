@@ -17,18 +17,29 @@ export { UberEatsAdapter } from './UberEatsAdapter.js';
 export { LieferandoAdapter } from './LieferandoAdapter.js';
 export { WoltAdapter } from './WoltAdapter.js';
 export { SmoodAdapter } from './SmoodAdapter.js';
+export { DeliverooAdapter } from './DeliverooAdapter.js';
+export { GlovoAdapter } from './GlovoAdapter.js';
 
 import type { DeliveryPlatform } from '@pad/core';
 import { BasePlatformAdapter } from './BasePlatformAdapter.js';
+import type { VenuePageData } from './BasePlatformAdapter.js';
 import { JustEatAdapter } from './JustEatAdapter.js';
 import { UberEatsAdapter } from './UberEatsAdapter.js';
 import { LieferandoAdapter } from './LieferandoAdapter.js';
 import { WoltAdapter } from './WoltAdapter.js';
 import { SmoodAdapter } from './SmoodAdapter.js';
+import { DeliverooAdapter } from './DeliverooAdapter.js';
+import { GlovoAdapter } from './GlovoAdapter.js';
+import { previousAdapterVersions } from './previous/index.js';
+import {
+  selectAdapterVersion,
+  syncAdapterVersions,
+  toPlatformName,
+  updateAdapterStats,
+} from '../../../services/AdapterVersionManager.js';
 
 /**
  * Registry of all platform adapters
- * Note: Deliveroo and Glovo use generic adapters until specific ones are implemented
  */
 export const platformAdapters: Record<DeliveryPlatform, BasePlatformAdapter> = {
   'just-eat': new JustEatAdapter(),
@@ -36,11 +47,115 @@ export const platformAdapters: Record<DeliveryPlatform, BasePlatformAdapter> = {
   'lieferando': new LieferandoAdapter(),
   'wolt': new WoltAdapter(),
   'smood': new SmoodAdapter(),
-  // New platforms - using UberEats adapter as fallback (they have similar structures)
-  'deliveroo': new UberEatsAdapter(), // TODO: Create dedicated DeliverooAdapter
-  'glovo': new UberEatsAdapter(), // TODO: Create dedicated GlovoAdapter
+  'deliveroo': new DeliverooAdapter(),
+  'glovo': new GlovoAdapter(),
 };
 
+/**
+ * Adapter implementations per platform, one per version: the current
+ * adapter first, then the previous versions kept for rollback
+ *
+ * The version registry decides which of these serves a request: the active
+ * version, or the testing version for its canary share.
+ */
+export const adapterImplementations = Object.fromEntries(
+  (Object.keys(platformAdapters) as DeliveryPlatform[]).map((platform) => [
+    platform,
+    [platformAdapters[platform], ...(previousAdapterVersions[platform] ?? [])],
+  ])
+) as Record<DeliveryPlatform, BasePlatformAdapter[]>;
+
+function getAdapterImplementations(platform: DeliveryPlatform): BasePlatformAdapter[] {
+  return adapterImplementations[platform] ?? [getAdapter(platform)];
+}
+
+let adapterVersionsSynced: Promise<void> | null = null;
+
+/**
+ * Register the adapter versions in code with the version registry (once)
+ */
+function ensureAdapterVersionsSynced(): Promise<void> {
+  if (!adapterVersionsSynced) {
+    const declared = getSupportedPlatforms().flatMap((platform) =>
+      getAdapterImplementations(platform).map((adapter) => ({
+        platform: toPlatformName(platform),
+        version: adapter.version,
+      }))
+    );
+    adapterVersionsSynced = syncAdapterVersions(declared);
+  }
+  return adapterVersionsSynced;
+}
+
+/**
+ * Get the adapter version that should handle a request for a platform
+ *
+ * Falls back to the default adapter if the registry can't be reached or
+ * knows none of the versions in code.
+ */
+export async function resolveAdapter(platform: DeliveryPlatform): Promise<BasePlatformAdapter> {
+  const implementations = getAdapterImplementations(platform);
+
+  try {
+    await ensureAdapterVersionsSynced();
+    const selected = await selectAdapterVersion(
+      toPlatformName(platform),
+      implementations.map((adapter) => adapter.version)
+    );
+    const adapter = implementations.find((a) => a.version === selected?.version);
+    if (adapter) {
+      return adapter;
+    }
+  } catch (error) {
+    console.warn(`Adapter version lookup failed for ${platform}, using default:`, error);
+  }
+
+  return getAdapter(platform);
+}
+
+/**
+ * Parse a venue page with the platform's current adapter version
+ *
+ * The outcome is reported to the version registry: a parse that throws or
+ * returns an unusable page counts as a failure and can trigger a rollback.
+ * Parse errors are rethrown after reporting.
+ */
+export async function parseVenuePage(platform: DeliveryPlatform, html: string): Promise<VenuePageData> {
+  const adapter = await resolveAdapter(platform);
+
+  let data: VenuePageData;
+  try {
+    data = adapter.parseVenuePage(html);
+  } catch (error) {
+    await reportParseOutcome(platform, adapter, {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  const valid = adapter.isValidVenuePage(data);
+  await reportParseOutcome(platform, adapter, {
+    success: valid,
+    error: valid ? undefined : 'Venue page parsed without a name, or without both address and menu items',
+  });
+
+  return data;
+}
+
+async function reportParseOutcome(
+  platform: DeliveryPlatform,
+  adapter: BasePlatformAdapter,
+  outcome: { success: boolean; error?: string }
+): Promise<void> {
+  try {
+    await updateAdapterStats(toPlatformName(platform), adapter.version, outcome);
+  } catch (error) {
+    // Stats must never break scraping
+    console.warn(`Failed to report ${platform} adapter v${adapter.version} stats:`, error);
+  }
+}
+
 /**
  * Get adapter for a specific platform
  */
@@ -52,6 +167,51 @@ export function getAdapter(platform: DeliveryPlatform): BasePlatformAdapter {
   return adapter;
 }
 
+/**
+ * Detect the delivery platform of a venue URL
+ */
+export function getPlatformFromUrl(url: string): DeliveryPlatform | null {
+  if (url.includes('ubereats.com')) return 'uber-eats';
+  if (url.includes('just-eat') || url.includes('eat.ch')) return 'just-eat';
+  if (url.includes('lieferando')) return 'lieferando';
+  if (url.includes('wolt.com')) return 'wolt';
+  if (url.includes('smood.ch')) return 'smood';
+  if (url.includes('deliveroo.')) return 'deliveroo';
+  if (url.includes('glovoapp.') || url.includes('glovo.')) return 'glovo';
+  return null;
+}
+
+/**
+ * Fetch a venue page's HTML with browser-like headers
+ *
+ * Throws if the page can't be fetched.
+ */
+export async function fetchVenuePageHtml(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Fetch a venue page and parse it with the platform's adapter
+ *
+ * Throws if the page can't be fetched.
+ */
+export async function fetchVenuePageData(url: string, platform: DeliveryPlatform): Promise<VenuePageData> {
+  const html = await fetchVenuePageHtml(url);
+  return parseVenuePage(platform, html);
+}
+
 /**
  * Get all adapters that support a country
  */
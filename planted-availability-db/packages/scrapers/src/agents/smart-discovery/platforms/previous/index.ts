@@ -0,0 +1,20 @@
+/**
+ * Previous Platform Adapter Versions
+ *
+ * When a parser change bumps an adapter's version, the old parsing code is
+ * kept here as a subclass of the current adapter pinned to the old version
+ * (e.g. `class WoltAdapterV1 extends WoltAdapter { version = '1.0.0'; ... }`)
+ * and listed below. A rollback to that version (see AdapterVersionManager)
+ * then switches back to code that parses like it did, not just to its label.
+ *
+ * Drop a class once its version is no longer a rollback target.
+ *
+ * Not kept: wolt and smood 1.0.0. Their [\\s\\S] regexes matched backslashes
+ * instead of any character, so they are no rollback target. With no code
+ * for the active version, the registry sync activates the current version.
+ */
+
+import type { DeliveryPlatform } from '@pad/core';
+import type { BasePlatformAdapter } from '../BasePlatformAdapter.js';
+
+export const previousAdapterVersions: Partial<Record<DeliveryPlatform, BasePlatformAdapter[]>> = {};
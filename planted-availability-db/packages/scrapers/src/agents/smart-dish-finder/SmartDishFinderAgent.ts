@@ -29,7 +29,8 @@ import type {
   DeliveryPlatform,
   SupportedCountry,
   ConfidenceFactor,
-  PlantedProductSku
+  PlantedProductSku,
+  DiscoveredDish,
 } from '@pad/core';
 import {
   DISH_SEED_STRATEGIES,
@@ -38,6 +39,8 @@ import {
   SUPPORTED_COUNTRIES,
 } from '@pad/core';
 import { PuppeteerFetcher, getPuppeteerFetcher, closePuppeteerFetcher } from './PuppeteerFetcher.js';
+import { getLatestSnapshot, snapshotAndDetectChanges } from '../../services/MenuSnapshotService.js';
+import { queueFailedOperation, resolveOpenOperations } from '../../services/DeadLetterQueue.js';
 
 export interface DishFinderAgentConfig {
   maxVenuesPerRun?: number;
@@ -58,6 +61,18 @@ interface VenueToProcess {
   }>;
 }
 
+/**
+ * A platform page of a venue that couldn't be scraped
+ */
+export interface VenuePlatformFailure {
+  type: 'menu_scrape' | 'dish_extraction';
+  platform: DeliveryPlatform;
+  url: string;
+  error: string;
+}
+
+type ExtractionOutcome = PageExtractionResult & { error?: string };
+
 // Known chain products for higher confidence
 const VERIFIED_CHAIN_PRODUCTS: Record<string, PlantedProductSku[]> = {
   'dean-david': ['planted.chicken'],
@@ -286,7 +301,7 @@ export class SmartDishFinderAgent {
         };
 
         // Re-extract dishes
-        await this.processVenue(venue);
+        await this.processVenue(venue, { recordSnapshots: true });
 
         // Mark dishes as refreshed
         this.stats.dishes_updated += venueDishes.length;
@@ -312,21 +327,32 @@ export class SmartDishFinderAgent {
 
     this.log(`Found ${dishesToVerify.length} dishes to verify`);
 
+    // Pages fetched so far, by source URL (null if the fetch failed)
+    const pages = new Map<string, { venueId: string; html: string | null }>();
+
     for (const dish of dishesToVerify) {
       try {
-        // Fetch the source URL
-        const result = await this.fetcher.fetchPage(
-          dish.source_url,
-          {
-            venue_id: dish.venue_id,
-            venue_name: dish.venue_name,
-            chain_id: dish.chain_id,
-          }
-        );
+        // Fetch the source URL (once per page)
+        let page = pages.get(dish.source_url);
+        if (!page) {
+          const result = await this.fetcher.fetchPage(
+            dish.source_url,
+            {
+              venue_id: dish.venue_id,
+              venue_name: dish.venue_name,
+              chain_id: dish.chain_id,
+            }
+          );
+          page = {
+            venueId: dish.venue_id,
+            html: result.success && result.page ? result.page.html || '' : null,
+          };
+          pages.set(dish.source_url, page);
+        }
 
-        if (result.success && result.page) {
+        if (page.html !== null) {
           // Check if dish still exists on page
-          const content = result.page.html || '';
+          const content = page.html;
           const dishExists = content.toLowerCase().includes(dish.name.toLowerCase());
 
           if (dishExists) {
@@ -345,6 +371,71 @@ export class SmartDishFinderAgent {
 
       await this.delay(500); // Lighter rate limit for verification
     }
+
+    for (const [url, page] of pages) {
+      if (page.html !== null) {
+        await this.recordVerifiedSnapshot(page.venueId, url, page.html);
+      }
+    }
+  }
+
+  /**
+   * Record a menu snapshot for a page fetched in verify mode
+   *
+   * Verify mode doesn't re-extract, so the snapshot holds the dishes already
+   * known for the page (from the last snapshot and discovered_dishes) whose
+   * names still appear on it.
+   */
+  private async recordVerifiedSnapshot(venueId: string, url: string, html: string): Promise<void> {
+    if (this.config.dryRun) return;
+
+    try {
+      const venue = await discoveredVenues.getById(venueId);
+      const link = venue?.delivery_platforms.find((p) => p.url === url);
+      const knownDishes = (await discoveredDishes.query({ venue_id: venueId })).filter(
+        (d) => d.source_url === url
+      );
+      const platform = link?.platform ?? knownDishes[0]?.prices[0]?.platform;
+      if (!platform) return;
+
+      const candidates = new Map<string, DiscoveredDish>();
+      for (const dish of knownDishes) {
+        const price = dish.prices.find((p) => p.platform === platform);
+        candidates.set(dish.name.toLowerCase(), {
+          name: dish.name,
+          description: dish.description,
+          price: price?.formatted,
+          currency: price?.currency,
+          planted_product: dish.planted_product,
+          is_vegan: dish.is_vegan,
+          confidence: dish.product_confidence,
+        });
+      }
+
+      // Prefer the last snapshot's values so unchanged dishes compare equal
+      const previous = await getLatestSnapshot(venueId, platform);
+      for (const dish of previous?.dishes ?? []) {
+        const known = candidates.get(dish.name.toLowerCase());
+        candidates.set(dish.name.toLowerCase(), {
+          name: dish.name,
+          description: dish.description,
+          price: dish.price,
+          currency: dish.currency,
+          planted_product: dish.planted_product || known?.planted_product || '',
+          is_vegan: dish.is_vegan,
+          confidence: known?.confidence ?? 0,
+        });
+      }
+      if (candidates.size === 0) return;
+
+      const content = html.toLowerCase();
+      const present = Array.from(candidates.values()).filter((d) => content.includes(d.name.toLowerCase()));
+
+      const { changes } = await snapshotAndDetectChanges(venueId, platform, present, { source_url: url });
+      this.log(`Menu snapshot for ${venueId} on ${platform}: ${changes.length} changes`);
+    } catch (error) {
+      this.log(`Failed to record menu snapshot for ${url}: ${error}`);
+    }
   }
 
   /**
@@ -468,11 +559,15 @@ export class SmartDishFinderAgent {
   /**
    * Process a single venue
    */
-  private async processVenue(venue: VenueToProcess): Promise<void> {
+  private async processVenue(
+    venue: VenueToProcess,
+    options: { recordSnapshots?: boolean; queueFailures?: boolean } = {}
+  ): Promise<VenuePlatformFailure[]> {
     this.log(`Processing venue: ${venue.name}`);
 
     const allExtractedDishes: ExtractedDishFromPage[] = [];
     const pricesByDish = new Map<string, PriceEntry[]>();
+    const failures: VenuePlatformFailure[] = [];
 
     // Fetch and extract from each platform
     for (const { platform, url, country } of venue.delivery_urls) {
@@ -481,6 +576,7 @@ export class SmartDishFinderAgent {
         const strategy = await dishExtractionStrategies.getStrategy(platform, venue.chain_id);
 
         // Fetch the page - scroll to bottom to trigger lazy-loaded images
+        const startedAt = Date.now();
         const result = await this.fetcher.fetchPage(url, {
           venue_id: venue.id,
           venue_name: venue.name,
@@ -489,11 +585,15 @@ export class SmartDishFinderAgent {
 
         if (!result.success || !result.page) {
           this.log(`Failed to fetch ${url}: ${result.error}`);
+          failures.push({ type: 'menu_scrape', platform, url, error: result.error || 'Fetch failed' });
           continue;
         }
 
         // Extract dishes
         const extracted = await this.extractDishes(result.page, strategy);
+        if (extracted.error) {
+          failures.push({ type: 'dish_extraction', platform, url, error: extracted.error });
+        }
 
         // Track strategy usage
         if (strategy && this.currentRun) {
@@ -504,6 +604,13 @@ export class SmartDishFinderAgent {
           });
         }
 
+        if (options.recordSnapshots) {
+          await this.recordMenuSnapshot(venue.id, platform, country, extracted, {
+            source_url: url,
+            scrape_duration_ms: Date.now() - startedAt,
+          });
+        }
+
         // Collect prices
         for (const dish of extracted.dishes) {
           allExtractedDishes.push(dish);
@@ -534,11 +641,128 @@ export class SmartDishFinderAgent {
         }
       } catch (error) {
         this.log(`Error extracting from ${platform}: ${error}`);
+        failures.push({
+          type: 'dish_extraction',
+          platform,
+          url,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
     // Deduplicate and store dishes
     await this.storeDishes(venue, allExtractedDishes, pricesByDish);
+
+    if (options.queueFailures !== false) {
+      await this.updateFailedOperations(venue, failures);
+    }
+
+    return failures;
+  }
+
+  /**
+   * Queue failed platform pages in the dead letter queue for retry, and
+   * resolve open operations of platforms that succeeded this time
+   */
+  private async updateFailedOperations(venue: VenueToProcess, failures: VenuePlatformFailure[]): Promise<void> {
+    if (this.config.dryRun) return;
+
+    for (const { platform } of venue.delivery_urls) {
+      if (failures.some((f) => f.platform === platform)) continue;
+      try {
+        await resolveOpenOperations('menu_scrape', venue.id, platform);
+        await resolveOpenOperations('dish_extraction', venue.id, platform);
+      } catch (error) {
+        this.log(`Failed to resolve failed operations for ${venue.name}: ${error}`);
+      }
+    }
+
+    for (const failure of failures) {
+      try {
+        await queueFailedOperation({
+          type: failure.type,
+          venue_id: venue.id,
+          platform: failure.platform,
+          error: failure.error,
+          context: {
+            venue_name: venue.name,
+            chain_id: venue.chain_id,
+            url: failure.url,
+            run_id: this.currentRun?.id,
+          },
+        });
+      } catch (error) {
+        this.log(`Failed to queue failed operation for ${venue.name}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Re-process a single venue, optionally limited to one platform
+   *
+   * Used to retry dead letter queue operations; failures are returned
+   * instead of being queued again.
+   */
+  async retryVenue(venueId: string, platform?: DeliveryPlatform): Promise<VenuePlatformFailure[]> {
+    const existingVenue = await discoveredVenues.getById(venueId);
+    if (!existingVenue) {
+      throw new Error(`Discovered venue not found: ${venueId}`);
+    }
+
+    const deliveryUrls = existingVenue.delivery_platforms
+      .filter((p) => !platform || p.platform === platform)
+      .map((p) => ({ platform: p.platform, url: p.url, country: existingVenue.address.country }));
+    if (deliveryUrls.length === 0) {
+      throw new Error(`Venue ${venueId} has no ${platform ?? 'delivery'} platform link`);
+    }
+
+    return this.processVenue(
+      {
+        id: existingVenue.id,
+        name: existingVenue.name,
+        chain_id: existingVenue.chain_id,
+        chain_name: existingVenue.chain_name,
+        delivery_urls: deliveryUrls,
+      },
+      { recordSnapshots: true, queueFailures: false }
+    );
+  }
+
+  /**
+   * Record a menu snapshot for one platform page and log detected changes
+   */
+  private async recordMenuSnapshot(
+    venueId: string,
+    platform: DeliveryPlatform,
+    country: SupportedCountry,
+    extracted: PageExtractionResult,
+    metadata: { source_url: string; scrape_duration_ms: number }
+  ): Promise<void> {
+    if (this.config.dryRun) return;
+
+    // An empty result without a menu is a failed extraction, not an empty menu
+    if (extracted.dishes.length === 0 && !extracted.page_quality.menu_found) {
+      this.log(`No menu found on ${metadata.source_url}, skipping snapshot`);
+      return;
+    }
+
+    const currency = CURRENCY_BY_COUNTRY[country];
+    const dishes: DiscoveredDish[] = extracted.dishes.map((dish) => ({
+      name: dish.name,
+      description: dish.description,
+      price: this.formatPrice(dish.price, currency),
+      currency,
+      planted_product: this.validateProduct(dish.planted_product_guess),
+      is_vegan: dish.is_vegan,
+      confidence: dish.product_confidence || 50,
+    }));
+
+    try {
+      const { changes } = await snapshotAndDetectChanges(venueId, platform, dishes, metadata);
+      this.log(`Menu snapshot for ${venueId} on ${platform}: ${changes.length} changes`);
+    } catch (error) {
+      this.log(`Failed to record menu snapshot for ${venueId} on ${platform}: ${error}`);
+    }
   }
 
   /**
@@ -547,7 +771,7 @@ export class SmartDishFinderAgent {
   private async extractDishes(
     page: VenuePage,
     _strategy: DishExtractionStrategy | null
-  ): Promise<PageExtractionResult> {
+  ): Promise<ExtractionOutcome> {
     try {
       // Use the DishFinderAIClient which handles all the prompting and parsing
       return await this.aiClient.extractDishes(page);
@@ -562,6 +786,7 @@ export class SmartDishFinderAgent {
           images_available: false,
         },
         extraction_notes: `Error: ${error}`,
+        error: error instanceof Error ? error.message : String(error),
       };
     }
   }
@@ -50,8 +50,11 @@ if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
 }
 
 import { initializeFirestore, getFirestore } from '@pad/database';
-import type { DeliveryPlatform } from '@pad/core';
-import { platformAdapters } from '../agents/smart-discovery/platforms/index.js';
+import {
+  platformAdapters,
+  parseVenuePage,
+  getPlatformFromUrl,
+} from '../agents/smart-discovery/platforms/index.js';
 import { PuppeteerFetcher } from '../agents/smart-dish-finder/PuppeteerFetcher.js';
 
 initializeFirestore();
@@ -70,20 +73,6 @@ interface BackfillResult {
 
 type FetchMethod = 'simple' | 'puppeteer' | 'chrome';
 
-/**
- * Detect platform from URL
- */
-function detectPlatformFromUrl(url: string): DeliveryPlatform | null {
-  if (url.includes('ubereats.com')) return 'uber-eats';
-  if (url.includes('just-eat') || url.includes('eat.ch')) return 'just-eat';
-  if (url.includes('lieferando')) return 'lieferando';
-  if (url.includes('wolt.com')) return 'wolt';
-  if (url.includes('smood.ch')) return 'smood';
-  if (url.includes('deliveroo.')) return 'deliveroo';
-  if (url.includes('glovoapp.') || url.includes('glovo.')) return 'glovo';
-  return null;
-}
-
 /**
  * Format address for display
  */
@@ -297,7 +286,7 @@ async function runBackfill(
       }
 
       const sourceUrl = firstPlatform.url;
-      const platform = detectPlatformFromUrl(sourceUrl);
+      const platform = getPlatformFromUrl(sourceUrl);
       result.platform = platform || 'unknown';
 
       if (!platform) {
@@ -380,7 +369,7 @@ async function runBackfill(
       }
 
       // Parse the venue page to extract address
-      const venuePageData = adapter.parseVenuePage(html);
+      const venuePageData = await parseVenuePage(platform, html);
 
       if (!venuePageData.address?.street) {
         result.status = 'no_address';
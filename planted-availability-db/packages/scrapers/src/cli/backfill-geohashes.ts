@@ -0,0 +1,74 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Backfill Script: Venue Geohashes
+ *
+ * VenuesCollection.queryNearby runs geohash range queries, so venues written
+ * before the geohash field existed (or by scripts that bypass the collection)
+ * are invisible to /api/v1/nearby. This script writes the geohash for every
+ * venue whose stored value is missing or out of date.
+ *
+ * Usage:
+ *   npx tsx src/cli/backfill-geohashes.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run  Preview changes without writing to database
+ */
+
+// Load environment variables
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '../../../..'); // planted-availability-db/
+
+// Load .env files
+dotenv.config({ path: path.resolve(rootDir, '.env') });
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+// Fix relative GOOGLE_APPLICATION_CREDENTIALS path
+if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+  const credPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!path.isAbsolute(credPath)) {
+    const resolvedPath = path.resolve(rootDir, credPath);
+    if (fs.existsSync(resolvedPath)) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = resolvedPath;
+    }
+  }
+}
+
+import { initializeFirestore, venues } from '@pad/database';
+
+initializeFirestore();
+
+async function runBackfill(dryRun: boolean): Promise<void> {
+  console.log('\n🌍 Venue Geohash Backfill');
+  console.log('='.repeat(50));
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE (changes will be written)'}\n`);
+
+  const result = await venues.backfillGeohashes({ dryRun });
+
+  console.log('\n📊 Backfill Summary');
+  console.log('='.repeat(50));
+  console.log(`Venues scanned:            ${result.scanned}`);
+  console.log(`🔧 Geohash written:        ${result.updated}`);
+  console.log(`⚠️  Skipped (no location): ${result.skipped}`);
+
+  if (dryRun) {
+    console.log('\n⚡ This was a dry run. Run without --dry-run to apply changes.');
+  } else {
+    console.log('\n✅ Backfill complete!');
+  }
+}
+
+// Main execution
+const dryRun = process.argv.includes('--dry-run');
+runBackfill(dryRun)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Backfill Script: Promotion Countries
+ *
+ * /api/v1/promotions filters by country on the stored countries field (the
+ * venue's country, or the chain's markets), so promotions written before the
+ * field existed are missing from country-filtered results. Re-run it after a
+ * venue's country or a chain's markets change, since the field is only
+ * computed when a promotion is written.
+ *
+ * Usage:
+ *   npx tsx src/cli/backfill-promotion-countries.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run  Preview changes without writing to database
+ */
+
+// Load environment variables
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '../../../..'); // planted-availability-db/
+
+// Load .env files
+dotenv.config({ path: path.resolve(rootDir, '.env') });
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+// Fix relative GOOGLE_APPLICATION_CREDENTIALS path
+if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+  const credPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!path.isAbsolute(credPath)) {
+    const resolvedPath = path.resolve(rootDir, credPath);
+    if (fs.existsSync(resolvedPath)) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = resolvedPath;
+    }
+  }
+}
+
+import { initializeFirestore, promotions } from '@pad/database';
+
+initializeFirestore();
+
+async function runBackfill(dryRun: boolean): Promise<void> {
+  console.log('\n🌍 Promotion Countries Backfill');
+  console.log('='.repeat(50));
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE (changes will be written)'}\n`);
+
+  const result = await promotions.backfillCountries({ dryRun });
+
+  console.log('\n📊 Backfill Summary');
+  console.log('='.repeat(50));
+  console.log(`Promotions scanned:   ${result.scanned}`);
+  console.log(`🔧 Countries written: ${result.updated}`);
+
+  if (dryRun) {
+    console.log('\n⚡ This was a dry run. Run without --dry-run to apply changes.');
+  } else {
+    console.log('\n✅ Backfill complete!');
+  }
+}
+
+// Main execution
+const dryRun = process.argv.includes('--dry-run');
+runBackfill(dryRun)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
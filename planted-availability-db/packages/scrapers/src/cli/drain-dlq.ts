@@ -0,0 +1,171 @@
+#!/usr/bin/env tsx
+/**
+ * Dead Letter Queue Drain CLI
+ *
+ * Retries failed scraper operations (discovery, dish extraction, menu
+ * scrapes) that are due. Runs hourly in the drain-dlq GitHub Actions
+ * workflow (.github/workflows/drain-dlq.yml).
+ *
+ * Usage:
+ *   pnpm run drain-dlq [options]
+ *
+ * Options:
+ *   --types, -t <list>       Operation types to drain (default: all scraper types)
+ *   --dry-run                List due operations without retrying them
+ *   --verbose, -v            Verbose output
+ *   --stats                  Show queue statistics and exit
+ *   --help, -h               Show help
+ *
+ * Examples:
+ *   pnpm run drain-dlq --verbose
+ *   pnpm run drain-dlq --types dish_extraction,menu_scrape
+ *   pnpm run drain-dlq --stats
+ */
+
+// Load environment variables from .env file (look in parent directories too)
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { existsSync } from 'fs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '../../../..'); // planted-availability-db/
+
+// Try loading from multiple locations
+dotenv.config({ path: path.resolve(rootDir, '.env') }); // planted-availability-db/.env
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') }); // packages/.env
+dotenv.config({ path: path.resolve(__dirname, '../../.env') }); // scrapers/.env
+
+// Fix relative GOOGLE_APPLICATION_CREDENTIALS path - resolve relative to the .env location (rootDir)
+if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+  const credPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!path.isAbsolute(credPath)) {
+    const resolvedPath = path.resolve(rootDir, credPath);
+    if (existsSync(resolvedPath)) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = resolvedPath;
+    }
+  }
+}
+
+import type { OperationType } from '@pad/core';
+import { drainDeadLetterQueue, SCRAPER_OPERATION_TYPES } from '../services/DeadLetterQueueDrain.js';
+import { getDLQStats } from '../services/DeadLetterQueue.js';
+
+interface CLIOptions {
+  types?: OperationType[];
+  dryRun: boolean;
+  verbose: boolean;
+  stats: boolean;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    dryRun: false,
+    verbose: false,
+    stats: false,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--types':
+      case '-t':
+        if (nextArg) {
+          options.types = nextArg
+            .split(',')
+            .map((t) => t.trim().toLowerCase())
+            .filter((t) => SCRAPER_OPERATION_TYPES.includes(t as OperationType)) as OperationType[];
+          i++;
+        }
+        break;
+
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+
+      case '--verbose':
+      case '-v':
+        options.verbose = true;
+        break;
+
+      case '--stats':
+        options.stats = true;
+        break;
+
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Dead Letter Queue Drain CLI
+
+Retry failed scraper operations that are due.
+
+Usage:
+  pnpm run drain-dlq [options]
+
+Options:
+  --types, -t <list>       ${SCRAPER_OPERATION_TYPES.join(',')}
+  --dry-run                List due operations without retrying them
+  --verbose, -v            Verbose output
+  --stats                  Show queue statistics and exit
+  --help, -h               Show help
+`);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  try {
+    if (options.stats) {
+      const stats = await getDLQStats();
+      console.log('Dead Letter Queue\n');
+      console.log(`  Total:           ${stats.total_failed}`);
+      console.log(`  Pending retry:   ${stats.pending_retry}`);
+      console.log(`  Requires manual: ${stats.requires_manual}`);
+      console.log(`  Resolved:        ${stats.resolved}`);
+      console.log('\n  By type:');
+      for (const [type, count] of Object.entries(stats.by_type)) {
+        console.log(`    ${type}: ${count}`);
+      }
+      process.exit(0);
+    }
+
+    const result = await drainDeadLetterQueue({
+      types: options.types?.length ? options.types : undefined,
+      dryRun: options.dryRun,
+      verbose: options.verbose,
+    });
+
+    console.log(`\nProcessed: ${result.processed}`);
+    console.log(`  Resolved:  ${result.resolved}`);
+    console.log(`  Failed:    ${result.failed}`);
+    console.log(`  Escalated: ${result.escalated}`);
+    for (const { id, error } of result.errors) {
+      console.log(`  - ${id}: ${error}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
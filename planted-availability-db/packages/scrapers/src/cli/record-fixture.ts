@@ -0,0 +1,247 @@
+#!/usr/bin/env tsx
+/**
+ * Record Platform Fixture CLI
+ *
+ * Captures a delivery platform venue page into the adapter fixture
+ * directory (src/tests/fixtures/platforms/{platform}/) together with the
+ * VenuePageData the adapter extracts from it. The fixture test suite then
+ * replays the page offline and fails when parsing changes.
+ *
+ * Usage:
+ *   pnpm run record-fixture --url <venue-url> [options]
+ *   pnpm run record-fixture --update [--platform <platform>]
+ *
+ * Options:
+ *   --url, -u <url>          Venue page to record
+ *   --platform, -p <name>    Platform (default: detected from the URL)
+ *   --name, -n <name>        Fixture name (default: derived from the venue ID)
+ *   --puppeteer              Fetch with the headless browser instead of plain HTTP
+ *   --force                  Overwrite an existing fixture
+ *   --update                 Re-record expectations from the saved pages
+ *                            (after an intended parser change)
+ *   --help, -h               Show help
+ *
+ * Examples:
+ *   pnpm run record-fixture --url https://wolt.com/de/deu/berlin/restaurant/some-venue
+ *   pnpm run record-fixture --url https://www.ubereats.com/ch/store/x/abc --puppeteer
+ *   pnpm run record-fixture --update --platform wolt
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import type { DeliveryPlatform } from '@pad/core';
+import {
+  getAdapter,
+  getPlatformFromUrl,
+  getSupportedPlatforms,
+  fetchVenuePageHtml,
+} from '../agents/smart-discovery/platforms/index.js';
+import { getPuppeteerFetcher, closePuppeteerFetcher } from '../agents/smart-dish-finder/PuppeteerFetcher.js';
+import {
+  PLATFORM_FIXTURES_DIR,
+  getPlatformFixture,
+  listPlatformFixtures,
+  readFixtureExpectation,
+  readFixtureHtml,
+  toFixtureData,
+  toFixtureName,
+  writePlatformFixture,
+} from '../services/PlatformFixtures.js';
+
+interface CLIOptions {
+  url?: string;
+  platform?: DeliveryPlatform;
+  name?: string;
+  puppeteer: boolean;
+  force: boolean;
+  update: boolean;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    puppeteer: false,
+    force: false,
+    update: false,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--url':
+      case '-u':
+        options.url = nextArg;
+        i++;
+        break;
+
+      case '--platform':
+      case '-p':
+        options.platform = nextArg as DeliveryPlatform;
+        i++;
+        break;
+
+      case '--name':
+      case '-n':
+        options.name = nextArg;
+        i++;
+        break;
+
+      case '--puppeteer':
+        options.puppeteer = true;
+        break;
+
+      case '--force':
+        options.force = true;
+        break;
+
+      case '--update':
+        options.update = true;
+        break;
+
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Record Platform Fixture CLI
+
+Capture a venue page as an offline adapter test fixture.
+
+Usage:
+  pnpm run record-fixture --url <venue-url> [options]
+  pnpm run record-fixture --update [--platform <platform>]
+
+Options:
+  --url, -u <url>          Venue page to record
+  --platform, -p <name>    ${getSupportedPlatforms().join(', ')}
+  --name, -n <name>        Fixture name (default: derived from the venue ID)
+  --puppeteer              Fetch with the headless browser instead of plain HTTP
+  --force                  Overwrite an existing fixture
+  --update                 Re-record expectations from the saved pages
+  --help, -h               Show help
+
+Fixtures are written to ${path.relative(process.cwd(), PLATFORM_FIXTURES_DIR)}
+`);
+}
+
+async function fetchHtml(url: string, usePuppeteer: boolean): Promise<string> {
+  if (!usePuppeteer) {
+    return fetchVenuePageHtml(url);
+  }
+
+  const result = await getPuppeteerFetcher().fetchPage(url, {
+    venue_id: 'fixture',
+    venue_name: 'fixture',
+  });
+  if (!result.success || !result.page?.html) {
+    throw new Error(`Failed to fetch ${url}: ${result.error || 'no HTML returned'}`);
+  }
+  return result.page.html;
+}
+
+async function record(options: CLIOptions): Promise<void> {
+  const url = options.url!;
+  const platform = options.platform || getPlatformFromUrl(url);
+  if (!platform || !getSupportedPlatforms().includes(platform)) {
+    throw new Error(`Unknown platform for ${url}; pass --platform`);
+  }
+
+  const adapter = getAdapter(platform);
+  const name = options.name || toFixtureName(adapter.extractVenueId(url) || url);
+  const fixture = getPlatformFixture(platform, name);
+
+  if (existsSync(fixture.htmlPath) && !options.force) {
+    throw new Error(`Fixture ${platform}/${name} already exists; pass --force to overwrite`);
+  }
+
+  console.log(`Fetching ${url}...`);
+  const html = await fetchHtml(url, options.puppeteer);
+  const data = adapter.parseVenuePage(html);
+
+  writePlatformFixture(
+    fixture,
+    {
+      source: 'recorded',
+      url,
+      recorded_at: new Date().toISOString(),
+      adapter_version: adapter.version,
+      data: toFixtureData(data),
+    },
+    html
+  );
+
+  console.log(`\n✓ Recorded ${platform}/${name} (${(html.length / 1024).toFixed(1)}KB)`);
+  console.log(`  Name:       ${data.name || '(none)'}`);
+  console.log(`  Address:    ${data.address?.street || '(none)'}, ${data.address?.city || ''}`);
+  console.log(`  Coords:     ${data.coordinates ? `${data.coordinates.latitude}, ${data.coordinates.longitude}` : '(none)'}`);
+  console.log(`  Menu items: ${data.menuItems.length}`);
+
+  if (!adapter.isValidVenuePage(data)) {
+    console.warn('\n⚠️  The adapter extracted nothing useful from this page.');
+    console.warn('   Check the page (blocked? consent wall?) before committing the fixture.');
+  }
+  console.log('\nReview the .expected.json file before committing it.');
+}
+
+function update(options: CLIOptions): void {
+  const fixtures = listPlatformFixtures(options.platform);
+  if (fixtures.length === 0) {
+    console.log('No fixtures found.');
+    return;
+  }
+
+  for (const fixture of fixtures) {
+    const adapter = getAdapter(fixture.platform);
+    const previous = readFixtureExpectation(fixture);
+    const data = toFixtureData(adapter.parseVenuePage(readFixtureHtml(fixture)));
+    const changed = JSON.stringify(previous?.data) !== JSON.stringify(data);
+
+    if (changed) {
+      // The page itself is unchanged, so keep where and when it came from
+      writePlatformFixture(fixture, {
+        source: previous?.source ?? 'synthetic',
+        url: previous?.url,
+        recorded_at: previous?.recorded_at,
+        adapter_version: adapter.version,
+        data,
+      });
+    }
+
+    console.log(`${changed ? '✎ updated  ' : '  unchanged'} ${fixture.platform}/${fixture.name}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.help || (!options.url && !options.update)) {
+    showHelp();
+    process.exit(options.help ? 0 : 1);
+  }
+
+  try {
+    if (options.update) {
+      update(options);
+    } else {
+      await record(options);
+    }
+    await closePuppeteerFetcher();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    await closePuppeteerFetcher();
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
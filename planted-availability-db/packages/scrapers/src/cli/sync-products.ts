@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+/**
+ * Product Catalog Sync CLI
+ *
+ * Seeds the products collection from PLANTED_PRODUCTS in @pad/core and
+ * reports where the collection and the planted-astro product pages have
+ * drifted from it. Catalog products are read-only in the admin API;
+ * products created there are not in the catalog and are only reported.
+ *
+ * Usage:
+ *   pnpm run sync-products [options]
+ *
+ * Options:
+ *   --dry-run                Show the diff without writing to Firestore
+ *   --content-dir <path>     planted-astro products content directory
+ *                            (default: ../planted-astro/src/content/products)
+ *   --help, -h               Show help
+ *
+ * Examples:
+ *   pnpm run sync-products --dry-run
+ *   pnpm run sync-products
+ */
+
+// Load environment variables from .env file (look in parent directories too)
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { existsSync } from 'fs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '../../../..'); // planted-availability-db/
+
+// Try loading from multiple locations
+dotenv.config({ path: path.resolve(rootDir, '.env') }); // planted-availability-db/.env
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') }); // packages/.env
+dotenv.config({ path: path.resolve(__dirname, '../../.env') }); // scrapers/.env
+
+// Fix relative GOOGLE_APPLICATION_CREDENTIALS path - resolve relative to the .env location (rootDir)
+if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+  const credPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!path.isAbsolute(credPath)) {
+    const resolvedPath = path.resolve(rootDir, credPath);
+    if (existsSync(resolvedPath)) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = resolvedPath;
+    }
+  }
+}
+
+import { initializeFirestore } from '@pad/database';
+import { syncProductCatalog, type ProductCatalogDiff } from '../services/ProductCatalogSync.js';
+
+initializeFirestore();
+
+const DEFAULT_CONTENT_DIR = path.resolve(rootDir, '../planted-astro/src/content/products');
+
+interface CLIOptions {
+  dryRun: boolean;
+  contentDir: string;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    dryRun: false,
+    contentDir: DEFAULT_CONTENT_DIR,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+
+      case '--content-dir':
+        if (nextArg) {
+          options.contentDir = path.resolve(nextArg);
+          i++;
+        }
+        break;
+
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Product Catalog Sync CLI
+
+Seed the products collection from PLANTED_PRODUCTS and diff it against
+Firestore and the planted-astro product pages.
+
+Usage:
+  pnpm run sync-products [options]
+
+Options:
+  --dry-run                Show the diff without writing to Firestore
+  --content-dir <path>     planted-astro products content directory
+  --help, -h               Show help
+`);
+}
+
+function printDiff(diff: ProductCatalogDiff, contentCompared: boolean): void {
+  console.log('\nFirestore');
+  console.log(`  Missing: ${diff.missing.length}`);
+  for (const product of diff.missing) {
+    console.log(`    + ${product.sku}`);
+  }
+  console.log(`  Changed: ${diff.changed.length}`);
+  for (const { sku, fields } of diff.changed) {
+    console.log(`    ~ ${sku} (${fields.join(', ')})`);
+  }
+  console.log(`  Not in catalog (admin-managed): ${diff.extra.length}`);
+  for (const product of diff.extra) {
+    console.log(`    - ${product.sku}`);
+  }
+
+  if (!contentCompared) return;
+
+  console.log('\nplanted-astro content');
+  console.log(`  No slug:          ${diff.unlinked.map((p) => p.sku).join(', ') || '-'}`);
+  console.log(`  Missing page:     ${diff.missingContent.map((p) => `${p.sku} (${p.slug})`).join(', ') || '-'}`);
+  console.log(`  Page without SKU: ${diff.orphanContent.map((entry) => entry.slug).join(', ') || '-'}`);
+  for (const mismatch of diff.categoryMismatches) {
+    console.log(`  Category: ${mismatch.sku} is ${mismatch.catalog}, ${mismatch.slug} page is ${mismatch.content}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  const contentCompared = existsSync(options.contentDir);
+  if (!contentCompared) {
+    console.warn(`Content directory not found, skipping content diff: ${options.contentDir}`);
+  }
+
+  try {
+    const result = await syncProductCatalog({
+      dryRun: options.dryRun,
+      contentDir: contentCompared ? options.contentDir : undefined,
+    });
+
+    printDiff(result.diff, contentCompared);
+
+    if (options.dryRun) {
+      console.log('\nDry run, nothing written. Run without --dry-run to apply.');
+    } else {
+      console.log(`\nWritten: ${result.written}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,194 @@
+#!/usr/bin/env tsx
+/**
+ * Venue Verification Worker CLI
+ *
+ * Processes the re-verification jobs queued by the daily scraper
+ * orchestrator: re-checks each venue on its delivery platform and
+ * refreshes last_verified. Intended to run on a schedule after the
+ * orchestrator (4 AM).
+ *
+ * Usage:
+ *   pnpm run verify-venues [options]
+ *
+ * Options:
+ *   --platforms, -p <list>   Platforms to process (default: all with due jobs)
+ *   --max-jobs, -m <n>       Stop after n jobs per platform
+ *   --dry-run                Show due platforms without processing jobs
+ *   --verbose, -v            Verbose output
+ *   --stats                  Show queue statistics and exit
+ *   --help, -h               Show help
+ *
+ * Examples:
+ *   pnpm run verify-venues --verbose
+ *   pnpm run verify-venues --platforms wolt,lieferando --max-jobs 20
+ *   pnpm run verify-venues --stats
+ */
+
+// Load environment variables from .env file (look in parent directories too)
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { existsSync } from 'fs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '../../../..'); // planted-availability-db/
+
+// Try loading from multiple locations
+dotenv.config({ path: path.resolve(rootDir, '.env') }); // planted-availability-db/.env
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') }); // packages/.env
+dotenv.config({ path: path.resolve(__dirname, '../../.env') }); // scrapers/.env
+
+// Fix relative GOOGLE_APPLICATION_CREDENTIALS path - resolve relative to the .env location (rootDir)
+if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+  const credPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!path.isAbsolute(credPath)) {
+    const resolvedPath = path.resolve(rootDir, credPath);
+    if (existsSync(resolvedPath)) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = resolvedPath;
+    }
+  }
+}
+
+import type { DeliveryPartner } from '@pad/core';
+import { initializeFirestore, verificationJobs } from '@pad/database';
+import { runVerificationWorker, PLATFORM_CONCURRENCY } from '../services/VerificationWorker.js';
+
+initializeFirestore();
+
+const PLATFORMS = Object.keys(PLATFORM_CONCURRENCY) as DeliveryPartner[];
+
+interface CLIOptions {
+  platforms?: DeliveryPartner[];
+  maxJobs?: number;
+  dryRun: boolean;
+  verbose: boolean;
+  stats: boolean;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    dryRun: false,
+    verbose: false,
+    stats: false,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--platforms':
+      case '-p':
+        if (nextArg) {
+          options.platforms = nextArg
+            .split(',')
+            .map((p) => p.trim().toLowerCase().replace(/-/g, '_'))
+            .filter((p) => PLATFORMS.includes(p as DeliveryPartner)) as DeliveryPartner[];
+          i++;
+        }
+        break;
+
+      case '--max-jobs':
+      case '-m':
+        if (nextArg) {
+          options.maxJobs = parseInt(nextArg, 10) || undefined;
+          i++;
+        }
+        break;
+
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+
+      case '--verbose':
+      case '-v':
+        options.verbose = true;
+        break;
+
+      case '--stats':
+        options.stats = true;
+        break;
+
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Venue Verification Worker CLI
+
+Process queued venue re-verification jobs.
+
+Usage:
+  pnpm run verify-venues [options]
+
+Options:
+  --platforms, -p <list>   ${PLATFORMS.join(',')}
+  --max-jobs, -m <n>       Stop after n jobs per platform
+  --dry-run                Show due platforms without processing jobs
+  --verbose, -v            Verbose output
+  --stats                  Show queue statistics and exit
+  --help, -h               Show help
+`);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  try {
+    if (options.stats) {
+      const stats = await verificationJobs.getStats();
+      console.log('Verification Jobs\n');
+      console.log(`  Queued:    ${stats.queued}`);
+      console.log(`  Running:   ${stats.running}`);
+      console.log(`  Succeeded: ${stats.succeeded}`);
+      console.log(`  Failed:    ${stats.failed}`);
+      console.log('\n  Open by platform:');
+      for (const [platform, counts] of Object.entries(stats.by_platform)) {
+        console.log(`    ${platform}: ${counts.queued} queued, ${counts.running} running`);
+      }
+      process.exit(0);
+    }
+
+    const result = await runVerificationWorker({
+      platforms: options.platforms?.length ? options.platforms : undefined,
+      maxJobsPerPlatform: options.maxJobs,
+      dryRun: options.dryRun,
+      verbose: options.verbose,
+    });
+
+    console.log(`\nProcessed: ${result.processed}${result.run_id ? ` (run ${result.run_id})` : ''}`);
+    console.log(`  Verified:  ${result.verified}`);
+    console.log(`  Requeued:  ${result.requeued}`);
+    console.log(`  Failed:    ${result.failed}`);
+    if (result.released > 0) {
+      console.log(`  Abandoned jobs requeued: ${result.released}`);
+    }
+    for (const [platform, counts] of Object.entries(result.by_platform)) {
+      console.log(`  ${platform}: ${counts.verified} verified, ${counts.requeued} requeued, ${counts.failed} failed`);
+    }
+    for (const { venue_id, error } of result.errors) {
+      console.log(`  - ${venue_id}: ${error}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
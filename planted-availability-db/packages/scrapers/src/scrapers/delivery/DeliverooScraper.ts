@@ -24,7 +24,7 @@ import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
 export interface DeliverooScraperConfig {
   cities?: Array<{
     name: string;
-    country: 'UK' | 'FR' | 'BE' | 'NL' | 'IT';
+    country: 'UK' | 'FR' | 'BE' | 'IT';
     slug: string;
   }>;
   headless?: boolean;
@@ -65,7 +65,6 @@ const COUNTRY_DOMAINS: Record<string, string> = {
   UK: 'deliveroo.co.uk',
   FR: 'deliveroo.fr',
   BE: 'deliveroo.be',
-  NL: 'deliveroo.nl',
   IT: 'deliveroo.it',
 };
 
@@ -22,6 +22,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface AlbertHeijnScraperConfig {
   headless?: boolean;
@@ -403,7 +404,12 @@ export class AlbertHeijnScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'Albert Heijn',
+      scraperId: 'albert-heijn-nl',
+      country: 'NL',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
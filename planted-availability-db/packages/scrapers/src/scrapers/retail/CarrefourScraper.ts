@@ -21,6 +21,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface CarrefourScraperConfig {
   countries?: Array<'FR' | 'ES' | 'IT'>;
@@ -368,7 +369,12 @@ export class CarrefourScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'Carrefour',
+      scraperId: 'carrefour',
+      country: 'FR',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
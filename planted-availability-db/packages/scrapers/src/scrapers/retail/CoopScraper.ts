@@ -18,6 +18,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface CoopScraperConfig {
   headless?: boolean;
@@ -367,12 +368,12 @@ export class CoopScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    // TODO: Implement database save
-    // This will create/update:
-    // 1. Chain entry for "Coop"
-    // 2. Product entries for each Planted product
-    // 3. RetailAvailability entries
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'Coop',
+      scraperId: 'coop-ch',
+      country: 'CH',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
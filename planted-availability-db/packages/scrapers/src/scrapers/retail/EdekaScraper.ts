@@ -18,6 +18,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface EdekaScraperConfig {
   headless?: boolean;
@@ -319,12 +320,12 @@ export class EdekaScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    // TODO: Implement database save
-    // This will create/update:
-    // 1. Chain entry for "EDEKA"
-    // 2. Product entries for each Planted product
-    // 3. RetailAvailability entries
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'EDEKA',
+      scraperId: 'edeka-de',
+      country: 'DE',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
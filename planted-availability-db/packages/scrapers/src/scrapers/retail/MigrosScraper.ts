@@ -18,6 +18,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface MigrosScraperConfig {
   headless?: boolean;
@@ -392,12 +393,12 @@ export class MigrosScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    // TODO: Implement database save
-    // This will create/update:
-    // 1. Chain entry for "Migros"
-    // 2. Product entries for each Planted product
-    // 3. RetailAvailability entries
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'Migros',
+      scraperId: 'migros-ch',
+      country: 'CH',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
@@ -18,6 +18,7 @@ import {
   isBlocked,
 } from '../../browser/BrowserScraper.js';
 import type { ScraperResult, ScraperOptions } from '../../base/BaseScraper.js';
+import { RetailAvailabilitySync } from '../../services/RetailAvailabilitySync.js';
 
 export interface ReweScraperConfig {
   headless?: boolean;
@@ -467,12 +468,12 @@ export class ReweScraper {
   }
 
   private async saveToDatabase(): Promise<void> {
-    // TODO: Implement database save
-    // This will create/update:
-    // 1. Chain entry for "REWE"
-    // 2. Product entries for each Planted product
-    // 3. RetailAvailability entries
-    this.log('Database save not implemented yet - use with --dry-run for now');
+    const sync = new RetailAvailabilitySync({
+      chainName: 'REWE',
+      scraperId: 'rewe-de',
+      country: 'DE',
+    });
+    await sync.save(this.products);
   }
 
   private logProducts(): void {
@@ -5,17 +5,28 @@
  * Tracks adapter versions, monitors success rates, and automatically rolls back
  * to stable versions when adapters fail.
  *
+ * Each platform adapter declares a version. Extraction paths report every
+ * parse through updateAdapterStats, which tracks a rolling success rate per
+ * version. A 'testing' version runs as a canary for canary_percent of
+ * requests (see selectAdapterVersion); when its parses start failing it is
+ * pulled, and when the active version fails the platform is rolled back to
+ * the previous stable version.
+ *
+ * Statuses: active (serving), testing (canary), deprecated (previously
+ * active, rollback target), failed (rolled back or pulled canary).
+ *
+ * Rollback only targets versions whose code is still registered (see
+ * syncAdapterVersions and platforms/previous), so switching versions
+ * always switches parsers.
+ *
  * Based on FUTURE-IMPROVEMENTS.md Section 3.6C
  */
 
 import { getFirestore } from '@pad/database';
-import {
-  getPlatformHealth,
-  type DeliveryPlatformName,
-  type PlatformHealthMetrics,
-} from './PlatformHealthMonitor.js';
+import type { DeliveryPlatform } from '@pad/core';
+import type { DeliveryPlatformName } from './PlatformHealthMonitor.js';
 
-export type AdapterStatus = 'active' | 'deprecated' | 'testing';
+export type AdapterStatus = 'active' | 'deprecated' | 'testing' | 'failed';
 
 export interface AdapterVersion {
   platform: DeliveryPlatformName;
@@ -25,16 +36,42 @@ export interface AdapterVersion {
   success_rate?: number; // 0-100
   changelog?: string;
   requests_tested?: number; // Number of requests processed with this version
+  canary_percent?: number; // Share of requests served while testing (0-100)
   last_used?: Date;
   deprecated_at?: Date;
   deprecation_reason?: string;
 }
 
+/**
+ * Parse health of one adapter version over the last hour
+ */
+export interface AdapterVersionHealth {
+  platform: DeliveryPlatformName;
+  version: string;
+  requests_1h: number;
+  success_rate_1h: number; // 0-1
+  consecutive_failures: number;
+  last_error?: string;
+  requires_rollback: boolean;
+}
+
+/**
+ * Result of a single parse with an adapter version
+ */
+export interface AdapterOutcome {
+  success: boolean;
+  error?: string;
+}
+
 export interface AdapterRegistry {
   getActiveVersion(platform: DeliveryPlatformName): Promise<AdapterVersion | null>;
   getAllVersions(platform: DeliveryPlatformName): Promise<AdapterVersion[]>;
   rollback(platform: DeliveryPlatformName): Promise<void>;
-  setTestingVersion(platform: DeliveryPlatformName, version: string): Promise<void>;
+  setTestingVersion(
+    platform: DeliveryPlatformName,
+    version: string,
+    canaryPercent?: number
+  ): Promise<void>;
   promoteToActive(platform: DeliveryPlatformName, version: string): Promise<void>;
 }
 
@@ -50,15 +87,45 @@ export interface RollbackEvent {
   alert_sent: boolean;
 }
 
+export const ADAPTER_PLATFORMS: DeliveryPlatformName[] = [
+  'uber_eats',
+  'wolt',
+  'lieferando',
+  'just_eat',
+  'deliveroo',
+  'smood',
+  'glovo',
+];
+
 // In-memory cache for fast lookups
 const versionCache = new Map<DeliveryPlatformName, AdapterVersion>();
+const testingCache = new Map<DeliveryPlatformName, AdapterVersion | null>();
 const rollbackHistory: RollbackEvent[] = [];
 const MAX_CACHED_ROLLBACKS = 100;
 
+// Parse outcomes per platform version (key: `${platform}@${version}`)
+const versionOutcomes = new Map<string, Array<{ success: boolean; timestamp: number; error?: string }>>();
+const unflushedRequests = new Map<string, number>();
+const rollbacksInProgress = new Set<DeliveryPlatformName>();
+// Versions implemented in code per platform, as passed to syncAdapterVersions
+const implementedVersions = new Map<DeliveryPlatformName, Set<string>>();
+const HEALTH_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const STATS_FLUSH_INTERVAL = 10; // Persist success rate every n reports
+
 // Auto-rollback thresholds
 const AUTO_ROLLBACK_THRESHOLD = 30; // Success rate below 30%
 const MIN_REQUESTS_FOR_ROLLBACK = 10; // Minimum requests before considering rollback
 
+// Share of requests a testing version handles unless configured
+export const DEFAULT_CANARY_PERCENT = 10;
+
+/**
+ * Health monitor name for a delivery platform ('uber-eats' -> 'uber_eats')
+ */
+export function toPlatformName(platform: DeliveryPlatform): DeliveryPlatformName {
+  return platform.replace(/-/g, '_') as DeliveryPlatformName;
+}
+
 /**
  * Register a new adapter version
  */
@@ -90,9 +157,11 @@ export async function registerAdapterVersion(
     `Registered adapter version ${version.version} for ${version.platform} (status: ${version.status})`
   );
 
-  // Update cache if this is the active version
+  // Update cache if this is the active or testing version
   if (version.status === 'active') {
     versionCache.set(version.platform, fullVersion);
+  } else if (version.status === 'testing') {
+    testingCache.set(version.platform, fullVersion);
   }
 
   return fullVersion;
@@ -100,10 +169,14 @@ export async function registerAdapterVersion(
 
 /**
  * Deprecate the current active version for a platform
+ *
+ * Versions that were rolled back are marked 'failed' instead, so they are
+ * never picked as a rollback target again.
  */
 async function deprecateCurrentActive(
   platform: DeliveryPlatformName,
-  reason: string
+  reason: string,
+  status: 'deprecated' | 'failed' = 'deprecated'
 ): Promise<void> {
   const db = getFirestore();
 
@@ -121,7 +194,7 @@ async function deprecateCurrentActive(
   const batch = db.batch();
   for (const doc of snapshot.docs) {
     batch.update(doc.ref, {
-      status: 'deprecated',
+      status,
       deprecated_at: new Date(),
       deprecation_reason: reason,
     });
@@ -131,6 +204,25 @@ async function deprecateCurrentActive(
   console.log(`Deprecated active version for ${platform}: ${reason}`);
 }
 
+/**
+ * Convert an adapter_versions document to an AdapterVersion
+ */
+function toAdapterVersion(data: FirebaseFirestore.DocumentData): AdapterVersion {
+  return {
+    platform: data.platform,
+    version: data.version,
+    deployed_at: data.deployed_at?.toDate() || new Date(),
+    status: data.status,
+    success_rate: data.success_rate,
+    changelog: data.changelog,
+    requests_tested: data.requests_tested,
+    canary_percent: data.canary_percent,
+    last_used: data.last_used?.toDate(),
+    deprecated_at: data.deprecated_at?.toDate(),
+    deprecation_reason: data.deprecation_reason,
+  };
+}
+
 /**
  * Get the currently active adapter version for a platform
  */
@@ -157,21 +249,7 @@ export async function getActiveAdapter(
     return null;
   }
 
-  const doc = snapshot.docs[0];
-  const data = doc.data();
-
-  const version: AdapterVersion = {
-    platform: data.platform,
-    version: data.version,
-    deployed_at: data.deployed_at?.toDate() || new Date(),
-    status: data.status,
-    success_rate: data.success_rate,
-    changelog: data.changelog,
-    requests_tested: data.requests_tested,
-    last_used: data.last_used?.toDate(),
-    deprecated_at: data.deprecated_at?.toDate(),
-    deprecation_reason: data.deprecation_reason,
-  };
+  const version = toAdapterVersion(snapshot.docs[0].data());
 
   // Update cache
   versionCache.set(platform, version);
@@ -179,6 +257,32 @@ export async function getActiveAdapter(
   return version;
 }
 
+/**
+ * Get the version currently being canary tested for a platform
+ */
+export async function getTestingAdapter(
+  platform: DeliveryPlatformName
+): Promise<AdapterVersion | null> {
+  // null is cached too: most platforms have no canary
+  if (testingCache.has(platform)) {
+    return testingCache.get(platform) ?? null;
+  }
+
+  const db = getFirestore();
+  const snapshot = await db
+    .collection('adapter_versions')
+    .where('platform', '==', platform)
+    .where('status', '==', 'testing')
+    .orderBy('deployed_at', 'desc')
+    .limit(1)
+    .get();
+
+  const version = snapshot.empty ? null : toAdapterVersion(snapshot.docs[0].data());
+  testingCache.set(platform, version);
+
+  return version;
+}
+
 /**
  * Get all versions for a platform, sorted by deployment date
  */
@@ -193,25 +297,12 @@ export async function getAllVersions(
     .orderBy('deployed_at', 'desc')
     .get();
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      platform: data.platform,
-      version: data.version,
-      deployed_at: data.deployed_at?.toDate() || new Date(),
-      status: data.status,
-      success_rate: data.success_rate,
-      changelog: data.changelog,
-      requests_tested: data.requests_tested,
-      last_used: data.last_used?.toDate(),
-      deprecated_at: data.deprecated_at?.toDate(),
-      deprecation_reason: data.deprecation_reason,
-    } as AdapterVersion;
-  });
+  return snapshot.docs.map((doc) => toAdapterVersion(doc.data()));
 }
 
 /**
- * Get the most recent deprecated version (for rollback)
+ * Get the most recent deprecated version that is still implemented in code
+ * (for rollback)
  */
 async function getPreviousStableVersion(
   platform: DeliveryPlatformName
@@ -223,35 +314,23 @@ async function getPreviousStableVersion(
     .where('platform', '==', platform)
     .where('status', '==', 'deprecated')
     .orderBy('deployed_at', 'desc')
-    .limit(1)
     .get();
 
-  if (snapshot.empty) {
-    return null;
-  }
-
-  const doc = snapshot.docs[0];
-  const data = doc.data();
+  const implemented = implementedVersions.get(platform);
+  const doc = snapshot.docs.find((d) => !implemented || implemented.has(d.data().version));
 
-  return {
-    platform: data.platform,
-    version: data.version,
-    deployed_at: data.deployed_at?.toDate() || new Date(),
-    status: data.status,
-    success_rate: data.success_rate,
-    changelog: data.changelog,
-    requests_tested: data.requests_tested,
-    last_used: data.last_used?.toDate(),
-    deprecated_at: data.deprecated_at?.toDate(),
-    deprecation_reason: data.deprecation_reason,
-  };
+  return doc ? toAdapterVersion(doc.data()) : null;
 }
 
 /**
  * Roll back to the previous stable version
  */
-export async function rollbackAdapter(platform: DeliveryPlatformName): Promise<void> {
+export async function rollbackAdapter(
+  platform: DeliveryPlatformName,
+  options: { reason?: string; automatic?: boolean } = {}
+): Promise<void> {
   const db = getFirestore();
+  const automatic = options.automatic ?? true;
 
   // Get current active version
   const currentVersion = await getActiveAdapter(platform);
@@ -266,7 +345,8 @@ export async function rollbackAdapter(platform: DeliveryPlatformName): Promise<v
   }
 
   // Get current health metrics
-  const health = getPlatformHealth(platform);
+  const health = getAdapterHealth(platform, currentVersion.version);
+  const successRatePercent = health.success_rate_1h * 100;
 
   // Create rollback event
   const rollbackEvent: RollbackEvent = {
@@ -274,10 +354,12 @@ export async function rollbackAdapter(platform: DeliveryPlatformName): Promise<v
     platform,
     from_version: currentVersion.version,
     to_version: previousVersion.version,
-    reason: `Automatic rollback due to low success rate (${health.success_rate_1h * 100}%)`,
-    success_rate_before: health.success_rate_1h * 100,
+    reason:
+      options.reason ||
+      `${automatic ? 'Automatic' : 'Manual'} rollback due to low success rate (${successRatePercent.toFixed(1)}%)`,
+    success_rate_before: successRatePercent,
     timestamp: new Date(),
-    automatic: true,
+    automatic,
     alert_sent: false,
   };
 
@@ -294,8 +376,8 @@ export async function rollbackAdapter(platform: DeliveryPlatformName): Promise<v
     rollbackHistory.shift();
   }
 
-  // Deprecate current version
-  await deprecateCurrentActive(platform, `Rolled back to v${previousVersion.version}`);
+  // Retire current version
+  await deprecateCurrentActive(platform, `Rolled back to v${previousVersion.version}`, 'failed');
 
   // Activate previous version
   const versionSnapshot = await db
@@ -329,10 +411,14 @@ export async function rollbackAdapter(platform: DeliveryPlatformName): Promise<v
 
 /**
  * Set a version to testing status
+ *
+ * The version then handles canaryPercent of the platform's requests. Only
+ * one version per platform can be tested at a time.
  */
 export async function setTestingVersion(
   platform: DeliveryPlatformName,
-  version: string
+  version: string,
+  canaryPercent: number = DEFAULT_CANARY_PERCENT
 ): Promise<void> {
   const db = getFirestore();
 
@@ -347,12 +433,88 @@ export async function setTestingVersion(
     throw new Error(`Version ${version} not found for ${platform}`);
   }
 
+  const testing = await getTestingAdapter(platform);
+  if (testing && testing.version !== version) {
+    throw new Error(
+      `${platform} version ${testing.version} is already being tested; promote or abort it first`
+    );
+  }
+
+  const percent = Math.min(100, Math.max(0, canaryPercent));
   await snapshot.docs[0].ref.update({
     status: 'testing',
+    canary_percent: percent,
     last_used: new Date(),
   });
 
-  console.log(`Set ${platform} version ${version} to testing`);
+  testingCache.set(platform, {
+    ...toAdapterVersion(snapshot.docs[0].data()),
+    status: 'testing',
+    canary_percent: percent,
+  });
+
+  console.log(`Set ${platform} version ${version} to testing (${percent}% canary)`);
+}
+
+/**
+ * Pull the testing version of a platform (e.g. after its parses failed)
+ */
+export async function abortCanary(
+  platform: DeliveryPlatformName,
+  reason: string,
+  automatic = true
+): Promise<void> {
+  const db = getFirestore();
+
+  const testing = await getTestingAdapter(platform);
+  if (!testing) {
+    return;
+  }
+
+  const snapshot = await db
+    .collection('adapter_versions')
+    .where('platform', '==', platform)
+    .where('version', '==', testing.version)
+    .where('status', '==', 'testing')
+    .get();
+
+  const batch = db.batch();
+  for (const doc of snapshot.docs) {
+    batch.update(doc.ref, {
+      status: 'failed',
+      deprecated_at: new Date(),
+      deprecation_reason: reason,
+    });
+  }
+  await batch.commit();
+
+  testingCache.set(platform, null);
+
+  const active = await getActiveAdapter(platform);
+  const health = getAdapterHealth(platform, testing.version);
+  const rollbackEvent: RollbackEvent = {
+    id: '',
+    platform,
+    from_version: testing.version,
+    to_version: active?.version ?? 'none',
+    reason,
+    success_rate_before: health.success_rate_1h * 100,
+    timestamp: new Date(),
+    automatic,
+    alert_sent: false,
+  };
+
+  const eventRef = await db.collection('adapter_rollbacks').add({ ...rollbackEvent });
+  rollbackEvent.id = eventRef.id;
+
+  rollbackHistory.push(rollbackEvent);
+  if (rollbackHistory.length > MAX_CACHED_ROLLBACKS) {
+    rollbackHistory.shift();
+  }
+
+  console.log(`✓ Pulled ${platform} canary v${testing.version}: ${reason}`);
+
+  await sendRollbackAlert(rollbackEvent);
 }
 
 /**
@@ -397,80 +559,186 @@ export async function promoteToActive(
     requests_tested: data.requests_tested,
     last_used: new Date(),
   });
+  if (testingCache.get(platform)?.version === version) {
+    testingCache.set(platform, null);
+  }
 
   console.log(`✓ Promoted ${platform} version ${version} to active`);
 }
 
 /**
- * Get health stats for an adapter based on platform health metrics
+ * Choose the adapter version to use for a request
+ *
+ * The testing version (if any) gets canary_percent of requests, the active
+ * version the rest. Only versions in availableVersions (those implemented
+ * in code) are chosen; returns null if neither is available so the caller
+ * falls back to its default adapter.
+ */
+export async function selectAdapterVersion(
+  platform: DeliveryPlatformName,
+  availableVersions: string[],
+  random: () => number = Math.random
+): Promise<{ version: string; canary: boolean } | null> {
+  const [active, testing] = await Promise.all([
+    getActiveAdapter(platform),
+    getTestingAdapter(platform),
+  ]);
+
+  if (testing && availableVersions.includes(testing.version)) {
+    const share = (testing.canary_percent ?? DEFAULT_CANARY_PERCENT) / 100;
+    if (random() < share) {
+      return { version: testing.version, canary: true };
+    }
+  }
+
+  if (active && availableVersions.includes(active.version)) {
+    return { version: active.version, canary: false };
+  }
+
+  return null;
+}
+
+/**
+ * Get parse health for an adapter version (default: the active version)
  */
 export function getAdapterHealth(
-  platform: DeliveryPlatformName
-): PlatformHealthMetrics & { requires_rollback: boolean } {
-  const health = getPlatformHealth(platform);
+  platform: DeliveryPlatformName,
+  version?: string
+): AdapterVersionHealth {
+  const resolvedVersion = version ?? versionCache.get(platform)?.version ?? 'unknown';
+  const since = Date.now() - HEALTH_WINDOW_MS;
+  const outcomes = (versionOutcomes.get(`${platform}@${resolvedVersion}`) || []).filter(
+    (o) => o.timestamp > since
+  );
 
-  const successRatePercent = health.success_rate_1h * 100;
-  const requiresRollback =
-    health.requests_1h >= MIN_REQUESTS_FOR_ROLLBACK &&
-    successRatePercent < AUTO_ROLLBACK_THRESHOLD &&
-    health.consecutive_failures >= 3;
+  let consecutiveFailures = 0;
+  for (let i = outcomes.length - 1; i >= 0 && !outcomes[i].success; i--) {
+    consecutiveFailures++;
+  }
+
+  const successRate =
+    outcomes.length > 0 ? outcomes.filter((o) => o.success).length / outcomes.length : 1;
+  const lastFailure = [...outcomes].reverse().find((o) => !o.success);
 
   return {
-    ...health,
-    requires_rollback: requiresRollback,
+    platform,
+    version: resolvedVersion,
+    requests_1h: outcomes.length,
+    success_rate_1h: successRate,
+    consecutive_failures: consecutiveFailures,
+    last_error: lastFailure?.error,
+    requires_rollback:
+      outcomes.length >= MIN_REQUESTS_FOR_ROLLBACK &&
+      successRate * 100 < AUTO_ROLLBACK_THRESHOLD &&
+      consecutiveFailures >= 3,
   };
 }
 
 /**
- * Check if an adapter should be rolled back automatically
+ * Check if an adapter version should be rolled back automatically
  * Returns true if success rate is below threshold with sufficient data
  */
-export function shouldRollback(platform: DeliveryPlatformName): boolean {
-  const health = getAdapterHealth(platform);
-  return health.requires_rollback;
+export function shouldRollback(platform: DeliveryPlatformName, version?: string): boolean {
+  return getAdapterHealth(platform, version).requires_rollback;
 }
 
 /**
- * Update adapter version statistics based on recent activity
+ * Record the outcome of a parse with an adapter version
+ *
+ * Persists the version's success rate every few reports, and rolls back
+ * (active version) or pulls (testing version) a version whose parses are
+ * failing.
  */
 export async function updateAdapterStats(
   platform: DeliveryPlatformName,
-  requestsProcessed: number
+  version: string,
+  outcome: AdapterOutcome
 ): Promise<void> {
-  const db = getFirestore();
-  const activeVersion = await getActiveAdapter(platform);
+  const key = `${platform}@${version}`;
+  const since = Date.now() - HEALTH_WINDOW_MS;
+  const outcomes = (versionOutcomes.get(key) || []).filter((o) => o.timestamp > since);
+  outcomes.push({ success: outcome.success, timestamp: Date.now(), error: outcome.error });
+  versionOutcomes.set(key, outcomes);
+  const unflushed = (unflushedRequests.get(key) || 0) + 1;
+  unflushedRequests.set(key, unflushed);
+
+  const [active, testing] = await Promise.all([
+    getActiveAdapter(platform),
+    getTestingAdapter(platform),
+  ]);
+  const tracked = [active, testing].find((v) => v?.version === version);
+  if (!tracked) {
+    return;
+  }
 
-  if (!activeVersion) {
+  if (unflushed >= STATS_FLUSH_INTERVAL || !outcome.success) {
+    await flushAdapterStats(platform, tracked);
+  }
+
+  if (!shouldRollback(platform, version) || rollbacksInProgress.has(platform)) {
     return;
   }
 
-  const health = getPlatformHealth(platform);
+  const health = getAdapterHealth(platform, version);
+  const reason =
+    `Parse success rate ${(health.success_rate_1h * 100).toFixed(1)}% over ${health.requests_1h} requests` +
+    (health.last_error ? ` (last error: ${health.last_error})` : '');
+
+  rollbacksInProgress.add(platform);
+  try {
+    if (tracked.status === 'testing') {
+      console.warn(`⚠️  ${platform} canary v${version} failing - pulling it...`);
+      await abortCanary(platform, reason);
+    } else {
+      console.warn(`⚠️  ${platform} adapter v${version} failing - initiating rollback...`);
+      await rollbackAdapter(platform, { reason });
+    }
+  } catch (error) {
+    console.error(`Failed to roll back ${platform} adapter v${version}:`, error);
+  } finally {
+    rollbacksInProgress.delete(platform);
+  }
+}
+
+/**
+ * Persist a version's success rate and request count
+ */
+async function flushAdapterStats(
+  platform: DeliveryPlatformName,
+  version: AdapterVersion
+): Promise<void> {
+  const db = getFirestore();
+  const key = `${platform}@${version.version}`;
+  const health = getAdapterHealth(platform, version.version);
   const successRatePercent = health.success_rate_1h * 100;
+  const requestsTested = (version.requests_tested || 0) + (unflushedRequests.get(key) || 0);
+  unflushedRequests.set(key, 0);
 
-  // Update version document
   const snapshot = await db
     .collection('adapter_versions')
     .where('platform', '==', platform)
-    .where('version', '==', activeVersion.version)
-    .where('status', '==', 'active')
+    .where('version', '==', version.version)
+    .where('status', '==', version.status)
     .limit(1)
     .get();
 
-  if (!snapshot.empty) {
-    await snapshot.docs[0].ref.update({
-      success_rate: successRatePercent,
-      requests_tested: (activeVersion.requests_tested || 0) + requestsProcessed,
-      last_used: new Date(),
-    });
-
-    // Update cache
-    versionCache.set(platform, {
-      ...activeVersion,
-      success_rate: successRatePercent,
-      requests_tested: (activeVersion.requests_tested || 0) + requestsProcessed,
-      last_used: new Date(),
-    });
+  if (snapshot.empty) {
+    return;
   }
+
+  await snapshot.docs[0].ref.update({
+    success_rate: successRatePercent,
+    requests_tested: requestsTested,
+    last_used: new Date(),
+  });
+
+  const cache = version.status === 'testing' ? testingCache : versionCache;
+  cache.set(platform, {
+    ...version,
+    success_rate: successRatePercent,
+    requests_tested: requestsTested,
+    last_used: new Date(),
+  });
 }
 
 /**
@@ -478,21 +746,18 @@ export async function updateAdapterStats(
  * Should be called periodically (e.g., every 5 minutes)
  */
 export async function checkAndRollbackIfNeeded(): Promise<void> {
-  const platforms: DeliveryPlatformName[] = [
-    'uber_eats',
-    'wolt',
-    'lieferando',
-    'just_eat',
-    'deliveroo',
-    'smood',
-  ];
-
-  for (const platform of platforms) {
+  for (const platform of ADAPTER_PLATFORMS) {
     try {
-      if (shouldRollback(platform)) {
-        const health = getAdapterHealth(platform);
+      const testing = await getTestingAdapter(platform);
+      if (testing && shouldRollback(platform, testing.version)) {
+        await abortCanary(platform, `Canary v${testing.version} failing`);
+      }
+
+      const active = await getActiveAdapter(platform);
+      if (active && shouldRollback(platform, active.version)) {
+        const health = getAdapterHealth(platform, active.version);
         console.warn(
-          `⚠️  ${platform} adapter failing (${health.success_rate_1h * 100}% success rate, ${health.requests_1h} requests) - initiating rollback...`
+          `⚠️  ${platform} adapter failing (${(health.success_rate_1h * 100).toFixed(1)}% success rate, ${health.requests_1h} requests) - initiating rollback...`
         );
         await rollbackAdapter(platform);
       }
@@ -601,27 +866,20 @@ export async function getAdapterSummary(): Promise<
   Array<{
     platform: DeliveryPlatformName;
     active_version: string | null;
+    testing_version: string | null;
     success_rate: number;
     health_status: 'healthy' | 'degraded' | 'failing';
     total_versions: number;
     last_rollback?: Date;
   }>
 > {
-  const platforms: DeliveryPlatformName[] = [
-    'uber_eats',
-    'wolt',
-    'lieferando',
-    'just_eat',
-    'deliveroo',
-    'smood',
-  ];
-
   const summary = [];
 
-  for (const platform of platforms) {
+  for (const platform of ADAPTER_PLATFORMS) {
     const activeVersion = await getActiveAdapter(platform);
+    const testingVersion = await getTestingAdapter(platform);
     const allVersions = await getAllVersions(platform);
-    const health = getAdapterHealth(platform);
+    const health = getAdapterHealth(platform, activeVersion?.version);
     const rollbacks = await getPlatformRollbackHistory(platform, 1);
 
     const successRatePercent = health.success_rate_1h * 100;
@@ -638,6 +896,7 @@ export async function getAdapterSummary(): Promise<
     summary.push({
       platform,
       active_version: activeVersion?.version || null,
+      testing_version: testingVersion?.version || null,
       success_rate: successRatePercent,
       health_status: healthStatus,
       total_versions: allVersions.length,
@@ -656,21 +915,13 @@ export async function loadVersionCache(): Promise<void> {
     const db = getFirestore();
     const snapshot = await db
       .collection('adapter_versions')
-      .where('status', '==', 'active')
+      .where('status', 'in', ['active', 'testing'])
       .get();
 
     for (const doc of snapshot.docs) {
-      const data = doc.data();
-      versionCache.set(data.platform, {
-        platform: data.platform,
-        version: data.version,
-        deployed_at: data.deployed_at?.toDate() || new Date(),
-        status: data.status,
-        success_rate: data.success_rate,
-        changelog: data.changelog,
-        requests_tested: data.requests_tested,
-        last_used: data.last_used?.toDate(),
-      });
+      const version = toAdapterVersion(doc.data());
+      const cache = version.status === 'testing' ? testingCache : versionCache;
+      cache.set(version.platform, version);
     }
 
     console.log(`Loaded adapter versions for ${versionCache.size} platforms`);
@@ -679,6 +930,64 @@ export async function loadVersionCache(): Promise<void> {
   }
 }
 
+/**
+ * Register adapter versions declared in code that Firestore doesn't know yet
+ *
+ * A new version becomes active on platforms without an active version, or
+ * whose active version has no code left (a bump that kept no previous
+ * version), and is canary tested otherwise (unless another version is
+ * already testing). List each platform's current version before its
+ * previous ones. The declared versions are also the only rollback targets
+ * from now on.
+ */
+export async function syncAdapterVersions(
+  declared: Array<{ platform: DeliveryPlatformName; version: string }>
+): Promise<void> {
+  for (const { platform, version } of declared) {
+    const versions = implementedVersions.get(platform) ?? new Set<string>();
+    implementedVersions.set(platform, versions.add(version));
+  }
+
+  for (const { platform, version } of declared) {
+    try {
+      const active = await getActiveAdapter(platform);
+      const activeInCode = !!active && implementedVersions.get(platform)!.has(active.version);
+
+      const existing = (await getAllVersions(platform)).find((v) => v.version === version);
+      if (existing) {
+        // Otherwise every request would fall back to the default adapter
+        // while the registry reports a version that no longer runs
+        if (active && !activeInCode && existing.status !== 'failed') {
+          await promoteToActive(platform, version);
+        }
+        continue;
+      }
+
+      if (!active || !activeInCode) {
+        await registerAdapterVersion({ platform, version, status: 'active' });
+        continue;
+      }
+
+      const testing = await getTestingAdapter(platform);
+      if (testing) {
+        console.warn(
+          `${platform} adapter v${version} not registered: v${testing.version} is still being tested`
+        );
+        continue;
+      }
+
+      await registerAdapterVersion({
+        platform,
+        version,
+        status: 'testing',
+        canary_percent: DEFAULT_CANARY_PERCENT,
+      });
+    } catch (error) {
+      console.error(`Failed to sync ${platform} adapter v${version}:`, error);
+    }
+  }
+}
+
 /**
  * Export the registry interface implementation
  */
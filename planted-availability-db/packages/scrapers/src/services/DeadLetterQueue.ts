@@ -11,223 +11,75 @@
  * - Manual retry and resolution
  * - Escalation to manual review
  *
- * Retry Schedule (Exponential Backoff):
- * - Attempt 1: immediate (0 delay)
- * - Attempt 2: 5 min delay
- * - Attempt 3: 30 min delay
- * - Attempt 4: 2 hour delay
- * - Attempt 5: 6 hours delay
+ * Retry Schedule (Exponential Backoff, after the original attempt failed):
+ * - Retry 1: 5 min delay
+ * - Retry 2: 30 min delay
+ * - Retry 3: 2 hour delay
+ * - Retry 4: 6 hours delay
  * - After 5 attempts: mark as requires_manual
  *
+ * Failures of the same operation (type, venue, platform) are merged into
+ * one open entry. Retryable operations are drained by DeadLetterQueueDrain.
+ *
  * Based on FUTURE-IMPROVEMENTS.md Section 6.1C
  */
 
-import { getFirestore, Timestamp } from '@pad/database';
-import type { Firestore } from 'firebase-admin/firestore';
+import { failedOperations, FAILED_OPERATION_MAX_ATTEMPTS } from '@pad/database';
+import type { CreateFailedOperationInput, FailedOperationQueryOptions } from '@pad/database';
+import type { FailedOperation, DLQStats, OperationType } from '@pad/core';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type OperationType =
-  | 'discovery'
-  | 'dish_extraction'
-  | 'venue_verification'
-  | 'menu_scrape';
-
-export type OperationStatus = 'pending_retry' | 'requires_manual' | 'resolved';
-
-export interface FailedOperation {
-  id: string;
-  type: OperationType;
-  venue_id?: string;
-  platform?: string;
-  error: string;
-  stack?: string;
-  attempts: number;
-  max_attempts: number;
-  created_at: Date;
-  last_attempt_at: Date;
-  next_retry_at?: Date;
-  status: OperationStatus;
-  context?: Record<string, unknown>; // Original operation context for retry
-}
-
-export interface FailedOperationFilters {
-  status?: OperationStatus;
-  type?: OperationType;
-  platform?: string;
-  venue_id?: string;
-  before_date?: Date;
-  after_date?: Date;
-  limit?: number;
-}
-
-export interface DLQStats {
-  total_failed: number;
-  pending_retry: number;
-  requires_manual: number;
-  resolved: number;
-  by_type: Record<OperationType, number>;
-  by_platform: Record<string, number>;
-}
-
-// ============================================================================
-// Constants
-// ============================================================================
-
-const COLLECTION_NAME = 'failed_operations';
-const MAX_ATTEMPTS = 5;
+export type { OperationType, OperationStatus, FailedOperation, DLQStats } from '@pad/core';
 
-// Exponential backoff delays in milliseconds
-const RETRY_DELAYS_MS = [
-  0, // Attempt 1: immediate
-  5 * 60 * 1000, // Attempt 2: 5 minutes
-  30 * 60 * 1000, // Attempt 3: 30 minutes
-  2 * 60 * 60 * 1000, // Attempt 4: 2 hours
-  6 * 60 * 60 * 1000, // Attempt 5: 6 hours
-];
+export type FailedOperationFilters = FailedOperationQueryOptions;
 
 // ============================================================================
 // Dead Letter Queue Service
 // ============================================================================
 
+/**
+ * Storage and backoff live in the failed_operations collection
+ * (@pad/database), so the API can queue and manage operations too.
+ */
 export class DeadLetterQueue {
-  private db: Firestore;
-
-  constructor() {
-    this.db = getFirestore();
-  }
-
   /**
    * Add a failed operation to the DLQ
    */
-  async queueFailedOperation(
-    operation: Omit<FailedOperation, 'id' | 'created_at' | 'last_attempt_at' | 'next_retry_at'>
-  ): Promise<string> {
-    const now = new Date();
-    const attempts = operation.attempts || 0;
-
-    // Calculate next retry time based on attempts
-    const nextRetryAt = this.calculateNextRetryTime(attempts);
-
-    // Determine status
-    let status: OperationStatus = 'pending_retry';
-    if (attempts >= operation.max_attempts) {
-      status = 'requires_manual';
-    }
-
-    const docData = {
-      type: operation.type,
-      venue_id: operation.venue_id || null,
-      platform: operation.platform || null,
-      error: operation.error,
-      stack: operation.stack || null,
-      attempts,
-      max_attempts: operation.max_attempts,
-      created_at: Timestamp.fromDate(now),
-      last_attempt_at: Timestamp.fromDate(now),
-      next_retry_at: nextRetryAt ? Timestamp.fromDate(nextRetryAt) : null,
-      status,
-      context: operation.context || null,
-    };
-
-    const docRef = await this.db.collection(COLLECTION_NAME).add(docData);
+  async queueFailedOperation(operation: CreateFailedOperationInput): Promise<string> {
+    const queued = await failedOperations.queue(operation);
 
     console.log(
-      `[DLQ] Queued failed operation: ${operation.type} (attempts: ${attempts}/${operation.max_attempts}, status: ${status})`
+      `[DLQ] Queued failed operation: ${queued.type} (attempts: ${queued.attempts}/${queued.max_attempts}, status: ${queued.status})`
     );
 
-    return docRef.id;
+    return queued.id;
   }
 
   /**
    * Get failed operations based on filters
    */
   async getFailedOperations(filters: FailedOperationFilters = {}): Promise<FailedOperation[]> {
-    let query = this.db.collection(COLLECTION_NAME).orderBy('created_at', 'desc');
-
-    // Apply filters
-    if (filters.status) {
-      query = query.where('status', '==', filters.status) as any;
-    }
-
-    if (filters.type) {
-      query = query.where('type', '==', filters.type) as any;
-    }
-
-    if (filters.platform) {
-      query = query.where('platform', '==', filters.platform) as any;
-    }
-
-    if (filters.venue_id) {
-      query = query.where('venue_id', '==', filters.venue_id) as any;
-    }
-
-    if (filters.after_date) {
-      query = query.where('created_at', '>=', Timestamp.fromDate(filters.after_date)) as any;
-    }
-
-    if (filters.before_date) {
-      query = query.where('created_at', '<=', Timestamp.fromDate(filters.before_date)) as any;
-    }
-
-    if (filters.limit) {
-      query = query.limit(filters.limit) as any;
-    }
-
-    const snapshot = await query.get();
-
-    return snapshot.docs.map((doc) => this.docToFailedOperation(doc));
+    return failedOperations.query(filters);
   }
 
   /**
    * Get operations that are due for retry
    */
-  async getRetryableOperations(): Promise<FailedOperation[]> {
-    const now = new Date();
-
-    const snapshot = await this.db
-      .collection(COLLECTION_NAME)
-      .where('status', '==', 'pending_retry')
-      .where('next_retry_at', '<=', Timestamp.fromDate(now))
-      .where('attempts', '<', MAX_ATTEMPTS)
-      .orderBy('next_retry_at', 'asc')
-      .limit(50) // Process in batches
-      .get();
-
-    return snapshot.docs.map((doc) => this.docToFailedOperation(doc));
+  async getRetryableOperations(types?: FailedOperation['type'][]): Promise<FailedOperation[]> {
+    return failedOperations.getRetryable({ types, limit: 50 });
   }
 
   /**
-   * Manually trigger a retry for a specific operation
+   * Record a retry attempt and schedule the next one
    */
-  async retryOperation(id: string): Promise<void> {
-    const docRef = this.db.collection(COLLECTION_NAME).doc(id);
-    const doc = await docRef.get();
-
-    if (!doc.exists) {
-      throw new Error(`Failed operation not found: ${id}`);
-    }
-
-    const data = doc.data()!;
-    const newAttempts = data.attempts + 1;
-    const nextRetryAt = this.calculateNextRetryTime(newAttempts);
-
-    let status: OperationStatus = 'pending_retry';
-    if (newAttempts >= data.max_attempts) {
-      status = 'requires_manual';
-    }
-
-    await docRef.update({
-      attempts: newAttempts,
-      last_attempt_at: Timestamp.fromDate(new Date()),
-      next_retry_at: nextRetryAt ? Timestamp.fromDate(nextRetryAt) : null,
-      status,
-    });
+  async retryOperation(id: string, error?: string): Promise<void> {
+    const operation = await failedOperations.recordAttempt(id, error);
 
     console.log(
-      `[DLQ] Retry scheduled for operation ${id}: attempt ${newAttempts}/${data.max_attempts}`
+      `[DLQ] Retry scheduled for operation ${id}: attempt ${operation.attempts}/${operation.max_attempts}`
     );
   }
 
@@ -235,43 +87,26 @@ export class DeadLetterQueue {
    * Mark an operation as resolved
    */
   async markResolved(id: string): Promise<void> {
-    const docRef = this.db.collection(COLLECTION_NAME).doc(id);
-    const doc = await docRef.get();
+    await failedOperations.markResolved(id);
+    console.log(`[DLQ] Operation ${id} marked as resolved`);
+  }
 
-    if (!doc.exists) {
-      throw new Error(`Failed operation not found: ${id}`);
+  /**
+   * Resolve open operations of a type for a venue that has since succeeded
+   */
+  async resolveOpenOperations(type: OperationType, venueId: string, platform?: string): Promise<number> {
+    const resolved = await failedOperations.resolveOpenForVenue(type, venueId, platform);
+    if (resolved > 0) {
+      console.log(`[DLQ] Resolved ${resolved} open ${type} operation(s) for venue ${venueId}`);
     }
-
-    await docRef.update({
-      status: 'resolved',
-      next_retry_at: null,
-    });
-
-    console.log(`[DLQ] Operation ${id} marked as resolved`);
+    return resolved;
   }
 
   /**
    * Mark an operation as requiring manual intervention
    */
   async markRequiresManual(id: string, reason?: string): Promise<void> {
-    const docRef = this.db.collection(COLLECTION_NAME).doc(id);
-    const doc = await docRef.get();
-
-    if (!doc.exists) {
-      throw new Error(`Failed operation not found: ${id}`);
-    }
-
-    const updateData: any = {
-      status: 'requires_manual',
-      next_retry_at: null,
-    };
-
-    if (reason) {
-      updateData.manual_review_reason = reason;
-    }
-
-    await docRef.update(updateData);
-
+    await failedOperations.markRequiresManual(id, reason);
     console.log(`[DLQ] Operation ${id} escalated to manual review${reason ? `: ${reason}` : ''}`);
   }
 
@@ -279,47 +114,14 @@ export class DeadLetterQueue {
    * Get DLQ statistics
    */
   async getStats(): Promise<DLQStats> {
-    const snapshot = await this.db.collection(COLLECTION_NAME).get();
-
-    const stats: DLQStats = {
-      total_failed: snapshot.size,
-      pending_retry: 0,
-      requires_manual: 0,
-      resolved: 0,
-      by_type: {} as Record<OperationType, number>,
-      by_platform: {} as Record<string, number>,
-    };
-
-    snapshot.docs.forEach((doc) => {
-      const data = doc.data();
-
-      // Count by status
-      if (data.status === 'pending_retry') {
-        stats.pending_retry++;
-      } else if (data.status === 'requires_manual') {
-        stats.requires_manual++;
-      } else if (data.status === 'resolved') {
-        stats.resolved++;
-      }
-
-      // Count by type
-      const type = data.type as OperationType;
-      stats.by_type[type] = (stats.by_type[type] || 0) + 1;
-
-      // Count by platform
-      if (data.platform) {
-        stats.by_platform[data.platform] = (stats.by_platform[data.platform] || 0) + 1;
-      }
-    });
-
-    return stats;
+    return failedOperations.getStats();
   }
 
   /**
    * Delete a failed operation (use carefully)
    */
   async deleteOperation(id: string): Promise<void> {
-    await this.db.collection(COLLECTION_NAME).doc(id).delete();
+    await failedOperations.delete(id);
     console.log(`[DLQ] Operation ${id} deleted from queue`);
   }
 
@@ -327,65 +129,9 @@ export class DeadLetterQueue {
    * Clean up old resolved operations (e.g., older than 30 days)
    */
   async cleanupResolved(olderThanDays: number = 30): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
-
-    const snapshot = await this.db
-      .collection(COLLECTION_NAME)
-      .where('status', '==', 'resolved')
-      .where('created_at', '<=', Timestamp.fromDate(cutoffDate))
-      .get();
-
-    const batch = this.db.batch();
-    snapshot.docs.forEach((doc) => {
-      batch.delete(doc.ref);
-    });
-
-    await batch.commit();
-
-    console.log(`[DLQ] Cleaned up ${snapshot.size} resolved operations older than ${olderThanDays} days`);
-    return snapshot.size;
-  }
-
-  // ============================================================================
-  // Private Helpers
-  // ============================================================================
-
-  /**
-   * Calculate next retry time based on attempt number
-   */
-  private calculateNextRetryTime(attempts: number): Date | null {
-    if (attempts >= MAX_ATTEMPTS) {
-      return null; // No more retries
-    }
-
-    const delayMs = RETRY_DELAYS_MS[attempts] || RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
-    const nextRetry = new Date();
-    nextRetry.setTime(nextRetry.getTime() + delayMs);
-    return nextRetry;
-  }
-
-  /**
-   * Convert Firestore document to FailedOperation
-   */
-  private docToFailedOperation(doc: FirebaseFirestore.QueryDocumentSnapshot): FailedOperation {
-    const data = doc.data();
-
-    return {
-      id: doc.id,
-      type: data.type,
-      venue_id: data.venue_id || undefined,
-      platform: data.platform || undefined,
-      error: data.error,
-      stack: data.stack || undefined,
-      attempts: data.attempts,
-      max_attempts: data.max_attempts,
-      created_at: data.created_at.toDate(),
-      last_attempt_at: data.last_attempt_at.toDate(),
-      next_retry_at: data.next_retry_at ? data.next_retry_at.toDate() : undefined,
-      status: data.status,
-      context: data.context || undefined,
-    };
+    const deleted = await failedOperations.cleanupResolved(olderThanDays);
+    console.log(`[DLQ] Cleaned up ${deleted} resolved operations older than ${olderThanDays} days`);
+    return deleted;
   }
 }
 
@@ -412,15 +158,11 @@ export function getDeadLetterQueue(): DeadLetterQueue {
 /**
  * Queue a failed operation with default max_attempts
  */
-export async function queueFailedOperation(
-  operation: Omit<FailedOperation, 'id' | 'created_at' | 'last_attempt_at' | 'next_retry_at' | 'max_attempts'> & {
-    max_attempts?: number;
-  }
-): Promise<string> {
+export async function queueFailedOperation(operation: CreateFailedOperationInput): Promise<string> {
   const dlq = getDeadLetterQueue();
   return dlq.queueFailedOperation({
     ...operation,
-    max_attempts: operation.max_attempts || MAX_ATTEMPTS,
+    max_attempts: operation.max_attempts || FAILED_OPERATION_MAX_ATTEMPTS,
   });
 }
 
@@ -437,17 +179,19 @@ export async function getFailedOperations(
 /**
  * Get operations ready for retry
  */
-export async function getRetryableOperations(): Promise<FailedOperation[]> {
+export async function getRetryableOperations(
+  types?: FailedOperation['type'][]
+): Promise<FailedOperation[]> {
   const dlq = getDeadLetterQueue();
-  return dlq.getRetryableOperations();
+  return dlq.getRetryableOperations(types);
 }
 
 /**
  * Retry a specific operation
  */
-export async function retryOperation(id: string): Promise<void> {
+export async function retryOperation(id: string, error?: string): Promise<void> {
   const dlq = getDeadLetterQueue();
-  return dlq.retryOperation(id);
+  return dlq.retryOperation(id, error);
 }
 
 /**
@@ -458,6 +202,18 @@ export async function markResolved(id: string): Promise<void> {
   return dlq.markResolved(id);
 }
 
+/**
+ * Resolve open operations of a type for a venue
+ */
+export async function resolveOpenOperations(
+  type: OperationType,
+  venueId: string,
+  platform?: string
+): Promise<number> {
+  const dlq = getDeadLetterQueue();
+  return dlq.resolveOpenOperations(type, venueId, platform);
+}
+
 /**
  * Mark operation as requiring manual intervention
  */
@@ -0,0 +1,150 @@
+/**
+ * Dead Letter Queue Drain
+ *
+ * Retries scraper operations from the dead letter queue that are due:
+ * - dish_extraction / menu_scrape: re-process the venue's platform page
+ *   with the SmartDishFinderAgent
+ * - discovery: re-fetch the venue page and fill in address/coordinates
+ *
+ * sync_write operations are drained by the API's scheduled
+ * deadLetterQueueDrain function. Types without a retry handler are
+ * escalated to manual review.
+ */
+
+import { discoveredVenues } from '@pad/database';
+import type { DeliveryPlatform, FailedOperation, OperationType } from '@pad/core';
+import { SmartDishFinderAgent } from '../agents/smart-dish-finder/SmartDishFinderAgent.js';
+import { fetchVenuePageData } from '../agents/smart-discovery/platforms/index.js';
+import { getDeadLetterQueue } from './DeadLetterQueue.js';
+
+/** Operation types retried by this drain */
+export const SCRAPER_OPERATION_TYPES: OperationType[] = [
+  'discovery',
+  'dish_extraction',
+  'menu_scrape',
+  'venue_verification',
+];
+
+export interface DrainOptions {
+  /** Only drain these types (default: all scraper types) */
+  types?: OperationType[];
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+export interface DrainResult {
+  processed: number;
+  resolved: number;
+  failed: number;
+  escalated: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Drain due scraper operations from the dead letter queue
+ */
+export async function drainDeadLetterQueue(options: DrainOptions = {}): Promise<DrainResult> {
+  const dlq = getDeadLetterQueue();
+  const operations = await dlq.getRetryableOperations(options.types ?? SCRAPER_OPERATION_TYPES);
+  const result: DrainResult = { processed: 0, resolved: 0, failed: 0, escalated: 0, errors: [] };
+
+  const log = (message: string) => {
+    if (options.verbose) console.log(`[DLQ Drain] ${message}`);
+  };
+
+  log(`${operations.length} operation(s) due for retry`);
+  if (operations.length === 0 || options.dryRun) {
+    for (const operation of operations) {
+      log(`Would retry ${operation.type} ${operation.id} (venue: ${operation.venue_id ?? '-'})`);
+    }
+    return result;
+  }
+
+  // The dish finder drives a browser, so only start it when needed
+  let dishFinder: SmartDishFinderAgent | null = null;
+  const getDishFinder = async () => {
+    if (!dishFinder) {
+      dishFinder = new SmartDishFinderAgent({ verbose: options.verbose });
+      await dishFinder.initialize();
+    }
+    return dishFinder;
+  };
+
+  try {
+    for (const operation of operations) {
+      result.processed++;
+
+      if (!canRetry(operation)) {
+        await dlq.markRequiresManual(operation.id, `No automatic retry for ${operation.type} operations`);
+        result.escalated++;
+        continue;
+      }
+
+      try {
+        if (operation.type === 'discovery') {
+          await retryVenuePage(operation);
+        } else {
+          const agent = await getDishFinder();
+          const failures = await agent.retryVenue(
+            operation.venue_id!,
+            operation.platform as DeliveryPlatform | undefined
+          );
+          if (failures.length > 0) {
+            throw new Error(failures.map((f) => f.error).join('; '));
+          }
+        }
+
+        await dlq.markResolved(operation.id);
+        result.resolved++;
+        log(`Resolved ${operation.type} ${operation.id}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await dlq.retryOperation(operation.id, message);
+        result.failed++;
+        result.errors.push({ id: operation.id, error: message });
+        log(`Retry of ${operation.type} ${operation.id} failed: ${message}`);
+      }
+    }
+  } finally {
+    if (dishFinder) {
+      await (dishFinder as SmartDishFinderAgent).cleanup();
+    }
+  }
+
+  return result;
+}
+
+function canRetry(operation: FailedOperation): boolean {
+  if (!operation.venue_id) return false;
+  return ['discovery', 'dish_extraction', 'menu_scrape'].includes(operation.type);
+}
+
+/**
+ * Re-fetch a discovered venue's page and update its address and coordinates
+ */
+async function retryVenuePage(operation: FailedOperation): Promise<void> {
+  const venue = await discoveredVenues.getById(operation.venue_id!);
+  if (!venue) {
+    throw new Error(`Discovered venue not found: ${operation.venue_id}`);
+  }
+
+  const link =
+    venue.delivery_platforms.find((p) => p.platform === operation.platform) ?? venue.delivery_platforms[0];
+  if (!link) {
+    throw new Error(`Venue ${venue.id} has no delivery platform link`);
+  }
+
+  const pageData = await fetchVenuePageData(link.url, link.platform);
+
+  await discoveredVenues.update(venue.id, {
+    address: {
+      ...venue.address,
+      ...(pageData.address?.street && { street: pageData.address.street }),
+      ...(pageData.address?.postal_code && { postal_code: pageData.address.postal_code }),
+      ...(pageData.address?.city && { city: pageData.address.city }),
+    },
+    ...(pageData.coordinates && {
+      coordinates: { ...pageData.coordinates, accuracy: pageData.coordinates.accuracy || 'exact' },
+    }),
+  });
+}
@@ -6,8 +6,8 @@
  * Provides historical analysis and change notifications.
  */
 
-import { getFirestore } from '@pad/database';
-import type { DiscoveredDish } from '@pad/core';
+import { getFirestore, menuChanges } from '@pad/database';
+import type { DiscoveredDish, MenuChange } from '@pad/core';
 import crypto from 'crypto';
 
 export interface MenuSnapshot {
@@ -35,19 +35,7 @@ export interface DishSnapshot {
   hash: string;
 }
 
-export interface MenuChange {
-  id: string;
-  venue_id: string;
-  platform: string;
-  detected_at: Date;
-  change_type: 'dish_added' | 'dish_removed' | 'dish_modified' | 'price_change';
-  dish_name: string;
-  planted_product?: string;
-  old_value?: string;
-  new_value?: string;
-  snapshot_before_id?: string;
-  snapshot_after_id: string;
-}
+export type { MenuChange, MenuChangeType } from '@pad/core';
 
 /**
  * Create a hash of a dish for comparison
@@ -313,19 +301,7 @@ export function compareSnapshots(
 export async function recordChanges(changes: MenuChange[]): Promise<void> {
   if (changes.length === 0) return;
 
-  const db = getFirestore();
-  const batch = db.batch();
-
-  for (const change of changes) {
-    const ref = db.collection('menu_changes').doc();
-    change.id = ref.id;
-    batch.set(ref, {
-      ...change,
-      detected_at: change.detected_at,
-    });
-  }
-
-  await batch.commit();
+  await menuChanges.recordMany(changes);
 
   console.log(`Recorded ${changes.length} menu changes`);
 }
@@ -337,31 +313,7 @@ export async function getRecentChanges(
   venueId: string,
   limit = 20
 ): Promise<MenuChange[]> {
-  const db = getFirestore();
-
-  const snapshot = await db
-    .collection('menu_changes')
-    .where('venue_id', '==', venueId)
-    .orderBy('detected_at', 'desc')
-    .limit(limit)
-    .get();
-
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      venue_id: data.venue_id,
-      platform: data.platform,
-      detected_at: data.detected_at.toDate(),
-      change_type: data.change_type,
-      dish_name: data.dish_name,
-      planted_product: data.planted_product,
-      old_value: data.old_value,
-      new_value: data.new_value,
-      snapshot_before_id: data.snapshot_before_id,
-      snapshot_after_id: data.snapshot_after_id,
-    } as MenuChange;
-  });
+  return menuChanges.getByVenue(venueId, limit);
 }
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * Platform Fixtures
+ *
+ * Record/replay support for platform adapter tests. A fixture is a saved
+ * venue page plus the VenuePageData the adapter produced when it was
+ * recorded:
+ *
+ *   src/tests/fixtures/platforms/{platform}/{name}.html
+ *   src/tests/fixtures/platforms/{platform}/{name}.expected.json
+ *
+ * Pages are captured with `pnpm record-fixture`; the fixture test suite
+ * replays every page through its adapter and compares the result with the
+ * expectation, so markup changes show up as failing tests instead of
+ * zero-dish runs.
+ *
+ * Pages written by hand after a platform's markup are marked
+ * `source: 'synthetic'` and carry no recording date. They only prove the
+ * adapter reads the structure we expect, not that the live site still
+ * looks like it; replace them with recordings when possible.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { DeliveryPlatform } from '@pad/core';
+import type { VenuePageData } from '../agents/smart-discovery/platforms/BasePlatformAdapter.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const PLATFORM_FIXTURES_DIR = path.resolve(__dirname, '../tests/fixtures/platforms');
+
+export interface PlatformFixture {
+  platform: DeliveryPlatform;
+  name: string;
+  htmlPath: string;
+  expectedPath: string;
+}
+
+/**
+ * Where a fixture page came from
+ */
+export type PlatformFixtureSource = 'recorded' | 'synthetic';
+
+/**
+ * Recorded expectation for a fixture
+ */
+export interface PlatformFixtureExpectation {
+  source: PlatformFixtureSource;
+  /** Page URL and capture time, set for recorded pages only */
+  url?: string;
+  recorded_at?: string;
+  adapter_version: string;
+  data: Omit<VenuePageData, 'rawHtml'>;
+}
+
+/**
+ * Paths of a fixture
+ */
+export function getPlatformFixture(platform: DeliveryPlatform, name: string): PlatformFixture {
+  const dir = path.join(PLATFORM_FIXTURES_DIR, platform);
+  return {
+    platform,
+    name,
+    htmlPath: path.join(dir, `${name}.html`),
+    expectedPath: path.join(dir, `${name}.expected.json`),
+  };
+}
+
+/**
+ * List recorded fixtures, optionally for one platform
+ */
+export function listPlatformFixtures(platform?: DeliveryPlatform): PlatformFixture[] {
+  if (!existsSync(PLATFORM_FIXTURES_DIR)) {
+    return [];
+  }
+
+  const platforms = platform
+    ? [platform]
+    : (readdirSync(PLATFORM_FIXTURES_DIR, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name) as DeliveryPlatform[]);
+
+  const fixtures: PlatformFixture[] = [];
+  for (const p of platforms.sort()) {
+    const dir = path.join(PLATFORM_FIXTURES_DIR, p);
+    if (!existsSync(dir)) continue;
+
+    for (const file of readdirSync(dir).sort()) {
+      if (file.endsWith('.html')) {
+        fixtures.push(getPlatformFixture(p, file.slice(0, -'.html'.length)));
+      }
+    }
+  }
+
+  return fixtures;
+}
+
+/**
+ * Strip a parse result down to what fixtures compare
+ *
+ * Drops the raw HTML and undefined fields so results match their JSON form.
+ */
+export function toFixtureData(data: VenuePageData): PlatformFixtureExpectation['data'] {
+  const { rawHtml: _rawHtml, ...rest } = data;
+  return JSON.parse(JSON.stringify(rest));
+}
+
+export function readFixtureHtml(fixture: PlatformFixture): string {
+  return readFileSync(fixture.htmlPath, 'utf-8');
+}
+
+export function readFixtureExpectation(fixture: PlatformFixture): PlatformFixtureExpectation | null {
+  if (!existsSync(fixture.expectedPath)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(fixture.expectedPath, 'utf-8'));
+}
+
+/**
+ * Save a fixture's page (optional) and its expectation
+ */
+export function writePlatformFixture(
+  fixture: PlatformFixture,
+  expectation: PlatformFixtureExpectation,
+  html?: string
+): void {
+  mkdirSync(path.dirname(fixture.htmlPath), { recursive: true });
+  if (html !== undefined) {
+    writeFileSync(fixture.htmlPath, html);
+  }
+  writeFileSync(fixture.expectedPath, JSON.stringify(expectation, null, 2) + '\n');
+}
+
+/**
+ * Derive a fixture name from a venue ID ("berlin/restaurant-slug" -> "berlin-restaurant-slug")
+ */
+export function toFixtureName(venueIdOrUrl: string): string {
+  return venueIdOrUrl
+    .toLowerCase()
+    .replace(/^https?:\/\/[^/]+\//, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
@@ -14,7 +14,8 @@ export type DeliveryPlatformName =
   | 'lieferando'
   | 'just_eat'
   | 'deliveroo'
-  | 'smood';
+  | 'smood'
+  | 'glovo';
 
 export interface PlatformHealthMetrics {
   platform: DeliveryPlatformName;
@@ -180,6 +181,7 @@ export function getAllPlatformHealth(): PlatformHealthMetrics[] {
     'just_eat',
     'deliveroo',
     'smood',
+    'glovo',
   ];
 
   return platforms.map((p) => getPlatformHealth(p));
@@ -0,0 +1,205 @@
+/**
+ * Product Catalog Sync
+ *
+ * Product data lives in three places:
+ * - PLANTED_PRODUCTS in @pad/core: the source of truth
+ * - the products Firestore collection, served by /api/v1/products
+ * - the planted-astro products content collection (nutrition, cooking),
+ *   linked to a SKU by the product's slug
+ *
+ * diffProductCatalog compares them; syncProductCatalog writes the catalog
+ * to Firestore so a new SKU only has to be added to PLANTED_PRODUCTS.
+ * Products created in the admin dashboard are not in the catalog; the admin
+ * API owns them and the sync leaves them alone.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { products } from '@pad/database';
+import { PLANTED_PRODUCTS, type Product } from '@pad/core';
+
+/** Fields of a planted-astro product content entry the sync compares */
+export interface ProductContentEntry {
+  slug: string;
+  category: string;
+  name: string;
+  variant: string;
+}
+
+export interface ProductFieldChange {
+  sku: string;
+  fields: (keyof Product)[];
+}
+
+export interface ProductCatalogDiff {
+  /** In the catalog, not in Firestore */
+  missing: Product[];
+  /** In both, with Firestore values that differ from the catalog */
+  changed: ProductFieldChange[];
+  /** Active in Firestore, not in the catalog (created in the admin dashboard) */
+  extra: Product[];
+  /** Catalog products without a content slug */
+  unlinked: Product[];
+  /** Catalog slugs without a content entry */
+  missingContent: Product[];
+  /** Content entries no catalog product links to */
+  orphanContent: ProductContentEntry[];
+  /** Linked products whose content entry has another category */
+  categoryMismatches: { sku: string; slug: string; catalog: string; content: string }[];
+}
+
+export interface SyncOptions {
+  dryRun?: boolean;
+  /** planted-astro products content directory; content is not compared without it */
+  contentDir?: string;
+}
+
+export interface SyncResult {
+  diff: ProductCatalogDiff;
+  written: number;
+}
+
+const COMPARED_FIELDS: (keyof Product)[] = [
+  'name',
+  'category',
+  'variant',
+  'weight_grams',
+  'image_url',
+  'markets',
+  'retail_only',
+  'active',
+  'slug',
+];
+
+/**
+ * Compare values as stored in Firestore, where map key order is not kept
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isSameValue(item, b[i]))
+    );
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+    return [...keys].every((key) => isSameValue(aRecord[key], bRecord[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Diff the catalog against the stored products and the content entries
+ */
+export function diffProductCatalog(
+  catalog: Product[],
+  stored: Product[],
+  content?: ProductContentEntry[]
+): ProductCatalogDiff {
+  const storedBySku = new Map(stored.map((product) => [product.sku, product]));
+  const catalogSkus = new Set(catalog.map((product) => product.sku));
+
+  const diff: ProductCatalogDiff = {
+    missing: [],
+    changed: [],
+    extra: stored.filter((product) => product.active && !catalogSkus.has(product.sku)),
+    unlinked: [],
+    missingContent: [],
+    orphanContent: [],
+    categoryMismatches: [],
+  };
+
+  for (const product of catalog) {
+    const storedProduct = storedBySku.get(product.sku);
+    if (!storedProduct) {
+      diff.missing.push(product);
+      continue;
+    }
+
+    const fields = COMPARED_FIELDS.filter((field) => !isSameValue(product[field], storedProduct[field]));
+    if (fields.length > 0) {
+      diff.changed.push({ sku: product.sku, fields });
+    }
+  }
+
+  if (!content) return diff;
+
+  const contentBySlug = new Map(content.map((entry) => [entry.slug, entry]));
+  const linkedSlugs = new Set<string>();
+
+  for (const product of catalog) {
+    if (!product.slug) {
+      diff.unlinked.push(product);
+      continue;
+    }
+
+    linkedSlugs.add(product.slug);
+    const entry = contentBySlug.get(product.slug);
+    if (!entry) {
+      diff.missingContent.push(product);
+    } else if (entry.category !== product.category) {
+      diff.categoryMismatches.push({
+        sku: product.sku,
+        slug: product.slug,
+        catalog: product.category,
+        content: entry.category,
+      });
+    }
+  }
+
+  diff.orphanContent = content.filter((entry) => !linkedSlugs.has(entry.slug));
+
+  return diff;
+}
+
+/**
+ * Read the planted-astro product content entries (one JSON file per product)
+ */
+export async function loadProductContent(contentDir: string): Promise<ProductContentEntry[]> {
+  const files = (await fs.readdir(contentDir)).filter((file) => file.endsWith('.json')).sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const data = JSON.parse(await fs.readFile(path.join(contentDir, file), 'utf-8'));
+      return {
+        // Astro falls back to the file name as entry ID
+        slug: data.slug ?? path.basename(file, '.json'),
+        category: data.category,
+        name: data.name,
+        variant: data.variant,
+      };
+    })
+  );
+}
+
+/**
+ * Write missing and changed catalog products to Firestore
+ */
+export async function syncProductCatalog(options: SyncOptions = {}): Promise<SyncResult> {
+  const [stored, content] = await Promise.all([
+    products.query({ activeOnly: false }),
+    options.contentDir ? loadProductContent(options.contentDir) : Promise.resolve(undefined),
+  ]);
+
+  const diff = diffProductCatalog(PLANTED_PRODUCTS, stored, content);
+  const result: SyncResult = { diff, written: 0 };
+
+  if (options.dryRun) return result;
+
+  const changedSkus = new Set(diff.changed.map((change) => change.sku));
+  const toWrite = [
+    ...diff.missing,
+    ...PLANTED_PRODUCTS.filter((product) => changedSkus.has(product.sku)),
+  ];
+
+  if (toWrite.length > 0) {
+    await products.bulkUpsert(toWrite);
+    result.written = toWrite.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,280 @@
+/**
+ * Retail Availability Sync Service
+ *
+ * Shared persistence layer for the retail scrapers (Migros, Coop, REWE, ...).
+ * Online shop listings are national, so a scraped product is treated as
+ * available at every active retail venue of that chain in the same country.
+ *
+ * Flow:
+ * 1. Map each scraped product name onto a PLANTED_PRODUCTS SKU
+ * 2. Collapse duplicates per SKU (in stock if any listing is, lowest price wins)
+ * 3. Upsert a RetailAvailability record per chain venue and SKU
+ * 4. Mark SKUs this scraper listed before but no longer finds as out of
+ *    stock, in each country the scrape covered
+ * 5. Write a change log entry whenever price or stock state changes
+ */
+
+import { matchProductSku } from '@pad/core';
+import type { DataSource, Venue } from '@pad/core';
+import { chains, venues, retailAvailability, changeLogs } from '@pad/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal product shape shared by all retail scrapers
+ */
+export interface ScrapedRetailProduct {
+  id: string;
+  name: string;
+  price: number; // 0 when the price could not be parsed
+  currency: string;
+  productUrl: string;
+  available: boolean;
+  country?: string; // Overrides the default country (multi-country scrapers)
+}
+
+export interface RetailAvailabilitySyncConfig {
+  chainName: string; // Must match a chain in the chains collection
+  scraperId: string;
+  country: string; // Default country for products without one
+}
+
+export interface RetailAvailabilitySyncResult {
+  chain_id: string | null;
+  matched: number;
+  unmatched: string[];
+  venues: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  delisted: number; // Records set out of stock because the SKU is no longer listed
+  failed: number;
+}
+
+interface SkuAvailability {
+  sku: string;
+  country: string;
+  in_stock: boolean;
+  price?: { regular: number; currency: string };
+  url: string;
+}
+
+// ============================================================================
+// Retail Availability Sync
+// ============================================================================
+
+export class RetailAvailabilitySync {
+  private config: RetailAvailabilitySyncConfig;
+
+  constructor(config: RetailAvailabilitySyncConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Persist scraped products as RetailAvailability records
+   */
+  async save(products: ScrapedRetailProduct[]): Promise<RetailAvailabilitySyncResult> {
+    const result: RetailAvailabilitySyncResult = {
+      chain_id: null,
+      matched: 0,
+      unmatched: [],
+      venues: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      delisted: 0,
+      failed: 0,
+    };
+
+    // An empty scrape is more likely a broken scraper than a shop without
+    // any Planted products, so nothing is delisted
+    if (products.length === 0) {
+      this.log('No products scraped - keeping existing availability', 'warn');
+      return result;
+    }
+
+    const availability = this.mapToSkus(products, result);
+    if (availability.length === 0) {
+      this.log('No scraped products matched a Planted SKU', 'warn');
+    }
+
+    const chain = await chains.findByName(this.config.chainName);
+    if (!chain) {
+      this.log(`Chain "${this.config.chainName}" not found - create it before saving availability`, 'warn');
+      return result;
+    }
+    result.chain_id = chain.id;
+
+    const chainVenues = (await venues.getByChain(chain.id)).filter((v) => v.type === 'retail');
+    const venuesByCountry = new Map<string, Venue[]>();
+    for (const venue of chainVenues) {
+      const country = venue.address?.country;
+      if (!country) continue;
+      venuesByCountry.set(country, [...(venuesByCountry.get(country) || []), venue]);
+    }
+
+    const countries = new Set(products.map((p) => p.country || this.config.country));
+    for (const country of countries) {
+      const countryVenues = venuesByCountry.get(country) || [];
+      if (countryVenues.length === 0) {
+        this.log(`No active ${chain.name} retail venues in ${country}`, 'warn');
+      }
+      result.venues += countryVenues.length;
+    }
+
+    for (const item of availability) {
+      const source: DataSource = {
+        type: 'scraped',
+        url: item.url,
+        scraper_id: this.config.scraperId,
+      };
+
+      for (const venue of venuesByCountry.get(item.country) || []) {
+        try {
+          const upsert = await retailAvailability.upsert(
+            {
+              venue_id: venue.id,
+              product_sku: item.sku,
+              in_stock: item.in_stock,
+              price: item.price,
+            },
+            source
+          );
+
+          result[upsert.action]++;
+
+          if (upsert.action !== 'unchanged') {
+            await changeLogs.log({
+              action: upsert.action,
+              collection: 'retail_availability',
+              document_id: upsert.id,
+              changes: upsert.changes,
+              source: { type: 'scraper', scraper_id: this.config.scraperId },
+              reason: `${item.sku} at ${venue.name} (${chain.name} online shop)`,
+            });
+          }
+        } catch (error) {
+          result.failed++;
+          this.log(`Failed to save ${item.sku} for venue ${venue.id}: ${error}`, 'error');
+        }
+      }
+    }
+
+    for (const country of countries) {
+      await this.markDelisted(country, availability, venuesByCountry.get(country) || [], chain.name, result);
+    }
+
+    this.log(
+      `Saved ${availability.length} SKUs across ${result.venues} venues ` +
+        `(created: ${result.created}, updated: ${result.updated}, unchanged: ${result.unchanged}, ` +
+        `delisted: ${result.delisted}, failed: ${result.failed})`
+    );
+
+    return result;
+  }
+
+  /**
+   * Set records of SKUs that this scraper saved before but did not find in
+   * this scrape of the country to out of stock. Records from other sources
+   * (partner feeds, manual entries) are left alone.
+   */
+  private async markDelisted(
+    country: string,
+    availability: SkuAvailability[],
+    countryVenues: Venue[],
+    chainName: string,
+    result: RetailAvailabilitySyncResult
+  ): Promise<void> {
+    const listedSkus = new Set(availability.filter((a) => a.country === country).map((a) => a.sku));
+    const source: DataSource = { type: 'scraped', scraper_id: this.config.scraperId };
+
+    for (const venue of countryVenues) {
+      try {
+        const records = await retailAvailability.getByVenue(venue.id);
+        const delisted = records.filter(
+          (record) =>
+            record.in_stock &&
+            !listedSkus.has(record.product_sku) &&
+            record.source?.scraper_id === this.config.scraperId
+        );
+
+        for (const record of delisted) {
+          const upsert = await retailAvailability.upsert(
+            { venue_id: venue.id, product_sku: record.product_sku, in_stock: false },
+            source
+          );
+          result.delisted++;
+
+          await changeLogs.log({
+            action: 'updated',
+            collection: 'retail_availability',
+            document_id: upsert.id,
+            changes: upsert.changes,
+            source: { type: 'scraper', scraper_id: this.config.scraperId },
+            reason: `${record.product_sku} no longer listed in the ${chainName} online shop (${venue.name})`,
+          });
+        }
+      } catch (error) {
+        result.failed++;
+        this.log(`Failed to delist products for venue ${venue.id}: ${error}`, 'error');
+      }
+    }
+  }
+
+  /**
+   * Map scraped listings to SKUs, merging listings that resolve to the same SKU
+   */
+  private mapToSkus(
+    products: ScrapedRetailProduct[],
+    result: RetailAvailabilitySyncResult
+  ): SkuAvailability[] {
+    const bySku = new Map<string, SkuAvailability>();
+
+    for (const product of products) {
+      const country = product.country || this.config.country;
+      const sku = matchProductSku(product.name, country);
+
+      if (!sku) {
+        result.unmatched.push(product.name);
+        continue;
+      }
+      result.matched++;
+
+      const price = product.price > 0 ? { regular: product.price, currency: product.currency } : undefined;
+      const key = `${country}:${sku}`;
+      const existing = bySku.get(key);
+
+      if (!existing) {
+        bySku.set(key, { sku, country, in_stock: product.available, price, url: product.productUrl });
+        continue;
+      }
+
+      existing.in_stock = existing.in_stock || product.available;
+      if (price && (!existing.price || price.regular < existing.price.regular)) {
+        existing.price = price;
+      }
+    }
+
+    if (result.unmatched.length > 0) {
+      this.log(`Unmatched products: ${result.unmatched.join(', ')}`, 'warn');
+    }
+
+    return Array.from(bySku.values());
+  }
+
+  private log(message: string, level: 'info' | 'warn' | 'error' = 'info'): void {
+    const prefix = `[RetailAvailabilitySync:${this.config.chainName}]`;
+    switch (level) {
+      case 'error':
+        console.error(`${prefix} ERROR: ${message}`);
+        break;
+      case 'warn':
+        console.warn(`${prefix} WARN: ${message}`);
+        break;
+      default:
+        console.log(`${prefix} ${message}`);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Verification Worker
+ *
+ * Processes venue re-verification jobs queued by the API's daily scraper
+ * orchestrator. For each job the venue's platform page is fetched and
+ * parsed; if the venue is still listed with planted dishes, its
+ * last_verified (and the platform link's) is refreshed. Pages whose menu
+ * the adapter can't read are handed to the dish finder's AI extraction
+ * once; a venue without any planted dish found stays unverified.
+ *
+ * Jobs are claimed per platform and at most PLATFORM_CONCURRENCY[platform]
+ * jobs of a platform run at once, across all workers. Each worker run is
+ * recorded in scraper_runs as 'freshness-verification'.
+ */
+
+import { randomUUID } from 'crypto';
+import { scraperRuns, venues, verificationJobs } from '@pad/database';
+import type { DeliveryPartner, DeliveryPlatform, ScraperError, SupportedCountry, VerificationJob } from '@pad/core';
+import { fetchVenuePageData, getAdapter, getPlatformFromUrl } from '../agents/smart-discovery/platforms/index.js';
+import { getDishFinderAIClient } from '../agents/smart-dish-finder/DishFinderAIClient.js';
+
+export const VERIFICATION_SCRAPER_ID = 'freshness-verification';
+
+/** Jobs of a platform running at the same time, across workers */
+export const PLATFORM_CONCURRENCY: Record<DeliveryPartner, number> = {
+  uber_eats: 1,
+  wolt: 2,
+  lieferando: 2,
+  just_eat: 2,
+  deliveroo: 1,
+  glovo: 1,
+};
+
+export interface VerificationWorkerOptions {
+  /** Only process these platforms (default: all with due jobs) */
+  platforms?: DeliveryPartner[];
+  /** Stop after this many jobs per platform */
+  maxJobsPerPlatform?: number;
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+export interface VerificationWorkerResult {
+  run_id?: string;
+  processed: number;
+  verified: number;
+  requeued: number;
+  failed: number;
+  released: number;
+  by_platform: Partial<Record<DeliveryPartner, { verified: number; requeued: number; failed: number }>>;
+  errors: { job_id: string; venue_id: string; error: string }[];
+}
+
+/**
+ * Re-verify one venue on one platform. Throws if the venue can't be
+ * confirmed; returns the number of planted dishes found.
+ */
+export async function verifyVenueOnPlatform(
+  job: Pick<VerificationJob, 'url' | 'platform' | 'venue_id' | 'venue_name' | 'country'>
+): Promise<number> {
+  const platform = getPlatformFromUrl(job.url) ?? (job.platform.replace(/_/g, '-') as DeliveryPlatform);
+  const adapter = getAdapter(platform);
+
+  const page = await fetchVenuePageData(job.url, platform);
+  if (!adapter.isValidVenuePage(page)) {
+    throw new Error('Venue page could not be parsed (delisted or page changed)');
+  }
+
+  if (page.menuItems.length === 0) {
+    // The adapter found the venue but not its menu (layout change or a menu
+    // loaded client-side); an empty menu proves nothing about planted dishes
+    if (!page.rawHtml) {
+      throw new Error('No menu items parsed from the venue page');
+    }
+    const extraction = await getDishFinderAIClient().extractDishes({
+      url: job.url,
+      platform,
+      country: job.country as SupportedCountry,
+      venue_name: job.venue_name,
+      venue_id: job.venue_id,
+      html: page.rawHtml,
+    });
+    if (extraction.dishes.length === 0) {
+      throw new Error('No menu items parsed and no planted dishes extracted from the venue page');
+    }
+    return extraction.dishes.length;
+  }
+
+  const planted = adapter.findPlantedItems(page.menuItems);
+  if (planted.length === 0) {
+    throw new Error(`No planted items among ${page.menuItems.length} menu items`);
+  }
+
+  return planted.length;
+}
+
+/**
+ * Process due verification jobs
+ */
+export async function runVerificationWorker(options: VerificationWorkerOptions = {}): Promise<VerificationWorkerResult> {
+  const workerId = `worker-${randomUUID().slice(0, 8)}`;
+  const result: VerificationWorkerResult = {
+    processed: 0,
+    verified: 0,
+    requeued: 0,
+    failed: 0,
+    released: 0,
+    by_platform: {},
+    errors: [],
+  };
+
+  const log = (message: string) => {
+    if (options.verbose) console.log(`[Verification ${workerId}] ${message}`);
+  };
+
+  // Jobs of crashed workers become due again
+  result.released = await verificationJobs.releaseExpired();
+  if (result.released > 0) {
+    log(`Requeued ${result.released} abandoned job(s)`);
+  }
+
+  const duePlatforms = await verificationJobs.getDuePlatforms();
+  const platforms = duePlatforms.filter((p) => !options.platforms || options.platforms.includes(p));
+  log(`Platforms with due jobs: ${platforms.join(', ') || 'none'}`);
+
+  if (platforms.length === 0 || options.dryRun) {
+    return result;
+  }
+
+  const run = await scraperRuns.start(VERIFICATION_SCRAPER_ID);
+  result.run_id = run.id;
+  let dishesFound = 0;
+
+  const processPlatform = async (platform: DeliveryPartner) => {
+    const concurrency = PLATFORM_CONCURRENCY[platform] ?? 1;
+    const counts = { verified: 0, requeued: 0, failed: 0 };
+    result.by_platform[platform] = counts;
+    let processed = 0;
+
+    while (!options.maxJobsPerPlatform || processed < options.maxJobsPerPlatform) {
+      const limit = options.maxJobsPerPlatform
+        ? Math.min(concurrency, options.maxJobsPerPlatform - processed)
+        : concurrency;
+      const jobs = await verificationJobs.claim(platform, workerId, { limit, maxRunning: concurrency });
+      if (jobs.length === 0) break;
+
+      await Promise.all(
+        jobs.map(async (job) => {
+          processed++;
+          result.processed++;
+          try {
+            dishesFound += await verifyVenueOnPlatform(job);
+            await venues.markVerified(job.venue_id, job.platform);
+            await verificationJobs.markSucceeded(job.id);
+            counts.verified++;
+            result.verified++;
+            log(`Verified ${job.venue_name} on ${platform}`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const updated = await verificationJobs.markFailed(job.id, message);
+            if (updated.status === 'failed') {
+              counts.failed++;
+              result.failed++;
+            } else {
+              counts.requeued++;
+              result.requeued++;
+            }
+            result.errors.push({ job_id: job.id, venue_id: job.venue_id, error: message });
+            log(`Verification of ${job.venue_name} on ${platform} failed: ${message}`);
+          }
+        })
+      );
+    }
+  };
+
+  try {
+    // Platforms run side by side; each is limited by its own concurrency
+    await Promise.all(platforms.map(processPlatform));
+  } catch (error) {
+    await scraperRuns.complete(
+      run.id,
+      'failed',
+      toStats(result, dishesFound),
+      [{ message: error instanceof Error ? error.message : String(error) }]
+    );
+    throw error;
+  }
+
+  const errors: ScraperError[] = result.errors.slice(0, 50).map((e) => ({
+    message: `${e.venue_id}: ${e.error}`,
+  }));
+  const status = result.errors.length === 0 ? 'completed' : result.verified > 0 ? 'partial' : 'failed';
+  await scraperRuns.complete(run.id, status, toStats(result, dishesFound), errors);
+
+  return result;
+}
+
+function toStats(result: VerificationWorkerResult, dishesFound: number) {
+  return {
+    venues_checked: result.processed,
+    venues_updated: result.verified,
+    dishes_found: dishesFound,
+    dishes_updated: 0,
+    errors: result.errors.length,
+  };
+}
@@ -0,0 +1,322 @@
+/**
+ * Adapter Version Manager Tests (Unit Tests - No External Dependencies)
+ *
+ * Version selection, health tracking and automatic rollback against an
+ * in-memory adapter_versions collection. The module keeps its caches in
+ * module state, so every test imports a fresh copy.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type DocData = Record<string, unknown>;
+
+const store = vi.hoisted(() => ({
+  collections: new Map<string, Map<string, Record<string, unknown>>>(),
+  nextId: 1,
+}));
+
+vi.mock('@pad/database', () => {
+  // Firestore returns Timestamps for dates
+  const toStored = (data: DocData): DocData =>
+    Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        value instanceof Date ? { toDate: () => value, millis: value.getTime() } : value,
+      ])
+    );
+  const sortValue = (value: unknown) =>
+    value && typeof value === 'object' && 'millis' in value ? (value as { millis: number }).millis : value;
+
+  const collectionOf = (name: string) => {
+    if (!store.collections.has(name)) store.collections.set(name, new Map());
+    return store.collections.get(name)!;
+  };
+
+  const refOf = (name: string, id: string) => ({
+    id,
+    update: async (data: DocData) => {
+      const docs = collectionOf(name);
+      docs.set(id, { ...docs.get(id), ...toStored(data) });
+    },
+  });
+
+  type Filter = [string, string, unknown];
+  const query = (name: string, filters: Filter[], order?: [string, string], max?: number) => ({
+    where: (field: string, op: string, value: unknown) => query(name, [...filters, [field, op, value]], order, max),
+    orderBy: (field: string, direction = 'asc') => query(name, filters, [field, direction], max),
+    limit: (n: number) => query(name, filters, order, n),
+    get: async () => {
+      let entries = [...collectionOf(name).entries()].filter(([, data]) =>
+        filters.every(([field, op, value]) =>
+          op === 'in' ? (value as unknown[]).includes(data[field]) : data[field] === value
+        )
+      );
+      if (order) {
+        const [field, direction] = order;
+        const sign = direction === 'desc' ? -1 : 1;
+        entries = entries.sort(
+          ([, a], [, b]) => sign * ((sortValue(a[field]) as number) - (sortValue(b[field]) as number))
+        );
+      }
+      const docs = entries.slice(0, max).map(([id, data]) => ({ id, data: () => data, ref: refOf(name, id) }));
+      return { empty: docs.length === 0, docs };
+    },
+  });
+
+  const db = {
+    collection: (name: string) => ({
+      ...query(name, []),
+      add: async (data: DocData) => {
+        const id = `doc${store.nextId++}`;
+        collectionOf(name).set(id, toStored(data));
+        return { id };
+      },
+      doc: (id: string) => refOf(name, id),
+    }),
+    batch: () => {
+      const updates: [{ update: (data: DocData) => Promise<void> }, DocData][] = [];
+      return {
+        update: (ref: { update: (data: DocData) => Promise<void> }, data: DocData) => updates.push([ref, data]),
+        commit: async () => {
+          for (const [ref, data] of updates) await ref.update(data);
+        },
+      };
+    },
+  };
+
+  return { getFirestore: () => db };
+});
+
+type Manager = typeof import('../services/AdapterVersionManager.js');
+let manager: Manager;
+
+function seedVersion(version: string, status: string, deployedAt: string, extra: DocData = {}): void {
+  if (!store.collections.has('adapter_versions')) store.collections.set('adapter_versions', new Map());
+  const date = new Date(deployedAt);
+  store.collections.get('adapter_versions')!.set(`wolt-${version}`, {
+    platform: 'wolt',
+    version,
+    status,
+    deployed_at: { toDate: () => date, millis: date.getTime() },
+    ...extra,
+  });
+}
+
+function statusOf(version: string): unknown {
+  return store.collections.get('adapter_versions')!.get(`wolt-${version}`)?.status;
+}
+
+async function report(version: string, success: boolean, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await manager.updateAdapterStats('wolt', version, { success, error: success ? undefined : 'No menu items' });
+  }
+}
+
+beforeEach(async () => {
+  store.collections.clear();
+  store.nextId = 1;
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  manager = await import('../services/AdapterVersionManager.js');
+});
+
+describe('selectAdapterVersion', () => {
+  it('selects the active version without a canary', async () => {
+    seedVersion('1.1.0', 'active', '2026-10-01');
+
+    expect(await manager.selectAdapterVersion('wolt', ['1.1.0', '1.0.0'])).toEqual({
+      version: '1.1.0',
+      canary: false,
+    });
+  });
+
+  it('sends the canary share of requests to the testing version', async () => {
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    seedVersion('1.2.0', 'testing', '2026-10-10', { canary_percent: 20 });
+    const available = ['1.2.0', '1.1.0'];
+
+    expect(await manager.selectAdapterVersion('wolt', available, () => 0.19)).toEqual({
+      version: '1.2.0',
+      canary: true,
+    });
+    expect(await manager.selectAdapterVersion('wolt', available, () => 0.2)).toEqual({
+      version: '1.1.0',
+      canary: false,
+    });
+  });
+
+  it('only selects versions implemented in code', async () => {
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    seedVersion('1.2.0', 'testing', '2026-10-10', { canary_percent: 100 });
+
+    expect(await manager.selectAdapterVersion('wolt', ['1.1.0'], () => 0)).toEqual({
+      version: '1.1.0',
+      canary: false,
+    });
+    expect(await manager.selectAdapterVersion('wolt', ['1.0.0'], () => 0)).toBeNull();
+  });
+});
+
+describe('shouldRollback', () => {
+  it('waits for enough requests', async () => {
+    await report('1.1.0', false, 9);
+
+    expect(manager.shouldRollback('wolt', '1.1.0')).toBe(false);
+  });
+
+  it('rolls back a version whose parses keep failing', async () => {
+    await report('1.1.0', true, 2);
+    await report('1.1.0', false, 8);
+
+    expect(manager.shouldRollback('wolt', '1.1.0')).toBe(true);
+    expect(manager.getAdapterHealth('wolt', '1.1.0')).toMatchObject({
+      requests_1h: 10,
+      success_rate_1h: 0.2,
+      consecutive_failures: 8,
+      last_error: 'No menu items',
+    });
+  });
+
+  it('does not roll back a version that recovered', async () => {
+    await report('1.1.0', false, 10);
+    await report('1.1.0', true, 1);
+
+    expect(manager.shouldRollback('wolt', '1.1.0')).toBe(false);
+  });
+});
+
+describe('updateAdapterStats', () => {
+  it('rolls the active version back to the previous implemented version', async () => {
+    seedVersion('1.0.0', 'deprecated', '2026-09-01');
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    await manager.syncAdapterVersions([
+      { platform: 'wolt', version: '1.1.0' },
+      { platform: 'wolt', version: '1.0.0' },
+    ]);
+
+    await report('1.1.0', false, 10);
+
+    expect(statusOf('1.1.0')).toBe('failed');
+    expect(statusOf('1.0.0')).toBe('active');
+    expect(await manager.selectAdapterVersion('wolt', ['1.1.0', '1.0.0'])).toEqual({
+      version: '1.0.0',
+      canary: false,
+    });
+    expect([...store.collections.get('adapter_rollbacks')!.values()][0]).toMatchObject({
+      from_version: '1.1.0',
+      to_version: '1.0.0',
+      automatic: true,
+    });
+  });
+
+  it('skips deprecated versions whose code is gone', async () => {
+    seedVersion('0.9.0', 'deprecated', '2026-08-01');
+    seedVersion('1.0.0', 'deprecated', '2026-09-01');
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    await manager.syncAdapterVersions([
+      { platform: 'wolt', version: '1.1.0' },
+      { platform: 'wolt', version: '0.9.0' },
+    ]);
+
+    await report('1.1.0', false, 10);
+
+    expect(statusOf('0.9.0')).toBe('active');
+    expect(statusOf('1.0.0')).toBe('deprecated');
+  });
+
+  it('keeps the active version without a rollback target in code', async () => {
+    seedVersion('1.0.0', 'deprecated', '2026-09-01');
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    await manager.syncAdapterVersions([{ platform: 'wolt', version: '1.1.0' }]);
+
+    await report('1.1.0', false, 10);
+
+    expect(statusOf('1.1.0')).toBe('active');
+    expect(statusOf('1.0.0')).toBe('deprecated');
+    expect(store.collections.has('adapter_rollbacks')).toBe(false);
+  });
+
+  it('pulls a failing canary and keeps the active version', async () => {
+    seedVersion('1.1.0', 'active', '2026-10-01');
+    seedVersion('1.2.0', 'testing', '2026-10-10', { canary_percent: 10 });
+
+    await report('1.2.0', false, 10);
+
+    expect(statusOf('1.2.0')).toBe('failed');
+    expect(statusOf('1.1.0')).toBe('active');
+    expect(await manager.selectAdapterVersion('wolt', ['1.2.0', '1.1.0'], () => 0)).toEqual({
+      version: '1.1.0',
+      canary: false,
+    });
+  });
+
+  it('persists the success rate every ten reports', async () => {
+    seedVersion('1.1.0', 'active', '2026-10-01', { requests_tested: 5 });
+
+    await report('1.1.0', true, 9);
+    expect(store.collections.get('adapter_versions')!.get('wolt-1.1.0')!.requests_tested).toBe(5);
+
+    await report('1.1.0', true, 1);
+    expect(store.collections.get('adapter_versions')!.get('wolt-1.1.0')).toMatchObject({
+      requests_tested: 15,
+      success_rate: 100,
+    });
+  });
+});
+
+describe('syncAdapterVersions', () => {
+  function versionStatus(version: string): unknown {
+    return [...store.collections.get('adapter_versions')!.values()].find((doc) => doc.version === version)?.status;
+  }
+
+  it('canary tests a new version next to an active version in code', async () => {
+    seedVersion('1.0.0', 'active', '2026-10-01');
+
+    await manager.syncAdapterVersions([
+      { platform: 'wolt', version: '1.0.1' },
+      { platform: 'wolt', version: '1.0.0' },
+    ]);
+
+    expect(versionStatus('1.0.1')).toBe('testing');
+    expect(statusOf('1.0.0')).toBe('active');
+  });
+
+  it('activates a new version when the active version has no code left', async () => {
+    seedVersion('1.0.0', 'active', '2026-10-01');
+
+    await manager.syncAdapterVersions([{ platform: 'wolt', version: '1.0.1' }]);
+
+    expect(versionStatus('1.0.1')).toBe('active');
+    expect(statusOf('1.0.0')).toBe('deprecated');
+    expect(await manager.selectAdapterVersion('wolt', ['1.0.1'], () => 0)).toEqual({
+      version: '1.0.1',
+      canary: false,
+    });
+  });
+
+  it('promotes a registered canary once the active version has no code left', async () => {
+    seedVersion('1.0.0', 'active', '2026-10-01');
+    seedVersion('1.0.1', 'testing', '2026-10-10', { canary_percent: 10 });
+
+    await manager.syncAdapterVersions([{ platform: 'wolt', version: '1.0.1' }]);
+
+    expect(statusOf('1.0.1')).toBe('active');
+    expect(statusOf('1.0.0')).toBe('deprecated');
+    expect(await manager.selectAdapterVersion('wolt', ['1.0.1'], () => 0.99)).toEqual({
+      version: '1.0.1',
+      canary: false,
+    });
+  });
+
+  it('does not promote a version that failed before', async () => {
+    seedVersion('1.0.0', 'active', '2026-10-01');
+    seedVersion('1.0.1', 'failed', '2026-10-10');
+
+    await manager.syncAdapterVersions([{ platform: 'wolt', version: '1.0.1' }]);
+
+    expect(statusOf('1.0.1')).toBe('failed');
+    expect(statusOf('1.0.0')).toBe('active');
+  });
+});
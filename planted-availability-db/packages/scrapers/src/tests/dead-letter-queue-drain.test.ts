@@ -0,0 +1,164 @@
+/**
+ * Dead Letter Queue Drain Tests (Unit Tests - No External Dependencies)
+ *
+ * Runs drainDeadLetterQueue against an in-memory queue with the dish
+ * finder and venue page fetches stubbed out.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FailedOperation } from '@pad/core';
+
+const state = vi.hoisted(() => ({
+  due: [] as FailedOperation[],
+  resolved: [] as string[],
+  retried: [] as { id: string; error?: string }[],
+  manual: [] as { id: string; reason?: string }[],
+  venueUpdates: [] as { id: string; data: Record<string, unknown> }[],
+  dishFinderFailures: [] as { error: string }[],
+  dishFinderStarts: 0,
+  dishFinderStops: 0,
+}));
+
+vi.mock('@pad/database', () => ({
+  discoveredVenues: {
+    getById: async (id: string) => ({
+      id,
+      address: { street: '', city: 'Zürich', postal_code: '', country: 'CH' },
+      delivery_platforms: [{ platform: 'wolt', url: `https://wolt.com/de/che/zurich/restaurant/${id}` }],
+    }),
+    update: async (id: string, data: Record<string, unknown>) => {
+      state.venueUpdates.push({ id, data });
+    },
+  },
+}));
+
+vi.mock('../services/DeadLetterQueue.js', () => ({
+  getDeadLetterQueue: () => ({
+    getRetryableOperations: async (types: string[]) => state.due.filter((op) => types.includes(op.type)),
+    markResolved: async (id: string) => {
+      state.resolved.push(id);
+    },
+    retryOperation: async (id: string, error?: string) => {
+      state.retried.push({ id, error });
+    },
+    markRequiresManual: async (id: string, reason?: string) => {
+      state.manual.push({ id, reason });
+    },
+  }),
+}));
+
+vi.mock('../agents/smart-dish-finder/SmartDishFinderAgent.js', () => ({
+  SmartDishFinderAgent: class {
+    async initialize() {
+      state.dishFinderStarts++;
+    }
+    async retryVenue() {
+      return state.dishFinderFailures;
+    }
+    async cleanup() {
+      state.dishFinderStops++;
+    }
+  },
+}));
+
+vi.mock('../agents/smart-discovery/platforms/index.js', () => ({
+  fetchVenuePageData: async () => ({
+    address: { street: 'Langstrasse 10', postal_code: '8004' },
+    coordinates: { latitude: 47.378, longitude: 8.528 },
+  }),
+}));
+
+const { drainDeadLetterQueue } = await import('../services/DeadLetterQueueDrain.js');
+
+function operation(id: string, type: FailedOperation['type'], venueId?: string): FailedOperation {
+  return {
+    id,
+    type,
+    venue_id: venueId,
+    platform: 'wolt',
+    error: 'Timeout',
+    attempts: 1,
+    max_attempts: 5,
+    created_at: new Date(),
+    last_attempt_at: new Date(),
+    status: 'pending_retry',
+  };
+}
+
+beforeEach(() => {
+  state.due = [];
+  state.resolved = [];
+  state.retried = [];
+  state.manual = [];
+  state.venueUpdates = [];
+  state.dishFinderFailures = [];
+  state.dishFinderStarts = 0;
+  state.dishFinderStops = 0;
+});
+
+describe('drainDeadLetterQueue', () => {
+  it('re-runs dish extraction and resolves operations that succeed', async () => {
+    state.due = [operation('op1', 'dish_extraction', 'v1'), operation('op2', 'menu_scrape', 'v2')];
+
+    const result = await drainDeadLetterQueue();
+
+    expect(result).toMatchObject({ processed: 2, resolved: 2, failed: 0 });
+    expect(state.resolved).toEqual(['op1', 'op2']);
+    // One browser for the whole run, closed afterwards
+    expect(state.dishFinderStarts).toBe(1);
+    expect(state.dishFinderStops).toBe(1);
+  });
+
+  it('records a failed attempt when the retry fails again', async () => {
+    state.due = [operation('op1', 'dish_extraction', 'v1')];
+    state.dishFinderFailures = [{ error: 'Menu not found' }];
+
+    const result = await drainDeadLetterQueue();
+
+    expect(result.failed).toBe(1);
+    expect(result.errors).toEqual([{ id: 'op1', error: 'Menu not found' }]);
+    expect(state.retried).toEqual([{ id: 'op1', error: 'Menu not found' }]);
+    expect(state.resolved).toEqual([]);
+  });
+
+  it('fills in the address of venues whose discovery failed', async () => {
+    state.due = [operation('op1', 'discovery', 'v1')];
+
+    await drainDeadLetterQueue();
+
+    expect(state.venueUpdates[0].data).toMatchObject({
+      address: { street: 'Langstrasse 10', postal_code: '8004', city: 'Zürich' },
+      coordinates: { latitude: 47.378, longitude: 8.528, accuracy: 'exact' },
+    });
+    expect(state.resolved).toEqual(['op1']);
+    expect(state.dishFinderStarts).toBe(0);
+  });
+
+  it('escalates operations it cannot retry', async () => {
+    state.due = [operation('op1', 'venue_verification', 'v1'), operation('op2', 'menu_scrape')];
+
+    const result = await drainDeadLetterQueue();
+
+    expect(result.escalated).toBe(2);
+    expect(state.manual.map((m) => m.id)).toEqual(['op1', 'op2']);
+  });
+
+  it('only lists due operations on a dry run', async () => {
+    state.due = [operation('op1', 'dish_extraction', 'v1')];
+
+    const result = await drainDeadLetterQueue({ dryRun: true });
+
+    expect(result.processed).toBe(0);
+    expect(state.resolved).toEqual([]);
+    expect(state.dishFinderStarts).toBe(0);
+  });
+
+  it('drains only the requested types', async () => {
+    state.due = [operation('op1', 'dish_extraction', 'v1'), operation('op2', 'discovery', 'v2')];
+
+    const result = await drainDeadLetterQueue({ types: ['discovery'] });
+
+    expect(result.processed).toBe(1);
+    expect(state.resolved).toEqual(['op2']);
+  });
+});
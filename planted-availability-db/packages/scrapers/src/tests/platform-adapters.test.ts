@@ -0,0 +1,221 @@
+/**
+ * Platform Adapter Fixture Tests (Unit Tests - No External Dependencies)
+ *
+ * Parses venue pages (src/tests/fixtures/platforms) with the Deliveroo and
+ * Glovo adapters, one fixture per supported country. The pages are
+ * synthetic: hand-written after the platforms' embedded JSON-LD and
+ * __NEXT_DATA__ structure, not captured from the live sites, so they pin
+ * the parsing logic but don't prove it matches current markup. Replace
+ * them with recordings (`pnpm record-fixture`) when the sites are reachable.
+ * Field-by-field checks; platform-fixtures.test.ts compares every
+ * fixture against its expectation.
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { DeliverooAdapter } from '../agents/smart-discovery/platforms/DeliverooAdapter.js';
+import { GlovoAdapter } from '../agents/smart-discovery/platforms/GlovoAdapter.js';
+
+function loadFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/platforms/${name}`, import.meta.url), 'utf-8');
+}
+
+// ============================================================================
+// 1. DELIVEROO
+// ============================================================================
+
+describe('DeliverooAdapter', () => {
+  const adapter = new DeliverooAdapter();
+
+  it('should use the country domain for searches and venue URLs', () => {
+    expect(adapter.getSearchDomain('UK')).toBe('deliveroo.co.uk');
+    expect(adapter.getSearchDomain('FR')).toBe('deliveroo.fr');
+    expect(adapter.getSearchDomain('IT')).toBe('deliveroo.it');
+    expect(adapter.getSearchDomain('BE')).toBe('deliveroo.be');
+
+    expect(adapter.buildSearchUrl('planted', 'FR', 'Paris')).toBe('site:deliveroo.fr/menu planted Paris');
+    expect(adapter.buildVenueUrl('london/soho/green-bowl-soho', 'UK')).toBe(
+      'https://deliveroo.co.uk/menu/london/soho/green-bowl-soho'
+    );
+  });
+
+  it('should extract venue IDs with and without a language segment', () => {
+    expect(adapter.extractVenueId('https://deliveroo.co.uk/menu/london/soho/green-bowl-soho?day=today')).toBe(
+      'london/soho/green-bowl-soho'
+    );
+    expect(adapter.extractVenueId('https://deliveroo.be/fr/menu/bruxelles/ixelles/la-plante')).toBe(
+      'bruxelles/ixelles/la-plante'
+    );
+    expect(adapter.extractVenueId('https://deliveroo.co.uk/restaurants/london')).toBeNull();
+  });
+
+  it('should parse a UK venue page (JSON-LD + menu state)', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/uk.html'));
+
+    expect(data.name).toBe('Green Bowl - Soho');
+    expect(data.address).toEqual({
+      street: '12 Old Compton Street',
+      city: 'London',
+      postal_code: 'W1D 4TQ',
+      country: 'UK',
+    });
+    expect(data.coordinates).toEqual({ latitude: 51.5136, longitude: -0.1313, accuracy: 'exact' });
+    expect(data.rating).toBe(4.6);
+    expect(data.menuItems).toHaveLength(2);
+    expect(data.menuItems[0]).toMatchObject({
+      name: 'planted.chicken Katsu Bowl',
+      price: '12.50',
+      currency: 'GBP',
+      category: 'Bowls',
+    });
+  });
+
+  it('should parse a FR venue page (menu state only)', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/fr.html'));
+
+    expect(data.name).toBe('Le Jardin Vert');
+    expect(data.address).toMatchObject({ street: '24 Rue des Archives', postal_code: '75004', country: 'FR' });
+    expect(data.coordinates).toMatchObject({ latitude: 48.8592, longitude: 2.3621 });
+    expect(data.menuItems[0]).toMatchObject({ name: 'Burger planted.chicken', price: '13.90', currency: 'EUR' });
+  });
+
+  it('should parse an IT venue page', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/it.html'));
+
+    expect(data.name).toBe('Pianta Bistrot');
+    expect(data.address).toMatchObject({ street: 'Via Vigevano 9', postal_code: '20144', country: 'IT' });
+    expect(data.coordinates).toMatchObject({ latitude: 45.4528, longitude: 9.1763 });
+    expect(data.menuItems[0]).toMatchObject({ name: 'Piadina planted.chicken', price: '11.00', category: 'Piadine' });
+  });
+
+  it('should parse a BE venue page with formatted prices', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/be.html'));
+
+    expect(data.name).toBe('La Plante');
+    expect(data.address).toMatchObject({ city: 'Ixelles', postal_code: '1050', country: 'BE' });
+    expect(data.coordinates).toMatchObject({ latitude: 50.8333, longitude: 4.3667 });
+    expect(data.menuItems.map((item) => item.price)).toEqual(['12.00', '4.00']);
+  });
+
+  it('should parse a Dutch-language BE page (og:url country + HTML menu)', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/be-nl.html'));
+
+    expect(data.name).toBe('Groen Eethuis');
+    expect(data.address).toMatchObject({ street: 'Kasteelpleinstraat 44', postal_code: '2000', country: 'BE' });
+    expect(data.menuItems).toEqual([
+      {
+        name: 'planted.schnitzel met friet',
+        description: 'Vegan schnitzel van planted',
+        price: '15.50',
+        currency: 'EUR',
+      },
+      { name: 'Friet', description: undefined, price: '4.50', currency: 'EUR' },
+    ]);
+  });
+
+  it('should not offer Spain or the Netherlands', () => {
+    expect(adapter.supportedCountries).not.toContain('ES');
+    expect(adapter.supportedCountries).not.toContain('NL');
+  });
+
+  it('should find Planted products in parsed menus', () => {
+    const data = adapter.parseVenuePage(loadFixture('deliveroo/uk.html'));
+    const planted = adapter.findPlantedItems(data.menuItems);
+
+    expect(planted).toHaveLength(1);
+    expect(planted[0].plantedProduct).toBe('planted.chicken');
+    expect(planted[0].isVegan).toBe(true);
+  });
+});
+
+// ============================================================================
+// 2. GLOVO
+// ============================================================================
+
+describe('GlovoAdapter', () => {
+  const adapter = new GlovoAdapter();
+
+  it('should use the country path for searches and venue URLs', () => {
+    expect(adapter.getSearchDomain('ES')).toBe('glovoapp.com/es');
+    expect(adapter.getSearchDomain('IT')).toBe('glovoapp.com/it');
+    expect(adapter.getSearchDomain('PL')).toBe('glovoapp.com/pl');
+
+    expect(adapter.buildSearchUrl('planted', 'PL')).toBe('site:glovoapp.com/pl planted');
+    expect(adapter.buildVenueUrl('roma/verde-roma-rom', 'IT')).toBe('https://glovoapp.com/it/it/roma/verde-roma-rom/');
+  });
+
+  it('should extract venue IDs from store URLs', () => {
+    expect(adapter.extractVenueId('https://glovoapp.com/es/es/barcelona/hola-veggie-bcn/')).toBe(
+      'barcelona/hola-veggie-bcn'
+    );
+    expect(adapter.extractVenueId('https://glovoapp.com/es/es/barcelona/')).toBeNull();
+  });
+
+  it('should parse an ES store page', () => {
+    const data = adapter.parseVenuePage(loadFixture('glovo/es.html'));
+
+    expect(data.name).toBe('Hola Veggie');
+    expect(data.address).toEqual({
+      street: 'Carrer de Girona 54',
+      city: 'Barcelona',
+      postal_code: '08009',
+      country: 'ES',
+      full_address: 'Carrer de Girona 54, 08009 Barcelona',
+    });
+    expect(data.coordinates).toEqual({ latitude: 41.3935, longitude: 2.1707, accuracy: 'exact' });
+    expect(data.isOpen).toBe(true);
+    expect(data.menuItems).toHaveLength(2);
+    expect(data.menuItems[0]).toMatchObject({
+      name: 'Bocadillo planted.chicken',
+      price: '9.50',
+      currency: 'EUR',
+      category: 'Bocadillos',
+    });
+  });
+
+  it('should parse an IT store page, taking the address from JSON-LD', () => {
+    const data = adapter.parseVenuePage(loadFixture('glovo/it.html'));
+
+    expect(data.name).toBe('Verde Roma');
+    expect(data.address).toMatchObject({ street: 'Via del Pigneto 22', postal_code: '00176', country: 'IT' });
+    expect(data.coordinates).toMatchObject({ latitude: 41.8884, longitude: 12.5304 });
+    expect(data.isOpen).toBe(false);
+    expect(data.menuItems[0]).toMatchObject({ name: 'Panino planted.kebab', price: '8.90', currency: 'EUR' });
+  });
+
+  it('should parse a PL store page with PLN prices', () => {
+    const data = adapter.parseVenuePage(loadFixture('glovo/pl.html'));
+
+    expect(data.name).toBe('Zielona Miska');
+    expect(data.address).toMatchObject({
+      street: 'ul. Nowy Świat 5',
+      city: 'Warszawa',
+      postal_code: '00-496',
+      country: 'PL',
+    });
+    expect(data.menuItems[0]).toMatchObject({ name: 'Bowl z planted.chicken', price: '39.00', currency: 'PLN' });
+  });
+});
+
+// ============================================================================
+// 3. PARSE VALIDITY
+// ============================================================================
+
+describe('isValidVenuePage', () => {
+  const adapter = new DeliverooAdapter();
+  const address = { street: 'Wardour Street 1', city: 'London', postal_code: 'W1F 0TA', country: 'UK' as const };
+  const menuItems = [{ name: 'planted.chicken Wrap', price: '9.50', currency: 'GBP' }];
+
+  it('should accept a name with an address or menu items', () => {
+    expect(adapter.isValidVenuePage({ name: 'Green Kitchen', address, menuItems: [] })).toBe(true);
+    expect(adapter.isValidVenuePage({ name: 'Green Kitchen', menuItems })).toBe(true);
+  });
+
+  it('should reject pages without a name', () => {
+    expect(adapter.isValidVenuePage({ name: ' ', address, menuItems })).toBe(false);
+  });
+
+  it('should reject pages with only a name', () => {
+    expect(adapter.isValidVenuePage({ name: 'Deliveroo', menuItems: [] })).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Platform Fixture Replay Tests (Unit Tests - No External Dependencies)
+ *
+ * Replays every venue page in src/tests/fixtures/platforms through its
+ * platform adapter and compares the VenuePageData with the saved
+ * expectation. Record new pages with `pnpm record-fixture`; after an
+ * intended parser change, re-record expectations with
+ * `pnpm record-fixture --update` and review the diff.
+ *
+ * The current pages are synthetic (hand-written after each platform's
+ * markup, see the comment at the top of each page) until they are
+ * replaced with recordings of live venues, so parsing of live markup is
+ * unverified; every platform without a recorded page shows up as a todo.
+ *
+ * Only the smart-discovery adapters (BasePlatformAdapter) are covered. The
+ * browser scrapers in src/scrapers/delivery parse the live DOM and are out
+ * of scope here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DeliveryPlatform } from '@pad/core';
+import { DeliverooAdapter } from '../agents/smart-discovery/platforms/DeliverooAdapter.js';
+import { GlovoAdapter } from '../agents/smart-discovery/platforms/GlovoAdapter.js';
+import { JustEatAdapter } from '../agents/smart-discovery/platforms/JustEatAdapter.js';
+import { LieferandoAdapter } from '../agents/smart-discovery/platforms/LieferandoAdapter.js';
+import { SmoodAdapter } from '../agents/smart-discovery/platforms/SmoodAdapter.js';
+import { UberEatsAdapter } from '../agents/smart-discovery/platforms/UberEatsAdapter.js';
+import { WoltAdapter } from '../agents/smart-discovery/platforms/WoltAdapter.js';
+import type { BasePlatformAdapter } from '../agents/smart-discovery/platforms/BasePlatformAdapter.js';
+import {
+  listPlatformFixtures,
+  readFixtureExpectation,
+  readFixtureHtml,
+  toFixtureData,
+} from '../services/PlatformFixtures.js';
+
+// Adapters are constructed directly so the suite doesn't load the version registry
+const adapters: Record<DeliveryPlatform, BasePlatformAdapter> = {
+  'just-eat': new JustEatAdapter(),
+  'uber-eats': new UberEatsAdapter(),
+  'lieferando': new LieferandoAdapter(),
+  'wolt': new WoltAdapter(),
+  'smood': new SmoodAdapter(),
+  'deliveroo': new DeliverooAdapter(),
+  'glovo': new GlovoAdapter(),
+};
+
+const fixtures = listPlatformFixtures();
+
+describe('Platform fixtures', () => {
+  it('should have at least one fixture per platform adapter', () => {
+    const covered = new Set(fixtures.map((fixture) => fixture.platform));
+    expect([...covered].sort()).toEqual(Object.keys(adapters).sort());
+  });
+
+  for (const platform of Object.keys(adapters) as DeliveryPlatform[]) {
+    const recorded = fixtures.some(
+      (fixture) => fixture.platform === platform && readFixtureExpectation(fixture)?.source === 'recorded'
+    );
+    if (!recorded) {
+      it.todo(`should parse a recorded live ${platform} venue page`);
+    }
+  }
+
+  for (const fixture of fixtures) {
+    describe(`${fixture.platform}/${fixture.name}`, () => {
+      const adapter = adapters[fixture.platform];
+
+      it('should have a recorded expectation', () => {
+        expect(adapter, `no adapter for ${fixture.platform}`).toBeDefined();
+        expect(readFixtureExpectation(fixture), `run: pnpm record-fixture --update --platform ${fixture.platform}`).not.toBeNull();
+      });
+
+      it('should say where the page came from', () => {
+        const expectation = readFixtureExpectation(fixture);
+        if (!expectation) return;
+
+        if (expectation.source === 'recorded') {
+          expect(expectation.url).toBeTruthy();
+          expect(expectation.recorded_at).toBeTruthy();
+        } else {
+          expect(expectation.source).toBe('synthetic');
+          expect(expectation.recorded_at).toBeUndefined();
+          expect(readFixtureHtml(fixture)).toContain('Synthetic fixture');
+        }
+      });
+
+      it('should parse to the recorded venue data', () => {
+        const expectation = readFixtureExpectation(fixture);
+        if (!adapter || !expectation) return;
+
+        const data = adapter.parseVenuePage(readFixtureHtml(fixture));
+
+        expect(adapter.isValidVenuePage(data)).toBe(true);
+        expect(toFixtureData(data)).toEqual(expectation.data);
+      });
+    });
+  }
+});
@@ -0,0 +1,92 @@
+/**
+ * Product Catalog Sync Tests (Unit Tests - No External Dependencies)
+ *
+ * Diffs a catalog against stored products and planted-astro content
+ * entries without Firestore.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Product } from '@pad/core';
+import { diffProductCatalog, type ProductContentEntry } from '../services/ProductCatalogSync.js';
+
+vi.mock('@pad/database', () => ({ products: {} }));
+
+const nature: Product = {
+  sku: 'PLANTED-CHICKEN-NATURE-200G',
+  name: { de: 'planted.chicken Nature', en: 'planted.chicken Nature' },
+  category: 'chicken',
+  variant: 'nature',
+  weight_grams: 200,
+  image_url: 'https://storage.googleapis.com/pad-images/products/chicken-nature.webp',
+  markets: ['CH', 'DE'],
+  retail_only: false,
+  active: true,
+  slug: 'chicken-nature',
+};
+
+const burger: Product = {
+  ...nature,
+  sku: 'PLANTED-CHICKEN-BURGER-220G',
+  name: { de: 'planted.chicken Burger', en: 'planted.chicken Burger' },
+  variant: 'burger',
+  weight_grams: 220,
+  slug: 'chicken-burger',
+};
+
+const content: ProductContentEntry[] = [
+  { slug: 'chicken-nature', category: 'chicken', name: 'planted.chicken', variant: 'Nature' },
+  { slug: 'chicken-burger', category: 'burger', name: 'planted.chicken', variant: 'Burger' },
+  { slug: 'kebab', category: 'kebab', name: 'planted.kebab', variant: 'Original' },
+];
+
+describe('diffProductCatalog', () => {
+  it('reports catalog products missing from Firestore', () => {
+    const diff = diffProductCatalog([nature, burger], [nature]);
+
+    expect(diff.missing.map((p) => p.sku)).toEqual([burger.sku]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('reports changed fields, ignoring localized name key order', () => {
+    const stored: Product = {
+      ...nature,
+      name: { en: 'planted.chicken Nature', de: 'planted.chicken Nature' },
+      markets: ['CH'],
+      slug: undefined,
+    };
+
+    const diff = diffProductCatalog([nature], [stored]);
+
+    expect(diff.changed).toEqual([{ sku: nature.sku, fields: ['markets', 'slug'] }]);
+  });
+
+  it('reports only active products that are not in the catalog', () => {
+    const adminCreated: Product = { ...nature, sku: 'PLANTED-CHICKEN-TIKKA-200G', slug: undefined };
+    const discontinued: Product = { ...nature, sku: 'PLANTED-CHICKEN-CURRY-200G', active: false };
+
+    const diff = diffProductCatalog([nature], [nature, adminCreated, discontinued]);
+
+    expect(diff.extra.map((p) => p.sku)).toEqual([adminCreated.sku]);
+  });
+
+  it('links catalog products to content entries by slug', () => {
+    const unlinked: Product = { ...nature, sku: 'PLANTED-CHICKEN-TIKKA-200G', slug: undefined };
+    const noPage: Product = { ...nature, sku: 'PLANTED-DUCK-ASIAN-200G', category: 'duck', slug: 'duck-asian' };
+
+    const diff = diffProductCatalog([nature, burger, unlinked, noPage], [], content);
+
+    expect(diff.unlinked.map((p) => p.sku)).toEqual([unlinked.sku]);
+    expect(diff.missingContent.map((p) => p.sku)).toEqual([noPage.sku]);
+    expect(diff.orphanContent.map((entry) => entry.slug)).toEqual(['kebab']);
+    expect(diff.categoryMismatches).toEqual([
+      { sku: burger.sku, slug: 'chicken-burger', catalog: 'chicken', content: 'burger' },
+    ]);
+  });
+
+  it('skips the content diff without content entries', () => {
+    const diff = diffProductCatalog([{ ...nature, slug: undefined }], [nature]);
+
+    expect(diff.unlinked).toEqual([]);
+    expect(diff.orphanContent).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Retail Availability Sync Tests (Unit Tests - No External Dependencies)
+ *
+ * Runs RetailAvailabilitySync.save against in-memory chains, venues and
+ * retail availability records.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DataSource, RetailAvailability } from '@pad/core';
+import { RetailAvailabilitySync, type ScrapedRetailProduct } from '../services/RetailAvailabilitySync.js';
+
+interface StoredRecord {
+  id: string;
+  venue_id: string;
+  product_sku: string;
+  in_stock: boolean;
+  price?: { regular: number; currency: string };
+  source: DataSource;
+}
+
+const store = vi.hoisted(() => ({ records: [] as StoredRecord[], logs: [] as { reason: string }[] }));
+
+vi.mock('@pad/database', () => ({
+  chains: {
+    findByName: async (name: string) => (name === 'Migros' ? { id: 'migros', name: 'Migros' } : null),
+  },
+  venues: {
+    getByChain: async () => [
+      { id: 'v-zh', name: 'Migros Zürich', type: 'retail', address: { country: 'CH' } },
+      { id: 'v-be', name: 'Migros Bern', type: 'retail', address: { country: 'CH' } },
+      { id: 'v-fr', name: 'Migros Annemasse', type: 'retail', address: { country: 'FR' } },
+    ],
+  },
+  retailAvailability: {
+    getByVenue: async (venueId: string) =>
+      store.records.filter((r) => r.venue_id === venueId) as unknown as RetailAvailability[],
+    upsert: async (
+      input: { venue_id: string; product_sku: string; in_stock: boolean; price?: StoredRecord['price'] },
+      source: DataSource
+    ) => {
+      const existing = store.records.find(
+        (r) => r.venue_id === input.venue_id && r.product_sku === input.product_sku
+      );
+      if (!existing) {
+        const id = `ra${store.records.length + 1}`;
+        store.records.push({ id, ...input, source });
+        return { action: 'created', id, changes: [] };
+      }
+      const changed = existing.in_stock !== input.in_stock;
+      existing.in_stock = input.in_stock;
+      existing.price = input.price ?? existing.price;
+      existing.source = source;
+      return { action: changed ? 'updated' : 'unchanged', id: existing.id, changes: [] };
+    },
+  },
+  changeLogs: {
+    log: async (entry: { reason: string }) => {
+      store.logs.push(entry);
+    },
+  },
+}));
+
+function product(name: string, overrides: Partial<ScrapedRetailProduct> = {}): ScrapedRetailProduct {
+  return {
+    id: name,
+    name,
+    price: 4.95,
+    currency: 'CHF',
+    productUrl: `https://www.migros.ch/${encodeURIComponent(name)}`,
+    available: true,
+    ...overrides,
+  };
+}
+
+const migrosSource: DataSource = { type: 'scraped', scraper_id: 'migros-ch' };
+
+function createSync(): RetailAvailabilitySync {
+  return new RetailAvailabilitySync({ chainName: 'Migros', scraperId: 'migros-ch', country: 'CH' });
+}
+
+function recordOf(venueId: string, sku: string): StoredRecord | undefined {
+  return store.records.find((r) => r.venue_id === venueId && r.product_sku === sku);
+}
+
+beforeEach(() => {
+  store.records = [];
+  store.logs = [];
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('RetailAvailabilitySync aggregation', () => {
+  it('merges listings of the same SKU: in stock if any is, lowest price wins', async () => {
+    const result = await createSync().save([
+      product('planted.kebab Original', { price: 5.5, available: false }),
+      product('planted.kebab 200g', { price: 4.95, available: true }),
+      product('Planted Kebab Original Aktion', { price: 0, available: false }),
+    ]);
+
+    expect(result.matched).toBe(3);
+    expect(result.created).toBe(2); // One SKU at both Swiss venues
+    expect(recordOf('v-zh', 'PLANTED-KEBAB-ORIGINAL-200G')).toMatchObject({
+      in_stock: true,
+      price: { regular: 4.95, currency: 'CHF' },
+    });
+    expect(recordOf('v-fr', 'PLANTED-KEBAB-ORIGINAL-200G')).toBeUndefined();
+  });
+
+  it('reports listings that match no SKU', async () => {
+    const result = await createSync().save([product('Beyond Burger'), product('planted.chicken Nature')]);
+
+    expect(result.unmatched).toEqual(['Beyond Burger']);
+    expect(result.matched).toBe(1);
+  });
+
+  it('keeps countries apart for multi-country scrapes', async () => {
+    await createSync().save([
+      product('planted.chicken Nature'),
+      product('planted.chicken Nature', { country: 'FR', price: 3.99, currency: 'EUR' }),
+    ]);
+
+    expect(recordOf('v-zh', 'PLANTED-CHICKEN-NATURE-200G')?.price).toEqual({ regular: 4.95, currency: 'CHF' });
+    expect(recordOf('v-fr', 'PLANTED-CHICKEN-NATURE-200G')?.price).toEqual({ regular: 3.99, currency: 'EUR' });
+  });
+});
+
+describe('RetailAvailabilitySync delisting', () => {
+  it('sets SKUs no longer listed to out of stock in the scraped country only', async () => {
+    store.records = [
+      { id: 'old1', venue_id: 'v-zh', product_sku: 'PLANTED-DUCK-ASIAN-200G', in_stock: true, source: migrosSource },
+      { id: 'old2', venue_id: 'v-fr', product_sku: 'PLANTED-DUCK-ASIAN-200G', in_stock: true, source: migrosSource },
+    ];
+
+    const result = await createSync().save([product('planted.kebab Original')]);
+
+    expect(result.delisted).toBe(1);
+    expect(recordOf('v-zh', 'PLANTED-DUCK-ASIAN-200G')?.in_stock).toBe(false);
+    // FR was not part of this scrape
+    expect(recordOf('v-fr', 'PLANTED-DUCK-ASIAN-200G')?.in_stock).toBe(true);
+    expect(store.logs.map((log) => log.reason)).toContain(
+      'PLANTED-DUCK-ASIAN-200G no longer listed in the Migros online shop (Migros Zürich)'
+    );
+  });
+
+  it('leaves records from other sources alone', async () => {
+    store.records = [
+      {
+        id: 'manual',
+        venue_id: 'v-zh',
+        product_sku: 'PLANTED-DUCK-ASIAN-200G',
+        in_stock: true,
+        source: { type: 'manual' },
+      },
+    ];
+
+    const result = await createSync().save([product('planted.kebab Original')]);
+
+    expect(result.delisted).toBe(0);
+    expect(recordOf('v-zh', 'PLANTED-DUCK-ASIAN-200G')?.in_stock).toBe(true);
+  });
+
+  it('delists everything when no listing matches any more', async () => {
+    store.records = [
+      { id: 'old1', venue_id: 'v-be', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, source: migrosSource },
+    ];
+
+    const result = await createSync().save([product('Beyond Burger')]);
+
+    expect(result.delisted).toBe(1);
+    expect(recordOf('v-be', 'PLANTED-KEBAB-ORIGINAL-200G')?.in_stock).toBe(false);
+  });
+
+  it('does not delist after an empty scrape', async () => {
+    store.records = [
+      { id: 'old1', venue_id: 'v-be', product_sku: 'PLANTED-KEBAB-ORIGINAL-200G', in_stock: true, source: migrosSource },
+    ];
+
+    const result = await createSync().save([]);
+
+    expect(result.delisted).toBe(0);
+    expect(recordOf('v-be', 'PLANTED-KEBAB-ORIGINAL-200G')?.in_stock).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Verification Worker Tests (Unit Tests - No External Dependencies)
+ *
+ * verifyVenueOnPlatform with the platform page fetch and the dish finder's
+ * AI extraction stubbed out.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({
+  page: {} as { menuItems: { name: string; description?: string }[]; rawHtml?: string; valid?: boolean },
+  extracted: [] as { name: string }[],
+  extractions: 0,
+}));
+
+vi.mock('@pad/database', () => ({
+  scraperRuns: {},
+  venues: {},
+  verificationJobs: {},
+}));
+
+vi.mock('../agents/smart-discovery/platforms/index.js', () => ({
+  getPlatformFromUrl: () => 'wolt',
+  getAdapter: () => ({
+    isValidVenuePage: () => state.page.valid !== false,
+    findPlantedItems: (items: { name: string }[]) => items.filter((item) => /planted/i.test(item.name)),
+  }),
+  fetchVenuePageData: async () => state.page,
+}));
+
+vi.mock('../agents/smart-dish-finder/DishFinderAIClient.js', () => ({
+  getDishFinderAIClient: () => ({
+    extractDishes: async () => {
+      state.extractions++;
+      return { dishes: state.extracted };
+    },
+  }),
+}));
+
+const { verifyVenueOnPlatform } = await import('../services/VerificationWorker.js');
+
+const job = {
+  url: 'https://wolt.com/de/che/zurich/restaurant/tibits',
+  platform: 'wolt' as const,
+  venue_id: 'v1',
+  venue_name: 'Tibits',
+  country: 'CH',
+};
+
+beforeEach(() => {
+  state.page = { menuItems: [] };
+  state.extracted = [];
+  state.extractions = 0;
+});
+
+describe('verifyVenueOnPlatform', () => {
+  it('counts the planted items on the menu', async () => {
+    state.page = { menuItems: [{ name: 'Planted Kebab' }, { name: 'Falafel' }] };
+
+    expect(await verifyVenueOnPlatform(job)).toBe(1);
+    expect(state.extractions).toBe(0);
+  });
+
+  it('fails when the menu has no planted items', async () => {
+    state.page = { menuItems: [{ name: 'Falafel' }] };
+
+    await expect(verifyVenueOnPlatform(job)).rejects.toThrow('No planted items among 1 menu items');
+  });
+
+  it('fails for pages that are not a venue page', async () => {
+    state.page = { menuItems: [], valid: false };
+
+    await expect(verifyVenueOnPlatform(job)).rejects.toThrow('could not be parsed');
+  });
+
+  it('does not verify an empty menu', async () => {
+    state.page = { menuItems: [] };
+
+    await expect(verifyVenueOnPlatform(job)).rejects.toThrow('No menu items parsed');
+    expect(state.extractions).toBe(0);
+  });
+
+  it('falls back to AI extraction when the menu could not be parsed', async () => {
+    state.page = { menuItems: [], rawHtml: '<html></html>' };
+    state.extracted = [{ name: 'Planted Kebab' }];
+
+    expect(await verifyVenueOnPlatform(job)).toBe(1);
+    expect(state.extractions).toBe(1);
+  });
+
+  it('stays unverified when AI extraction finds no planted dishes', async () => {
+    state.page = { menuItems: [], rawHtml: '<html></html>' };
+
+    await expect(verifyVenueOnPlatform(job)).rejects.toThrow('no planted dishes extracted');
+  });
+});